@@ -6,22 +6,35 @@
 CREATE TABLE accounts (
     id INT PRIMARY KEY AUTO_INCREMENT,
     email VARCHAR(255) UNIQUE NOT NULL,
-    password VARCHAR(255) NOT NULL,
+    password VARCHAR(255),
     first_name VARCHAR(100),
     last_name VARCHAR(100),
     phone VARCHAR(20),
+    phone_verified_at DATETIME,
+    -- Một số điện thoại chỉ được xác thực cho một tài khoản
+    verified_phone VARCHAR(20) AS (IF(phone_verified_at IS NULL, NULL, phone)) STORED,
     date_of_birth DATE,
     gender ENUM('male', 'female', 'other'),
     avatar_url VARCHAR(500),
+    -- Ngôn ngữ của email gửi cho người dùng (vi, en)
+    preferred_locale VARCHAR(10) NOT NULL DEFAULT 'vi',
     is_verified BOOLEAN DEFAULT FALSE,
     is_active BOOLEAN DEFAULT TRUE,
+    two_factor_enabled BOOLEAN DEFAULT FALSE,
+    two_factor_secret TEXT,
+    two_factor_confirmed_at DATETIME,
+    sms_two_factor_enabled BOOLEAN DEFAULT FALSE,
+    locked_until DATETIME,
+    lockout_count INT DEFAULT 0,
     last_login DATETIME,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
     
     INDEX idx_email (email),
     INDEX idx_active (is_active),
-    INDEX idx_verified (is_verified)
+    INDEX idx_verified (is_verified),
+    INDEX idx_locked_until (locked_until),
+    UNIQUE KEY unique_verified_phone (verified_phone)
 );
 
 -- Bảng Roles (vai trò)
@@ -89,19 +102,34 @@ CREATE TABLE grant_permissions (
     INDEX idx_expires_at (expires_at)
 );
 
+-- Bảng AuditExportKeys (khóa bất đối xứng ký bản xuất nhật ký kiểm toán, không bao giờ hết hạn)
+CREATE TABLE audit_export_keys (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    kid VARCHAR(128) UNIQUE NOT NULL,
+    algorithm VARCHAR(10) NOT NULL,
+    private_key TEXT NOT NULL,
+    public_key TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Bảng RefreshTokens (lưu trữ refresh tokens)
 CREATE TABLE refresh_tokens (
     id INT PRIMARY KEY AUTO_INCREMENT,
     account_id INT NOT NULL,
+    family_id VARCHAR(64) NOT NULL,
     token_hash VARCHAR(255) NOT NULL,
     expires_at DATETIME NOT NULL,
     is_revoked BOOLEAN DEFAULT FALSE,
     device_info TEXT,
     ip_address VARCHAR(45),
+    client_id VARCHAR(64),
+    scope VARCHAR(1000),
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     
     FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE,
     INDEX idx_account_id (account_id),
+    INDEX idx_family_id (family_id),
+    INDEX idx_client_id (client_id),
     INDEX idx_token_hash (token_hash),
     INDEX idx_expires_at (expires_at),
     INDEX idx_revoked (is_revoked)
@@ -123,6 +151,22 @@ CREATE TABLE password_resets (
     INDEX idx_used (is_used)
 );
 
+-- Bảng MagicLinkTokens (đăng nhập không cần mật khẩu)
+CREATE TABLE magic_link_tokens (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    account_id INT NOT NULL,
+    token_hash VARCHAR(255) NOT NULL,
+    expires_at DATETIME NOT NULL,
+    is_used BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE,
+    INDEX idx_account_id (account_id),
+    INDEX idx_token_hash (token_hash),
+    INDEX idx_expires_at (expires_at),
+    INDEX idx_used (is_used)
+);
+
 -- Bảng EmailVerifications (xác thực email)
 CREATE TABLE email_verifications (
     id INT PRIMARY KEY AUTO_INCREMENT,
@@ -139,6 +183,250 @@ CREATE TABLE email_verifications (
     INDEX idx_used (is_used)
 );
 
+-- Bảng TwoFactorRecoveryCodes (mã khôi phục xác thực hai lớp)
+CREATE TABLE two_factor_recovery_codes (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    account_id INT NOT NULL,
+    code_hash VARCHAR(255) NOT NULL,
+    is_used BOOLEAN DEFAULT FALSE,
+    used_at DATETIME,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE,
+    INDEX idx_account_id (account_id),
+    INDEX idx_code_hash (code_hash),
+    INDEX idx_used (is_used)
+);
+
+-- Bảng SecurityEvents (sự kiện bảo mật như phát hiện tái sử dụng refresh token)
+CREATE TABLE security_events (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    account_id INT NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    ip_address VARCHAR(45),
+    details JSON,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE,
+    INDEX idx_account_id (account_id),
+    INDEX idx_event_type (event_type),
+    INDEX idx_created_at (created_at)
+);
+
+-- Bảng JwtSigningKeys (vòng khóa ký JWT, khóa riêng được mã hóa)
+CREATE TABLE jwt_signing_keys (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    kid VARCHAR(128) UNIQUE NOT NULL,
+    algorithm VARCHAR(10) NOT NULL,
+    private_key TEXT NOT NULL,
+    public_key TEXT,
+    status ENUM('pending', 'active', 'retired') NOT NULL DEFAULT 'pending',
+    activates_at DATETIME NOT NULL,
+    retired_at DATETIME,
+    expires_at DATETIME,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    INDEX idx_status (status),
+    INDEX idx_activates_at (activates_at),
+    INDEX idx_expires_at (expires_at)
+);
+
+-- Bảng OAuthClients (ứng dụng được phép đăng nhập qua OAuth 2.0)
+CREATE TABLE oauth_clients (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    client_id VARCHAR(64) UNIQUE NOT NULL,
+    client_type ENUM('public', 'confidential') NOT NULL DEFAULT 'public',
+    client_secret_hash VARCHAR(255),
+    name VARCHAR(100) NOT NULL,
+    redirect_uris JSON NOT NULL,
+    scopes JSON NOT NULL,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_by INT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (created_by) REFERENCES accounts(id) ON DELETE SET NULL,
+    INDEX idx_active (is_active)
+);
+
+-- Bảng OAuthAuthorizationCodes (mã ủy quyền dùng một lần, PKCE)
+CREATE TABLE oauth_authorization_codes (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    code_hash VARCHAR(255) UNIQUE NOT NULL,
+    client_id VARCHAR(64) NOT NULL,
+    account_id INT NOT NULL,
+    redirect_uri VARCHAR(2000) NOT NULL,
+    scope VARCHAR(1000) NOT NULL DEFAULT '',
+    code_challenge VARCHAR(128) NOT NULL,
+    code_challenge_method VARCHAR(10) NOT NULL DEFAULT 'S256',
+    nonce VARCHAR(255),
+    expires_at DATETIME NOT NULL,
+    is_used BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (client_id) REFERENCES oauth_clients(client_id) ON DELETE CASCADE,
+    FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE,
+    INDEX idx_expires_at (expires_at)
+);
+
+-- Bảng OAuthConsents (phạm vi người dùng đã đồng ý cấp cho từng ứng dụng)
+CREATE TABLE oauth_consents (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    account_id INT NOT NULL,
+    client_id VARCHAR(64) NOT NULL,
+    scope VARCHAR(1000) NOT NULL DEFAULT '',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE,
+    FOREIGN KEY (client_id) REFERENCES oauth_clients(client_id) ON DELETE CASCADE,
+    UNIQUE KEY unique_account_client (account_id, client_id)
+);
+
+-- Bảng LinkedIdentities (tài khoản mạng xã hội liên kết với account)
+CREATE TABLE linked_identities (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    account_id INT NOT NULL,
+    provider VARCHAR(50) NOT NULL,
+    subject VARCHAR(255) NOT NULL,
+    email VARCHAR(255),
+    last_login_at DATETIME,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_provider_subject (provider, subject),
+    UNIQUE KEY unique_account_provider (account_id, provider)
+);
+
+-- Bảng WebAuthnCredentials (passkey đăng nhập không mật khẩu và xác thực hai lớp)
+CREATE TABLE webauthn_credentials (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    account_id INT NOT NULL,
+    credential_id VARCHAR(512) NOT NULL,
+    public_key TEXT NOT NULL,
+    algorithm INT NOT NULL,
+    sign_count INT UNSIGNED NOT NULL DEFAULT 0,
+    transports VARCHAR(255),
+    name VARCHAR(100),
+    last_used_at DATETIME,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_credential_id (credential_id),
+    INDEX idx_account_id (account_id)
+);
+
+-- Bảng AuditEvents (nhật ký kiểm toán: ai đã làm gì, với tài khoản nào, thay đổi những gì)
+CREATE TABLE audit_events (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    actor_account_id INT,
+    actor_client_id VARCHAR(255),
+    target_account_id INT,
+    action VARCHAR(50) NOT NULL,
+    ip_address VARCHAR(45),
+    user_agent TEXT,
+    changes JSON,
+    prev_hash CHAR(64) NOT NULL,
+    hash CHAR(64) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    -- Không dùng khóa ngoại để nhật ký vẫn còn khi tài khoản bị xóa
+    INDEX idx_actor_account_id (actor_account_id),
+    INDEX idx_target_account_id (target_account_id),
+    INDEX idx_action (action),
+    INDEX idx_created_at (created_at)
+);
+
+-- Bảng AuditPendingEvents (sự kiện kiểm toán đã ghi nhận nhưng chưa nối vào chuỗi băm)
+-- Request chỉ chèn vào bảng này, không khóa gì; bộ ghi chuyển các bản ghi sang audit_events theo lô
+CREATE TABLE audit_pending_events (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    actor_account_id INT,
+    actor_client_id VARCHAR(255),
+    target_account_id INT,
+    action VARCHAR(50) NOT NULL,
+    ip_address VARCHAR(45),
+    user_agent TEXT,
+    changes JSON,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Bảng AuditChain (đầu chuỗi băm của nhật ký kiểm toán, chỉ có một dòng)
+-- Khóa dòng này khi ghi để các bản ghi được nối vào chuỗi lần lượt từng cái một
+CREATE TABLE audit_chain (
+    id TINYINT PRIMARY KEY,
+    last_event_id BIGINT,
+    last_hash CHAR(64) NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+-- Bảng KnownDevices (thiết bị đã từng đăng nhập, dùng để cảnh báo đăng nhập từ thiết bị mới)
+CREATE TABLE known_devices (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    account_id INT NOT NULL,
+    fingerprint CHAR(64) NOT NULL,
+    device_info TEXT,
+    ip_address VARCHAR(45),
+    first_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_account_fingerprint (account_id, fingerprint)
+);
+
+-- Bảng WebhookSubscriptions (địa chỉ nhận sự kiện của hệ thống bên ngoài như SIEM, CRM)
+CREATE TABLE webhook_subscriptions (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    url VARCHAR(2000) NOT NULL,
+    events JSON NOT NULL,
+    secret_encrypted TEXT NOT NULL,
+    description VARCHAR(255),
+    is_active BOOLEAN DEFAULT TRUE,
+    created_by INT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (created_by) REFERENCES accounts(id) ON DELETE SET NULL,
+    INDEX idx_active (is_active)
+);
+
+-- Bảng WebhookDeliveries (hàng đợi gửi webhook; status = 'dead' là danh sách gửi thất bại sau khi hết lượt thử)
+CREATE TABLE webhook_deliveries (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    subscription_id INT NOT NULL,
+    event_type VARCHAR(50) NOT NULL,
+    payload JSON NOT NULL,
+    status ENUM('pending', 'delivered', 'dead') NOT NULL DEFAULT 'pending',
+    attempts INT NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_status_code INT,
+    last_error TEXT,
+    delivered_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (subscription_id) REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+    INDEX idx_status_next_attempt (status, next_attempt_at)
+);
+
+-- Bảng OutboxMessages (email và sự kiện ghi cùng giao dịch với thay đổi dữ liệu, được worker gửi đi sau)
+-- Nội dung được mã hóa vì có thể chứa token xác thực; tin nhắn đã xử lý bị xóa, status = 'dead' là tin nhắn hết lượt thử
+CREATE TABLE outbox_messages (
+    id BIGINT PRIMARY KEY AUTO_INCREMENT,
+    type VARCHAR(50) NOT NULL,
+    payload_encrypted TEXT NOT NULL,
+    status ENUM('pending', 'dead') NOT NULL DEFAULT 'pending',
+    attempts INT NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    INDEX idx_status_next_attempt (status, next_attempt_at)
+);
+
+-- Khởi tạo đầu chuỗi nhật ký kiểm toán (bản ghi đầu tiên nối vào chuỗi 64 số 0)
+INSERT INTO audit_chain (id, last_event_id, last_hash) VALUES
+(1, NULL, REPEAT('0', 64));
+
 -- Insert dữ liệu mẫu cho Roles
 INSERT INTO roles (name, description) VALUES
 ('admin', 'Quản trị viên hệ thống'),
@@ -170,7 +458,29 @@ INSERT INTO permissions (name, description, resource, action) VALUES
 -- Grant permissions
 ('grant_permissions', 'Gán quyền cho người dùng', 'grant', 'create'),
 ('revoke_permissions', 'Thu hồi quyền của người dùng', 'grant', 'delete'),
-('view_user_permissions', 'Xem quyền hạn của người dùng', 'grant', 'read');
+('view_user_permissions', 'Xem quyền hạn của người dùng', 'grant', 'read'),
+
+-- Signing key permissions
+('view_signing_keys', 'Xem danh sách khóa ký JWT', 'signing_key', 'read'),
+('rotate_signing_keys', 'Xoay vòng khóa ký JWT', 'signing_key', 'rotate'),
+
+-- OAuth client permissions
+('view_oauth_clients', 'Xem danh sách ứng dụng OAuth', 'oauth_client', 'read'),
+('create_oauth_client', 'Đăng ký ứng dụng OAuth', 'oauth_client', 'create'),
+('update_oauth_client', 'Cấp lại client secret cho ứng dụng OAuth', 'oauth_client', 'update'),
+('delete_oauth_client', 'Vô hiệu hóa ứng dụng OAuth', 'oauth_client', 'delete'),
+
+-- Session permissions
+('manage_sessions', 'Xem và thu hồi phiên đăng nhập của người dùng', 'session', 'manage'),
+
+-- Audit permissions
+('view_audit_events', 'Xem nhật ký kiểm toán', 'audit', 'read'),
+
+-- Webhook permissions
+('manage_webhooks', 'Quản lý webhook và xem các lần gửi thất bại', 'webhook', 'manage'),
+
+-- Email template permissions
+('preview_email_templates', 'Xem trước mẫu email', 'email_template', 'read');
 
 -- Gán quyền cho role admin (có tất cả quyền)
 INSERT INTO role_permissions (role_id, permission_id)
@@ -0,0 +1,25 @@
+import 'dotenv/config';
+import { pool } from '../src/config/database';
+import { AuditService } from '../src/services/auditService';
+
+// Kiểm tra chuỗi băm của nhật ký kiểm toán; thoát với mã 1 nếu chuỗi bị đứt để dùng được trong cron/CI
+async function verifyAuditChain() {
+  try {
+    const result = await AuditService.verifyChain();
+
+    if (result.valid) {
+      console.log(`✅ Nhật ký kiểm toán toàn vẹn (${result.checked} bản ghi)`);
+    } else {
+      console.error(`❌ Chuỗi nhật ký bị đứt tại bản ghi ${result.broken_at?.id} (${result.broken_at?.reason})`);
+      console.error(`   Bản ghi hợp lệ cuối cùng: ${result.last_event_id ?? 'không có'}, đã kiểm tra ${result.checked} bản ghi`);
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ Lỗi:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+verifyAuditChain();
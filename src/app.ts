@@ -4,10 +4,18 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import dotenv from 'dotenv';
 import { createMySQLConnection, connectRedis } from './config/database';
+import { JwtUtils } from './utils';
+import { KeyRingService } from './services/keyRingService';
+import { OutboxService } from './services/outboxService';
+import { WebhookService } from './services/webhookService';
+import { AuditService } from './services/auditService';
+import { SmsService } from './services/smsService';
 import { setupSwagger } from './config/swagger';
 import { ErrorMiddleware } from './middleware';
 import { generalLimiter } from './middleware/rateLimiter';
 import routes from './routes';
+import wellKnownRoutes from './routes/wellKnownRoutes';
+import oauthRoutes from './routes/oauthRoutes';
 
 dotenv.config();
 
@@ -66,6 +74,12 @@ setupSwagger(app);
 // API routes
 app.use('/api/v1', routes);
 
+// Discovery documents live at the server root as required by their specs
+app.use('/.well-known', wellKnownRoutes);
+
+// OAuth 2.0 protocol endpoints
+app.use('/oauth', oauthRoutes);
+
 // Root route
 app.get('/', (req, res) => {
   res.json({
@@ -96,6 +110,20 @@ async function startServer() {
     await connectRedis();
     console.log('✅ Redis connection successful');
 
+    // Load JWT signing and audit export keys and keep them in sync with scheduled rotations
+    JwtUtils.loadSigningKey();
+    await KeyRingService.refresh();
+    KeyRingService.startScheduler();
+    console.log('✅ JWT key ring loaded');
+
+    // Misconfigured SMS stops the server here rather than failing the first login code
+    SmsService.configure();
+
+    // Send queued emails, events and webhook deliveries in the background
+    OutboxService.startScheduler();
+    WebhookService.startScheduler();
+    AuditService.startScheduler();
+
     // Start server
     app.listen(PORT, () => {
       console.log(`🚀 Server is running on port ${PORT}`);
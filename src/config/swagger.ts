@@ -36,6 +36,11 @@ const options: swaggerJsdoc.Options = {
           in: 'cookie',
           name: 'refreshToken',
         },
+        clientBasicAuth: {
+          type: 'http',
+          scheme: 'basic',
+          description: 'client_id and client_secret of a confidential OAuth client',
+        },
       },
       schemas: {
         // Auth Schemas
@@ -65,6 +70,12 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               example: '+1234567890',
             },
+            preferred_locale: {
+              type: 'string',
+              enum: ['vi', 'en'],
+              description: 'Language of the emails sent to the account; DEFAULT_LOCALE when omitted',
+              example: 'vi',
+            },
           },
         },
         LoginRequest: {
@@ -93,6 +104,100 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        MagicLinkRequest: {
+          type: 'object',
+          required: ['email'],
+          properties: {
+            email: {
+              type: 'string',
+              format: 'email',
+              example: 'user@example.com',
+            },
+          },
+        },
+        MagicLinkVerifyRequest: {
+          type: 'object',
+          required: ['token'],
+          properties: {
+            token: {
+              type: 'string',
+              example: 'magic-link-token-string',
+            },
+          },
+        },
+        SecureAccountRequest: {
+          type: 'object',
+          required: ['token'],
+          properties: {
+            token: {
+              type: 'string',
+              example: 'token-from-new-device-alert',
+            },
+          },
+        },
+        EmailOtpRequest: {
+          type: 'object',
+          required: ['email'],
+          properties: {
+            email: {
+              type: 'string',
+              format: 'email',
+              example: 'user@example.com',
+            },
+          },
+        },
+        EmailOtpVerifyRequest: {
+          type: 'object',
+          required: ['email', 'code'],
+          properties: {
+            email: {
+              type: 'string',
+              format: 'email',
+              example: 'user@example.com',
+            },
+            code: {
+              type: 'string',
+              pattern: '^\\d{6}$',
+              example: '123456',
+            },
+          },
+        },
+        SmsOtpRequest: {
+          type: 'object',
+          required: ['phone'],
+          properties: {
+            phone: {
+              type: 'string',
+              example: '0912345678',
+            },
+          },
+        },
+        SmsOtpVerifyRequest: {
+          type: 'object',
+          required: ['phone', 'code'],
+          properties: {
+            phone: {
+              type: 'string',
+              example: '0912345678',
+            },
+            code: {
+              type: 'string',
+              pattern: '^\\d{6}$',
+              example: '123456',
+            },
+          },
+        },
+        PhoneVerifyRequest: {
+          type: 'object',
+          required: ['code'],
+          properties: {
+            code: {
+              type: 'string',
+              pattern: '^\\d{6}$',
+              example: '123456',
+            },
+          },
+        },
         ResetPasswordRequest: {
           type: 'object',
           required: ['token', 'newPassword'],
@@ -110,19 +215,719 @@ const options: swaggerJsdoc.Options = {
         },
         ChangePasswordRequest: {
           type: 'object',
-          required: ['currentPassword', 'newPassword'],
+          required: ['new_password'],
+          description: 'Send either current_password or otp_code',
           properties: {
-            currentPassword: {
+            current_password: {
               type: 'string',
               example: 'OldPassword123!',
             },
-            newPassword: {
+            otp_code: {
+              type: 'string',
+              pattern: '^\\d{6}$',
+              example: '123456',
+            },
+            new_password: {
               type: 'string',
               minLength: 8,
               example: 'NewPassword123!',
             },
           },
         },
+        DeactivateAccountRequest: {
+          type: 'object',
+          description: 'Send either password or otp_code',
+          properties: {
+            password: {
+              type: 'string',
+              example: 'Password123!',
+            },
+            otp_code: {
+              type: 'string',
+              pattern: '^\\d{6}$',
+              example: '123456',
+            },
+          },
+        },
+        // Two-Factor Schemas
+        TwoFactorSetup: {
+          type: 'object',
+          properties: {
+            secret: {
+              type: 'string',
+              example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+            },
+            otpauthUrl: {
+              type: 'string',
+              example: 'otpauth://totp/Volcanion%20Auth%3Auser%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Volcanion+Auth',
+            },
+          },
+        },
+        TwoFactorCodeRequest: {
+          type: 'object',
+          required: ['code'],
+          properties: {
+            code: {
+              type: 'string',
+              pattern: '^\\d{6}$',
+              example: '123456',
+            },
+          },
+        },
+        TwoFactorDisableRequest: {
+          type: 'object',
+          required: ['password'],
+          description: 'Provide either code or recovery_code',
+          properties: {
+            password: {
+              type: 'string',
+              example: 'Password123!',
+            },
+            code: {
+              type: 'string',
+              pattern: '^\\d{6}$',
+              example: '123456',
+            },
+            recovery_code: {
+              type: 'string',
+              example: 'a1b2c-3d4e5',
+            },
+          },
+        },
+        TwoFactorVerifyRequest: {
+          type: 'object',
+          required: ['mfa_token'],
+          description: 'Provide either code or recovery_code',
+          properties: {
+            mfa_token: {
+              type: 'string',
+              example: 'mfa-challenge-token-string',
+            },
+            code: {
+              type: 'string',
+              pattern: '^\\d{6}$',
+              example: '123456',
+            },
+            recovery_code: {
+              type: 'string',
+              example: 'a1b2c-3d4e5',
+            },
+          },
+        },
+        SmsTwoFactorDisableRequest: {
+          type: 'object',
+          required: ['password'],
+          properties: {
+            password: {
+              type: 'string',
+              example: 'Password123!',
+            },
+          },
+        },
+        SmsTwoFactorSendRequest: {
+          type: 'object',
+          required: ['mfa_token'],
+          properties: {
+            mfa_token: {
+              type: 'string',
+              example: 'mfa-challenge-token-string',
+            },
+          },
+        },
+        SmsTwoFactorVerifyRequest: {
+          type: 'object',
+          required: ['mfa_token', 'code'],
+          properties: {
+            mfa_token: {
+              type: 'string',
+              example: 'mfa-challenge-token-string',
+            },
+            code: {
+              type: 'string',
+              pattern: '^\\d{6}$',
+              example: '123456',
+            },
+          },
+        },
+        RecoveryCodes: {
+          type: 'object',
+          properties: {
+            recoveryCodes: {
+              type: 'array',
+              items: {
+                type: 'string',
+              },
+              example: ['a1b2c-3d4e5', 'f6a7b-8c9d0'],
+            },
+          },
+        },
+        PasskeyRegistrationCredential: {
+          type: 'object',
+          required: ['id', 'rawId', 'type', 'response'],
+          description: 'PublicKeyCredential from navigator.credentials.create() with binary fields base64url encoded',
+          properties: {
+            id: { type: 'string' },
+            rawId: { type: 'string' },
+            type: { type: 'string', enum: ['public-key'] },
+            response: {
+              type: 'object',
+              required: ['clientDataJSON', 'attestationObject'],
+              properties: {
+                clientDataJSON: { type: 'string' },
+                attestationObject: { type: 'string' },
+                transports: { type: 'array', items: { type: 'string' }, example: ['internal', 'hybrid'] },
+              },
+            },
+          },
+        },
+        PasskeyAuthenticationCredential: {
+          type: 'object',
+          required: ['id', 'rawId', 'type', 'response'],
+          description: 'PublicKeyCredential from navigator.credentials.get() with binary fields base64url encoded',
+          properties: {
+            id: { type: 'string' },
+            rawId: { type: 'string' },
+            type: { type: 'string', enum: ['public-key'] },
+            response: {
+              type: 'object',
+              required: ['clientDataJSON', 'authenticatorData', 'signature'],
+              properties: {
+                clientDataJSON: { type: 'string' },
+                authenticatorData: { type: 'string' },
+                signature: { type: 'string' },
+                userHandle: { type: 'string', nullable: true },
+              },
+            },
+          },
+        },
+        PasskeyRegisterRequest: {
+          type: 'object',
+          required: ['credential'],
+          description: 'Send either password or otp_code',
+          properties: {
+            credential: { $ref: '#/components/schemas/PasskeyRegistrationCredential' },
+            name: { type: 'string', maxLength: 100, example: 'MacBook Touch ID' },
+            password: { type: 'string', example: 'Password123!' },
+            otp_code: { type: 'string', pattern: '^\\d{6}$', example: '123456' },
+          },
+        },
+        PasskeyLoginRequest: {
+          type: 'object',
+          required: ['credential'],
+          properties: {
+            credential: { $ref: '#/components/schemas/PasskeyAuthenticationCredential' },
+          },
+        },
+        PasskeyMfaOptionsRequest: {
+          type: 'object',
+          required: ['mfa_token'],
+          properties: {
+            mfa_token: { type: 'string', example: 'mfa-challenge-token-string' },
+          },
+        },
+        PasskeyMfaRequest: {
+          type: 'object',
+          required: ['mfa_token', 'credential'],
+          properties: {
+            mfa_token: { type: 'string', example: 'mfa-challenge-token-string' },
+            credential: { $ref: '#/components/schemas/PasskeyAuthenticationCredential' },
+          },
+        },
+        PasskeyCreationOptions: {
+          type: 'object',
+          description: 'PublicKeyCredentialCreationOptions with challenge and ids base64url encoded',
+          properties: {
+            challenge: { type: 'string' },
+            rp: { type: 'object', properties: { id: { type: 'string' }, name: { type: 'string' } } },
+            user: {
+              type: 'object',
+              properties: { id: { type: 'string' }, name: { type: 'string' }, displayName: { type: 'string' } },
+            },
+            pubKeyCredParams: {
+              type: 'array',
+              items: { type: 'object', properties: { type: { type: 'string' }, alg: { type: 'integer' } } },
+            },
+            timeout: { type: 'integer', example: 300000 },
+            attestation: { type: 'string', example: 'none' },
+            authenticatorSelection: { type: 'object' },
+            excludeCredentials: { type: 'array', items: { type: 'object' } },
+          },
+        },
+        PasskeyRequestOptions: {
+          type: 'object',
+          description: 'PublicKeyCredentialRequestOptions with challenge and ids base64url encoded',
+          properties: {
+            challenge: { type: 'string' },
+            rpId: { type: 'string', example: 'login.example.com' },
+            timeout: { type: 'integer', example: 300000 },
+            userVerification: { type: 'string', enum: ['required', 'preferred'] },
+            allowCredentials: { type: 'array', items: { type: 'object' } },
+          },
+        },
+        Passkey: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            name: { type: 'string', nullable: true, example: 'MacBook Touch ID' },
+            transports: { type: 'array', items: { type: 'string' } },
+            sign_count: { type: 'integer', example: 12 },
+            last_used_at: { type: 'string', format: 'date-time', nullable: true },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        JsonWebKeySet: {
+          type: 'object',
+          properties: {
+            keys: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  kty: { type: 'string', example: 'RSA' },
+                  kid: { type: 'string', example: 'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs' },
+                  alg: { type: 'string', example: 'RS256' },
+                  use: { type: 'string', example: 'sig' },
+                  n: { type: 'string' },
+                  e: { type: 'string', example: 'AQAB' },
+                  crv: { type: 'string', example: 'P-256' },
+                  x: { type: 'string' },
+                  y: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        OpenIdConfiguration: {
+          type: 'object',
+          properties: {
+            issuer: { type: 'string', example: 'https://auth.example.com' },
+            authorization_endpoint: { type: 'string', example: 'https://login.example.com/oauth/authorize' },
+            token_endpoint: { type: 'string', example: 'https://auth.example.com/oauth/token' },
+            userinfo_endpoint: { type: 'string', example: 'https://auth.example.com/oauth/userinfo' },
+            introspection_endpoint: { type: 'string', example: 'https://auth.example.com/oauth/introspect' },
+            revocation_endpoint: { type: 'string', example: 'https://auth.example.com/oauth/revoke' },
+            jwks_uri: { type: 'string', example: 'https://auth.example.com/.well-known/jwks.json' },
+            response_types_supported: { type: 'array', items: { type: 'string' }, example: ['code'] },
+            grant_types_supported: { type: 'array', items: { type: 'string' } },
+            subject_types_supported: { type: 'array', items: { type: 'string' }, example: ['public'] },
+            id_token_signing_alg_values_supported: { type: 'array', items: { type: 'string' }, example: ['RS256'] },
+            scopes_supported: { type: 'array', items: { type: 'string' }, example: ['openid', 'profile', 'email'] },
+            claims_supported: { type: 'array', items: { type: 'string' } },
+            token_endpoint_auth_methods_supported: { type: 'array', items: { type: 'string' } },
+            introspection_endpoint_auth_methods_supported: { type: 'array', items: { type: 'string' } },
+            revocation_endpoint_auth_methods_supported: { type: 'array', items: { type: 'string' } },
+            code_challenge_methods_supported: { type: 'array', items: { type: 'string' }, example: ['S256'] },
+          },
+        },
+        RotateSigningKeyRequest: {
+          type: 'object',
+          properties: {
+            activate_in_seconds: {
+              type: 'integer',
+              minimum: 0,
+              maximum: 604800,
+              example: 600,
+              description: 'Delay before the new key starts signing; 0 promotes it immediately',
+            },
+          },
+        },
+        SigningKey: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 2 },
+            kid: { type: 'string', example: 'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs' },
+            algorithm: { type: 'string', enum: ['HS256', 'RS256', 'ES256'] },
+            public_key: { type: 'string', nullable: true },
+            status: { type: 'string', enum: ['pending', 'active', 'retired'] },
+            activates_at: { type: 'string', format: 'date-time' },
+            retired_at: { type: 'string', format: 'date-time', nullable: true },
+            expires_at: { type: 'string', format: 'date-time', nullable: true },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        // OAuth Schemas
+        CreateOAuthClientRequest: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', example: 'Volcanion Mobile' },
+            client_type: {
+              type: 'string',
+              enum: ['public', 'confidential'],
+              default: 'public',
+              description: 'Confidential clients get a client_secret and may use the client_credentials grant',
+            },
+            redirect_uris: {
+              type: 'array',
+              items: { type: 'string' },
+              example: ['https://app.example.com/callback', 'com.example.app:/callback'],
+              description: 'Required for public clients. Matched exactly during authorization. https, loopback http or a reverse-domain private scheme',
+            },
+            scopes: {
+              type: 'array',
+              items: { type: 'string' },
+              example: ['profile', 'email', 'account:read'],
+              description: 'Scopes written as resource:action map onto permissions',
+            },
+          },
+        },
+        OAuthClient: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            client_id: { type: 'string', format: 'uuid' },
+            client_type: { type: 'string', enum: ['public', 'confidential'], example: 'public' },
+            client_secret: {
+              type: 'string',
+              description: 'Only returned when a confidential client is registered or its secret is rotated',
+            },
+            name: { type: 'string', example: 'Volcanion Mobile' },
+            redirect_uris: { type: 'array', items: { type: 'string' } },
+            scopes: { type: 'array', items: { type: 'string' } },
+            is_active: { type: 'boolean', example: true },
+            created_by: { type: 'integer', nullable: true },
+            created_at: { type: 'string', format: 'date-time' },
+            updated_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        OAuthAuthorizeDecisionRequest: {
+          type: 'object',
+          required: ['response_type', 'client_id', 'redirect_uri', 'approve'],
+          properties: {
+            response_type: { type: 'string', example: 'code' },
+            client_id: { type: 'string', format: 'uuid' },
+            redirect_uri: { type: 'string', example: 'https://app.example.com/callback' },
+            scope: { type: 'string', example: 'profile email' },
+            state: { type: 'string', example: 'af0ifjsldkj' },
+            code_challenge: { type: 'string', example: 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM' },
+            code_challenge_method: { type: 'string', example: 'S256' },
+            nonce: { type: 'string', description: 'OpenID Connect only; copied into the ID token' },
+            approve: { type: 'boolean', example: true },
+          },
+        },
+        OAuthAuthorizeResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                redirect_to: {
+                  type: 'string',
+                  example: 'https://app.example.com/callback?code=3f2a...&state=af0ifjsldkj',
+                  description: 'Where the browser must be sent next; carries either a code or an error',
+                },
+                consent_required: { type: 'boolean', example: true },
+                client: {
+                  type: 'object',
+                  properties: {
+                    client_id: { type: 'string', format: 'uuid' },
+                    name: { type: 'string' },
+                  },
+                },
+                scopes: { type: 'array', items: { type: 'string' } },
+              },
+            },
+          },
+        },
+        OAuthTokenRequest: {
+          type: 'object',
+          required: ['grant_type'],
+          properties: {
+            grant_type: { type: 'string', enum: ['authorization_code', 'refresh_token', 'client_credentials'] },
+            client_id: { type: 'string', format: 'uuid', description: 'Required unless sent with HTTP Basic' },
+            client_secret: { type: 'string', description: 'Confidential clients only, unless sent with HTTP Basic' },
+            code: { type: 'string' },
+            redirect_uri: { type: 'string' },
+            code_verifier: { type: 'string', description: '43-128 characters; SHA-256 must match the code_challenge' },
+            refresh_token: { type: 'string' },
+            scope: { type: 'string' },
+          },
+        },
+        OAuthTokenResponse: {
+          type: 'object',
+          properties: {
+            access_token: { type: 'string' },
+            token_type: { type: 'string', example: 'Bearer' },
+            expires_in: { type: 'integer', example: 900 },
+            refresh_token: { type: 'string', description: 'Not issued for the client_credentials grant' },
+            id_token: { type: 'string', description: 'Issued when the granted scope contains openid' },
+            scope: { type: 'string', example: 'profile email' },
+          },
+        },
+        OAuthTokenActionRequest: {
+          type: 'object',
+          required: ['token'],
+          properties: {
+            token: { type: 'string', description: 'Access token or refresh token' },
+            token_type_hint: { type: 'string', enum: ['access_token', 'refresh_token'] },
+            client_id: { type: 'string', format: 'uuid', description: 'Required unless sent with HTTP Basic' },
+            client_secret: { type: 'string', description: 'Confidential clients only, unless sent with HTTP Basic' },
+          },
+        },
+        OAuthIntrospectionResponse: {
+          type: 'object',
+          description: 'Inactive tokens only carry `active: false`',
+          properties: {
+            active: { type: 'boolean', example: true },
+            token_type: { type: 'string', enum: ['access_token', 'refresh_token'] },
+            client_id: { type: 'string', format: 'uuid', description: 'Absent for first-party tokens' },
+            sub: { type: 'string', example: '1', description: 'Absent for client_credentials tokens' },
+            account_id: { type: 'integer', example: 1 },
+            email: { type: 'string', format: 'email' },
+            scope: { type: 'string', example: 'profile email' },
+            permissions: { type: 'array', items: { type: 'string' }, example: ['read_account'] },
+            exp: { type: 'integer', example: 1735689600 },
+            iat: { type: 'integer', example: 1735688700 },
+            jti: { type: 'string', description: 'Access tokens only' },
+          },
+        },
+        IdentityProvider: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', example: 'google' },
+            display_name: { type: 'string', example: 'Google' },
+          },
+        },
+        LinkedIdentity: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            provider: { type: 'string', example: 'google' },
+            subject: { type: 'string', description: 'Account id at the provider' },
+            email: { type: 'string', format: 'email' },
+            last_login_at: { type: 'string', format: 'date-time' },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        SocialCallbackRequest: {
+          type: 'object',
+          required: ['code', 'state'],
+          properties: {
+            code: { type: 'string', description: 'Authorization code the provider sent to the callback URL' },
+            state: { type: 'string', description: 'State the provider sent back unchanged' },
+          },
+        },
+        OidcUserInfo: {
+          type: 'object',
+          properties: {
+            sub: { type: 'string', example: '1' },
+            email: { type: 'string', format: 'email', description: 'With the email scope' },
+            email_verified: { type: 'boolean', description: 'With the email scope' },
+            name: { type: 'string', example: 'John Doe', description: 'With the profile scope' },
+          },
+        },
+        OAuthErrorResponse: {
+          type: 'object',
+          properties: {
+            error: { type: 'string', example: 'invalid_grant' },
+            error_description: { type: 'string' },
+          },
+        },
+        OAuthConsent: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            client_id: { type: 'string', format: 'uuid' },
+            client_name: { type: 'string', example: 'Volcanion Mobile' },
+            scope: { type: 'string', example: 'profile email' },
+            created_at: { type: 'string', format: 'date-time' },
+            updated_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        Session: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 42, description: 'Changes whenever the session is refreshed' },
+            device_info: { type: 'string', nullable: true, description: 'Raw User-Agent of the login' },
+            browser: { type: 'string', nullable: true, example: 'Chrome' },
+            os: { type: 'string', nullable: true, example: 'Windows' },
+            device: { type: 'string', enum: ['desktop', 'mobile', 'tablet', 'bot', 'unknown'] },
+            ip_address: { type: 'string', nullable: true, example: '203.0.113.10' },
+            client_id: { type: 'string', nullable: true, description: 'Set for sessions of an OAuth application' },
+            created_at: { type: 'string', format: 'date-time', description: 'Login time' },
+            last_used_at: { type: 'string', format: 'date-time', description: 'Last login or token refresh' },
+            expires_at: { type: 'string', format: 'date-time' },
+            current: { type: 'boolean', description: 'The session making the request' },
+          },
+        },
+        CachedSession: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            data: { type: 'object', description: 'Data stored with the session' },
+            expires_in: { type: 'integer', example: 86400, description: 'Seconds until the session expires' },
+          },
+        },
+        AccountSessionOverview: {
+          type: 'object',
+          properties: {
+            refresh_sessions: { type: 'array', items: { $ref: '#/components/schemas/Session' } },
+            cached_sessions: { type: 'array', items: { $ref: '#/components/schemas/CachedSession' } },
+          },
+        },
+        AuditEvent: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            actor_account_id: { type: 'integer', nullable: true, description: 'Account that performed the action' },
+            actor_client_id: { type: 'string', nullable: true, description: 'Machine client that performed the action' },
+            target_account_id: { type: 'integer', nullable: true, description: 'Account the action was performed on' },
+            action: { type: 'string', example: 'account_role_granted' },
+            ip_address: { type: 'string', nullable: true },
+            user_agent: { type: 'string', nullable: true },
+            changes: {
+              type: 'object',
+              nullable: true,
+              description: 'Changed fields, each with its previous and new value',
+              additionalProperties: {
+                type: 'object',
+                properties: {
+                  from: {},
+                  to: {},
+                },
+              },
+              example: { role_id: { from: null, to: 2 } },
+            },
+            prev_hash: { type: 'string', description: 'Hash of the previous event; 64 zeros for the first one' },
+            hash: { type: 'string', description: 'SHA-256 of prev_hash and this event' },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        AuditChainVerification: {
+          type: 'object',
+          properties: {
+            valid: { type: 'boolean' },
+            checked: { type: 'integer', description: 'Events that linked up before the first broken link' },
+            last_event_id: { type: 'integer', nullable: true, description: 'Last event that linked up' },
+            broken_at: {
+              type: 'object',
+              properties: {
+                id: { type: 'integer', nullable: true },
+                reason: { type: 'string', enum: ['prev_hash_mismatch', 'hash_mismatch', 'head_mismatch'] },
+              },
+            },
+            writer: {
+              type: 'object',
+              description: 'Events that are recorded but not in the chain yet',
+              properties: {
+                pending_events: { type: 'integer' },
+                dropped_events: { type: 'integer', description: 'Events this instance lost because they could not be recorded' },
+                last_error: { type: 'string', nullable: true, description: 'Set while appending to the chain fails' },
+                last_error_at: { type: 'string', format: 'date-time', nullable: true },
+              },
+            },
+          },
+        },
+        AuditExport: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', format: 'date-time' },
+            to: { type: 'string', format: 'date-time' },
+            count: { type: 'integer' },
+            first_id: { type: 'integer', nullable: true },
+            last_id: { type: 'integer', nullable: true },
+            start_hash: { type: 'string', nullable: true, description: 'hash of the event before the first exported event' },
+            end_hash: { type: 'string', nullable: true, description: 'hash of the last exported event' },
+            events: { type: 'array', items: { $ref: '#/components/schemas/AuditEvent' } },
+            signature: { type: 'string', description: 'JWT over every field except events' },
+          },
+        },
+        WebhookSubscription: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            url: { type: 'string', example: 'https://siem.example.com/hooks/auth' },
+            events: {
+              type: 'array',
+              items: { type: 'string', enum: ['account.registered', 'account.verified', 'account.updated', 'account.deactivated', 'account.unlocked', 'login.succeeded', 'login.failed', 'password.changed', 'password.reset', 'role.granted', 'role.revoked', 'permission.granted', 'permission.revoked', '*'] },
+              example: ['login.failed', 'role.granted'],
+            },
+            description: { type: 'string', nullable: true },
+            is_active: { type: 'boolean' },
+            created_by: { type: 'integer', nullable: true },
+            created_at: { type: 'string', format: 'date-time' },
+            updated_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        WebhookSubscriptionWithSecret: {
+          allOf: [
+            { $ref: '#/components/schemas/WebhookSubscription' },
+            {
+              type: 'object',
+              properties: {
+                secret: { type: 'string', description: 'Signing secret; shown only when the subscription is created' },
+              },
+            },
+          ],
+        },
+        CreateWebhookRequest: {
+          type: 'object',
+          required: ['url', 'events'],
+          properties: {
+            url: { type: 'string', format: 'uri', description: 'Must use https in production' },
+            events: {
+              type: 'array',
+              items: { type: 'string', enum: ['account.registered', 'account.verified', 'account.updated', 'account.deactivated', 'account.unlocked', 'login.succeeded', 'login.failed', 'password.changed', 'password.reset', 'role.granted', 'role.revoked', 'permission.granted', 'permission.revoked', '*'] },
+              description: 'Event types to receive; * receives every event',
+            },
+            secret: { type: 'string', minLength: 16, description: 'Generated when omitted' },
+            description: { type: 'string', maxLength: 255 },
+          },
+        },
+        UpdateWebhookRequest: {
+          type: 'object',
+          properties: {
+            url: { type: 'string', format: 'uri' },
+            events: { type: 'array', items: { type: 'string', enum: ['account.registered', 'account.verified', 'account.updated', 'account.deactivated', 'account.unlocked', 'login.succeeded', 'login.failed', 'password.changed', 'password.reset', 'role.granted', 'role.revoked', 'permission.granted', 'permission.revoked', '*'] } },
+            description: { type: 'string', maxLength: 255 },
+            is_active: { type: 'boolean' },
+          },
+        },
+        WebhookDelivery: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            subscription_id: { type: 'integer' },
+            event_type: { type: 'string', example: 'login.failed' },
+            payload: {
+              type: 'object',
+              description: 'The body that was sent',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                type: { type: 'string' },
+                created_at: { type: 'string', format: 'date-time' },
+                data: { type: 'object' },
+              },
+            },
+            status: { type: 'string', enum: ['pending', 'delivered', 'dead'] },
+            attempts: { type: 'integer' },
+            next_attempt_at: { type: 'string', format: 'date-time' },
+            last_status_code: { type: 'integer', nullable: true },
+            last_error: { type: 'string', nullable: true },
+            delivered_at: { type: 'string', format: 'date-time', nullable: true },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        EmailTemplate: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', example: 'verification' },
+            locales: { type: 'array', items: { type: 'string' }, example: ['vi', 'en'] },
+            variables: { type: 'array', items: { type: 'string' }, example: ['first_name', 'verification_url'] },
+          },
+        },
+        EmailTemplatePreview: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', example: 'verification' },
+            locale: { type: 'string', enum: ['vi', 'en'] },
+            subject: { type: 'string', example: 'Volcanion Auth - Xác thực tài khoản' },
+            html: { type: 'string' },
+            text: { type: 'string', description: 'Plain-text alternative sent with the HTML part' },
+          },
+        },
         // Account Schemas
         UpdateProfileRequest: {
           type: 'object',
@@ -143,6 +948,11 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               example: 'Software Developer',
             },
+            preferred_locale: {
+              type: 'string',
+              enum: ['vi', 'en'],
+              example: 'en',
+            },
           },
         },
         // Permission Schemas
@@ -262,6 +1072,12 @@ const options: swaggerJsdoc.Options = {
               type: 'boolean',
               example: true,
             },
+            locked_until: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Password login is refused until this time',
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -274,6 +1090,17 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        LockedAccount: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            email: { type: 'string', format: 'email', example: 'user@example.com' },
+            first_name: { type: 'string', example: 'John' },
+            last_name: { type: 'string', example: 'Doe' },
+            locked_until: { type: 'string', format: 'date-time', example: '2024-01-01T00:15:00.000Z' },
+            lockout_count: { type: 'integer', example: 1, description: 'Locks in a row since the last successful login' },
+          },
+        },
         Role: {
           type: 'object',
           properties: {
@@ -424,6 +1251,42 @@ const options: swaggerJsdoc.Options = {
         name: 'Permissions',
         description: 'Role and permission management endpoints',
       },
+      {
+        name: 'Two-Factor Authentication',
+        description: 'TOTP enrollment and 2FA login endpoints',
+      },
+      {
+        name: 'Passkeys',
+        description: 'WebAuthn passkey registration, passwordless login and second factor',
+      },
+      {
+        name: 'Social Login',
+        description: 'Sign in through external identity providers',
+      },
+      {
+        name: 'Signing Keys',
+        description: 'JWT signing key rotation',
+      },
+      {
+        name: 'OAuth',
+        description: 'OAuth 2.0 authorization server and client registration',
+      },
+      {
+        name: 'Audit',
+        description: 'Audit trail of authentication and administrative changes',
+      },
+      {
+        name: 'Webhooks',
+        description: 'Signed security event notifications to external systems',
+      },
+      {
+        name: 'Email Templates',
+        description: 'Localized email templates and their previews',
+      },
+      {
+        name: 'Discovery',
+        description: 'Public key and metadata documents for token consumers',
+      },
     ],
   },
   apis: ['./src/routes/*.ts', './src/controllers/*.ts'], // paths to files containing OpenAPI definitions
@@ -1,14 +1,19 @@
 import { Request, Response } from 'express';
 import { ResponseUtils } from '../utils';
-import { UpdateAccountDto, ChangePasswordDto } from '../types';
+import { UpdateAccountDto, ChangePasswordDto, DeactivateAccountDto, PhoneVerifyDto } from '../types';
 import { AccountService } from '../services/accountService';
-import { PasswordUtils } from '../utils';
-import { EmailService } from '../services/emailService';
+import { AuthService } from '../services/authService';
+import { AuditService } from '../services/auditService';
+import { PasswordUtils, ValidationUtils } from '../utils';
+import { OtpService } from '../services/otpService';
+import { LockoutService } from '../services/lockoutService';
+import { OutboxService } from '../services/outboxService';
+import { AuthMiddleware } from '../middleware/auth';
 
 export class AccountController {
   static async getProfile(req: Request, res: Response): Promise<void> {
     try {
-      const accountId = req.user!.accountId;
+      const accountId = AuthMiddleware.currentUser(req).accountId;
       const account = await AccountService.getAccountWithPermissions(accountId);
 
       if (!account) {
@@ -25,7 +30,7 @@ export class AccountController {
 
   static async updateProfile(req: Request, res: Response): Promise<void> {
     try {
-      const accountId = req.user!.accountId;
+      const accountId = AuthMiddleware.currentUser(req).accountId;
       const data: UpdateAccountDto = req.body;
 
       const updated = await AccountService.updateAccount(accountId, data);
@@ -46,8 +51,8 @@ export class AccountController {
 
   static async changePassword(req: Request, res: Response): Promise<void> {
     try {
-      const accountId = req.user!.accountId;
-      const { current_password, new_password }: ChangePasswordDto = req.body;
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const { current_password, otp_code, new_password }: ChangePasswordDto = req.body;
 
       // Get current account
       const account = await AccountService.findById(accountId);
@@ -56,10 +61,12 @@ export class AccountController {
         return;
       }
 
-      // Verify current password
-      const isCurrentPasswordValid = await PasswordUtils.compare(current_password, account.password);
-      if (!isCurrentPasswordValid) {
-        res.status(400).json(ResponseUtils.error('Mật khẩu hiện tại không chính xác'));
+      // Verify current password or step-up code
+      const isConfirmed = await AuthService.confirmIdentity(account, current_password, otp_code);
+      if (!isConfirmed) {
+        res.status(400).json(ResponseUtils.error(
+          otp_code ? 'Mã xác thực không chính xác hoặc đã hết hạn' : 'Mật khẩu hiện tại không chính xác'
+        ));
         return;
       }
 
@@ -70,20 +77,17 @@ export class AccountController {
         return;
       }
 
-      // Update password
-      const updated = await AccountService.updatePassword(accountId, new_password);
+      // Update password and queue the notification email with it
+      const updated = await AuthService.changePassword(account, new_password, req.ip || req.connection.remoteAddress);
       if (!updated) {
         res.status(500).json(ResponseUtils.error('Lỗi cập nhật mật khẩu'));
         return;
       }
 
-      // Send notification email
-      const ipAddress = req.ip || req.connection.remoteAddress;
-      await EmailService.sendPasswordChangeNotification(
-        account.email,
-        account.first_name,
-        ipAddress
-      );
+      // Sign out every session so tokens obtained with the old password stop working
+      await AuthService.logoutAll(accountId);
+
+      await AuditService.recordRequest(req, 'password_changed', { targetAccountId: accountId });
 
       res.json(ResponseUtils.success(null, 'Đổi mật khẩu thành công'));
     } catch (error) {
@@ -92,9 +96,119 @@ export class AccountController {
     }
   }
 
+  static async requestStepUpCode(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+
+      const account = await AccountService.findById(accountId);
+      if (!account) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy tài khoản'));
+        return;
+      }
+
+      const code = await OtpService.issueCode(accountId, 'step_up');
+      if (!code) {
+        res.status(429).json(ResponseUtils.error('Vui lòng đợi 1 phút trước khi yêu cầu mã mới'));
+        return;
+      }
+
+      await OutboxService.enqueue('email.otp', {
+        email: account.email,
+        code,
+        first_name: account.first_name,
+        locale: account.preferred_locale
+      });
+
+      res.json(ResponseUtils.success({
+        expiresIn: OtpService.CODE_TTL_SECONDS
+      }, 'Mã xác thực đã được gửi đến email của bạn'));
+    } catch (error) {
+      console.error('Step-up code error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi gửi mã xác thực'));
+    }
+  }
+
+  static async requestPhoneVerification(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+
+      const account = await AccountService.findById(accountId);
+      if (!account) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy tài khoản'));
+        return;
+      }
+
+      if (!account.phone) {
+        res.status(400).json(ResponseUtils.error('Vui lòng cập nhật số điện thoại trước'));
+        return;
+      }
+
+      if (account.phone_verified_at) {
+        res.status(400).json(ResponseUtils.error('Số điện thoại đã được xác thực'));
+        return;
+      }
+
+      const phone = ValidationUtils.normalizePhone(account.phone);
+      if (!phone) {
+        res.status(400).json(ResponseUtils.error('Số điện thoại không hợp lệ'));
+        return;
+      }
+
+      // The code is bound to the number, so changing it afterwards voids the code
+      const code = await OtpService.issueCode(accountId, 'phone_verification', phone);
+      if (!code) {
+        res.status(429).json(ResponseUtils.error('Vui lòng đợi 1 phút trước khi yêu cầu mã mới'));
+        return;
+      }
+
+      await OutboxService.enqueue('sms.otp', { phone, code });
+
+      res.json(ResponseUtils.success({
+        expiresIn: OtpService.CODE_TTL_SECONDS
+      }, 'Mã xác thực đã được gửi đến số điện thoại của bạn'));
+    } catch (error) {
+      console.error('Phone verification request error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi gửi mã xác thực'));
+    }
+  }
+
+  static async verifyPhone(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const { code }: PhoneVerifyDto = req.body;
+
+      const account = await AccountService.findById(accountId);
+      if (!account) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy tài khoản'));
+        return;
+      }
+
+      const phone = account.phone ? ValidationUtils.normalizePhone(account.phone) : null;
+      const isValidCode = phone ? await OtpService.verifyCode(accountId, 'phone_verification', code, phone) : false;
+      if (!phone || !isValidCode) {
+        res.status(400).json(ResponseUtils.error('Mã xác thực không chính xác hoặc đã hết hạn'));
+        return;
+      }
+
+      // A verified number signs in to exactly one account
+      const owner = await AccountService.findByVerifiedPhone(phone);
+      if (owner && owner.id !== accountId) {
+        res.status(409).json(ResponseUtils.error('Số điện thoại đã được xác thực bởi tài khoản khác'));
+        return;
+      }
+
+      await AccountService.markPhoneVerified(accountId, phone);
+
+      res.json(ResponseUtils.success({ phone }, 'Xác thực số điện thoại thành công'));
+    } catch (error) {
+      console.error('Phone verification error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi xác thực số điện thoại'));
+    }
+  }
+
   static async updateAvatar(req: Request, res: Response): Promise<void> {
     try {
-      const accountId = req.user!.accountId;
+      const accountId = AuthMiddleware.currentUser(req).accountId;
       const { avatar_url } = req.body;
 
       if (!avatar_url) {
@@ -117,11 +231,11 @@ export class AccountController {
 
   static async deactivateAccount(req: Request, res: Response): Promise<void> {
     try {
-      const accountId = req.user!.accountId;
-      const { password } = req.body;
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const { password, otp_code }: DeactivateAccountDto = req.body;
 
-      if (!password) {
-        res.status(400).json(ResponseUtils.error('Mật khẩu là bắt buộc để vô hiệu hóa tài khoản'));
+      if (!password && !otp_code) {
+        res.status(400).json(ResponseUtils.error('Mật khẩu hoặc mã xác thực email là bắt buộc để vô hiệu hóa tài khoản'));
         return;
       }
 
@@ -132,10 +246,12 @@ export class AccountController {
         return;
       }
 
-      // Verify password
-      const isPasswordValid = await PasswordUtils.compare(password, account.password);
-      if (!isPasswordValid) {
-        res.status(400).json(ResponseUtils.error('Mật khẩu không chính xác'));
+      // Verify password or step-up code
+      const isConfirmed = await AuthService.confirmIdentity(account, password, otp_code);
+      if (!isConfirmed) {
+        res.status(400).json(ResponseUtils.error(
+          otp_code ? 'Mã xác thực không chính xác hoặc đã hết hạn' : 'Mật khẩu không chính xác'
+        ));
         return;
       }
 
@@ -146,6 +262,13 @@ export class AccountController {
         return;
       }
 
+      await AuthService.logoutAll(accountId);
+
+      await OutboxService.enqueue('webhook.event', {
+        type: 'account.deactivated',
+        data: { account_id: accountId, deactivated_by: accountId }
+      });
+
       res.json(ResponseUtils.success(null, 'Vô hiệu hóa tài khoản thành công'));
     } catch (error) {
       console.error('Deactivate account error:', error);
@@ -176,6 +299,28 @@ export class AccountController {
     }
   }
 
+  static async getLockedAccounts(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 10 } = req.query;
+
+      const result = await LockoutService.getLockedAccounts(
+        parseInt(page as string),
+        parseInt(limit as string)
+      );
+
+      res.json(ResponseUtils.paginated(
+        result.accounts,
+        result.total,
+        result.page,
+        result.limit,
+        'Lấy danh sách tài khoản bị khóa thành công'
+      ));
+    } catch (error) {
+      console.error('Get locked accounts error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi lấy danh sách tài khoản bị khóa'));
+    }
+  }
+
   static async getAccountById(req: Request, res: Response): Promise<void> {
     try {
       const accountId = parseInt(req.params.id);
@@ -198,6 +343,7 @@ export class AccountController {
       const accountId = parseInt(req.params.id);
       const data: UpdateAccountDto = req.body;
 
+      const before = await AccountService.findById(accountId);
       const updated = await AccountService.updateAccount(accountId, data);
       if (!updated) {
         res.status(400).json(ResponseUtils.error('Không có thông tin nào được cập nhật'));
@@ -205,6 +351,15 @@ export class AccountController {
       }
 
       const account = await AccountService.getAccountWithPermissions(accountId);
+      await AuditService.recordRequest(req, 'account_updated', {
+        targetAccountId: accountId,
+        changes: AuditService.diff(before, data)
+      });
+      await OutboxService.enqueue('webhook.event', {
+        type: 'account.updated',
+        data: { account_id: accountId, fields: Object.keys(data) }
+      });
+
       res.json(ResponseUtils.success(account, 'Cập nhật tài khoản thành công'));
     } catch (error) {
       console.error('Admin update account error:', error);
@@ -215,7 +370,7 @@ export class AccountController {
   static async adminDeactivateAccount(req: Request, res: Response): Promise<void> {
     try {
       const accountId = parseInt(req.params.id);
-      const currentUserId = req.user!.accountId;
+      const currentUserId = req.user?.accountId;
 
       if (accountId === currentUserId) {
         res.status(400).json(ResponseUtils.error('Không thể vô hiệu hóa tài khoản của chính mình'));
@@ -228,6 +383,18 @@ export class AccountController {
         return;
       }
 
+      // A deactivated account must not keep using tokens it already holds
+      await AuthService.logoutAll(accountId);
+
+      await AuditService.recordRequest(req, 'account_deactivated', {
+        targetAccountId: accountId,
+        changes: { is_active: { from: true, to: false } }
+      });
+      await OutboxService.enqueue('webhook.event', {
+        type: 'account.deactivated',
+        data: { account_id: accountId, deactivated_by: req.user?.accountId ?? null }
+      });
+
       res.json(ResponseUtils.success(null, 'Vô hiệu hóa tài khoản thành công'));
     } catch (error) {
       console.error('Admin deactivate account error:', error);
@@ -245,10 +412,45 @@ export class AccountController {
         return;
       }
 
+      await AuditService.recordRequest(req, 'account_verified', {
+        targetAccountId: accountId,
+        changes: { is_verified: { from: false, to: true } }
+      });
+      await OutboxService.enqueue('webhook.event', {
+        type: 'account.verified',
+        data: { account_id: accountId }
+      });
+
       res.json(ResponseUtils.success(null, 'Xác thực tài khoản thành công'));
     } catch (error) {
       console.error('Admin verify account error:', error);
       res.status(500).json(ResponseUtils.error('Lỗi xác thực tài khoản'));
     }
   }
+
+  static async adminUnlockAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = parseInt(req.params.id);
+
+      const unlocked = await LockoutService.unlock(accountId);
+      if (!unlocked) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy tài khoản hoặc tài khoản không bị khóa'));
+        return;
+      }
+
+      await AuthService.recordSecurityEvent(accountId, 'account_unlocked', req.ip || req.connection.remoteAddress, {
+        unlocked_by: req.user?.accountId
+      });
+      await AuditService.recordRequest(req, 'account_unlocked', { targetAccountId: accountId });
+      await OutboxService.enqueue('webhook.event', {
+        type: 'account.unlocked',
+        data: { account_id: accountId, unlocked_by: req.user?.accountId ?? null }
+      });
+
+      res.json(ResponseUtils.success(null, 'Mở khóa tài khoản thành công'));
+    } catch (error) {
+      console.error('Admin unlock account error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi mở khóa tài khoản'));
+    }
+  }
 }
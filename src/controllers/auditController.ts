@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import { ResponseUtils } from '../utils';
+import { AuditService } from '../services/auditService';
+import { AuditAction, AuditEventFilter } from '../types';
+
+export class AuditController {
+  // The query has been validated, so page and limit are numbers and from/to are dates
+  static async list(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 20, action, actor_account_id, target_account_id, from, to } = req.query as Record<string, any>;
+
+      const filter: AuditEventFilter = {
+        page: Number(page),
+        limit: Number(limit),
+        action: action as AuditAction | undefined,
+        actor_account_id: actor_account_id ? Number(actor_account_id) : undefined,
+        target_account_id: target_account_id ? Number(target_account_id) : undefined,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined
+      };
+
+      const result = await AuditService.listEvents(filter);
+
+      res.json(ResponseUtils.paginated(
+        result.events,
+        result.total,
+        result.page,
+        result.limit,
+        'Lấy nhật ký kiểm toán thành công'
+      ));
+    } catch (error) {
+      console.error('List audit events error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi lấy nhật ký kiểm toán'));
+    }
+  }
+
+  // The writer status shows events that are staged or could not be appended to the chain yet
+  static async verify(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await AuditService.verifyChain();
+
+      const message = result.valid
+        ? 'Nhật ký kiểm toán toàn vẹn'
+        : 'Phát hiện nhật ký kiểm toán đã bị chỉnh sửa hoặc xóa';
+      res.json(ResponseUtils.success({ ...result, writer: await AuditService.getWriterStatus() }, message));
+    } catch (error) {
+      console.error('Verify audit chain error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi kiểm tra nhật ký kiểm toán'));
+    }
+  }
+
+  static async exportRange(req: Request, res: Response): Promise<void> {
+    try {
+      const from = new Date(req.query.from as string);
+      const to = new Date(req.query.to as string);
+
+      const result = await AuditService.exportRange(from, to);
+      if (!result) {
+        res.status(400).json(ResponseUtils.error(
+          `Khoảng thời gian có quá ${AuditService.MAX_EXPORT_EVENTS} bản ghi, vui lòng chọn khoảng ngắn hơn`
+        ));
+        return;
+      }
+
+      await AuditService.recordRequest(req, 'audit_exported', {
+        changes: AuditService.diff(null, { from: result.from, to: result.to, count: result.count })
+      });
+
+      res.json(ResponseUtils.success(result, 'Xuất nhật ký kiểm toán thành công'));
+    } catch (error) {
+      console.error('Export audit events error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi xuất nhật ký kiểm toán'));
+    }
+  }
+}
@@ -1,36 +1,39 @@
 import { Request, Response } from 'express';
-import { ResponseUtils } from '../utils';
-import { RegisterDto, LoginDto, ForgotPasswordDto, ResetPasswordDto } from '../types';
+import { JwtUtils, PasswordUtils, ResponseUtils, ValidationUtils } from '../utils';
+import {
+  RegisterDto,
+  LoginDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  MagicLinkRequestDto,
+  MagicLinkVerifyDto,
+  EmailOtpRequestDto,
+  EmailOtpVerifyDto,
+  SmsOtpRequestDto,
+  SmsOtpVerifyDto,
+  SecureAccountDto
+} from '../types';
 import { AccountService } from '../services/accountService';
 import { AuthService } from '../services/authService';
-import { EmailService } from '../services/emailService';
+import { AuditService } from '../services/auditService';
+import { KnownDeviceService } from '../services/knownDeviceService';
+import { LockoutService } from '../services/lockoutService';
+import { OtpService } from '../services/otpService';
+import { OutboxService } from '../services/outboxService';
+import { TokenRevocationService } from '../services/tokenRevocationService';
+import { AuthMiddleware } from '../middleware/auth';
 
 export class AuthController {
   static async register(req: Request, res: Response): Promise<void> {
     try {
       const data: RegisterDto = req.body;
 
-      // Create account
-      const accountId = await AccountService.createAccount(data);
-
-      // Create email verification token
-      const verificationToken = await AuthService.createEmailVerification(accountId);
-
-      // Send verification email
-      const emailSent = await EmailService.sendVerificationEmail(
-        data.email,
-        verificationToken,
-        data.first_name
-      );
-
-      if (!emailSent) {
-        console.warn('Failed to send verification email for account:', accountId);
-      }
+      // Create the account; the verification email is sent from the outbox
+      const accountId = await AuthService.register(data);
 
       res.status(201).json(ResponseUtils.success({
         accountId,
-        message: 'Đăng ký thành công. Vui lòng kiểm tra email để xác thực tài khoản.',
-        emailSent
+        message: 'Đăng ký thành công. Vui lòng kiểm tra email để xác thực tài khoản.'
       }, 'Đăng ký thành công'));
     } catch (error) {
       console.error('Register error:', error);
@@ -51,12 +54,34 @@ export class AuthController {
         return;
       }
 
+      // Failures from every IP count towards the account lock. The lock is only reported to someone who
+      // knows the password; anyone else gets the usual answer, so it does not reveal which emails exist
+      const account = await AccountService.findByEmail(email);
+      const lockedUntil = account ? LockoutService.getLockedUntil(account) : null;
+      if (account && lockedUntil && await PasswordUtils.compare(password, account.password)) {
+        const minutes = Math.ceil((lockedUntil.getTime() - Date.now()) / 60000);
+        res.status(423).json(ResponseUtils.error(
+          `Tài khoản tạm thời bị khóa do đăng nhập sai quá nhiều lần. Vui lòng thử lại sau ${minutes} phút hoặc đăng nhập bằng email.`
+        ));
+        return;
+      }
+
       // Attempt login
-      const tokens = await AuthService.login(email, password, deviceInfo, ipAddress);
+      const result = lockedUntil ? null : await AuthService.login(email, password, deviceInfo, ipAddress);
 
-      if (!tokens) {
+      if (!result) {
         // Record failed login attempt
         await AuthService.recordLoginAttempt(email, false, ipAddress);
+        // Failures against a locked account are reported but not counted
+        if (account) {
+          await AuthService.recordAccountFailure(account, ipAddress);
+        } else {
+          await OutboxService.enqueue('webhook.event', {
+            type: 'login.failed',
+            data: { account_id: null, email, ip_address: ipAddress ?? null }
+          });
+        }
+        await AuditService.recordRequest(req, 'login_failed', { targetAccountId: account?.id });
         res.status(401).json(ResponseUtils.error('Email hoặc mật khẩu không chính xác'));
         return;
       }
@@ -64,8 +89,17 @@ export class AuthController {
       // Record successful login
       await AuthService.recordLoginAttempt(email, true, ipAddress);
 
-      // Get user info (extract accountId from JWT payload)
-      const account = await AccountService.findByEmail(email);
+      // Password accepted, but the account still has to pass the 2FA step
+      if ('mfaRequired' in result) {
+        await AuditService.recordRequest(req, 'login_mfa_required', { actorAccountId: account?.id, targetAccountId: account?.id });
+        res.json(ResponseUtils.success(result, 'Vui lòng nhập mã xác thực hai lớp'));
+        return;
+      }
+
+      const tokens = result;
+      await AuditService.recordRequest(req, 'login_succeeded', { actorAccountId: account?.id, targetAccountId: account?.id });
+
+      // Get user info
       const accountWithPermissions = account ? await AccountService.getAccountWithPermissions(account.id) : null;
 
       res.json(ResponseUtils.success({
@@ -86,6 +120,13 @@ export class AuthController {
         await AuthService.logout(refresh_token);
       }
 
+      // The access token used for this request is denylisted as well
+      if (req.user) {
+        await TokenRevocationService.revokeAccessToken(req.user);
+      }
+
+      await AuditService.recordRequest(req, 'logout', { targetAccountId: req.user?.accountId });
+
       res.json(ResponseUtils.success(null, 'Đăng xuất thành công'));
     } catch (error) {
       console.error('Logout error:', error);
@@ -95,9 +136,10 @@ export class AuthController {
 
   static async logoutAll(req: Request, res: Response): Promise<void> {
     try {
-      const accountId = req.user!.accountId;
+      const accountId = AuthMiddleware.currentUser(req).accountId;
 
       await AuthService.logoutAll(accountId);
+      await AuditService.recordRequest(req, 'logout_all', { targetAccountId: accountId });
 
       res.json(ResponseUtils.success(null, 'Đăng xuất khỏi tất cả thiết bị thành công'));
     } catch (error) {
@@ -106,17 +148,50 @@ export class AuthController {
     }
   }
 
+  // Target of the "this wasn't me" link in new-device alerts
+  static async secureAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const { token }: SecureAccountDto = req.body;
+
+      const alert = await KnownDeviceService.consumeAlertToken(token);
+      if (!alert) {
+        res.status(400).json(ResponseUtils.error('Liên kết không hợp lệ hoặc đã hết hạn'));
+        return;
+      }
+
+      await AuthService.logoutAll(alert.accountId);
+      // The device is reported again if it is used once more
+      await KnownDeviceService.forget(alert.accountId, alert.deviceId);
+
+      await AuthService.recordSecurityEvent(alert.accountId, 'new_device_login_disowned', req.ip || req.connection.remoteAddress, {
+        device_id: alert.deviceId
+      });
+      await AuditService.recordRequest(req, 'logout_all', { actorAccountId: alert.accountId, targetAccountId: alert.accountId });
+
+      res.json(ResponseUtils.success(null, 'Đã đăng xuất tài khoản khỏi tất cả thiết bị. Vui lòng đổi mật khẩu ngay'));
+    } catch (error) {
+      console.error('Secure account error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi bảo vệ tài khoản'));
+    }
+  }
+
   static async refreshToken(req: Request, res: Response): Promise<void> {
     try {
       const { refresh_token } = req.body;
 
-      const tokens = await AuthService.refreshTokens(refresh_token);
+      const ipAddress = req.ip || req.connection.remoteAddress;
+
+      const tokens = await AuthService.refreshTokens(refresh_token, ipAddress);
 
       if (!tokens) {
         res.status(401).json(ResponseUtils.error('Refresh token không hợp lệ hoặc đã hết hạn'));
         return;
       }
 
+      // refreshTokens has just verified the old token, so this only reads its account
+      const { accountId } = JwtUtils.verifyRefreshToken(refresh_token);
+      await AuditService.recordRequest(req, 'token_refreshed', { actorAccountId: accountId, targetAccountId: accountId });
+
       res.json(ResponseUtils.success(tokens, 'Làm mới token thành công'));
     } catch (error) {
       console.error('Refresh token error:', error);
@@ -135,18 +210,11 @@ export class AuthController {
         return;
       }
 
-      const resetToken = await AuthService.createPasswordReset(account.id);
-      const emailSent = await EmailService.sendPasswordResetEmail(
-        email,
-        resetToken,
-        account.first_name
-      );
+      await AuthService.sendPasswordReset(account);
 
-      if (!emailSent) {
-        console.warn('Failed to send password reset email for account:', account.id);
-      }
+      await AuditService.recordRequest(req, 'password_reset_requested', { targetAccountId: account.id });
 
-      res.json(ResponseUtils.success({ emailSent }, 'Nếu email tồn tại trong hệ thống, bạn sẽ nhận được hướng dẫn đặt lại mật khẩu.'));
+      res.json(ResponseUtils.success(null, 'Nếu email tồn tại trong hệ thống, bạn sẽ nhận được hướng dẫn đặt lại mật khẩu.'));
     } catch (error) {
       console.error('Forgot password error:', error);
       res.status(500).json(ResponseUtils.error('Lỗi trong quá trình xử lý yêu cầu'));
@@ -158,34 +226,26 @@ export class AuthController {
       const { token, new_password }: ResetPasswordDto = req.body;
 
       const resetRecord = await AuthService.findPasswordReset(token);
-      if (!resetRecord) {
+      const account = resetRecord ? await AccountService.findById(resetRecord.account_id) : null;
+      if (!resetRecord || !account) {
         res.status(400).json(ResponseUtils.error('Token đặt lại mật khẩu không hợp lệ hoặc đã hết hạn'));
         return;
       }
 
-      // Update password
-      const passwordUpdated = await AccountService.updatePassword(resetRecord.account_id, new_password);
+      // Update password, spend the token and queue the notification email in one transaction
+      const passwordUpdated = await AuthService.resetPassword(token, account, new_password, req.ip || req.connection.remoteAddress);
       if (!passwordUpdated) {
         res.status(500).json(ResponseUtils.error('Lỗi cập nhật mật khẩu'));
         return;
       }
 
-      // Mark reset token as used
-      await AuthService.usePasswordReset(token);
-
-      // Revoke all refresh tokens for security
-      await AuthService.revokeAllRefreshTokens(resetRecord.account_id);
-
-      // Get account info for notification
-      const account = await AccountService.findById(resetRecord.account_id);
-      if (account) {
-        const ipAddress = req.ip || req.connection.remoteAddress;
-        await EmailService.sendPasswordChangeNotification(
-          account.email,
-          account.first_name,
-          ipAddress
-        );
-      }
+      // Revoke all refresh and access tokens for security
+      await AuthService.logoutAll(account.id);
+
+      await AuditService.recordRequest(req, 'password_reset', {
+        actorAccountId: account.id,
+        targetAccountId: account.id
+      });
 
       res.json(ResponseUtils.success(null, 'Đặt lại mật khẩu thành công'));
     } catch (error) {
@@ -194,32 +254,190 @@ export class AuthController {
     }
   }
 
+  static async requestMagicLink(req: Request, res: Response): Promise<void> {
+    try {
+      const { email }: MagicLinkRequestDto = req.body;
+
+      const account = await AccountService.findByEmail(email);
+      if (!account) {
+        // Don't reveal if email exists or not
+        res.json(ResponseUtils.success(null, 'Nếu email tồn tại trong hệ thống, bạn sẽ nhận được liên kết đăng nhập.'));
+        return;
+      }
+
+      await AuthService.sendMagicLink(account);
+
+      res.json(ResponseUtils.success(null, 'Nếu email tồn tại trong hệ thống, bạn sẽ nhận được liên kết đăng nhập.'));
+    } catch (error) {
+      console.error('Magic link request error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi trong quá trình xử lý yêu cầu'));
+    }
+  }
+
+  static async verifyMagicLink(req: Request, res: Response): Promise<void> {
+    try {
+      const { token }: MagicLinkVerifyDto = req.body;
+      const deviceInfo = req.headers['user-agent'];
+      const ipAddress = req.ip || req.connection.remoteAddress;
+
+      const login = await AuthService.loginWithMagicLink(token, deviceInfo, ipAddress);
+      if (!login) {
+        res.status(401).json(ResponseUtils.error('Liên kết đăng nhập không hợp lệ hoặc đã hết hạn'));
+        return;
+      }
+
+      // The link replaced the password, but the account still has to pass the 2FA step
+      if ('mfaRequired' in login.result) {
+        await AuditService.recordRequest(req, 'login_mfa_required', { actorAccountId: login.accountId, targetAccountId: login.accountId });
+        res.json(ResponseUtils.success(login.result, 'Vui lòng nhập mã xác thực hai lớp'));
+        return;
+      }
+
+      await AuditService.recordRequest(req, 'login_succeeded', { actorAccountId: login.accountId, targetAccountId: login.accountId });
+      const accountWithPermissions = await AccountService.getAccountWithPermissions(login.accountId);
+
+      res.json(ResponseUtils.success({
+        ...login.result,
+        user: accountWithPermissions
+      }, 'Đăng nhập thành công'));
+    } catch (error) {
+      console.error('Magic link login error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi trong quá trình đăng nhập'));
+    }
+  }
+
+  static async requestEmailOtp(req: Request, res: Response): Promise<void> {
+    try {
+      const { email }: EmailOtpRequestDto = req.body;
+
+      // Don't reveal if email exists or not, nor whether a code was just sent
+      const account = await AccountService.findByEmail(email);
+      const code = account ? await OtpService.issueCode(account.id, 'login') : null;
+
+      if (account && code) {
+        await OutboxService.enqueue('email.otp', {
+          email: account.email,
+          code,
+          first_name: account.first_name,
+          locale: account.preferred_locale
+        });
+      }
+
+      res.json(ResponseUtils.success({
+        expiresIn: OtpService.CODE_TTL_SECONDS
+      }, 'Nếu email tồn tại trong hệ thống, bạn sẽ nhận được mã đăng nhập.'));
+    } catch (error) {
+      console.error('Email OTP request error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi trong quá trình xử lý yêu cầu'));
+    }
+  }
+
+  static async verifyEmailOtp(req: Request, res: Response): Promise<void> {
+    try {
+      const { email, code }: EmailOtpVerifyDto = req.body;
+      const deviceInfo = req.headers['user-agent'];
+      const ipAddress = req.ip || req.connection.remoteAddress;
+
+      const login = await AuthService.loginWithEmailOtp(email, code, deviceInfo, ipAddress);
+      if (!login) {
+        res.status(401).json(ResponseUtils.error('Mã xác thực không chính xác hoặc đã hết hạn'));
+        return;
+      }
+
+      // The code replaced the password, but the account still has to pass the 2FA step
+      if ('mfaRequired' in login.result) {
+        await AuditService.recordRequest(req, 'login_mfa_required', { actorAccountId: login.accountId, targetAccountId: login.accountId });
+        res.json(ResponseUtils.success(login.result, 'Vui lòng nhập mã xác thực hai lớp'));
+        return;
+      }
+
+      await AuditService.recordRequest(req, 'login_succeeded', { actorAccountId: login.accountId, targetAccountId: login.accountId });
+      const accountWithPermissions = await AccountService.getAccountWithPermissions(login.accountId);
+
+      res.json(ResponseUtils.success({
+        ...login.result,
+        user: accountWithPermissions
+      }, 'Đăng nhập thành công'));
+    } catch (error) {
+      console.error('Email OTP login error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi trong quá trình đăng nhập'));
+    }
+  }
+
+  static async requestSmsOtp(req: Request, res: Response): Promise<void> {
+    try {
+      const { phone }: SmsOtpRequestDto = req.body;
+
+      // Don't reveal if the number belongs to an account, nor whether a code was just sent
+      const normalizedPhone = ValidationUtils.normalizePhone(phone);
+      const account = normalizedPhone ? await AccountService.findByVerifiedPhone(normalizedPhone) : null;
+      const code = account && normalizedPhone
+        ? await OtpService.issueCode(account.id, 'sms_login', normalizedPhone)
+        : null;
+
+      if (account && normalizedPhone && code) {
+        await OutboxService.enqueue('sms.otp', { phone: normalizedPhone, code });
+      }
+
+      res.json(ResponseUtils.success({
+        expiresIn: OtpService.CODE_TTL_SECONDS
+      }, 'Nếu số điện thoại đã được xác thực trong hệ thống, bạn sẽ nhận được mã đăng nhập.'));
+    } catch (error) {
+      console.error('SMS OTP request error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi trong quá trình xử lý yêu cầu'));
+    }
+  }
+
+  static async verifySmsOtp(req: Request, res: Response): Promise<void> {
+    try {
+      const { phone, code }: SmsOtpVerifyDto = req.body;
+      const deviceInfo = req.headers['user-agent'];
+      const ipAddress = req.ip || req.connection.remoteAddress;
+
+      const login = await AuthService.loginWithSmsOtp(phone, code, deviceInfo, ipAddress);
+      if (!login) {
+        res.status(401).json(ResponseUtils.error('Mã xác thực không chính xác hoặc đã hết hạn'));
+        return;
+      }
+
+      // The code replaced the password, but the account still has to pass the 2FA step
+      if ('mfaRequired' in login.result) {
+        await AuditService.recordRequest(req, 'login_mfa_required', { actorAccountId: login.accountId, targetAccountId: login.accountId });
+        res.json(ResponseUtils.success(login.result, 'Vui lòng nhập mã xác thực hai lớp'));
+        return;
+      }
+
+      await AuditService.recordRequest(req, 'login_succeeded', { actorAccountId: login.accountId, targetAccountId: login.accountId });
+      const accountWithPermissions = await AccountService.getAccountWithPermissions(login.accountId);
+
+      res.json(ResponseUtils.success({
+        ...login.result,
+        user: accountWithPermissions
+      }, 'Đăng nhập thành công'));
+    } catch (error) {
+      console.error('SMS OTP login error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi trong quá trình đăng nhập'));
+    }
+  }
+
   static async verifyEmail(req: Request, res: Response): Promise<void> {
     try {
       const { token } = req.body;
 
       const verificationRecord = await AuthService.findEmailVerification(token);
-      if (!verificationRecord) {
+      const account = verificationRecord ? await AccountService.findById(verificationRecord.account_id) : null;
+      if (!verificationRecord || !account) {
         res.status(400).json(ResponseUtils.error('Token xác thực email không hợp lệ hoặc đã hết hạn'));
         return;
       }
 
-      // Verify account
-      const verified = await AccountService.verifyAccount(verificationRecord.account_id);
+      // Verify account, spend the token and queue the welcome email in one transaction
+      const verified = await AuthService.verifyEmail(token, account);
       if (!verified) {
         res.status(500).json(ResponseUtils.error('Lỗi xác thực tài khoản'));
         return;
       }
 
-      // Mark verification token as used
-      await AuthService.useEmailVerification(token);
-
-      // Get account info for welcome email
-      const account = await AccountService.findById(verificationRecord.account_id);
-      if (account) {
-        await EmailService.sendWelcomeEmail(account.email, account.first_name);
-      }
-
       res.json(ResponseUtils.success(null, 'Xác thực email thành công'));
     } catch (error) {
       console.error('Verify email error:', error);
@@ -242,14 +460,9 @@ export class AuthController {
         return;
       }
 
-      const verificationToken = await AuthService.createEmailVerification(account.id);
-      const emailSent = await EmailService.sendVerificationEmail(
-        email,
-        verificationToken,
-        account.first_name
-      );
+      await AuthService.sendEmailVerification(account);
 
-      res.json(ResponseUtils.success({ emailSent }, 'Đã gửi lại email xác thực'));
+      res.json(ResponseUtils.success(null, 'Đã gửi lại email xác thực'));
     } catch (error) {
       console.error('Resend verification error:', error);
       res.status(500).json(ResponseUtils.error('Lỗi trong quá trình gửi email xác thực'));
@@ -258,7 +471,7 @@ export class AuthController {
 
   static async checkAuthStatus(req: Request, res: Response): Promise<void> {
     try {
-      const accountId = req.user!.accountId;
+      const accountId = AuthMiddleware.currentUser(req).accountId;
       const account = await AccountService.getAccountWithPermissions(accountId);
 
       if (!account) {
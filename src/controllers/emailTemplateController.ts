@@ -0,0 +1,48 @@
+import { Request, Response } from 'express';
+import { ResponseUtils } from '../utils';
+import { EmailTemplateService } from '../services/emailTemplateService';
+
+export class EmailTemplateController {
+  static async list(req: Request, res: Response): Promise<void> {
+    try {
+      const templates = EmailTemplateService.listTemplates();
+      res.json(ResponseUtils.success(templates, 'Lấy danh sách mẫu email thành công'));
+    } catch (error) {
+      console.error('List email templates error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi lấy danh sách mẫu email'));
+    }
+  }
+
+  // format=html and format=text return the rendered part as is, so it can be opened in a browser
+  static async preview(req: Request, res: Response): Promise<void> {
+    try {
+      const { name } = req.params;
+      const { locale, format = 'json' } = req.query as { locale?: string; format?: string };
+
+      if (!EmailTemplateService.isTemplateName(name)) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy mẫu email'));
+        return;
+      }
+
+      const resolvedLocale = EmailTemplateService.resolveLocale(locale);
+      const email = EmailTemplateService.preview(name, resolvedLocale);
+
+      if (format === 'html') {
+        res.type('html').send(email.html);
+        return;
+      }
+      if (format === 'text') {
+        res.type('text').send(email.text);
+        return;
+      }
+
+      res.json(ResponseUtils.success(
+        { name, locale: resolvedLocale, ...email },
+        'Xem trước mẫu email thành công'
+      ));
+    } catch (error) {
+      console.error('Preview email template error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi xem trước mẫu email'));
+    }
+  }
+}
@@ -1,3 +1,13 @@
 export * from './authController';
 export * from './accountController';
 export * from './permissionController';
+export * from './twoFactorController';
+export * from './wellKnownController';
+export * from './keyController';
+export * from './oauthController';
+export * from './socialAuthController';
+export * from './passkeyController';
+export * from './sessionController';
+export * from './auditController';
+export * from './webhookController';
+export * from './emailTemplateController';
@@ -0,0 +1,33 @@
+import { Request, Response } from 'express';
+import { ResponseUtils } from '../utils';
+import { RotateSigningKeyDto } from '../types';
+import { KeyRingService } from '../services/keyRingService';
+import { AuditService } from '../services/auditService';
+
+export class KeyController {
+  static async listKeys(req: Request, res: Response): Promise<void> {
+    try {
+      const keys = await KeyRingService.listKeys();
+      res.json(ResponseUtils.success(keys, 'Lấy danh sách khóa ký thành công'));
+    } catch (error) {
+      console.error('List signing keys error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi lấy danh sách khóa ký'));
+    }
+  }
+
+  static async rotate(req: Request, res: Response): Promise<void> {
+    try {
+      const { activate_in_seconds }: RotateSigningKeyDto = req.body;
+
+      const key = await KeyRingService.rotate(activate_in_seconds);
+      await AuditService.recordRequest(req, 'signing_key_rotated', {
+        changes: AuditService.diff(null, { kid: key.kid, algorithm: key.algorithm, activates_at: key.activates_at })
+      });
+
+      res.status(201).json(ResponseUtils.success(key, 'Tạo khóa ký mới thành công'));
+    } catch (error) {
+      console.error('Rotate signing key error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi xoay vòng khóa ký'));
+    }
+  }
+}
@@ -0,0 +1,384 @@
+import { Request, Response } from 'express';
+import { ResponseUtils, JwtUtils } from '../utils';
+import {
+  CreateOAuthClientDto,
+  OAuthAuthorizeDto,
+  OAuthAuthorizeDecisionDto,
+  OAuthTokenRequestDto,
+  OAuthTokenActionDto,
+  OAuthTokenResponse,
+  TokenPayload
+} from '../types';
+import { OAuthService, OAuthError } from '../services/oauthService';
+import { OidcService } from '../services/oidcService';
+import { AuditService } from '../services/auditService';
+import { AuthMiddleware } from '../middleware/auth';
+
+// Query parameters may be repeated or nested; only plain strings are accepted
+const readAuthorizeParams = (query: Request['query']): OAuthAuthorizeDto => {
+  const params = new Map(Object.entries(query));
+  const read = (name: string): string | undefined => {
+    const value = params.get(name);
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  return {
+    response_type: read('response_type') || '',
+    client_id: read('client_id') || '',
+    redirect_uri: read('redirect_uri') || '',
+    scope: read('scope'),
+    state: read('state'),
+    code_challenge: read('code_challenge'),
+    code_challenge_method: read('code_challenge_method'),
+    nonce: read('nonce')
+  };
+};
+
+const sendAuthorizeError = (res: Response, error: unknown, params: OAuthAuthorizeDto): void => {
+  if (!(error instanceof OAuthError)) {
+    console.error('OAuth authorize error:', error);
+    res.status(500).json(ResponseUtils.error('Lỗi xử lý yêu cầu ủy quyền'));
+    return;
+  }
+
+  if (!error.redirectable) {
+    res.status(400).json(ResponseUtils.error(error.message));
+    return;
+  }
+
+  // The redirect URI has been verified, so the client learns about the error through it
+  const redirectTo = OAuthService.buildRedirectUrl(params.redirect_uri, {
+    error: error.code,
+    error_description: error.message,
+    state: params.state
+  });
+  res.json(ResponseUtils.success({ redirect_to: redirectTo }, error.message));
+};
+
+// RFC 6749 section 2.3.1: HTTP Basic takes precedence over credentials in the request body
+const readClientCredentials = <T extends { client_id?: string; client_secret?: string }>(req: Request, body: T): T | null => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Basic ')) return body;
+
+  try {
+    const decoded = Buffer.from(authHeader.substring(6), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator === -1) return null;
+
+    // Both parts are form-urlencoded before they are joined
+    return {
+      ...body,
+      client_id: decodeURIComponent(decoded.substring(0, separator).replace(/\+/g, ' ')),
+      client_secret: decodeURIComponent(decoded.substring(separator + 1).replace(/\+/g, ' '))
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Error bodies of the token, introspection and revocation endpoints follow RFC 6749 section 5.2
+const sendClientError = (req: Request, res: Response, error: unknown, logLabel: string): void => {
+  if (error instanceof OAuthError) {
+    if (error.statusCode === 401 && req.headers.authorization?.startsWith('Basic ')) {
+      res.set('WWW-Authenticate', 'Basic realm="volcanion-auth"');
+    }
+    res.status(error.statusCode).json({ error: error.code, error_description: error.message });
+    return;
+  }
+
+  console.error(logLabel, error);
+  res.status(500).json({ error: 'server_error', error_description: 'Lỗi máy chủ nội bộ' });
+};
+
+export class OAuthController {
+  static async authorize(req: Request, res: Response): Promise<void> {
+    const params = readAuthorizeParams(req.query);
+
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const request = await OAuthService.validateAuthorizationRequest(params);
+
+      const hasConsent = await OAuthService.hasConsent(accountId, request.client.client_id, request.scopes);
+      if (!hasConsent) {
+        res.json(ResponseUtils.success({
+          consent_required: true,
+          client: {
+            client_id: request.client.client_id,
+            name: request.client.name
+          },
+          scopes: request.scopes
+        }, 'Vui lòng xác nhận cấp quyền cho ứng dụng'));
+        return;
+      }
+
+      const code = await OAuthService.createAuthorizationCode(accountId, request);
+      const redirectTo = OAuthService.buildRedirectUrl(request.redirectUri, { code, state: request.state });
+
+      res.json(ResponseUtils.success({ redirect_to: redirectTo }, 'Ủy quyền thành công'));
+    } catch (error) {
+      sendAuthorizeError(res, error, params);
+    }
+  }
+
+  static async decide(req: Request, res: Response): Promise<void> {
+    const { approve, ...params }: OAuthAuthorizeDecisionDto = req.body;
+
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const request = await OAuthService.validateAuthorizationRequest(params);
+
+      if (!approve) {
+        const redirectTo = OAuthService.buildRedirectUrl(request.redirectUri, {
+          error: 'access_denied',
+          error_description: 'Người dùng đã từ chối cấp quyền',
+          state: request.state
+        });
+        res.json(ResponseUtils.success({ redirect_to: redirectTo }, 'Đã từ chối cấp quyền'));
+        return;
+      }
+
+      await OAuthService.saveConsent(accountId, request.client.client_id, request.scopes);
+
+      const code = await OAuthService.createAuthorizationCode(accountId, request);
+      const redirectTo = OAuthService.buildRedirectUrl(request.redirectUri, { code, state: request.state });
+
+      res.json(ResponseUtils.success({ redirect_to: redirectTo }, 'Ủy quyền thành công'));
+    } catch (error) {
+      sendAuthorizeError(res, error, params);
+    }
+  }
+
+  // Responses follow RFC 6749 section 5 rather than the API envelope so standard OAuth clients can read them
+  static async token(req: Request, res: Response): Promise<void> {
+    res.set({ 'Cache-Control': 'no-store', Pragma: 'no-cache' });
+
+    try {
+      const request = readClientCredentials<OAuthTokenRequestDto>(req, req.body || {});
+      if (!request) {
+        throw new OAuthError('invalid_client', 'Xác thực ứng dụng thất bại', 401);
+      }
+
+      const deviceInfo = req.headers['user-agent'];
+      const ipAddress = req.ip || req.connection.remoteAddress;
+
+      switch (request.grant_type) {
+        case 'authorization_code': {
+          const response = await OAuthService.exchangeAuthorizationCode(request, deviceInfo, ipAddress);
+          await OAuthController.recordTokenIssued(req, 'login_succeeded', request.client_id, response);
+          res.json(response);
+          return;
+        }
+        case 'refresh_token': {
+          const response = await OAuthService.refreshAccessToken(request, ipAddress);
+          await OAuthController.recordTokenIssued(req, 'token_refreshed', request.client_id, response);
+          res.json(response);
+          return;
+        }
+        case 'client_credentials':
+          res.json(await OAuthService.issueClientCredentialsToken(request));
+          return;
+        default:
+          throw new OAuthError(
+            request.grant_type ? 'unsupported_grant_type' : 'invalid_request',
+            request.grant_type ? 'grant_type không được hỗ trợ' : 'Thiếu grant_type'
+          );
+      }
+    } catch (error) {
+      sendClientError(req, res, error, 'OAuth token error:');
+    }
+  }
+
+  static async introspect(req: Request, res: Response): Promise<void> {
+    res.set({ 'Cache-Control': 'no-store', Pragma: 'no-cache' });
+
+    try {
+      const request = readClientCredentials<OAuthTokenActionDto>(req, req.body || {});
+      if (!request) {
+        throw new OAuthError('invalid_client', 'Xác thực ứng dụng thất bại', 401);
+      }
+
+      res.json(await OAuthService.introspectToken(request));
+    } catch (error) {
+      sendClientError(req, res, error, 'OAuth introspection error:');
+    }
+  }
+
+  // RFC 7009 section 2.2: success is reported even when the token was unknown or already invalid
+  static async revoke(req: Request, res: Response): Promise<void> {
+    res.set({ 'Cache-Control': 'no-store', Pragma: 'no-cache' });
+
+    try {
+      const request = readClientCredentials<OAuthTokenActionDto>(req, req.body || {});
+      if (!request) {
+        throw new OAuthError('invalid_client', 'Xác thực ứng dụng thất bại', 401);
+      }
+
+      await OAuthService.revokeToken(request);
+      res.status(200).end();
+    } catch (error) {
+      sendClientError(req, res, error, 'OAuth revocation error:');
+    }
+  }
+
+  // OpenID Connect Core section 5.3; claims are returned bare, like the token endpoint responses
+  static async userinfo(req: Request, res: Response): Promise<void> {
+    res.set('Cache-Control', 'no-store');
+
+    try {
+      const { accountId, scope } = AuthMiddleware.currentUser(req);
+      const scopes = scope ? scope.split(' ') : [];
+
+      if (!OidcService.isOpenIdRequest(scopes)) {
+        res.set('WWW-Authenticate', 'Bearer error="insufficient_scope", scope="openid"');
+        res.status(403).json({ error: 'insufficient_scope', error_description: 'Token không có phạm vi openid' });
+        return;
+      }
+
+      const claims = await OidcService.getUserInfo(accountId, scopes);
+      if (!claims) {
+        res.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+        res.status(401).json({ error: 'invalid_token', error_description: 'Tài khoản không tồn tại hoặc đã bị vô hiệu hóa' });
+        return;
+      }
+
+      res.json(claims);
+    } catch (error) {
+      console.error('OIDC userinfo error:', error);
+      res.status(500).json({ error: 'server_error', error_description: 'Lỗi máy chủ nội bộ' });
+    }
+  }
+
+  // Consents
+  static async listConsents(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+
+      const consents = await OAuthService.listConsents(accountId);
+
+      res.json(ResponseUtils.success(consents, 'Lấy danh sách ứng dụng đã cấp quyền thành công'));
+    } catch (error) {
+      console.error('List OAuth consents error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi lấy danh sách ứng dụng đã cấp quyền'));
+    }
+  }
+
+  static async revokeConsent(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const { clientId } = req.params;
+
+      const revoked = await OAuthService.revokeConsent(accountId, clientId);
+      if (!revoked) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy quyền đã cấp cho ứng dụng'));
+        return;
+      }
+
+      res.json(ResponseUtils.success(null, 'Thu hồi quyền của ứng dụng thành công'));
+    } catch (error) {
+      console.error('Revoke OAuth consent error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi thu hồi quyền của ứng dụng'));
+    }
+  }
+
+  // Client Management
+  static async createClient(req: Request, res: Response): Promise<void> {
+    try {
+      const clientData: CreateOAuthClientDto = req.body;
+
+      const client = await OAuthService.createClient(clientData, req.user?.accountId);
+      // The secret stays out of the audit log
+      await AuditService.recordRequest(req, 'oauth_client_created', {
+        changes: AuditService.diff(null, {
+          client_id: client.client_id,
+          name: client.name,
+          client_type: client.client_type,
+          redirect_uris: client.redirect_uris,
+          scopes: client.scopes
+        })
+      });
+
+      res.status(201).json(ResponseUtils.success(client, 'Đăng ký ứng dụng OAuth thành công'));
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        res.status(error.statusCode).json(ResponseUtils.error(error.message));
+        return;
+      }
+
+      console.error('Create OAuth client error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi đăng ký ứng dụng OAuth'));
+    }
+  }
+
+  static async listClients(req: Request, res: Response): Promise<void> {
+    try {
+      const clients = await OAuthService.listClients();
+      res.json(ResponseUtils.success(clients, 'Lấy danh sách ứng dụng OAuth thành công'));
+    } catch (error) {
+      console.error('List OAuth clients error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi lấy danh sách ứng dụng OAuth'));
+    }
+  }
+
+  static async deactivateClient(req: Request, res: Response): Promise<void> {
+    try {
+      const { clientId } = req.params;
+
+      const deactivated = await OAuthService.deactivateClient(clientId);
+      if (!deactivated) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy ứng dụng OAuth'));
+        return;
+      }
+
+      await AuditService.recordRequest(req, 'oauth_client_deactivated', {
+        changes: { client_id: { from: clientId, to: clientId }, is_active: { from: true, to: false } }
+      });
+
+      res.json(ResponseUtils.success(null, 'Vô hiệu hóa ứng dụng OAuth thành công'));
+    } catch (error) {
+      console.error('Deactivate OAuth client error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi vô hiệu hóa ứng dụng OAuth'));
+    }
+  }
+
+  static async rotateClientSecret(req: Request, res: Response): Promise<void> {
+    try {
+      const { clientId } = req.params;
+
+      const client = await OAuthService.rotateClientSecret(clientId);
+      if (!client) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy ứng dụng OAuth'));
+        return;
+      }
+
+      await AuditService.recordRequest(req, 'oauth_client_secret_rotated', {
+        changes: { client_id: { from: clientId, to: clientId } }
+      });
+
+      res.json(ResponseUtils.success(client, 'Cấp lại client secret thành công'));
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        res.status(error.statusCode).json(ResponseUtils.error(error.message));
+        return;
+      }
+
+      console.error('Rotate OAuth client secret error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi cấp lại client secret'));
+    }
+  }
+
+  // The account is read from the freshly issued access token; the client is the one that authenticated
+  private static async recordTokenIssued(
+    req: Request,
+    action: 'login_succeeded' | 'token_refreshed',
+    clientId: string | undefined,
+    response: OAuthTokenResponse
+  ): Promise<void> {
+    const { accountId } = JwtUtils.verifyAccessToken(response.access_token) as TokenPayload;
+
+    await AuditService.recordRequest(req, action, {
+      actorAccountId: accountId,
+      actorClientId: clientId,
+      targetAccountId: accountId
+    });
+  }
+}
@@ -0,0 +1,219 @@
+import { Request, Response } from 'express';
+import { ResponseUtils, JwtUtils } from '../utils';
+import {
+  PasskeyLoginDto,
+  PasskeyMfaDto,
+  PasskeyMfaOptionsDto,
+  PasskeyRegisterDto,
+  TokenPayload,
+  WebAuthnCredential
+} from '../types';
+import { AccountService } from '../services/accountService';
+import { AuthService } from '../services/authService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { WebAuthnService, WebAuthnError } from '../services/webAuthnService';
+import { AuditService } from '../services/auditService';
+import { AuthMiddleware } from '../middleware/auth';
+
+export class PasskeyController {
+  // Passkeys of the signed-in user
+  static async registrationOptions(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+
+      const account = await AccountService.findById(accountId);
+      if (!account) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy tài khoản'));
+        return;
+      }
+
+      const options = await WebAuthnService.createRegistrationOptions(account);
+
+      res.json(ResponseUtils.success(options, 'Tạo yêu cầu đăng ký passkey thành công'));
+    } catch (error) {
+      console.error('Passkey registration options error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi tạo yêu cầu đăng ký passkey'));
+    }
+  }
+
+  static async register(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const { credential, name, password, otp_code }: PasskeyRegisterDto = req.body;
+      const ipAddress = req.ip || req.connection.remoteAddress;
+
+      const account = await AccountService.findById(accountId);
+      if (!account) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy tài khoản'));
+        return;
+      }
+
+      // A passkey is a lasting way in, so an access token alone is not enough to add one
+      const isConfirmed = await AuthService.confirmIdentity(account, password, otp_code);
+      if (!isConfirmed) {
+        res.status(400).json(ResponseUtils.error(
+          otp_code ? 'Mã xác thực không chính xác hoặc đã hết hạn' : 'Mật khẩu không chính xác'
+        ));
+        return;
+      }
+
+      const passkey = await AuthService.registerPasskey(account, credential, name, ipAddress);
+      await AuthService.recordSecurityEvent(accountId, 'passkey_registered', ipAddress, {
+        passkey_id: passkey.id
+      });
+      await AuditService.recordRequest(req, 'passkey_registered', {
+        targetAccountId: accountId,
+        changes: AuditService.diff(null, { id: passkey.id, name: passkey.name })
+      });
+
+      res.status(201).json(ResponseUtils.success(PasskeyController.toResponse(passkey), 'Đăng ký passkey thành công'));
+    } catch (error) {
+      if (error instanceof WebAuthnError) {
+        res.status(error.statusCode).json(ResponseUtils.error(error.message));
+        return;
+      }
+
+      console.error('Passkey registration error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi đăng ký passkey'));
+    }
+  }
+
+  static async list(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+
+      const passkeys = await WebAuthnService.listCredentials(accountId);
+
+      res.json(ResponseUtils.success(passkeys.map(PasskeyController.toResponse), 'Lấy danh sách passkey thành công'));
+    } catch (error) {
+      console.error('List passkeys error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi lấy danh sách passkey'));
+    }
+  }
+
+  static async remove(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const passkeyId = parseInt(req.params.id);
+
+      const deleted = await WebAuthnService.deleteCredential(accountId, passkeyId);
+      if (!deleted) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy passkey'));
+        return;
+      }
+
+      await AuthService.recordSecurityEvent(accountId, 'passkey_removed', req.ip || req.connection.remoteAddress, {
+        passkey_id: passkeyId
+      });
+      await AuditService.recordRequest(req, 'passkey_removed', {
+        targetAccountId: accountId,
+        changes: AuditService.diff({ id: passkeyId }, null)
+      });
+
+      res.json(ResponseUtils.success(null, 'Xóa passkey thành công'));
+    } catch (error) {
+      console.error('Remove passkey error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi xóa passkey'));
+    }
+  }
+
+  // Passwordless login
+  static async loginOptions(req: Request, res: Response): Promise<void> {
+    try {
+      const options = await WebAuthnService.createAuthenticationOptions();
+
+      res.json(ResponseUtils.success(options, 'Tạo yêu cầu đăng nhập bằng passkey thành công'));
+    } catch (error) {
+      console.error('Passkey login options error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi tạo yêu cầu đăng nhập bằng passkey'));
+    }
+  }
+
+  static async login(req: Request, res: Response): Promise<void> {
+    try {
+      const { credential }: PasskeyLoginDto = req.body;
+      const deviceInfo = req.headers['user-agent'];
+      const ipAddress = req.ip || req.connection.remoteAddress;
+
+      const { accountId, result } = await AuthService.loginWithPasskey(credential, deviceInfo, ipAddress);
+      await AuditService.recordRequest(req, 'login_succeeded', { actorAccountId: accountId, targetAccountId: accountId });
+
+      const accountWithPermissions = await AccountService.getAccountWithPermissions(accountId);
+
+      res.json(ResponseUtils.success({
+        ...result,
+        user: accountWithPermissions
+      }, 'Đăng nhập thành công'));
+    } catch (error) {
+      if (error instanceof WebAuthnError) {
+        res.status(error.statusCode).json(ResponseUtils.error(error.message));
+        return;
+      }
+
+      console.error('Passkey login error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi trong quá trình đăng nhập bằng passkey'));
+    }
+  }
+
+  // Second factor after a password, magic link, email code or social login
+  static async mfaOptions(req: Request, res: Response): Promise<void> {
+    try {
+      const { mfa_token }: PasskeyMfaOptionsDto = req.body;
+
+      const challenge = await TwoFactorService.getChallenge(mfa_token);
+      if (!challenge) {
+        res.status(401).json(ResponseUtils.error('Phiên đăng nhập đã hết hạn. Vui lòng đăng nhập lại'));
+        return;
+      }
+
+      const options = await WebAuthnService.createAuthenticationOptions(challenge.accountId);
+
+      res.json(ResponseUtils.success(options, 'Tạo yêu cầu xác thực bằng passkey thành công'));
+    } catch (error) {
+      if (error instanceof WebAuthnError) {
+        res.status(error.statusCode).json(ResponseUtils.error(error.message));
+        return;
+      }
+
+      console.error('Passkey MFA options error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi tạo yêu cầu xác thực bằng passkey'));
+    }
+  }
+
+  static async verifyMfa(req: Request, res: Response): Promise<void> {
+    try {
+      const { mfa_token, credential }: PasskeyMfaDto = req.body;
+
+      const tokens = await AuthService.verifyMfaPasskey(mfa_token, credential);
+      if (!tokens) {
+        res.status(401).json(ResponseUtils.error('Xác thực passkey thất bại hoặc phiên đăng nhập đã hết hạn'));
+        return;
+      }
+
+      // Get user info from the freshly issued access token
+      const { accountId } = JwtUtils.verifyAccessToken(tokens.accessToken) as TokenPayload;
+      await AuditService.recordRequest(req, 'login_succeeded', { actorAccountId: accountId, targetAccountId: accountId });
+      const accountWithPermissions = await AccountService.getAccountWithPermissions(accountId);
+
+      res.json(ResponseUtils.success({
+        ...tokens,
+        user: accountWithPermissions
+      }, 'Đăng nhập thành công'));
+    } catch (error) {
+      console.error('Passkey MFA verify error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi xác thực passkey'));
+    }
+  }
+
+  // The public key is only needed server side
+  private static toResponse(passkey: WebAuthnCredential) {
+    return {
+      id: passkey.id,
+      name: passkey.name,
+      transports: passkey.transports ? passkey.transports.split(',') : [],
+      sign_count: passkey.sign_count,
+      last_used_at: passkey.last_used_at,
+      created_at: passkey.created_at
+    };
+  }
+}
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { ResponseUtils } from '../utils';
 import { PermissionService } from '../services/permissionService';
+import { AuditService } from '../services/auditService';
+import { OutboxService } from '../services/outboxService';
 
 export class PermissionController {
   // Role Management
@@ -50,6 +52,7 @@ export class PermissionController {
 
       const roleId = await PermissionService.createRole(name, description);
       const role = await PermissionService.getRoleById(roleId);
+      await AuditService.recordRequest(req, 'role_created', { changes: AuditService.diff(null, role) });
 
       res.status(201).json(ResponseUtils.success(role, 'Tạo vai trò thành công'));
     } catch (error) {
@@ -86,6 +89,10 @@ export class PermissionController {
       }
 
       const role = await PermissionService.getRoleById(roleId);
+      await AuditService.recordRequest(req, 'role_updated', {
+        changes: { id: { from: roleId, to: roleId }, ...AuditService.diff(existingRole, { name, description }) }
+      });
+
       res.json(ResponseUtils.success(role, 'Cập nhật vai trò thành công'));
     } catch (error) {
       console.error('Update role error:', error);
@@ -97,12 +104,15 @@ export class PermissionController {
     try {
       const roleId = parseInt(req.params.id);
 
+      const role = await PermissionService.getRoleById(roleId);
       const deleted = await PermissionService.deleteRole(roleId);
       if (!deleted) {
         res.status(404).json(ResponseUtils.error('Không tìm thấy vai trò'));
         return;
       }
 
+      await AuditService.recordRequest(req, 'role_deleted', { changes: AuditService.diff(role, null) });
+
       res.json(ResponseUtils.success(null, 'Xóa vai trò thành công'));
     } catch (error) {
       console.error('Delete role error:', error);
@@ -151,6 +161,7 @@ export class PermissionController {
 
       const permissionId = await PermissionService.createPermission(name, resource, action, description);
       const permission = await PermissionService.getPermissionById(permissionId);
+      await AuditService.recordRequest(req, 'permission_created', { changes: AuditService.diff(null, permission) });
 
       res.status(201).json(ResponseUtils.success(permission, 'Tạo quyền hạn thành công'));
     } catch (error) {
@@ -186,6 +197,13 @@ export class PermissionController {
       }
 
       const permission = await PermissionService.getPermissionById(permissionId);
+      await AuditService.recordRequest(req, 'permission_updated', {
+        changes: {
+          id: { from: permissionId, to: permissionId },
+          ...AuditService.diff(existingPermission, { name, description, resource, action })
+        }
+      });
+
       res.json(ResponseUtils.success(permission, 'Cập nhật quyền hạn thành công'));
     } catch (error) {
       console.error('Update permission error:', error);
@@ -197,12 +215,15 @@ export class PermissionController {
     try {
       const permissionId = parseInt(req.params.id);
 
+      const permission = await PermissionService.getPermissionById(permissionId);
       const deleted = await PermissionService.deletePermission(permissionId);
       if (!deleted) {
         res.status(404).json(ResponseUtils.error('Không tìm thấy quyền hạn'));
         return;
       }
 
+      await AuditService.recordRequest(req, 'permission_deleted', { changes: AuditService.diff(permission, null) });
+
       res.json(ResponseUtils.success(null, 'Xóa quyền hạn thành công'));
     } catch (error) {
       console.error('Delete permission error:', error);
@@ -222,6 +243,10 @@ export class PermissionController {
         return;
       }
 
+      await AuditService.recordRequest(req, 'role_permission_assigned', {
+        changes: AuditService.diff(null, { role_permission_id: rolePermissionId, role_id: roleId, permission_id: permissionId })
+      });
+
       res.json(ResponseUtils.success({ rolePermissionId }, 'Gán quyền hạn cho vai trò thành công'));
     } catch (error) {
       console.error('Assign permission to role error:', error);
@@ -240,6 +265,10 @@ export class PermissionController {
         return;
       }
 
+      await AuditService.recordRequest(req, 'role_permission_removed', {
+        changes: AuditService.diff({ role_id: roleId, permission_id: permissionId }, null)
+      });
+
       res.json(ResponseUtils.success(null, 'Hủy quyền hạn khỏi vai trò thành công'));
     } catch (error) {
       console.error('Remove permission from role error:', error);
@@ -251,7 +280,8 @@ export class PermissionController {
   static async grantRoleToAccount(req: Request, res: Response): Promise<void> {
     try {
       const { account_id, role_id, expires_at } = req.body;
-      const grantedBy = req.user!.accountId;
+      // Grants made by a machine client have no granting account
+      const grantedBy = req.user?.accountId;
 
       const expiresAtDate = expires_at ? new Date(expires_at) : undefined;
       const success = await PermissionService.grantRoleToAccount(account_id, role_id, grantedBy, expiresAtDate);
@@ -261,6 +291,15 @@ export class PermissionController {
         return;
       }
 
+      await AuditService.recordRequest(req, 'account_role_granted', {
+        targetAccountId: account_id,
+        changes: AuditService.diff(null, { role_id, expires_at })
+      });
+      await OutboxService.enqueue('webhook.event', {
+        type: 'role.granted',
+        data: { account_id, role_id, expires_at: expires_at ?? null, granted_by: grantedBy ?? null }
+      });
+
       res.json(ResponseUtils.success(null, 'Gán vai trò cho tài khoản thành công'));
     } catch (error) {
       console.error('Grant role to account error:', error);
@@ -278,6 +317,15 @@ export class PermissionController {
         return;
       }
 
+      await AuditService.recordRequest(req, 'account_role_revoked', {
+        targetAccountId: account_id,
+        changes: AuditService.diff({ role_id }, null)
+      });
+      await OutboxService.enqueue('webhook.event', {
+        type: 'role.revoked',
+        data: { account_id, role_id }
+      });
+
       res.json(ResponseUtils.success(null, 'Thu hồi vai trò khỏi tài khoản thành công'));
     } catch (error) {
       console.error('Revoke role from account error:', error);
@@ -288,7 +336,7 @@ export class PermissionController {
   static async grantPermissionToAccount(req: Request, res: Response): Promise<void> {
     try {
       const { account_id, role_permission_id, expires_at } = req.body;
-      const grantedBy = req.user!.accountId;
+      const grantedBy = req.user?.accountId;
 
       const expiresAtDate = expires_at ? new Date(expires_at) : undefined;
       const grantId = await PermissionService.grantPermissionToAccount(account_id, role_permission_id, grantedBy, expiresAtDate);
@@ -298,6 +346,20 @@ export class PermissionController {
         return;
       }
 
+      await AuditService.recordRequest(req, 'account_permission_granted', {
+        targetAccountId: account_id,
+        changes: AuditService.diff(null, { grant_id: grantId, role_permission_id, expires_at })
+      });
+      await OutboxService.enqueue('webhook.event', {
+        type: 'permission.granted',
+        data: {
+          account_id,
+          role_permission_id,
+          expires_at: expires_at ?? null,
+          granted_by: grantedBy ?? null
+        }
+      });
+
       res.json(ResponseUtils.success({ grantId }, 'Gán quyền hạn cho tài khoản thành công'));
     } catch (error) {
       console.error('Grant permission to account error:', error);
@@ -315,6 +377,15 @@ export class PermissionController {
         return;
       }
 
+      await AuditService.recordRequest(req, 'account_permission_revoked', {
+        targetAccountId: account_id,
+        changes: AuditService.diff({ role_permission_id }, null)
+      });
+      await OutboxService.enqueue('webhook.event', {
+        type: 'permission.revoked',
+        data: { account_id, role_permission_id }
+      });
+
       res.json(ResponseUtils.success(null, 'Thu hồi quyền hạn khỏi tài khoản thành công'));
     } catch (error) {
       console.error('Revoke permission from account error:', error);
@@ -0,0 +1,154 @@
+import { Request, Response } from 'express';
+import { ResponseUtils } from '../utils';
+import { AccountService } from '../services/accountService';
+import { AuthService } from '../services/authService';
+import { SessionService } from '../services/sessionService';
+import { AuditService } from '../services/auditService';
+import { AuthMiddleware } from '../middleware/auth';
+
+export class SessionController {
+  // Devices signed in to the current user's account
+  static async listOwn(req: Request, res: Response): Promise<void> {
+    try {
+      const { accountId, sid } = AuthMiddleware.currentUser(req);
+
+      const sessions = await SessionService.listSessions(accountId, sid);
+
+      res.json(ResponseUtils.success(sessions, 'Lấy danh sách phiên đăng nhập thành công'));
+    } catch (error) {
+      console.error('List sessions error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi lấy danh sách phiên đăng nhập'));
+    }
+  }
+
+  static async revokeOwn(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const sessionId = parseInt(req.params.id);
+
+      const revoked = await SessionService.revokeSession(accountId, sessionId);
+      if (!revoked) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy phiên đăng nhập'));
+        return;
+      }
+
+      await AuthService.recordSecurityEvent(accountId, 'session_revoked', req.ip || req.connection.remoteAddress, {
+        session_id: sessionId
+      });
+
+      res.json(ResponseUtils.success(null, 'Đăng xuất thiết bị thành công'));
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi đăng xuất thiết bị'));
+    }
+  }
+
+  // Oversight of another account by support staff; every action lands in the account's security events
+  static async listForAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = parseInt(req.params.id);
+
+      const account = await AccountService.findById(accountId);
+      if (!account) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy tài khoản'));
+        return;
+      }
+
+      const [refreshSessions, cachedSessions] = await Promise.all([
+        SessionService.listSessions(accountId),
+        SessionService.listCachedSessions(accountId)
+      ]);
+
+      await AuthService.recordSecurityEvent(accountId, 'sessions_viewed', req.ip || req.connection.remoteAddress, {
+        viewed_by: req.user?.accountId
+      });
+
+      res.json(ResponseUtils.success({
+        refresh_sessions: refreshSessions,
+        cached_sessions: cachedSessions
+      }, 'Lấy danh sách phiên đăng nhập thành công'));
+    } catch (error) {
+      console.error('Admin list sessions error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi lấy danh sách phiên đăng nhập'));
+    }
+  }
+
+  static async revokeForAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = parseInt(req.params.id);
+      const sessionId = parseInt(req.params.sessionId);
+
+      const revoked = await SessionService.revokeSession(accountId, sessionId);
+      if (!revoked) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy phiên đăng nhập'));
+        return;
+      }
+
+      await AuthService.recordSecurityEvent(accountId, 'session_revoked', req.ip || req.connection.remoteAddress, {
+        session_id: sessionId,
+        revoked_by: req.user?.accountId
+      });
+      await AuditService.recordRequest(req, 'session_revoked', {
+        targetAccountId: accountId,
+        changes: AuditService.diff({ session_id: sessionId }, null)
+      });
+
+      res.json(ResponseUtils.success(null, 'Thu hồi phiên đăng nhập thành công'));
+    } catch (error) {
+      console.error('Admin revoke session error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi thu hồi phiên đăng nhập'));
+    }
+  }
+
+  static async revokeCachedForAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = parseInt(req.params.id);
+      const { sessionId } = req.params;
+
+      const deleted = await AuthService.deleteSession(accountId, sessionId);
+      if (!deleted) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy phiên đăng nhập'));
+        return;
+      }
+
+      await AuthService.recordSecurityEvent(accountId, 'cached_session_revoked', req.ip || req.connection.remoteAddress, {
+        session_id: sessionId,
+        revoked_by: req.user?.accountId
+      });
+      await AuditService.recordRequest(req, 'session_revoked', {
+        targetAccountId: accountId,
+        changes: AuditService.diff({ cached_session_id: sessionId }, null)
+      });
+
+      res.json(ResponseUtils.success(null, 'Thu hồi phiên đăng nhập thành công'));
+    } catch (error) {
+      console.error('Admin revoke cached session error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi thu hồi phiên đăng nhập'));
+    }
+  }
+
+  static async revokeAllForAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = parseInt(req.params.id);
+
+      const account = await AccountService.findById(accountId);
+      if (!account) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy tài khoản'));
+        return;
+      }
+
+      // Refresh tokens, access tokens and cached sessions of every device
+      await AuthService.logoutAll(accountId);
+
+      await AuthService.recordSecurityEvent(accountId, 'all_sessions_revoked', req.ip || req.connection.remoteAddress, {
+        revoked_by: req.user?.accountId
+      });
+      await AuditService.recordRequest(req, 'all_sessions_revoked', { targetAccountId: accountId });
+
+      res.json(ResponseUtils.success(null, 'Đã đăng xuất tài khoản khỏi tất cả thiết bị'));
+    } catch (error) {
+      console.error('Admin revoke all sessions error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi thu hồi phiên đăng nhập'));
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { Request, Response } from 'express';
+import { ResponseUtils } from '../utils';
+import { SocialCallbackDto } from '../types';
+import { AccountService } from '../services/accountService';
+import { SocialAuthService } from '../services/socialAuthService';
+import { AuditService } from '../services/auditService';
+import { IdentityProviderService, IdentityProviderError } from '../services/identityProviderService';
+import { AuthMiddleware } from '../middleware/auth';
+
+export class SocialAuthController {
+  static async listProviders(req: Request, res: Response): Promise<void> {
+    try {
+      const providers = IdentityProviderService.listProviders().map(provider => ({
+        name: provider.name,
+        display_name: provider.displayName
+      }));
+
+      res.json(ResponseUtils.success(providers, 'Lấy danh sách nhà cung cấp đăng nhập thành công'));
+    } catch (error) {
+      console.error('List identity providers error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi lấy danh sách nhà cung cấp đăng nhập'));
+    }
+  }
+
+  static async authorize(req: Request, res: Response): Promise<void> {
+    try {
+      const { provider } = req.params;
+
+      const authorizationUrl = await IdentityProviderService.createAuthorizationUrl(provider);
+
+      res.json(ResponseUtils.success({ authorization_url: authorizationUrl }, 'Chuyển hướng tới nhà cung cấp đăng nhập'));
+    } catch (error) {
+      if (error instanceof IdentityProviderError) {
+        res.status(error.statusCode).json(ResponseUtils.error(error.message));
+        return;
+      }
+
+      console.error('Social authorize error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi khởi tạo đăng nhập qua nhà cung cấp'));
+    }
+  }
+
+  static async callback(req: Request, res: Response): Promise<void> {
+    try {
+      const { provider } = req.params;
+      const { code, state }: SocialCallbackDto = req.body;
+      const deviceInfo = req.headers['user-agent'];
+      const ipAddress = req.ip || req.connection.remoteAddress;
+
+      const { accountId, isNewAccount, result } = await SocialAuthService.login(provider, code, state, deviceInfo, ipAddress);
+
+      // Same responses as the password login
+      if ('mfaRequired' in result) {
+        await AuditService.recordRequest(req, 'login_mfa_required', { actorAccountId: accountId, targetAccountId: accountId });
+        res.json(ResponseUtils.success(result, 'Vui lòng nhập mã xác thực hai lớp'));
+        return;
+      }
+
+      await AuditService.recordRequest(req, 'login_succeeded', { actorAccountId: accountId, targetAccountId: accountId });
+      const accountWithPermissions = await AccountService.getAccountWithPermissions(accountId);
+
+      res.json(ResponseUtils.success({
+        ...result,
+        isNewAccount,
+        user: accountWithPermissions
+      }, 'Đăng nhập thành công'));
+    } catch (error) {
+      if (error instanceof IdentityProviderError) {
+        res.status(error.statusCode).json(ResponseUtils.error(error.message));
+        return;
+      }
+
+      console.error('Social login error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi trong quá trình đăng nhập qua nhà cung cấp'));
+    }
+  }
+
+  // Linked identities of the signed-in user
+  static async listIdentities(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+
+      const identities = await SocialAuthService.listIdentities(accountId);
+
+      res.json(ResponseUtils.success(identities, 'Lấy danh sách tài khoản liên kết thành công'));
+    } catch (error) {
+      console.error('List linked identities error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi lấy danh sách tài khoản liên kết'));
+    }
+  }
+
+  static async authorizeLink(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const { provider } = req.params;
+
+      const authorizationUrl = await IdentityProviderService.createAuthorizationUrl(provider, accountId);
+
+      res.json(ResponseUtils.success({ authorization_url: authorizationUrl }, 'Chuyển hướng tới nhà cung cấp đăng nhập'));
+    } catch (error) {
+      if (error instanceof IdentityProviderError) {
+        res.status(error.statusCode).json(ResponseUtils.error(error.message));
+        return;
+      }
+
+      console.error('Link identity authorize error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi khởi tạo liên kết tài khoản'));
+    }
+  }
+
+  static async linkIdentity(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const { provider } = req.params;
+      const { code, state }: SocialCallbackDto = req.body;
+      const ipAddress = req.ip || req.connection.remoteAddress;
+
+      const identity = await SocialAuthService.linkAccount(accountId, provider, code, state, ipAddress);
+
+      res.status(201).json(ResponseUtils.success(identity, 'Liên kết tài khoản thành công'));
+    } catch (error) {
+      if (error instanceof IdentityProviderError) {
+        res.status(error.statusCode).json(ResponseUtils.error(error.message));
+        return;
+      }
+
+      console.error('Link identity error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi liên kết tài khoản'));
+    }
+  }
+
+  static async unlinkIdentity(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const { provider } = req.params;
+      const ipAddress = req.ip || req.connection.remoteAddress;
+
+      const unlinked = await SocialAuthService.unlinkIdentity(accountId, provider, ipAddress);
+      if (!unlinked) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy tài khoản liên kết'));
+        return;
+      }
+
+      res.json(ResponseUtils.success(null, 'Hủy liên kết tài khoản thành công'));
+    } catch (error) {
+      if (error instanceof IdentityProviderError) {
+        res.status(error.statusCode).json(ResponseUtils.error(error.message));
+        return;
+      }
+
+      console.error('Unlink identity error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi hủy liên kết tài khoản'));
+    }
+  }
+}
@@ -0,0 +1,316 @@
+import { Request, Response } from 'express';
+import { ResponseUtils, PasswordUtils, JwtUtils } from '../utils';
+import {
+  TwoFactorCodeDto,
+  TwoFactorDisableDto,
+  TwoFactorVerifyDto,
+  SmsTwoFactorDisableDto,
+  SmsTwoFactorSendDto,
+  SmsTwoFactorVerifyDto,
+  TokenPayload
+} from '../types';
+import { AccountService } from '../services/accountService';
+import { AuthService } from '../services/authService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { OtpService } from '../services/otpService';
+import { SmsService } from '../services/smsService';
+import { OutboxService } from '../services/outboxService';
+import { AuditService } from '../services/auditService';
+import { AuthMiddleware } from '../middleware/auth';
+
+export class TwoFactorController {
+  static async setup(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+
+      const account = await AccountService.findById(accountId);
+      if (!account) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy tài khoản'));
+        return;
+      }
+
+      if (account.two_factor_enabled) {
+        res.status(400).json(ResponseUtils.error('Xác thực hai lớp đã được bật'));
+        return;
+      }
+
+      const setup = await TwoFactorService.beginSetup(account);
+
+      res.json(ResponseUtils.success(setup, 'Quét mã QR bằng ứng dụng xác thực và nhập mã để xác nhận'));
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi thiết lập xác thực hai lớp'));
+    }
+  }
+
+  static async confirm(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const { code }: TwoFactorCodeDto = req.body;
+
+      const account = await AccountService.findById(accountId);
+      if (!account) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy tài khoản'));
+        return;
+      }
+
+      if (account.two_factor_enabled) {
+        res.status(400).json(ResponseUtils.error('Xác thực hai lớp đã được bật'));
+        return;
+      }
+
+      if (!account.two_factor_secret) {
+        res.status(400).json(ResponseUtils.error('Vui lòng thiết lập xác thực hai lớp trước'));
+        return;
+      }
+
+      const confirmed = await TwoFactorService.confirmSetup(account, code);
+      if (!confirmed) {
+        res.status(400).json(ResponseUtils.error('Mã xác thực không chính xác'));
+        return;
+      }
+
+      // Recovery codes are only shown once, right after enrollment
+      const recoveryCodes = await TwoFactorService.generateRecoveryCodes(accountId);
+
+      res.json(ResponseUtils.success({ recoveryCodes }, 'Bật xác thực hai lớp thành công'));
+    } catch (error) {
+      console.error('Two-factor confirm error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi xác nhận xác thực hai lớp'));
+    }
+  }
+
+  static async disable(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const { password, code, recovery_code }: TwoFactorDisableDto = req.body;
+
+      const account = await AccountService.findById(accountId);
+      if (!account) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy tài khoản'));
+        return;
+      }
+
+      if (!account.two_factor_enabled) {
+        res.status(400).json(ResponseUtils.error('Xác thực hai lớp chưa được bật'));
+        return;
+      }
+
+      const isPasswordValid = await PasswordUtils.compare(password, account.password);
+      if (!isPasswordValid) {
+        res.status(400).json(ResponseUtils.error('Mật khẩu không chính xác'));
+        return;
+      }
+
+      const isCodeValid = await TwoFactorService.verifySecondFactor(account, code, recovery_code);
+      if (!isCodeValid) {
+        res.status(400).json(ResponseUtils.error('Mã xác thực không chính xác'));
+        return;
+      }
+
+      if (recovery_code) {
+        await TwoFactorController.notifyRecoveryCodeUsed(accountId, req.ip || req.connection.remoteAddress);
+      }
+
+      await TwoFactorService.disable(accountId);
+
+      res.json(ResponseUtils.success(null, 'Tắt xác thực hai lớp thành công'));
+    } catch (error) {
+      console.error('Two-factor disable error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi tắt xác thực hai lớp'));
+    }
+  }
+
+  static async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const { code }: TwoFactorCodeDto = req.body;
+
+      const account = await AccountService.findById(accountId);
+      if (!account) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy tài khoản'));
+        return;
+      }
+
+      if (!account.two_factor_enabled) {
+        res.status(400).json(ResponseUtils.error('Xác thực hai lớp chưa được bật'));
+        return;
+      }
+
+      const isCodeValid = await TwoFactorService.verifyCode(account, code);
+      if (!isCodeValid) {
+        res.status(400).json(ResponseUtils.error('Mã xác thực không chính xác'));
+        return;
+      }
+
+      const recoveryCodes = await TwoFactorService.generateRecoveryCodes(accountId);
+
+      res.json(ResponseUtils.success({ recoveryCodes }, 'Tạo mã khôi phục mới thành công'));
+    } catch (error) {
+      console.error('Regenerate recovery codes error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi tạo mã khôi phục'));
+    }
+  }
+
+  static async verify(req: Request, res: Response): Promise<void> {
+    try {
+      const { mfa_token, code, recovery_code }: TwoFactorVerifyDto = req.body;
+
+      const tokens = await AuthService.verifyMfaChallenge(mfa_token, code, recovery_code);
+      if (!tokens) {
+        res.status(401).json(ResponseUtils.error('Mã xác thực không chính xác hoặc phiên đăng nhập đã hết hạn'));
+        return;
+      }
+
+      // Get user info from the freshly issued access token
+      const { accountId } = JwtUtils.verifyAccessToken(tokens.accessToken) as TokenPayload;
+
+      if (recovery_code) {
+        await TwoFactorController.notifyRecoveryCodeUsed(accountId, req.ip || req.connection.remoteAddress);
+      }
+      await AuditService.recordRequest(req, 'login_succeeded', { actorAccountId: accountId, targetAccountId: accountId });
+      const accountWithPermissions = await AccountService.getAccountWithPermissions(accountId);
+
+      res.json(ResponseUtils.success({
+        ...tokens,
+        user: accountWithPermissions
+      }, 'Đăng nhập thành công'));
+    } catch (error) {
+      console.error('Two-factor verify error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi xác thực hai lớp'));
+    }
+  }
+
+  // SMS codes as second factor, sent to the verified phone of the account
+  static async enableSms(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+
+      const account = await AccountService.findById(accountId);
+      if (!account) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy tài khoản'));
+        return;
+      }
+
+      if (account.sms_two_factor_enabled) {
+        res.status(400).json(ResponseUtils.error('Xác thực hai lớp qua SMS đã được bật'));
+        return;
+      }
+
+      if (!account.phone || !account.phone_verified_at) {
+        res.status(400).json(ResponseUtils.error('Vui lòng xác thực số điện thoại trước'));
+        return;
+      }
+
+      await TwoFactorService.setSmsEnabled(accountId, true);
+
+      res.json(ResponseUtils.success(null, 'Bật xác thực hai lớp qua SMS thành công'));
+    } catch (error) {
+      console.error('SMS two-factor enable error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi bật xác thực hai lớp qua SMS'));
+    }
+  }
+
+  static async disableSms(req: Request, res: Response): Promise<void> {
+    try {
+      const accountId = AuthMiddleware.currentUser(req).accountId;
+      const { password }: SmsTwoFactorDisableDto = req.body;
+
+      const account = await AccountService.findById(accountId);
+      if (!account) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy tài khoản'));
+        return;
+      }
+
+      if (!account.sms_two_factor_enabled) {
+        res.status(400).json(ResponseUtils.error('Xác thực hai lớp qua SMS chưa được bật'));
+        return;
+      }
+
+      const isPasswordValid = await PasswordUtils.compare(password, account.password);
+      if (!isPasswordValid) {
+        res.status(400).json(ResponseUtils.error('Mật khẩu không chính xác'));
+        return;
+      }
+
+      await TwoFactorService.setSmsEnabled(accountId, false);
+
+      res.json(ResponseUtils.success(null, 'Tắt xác thực hai lớp qua SMS thành công'));
+    } catch (error) {
+      console.error('SMS two-factor disable error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi tắt xác thực hai lớp qua SMS'));
+    }
+  }
+
+  static async sendSmsCode(req: Request, res: Response): Promise<void> {
+    try {
+      const { mfa_token }: SmsTwoFactorSendDto = req.body;
+
+      const challenge = await TwoFactorService.getChallenge(mfa_token);
+      if (!challenge) {
+        res.status(401).json(ResponseUtils.error('Phiên đăng nhập đã hết hạn. Vui lòng đăng nhập lại'));
+        return;
+      }
+
+      const account = await AccountService.findById(challenge.accountId);
+      if (!account || !account.sms_two_factor_enabled || !account.phone) {
+        res.status(400).json(ResponseUtils.error('Tài khoản chưa bật xác thực hai lớp qua SMS'));
+        return;
+      }
+
+      const code = await OtpService.issueCode(account.id, 'sms_two_factor', account.phone);
+      if (!code) {
+        res.status(429).json(ResponseUtils.error('Vui lòng đợi 1 phút trước khi yêu cầu mã mới'));
+        return;
+      }
+
+      await OutboxService.enqueue('sms.otp', { phone: account.phone, code });
+
+      res.json(ResponseUtils.success({
+        phone: SmsService.maskPhone(account.phone),
+        expiresIn: OtpService.CODE_TTL_SECONDS
+      }, 'Mã xác thực đã được gửi đến số điện thoại của bạn'));
+    } catch (error) {
+      console.error('SMS two-factor send error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi gửi mã xác thực'));
+    }
+  }
+
+  static async verifySms(req: Request, res: Response): Promise<void> {
+    try {
+      const { mfa_token, code }: SmsTwoFactorVerifyDto = req.body;
+
+      const tokens = await AuthService.verifyMfaSms(mfa_token, code);
+      if (!tokens) {
+        res.status(401).json(ResponseUtils.error('Mã xác thực không chính xác hoặc phiên đăng nhập đã hết hạn'));
+        return;
+      }
+
+      // Get user info from the freshly issued access token
+      const { accountId } = JwtUtils.verifyAccessToken(tokens.accessToken) as TokenPayload;
+      await AuditService.recordRequest(req, 'login_succeeded', { actorAccountId: accountId, targetAccountId: accountId });
+      const accountWithPermissions = await AccountService.getAccountWithPermissions(accountId);
+
+      res.json(ResponseUtils.success({
+        ...tokens,
+        user: accountWithPermissions
+      }, 'Đăng nhập thành công'));
+    } catch (error) {
+      console.error('SMS two-factor verify error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi xác thực hai lớp'));
+    }
+  }
+
+  private static async notifyRecoveryCodeUsed(accountId: number, ipAddress?: string): Promise<void> {
+    const account = await AccountService.findById(accountId);
+    if (!account) return;
+
+    await OutboxService.enqueue('email.recovery_code_used', {
+      email: account.email,
+      first_name: account.first_name,
+      remaining_codes: await TwoFactorService.countRemainingRecoveryCodes(accountId),
+      ip_address: ipAddress,
+      locale: account.preferred_locale
+    });
+  }
+}
@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import { ResponseUtils } from '../utils';
+import { CreateWebhookDto, UpdateWebhookDto } from '../types';
+import { AuditService } from '../services/auditService';
+import { WebhookService } from '../services/webhookService';
+
+export class WebhookController {
+  static async list(req: Request, res: Response): Promise<void> {
+    try {
+      const subscriptions = await WebhookService.listSubscriptions();
+      res.json(ResponseUtils.success(subscriptions, 'Lấy danh sách webhook thành công'));
+    } catch (error) {
+      console.error('List webhooks error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi lấy danh sách webhook'));
+    }
+  }
+
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const data: CreateWebhookDto = req.body;
+
+      const subscription = await WebhookService.createSubscription(data, req.user?.accountId);
+
+      // The secret stays out of the audit log
+      await AuditService.recordRequest(req, 'webhook_created', {
+        changes: AuditService.diff(null, { id: subscription.id, url: subscription.url, events: subscription.events })
+      });
+
+      res.status(201).json(ResponseUtils.success(subscription, 'Tạo webhook thành công'));
+    } catch (error) {
+      console.error('Create webhook error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi tạo webhook'));
+    }
+  }
+
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      const data: UpdateWebhookDto = req.body;
+
+      const existing = await WebhookService.findSubscriptionById(id);
+      if (!existing) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy webhook'));
+        return;
+      }
+
+      await WebhookService.updateSubscription(id, data);
+      const subscription = await WebhookService.findSubscriptionById(id);
+
+      await AuditService.recordRequest(req, 'webhook_updated', {
+        changes: { id: { from: id, to: id }, ...AuditService.diff(existing, data) }
+      });
+
+      res.json(ResponseUtils.success(subscription, 'Cập nhật webhook thành công'));
+    } catch (error) {
+      console.error('Update webhook error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi cập nhật webhook'));
+    }
+  }
+
+  static async remove(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+
+      const existing = await WebhookService.findSubscriptionById(id);
+      const deleted = await WebhookService.deleteSubscription(id);
+      if (!deleted) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy webhook'));
+        return;
+      }
+
+      await AuditService.recordRequest(req, 'webhook_deleted', {
+        changes: AuditService.diff(existing ? { id, url: existing.url, events: existing.events } : { id }, null)
+      });
+
+      res.json(ResponseUtils.success(null, 'Xóa webhook thành công'));
+    } catch (error) {
+      console.error('Delete webhook error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi xóa webhook'));
+    }
+  }
+
+  // Dead-letter list: deliveries that failed every attempt
+  static async listDeadDeliveries(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 10 } = req.query;
+
+      const result = await WebhookService.listDeadDeliveries(
+        parseInt(page as string),
+        parseInt(limit as string)
+      );
+
+      res.json(ResponseUtils.paginated(
+        result.deliveries,
+        result.total,
+        result.page,
+        result.limit,
+        'Lấy danh sách webhook gửi thất bại thành công'
+      ));
+    } catch (error) {
+      console.error('List dead webhook deliveries error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi lấy danh sách webhook gửi thất bại'));
+    }
+  }
+
+  static async retryDelivery(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+
+      const retried = await WebhookService.retryDelivery(id);
+      if (!retried) {
+        res.status(404).json(ResponseUtils.error('Không tìm thấy webhook gửi thất bại'));
+        return;
+      }
+
+      await AuditService.recordRequest(req, 'webhook_delivery_retried', {
+        changes: { status: { from: 'dead', to: 'pending' }, delivery_id: { from: id, to: id } }
+      });
+
+      res.json(ResponseUtils.success(null, 'Đã đưa webhook vào hàng đợi gửi lại'));
+    } catch (error) {
+      console.error('Retry webhook delivery error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi gửi lại webhook'));
+    }
+  }
+}
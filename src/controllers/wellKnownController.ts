@@ -0,0 +1,31 @@
+import { Request, Response } from 'express';
+import { ResponseUtils, JwtUtils } from '../utils';
+import { OidcService } from '../services/oidcService';
+
+export class WellKnownController {
+  static async jwks(req: Request, res: Response): Promise<void> {
+    try {
+      // Served as a bare JWK Set (RFC 7517) so standard JWT libraries can consume it directly
+      res.set('Cache-Control', 'public, max-age=300');
+      res.json(JwtUtils.getJwks());
+    } catch (error) {
+      console.error('JWKS error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi tải khóa công khai'));
+    }
+  }
+
+  static async openidConfiguration(req: Request, res: Response): Promise<void> {
+    try {
+      if (!OidcService.isEnabled()) {
+        res.status(404).json(ResponseUtils.error('OpenID Connect cần khóa ký RS256 hoặc ES256'));
+        return;
+      }
+
+      res.set('Cache-Control', 'public, max-age=300');
+      res.json(OidcService.getDiscoveryDocument());
+    } catch (error) {
+      console.error('OpenID configuration error:', error);
+      res.status(500).json(ResponseUtils.error('Lỗi tải cấu hình OpenID Connect'));
+    }
+  }
+}
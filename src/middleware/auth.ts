@@ -1,42 +1,75 @@
 import { Request, Response, NextFunction } from 'express';
 import { JwtUtils, ResponseUtils } from '../utils';
-import { TokenPayload } from '../types';
+import { TokenPayload, ClientTokenPayload, AccessTokenPayload } from '../types';
+import { TokenRevocationService } from '../services/tokenRevocationService';
 
 declare global {
   namespace Express {
     interface Request {
       user?: TokenPayload;
+      client?: ClientTokenPayload;
     }
   }
 }
 
 export class AuthMiddleware {
-  static authenticate(req: Request, res: Response, next: NextFunction): void {
+  static async authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const authHeader = req.headers.authorization;
-      
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        res.status(401).json(ResponseUtils.error('Token không được cung cấp'));
+      const decoded = await AuthMiddleware.verifyBearerToken(req, res);
+      if (!decoded) return;
+
+      if (JwtUtils.isClientToken(decoded) || AuthMiddleware.isDelegatedToken(decoded)) {
+        res.status(403).json(ResponseUtils.error('Token của ứng dụng không được phép truy cập tài nguyên này'));
         return;
       }
 
-      const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-      
-      try {
-        const decoded = JwtUtils.verifyAccessToken(token);
+      req.user = decoded;
+      next();
+    } catch {
+      res.status(500).json(ResponseUtils.error('Lỗi xác thực'));
+      return;
+    }
+  }
+
+  // For routes that machine clients and OAuth clients acting for a user may call too; permission
+  // checks then also run against the token's scopes, and requireAccount keeps both out of user-only routes
+  static async authenticateUserOrClient(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const decoded = await AuthMiddleware.verifyBearerToken(req, res);
+      if (!decoded) return;
+
+      if (JwtUtils.isClientToken(decoded)) {
+        req.client = decoded;
+      } else {
         req.user = decoded;
-        next();
-      } catch (jwtError) {
-        res.status(401).json(ResponseUtils.error('Token không hợp lệ hoặc đã hết hạn'));
+      }
+      next();
+    } catch {
+      res.status(500).json(ResponseUtils.error('Lỗi xác thực'));
+      return;
+    }
+  }
+
+  // Only for endpoints that serve OAuth clients on behalf of a user, such as OIDC userinfo
+  static async authenticateDelegated(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const decoded = await AuthMiddleware.verifyBearerToken(req, res);
+      if (!decoded) return;
+
+      if (JwtUtils.isClientToken(decoded)) {
+        res.status(403).json(ResponseUtils.error('Token của ứng dụng không được phép truy cập tài nguyên này'));
         return;
       }
-    } catch (error) {
+
+      req.user = decoded;
+      next();
+    } catch {
       res.status(500).json(ResponseUtils.error('Lỗi xác thực'));
       return;
     }
   }
 
-  static optional(req: Request, res: Response, next: NextFunction): void {
+  static async optional(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const authHeader = req.headers.authorization;
       
@@ -45,19 +78,61 @@ export class AuthMiddleware {
         
         try {
           const decoded = JwtUtils.verifyAccessToken(token);
-          req.user = decoded;
-        } catch (jwtError) {
+          const isRevoked = await TokenRevocationService.isRevoked(decoded);
+          // Client tokens carry no user and delegated tokens only serve their client, so both count as anonymous
+          const isUserToken = !JwtUtils.isClientToken(decoded) && !AuthMiddleware.isDelegatedToken(decoded);
+          req.user = isRevoked || !isUserToken ? undefined : decoded;
+        } catch {
           // Token invalid but this middleware is optional, so continue
           req.user = undefined;
         }
       }
       
       next();
-    } catch (error) {
+    } catch {
       next();
     }
   }
 
+  // For handlers mounted behind authenticate or requireAccount, which always set req.user
+  static currentUser(req: Request): TokenPayload {
+    if (!req.user) {
+      throw new Error('Route handler requires an authenticated user');
+    }
+
+    return req.user;
+  }
+
+  // Guards user-only routes mounted behind authenticateUserOrClient
+  static requireAccount(req: Request, res: Response, next: NextFunction): void {
+    if (req.user && !req.user.clientId) {
+      next();
+      return;
+    }
+
+    if (req.client || req.user) {
+      res.status(403).json(ResponseUtils.error('Token của ứng dụng không được phép truy cập tài nguyên này'));
+      return;
+    }
+
+    res.status(401).json(ResponseUtils.error('Yêu cầu đăng nhập'));
+  }
+
+  // Consent is granted on the user's behalf, so only a token from the user's own sign-in may do it
+  static requireFirstPartySession(req: Request, res: Response, next: NextFunction): void {
+    if (!req.user) {
+      res.status(401).json(ResponseUtils.error('Yêu cầu đăng nhập'));
+      return;
+    }
+
+    if (req.user.clientId || !req.user.sid) {
+      res.status(403).json(ResponseUtils.error('Yêu cầu phiên đăng nhập của người dùng'));
+      return;
+    }
+
+    next();
+  }
+
   static requireVerification(req: Request, res: Response, next: NextFunction): void {
     if (!req.user) {
       res.status(401).json(ResponseUtils.error('Yêu cầu đăng nhập'));
@@ -71,6 +146,12 @@ export class AuthMiddleware {
 
   static requireRole(roles: string | string[]) {
     return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      if (req.client || req.user?.clientId) {
+        // Roles belong to accounts; clients are only granted permission scopes
+        res.status(403).json(ResponseUtils.error('Không có quyền truy cập'));
+        return;
+      }
+
       if (!req.user) {
         res.status(401).json(ResponseUtils.error('Yêu cầu đăng nhập'));
         return;
@@ -93,7 +174,7 @@ export class AuthMiddleware {
         
         res.status(403).json(ResponseUtils.error('Không có quyền truy cập'));
         return;
-      } catch (error) {
+      } catch {
         res.status(500).json(ResponseUtils.error('Lỗi kiểm tra quyền'));
         return;
       }
@@ -102,11 +183,27 @@ export class AuthMiddleware {
 
   static requirePermission(resource: string, action: string) {
     return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      if (req.client) {
+        if (!AuthMiddleware.hasScope(req.client.scope, resource, action)) {
+          res.status(403).json(ResponseUtils.error('Không có quyền thực hiện hành động này'));
+          return;
+        }
+
+        next();
+        return;
+      }
+
       if (!req.user) {
         res.status(401).json(ResponseUtils.error('Yêu cầu đăng nhập'));
         return;
       }
 
+      // A client acting for the user needs the scope as well as the user's own permission
+      if (req.user.clientId && !AuthMiddleware.hasScope(req.user.scope, resource, action)) {
+        res.status(403).json(ResponseUtils.error('Không có quyền thực hiện hành động này'));
+        return;
+      }
+
       try {
         const { PermissionService } = await import('../services/permissionService');
         
@@ -118,7 +215,7 @@ export class AuthMiddleware {
         }
         
         next();
-      } catch (error) {
+      } catch {
         res.status(500).json(ResponseUtils.error('Lỗi kiểm tra quyền'));
         return;
       }
@@ -127,11 +224,27 @@ export class AuthMiddleware {
 
   static requirePermissionByName(permissionName: string) {
     return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      if (req.client) {
+        if (!req.client.permissions.includes(permissionName)) {
+          res.status(403).json(ResponseUtils.error('Không có quyền thực hiện hành động này'));
+          return;
+        }
+
+        next();
+        return;
+      }
+
       if (!req.user) {
         res.status(401).json(ResponseUtils.error('Yêu cầu đăng nhập'));
         return;
       }
 
+      // Delegated tokens only carry the permissions their granted scopes cover
+      if (req.user.clientId && !(req.user.permissions ?? []).includes(permissionName)) {
+        res.status(403).json(ResponseUtils.error('Không có quyền thực hiện hành động này'));
+        return;
+      }
+
       try {
         const { PermissionService } = await import('../services/permissionService');
         
@@ -143,7 +256,7 @@ export class AuthMiddleware {
         }
         
         next();
-      } catch (error) {
+      } catch {
         res.status(500).json(ResponseUtils.error('Lỗi kiểm tra quyền'));
         return;
       }
@@ -152,11 +265,28 @@ export class AuthMiddleware {
 
   static requireOwnershipOrPermission(resource: string, action: string) {
     return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      if (req.client) {
+        // A client owns no account, so only its scopes count
+        if (!AuthMiddleware.hasScope(req.client.scope, resource, action)) {
+          res.status(403).json(ResponseUtils.error('Không có quyền truy cập tài nguyên này'));
+          return;
+        }
+
+        next();
+        return;
+      }
+
       if (!req.user) {
         res.status(401).json(ResponseUtils.error('Yêu cầu đăng nhập'));
         return;
       }
 
+      // Even the user's own account is only open to a client with the scope for it
+      if (req.user.clientId && !AuthMiddleware.hasScope(req.user.scope, resource, action)) {
+        res.status(403).json(ResponseUtils.error('Không có quyền truy cập tài nguyên này'));
+        return;
+      }
+
       try {
         // Check if user is accessing their own resource
         const resourceId = req.params.id || req.params.accountId;
@@ -176,10 +306,49 @@ export class AuthMiddleware {
         }
         
         next();
-      } catch (error) {
+      } catch {
         res.status(500).json(ResponseUtils.error('Lỗi kiểm tra quyền'));
         return;
       }
     };
   }
+
+  // Sends the 401 itself and returns null when the bearer token is missing, invalid or revoked
+  private static async verifyBearerToken(req: Request, res: Response): Promise<AccessTokenPayload | null> {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      res.status(401).json(ResponseUtils.error('Token không được cung cấp'));
+      return null;
+    }
+
+    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
+
+    let decoded: AccessTokenPayload;
+    try {
+      decoded = JwtUtils.verifyAccessToken(token);
+    } catch {
+      res.status(401).json(ResponseUtils.error('Token không hợp lệ hoặc đã hết hạn'));
+      return null;
+    }
+
+    // Signature alone is not enough: the token may have been revoked by logout or a password change
+    const isRevoked = await TokenRevocationService.isRevoked(decoded);
+    if (isRevoked) {
+      res.status(401).json(ResponseUtils.error('Token đã bị thu hồi'));
+      return null;
+    }
+
+    return decoded;
+  }
+
+  // Tokens from the authorization_code grant name the client they were issued to and must not act as first-party tokens
+  private static isDelegatedToken(payload: AccessTokenPayload): boolean {
+    return !JwtUtils.isClientToken(payload) && Boolean(payload.clientId);
+  }
+
+  // Client scopes use the permissions table naming, e.g. "account:read"
+  private static hasScope(scope: string | undefined, resource: string, action: string): boolean {
+    return (scope ?? '').split(' ').includes(`${resource}:${action}`);
+  }
 }
@@ -39,6 +39,33 @@ export const passwordResetLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Magic link rate limiting
+export const magicLinkLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5, // limit each IP to 5 magic link requests per windowMs
+  message: ResponseUtils.error('Quá nhiều yêu cầu gửi liên kết đăng nhập, vui lòng thử lại sau 15 phút'),
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Email one-time code rate limiting
+export const emailOtpLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5, // limit each IP to 5 code requests per windowMs
+  message: ResponseUtils.error('Quá nhiều yêu cầu gửi mã xác thực, vui lòng thử lại sau 15 phút'),
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// SMS one-time code rate limiting; every message costs money, so the limit is per hour
+export const smsOtpLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5, // limit each IP to 5 SMS code requests per hour
+  message: ResponseUtils.error('Quá nhiều yêu cầu gửi mã qua SMS, vui lòng thử lại sau 1 giờ'),
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // Email verification rate limiting
 export const emailVerificationLimiter = rateLimit({
   windowMs: 60 * 60 * 1000, // 1 hour
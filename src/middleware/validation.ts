@@ -18,6 +18,13 @@ const phoneSchema = Joi.string().pattern(/^(\+84|84|0)[3|5|7|8|9][0-9]{8}$/).all
   'string.pattern.base': 'Số điện thoại không hợp lệ (định dạng Việt Nam)'
 });
 
+// Phone numbers that receive a code cannot be left empty
+const requiredPhoneSchema = Joi.string().pattern(/^(\+84|84|0)[3|5|7|8|9][0-9]{8}$/).required().messages({
+  'string.pattern.base': 'Số điện thoại không hợp lệ (định dạng Việt Nam)',
+  'string.empty': 'Số điện thoại là bắt buộc',
+  'any.required': 'Số điện thoại là bắt buộc'
+});
+
 const nameSchema = Joi.string().max(100).allow('').messages({
   'string.max': 'Tên không được vượt quá 100 ký tự'
 });
@@ -30,6 +37,78 @@ const genderSchema = Joi.string().valid('male', 'female', 'other').allow('').mes
   'any.only': 'Giới tính phải là male, female hoặc other'
 });
 
+const localeSchema = Joi.string().valid('vi', 'en').messages({
+  'any.only': 'Ngôn ngữ phải là vi hoặc en'
+});
+
+const totpCodeSchema = Joi.string().pattern(/^\d{6}$/).messages({
+  'string.pattern.base': 'Mã xác thực phải gồm 6 chữ số',
+  'any.required': 'Mã xác thực là bắt buộc'
+});
+
+const recoveryCodeSchema = Joi.string().trim().max(32).messages({
+  'string.max': 'Mã khôi phục không hợp lệ'
+});
+
+const base64UrlSchema = (max: number) => Joi.string().pattern(/^[A-Za-z0-9_-]+$/).max(max).required().messages({
+  'string.pattern.base': 'Dữ liệu passkey không hợp lệ',
+  'string.max': 'Dữ liệu passkey không hợp lệ',
+  'any.required': 'Dữ liệu passkey là bắt buộc'
+});
+
+// Browsers return ArrayBuffers; clients send them base64url encoded like @simplewebauthn/browser does
+const passkeyCredentialSchema = (response: Joi.PartialSchemaMap) => Joi.object({
+  id: base64UrlSchema(512),
+  rawId: base64UrlSchema(512),
+  type: Joi.string().valid('public-key').required().messages({
+    'any.only': 'Loại thông tin xác thực không hợp lệ',
+    'any.required': 'Loại thông tin xác thực là bắt buộc'
+  }),
+  response: Joi.object(response).required()
+}).required().messages({
+  'any.required': 'Thông tin passkey là bắt buộc'
+});
+
+const passkeyAssertionSchema = passkeyCredentialSchema({
+  clientDataJSON: base64UrlSchema(4096),
+  authenticatorData: base64UrlSchema(4096),
+  signature: base64UrlSchema(1024),
+  userHandle: Joi.string().pattern(/^[A-Za-z0-9_-]*$/).max(128).allow(null)
+});
+
+const mfaTokenSchema = Joi.string().required().messages({
+  'any.required': 'MFA token là bắt buộc'
+});
+
+const secondFactorMessages = {
+  'object.xor': 'Chỉ nhập mã xác thực hoặc mã khôi phục',
+  'object.missing': 'Vui lòng nhập mã xác thực hoặc mã khôi phục'
+};
+
+// Signed payloads still go out in clear text over http, so that is only allowed outside production
+const webhookHttpsOnly = process.env.NODE_ENV === 'production';
+const webhookUrl = Joi.string().max(2000).uri({
+  scheme: webhookHttpsOnly ? ['https'] : ['https', 'http']
+}).messages({
+  'string.uri': 'URL webhook không hợp lệ',
+  'string.uriCustomScheme': webhookHttpsOnly ? 'URL webhook phải là địa chỉ https hợp lệ' : 'URL webhook phải là địa chỉ http hoặc https hợp lệ',
+  'string.max': 'URL webhook không được vượt quá 2000 ký tự',
+  'any.required': 'URL webhook là bắt buộc'
+});
+
+const webhookEvents = Joi.array().items(
+  Joi.string().valid(
+    '*', 'account.registered', 'account.verified', 'account.updated', 'account.deactivated', 'account.unlocked',
+    'login.succeeded', 'login.failed', 'password.changed', 'password.reset',
+    'role.granted', 'role.revoked', 'permission.granted', 'permission.revoked'
+  )
+).min(1).unique().messages({
+  'any.only': 'Loại sự kiện không hợp lệ',
+  'array.min': 'Cần chọn ít nhất một loại sự kiện',
+  'array.unique': 'Loại sự kiện bị trùng lặp',
+  'any.required': 'Danh sách sự kiện là bắt buộc'
+});
+
 // Validation schemas
 export const validationSchemas = {
   register: Joi.object({
@@ -39,7 +118,8 @@ export const validationSchemas = {
     last_name: nameSchema,
     phone: phoneSchema,
     date_of_birth: dateSchema,
-    gender: genderSchema
+    gender: genderSchema,
+    preferred_locale: localeSchema
   }),
 
   login: Joi.object({
@@ -54,16 +134,19 @@ export const validationSchemas = {
     last_name: nameSchema,
     phone: phoneSchema,
     date_of_birth: dateSchema,
-    gender: genderSchema
+    gender: genderSchema,
+    preferred_locale: localeSchema
   }).min(1).messages({
     'object.min': 'Phải có ít nhất một trường để cập nhật'
   }),
 
   changePassword: Joi.object({
-    current_password: Joi.string().required().messages({
-      'any.required': 'Mật khẩu hiện tại là bắt buộc'
-    }),
+    current_password: Joi.string(),
+    otp_code: totpCodeSchema,
     new_password: passwordSchema
+  }).xor('current_password', 'otp_code').messages({
+    'object.xor': 'Chỉ nhập mật khẩu hiện tại hoặc mã xác thực email',
+    'object.missing': 'Vui lòng nhập mật khẩu hiện tại hoặc mã xác thực email'
   }),
 
   forgotPassword: Joi.object({
@@ -89,6 +172,121 @@ export const validationSchemas = {
     })
   }),
 
+  magicLinkRequest: Joi.object({
+    email: emailSchema
+  }),
+
+  magicLinkVerify: Joi.object({
+    token: Joi.string().max(255).required().messages({
+      'string.max': 'Liên kết đăng nhập không hợp lệ',
+      'any.required': 'Token đăng nhập là bắt buộc'
+    })
+  }),
+
+  secureAccount: Joi.object({
+    token: Joi.string().max(255).required().messages({
+      'string.max': 'Liên kết không hợp lệ',
+      'any.required': 'Token là bắt buộc'
+    })
+  }),
+
+  emailOtpRequest: Joi.object({
+    email: emailSchema
+  }),
+
+  emailOtpVerify: Joi.object({
+    email: emailSchema,
+    code: totpCodeSchema.required()
+  }),
+
+  smsOtpRequest: Joi.object({
+    phone: requiredPhoneSchema
+  }),
+
+  smsOtpVerify: Joi.object({
+    phone: requiredPhoneSchema,
+    code: totpCodeSchema.required()
+  }),
+
+  phoneVerify: Joi.object({
+    code: totpCodeSchema.required()
+  }),
+
+  // Two-factor validation
+  twoFactorCode: Joi.object({
+    code: totpCodeSchema.required()
+  }),
+
+  twoFactorDisable: Joi.object({
+    password: Joi.string().required().messages({
+      'any.required': 'Mật khẩu là bắt buộc'
+    }),
+    code: totpCodeSchema,
+    recovery_code: recoveryCodeSchema
+  }).xor('code', 'recovery_code').messages(secondFactorMessages),
+
+  twoFactorVerify: Joi.object({
+    mfa_token: mfaTokenSchema,
+    code: totpCodeSchema,
+    recovery_code: recoveryCodeSchema
+  }).xor('code', 'recovery_code').messages(secondFactorMessages),
+
+  smsTwoFactorDisable: Joi.object({
+    password: Joi.string().required().messages({
+      'any.required': 'Mật khẩu là bắt buộc'
+    })
+  }),
+
+  smsTwoFactorSend: Joi.object({
+    mfa_token: mfaTokenSchema
+  }),
+
+  smsTwoFactorVerify: Joi.object({
+    mfa_token: mfaTokenSchema,
+    code: totpCodeSchema.required()
+  }),
+
+  // Passkey validation
+  passkeyRegister: Joi.object({
+    credential: passkeyCredentialSchema({
+      clientDataJSON: base64UrlSchema(4096),
+      attestationObject: base64UrlSchema(16384),
+      transports: Joi.array().items(Joi.string().max(32)).max(10)
+    }),
+    name: Joi.string().trim().max(100).allow('').messages({
+      'string.max': 'Tên passkey không được vượt quá 100 ký tự'
+    }),
+    password: Joi.string(),
+    otp_code: totpCodeSchema
+  }).xor('password', 'otp_code').messages({
+    'object.xor': 'Chỉ nhập mật khẩu hoặc mã xác thực email',
+    'object.missing': 'Vui lòng nhập mật khẩu hoặc mã xác thực email'
+  }),
+
+  passkeyLogin: Joi.object({
+    credential: passkeyAssertionSchema
+  }),
+
+  passkeyMfaOptions: Joi.object({
+    mfa_token: mfaTokenSchema
+  }),
+
+  passkeyMfa: Joi.object({
+    mfa_token: mfaTokenSchema,
+    credential: passkeyAssertionSchema
+  }),
+
+  socialCallback: Joi.object({
+    code: Joi.string().max(2048).required().messages({
+      'string.max': 'Mã xác thực không hợp lệ',
+      'any.required': 'Mã xác thực là bắt buộc'
+    }),
+    state: Joi.string().max(255).required().messages({
+      'string.max': 'State không hợp lệ',
+      'any.required': 'State là bắt buộc'
+    })
+  }),
+
   // Role validation
   createRole: Joi.object({
     name: Joi.string().max(100).required().messages({
@@ -167,6 +365,77 @@ export const validationSchemas = {
     })
   }),
 
+  // Signing key rotation validation
+  rotateSigningKey: Joi.object({
+    activate_in_seconds: Joi.number().integer().min(0).max(604800).messages({
+      'number.base': 'Thời gian kích hoạt phải là số',
+      'number.integer': 'Thời gian kích hoạt phải là số nguyên',
+      'number.min': 'Thời gian kích hoạt không được âm',
+      'number.max': 'Thời gian kích hoạt không được vượt quá 7 ngày'
+    })
+  }),
+
+  // OAuth validation
+  createOAuthClient: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required().messages({
+      'string.empty': 'Tên ứng dụng là bắt buộc',
+      'string.max': 'Tên ứng dụng không được vượt quá 100 ký tự',
+      'any.required': 'Tên ứng dụng là bắt buộc'
+    }),
+    client_type: Joi.string().valid('public', 'confidential').default('public').messages({
+      'any.only': 'Loại ứng dụng phải là public hoặc confidential'
+    }),
+    // Backend services using only client_credentials never redirect a browser
+    redirect_uris: Joi.array().items(
+      Joi.string().max(2000).custom((value, helpers) => {
+        return ValidationUtils.isValidRedirectUri(value) ? value : helpers.error('string.redirectUri');
+      })
+    ).max(10).unique().when('client_type', {
+      is: 'confidential',
+      then: Joi.array().default([]),
+      otherwise: Joi.array().min(1).required()
+    }).messages({
+      'string.redirectUri': 'redirect_uri phải dùng https, http loopback hoặc scheme riêng của ứng dụng và không chứa fragment',
+      'string.max': 'redirect_uri không được vượt quá 2000 ký tự',
+      'array.min': 'Cần ít nhất một redirect_uri',
+      'array.max': 'Không được đăng ký quá 10 redirect_uri',
+      'array.unique': 'redirect_uri bị trùng lặp',
+      'any.required': 'redirect_uris là bắt buộc'
+    }),
+    scopes: Joi.array().items(
+      Joi.string().pattern(/^[\x21\x23-\x5B\x5D-\x7E]+$/).max(100)
+    ).max(50).unique().messages({
+      'string.pattern.base': 'Phạm vi không hợp lệ',
+      'array.max': 'Không được đăng ký quá 50 phạm vi',
+      'array.unique': 'Phạm vi bị trùng lặp'
+    })
+  }),
+
+  oauthAuthorizeDecision: Joi.object({
+    response_type: Joi.string().required().messages({
+      'any.required': 'response_type là bắt buộc'
+    }),
+    client_id: Joi.string().required().messages({
+      'any.required': 'client_id là bắt buộc'
+    }),
+    redirect_uri: Joi.string().required().messages({
+      'any.required': 'redirect_uri là bắt buộc'
+    }),
+    scope: Joi.string().allow(''),
+    state: Joi.string().max(500).allow('').messages({
+      'string.max': 'state không được vượt quá 500 ký tự'
+    }),
+    code_challenge: Joi.string().allow(''),
+    code_challenge_method: Joi.string().allow(''),
+    nonce: Joi.string().max(255).allow('').messages({
+      'string.max': 'nonce không được vượt quá 255 ký tự'
+    }),
+    approve: Joi.boolean().required().messages({
+      'boolean.base': 'approve phải là true hoặc false',
+      'any.required': 'Vui lòng chọn đồng ý hoặc từ chối'
+    })
+  }),
+
   // Pagination validation
   pagination: Joi.object({
     page: Joi.number().integer().min(1).default(1).messages({
@@ -186,6 +455,101 @@ export const validationSchemas = {
     order: Joi.string().valid('ASC', 'DESC').default('DESC').messages({
       'any.only': 'Thứ tự phải là ASC hoặc DESC'
     })
+  }),
+
+  // Audit log filters
+  auditQuery: Joi.object({
+    page: Joi.number().integer().min(1).default(1).messages({
+      'number.base': 'Trang phải là số',
+      'number.integer': 'Trang phải là số nguyên',
+      'number.min': 'Trang phải lớn hơn 0'
+    }),
+    limit: Joi.number().integer().min(1).max(100).default(20).messages({
+      'number.base': 'Giới hạn phải là số',
+      'number.integer': 'Giới hạn phải là số nguyên',
+      'number.min': 'Giới hạn phải lớn hơn 0',
+      'number.max': 'Giới hạn không được vượt quá 100'
+    }),
+    action: Joi.string().valid(
+      'login_succeeded', 'login_failed', 'login_mfa_required', 'token_refreshed', 'logout', 'logout_all',
+      'password_reset_requested', 'password_reset', 'password_changed',
+      'role_created', 'role_updated', 'role_deleted',
+      'permission_created', 'permission_updated', 'permission_deleted',
+      'role_permission_assigned', 'role_permission_removed',
+      'account_role_granted', 'account_role_revoked', 'account_permission_granted', 'account_permission_revoked',
+      'account_updated', 'account_deactivated', 'account_verified', 'account_unlocked', 'audit_exported',
+      'webhook_created', 'webhook_updated', 'webhook_deleted', 'webhook_delivery_retried',
+      'session_revoked', 'all_sessions_revoked',
+      'oauth_client_created', 'oauth_client_deactivated', 'oauth_client_secret_rotated', 'signing_key_rotated',
+      'passkey_registered', 'passkey_removed'
+    ).messages({
+      'any.only': 'Hành động không hợp lệ'
+    }),
+    actor_account_id: Joi.number().integer().positive().messages({
+      'number.base': 'ID người thực hiện phải là số',
+      'number.integer': 'ID người thực hiện phải là số nguyên',
+      'number.positive': 'ID người thực hiện phải là số dương'
+    }),
+    target_account_id: Joi.number().integer().positive().messages({
+      'number.base': 'ID tài khoản bị tác động phải là số',
+      'number.integer': 'ID tài khoản bị tác động phải là số nguyên',
+      'number.positive': 'ID tài khoản bị tác động phải là số dương'
+    }),
+    from: Joi.date().iso().messages({
+      'date.base': 'Thời điểm bắt đầu không hợp lệ',
+      'date.format': 'Thời điểm bắt đầu phải theo định dạng ISO 8601'
+    }),
+    to: Joi.date().iso().when('from', { is: Joi.exist(), then: Joi.date().min(Joi.ref('from')) }).messages({
+      'date.base': 'Thời điểm kết thúc không hợp lệ',
+      'date.format': 'Thời điểm kết thúc phải theo định dạng ISO 8601',
+      'date.min': 'Thời điểm kết thúc phải sau thời điểm bắt đầu'
+    })
+  }),
+
+  createWebhook: Joi.object({
+    url: webhookUrl.required(),
+    events: webhookEvents.required(),
+    secret: Joi.string().min(16).max(255).messages({
+      'string.min': 'Secret phải có ít nhất 16 ký tự',
+      'string.max': 'Secret không được vượt quá 255 ký tự'
+    }),
+    description: Joi.string().trim().max(255).allow('').messages({
+      'string.max': 'Mô tả không được vượt quá 255 ký tự'
+    })
+  }),
+
+  updateWebhook: Joi.object({
+    url: webhookUrl,
+    events: webhookEvents,
+    description: Joi.string().trim().max(255).allow('').messages({
+      'string.max': 'Mô tả không được vượt quá 255 ký tự'
+    }),
+    is_active: Joi.boolean().messages({
+      'boolean.base': 'is_active phải là true hoặc false'
+    })
+  }).min(1).messages({
+    'object.min': 'Cần ít nhất một trường để cập nhật'
+  }),
+
+  auditExportQuery: Joi.object({
+    from: Joi.date().iso().required().messages({
+      'date.base': 'Thời điểm bắt đầu không hợp lệ',
+      'date.format': 'Thời điểm bắt đầu phải theo định dạng ISO 8601',
+      'any.required': 'Thời điểm bắt đầu là bắt buộc'
+    }),
+    to: Joi.date().iso().min(Joi.ref('from')).required().messages({
+      'date.base': 'Thời điểm kết thúc không hợp lệ',
+      'date.format': 'Thời điểm kết thúc phải theo định dạng ISO 8601',
+      'date.min': 'Thời điểm kết thúc phải sau thời điểm bắt đầu',
+      'any.required': 'Thời điểm kết thúc là bắt buộc'
+    })
+  }),
+
+  emailTemplatePreviewQuery: Joi.object({
+    locale: localeSchema,
+    format: Joi.string().valid('json', 'html', 'text').default('json').messages({
+      'any.only': 'Định dạng phải là json, html hoặc text'
+    })
   })
 };
 
@@ -230,7 +594,8 @@ export const validateQuery = (schema: Joi.ObjectSchema) => {
       return;
     }
 
-    req.query = value;
+    // Express 5 exposes req.query through a getter, so the parsed values are defined over it
+    Object.defineProperty(req, 'query', { value, writable: true, configurable: true, enumerable: true });
     next();
   };
 };
@@ -269,6 +634,15 @@ export const customValidation = {
     next();
   },
 
+  isValidSessionId: (req: Request, res: Response, next: NextFunction): void => {
+    const id = parseInt(req.params.sessionId);
+    if (isNaN(id) || id <= 0) {
+      res.status(400).json(ResponseUtils.error('ID phiên đăng nhập không hợp lệ'));
+      return;
+    }
+    next();
+  },
+
   sanitizeInput: (req: Request, res: Response, next: NextFunction): void => {
     if (req.body) {
       for (const key in req.body) {
@@ -295,7 +669,7 @@ export const customValidation = {
       }
 
       next();
-    } catch (error) {
+    } catch {
       res.status(500).json(ResponseUtils.error('Lỗi kiểm tra email'));
       return;
     }
@@ -1,13 +1,13 @@
 import { Router } from 'express';
-import { AccountController } from '../controllers';
+import { AccountController, OAuthController, SessionController, SocialAuthController } from '../controllers';
 import { validate, validationSchemas, validateQuery, customValidation } from '../middleware/validation';
 import { AuthMiddleware } from '../middleware/auth';
-import { apiLimiter } from '../middleware/rateLimiter';
+import { apiLimiter, smsOtpLimiter } from '../middleware/rateLimiter';
 
 const router = Router();
 
 // All routes require authentication
-router.use(AuthMiddleware.authenticate);
+router.use(AuthMiddleware.authenticateUserOrClient);
 router.use(apiLimiter);
 
 /**
@@ -40,6 +40,7 @@ router.use(apiLimiter);
  *               $ref: '#/components/schemas/ErrorResponse'
  */
 router.get('/profile',
+  AuthMiddleware.requireAccount,
   AccountController.getProfile
 );
 
@@ -94,6 +95,7 @@ router.get('/profile',
  *               $ref: '#/components/schemas/ErrorResponse'
  */
 router.put('/profile',
+  AuthMiddleware.requireAccount,
   customValidation.sanitizeInput,
   validate(validationSchemas.updateAccount),
   customValidation.checkEmailUniqueness,
@@ -106,7 +108,7 @@ router.put('/profile',
  *   put:
  *     tags: [Account]
  *     summary: Change user password
- *     description: Changes the authenticated user's password
+ *     description: Changes the authenticated user's password. Confirm with the current password or with a code from /api/v1/accounts/profile/step-up, which also lets accounts without a password set one
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -143,11 +145,150 @@ router.put('/profile',
  *               $ref: '#/components/schemas/ErrorResponse'
  */
 router.put('/change-password',
+  AuthMiddleware.requireAccount,
   customValidation.sanitizeInput,
   validate(validationSchemas.changePassword),
   AccountController.changePassword
 );
 
+/**
+ * @swagger
+ * /api/v1/accounts/profile/step-up:
+ *   post:
+ *     tags: [Account]
+ *     summary: Request a step-up code
+ *     description: Emails a 6-digit one-time code that confirms a sensitive action such as changing the password or deactivating the account. The code expires after 10 minutes and a new one can be requested once per minute
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Code sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     expiresIn:
+ *                       type: integer
+ *                       example: 600
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: A code was requested less than a minute ago
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/profile/step-up',
+  AuthMiddleware.requireAccount,
+  AccountController.requestStepUpCode
+);
+
+/**
+ * @swagger
+ * /api/v1/accounts/profile/phone/verification:
+ *   post:
+ *     tags: [Account]
+ *     summary: Request a phone verification code
+ *     description: Sends a 6-digit code by SMS to the phone number on the profile. The code expires after 10 minutes, a new one can be requested once per minute, and changing the number voids it
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Code sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     expiresIn:
+ *                       type: integer
+ *                       example: 600
+ *       400:
+ *         description: No phone number on the profile, or it is already verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: A code was requested less than a minute ago
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/profile/phone/verification',
+  AuthMiddleware.requireAccount,
+  smsOtpLimiter,
+  AccountController.requestPhoneVerification
+);
+
+/**
+ * @swagger
+ * /api/v1/accounts/profile/phone/verify:
+ *   post:
+ *     tags: [Account]
+ *     summary: Verify the phone number
+ *     description: Confirms the phone number on the profile with the SMS code. A verified number can be used for SMS login and SMS 2FA, and belongs to a single account
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PhoneVerifyRequest'
+ *     responses:
+ *       200:
+ *         description: Phone number verified
+ *       400:
+ *         description: Wrong or expired code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: The number is already verified by another account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/profile/phone/verify',
+  AuthMiddleware.requireAccount,
+  validate(validationSchemas.phoneVerify),
+  AccountController.verifyPhone
+);
+
 /**
  * @swagger
  * /api/v1/accounts/avatar:
@@ -202,6 +343,7 @@ router.put('/change-password',
  *               $ref: '#/components/schemas/ErrorResponse'
  */
 router.put('/avatar',
+  AuthMiddleware.requireAccount,
   AccountController.updateAvatar
 );
 
@@ -211,9 +353,15 @@ router.put('/avatar',
  *   delete:
  *     tags: [Account]
  *     summary: Deactivate user account
- *     description: Deactivates the authenticated user's account
+ *     description: Deactivates the authenticated user's account. Confirm with the password or with a code from /api/v1/accounts/profile/step-up
  *     security:
  *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DeactivateAccountRequest'
  *     responses:
  *       200:
  *         description: Account deactivated successfully
@@ -228,25 +376,402 @@ router.put('/avatar',
  *                 message:
  *                   type: string
  *                   example: Account deactivated successfully
+ *       400:
+ *         description: Missing or wrong password or code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/deactivate',
+  AuthMiddleware.requireAccount,
+  AccountController.deactivateAccount
+);
+
+/**
+ * @swagger
+ * /api/v1/accounts/profile/sessions:
+ *   get:
+ *     tags: [Account]
+ *     summary: List signed-in devices
+ *     description: |
+ *       Every login that can still be refreshed, newest activity first. The session making the
+ *       request is flagged with current=true. A session id changes whenever its tokens are refreshed.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Session'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/profile/sessions',
+  AuthMiddleware.requireAccount,
+  SessionController.listOwn
+);
+
+/**
+ * @swagger
+ * /api/v1/accounts/profile/sessions/{id}:
+ *   delete:
+ *     tags: [Account]
+ *     summary: Sign out a device
+ *     description: Revokes the session's refresh tokens and the access tokens issued for it
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       400:
+ *         description: Invalid ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: No active session with this ID on the account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/profile/sessions/:id',
+  AuthMiddleware.requireAccount,
+  customValidation.isValidId,
+  SessionController.revokeOwn
+);
+
+/**
+ * @swagger
+ * /api/v1/accounts/profile/consents:
+ *   get:
+ *     tags: [Account]
+ *     summary: List applications the user has authorized
+ *     description: Returns the OAuth clients the user consented to and the scopes granted to each
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Consents retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/OAuthConsent'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/profile/consents',
+  AuthMiddleware.requireAccount,
+  OAuthController.listConsents
+);
+
+/**
+ * @swagger
+ * /api/v1/accounts/profile/consents/{clientId}:
+ *   delete:
+ *     tags: [Account]
+ *     summary: Revoke an application's access
+ *     description: Deletes the consent record and revokes the refresh tokens issued to the client
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: clientId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Consent revoked
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: No consent for this client
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/profile/consents/:clientId',
+  AuthMiddleware.requireAccount,
+  OAuthController.revokeConsent
+);
+
+/**
+ * @swagger
+ * /api/v1/accounts/profile/identities:
+ *   get:
+ *     tags: [Account]
+ *     summary: List linked external identities
+ *     description: Social login accounts (Google, GitHub, ...) linked to the user's account
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Linked identities
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LinkedIdentity'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/profile/identities',
+  AuthMiddleware.requireAccount,
+  SocialAuthController.listIdentities
+);
+
+/**
+ * @swagger
+ * /api/v1/accounts/profile/identities/{provider}/authorize:
+ *   get:
+ *     tags: [Account]
+ *     summary: Start linking an external identity
+ *     description: |
+ *       Returns the provider URL to send the browser to. The state is bound to the signed-in account,
+ *       so it can only complete a link by the same user, never a login.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: google
+ *     responses:
+ *       200:
+ *         description: Authorization URL
+ *       404:
+ *         description: Unknown or disabled provider
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/profile/identities/:provider/authorize',
+  AuthMiddleware.requireAccount,
+  SocialAuthController.authorizeLink
+);
+
+/**
+ * @swagger
+ * /api/v1/accounts/profile/identities/{provider}:
+ *   post:
+ *     tags: [Account]
+ *     summary: Link an external identity
+ *     description: Completes the link with the code and state the provider sent back to the login UI
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SocialCallbackRequest'
+ *     responses:
+ *       201:
+ *         description: Identity linked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/LinkedIdentity'
+ *       400:
+ *         description: Invalid state or code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: The identity is already linked, or another identity of the provider is
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   delete:
+ *     tags: [Account]
+ *     summary: Unlink an external identity
+ *     description: The last login method of an account without a password cannot be unlinked
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Identity unlinked
+ *       400:
+ *         description: Last login method of an account without a password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Nothing linked for this provider
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/profile/identities/:provider',
+  AuthMiddleware.requireAccount,
+  validate(validationSchemas.socialCallback),
+  SocialAuthController.linkIdentity
+);
+
+router.delete('/profile/identities/:provider',
+  AuthMiddleware.requireAccount,
+  SocialAuthController.unlinkIdentity
+);
+
+// Admin routes - require read permission
+/**
+ * @swagger
+ * /api/v1/accounts:
+ *   get:
+ *     tags: [Account]
+ *     summary: Get all accounts (Admin only)
+ *     description: Retrieves a paginated list of all user accounts
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *         description: Number of items per page
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search term for filtering accounts
+ *     responses:
+ *       200:
+ *         description: Accounts retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/PaginationResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Account'
  *       401:
  *         description: Unauthorized
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.delete('/deactivate',
-  AccountController.deactivateAccount
+router.get('/',
+  AuthMiddleware.requirePermission('account', 'read'),
+  validateQuery(validationSchemas.pagination),
+  AccountController.getAllAccounts
 );
 
-// Admin routes - require read permission
 /**
  * @swagger
- * /api/v1/accounts:
+ * /api/v1/accounts/locked:
  *   get:
  *     tags: [Account]
- *     summary: Get all accounts (Admin only)
- *     description: Retrieves a paginated list of all user accounts
+ *     summary: List locked accounts (Admin only)
+ *     description: Accounts whose password login is locked after too many failed attempts, newest lock end first
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -265,14 +790,9 @@ router.delete('/deactivate',
  *           maximum: 100
  *           default: 10
  *         description: Number of items per page
- *       - in: query
- *         name: search
- *         schema:
- *           type: string
- *         description: Search term for filtering accounts
  *     responses:
  *       200:
- *         description: Accounts retrieved successfully
+ *         description: Locked accounts retrieved successfully
  *         content:
  *           application/json:
  *             schema:
@@ -283,7 +803,7 @@ router.delete('/deactivate',
  *                     data:
  *                       type: array
  *                       items:
- *                         $ref: '#/components/schemas/Account'
+ *                         $ref: '#/components/schemas/LockedAccount'
  *       401:
  *         description: Unauthorized
  *         content:
@@ -297,10 +817,10 @@ router.delete('/deactivate',
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get('/',
+router.get('/locked',
   AuthMiddleware.requirePermission('account', 'read'),
   validateQuery(validationSchemas.pagination),
-  AccountController.getAllAccounts
+  AccountController.getLockedAccounts
 );
 
 /**
@@ -557,4 +1077,276 @@ router.put('/:id/deactivate',
   AccountController.adminDeactivateAccount
 );
 
+/**
+ * @swagger
+ * /api/v1/accounts/{id}/unlock:
+ *   put:
+ *     tags: [Account]
+ *     summary: Unlock account (Admin only)
+ *     description: Lifts the password login lock and resets the escalation of lock durations (admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Account ID
+ *     responses:
+ *       200:
+ *         description: Account unlocked successfully
+ *       400:
+ *         description: Invalid account ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Account not found or not locked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put('/:id/unlock',
+  customValidation.isValidId,
+  AuthMiddleware.requirePermission('account', 'update'),
+  AccountController.adminUnlockAccount
+);
+
+/**
+ * @swagger
+ * /api/v1/accounts/{id}/sessions:
+ *   get:
+ *     tags: [Account]
+ *     summary: List an account's sessions (Admin only)
+ *     description: Refresh token sessions and cached Redis sessions of the account. The lookup is recorded as a sessions_viewed security event
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Account ID
+ *     responses:
+ *       200:
+ *         description: Sessions of the account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AccountSessionOverview'
+ *       400:
+ *         description: Invalid account ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/:id/sessions',
+  customValidation.isValidId,
+  AuthMiddleware.requirePermission('session', 'manage'),
+  SessionController.listForAccount
+);
+
+/**
+ * @swagger
+ * /api/v1/accounts/{id}/sessions:
+ *   delete:
+ *     tags: [Account]
+ *     summary: Sign an account out everywhere (Admin only)
+ *     description: Revokes every refresh token, access token and cached session of the account
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Account ID
+ *     responses:
+ *       200:
+ *         description: All sessions revoked
+ *       400:
+ *         description: Invalid account ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/:id/sessions',
+  customValidation.isValidId,
+  AuthMiddleware.requirePermission('session', 'manage'),
+  SessionController.revokeAllForAccount
+);
+
+/**
+ * @swagger
+ * /api/v1/accounts/{id}/sessions/{sessionId}:
+ *   delete:
+ *     tags: [Account]
+ *     summary: Revoke one session of an account (Admin only)
+ *     description: Revokes the session's refresh tokens and the access tokens issued for it
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Account ID
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Session ID from the refresh_sessions list
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       400:
+ *         description: Invalid account or session ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: No active session with this ID on the account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/:id/sessions/:sessionId',
+  customValidation.isValidId,
+  customValidation.isValidSessionId,
+  AuthMiddleware.requirePermission('session', 'manage'),
+  SessionController.revokeForAccount
+);
+
+/**
+ * @swagger
+ * /api/v1/accounts/{id}/sessions/cached/{sessionId}:
+ *   delete:
+ *     tags: [Account]
+ *     summary: Delete a cached session of an account (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Account ID
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Session ID from the cached_sessions list
+ *     responses:
+ *       200:
+ *         description: Cached session deleted
+ *       400:
+ *         description: Invalid account ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: No cached session with this ID on the account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/:id/sessions/cached/:sessionId',
+  customValidation.isValidId,
+  AuthMiddleware.requirePermission('session', 'manage'),
+  SessionController.revokeCachedForAccount
+);
+
 export default router;
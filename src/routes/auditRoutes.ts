@@ -0,0 +1,214 @@
+import { Router } from 'express';
+import { AuditController } from '../controllers';
+import { validateQuery, validationSchemas } from '../middleware/validation';
+import { AuthMiddleware } from '../middleware/auth';
+import { apiLimiter } from '../middleware/rateLimiter';
+
+const router = Router();
+
+// All routes require authentication
+router.use(AuthMiddleware.authenticateUserOrClient);
+router.use(apiLimiter);
+
+/**
+ * @swagger
+ * /api/v1/audit:
+ *   get:
+ *     tags: [Audit]
+ *     summary: List audit events (Admin only)
+ *     description: |
+ *       Authentication events and administrative changes, newest first. Each event names the
+ *       acting account or client, the account acted on and the changed fields.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Number of items per page
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *         description: Only events of this action, e.g. login_failed or account_role_granted
+ *       - in: query
+ *         name: actor_account_id
+ *         schema:
+ *           type: integer
+ *         description: Only events performed by this account
+ *       - in: query
+ *         name: target_account_id
+ *         schema:
+ *           type: integer
+ *         description: Only events performed on this account
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only events at or after this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only events at or before this time
+ *     responses:
+ *       200:
+ *         description: Audit events retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/PaginationResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AuditEvent'
+ *       400:
+ *         description: Invalid filters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/',
+  AuthMiddleware.requirePermission('audit', 'read'),
+  validateQuery(validationSchemas.auditQuery),
+  AuditController.list
+);
+
+/**
+ * @swagger
+ * /api/v1/audit/verify:
+ *   get:
+ *     tags: [Audit]
+ *     summary: Verify the audit hash chain (Admin only)
+ *     description: |
+ *       Recomputes the SHA-256 hash of every audit event in order and reports the first event that
+ *       does not link to the one before it. `head_mismatch` means events were removed from the end.
+ *       The same check runs from the command line with `npm run audit:verify`.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification finished
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AuditChainVerification'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/verify',
+  AuthMiddleware.requirePermission('audit', 'read'),
+  AuditController.verify
+);
+
+/**
+ * @swagger
+ * /api/v1/audit/export:
+ *   get:
+ *     tags: [Audit]
+ *     summary: Export a signed range of audit events (Admin only)
+ *     description: |
+ *       Returns the events created in the range, oldest first, with a JWT `signature` over the range,
+ *       the event count and the hashes at both ends. The signature is made with a dedicated ES256 export
+ *       key that stays in `/.well-known/jwks.json` for good, so it can be checked there at any time
+ *       (audience `volcanion-audit-export`).
+ *       Each export is itself recorded as an `audit_exported` event.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Audit events exported
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AuditExport'
+ *       400:
+ *         description: Invalid range, or more than 10000 events in it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/export',
+  AuthMiddleware.requirePermission('audit', 'read'),
+  validateQuery(validationSchemas.auditExportQuery),
+  AuditController.exportRange
+);
+
+export default router;
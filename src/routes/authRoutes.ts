@@ -1,7 +1,15 @@
 import { Router } from 'express';
-import { AuthController } from '../controllers';
+import { AuthController, TwoFactorController, SocialAuthController, PasskeyController } from '../controllers';
 import { validate, validationSchemas, customValidation } from '../middleware/validation';
-import { loginLimiter, registerLimiter, passwordResetLimiter, emailVerificationLimiter } from '../middleware/rateLimiter';
+import {
+  loginLimiter,
+  registerLimiter,
+  passwordResetLimiter,
+  magicLinkLimiter,
+  emailOtpLimiter,
+  smsOtpLimiter,
+  emailVerificationLimiter
+} from '../middleware/rateLimiter';
 import { AuthMiddleware } from '../middleware/auth';
 
 const router = Router();
@@ -90,6 +98,12 @@ router.post('/register',
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       423:
+ *         description: Account locked after too many failed attempts from any IP; only returned for the correct password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       429:
  *         description: Too many login attempts
  *         content:
@@ -110,7 +124,7 @@ router.post('/login',
  *   post:
  *     tags: [Authentication]
  *     summary: Logout from current session
- *     description: Invalidates the current session and refresh token
+ *     description: Invalidates the refresh token and, when a bearer token is sent, revokes that access token immediately
  *     responses:
  *       200:
  *         description: Logout successful
@@ -127,6 +141,7 @@ router.post('/login',
  *                   example: Logout successful
  */
 router.post('/logout',
+  AuthMiddleware.optional,
   AuthController.logout
 );
 
@@ -245,6 +260,293 @@ router.post('/reset-password',
   AuthController.resetPassword
 );
 
+/**
+ * @swagger
+ * /api/v1/auth/magic-link:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Request a magic login link
+ *     description: Emails a single-use login link that expires after 15 minutes. The response is the same whether or not the email is registered
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MagicLinkRequest'
+ *     responses:
+ *       200:
+ *         description: Magic link sent if the account exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Magic link sent
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       429:
+ *         description: Too many magic link requests
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/magic-link',
+  magicLinkLimiter,
+  customValidation.sanitizeInput,
+  validate(validationSchemas.magicLinkRequest),
+  AuthController.requestMagicLink
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/magic-link/verify:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Login with a magic link
+ *     description: Consumes the token from the magic link and returns access and refresh tokens. Accounts with 2FA get an MFA challenge to complete at /api/v1/auth/2fa/verify
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MagicLinkVerifyRequest'
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Invalid, used or expired link
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many login attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/magic-link/verify',
+  loginLimiter,
+  validate(validationSchemas.magicLinkVerify),
+  AuthController.verifyMagicLink
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/email-otp:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Request a login code by email
+ *     description: Emails a 6-digit one-time code that expires after 10 minutes. A new code can be requested once per minute. The response is the same whether or not the email is registered
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/EmailOtpRequest'
+ *     responses:
+ *       200:
+ *         description: Code sent if the account exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     expiresIn:
+ *                       type: integer
+ *                       example: 600
+ *                 message:
+ *                   type: string
+ *                   example: Login code sent
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       429:
+ *         description: Too many code requests
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/email-otp',
+  emailOtpLimiter,
+  customValidation.sanitizeInput,
+  validate(validationSchemas.emailOtpRequest),
+  AuthController.requestEmailOtp
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/email-otp/verify:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Login with an email code
+ *     description: Exchanges the emailed one-time code for access and refresh tokens. A code is discarded after 5 wrong attempts. Accounts with 2FA get an MFA challenge to complete at /api/v1/auth/2fa/verify
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/EmailOtpVerifyRequest'
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Wrong or expired code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many login attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/email-otp/verify',
+  loginLimiter,
+  customValidation.sanitizeInput,
+  validate(validationSchemas.emailOtpVerify),
+  AuthController.verifyEmailOtp
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/sms-otp:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Request a login code by SMS
+ *     description: Sends a 6-digit one-time code to a verified phone number. The code expires after 10 minutes and a new one can be requested once per minute. The response is the same whether or not the number is registered
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SmsOtpRequest'
+ *     responses:
+ *       200:
+ *         description: Code sent if a verified account uses the number
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     expiresIn:
+ *                       type: integer
+ *                       example: 600
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       429:
+ *         description: Too many code requests
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/sms-otp',
+  smsOtpLimiter,
+  customValidation.sanitizeInput,
+  validate(validationSchemas.smsOtpRequest),
+  AuthController.requestSmsOtp
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/sms-otp/verify:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Login with an SMS code
+ *     description: Exchanges the SMS one-time code for access and refresh tokens. A code is discarded after 5 wrong attempts. Accounts with 2FA get an MFA challenge to complete at /api/v1/auth/2fa/verify
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SmsOtpVerifyRequest'
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Wrong or expired code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many login attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/sms-otp/verify',
+  loginLimiter,
+  customValidation.sanitizeInput,
+  validate(validationSchemas.smsOtpVerify),
+  AuthController.verifySmsOtp
+);
+
 /**
  * @swagger
  * /api/v1/auth/verify-email:
@@ -336,6 +638,44 @@ router.post('/resend-verification',
   AuthController.resendVerification
 );
 
+/**
+ * @swagger
+ * /api/v1/auth/secure-account:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Disown a new-device login
+ *     description: |
+ *       Target of the "this wasn't me" link in the new-device login alert. Signs the account out of
+ *       every device and forgets the reported device. The link is single-use and expires after 7 days;
+ *       the password should be changed afterwards.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SecureAccountRequest'
+ *     responses:
+ *       200:
+ *         description: All sessions revoked
+ *       400:
+ *         description: Invalid, used or expired link
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/secure-account',
+  loginLimiter,
+  validate(validationSchemas.secureAccount),
+  AuthController.secureAccount
+);
+
 // Protected routes
 /**
  * @swagger
@@ -372,4 +712,824 @@ router.post('/logout-all',
   AuthController.logoutAll
 );
 
+// Two-factor authentication
+/**
+ * @swagger
+ * /api/v1/auth/2fa/verify:
+ *   post:
+ *     tags: [Two-Factor Authentication]
+ *     summary: Complete a 2FA login
+ *     description: Exchanges the MFA challenge token returned by login and a 6-digit TOTP code (or a single-use recovery code) for access and refresh tokens
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorVerifyRequest'
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Invalid code or expired challenge
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/verify',
+  loginLimiter,
+  validate(validationSchemas.twoFactorVerify),
+  TwoFactorController.verify
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/setup:
+ *   post:
+ *     tags: [Two-Factor Authentication]
+ *     summary: Start 2FA enrollment
+ *     description: Generates a new TOTP secret and otpauth URL for the authenticated user. 2FA is not active until confirmed.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: TOTP secret generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/TwoFactorSetup'
+ *       400:
+ *         description: 2FA already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/setup',
+  AuthMiddleware.authenticate,
+  TwoFactorController.setup
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/confirm:
+ *   post:
+ *     tags: [Two-Factor Authentication]
+ *     summary: Confirm 2FA enrollment
+ *     description: Activates 2FA after the user proves their authenticator app produces valid codes
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeRequest'
+ *     responses:
+ *       200:
+ *         description: 2FA enabled, returns the one-time recovery codes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/RecoveryCodes'
+ *       400:
+ *         description: Invalid code or enrollment not started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/confirm',
+  AuthMiddleware.authenticate,
+  validate(validationSchemas.twoFactorCode),
+  TwoFactorController.confirm
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/disable:
+ *   post:
+ *     tags: [Two-Factor Authentication]
+ *     summary: Disable 2FA
+ *     description: Turns off 2FA after re-checking the password and a current TOTP code or a recovery code
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorDisableRequest'
+ *     responses:
+ *       200:
+ *         description: 2FA disabled
+ *       400:
+ *         description: Invalid password or code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/disable',
+  AuthMiddleware.authenticate,
+  validate(validationSchemas.twoFactorDisable),
+  TwoFactorController.disable
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/recovery-codes:
+ *   post:
+ *     tags: [Two-Factor Authentication]
+ *     summary: Regenerate recovery codes
+ *     description: Replaces all existing recovery codes with a new batch. Requires a current TOTP code.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeRequest'
+ *     responses:
+ *       200:
+ *         description: New recovery codes generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/RecoveryCodes'
+ *       400:
+ *         description: Invalid code or 2FA not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/recovery-codes',
+  AuthMiddleware.authenticate,
+  validate(validationSchemas.twoFactorCode),
+  TwoFactorController.regenerateRecoveryCodes
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/sms/enable:
+ *   post:
+ *     tags: [Two-Factor Authentication]
+ *     summary: Enable SMS 2FA
+ *     description: Sends login codes to the verified phone number as a second factor. Changing the phone number turns SMS 2FA off again
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: SMS 2FA enabled
+ *       400:
+ *         description: Already enabled or the phone number is not verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/sms/enable',
+  AuthMiddleware.authenticate,
+  TwoFactorController.enableSms
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/sms/disable:
+ *   post:
+ *     tags: [Two-Factor Authentication]
+ *     summary: Disable SMS 2FA
+ *     description: Stops sending SMS codes as a second factor after re-checking the password
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SmsTwoFactorDisableRequest'
+ *     responses:
+ *       200:
+ *         description: SMS 2FA disabled
+ *       400:
+ *         description: Not enabled or invalid password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/sms/disable',
+  AuthMiddleware.authenticate,
+  validate(validationSchemas.smsTwoFactorDisable),
+  TwoFactorController.disableSms
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/sms/send:
+ *   post:
+ *     tags: [Two-Factor Authentication]
+ *     summary: Send a 2FA code by SMS
+ *     description: Sends a 6-digit code for the MFA challenge to the verified phone number of the account. The response only shows the ends of the number
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SmsTwoFactorSendRequest'
+ *     responses:
+ *       200:
+ *         description: Code sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     phone:
+ *                       type: string
+ *                       example: '+84*******678'
+ *                     expiresIn:
+ *                       type: integer
+ *                       example: 600
+ *       400:
+ *         description: SMS 2FA is not enabled for the account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Expired challenge
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: A code was requested less than a minute ago
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/sms/send',
+  smsOtpLimiter,
+  validate(validationSchemas.smsTwoFactorSend),
+  TwoFactorController.sendSmsCode
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/sms/verify:
+ *   post:
+ *     tags: [Two-Factor Authentication]
+ *     summary: Complete a 2FA login with an SMS code
+ *     description: Alternative to /auth/2fa/verify. Wrong codes count towards the challenge attempt limit.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SmsTwoFactorVerifyRequest'
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Invalid code or expired challenge
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/2fa/sms/verify',
+  loginLimiter,
+  validate(validationSchemas.smsTwoFactorVerify),
+  TwoFactorController.verifySms
+);
+
+// Passkeys
+/**
+ * @swagger
+ * /api/v1/auth/passkeys/register/options:
+ *   post:
+ *     tags: [Passkeys]
+ *     summary: Start passkey registration
+ *     description: Returns the options for navigator.credentials.create(). The challenge is valid for 5 minutes and can be used once.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Registration options
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/PasskeyCreationOptions'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/passkeys/register/options',
+  AuthMiddleware.authenticate,
+  PasskeyController.registrationOptions
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/passkeys:
+ *   post:
+ *     tags: [Passkeys]
+ *     summary: Register a passkey
+ *     description: Verifies the attestation returned by the authenticator and stores its public key. Needs the current password or a step-up code from /api/v1/accounts/profile/step-up, and the owner is emailed about the new passkey. Once registered, logins ask for a passkey or TOTP code as second factor.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PasskeyRegisterRequest'
+ *     responses:
+ *       201:
+ *         description: Passkey registered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Passkey'
+ *       400:
+ *         description: Wrong password or step-up code, or invalid or expired registration response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Passkey already registered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/passkeys',
+  AuthMiddleware.authenticate,
+  validate(validationSchemas.passkeyRegister),
+  PasskeyController.register
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/passkeys:
+ *   get:
+ *     tags: [Passkeys]
+ *     summary: List registered passkeys
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Passkeys of the current user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Passkey'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/passkeys',
+  AuthMiddleware.authenticate,
+  PasskeyController.list
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/passkeys/{id}:
+ *   delete:
+ *     tags: [Passkeys]
+ *     summary: Remove a passkey
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Passkey removed
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Passkey not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/passkeys/:id',
+  AuthMiddleware.authenticate,
+  customValidation.isValidId,
+  PasskeyController.remove
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/passkeys/login/options:
+ *   post:
+ *     tags: [Passkeys]
+ *     summary: Start a passwordless passkey login
+ *     description: Returns options for navigator.credentials.get() that accept any discoverable passkey. User verification (PIN or biometric) is required.
+ *     responses:
+ *       200:
+ *         description: Authentication options
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/PasskeyRequestOptions'
+ */
+router.post('/passkeys/login/options',
+  loginLimiter,
+  PasskeyController.loginOptions
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/passkeys/login:
+ *   post:
+ *     tags: [Passkeys]
+ *     summary: Log in with a passkey
+ *     description: Verifies the assertion signature and sign counter. A user-verified passkey covers both factors, so no 2FA challenge follows.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PasskeyLoginRequest'
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Invalid or expired login response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unknown passkey or invalid signature
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Account deactivated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       423:
+ *         description: Account temporarily locked after too many failed logins
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/passkeys/login',
+  loginLimiter,
+  validate(validationSchemas.passkeyLogin),
+  PasskeyController.login
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/passkeys/mfa/options:
+ *   post:
+ *     tags: [Passkeys]
+ *     summary: Start a passkey second factor
+ *     description: Returns options for navigator.credentials.get() limited to the passkeys of the account behind the MFA challenge token
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PasskeyMfaOptionsRequest'
+ *     responses:
+ *       200:
+ *         description: Authentication options
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/PasskeyRequestOptions'
+ *       400:
+ *         description: No passkey registered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Expired challenge
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/passkeys/mfa/options',
+  loginLimiter,
+  validate(validationSchemas.passkeyMfaOptions),
+  PasskeyController.mfaOptions
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/passkeys/mfa:
+ *   post:
+ *     tags: [Passkeys]
+ *     summary: Complete a 2FA login with a passkey
+ *     description: Alternative to /auth/2fa/verify. Failed assertions count towards the challenge attempt limit.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PasskeyMfaRequest'
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Invalid passkey or expired challenge
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/passkeys/mfa',
+  loginLimiter,
+  validate(validationSchemas.passkeyMfa),
+  PasskeyController.verifyMfa
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/social/providers:
+ *   get:
+ *     tags: [Social Login]
+ *     summary: List enabled identity providers
+ *     description: Providers show up once their client credentials are configured
+ *     responses:
+ *       200:
+ *         description: Enabled providers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/IdentityProvider'
+ */
+router.get('/social/providers',
+  SocialAuthController.listProviders
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/social/{provider}/authorize:
+ *   get:
+ *     tags: [Social Login]
+ *     summary: Start a social login
+ *     description: |
+ *       Returns the provider URL the browser must be sent to. The provider redirects back to
+ *       `{SOCIAL_CALLBACK_URL}/{provider}/callback` on the login UI, which posts the code and state to the callback endpoint.
+ *       The state is single use and expires after 10 minutes.
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: google
+ *     responses:
+ *       200:
+ *         description: Authorization URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     authorization_url:
+ *                       type: string
+ *       404:
+ *         description: Unknown or disabled provider
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/social/:provider/authorize',
+  SocialAuthController.authorize
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/social/{provider}/callback:
+ *   post:
+ *     tags: [Social Login]
+ *     summary: Complete a social login
+ *     description: |
+ *       Exchanges the code with the provider and signs in the account linked to the external identity.
+ *       An unknown identity is linked to the account with the same email when both sides have verified it,
+ *       otherwise a new account without a password is created. Accounts with 2FA get an MFA challenge, like the password login.
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SocialCallbackRequest'
+ *     responses:
+ *       200:
+ *         description: Login successful or MFA challenge
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Invalid state or code, or no email from the provider
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Account deactivated
+ *       404:
+ *         description: Unknown or disabled provider
+ *       409:
+ *         description: Email belongs to an account that cannot be linked automatically
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       502:
+ *         description: The provider did not return a usable profile
+ */
+router.post('/social/:provider/callback',
+  loginLimiter,
+  validate(validationSchemas.socialCallback),
+  SocialAuthController.callback
+);
+
 export default router;
@@ -0,0 +1,133 @@
+import { Router } from 'express';
+import { EmailTemplateController } from '../controllers';
+import { validateQuery, validationSchemas } from '../middleware/validation';
+import { AuthMiddleware } from '../middleware/auth';
+import { apiLimiter } from '../middleware/rateLimiter';
+
+const router = Router();
+
+// All routes require authentication
+router.use(AuthMiddleware.authenticateUserOrClient);
+router.use(apiLimiter);
+
+/**
+ * @swagger
+ * /api/v1/email-templates:
+ *   get:
+ *     tags: [Email Templates]
+ *     summary: List email templates (Admin only)
+ *     description: Every template exists in each supported locale and takes the listed variables.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Templates retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EmailTemplate'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/',
+  AuthMiddleware.requirePermission('email_template', 'read'),
+  EmailTemplateController.list
+);
+
+/**
+ * @swagger
+ * /api/v1/email-templates/{name}/preview:
+ *   get:
+ *     tags: [Email Templates]
+ *     summary: Render an email template with sample values (Admin only)
+ *     description: Nothing is sent. With format=html or format=text the rendered part is returned as is.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [verification, password_reset, magic_link, otp, password_changed, welcome, recovery_code_used, account_locked, new_device_login, passkey_added]
+ *       - in: query
+ *         name: locale
+ *         schema:
+ *           type: string
+ *           enum: [vi, en]
+ *         description: Defaults to DEFAULT_LOCALE
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, html, text]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Template rendered successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/EmailTemplatePreview'
+ *           text/html:
+ *             schema:
+ *               type: string
+ *           text/plain:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid locale or format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Template not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/:name/preview',
+  AuthMiddleware.requirePermission('email_template', 'read'),
+  validateQuery(validationSchemas.emailTemplatePreviewQuery),
+  EmailTemplateController.preview
+);
+
+export default router;
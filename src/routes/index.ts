@@ -2,6 +2,11 @@ import { Router } from 'express';
 import authRoutes from './authRoutes';
 import accountRoutes from './accountRoutes';
 import permissionRoutes from './permissionRoutes';
+import keyRoutes from './keyRoutes';
+import oauthClientRoutes from './oauthClientRoutes';
+import auditRoutes from './auditRoutes';
+import webhookRoutes from './webhookRoutes';
+import emailTemplateRoutes from './emailTemplateRoutes';
 
 const router = Router();
 
@@ -9,6 +14,11 @@ const router = Router();
 router.use('/auth', authRoutes);
 router.use('/accounts', accountRoutes);
 router.use('/permissions', permissionRoutes);
+router.use('/keys', keyRoutes);
+router.use('/oauth/clients', oauthClientRoutes);
+router.use('/audit', auditRoutes);
+router.use('/webhooks', webhookRoutes);
+router.use('/email-templates', emailTemplateRoutes);
 
 // Health check route
 router.get('/health', (req, res) => {
@@ -0,0 +1,111 @@
+import { Router } from 'express';
+import { KeyController } from '../controllers';
+import { validate, validationSchemas } from '../middleware/validation';
+import { AuthMiddleware } from '../middleware/auth';
+import { apiLimiter } from '../middleware/rateLimiter';
+
+const router = Router();
+
+// All routes require authentication
+router.use(AuthMiddleware.authenticateUserOrClient);
+router.use(apiLimiter);
+
+/**
+ * @swagger
+ * /api/v1/keys:
+ *   get:
+ *     tags: [Signing Keys]
+ *     summary: List JWT signing keys (Admin only)
+ *     description: Lists pending, active and retired signing keys. Private key material is never returned.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Signing keys retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SigningKey'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/',
+  AuthMiddleware.requirePermission('signing_key', 'read'),
+  KeyController.listKeys
+);
+
+/**
+ * @swagger
+ * /api/v1/keys/rotate:
+ *   post:
+ *     tags: [Signing Keys]
+ *     summary: Rotate the JWT signing key (Admin only)
+ *     description: |
+ *       Generates a new signing key. The key is published in the JWKS right away and starts signing
+ *       after `activate_in_seconds`. The previous key is then retired but keeps verifying until the
+ *       tokens it signed have expired, so nobody is logged out.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RotateSigningKeyRequest'
+ *     responses:
+ *       201:
+ *         description: New signing key scheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SigningKey'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/rotate',
+  AuthMiddleware.requirePermission('signing_key', 'rotate'),
+  validate(validationSchemas.rotateSigningKey),
+  KeyController.rotate
+);
+
+export default router;
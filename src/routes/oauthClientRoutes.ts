@@ -0,0 +1,210 @@
+import { Router } from 'express';
+import { OAuthController } from '../controllers';
+import { validate, validationSchemas } from '../middleware/validation';
+import { AuthMiddleware } from '../middleware/auth';
+import { apiLimiter } from '../middleware/rateLimiter';
+
+const router = Router();
+
+// All routes require authentication
+router.use(AuthMiddleware.authenticateUserOrClient);
+router.use(apiLimiter);
+
+/**
+ * @swagger
+ * /api/v1/oauth/clients:
+ *   get:
+ *     tags: [OAuth]
+ *     summary: List registered OAuth clients (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Clients retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/OAuthClient'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/',
+  AuthMiddleware.requirePermission('oauth_client', 'read'),
+  OAuthController.listClients
+);
+
+/**
+ * @swagger
+ * /api/v1/oauth/clients:
+ *   post:
+ *     tags: [OAuth]
+ *     summary: Register an OAuth client (Admin only)
+ *     description: |
+ *       Registers a public client (SPA or mobile app) or a confidential client (backend service).
+ *       Authorization requests must use PKCE. Confidential clients receive a `client_secret`
+ *       in this response only; scopes written as `resource:action` must name an existing permission.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateOAuthClientRequest'
+ *     responses:
+ *       201:
+ *         description: Client registered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/OAuthClient'
+ *       400:
+ *         description: Validation error or unknown permission scope
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/',
+  AuthMiddleware.requirePermission('oauth_client', 'create'),
+  validate(validationSchemas.createOAuthClient),
+  OAuthController.createClient
+);
+
+/**
+ * @swagger
+ * /api/v1/oauth/clients/{clientId}:
+ *   delete:
+ *     tags: [OAuth]
+ *     summary: Deactivate an OAuth client (Admin only)
+ *     description: The client can no longer authorize users and its refresh and access tokens are revoked.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: clientId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Client deactivated
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Client not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/:clientId',
+  AuthMiddleware.requirePermission('oauth_client', 'delete'),
+  OAuthController.deactivateClient
+);
+
+/**
+ * @swagger
+ * /api/v1/oauth/clients/{clientId}/secret:
+ *   post:
+ *     tags: [OAuth]
+ *     summary: Rotate a confidential client's secret (Admin only)
+ *     description: The old secret stops working immediately and access tokens issued to the client are revoked.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: clientId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: New secret issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/OAuthClient'
+ *       400:
+ *         description: The client is public and has no secret
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Client not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:clientId/secret',
+  AuthMiddleware.requirePermission('oauth_client', 'update'),
+  OAuthController.rotateClientSecret
+);
+
+export default router;
@@ -0,0 +1,335 @@
+import { Router } from 'express';
+import { OAuthController } from '../controllers';
+import { validate, validationSchemas } from '../middleware/validation';
+import { AuthMiddleware } from '../middleware/auth';
+import { apiLimiter } from '../middleware/rateLimiter';
+
+const router = Router();
+
+router.use(apiLimiter);
+
+/**
+ * @swagger
+ * /oauth/authorize:
+ *   get:
+ *     tags: [OAuth]
+ *     summary: Start an authorization code request
+ *     description: |
+ *       Called by the login UI on behalf of the signed-in user with the parameters the client sent.
+ *       If the user already consented to the requested scopes, an authorization code is issued right away
+ *       and `redirect_to` points back to the client. Otherwise `consent_required` is returned and the UI
+ *       must ask the user and submit the decision with POST. PKCE with S256 is required.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: response_type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [code]
+ *       - in: query
+ *         name: client_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: redirect_uri
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Must exactly match one of the client's registered redirect URIs
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *         description: Space separated; defaults to every scope registered for the client
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: code_challenge
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: code_challenge_method
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [S256]
+ *       - in: query
+ *         name: nonce
+ *         schema:
+ *           type: string
+ *         description: OpenID Connect only; copied into the ID token
+ *     responses:
+ *       200:
+ *         description: Consent required, or the redirect carrying the code or an error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthAuthorizeResponse'
+ *       400:
+ *         description: Unknown client or redirect URI mismatch; never redirected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: The token was not issued by a first-party sign-in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/authorize',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.requireFirstPartySession,
+  OAuthController.authorize
+);
+
+/**
+ * @swagger
+ * /oauth/authorize:
+ *   post:
+ *     tags: [OAuth]
+ *     summary: Submit the user's consent decision
+ *     description: Records consent and issues an authorization code, or redirects with `access_denied`.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OAuthAuthorizeDecisionRequest'
+ *     responses:
+ *       200:
+ *         description: Redirect carrying the code or an error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthAuthorizeResponse'
+ *       400:
+ *         description: Validation error, unknown client or redirect URI mismatch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: The token was not issued by a first-party sign-in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/authorize',
+  AuthMiddleware.authenticate,
+  AuthMiddleware.requireFirstPartySession,
+  validate(validationSchemas.oauthAuthorizeDecision),
+  OAuthController.decide
+);
+
+/**
+ * @swagger
+ * /oauth/token:
+ *   post:
+ *     tags: [OAuth]
+ *     summary: Exchange an authorization code, refresh token or client credentials
+ *     description: |
+ *       Supports the `authorization_code` grant (with the PKCE `code_verifier`), the `refresh_token` grant
+ *       and, for confidential clients, the `client_credentials` grant.
+ *       Refresh tokens rotate on every use and are bound to the client they were issued to.
+ *       Confidential clients authenticate with HTTP Basic or `client_id`/`client_secret` in the body.
+ *       Client credentials tokens carry the client's permission scopes (`resource:action`) and no refresh token.
+ *       When the granted scope contains `openid`, the response also carries an `id_token`.
+ *     security:
+ *       - {}
+ *       - clientBasicAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             $ref: '#/components/schemas/OAuthTokenRequest'
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OAuthTokenRequest'
+ *     responses:
+ *       200:
+ *         description: Tokens issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthTokenResponse'
+ *       400:
+ *         description: invalid_request, invalid_grant, invalid_scope, unauthorized_client or unsupported_grant_type
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthErrorResponse'
+ *       401:
+ *         description: invalid_client
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthErrorResponse'
+ */
+router.post('/token',
+  OAuthController.token
+);
+
+/**
+ * @swagger
+ * /oauth/introspect:
+ *   post:
+ *     tags: [OAuth]
+ *     summary: Token introspection (RFC 7662)
+ *     description: |
+ *       Lets a resource server ask whether an access token is still valid, including revocation and
+ *       account deactivation that a local signature check cannot see. Only confidential clients may call it.
+ *       Refresh tokens can only be introspected by the client they were issued to.
+ *       Unknown, expired and revoked tokens return `{"active": false}`.
+ *     security:
+ *       - clientBasicAuth: []
+ *       - {}
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             $ref: '#/components/schemas/OAuthTokenActionRequest'
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OAuthTokenActionRequest'
+ *     responses:
+ *       200:
+ *         description: Token state
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthIntrospectionResponse'
+ *       400:
+ *         description: invalid_request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthErrorResponse'
+ *       401:
+ *         description: invalid_client, or unauthorized_client for public clients
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthErrorResponse'
+ */
+router.post('/introspect',
+  OAuthController.introspect
+);
+
+/**
+ * @swagger
+ * /oauth/revoke:
+ *   post:
+ *     tags: [OAuth]
+ *     summary: Token revocation (RFC 7009)
+ *     description: |
+ *       Revokes an access token or a refresh token issued to the calling client. Revoking a refresh token
+ *       revokes every token rotated from the same grant. Tokens that are unknown, already invalid or
+ *       issued to another client are ignored, and the response is 200 either way.
+ *     security:
+ *       - {}
+ *       - clientBasicAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             $ref: '#/components/schemas/OAuthTokenActionRequest'
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OAuthTokenActionRequest'
+ *     responses:
+ *       200:
+ *         description: Token revoked or ignored
+ *       400:
+ *         description: invalid_request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthErrorResponse'
+ *       401:
+ *         description: invalid_client
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthErrorResponse'
+ */
+router.post('/revoke',
+  OAuthController.revoke
+);
+
+/**
+ * @swagger
+ * /oauth/userinfo:
+ *   get:
+ *     tags: [OAuth]
+ *     summary: OpenID Connect UserInfo
+ *     description: |
+ *       Returns the claims of the user the access token was issued for. The token must have been issued
+ *       to an OAuth client with the `openid` scope; `email` and `profile` release the matching claims.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: User claims
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OidcUserInfo'
+ *       401:
+ *         description: Missing, invalid or revoked token
+ *       403:
+ *         description: insufficient_scope
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthErrorResponse'
+ *   post:
+ *     tags: [OAuth]
+ *     summary: OpenID Connect UserInfo
+ *     description: Same as GET.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: User claims
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OidcUserInfo'
+ */
+router.get('/userinfo',
+  AuthMiddleware.authenticateDelegated,
+  OAuthController.userinfo
+);
+
+router.post('/userinfo',
+  AuthMiddleware.authenticateDelegated,
+  OAuthController.userinfo
+);
+
+export default router;
@@ -7,7 +7,7 @@ import { apiLimiter } from '../middleware/rateLimiter';
 const router = Router();
 
 // All routes require authentication
-router.use(AuthMiddleware.authenticate);
+router.use(AuthMiddleware.authenticateUserOrClient);
 router.use(apiLimiter);
 
 /**
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { WellKnownController } from '../controllers/wellKnownController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /.well-known/jwks.json:
+ *   get:
+ *     tags: [Discovery]
+ *     summary: Public keys for verifying access tokens
+ *     description: |
+ *       JSON Web Key Set containing the public keys used to sign access tokens.
+ *       Resource servers select the key by the `kid` header of the token.
+ *       The set is empty when the server signs with HS256.
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: JSON Web Key Set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/JsonWebKeySet'
+ */
+router.get('/jwks.json', WellKnownController.jwks);
+
+/**
+ * @swagger
+ * /.well-known/openid-configuration:
+ *   get:
+ *     tags: [Discovery]
+ *     summary: OpenID Connect discovery document
+ *     description: |
+ *       Lets OIDC relying parties configure themselves from the issuer URL (`OIDC_ISSUER`).
+ *       Lists the endpoints, supported scopes and claims, and the ID token signing algorithm.
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: OpenID Provider metadata
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OpenIdConfiguration'
+ */
+router.get('/openid-configuration', WellKnownController.openidConfiguration);
+
+export default router;
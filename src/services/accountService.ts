@@ -1,15 +1,18 @@
+import type { Connection } from 'mysql2/promise';
 import { RowDataPacket } from 'mysql2';
 import { pool } from '../config/database';
-import { Account, RegisterDto, UpdateAccountDto, AccountWithPermissions } from '../types';
-import { PasswordUtils } from '../utils';
+import { Account, CreateAccountDto, UpdateAccountDto, AccountWithPermissions } from '../types';
+import { PasswordUtils, ValidationUtils } from '../utils';
+import { EmailTemplateService } from './emailTemplateService';
+import { OutboxService } from './outboxService';
 
 export class AccountService {
-  static async createAccount(data: RegisterDto): Promise<number> {
-    const hashedPassword = await PasswordUtils.hash(data.password);
+  static async createAccount(data: CreateAccountDto, db: Connection = pool): Promise<number> {
+    const hashedPassword = data.password ? await PasswordUtils.hash(data.password) : null;
     
     const query = `
-      INSERT INTO accounts (email, password, first_name, last_name, phone, date_of_birth, gender)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO accounts (email, password, first_name, last_name, phone, date_of_birth, gender, preferred_locale)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `;
     
     const values = [
@@ -17,13 +20,22 @@ export class AccountService {
       hashedPassword,
       data.first_name || null,
       data.last_name || null,
-      data.phone || null,
+      (data.phone && ValidationUtils.normalizePhone(data.phone)) || data.phone || null,
       data.date_of_birth || null,
-      data.gender || null
+      data.gender || null,
+      data.preferred_locale || EmailTemplateService.getDefaultLocale()
     ];
 
-    const [result] = await pool.execute(query, values);
-    return (result as any).insertId;
+    const [result] = await db.execute(query, values);
+    const accountId = (result as any).insertId;
+
+    // Signups by password and through a social provider both end up here
+    await OutboxService.enqueue('webhook.event', {
+      type: 'account.registered',
+      data: { account_id: accountId, email: data.email }
+    }, db);
+
+    return accountId;
   }
 
   static async findByEmail(email: string): Promise<Account | null> {
@@ -55,8 +67,16 @@ export class AccountService {
       values.push(data.last_name);
     }
     if (data.phone !== undefined) {
-      fields.push('phone = ?');
-      values.push(data.phone);
+      const phone = data.phone ? ValidationUtils.normalizePhone(data.phone) || data.phone : data.phone;
+
+      // A different number has to be verified again and stops receiving 2FA codes.
+      // MySQL applies the assignments left to right, so these still compare against the old number
+      fields.push(
+        'phone_verified_at = IF(phone <=> ?, phone_verified_at, NULL)',
+        'sms_two_factor_enabled = IF(phone <=> ?, sms_two_factor_enabled, 0)',
+        'phone = ?'
+      );
+      values.push(phone, phone, phone);
     }
     if (data.date_of_birth !== undefined) {
       fields.push('date_of_birth = ?');
@@ -66,6 +86,10 @@ export class AccountService {
       fields.push('gender = ?');
       values.push(data.gender);
     }
+    if (data.preferred_locale !== undefined) {
+      fields.push('preferred_locale = ?');
+      values.push(data.preferred_locale);
+    }
 
     if (fields.length === 0) return false;
 
@@ -78,10 +102,29 @@ export class AccountService {
     return (result as any).affectedRows > 0;
   }
 
-  static async updatePassword(id: number, newPassword: string): Promise<boolean> {
+  // Phone numbers are normalized by the caller, see ValidationUtils.normalizePhone
+  static async findByVerifiedPhone(phone: string): Promise<Account | null> {
+    const query = 'SELECT * FROM accounts WHERE phone = ? AND phone_verified_at IS NOT NULL AND is_active = 1';
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [phone]);
+
+    if (rows.length === 0) return null;
+    return rows[0] as Account;
+  }
+
+  static async markPhoneVerified(id: number, phone: string): Promise<boolean> {
+    const query = `
+      UPDATE accounts SET phone = ?, phone_verified_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `;
+    const [result] = await pool.execute(query, [phone, id]);
+
+    return (result as any).affectedRows > 0;
+  }
+
+  static async updatePassword(id: number, newPassword: string, db: Connection = pool): Promise<boolean> {
     const hashedPassword = await PasswordUtils.hash(newPassword);
     const query = 'UPDATE accounts SET password = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?';
-    const [result] = await pool.execute(query, [hashedPassword, id]);
+    const [result] = await db.execute(query, [hashedPassword, id]);
     
     return (result as any).affectedRows > 0;
   }
@@ -91,9 +134,9 @@ export class AccountService {
     await pool.execute(query, [id]);
   }
 
-  static async verifyAccount(id: number): Promise<boolean> {
+  static async verifyAccount(id: number, db: Connection = pool): Promise<boolean> {
     const query = 'UPDATE accounts SET is_verified = 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?';
-    const [result] = await pool.execute(query, [id]);
+    const [result] = await db.execute(query, [id]);
     
     return (result as any).affectedRows > 0;
   }
@@ -108,7 +151,8 @@ export class AccountService {
   static async getAccountWithPermissions(id: number): Promise<AccountWithPermissions | null> {
     const accountQuery = `
       SELECT id, email, first_name, last_name, phone, date_of_birth, gender, 
-             avatar_url, is_verified, is_active, last_login, created_at, updated_at
+             avatar_url, preferred_locale, is_verified, is_active, two_factor_enabled, phone_verified_at, sms_two_factor_enabled,
+             locked_until, last_login, created_at, updated_at
       FROM accounts 
       WHERE id = ? AND is_active = 1
     `;
@@ -153,7 +197,7 @@ export class AccountService {
 
     const query = `
       SELECT id, email, first_name, last_name, phone, date_of_birth, gender, 
-             avatar_url, is_verified, is_active, last_login, created_at, updated_at
+             avatar_url, preferred_locale, is_verified, is_active, two_factor_enabled, locked_until, last_login, created_at, updated_at
       FROM accounts 
       WHERE is_active = 1
       ORDER BY created_at DESC
@@ -0,0 +1,403 @@
+import type { Request } from 'express';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import {
+  AuditAction,
+  AuditChainVerification,
+  AuditChanges,
+  AuditEvent,
+  AuditEventFilter,
+  AuditEventInput,
+  AuditExport,
+  AuditExportClaims,
+  AuditWriterStatus
+} from '../types';
+import { JwtUtils, PasswordUtils } from '../utils';
+
+type AuditDetails = Omit<AuditEventInput, 'action' | 'ipAddress' | 'userAgent'>;
+
+// The recorded facts of an event, i.e. everything but its id and its place in the chain
+type AuditChainFields = Omit<AuditEvent, 'id' | 'prev_hash' | 'hash'>;
+
+const EVENT_COLUMNS = 'id, actor_account_id, actor_client_id, target_account_id, action, ip_address, user_agent, changes, prev_hash, hash, created_at';
+
+// Who did what to which account. Unlike security_events, which tracks threats against one account,
+// this is the trail of every authentication and administrative change
+//
+// Each record carries the SHA-256 of the previous record's hash and its own fields, so editing or
+// deleting a record breaks every link after it. The single row of audit_chain holds the newest hash:
+// it is locked while records are appended, and it shows when records were cut off the end
+//
+// Requests stage their events in audit_pending_events, a plain insert that takes no lock, so an
+// event survives a crash once the request has recorded it. A writer moves staged events into the
+// chain in batches, so the chain lock is taken once per batch and never while a request waits for it
+export class AuditService {
+  static readonly GENESIS_HASH = '0'.repeat(64);
+  static readonly VERIFY_BATCH_SIZE = 1000;
+  static readonly MAX_EXPORT_EVENTS = 10000;
+  static readonly WRITE_BATCH_SIZE = 100;
+  static readonly FLUSH_INTERVAL_MS = 5 * 1000;
+
+  private static writing: Promise<void> | null = null;
+  private static schedulerTimer: NodeJS.Timeout | null = null;
+  private static droppedEvents = 0;
+  private static lastError: { message: string; at: Date } | null = null;
+
+  // Never fails the request it describes; failed inserts and write failures show in getWriterStatus
+  static async record(event: AuditEventInput): Promise<void> {
+    try {
+      await pool.execute(
+        `INSERT INTO audit_pending_events (actor_account_id, actor_client_id, target_account_id, action, ip_address, user_agent, changes, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          event.actorAccountId ?? null,
+          event.actorClientId ?? null,
+          event.targetAccountId ?? null,
+          event.action,
+          event.ipAddress || null,
+          event.userAgent || null,
+          event.changes ? JSON.stringify(event.changes) : null,
+          // TIMESTAMP keeps whole seconds, so hash what will be read back
+          new Date(Math.floor(Date.now() / 1000) * 1000)
+        ]
+      );
+    } catch (error) {
+      this.droppedEvents++;
+      console.error('Error staging audit event, dropping it:', event.action, error);
+      return;
+    }
+
+    this.flush().catch(error => console.error('Audit writer error:', error));
+  }
+
+  // Resolves once nothing is staged or a batch failed; a failed batch stays staged for the next flush
+  static flush(): Promise<void> {
+    if (!this.writing) {
+      this.writing = this.writePending().finally(() => {
+        this.writing = null;
+      });
+    }
+
+    return this.writing;
+  }
+
+  static async getWriterStatus(): Promise<AuditWriterStatus> {
+    const [rows] = await pool.execute<RowDataPacket[]>('SELECT COUNT(*) as total FROM audit_pending_events');
+
+    return {
+      pending_events: rows[0].total,
+      dropped_events: this.droppedEvents,
+      last_error: this.lastError ? this.lastError.message : null,
+      last_error_at: this.lastError ? this.lastError.at.toISOString() : null
+    };
+  }
+
+  // Scheduler: retries failed batches and appends events staged by instances that stopped before writing them
+  static startScheduler(): void {
+    if (this.schedulerTimer) return;
+
+    this.schedulerTimer = setInterval(() => {
+      this.flush().catch(error => console.error('Audit writer error:', error));
+    }, this.FLUSH_INTERVAL_MS);
+    this.schedulerTimer.unref();
+  }
+
+  static stopScheduler(): void {
+    if (this.schedulerTimer) {
+      clearInterval(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
+  }
+
+  // SHA-256 of the previous hash followed by the record as JSON with sorted keys. MySQL reorders
+  // the keys of JSON columns, so the record is hashed in a form that survives the round trip
+  static computeHash(prevHash: string, fields: AuditChainFields): string {
+    const record = {
+      action: fields.action,
+      actor_account_id: fields.actor_account_id,
+      actor_client_id: fields.actor_client_id,
+      changes: fields.changes,
+      created_at: new Date(fields.created_at).toISOString(),
+      ip_address: fields.ip_address,
+      target_account_id: fields.target_account_id,
+      user_agent: fields.user_agent
+    };
+
+    return PasswordUtils.hashToken(prevHash + this.canonicalJson(record));
+  }
+
+  // Walks the whole chain in id order and stops at the first record that does not link up
+  static async verifyChain(): Promise<AuditChainVerification> {
+    let prevHash = this.GENESIS_HASH;
+    let lastEventId: number | null = null;
+    let checked = 0;
+
+    for (;;) {
+      const afterId: number = lastEventId ?? 0;
+      const query = `SELECT ${EVENT_COLUMNS} FROM audit_events WHERE id > ? ORDER BY id ASC LIMIT ?`;
+      const [rows] = await pool.execute<RowDataPacket[]>(query, [afterId, this.VERIFY_BATCH_SIZE]);
+      const events = rows as AuditEvent[];
+
+      for (const event of events) {
+        if (event.prev_hash !== prevHash) {
+          return { valid: false, checked, last_event_id: lastEventId, broken_at: { id: event.id, reason: 'prev_hash_mismatch' } };
+        }
+        if (this.computeHash(event.prev_hash, event) !== event.hash) {
+          return { valid: false, checked, last_event_id: lastEventId, broken_at: { id: event.id, reason: 'hash_mismatch' } };
+        }
+
+        prevHash = event.hash;
+        lastEventId = event.id;
+        checked++;
+      }
+
+      if (events.length < this.VERIFY_BATCH_SIZE) break;
+    }
+
+    const [heads] = await pool.execute<RowDataPacket[]>('SELECT last_event_id, last_hash FROM audit_chain WHERE id = 1');
+    if (heads.length > 0 && heads[0].last_hash !== prevHash) {
+      return { valid: false, checked, last_event_id: lastEventId, broken_at: { id: heads[0].last_event_id, reason: 'head_mismatch' } };
+    }
+
+    return { valid: true, checked, last_event_id: lastEventId };
+  }
+
+  // The signature covers the range and the hashes at both ends; since every hash covers the record
+  // and all before it, an auditor who recomputes the hashes has checked every exported record.
+  // Events are appended in batches, so ids and created_at need not rise together: the export is the
+  // unbroken run of ids from the first event at or after `from` to the last one at or before `to`
+  static async exportRange(from: Date, to: Date): Promise<AuditExport | null> {
+    const [bounds] = await pool.execute<RowDataPacket[]>(
+      `SELECT (SELECT MIN(id) FROM audit_events WHERE created_at >= ?) as first_id,
+              (SELECT MAX(id) FROM audit_events WHERE created_at <= ?) as last_id`,
+      [from, to]
+    );
+    const firstId: number | null = bounds[0].first_id;
+    const lastId: number | null = bounds[0].last_id;
+
+    let events: AuditEvent[] = [];
+    let startHash: string | null = null;
+
+    if (firstId !== null && lastId !== null && firstId <= lastId) {
+      const [countRows] = await pool.execute<RowDataPacket[]>(
+        'SELECT COUNT(*) as total FROM audit_events WHERE id BETWEEN ? AND ?',
+        [firstId, lastId]
+      );
+      if (countRows[0].total > this.MAX_EXPORT_EVENTS) return null;
+
+      const query = `SELECT ${EVENT_COLUMNS} FROM audit_events WHERE id BETWEEN ? AND ? ORDER BY id ASC`;
+      const [rows] = await pool.execute<RowDataPacket[]>(query, [firstId, lastId]);
+      events = rows as AuditEvent[];
+
+      // Taken from the event before the range, not from the first exported event's own claim
+      const [previous] = await pool.execute<RowDataPacket[]>(
+        'SELECT hash FROM audit_events WHERE id < ? ORDER BY id DESC LIMIT 1',
+        [firstId]
+      );
+      startHash = previous.length > 0 ? previous[0].hash : this.GENESIS_HASH;
+    }
+
+    const first = events[0];
+    const last = events[events.length - 1];
+    const claims: AuditExportClaims = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      count: events.length,
+      first_id: first ? first.id : null,
+      last_id: last ? last.id : null,
+      start_hash: first ? startHash : null,
+      end_hash: last ? last.hash : null
+    };
+
+    return { ...claims, events, signature: JwtUtils.signAuditExport(claims) };
+  }
+
+  // The signed-in user or machine client is the actor unless the details name one
+  static async recordRequest(req: Request, action: AuditAction, details: AuditDetails = {}): Promise<void> {
+    await this.record({
+      actorAccountId: req.user?.accountId,
+      actorClientId: req.client?.clientId,
+      ipAddress: req.ip || req.connection.remoteAddress,
+      userAgent: req.headers['user-agent'],
+      ...details,
+      action
+    });
+  }
+
+  // Only the fields present in `after` are compared, so partial updates yield a minimal diff
+  static diff(before: object | null, after: object | null): AuditChanges {
+    const previous = new Map<string, unknown>(Object.entries(before || {}));
+    const next = new Map<string, unknown>(Object.entries(after || {}));
+    const fields = after ? [...next.keys()] : [...previous.keys()];
+
+    const changes = new Map<string, { from: unknown; to: unknown }>();
+    for (const field of fields) {
+      if (after && next.get(field) === undefined) continue;
+
+      const from = previous.get(field) ?? null;
+      const to = next.get(field) ?? null;
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes.set(field, { from, to });
+      }
+    }
+
+    return Object.fromEntries(changes);
+  }
+
+  static async listEvents(filter: AuditEventFilter) {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.action) {
+      conditions.push('action = ?');
+      params.push(filter.action);
+    }
+    if (filter.actor_account_id) {
+      conditions.push('actor_account_id = ?');
+      params.push(filter.actor_account_id);
+    }
+    if (filter.target_account_id) {
+      conditions.push('target_account_id = ?');
+      params.push(filter.target_account_id);
+    }
+    if (filter.from) {
+      conditions.push('created_at >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      conditions.push('created_at <= ?');
+      params.push(filter.to);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { page, limit } = filter;
+    const offset = (page - 1) * limit;
+
+    const countQuery = `SELECT COUNT(*) as total FROM audit_events ${where}`;
+    const [countRows] = await pool.execute<RowDataPacket[]>(countQuery, params);
+    const total = countRows[0].total;
+
+    const query = `
+      SELECT ${EVENT_COLUMNS}
+      FROM audit_events
+      ${where}
+      ORDER BY id DESC
+      LIMIT ? OFFSET ?
+    `;
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [...params, limit, offset]);
+
+    return {
+      events: rows as AuditEvent[],
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  private static async writePending(): Promise<void> {
+    for (;;) {
+      let appended: number;
+
+      try {
+        appended = await this.appendBatch();
+      } catch (error) {
+        this.lastError = { message: error instanceof Error ? error.message : String(error), at: new Date() };
+        console.error('Error appending staged audit events to the chain:', error);
+        return;
+      }
+
+      this.lastError = null;
+      if (appended < this.WRITE_BATCH_SIZE) return;
+    }
+  }
+
+  // Staged events are selected under the head lock, so instances never append the same event twice
+  private static async appendBatch(): Promise<number> {
+    const connection = await pool.getConnection();
+
+    try {
+      await connection.beginTransaction();
+
+      const [heads] = await connection.execute<RowDataPacket[]>(
+        'SELECT last_hash FROM audit_chain WHERE id = 1 FOR UPDATE'
+      );
+      if (heads.length === 0) {
+        throw new Error('Audit chain head is missing');
+      }
+
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT id, actor_account_id, actor_client_id, target_account_id, action, ip_address, user_agent, changes, created_at
+         FROM audit_pending_events ORDER BY id ASC LIMIT ?`,
+        [this.WRITE_BATCH_SIZE]
+      );
+      const batch = rows as (AuditChainFields & { id: number })[];
+      if (batch.length === 0) {
+        await connection.commit();
+        return 0;
+      }
+
+      let prevHash: string = heads[0].last_hash;
+      let lastEventId = 0;
+
+      const query = `
+        INSERT INTO audit_events (actor_account_id, actor_client_id, target_account_id, action, ip_address, user_agent, changes, prev_hash, hash, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+      for (const fields of batch) {
+        const hash = this.computeHash(prevHash, fields);
+        const [result] = await connection.execute<ResultSetHeader>(query, [
+          fields.actor_account_id,
+          fields.actor_client_id,
+          fields.target_account_id,
+          fields.action,
+          fields.ip_address,
+          fields.user_agent,
+          fields.changes ? JSON.stringify(fields.changes) : null,
+          prevHash,
+          hash,
+          fields.created_at
+        ]);
+
+        prevHash = hash;
+        lastEventId = result.insertId;
+      }
+
+      // By id rather than up to the last one: an event staged with a lower id may commit after the select
+      await connection.execute(
+        `DELETE FROM audit_pending_events WHERE id IN (${batch.map(() => '?').join(', ')})`,
+        batch.map(fields => fields.id)
+      );
+      await connection.execute(
+        'UPDATE audit_chain SET last_event_id = ?, last_hash = ? WHERE id = 1',
+        [lastEventId, prevHash]
+      );
+
+      await connection.commit();
+      return batch.length;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  private static canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.canonicalJson(item)).join(',')}]`;
+    }
+    if (value instanceof Date) {
+      return JSON.stringify(value.toISOString());
+    }
+    if (value !== null && typeof value === 'object') {
+      const entries = Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, item]) => `${JSON.stringify(key)}:${this.canonicalJson(item)}`);
+      return `{${entries.join(',')}}`;
+    }
+
+    return JSON.stringify(value ?? null);
+  }
+}
@@ -1,8 +1,33 @@
+import type { Connection, PoolConnection } from 'mysql2/promise';
 import { RowDataPacket } from 'mysql2';
 import { pool, redisClient } from '../config/database';
-import { RefreshToken, PasswordReset, EmailVerification, JwtTokens, TokenPayload } from '../types';
-import { PasswordUtils, JwtUtils, DateUtils } from '../utils';
+import {
+  Account,
+  RefreshToken,
+  PasswordReset,
+  EmailVerification,
+  MagicLinkToken,
+  PasswordlessLoginResult,
+  LoginMethod,
+  JwtTokens,
+  TokenPayload,
+  MfaChallenge,
+  MfaChallengeData,
+  OAuthTokenGrant,
+  WebAuthnAuthenticationCredential,
+  WebAuthnCredential,
+  WebAuthnRegistrationCredential,
+  RegisterDto
+} from '../types';
+import { PasswordUtils, JwtUtils, DateUtils, ValidationUtils, UserAgentUtils } from '../utils';
 import { AccountService } from './accountService';
+import { TwoFactorService } from './twoFactorService';
+import { OtpService } from './otpService';
+import { WebAuthnService, WebAuthnError } from './webAuthnService';
+import { TokenRevocationService } from './tokenRevocationService';
+import { OutboxService } from './outboxService';
+import { LockoutService } from './lockoutService';
+import { KnownDeviceService } from './knownDeviceService';
 
 export class AuthService {
   // Refresh Token Management
@@ -10,17 +35,31 @@ export class AuthService {
     accountId: number, 
     token: string, 
     deviceInfo?: string, 
-    ipAddress?: string
+    ipAddress?: string,
+    familyId?: string,
+    grant?: OAuthTokenGrant
   ): Promise<void> {
     const tokenHash = PasswordUtils.hashToken(token);
     const expiresAt = DateUtils.addDays(new Date(), 7);
 
+    // A fresh login starts a new family, rotations inherit the family of the token they replace
+    const tokenFamilyId = familyId || PasswordUtils.generateSecureToken();
+
     const query = `
-      INSERT INTO refresh_tokens (account_id, token_hash, expires_at, device_info, ip_address)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO refresh_tokens (account_id, family_id, token_hash, expires_at, device_info, ip_address, client_id, scope)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
-    await pool.execute(query, [accountId, tokenHash, expiresAt, deviceInfo, ipAddress]);
+    await pool.execute(query, [
+      accountId,
+      tokenFamilyId,
+      tokenHash,
+      expiresAt,
+      deviceInfo,
+      ipAddress,
+      grant?.clientId || null,
+      grant?.scope || null
+    ]);
   }
 
   static async findRefreshToken(token: string): Promise<RefreshToken | null> {
@@ -34,14 +73,37 @@ export class AuthService {
     return rows.length > 0 ? rows[0] as RefreshToken : null;
   }
 
+  static async findRefreshTokenIncludingRevoked(token: string): Promise<RefreshToken | null> {
+    const tokenHash = PasswordUtils.hashToken(token);
+    const query = 'SELECT * FROM refresh_tokens WHERE token_hash = ? AND expires_at > NOW()';
+
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [tokenHash]);
+    return rows.length > 0 ? rows[0] as RefreshToken : null;
+  }
+
   static async revokeRefreshToken(token: string): Promise<boolean> {
     const tokenHash = PasswordUtils.hashToken(token);
-    const query = 'UPDATE refresh_tokens SET is_revoked = 1 WHERE token_hash = ?';
+    // Conditional, so of two concurrent callers only one sees the token go from active to revoked
+    const query = 'UPDATE refresh_tokens SET is_revoked = 1 WHERE token_hash = ? AND is_revoked = 0';
     const [result] = await pool.execute(query, [tokenHash]);
     
     return (result as any).affectedRows > 0;
   }
 
+  static async revokeRefreshTokenFamily(familyId: string): Promise<number> {
+    const query = 'UPDATE refresh_tokens SET is_revoked = 1 WHERE family_id = ? AND is_revoked = 0';
+    const [result] = await pool.execute(query, [familyId]);
+
+    return (result as any).affectedRows;
+  }
+
+  static async revokeClientRefreshTokens(accountId: number, clientId: string): Promise<number> {
+    const query = 'UPDATE refresh_tokens SET is_revoked = 1 WHERE account_id = ? AND client_id = ? AND is_revoked = 0';
+    const [result] = await pool.execute(query, [accountId, clientId]);
+
+    return (result as any).affectedRows;
+  }
+
   static async revokeAllRefreshTokens(accountId: number): Promise<void> {
     const query = 'UPDATE refresh_tokens SET is_revoked = 1 WHERE account_id = ?';
     await pool.execute(query, [accountId]);
@@ -52,8 +114,102 @@ export class AuthService {
     await pool.execute(query);
   }
 
+  // Registration
+  // The account, its verification token and the verification email are committed together,
+  // so an account is never left without the email that lets its owner verify it
+  static async register(data: RegisterDto): Promise<number> {
+    return this.inTransaction(async connection => {
+      const accountId = await AccountService.createAccount(data, connection);
+      const token = await this.createEmailVerification(accountId, connection);
+
+      await OutboxService.enqueue('email.verification', {
+        email: data.email,
+        token,
+        first_name: data.first_name,
+        locale: data.preferred_locale
+      }, connection);
+
+      return accountId;
+    });
+  }
+
+  static async sendEmailVerification(account: Account): Promise<void> {
+    await this.inTransaction(async connection => {
+      const token = await this.createEmailVerification(account.id, connection);
+      await OutboxService.enqueue('email.verification', {
+        email: account.email,
+        token,
+        first_name: account.first_name,
+        locale: account.preferred_locale
+      }, connection);
+    });
+  }
+
+  static async sendPasswordReset(account: Account): Promise<void> {
+    await this.inTransaction(async connection => {
+      const token = await this.createPasswordReset(account.id, connection);
+      await OutboxService.enqueue('email.password_reset', {
+        email: account.email,
+        token,
+        first_name: account.first_name,
+        locale: account.preferred_locale
+      }, connection);
+    });
+  }
+
+  // Sensitive actions accept the current password or a step-up code sent to the account email
+  static async confirmIdentity(account: Account, password?: string, otpCode?: string): Promise<boolean> {
+    if (otpCode) {
+      return await OtpService.verifyCode(account.id, 'step_up', otpCode);
+    }
+
+    return password ? await PasswordUtils.compare(password, account.password) : false;
+  }
+
+  // The new password, its webhook event and the notification email are committed together
+  static async changePassword(account: Account, newPassword: string, ipAddress?: string): Promise<boolean> {
+    return this.inTransaction(async connection => {
+      const updated = await AccountService.updatePassword(account.id, newPassword, connection);
+      if (!updated) return false;
+
+      await this.enqueuePasswordChanged(account, 'password.changed', ipAddress, connection);
+      return true;
+    });
+  }
+
+  // The reset token is only spent together with the password it set
+  static async resetPassword(token: string, account: Account, newPassword: string, ipAddress?: string): Promise<boolean> {
+    return this.inTransaction(async connection => {
+      const updated = await AccountService.updatePassword(account.id, newPassword, connection);
+      if (!updated) return false;
+
+      await this.usePasswordReset(token, connection);
+      await this.enqueuePasswordChanged(account, 'password.reset', ipAddress, connection);
+      return true;
+    });
+  }
+
+  static async verifyEmail(token: string, account: Account): Promise<boolean> {
+    return this.inTransaction(async connection => {
+      const verified = await AccountService.verifyAccount(account.id, connection);
+      if (!verified) return false;
+
+      await this.useEmailVerification(token, connection);
+      await OutboxService.enqueue('webhook.event', {
+        type: 'account.verified',
+        data: { account_id: account.id }
+      }, connection);
+      await OutboxService.enqueue('email.welcome', {
+        email: account.email,
+        first_name: account.first_name,
+        locale: account.preferred_locale
+      }, connection);
+      return true;
+    });
+  }
+
   // Password Reset
-  static async createPasswordReset(accountId: number): Promise<string> {
+  static async createPasswordReset(accountId: number, db: Connection = pool): Promise<string> {
     const token = PasswordUtils.generateSecureToken();
     const tokenHash = PasswordUtils.hashToken(token);
     const expiresAt = DateUtils.addHours(new Date(), 1); // 1 hour expiry
@@ -63,7 +219,7 @@ export class AuthService {
       VALUES (?, ?, ?)
     `;
 
-    await pool.execute(query, [accountId, tokenHash, expiresAt]);
+    await db.execute(query, [accountId, tokenHash, expiresAt]);
     return token;
   }
 
@@ -78,16 +234,16 @@ export class AuthService {
     return rows.length > 0 ? rows[0] as PasswordReset : null;
   }
 
-  static async usePasswordReset(token: string): Promise<boolean> {
+  static async usePasswordReset(token: string, db: Connection = pool): Promise<boolean> {
     const tokenHash = PasswordUtils.hashToken(token);
     const query = 'UPDATE password_resets SET is_used = 1 WHERE token_hash = ?';
-    const [result] = await pool.execute(query, [tokenHash]);
+    const [result] = await db.execute(query, [tokenHash]);
     
     return (result as any).affectedRows > 0;
   }
 
   // Email Verification
-  static async createEmailVerification(accountId: number): Promise<string> {
+  static async createEmailVerification(accountId: number, db: Connection = pool): Promise<string> {
     const token = PasswordUtils.generateSecureToken();
     const tokenHash = PasswordUtils.hashToken(token);
     const expiresAt = DateUtils.addHours(new Date(), 24); // 24 hours expiry
@@ -97,7 +253,7 @@ export class AuthService {
       VALUES (?, ?, ?)
     `;
 
-    await pool.execute(query, [accountId, tokenHash, expiresAt]);
+    await db.execute(query, [accountId, tokenHash, expiresAt]);
     return token;
   }
 
@@ -112,87 +268,473 @@ export class AuthService {
     return rows.length > 0 ? rows[0] as EmailVerification : null;
   }
 
-  static async useEmailVerification(token: string): Promise<boolean> {
+  static async useEmailVerification(token: string, db: Connection = pool): Promise<boolean> {
     const tokenHash = PasswordUtils.hashToken(token);
     const query = 'UPDATE email_verifications SET is_used = 1 WHERE token_hash = ?';
-    const [result] = await pool.execute(query, [tokenHash]);
+    const [result] = await db.execute(query, [tokenHash]);
     
     return (result as any).affectedRows > 0;
   }
 
+  // Magic Link
+  static async createMagicLink(accountId: number, db: Connection = pool): Promise<string> {
+    const token = PasswordUtils.generateSecureToken();
+    const tokenHash = PasswordUtils.hashToken(token);
+    const expiresAt = DateUtils.addMinutes(new Date(), 15); // 15 minutes expiry
+
+    const query = `
+      INSERT INTO magic_link_tokens (account_id, token_hash, expires_at)
+      VALUES (?, ?, ?)
+    `;
+
+    await db.execute(query, [accountId, tokenHash, expiresAt]);
+    return token;
+  }
+
+  static async sendMagicLink(account: Account): Promise<void> {
+    await this.inTransaction(async connection => {
+      const token = await this.createMagicLink(account.id, connection);
+      await OutboxService.enqueue('email.magic_link', {
+        email: account.email,
+        token,
+        first_name: account.first_name,
+        locale: account.preferred_locale
+      }, connection);
+    });
+  }
+
+  static async findMagicLink(token: string): Promise<MagicLinkToken | null> {
+    const tokenHash = PasswordUtils.hashToken(token);
+    const query = `
+      SELECT * FROM magic_link_tokens 
+      WHERE token_hash = ? AND is_used = 0 AND expires_at > NOW()
+    `;
+
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [tokenHash]);
+    return rows.length > 0 ? rows[0] as MagicLinkToken : null;
+  }
+
+  // Only one request can flip is_used, so a link opened twice at the same time signs in once
+  static async useMagicLink(token: string): Promise<boolean> {
+    const tokenHash = PasswordUtils.hashToken(token);
+    const query = 'UPDATE magic_link_tokens SET is_used = 1 WHERE token_hash = ? AND is_used = 0 AND expires_at > NOW()';
+    const [result] = await pool.execute(query, [tokenHash]);
+
+    return (result as any).affectedRows > 0;
+  }
+
   // Login/Logout
-  static async login(email: string, password: string, deviceInfo?: string, ipAddress?: string): Promise<JwtTokens | null> {
+  static async login(
+    email: string,
+    password: string,
+    deviceInfo?: string,
+    ipAddress?: string
+  ): Promise<JwtTokens | MfaChallenge | null> {
     const account = await AccountService.findByEmail(email);
     if (!account) return null;
 
     const isValidPassword = await PasswordUtils.compare(password, account.password);
     if (!isValidPassword) return null;
 
+    // Accounts enrolled in 2FA must present a TOTP code or passkey before tokens are issued
+    if (await TwoFactorService.isRequired(account)) {
+      return await TwoFactorService.createChallenge(account.id, deviceInfo, ipAddress, true);
+    }
+
+    const tokens = await this.issueTokens(account.id, account.email, 'password', deviceInfo, ipAddress);
+    await this.completePasswordLogin(account, deviceInfo, ipAddress);
+
+    return tokens;
+  }
+
+  static async loginWithMagicLink(
+    token: string,
+    deviceInfo?: string,
+    ipAddress?: string
+  ): Promise<PasswordlessLoginResult | null> {
+    const magicLink = await this.findMagicLink(token);
+    if (!magicLink) return null;
+
+    const isUsed = await this.useMagicLink(token);
+    if (!isUsed) return null;
+
+    const account = await AccountService.findById(magicLink.account_id);
+    if (!account) return null;
+
+    return await this.completeEmailLogin(account, 'magic_link', deviceInfo, ipAddress);
+  }
+
+  static async loginWithEmailOtp(
+    email: string,
+    code: string,
+    deviceInfo?: string,
+    ipAddress?: string
+  ): Promise<PasswordlessLoginResult | null> {
+    const account = await AccountService.findByEmail(email);
+    if (!account) return null;
+
+    const isValidCode = await OtpService.verifyCode(account.id, 'login', code);
+    if (!isValidCode) {
+      await this.recordAccountFailure(account, ipAddress);
+      return null;
+    }
+
+    return await this.completeEmailLogin(account, 'email_otp', deviceInfo, ipAddress);
+  }
+
+  static async loginWithSmsOtp(
+    phone: string,
+    code: string,
+    deviceInfo?: string,
+    ipAddress?: string
+  ): Promise<PasswordlessLoginResult | null> {
+    const normalizedPhone = ValidationUtils.normalizePhone(phone);
+    if (!normalizedPhone) return null;
+
+    const account = await AccountService.findByVerifiedPhone(normalizedPhone);
+    if (!account) return null;
+
+    const isValidCode = await OtpService.verifyCode(account.id, 'sms_login', code, normalizedPhone);
+    if (!isValidCode) {
+      await this.recordAccountFailure(account, ipAddress);
+      return null;
+    }
+
+    return await this.completePasswordlessLogin(account, 'sms_otp', deviceInfo, ipAddress);
+  }
+
+  // The passkey and the email telling the owner about it are committed together
+  static async registerPasskey(
+    account: Account,
+    credential: WebAuthnRegistrationCredential,
+    name?: string,
+    ipAddress?: string
+  ): Promise<WebAuthnCredential> {
+    return this.inTransaction(async connection => {
+      const passkey = await WebAuthnService.verifyRegistration(account.id, credential, name, connection);
+
+      await OutboxService.enqueue('email.passkey_added', {
+        email: account.email,
+        first_name: account.first_name,
+        passkey_name: name || undefined,
+        ip_address: ipAddress,
+        locale: account.preferred_locale
+      }, connection);
+      return passkey;
+    });
+  }
+
+  // A user-verified passkey proves possession and the PIN or biometric, so no second factor is asked for
+  static async loginWithPasskey(
+    credential: WebAuthnAuthenticationCredential,
+    deviceInfo?: string,
+    ipAddress?: string
+  ): Promise<PasswordlessLoginResult> {
+    const storedCredential = await WebAuthnService.findCredential(credential.rawId);
+    const account = storedCredential ? await AccountService.findById(storedCredential.account_id) : null;
+    const lockedUntil = account ? LockoutService.getLockedUntil(account) : null;
+
+    // Failed assertions count towards the account lock like wrong passwords
+    try {
+      await WebAuthnService.verifyAuthentication(credential);
+    } catch (error) {
+      if (account && error instanceof WebAuthnError) {
+        await this.recordAccountFailure(account, ipAddress);
+      }
+      throw error;
+    }
+
+    if (!account) {
+      throw new WebAuthnError('Tài khoản đã bị vô hiệu hóa', 403);
+    }
+
+    // As with passwords, the lock is only reported to someone who holds the passkey
+    if (lockedUntil) {
+      const minutes = Math.ceil((lockedUntil.getTime() - Date.now()) / 60000);
+      throw new WebAuthnError(
+        `Tài khoản tạm thời bị khóa do đăng nhập sai quá nhiều lần. Vui lòng thử lại sau ${minutes} phút hoặc đăng nhập bằng email.`,
+        423
+      );
+    }
+
+    const result = await this.issueTokens(account.id, account.email, 'passkey', deviceInfo, ipAddress);
+
+    return { accountId: account.id, result };
+  }
+
+  static async verifyMfaChallenge(mfaToken: string, code?: string, recoveryCode?: string): Promise<JwtTokens | null> {
+    const challenge = await TwoFactorService.getChallenge(mfaToken);
+    if (!challenge) return null;
+
+    const account = await AccountService.findById(challenge.accountId);
+    if (!account) {
+      await TwoFactorService.deleteChallenge(mfaToken);
+      return null;
+    }
+
+    if (!await TwoFactorService.countChallengeAttempt(mfaToken)) return null;
+
+    const isValidCode = await TwoFactorService.verifySecondFactor(account, code, recoveryCode);
+    if (!isValidCode) {
+      await TwoFactorService.recordChallengeFailure(mfaToken);
+      await this.recordAccountFailure(account, challenge.ipAddress);
+      return null;
+    }
+
+    // Challenge tokens are single-use
+    await TwoFactorService.deleteChallenge(mfaToken);
+
+    return await this.completeMfaLogin(account, challenge);
+  }
+
+  static async verifyMfaSms(mfaToken: string, code: string): Promise<JwtTokens | null> {
+    const challenge = await TwoFactorService.getChallenge(mfaToken);
+    if (!challenge) return null;
+
+    const account = await AccountService.findById(challenge.accountId);
+    if (!account || !account.sms_two_factor_enabled || !account.phone) {
+      await TwoFactorService.deleteChallenge(mfaToken);
+      return null;
+    }
+
+    if (!await TwoFactorService.countChallengeAttempt(mfaToken)) return null;
+
+    const isValidCode = await OtpService.verifyCode(account.id, 'sms_two_factor', code, account.phone);
+    if (!isValidCode) {
+      await TwoFactorService.recordChallengeFailure(mfaToken);
+      await this.recordAccountFailure(account, challenge.ipAddress);
+      return null;
+    }
+
+    await TwoFactorService.deleteChallenge(mfaToken);
+
+    return await this.completeMfaLogin(account, challenge);
+  }
+
+  static async verifyMfaPasskey(mfaToken: string, credential: WebAuthnAuthenticationCredential): Promise<JwtTokens | null> {
+    const challenge = await TwoFactorService.getChallenge(mfaToken);
+    if (!challenge) return null;
+
+    const account = await AccountService.findById(challenge.accountId);
+    if (!account) {
+      await TwoFactorService.deleteChallenge(mfaToken);
+      return null;
+    }
+
+    if (!await TwoFactorService.countChallengeAttempt(mfaToken)) return null;
+
+    try {
+      await WebAuthnService.verifyAuthentication(credential, account.id);
+    } catch (error) {
+      if (!(error instanceof WebAuthnError)) throw error;
+
+      await TwoFactorService.recordChallengeFailure(mfaToken);
+      await this.recordAccountFailure(account, challenge.ipAddress);
+      return null;
+    }
+
+    await TwoFactorService.deleteChallenge(mfaToken);
+
+    return await this.completeMfaLogin(account, challenge);
+  }
+
+  private static async completeMfaLogin(account: Account, challenge: MfaChallengeData): Promise<JwtTokens> {
+    const tokens = await this.issueTokens(account.id, account.email, 'two_factor', challenge.deviceInfo, challenge.ipAddress);
+
+    if (challenge.passwordLogin) {
+      await this.completePasswordLogin(account, challenge.deviceInfo, challenge.ipAddress);
+    }
+
+    return tokens;
+  }
+
+  // Only once tokens are issued: a correct password with the second factor still due must not
+  // clear the failures that wrong codes add, nor report the device as signed in
+  private static async completePasswordLogin(account: Account, deviceInfo?: string, ipAddress?: string): Promise<void> {
+    await LockoutService.reset(account);
+    await this.alertOnNewDevice(account, deviceInfo, ipAddress);
+  }
+
+  private static async alertOnNewDevice(account: Account, deviceInfo?: string, ipAddress?: string): Promise<void> {
+    const deviceId = await KnownDeviceService.recordLogin(account.id, deviceInfo, ipAddress);
+    if (!deviceId) return;
+
+    await this.recordSecurityEvent(account.id, 'new_device_login', ipAddress, {
+      device_id: deviceId,
+      device_info: deviceInfo
+    });
+
+    const token = await KnownDeviceService.createAlertToken(account.id, deviceId);
+    await OutboxService.enqueue('email.new_device_login', {
+      email: account.email,
+      first_name: account.first_name,
+      token,
+      device: UserAgentUtils.parse(deviceInfo),
+      ip_address: ipAddress,
+      locale: account.preferred_locale
+    });
+  }
+
+  private static async completeEmailLogin(
+    account: Account,
+    method: LoginMethod,
+    deviceInfo?: string,
+    ipAddress?: string
+  ): Promise<PasswordlessLoginResult> {
+    // Receiving the link or code proves the mailbox just like the verification email does
+    if (!account.is_verified) {
+      await AccountService.verifyAccount(account.id);
+    }
+
+    return await this.completePasswordlessLogin(account, method, deviceInfo, ipAddress);
+  }
+
+  private static async completePasswordlessLogin(
+    account: Account,
+    method: LoginMethod,
+    deviceInfo?: string,
+    ipAddress?: string
+  ): Promise<PasswordlessLoginResult> {
+    // The email or phone replaces the password, not the second factor
+    const result = await TwoFactorService.isRequired(account)
+      ? await TwoFactorService.createChallenge(account.id, deviceInfo, ipAddress)
+      : await this.issueTokens(account.id, account.email, method, deviceInfo, ipAddress);
+
+    return { accountId: account.id, result };
+  }
+
+  static async issueTokens(
+    accountId: number,
+    email: string,
+    method: LoginMethod,
+    deviceInfo?: string,
+    ipAddress?: string,
+    grant?: OAuthTokenGrant
+  ): Promise<JwtTokens> {
     // Get user permissions for JWT payload
-    const accountWithPermissions = await AccountService.getAccountWithPermissions(account.id);
+    const accountWithPermissions = await AccountService.getAccountWithPermissions(accountId);
     
+    // Every login starts a new refresh token family, which is also the session id in the access token
+    const familyId = PasswordUtils.generateSecureToken();
+
     const payload: TokenPayload = {
-      accountId: account.id,
-      email: account.email,
-      permissions: accountWithPermissions?.permissions || []
+      accountId,
+      email,
+      permissions: await this.permissionsForGrant(accountWithPermissions?.permissions || [], grant),
+      sid: familyId,
+      ...(grant && { clientId: grant.clientId, scope: grant.scope })
     };
 
     const tokens = JwtUtils.generateTokens(payload);
     
     // Save refresh token
-    await this.saveRefreshToken(account.id, tokens.refreshToken, deviceInfo, ipAddress);
+    await this.saveRefreshToken(accountId, tokens.refreshToken, deviceInfo, ipAddress, familyId, grant);
     
     // Update last login
-    await AccountService.updateLastLogin(account.id);
+    await AccountService.updateLastLogin(accountId);
+
+    // Every login method ends here, so subscribers see them all
+    await OutboxService.enqueue('webhook.event', {
+      type: 'login.succeeded',
+      data: { account_id: accountId, method, ip_address: ipAddress ?? null }
+    });
 
     return tokens;
   }
 
-  static async refreshTokens(refreshToken: string): Promise<JwtTokens | null> {
+  // Resource servers honour the permissions in the token, so a client acting for the user only gets
+  // those its granted resource:action scopes cover, never the user's full set
+  static async permissionsForGrant(permissions: string[], grant?: OAuthTokenGrant): Promise<string[]> {
+    if (!grant) return permissions;
+
+    const { OAuthService } = await import('./oauthService');
+    const scopes = grant.scope.split(' ').filter(scope => scope.includes(':'));
+    const grantedPermissions = new Set((await OAuthService.resolvePermissionScopes(scopes)).values());
+
+    return permissions.filter(permission => grantedPermissions.has(permission));
+  }
+
+  static async refreshTokens(refreshToken: string, ipAddress?: string): Promise<JwtTokens | null> {
     try {
       // Verify refresh token
       const decoded = JwtUtils.verifyRefreshToken(refreshToken);
       
       // Check if token exists in database and is not revoked
       const tokenRecord = await this.findRefreshToken(refreshToken);
-      if (!tokenRecord) return null;
+      if (!tokenRecord) {
+        await this.detectRefreshTokenReuse(refreshToken, ipAddress);
+        return null;
+      }
 
       // Get fresh user data with permissions
       const accountWithPermissions = await AccountService.getAccountWithPermissions(decoded.accountId);
       if (!accountWithPermissions) return null;
 
+      // Tokens issued to an OAuth client stay bound to that client and scope across rotations
+      const grant: OAuthTokenGrant | undefined = tokenRecord.client_id
+        ? { clientId: tokenRecord.client_id, scope: tokenRecord.scope || '' }
+        : undefined;
+
       const payload: TokenPayload = {
         accountId: accountWithPermissions.id,
         email: accountWithPermissions.email,
-        permissions: accountWithPermissions.permissions
+        permissions: await this.permissionsForGrant(accountWithPermissions.permissions, grant),
+        sid: tokenRecord.family_id,
+        ...(grant && { clientId: grant.clientId, scope: grant.scope })
       };
 
+      // Revoke the old refresh token first: a concurrent refresh that lost the race presented a rotated-out token
+      const claimed = await this.revokeRefreshToken(refreshToken);
+      if (!claimed) {
+        await this.detectRefreshTokenReuse(refreshToken, ipAddress);
+        return null;
+      }
+
       // Generate new tokens
       const newTokens = JwtUtils.generateTokens(payload);
       
-      // Revoke old refresh token
-      await this.revokeRefreshToken(refreshToken);
-      
       // Save new refresh token
       await this.saveRefreshToken(
         decoded.accountId, 
         newTokens.refreshToken, 
         tokenRecord.device_info, 
-        tokenRecord.ip_address
+        tokenRecord.ip_address,
+        tokenRecord.family_id,
+        grant
       );
 
       return newTokens;
-    } catch (error) {
+    } catch {
       return null;
     }
   }
 
+  static async detectRefreshTokenReuse(refreshToken: string, ipAddress?: string): Promise<boolean> {
+    const tokenRecord = await this.findRefreshTokenIncludingRevoked(refreshToken);
+    if (!tokenRecord || !tokenRecord.is_revoked) return false;
+
+    // A rotated-out token was presented again: either the legitimate client or an attacker
+    // holds a stolen copy, so the whole lineage is no longer trustworthy
+    const revokedCount = await this.revokeRefreshTokenFamily(tokenRecord.family_id);
+
+    await this.recordSecurityEvent(tokenRecord.account_id, 'refresh_token_reuse', ipAddress, {
+      family_id: tokenRecord.family_id,
+      refresh_token_id: tokenRecord.id,
+      revoked_tokens: revokedCount
+    });
+
+    return true;
+  }
+
   static async logout(refreshToken: string): Promise<boolean> {
     return await this.revokeRefreshToken(refreshToken);
   }
 
   static async logoutAll(accountId: number): Promise<void> {
     await this.revokeAllRefreshTokens(accountId);
+
+    // Access tokens already handed out must stop working right away, not when they expire
+    await TokenRevocationService.revokeAllAccessTokens(accountId);
     
     // Also clear any cached sessions in Redis
     const pattern = `session:${accountId}:*`;
@@ -233,6 +775,21 @@ export class AuthService {
   }
 
   // Rate limiting and security
+  static async recordSecurityEvent(
+    accountId: number,
+    eventType: string,
+    ipAddress?: string,
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    const query = `
+      INSERT INTO security_events (account_id, event_type, ip_address, details)
+      VALUES (?, ?, ?, ?)
+    `;
+
+    await pool.execute(query, [accountId, eventType, ipAddress || null, details ? JSON.stringify(details) : null]);
+    console.warn(`Security event ${eventType} for account:`, accountId);
+  }
+
   static async recordLoginAttempt(email: string, success: boolean, ipAddress?: string): Promise<void> {
     const key = `login_attempts:${email}:${ipAddress}`;
     const attempts = await redisClient.get(key);
@@ -258,4 +815,64 @@ export class AuthService {
     const attempts = await this.getLoginAttempts(email, ipAddress);
     return attempts >= 5; // Lock after 5 failed attempts
   }
+
+  // Wrong passwords and wrong one-time or second-factor codes all count towards the account lock
+  static async recordAccountFailure(account: Account, ipAddress?: string): Promise<void> {
+    await OutboxService.enqueue('webhook.event', {
+      type: 'login.failed',
+      data: { account_id: account.id, email: account.email, ip_address: ipAddress ?? null }
+    });
+
+    // Guesses against a locked account would only lengthen the next lock
+    if (LockoutService.getLockedUntil(account)) return;
+
+    const lockedUntil = await LockoutService.recordFailure(account);
+    if (!lockedUntil) return;
+
+    await this.recordSecurityEvent(account.id, 'account_locked', ipAddress, {
+      locked_until: lockedUntil.toISOString()
+    });
+
+    await OutboxService.enqueue('email.account_locked', {
+      email: account.email,
+      first_name: account.first_name,
+      locked_until: lockedUntil.toISOString(),
+      ip_address: ipAddress,
+      locale: account.preferred_locale
+    });
+  }
+
+  private static async enqueuePasswordChanged(
+    account: Account,
+    event: 'password.changed' | 'password.reset',
+    ipAddress: string | undefined,
+    connection: PoolConnection
+  ): Promise<void> {
+    await OutboxService.enqueue('webhook.event', {
+      type: event,
+      data: { account_id: account.id }
+    }, connection);
+    await OutboxService.enqueue('email.password_changed', {
+      email: account.email,
+      first_name: account.first_name,
+      ip_address: ipAddress,
+      locale: account.preferred_locale
+    }, connection);
+  }
+
+  private static async inTransaction<T>(work: (connection: PoolConnection) => Promise<T>): Promise<T> {
+    const connection = await pool.getConnection();
+
+    try {
+      await connection.beginTransaction();
+      const result = await work(connection);
+      await connection.commit();
+      return result;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
 }
@@ -0,0 +1,182 @@
+import {
+  EmailLocale,
+  EmailLocaleFile,
+  EmailTemplateContent,
+  EmailTemplateInfo,
+  EmailTemplateName,
+  EmailTemplateVariables,
+  ParsedUserAgent,
+  RenderedEmail
+} from '../types';
+import { EMAIL_ACCENT_COLORS, renderEmailLayout } from '../templates/email/layout';
+import vi from '../templates/email/vi';
+import en from '../templates/email/en';
+
+// The typed records below make the compiler check that every locale and template is listed; lookups go
+// through Maps built from them, so a name that came with a request can never reach a prototype property
+const toMap = <K extends string, V>(record: Record<K, V>): Map<K, V> => new Map(Object.entries(record) as [K, V][]);
+
+const lookup = <K extends string, V>(map: Map<K, V>, key: K): V => {
+  const value = map.get(key);
+  if (value === undefined) {
+    throw new Error(`Unknown email template key: ${key}`);
+  }
+  return value;
+};
+
+const LOCALE_FILES = toMap<EmailLocale, EmailLocaleFile>({ vi, en });
+
+const LOCALE_TEMPLATES = new Map(
+  [...LOCALE_FILES].map(([locale, file]) => [locale, toMap<EmailTemplateName, EmailTemplateContent>(file.templates)])
+);
+
+const DATE_LOCALES = toMap<EmailLocale, string>({ vi: 'vi-VN', en: 'en-US' });
+
+const ACCENT_COLORS = toMap<EmailTemplateName, string>(EMAIL_ACCENT_COLORS);
+
+// Variables each template expects besides the ones every template gets (app_name, year)
+const TEMPLATE_VARIABLES = toMap<EmailTemplateName, string[]>({
+  verification: ['first_name', 'verification_url'],
+  password_reset: ['first_name', 'reset_url'],
+  magic_link: ['first_name', 'login_url'],
+  otp: ['first_name', 'code'],
+  password_changed: ['first_name', 'email', 'time', 'ip_address'],
+  welcome: ['first_name', 'client_url'],
+  recovery_code_used: ['first_name', 'time', 'ip_address', 'remaining_codes'],
+  account_locked: ['first_name', 'time', 'ip_address', 'locked_until'],
+  new_device_login: ['first_name', 'time', 'device', 'ip_address', 'secure_url'],
+  passkey_added: ['first_name', 'time', 'passkey_name', 'ip_address']
+});
+
+// Made-up values the preview endpoint fills the templates with
+const SAMPLE_VARIABLES: EmailTemplateVariables = {
+  first_name: 'Minh',
+  email: 'minh@example.com',
+  verification_url: 'https://example.com/verify-email?token=sample-token',
+  reset_url: 'https://example.com/reset-password?token=sample-token',
+  login_url: 'https://example.com/magic-link?token=sample-token',
+  secure_url: 'https://example.com/secure-account?token=sample-token',
+  client_url: 'https://example.com',
+  code: '123456',
+  ip_address: '203.0.113.10',
+  remaining_codes: 7,
+  passkey_name: 'MacBook Touch ID'
+};
+
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+const HTML_ESCAPES = new Map([
+  ['&', '&amp;'],
+  ['<', '&lt;'],
+  ['>', '&gt;'],
+  ['"', '&quot;'],
+  ["'", '&#39;']
+]);
+
+const escapeHtml = (value: string): string => value.replace(/[&<>"']/g, char => HTML_ESCAPES.get(char) ?? char);
+
+const isSet = (value: EmailTemplateVariables[string]): boolean =>
+  value !== undefined && value !== null && value !== '';
+
+// Sections go first so the variables inside a kept section are filled in with the rest
+const interpolate = (
+  source: string,
+  variables: EmailTemplateVariables,
+  escape: (value: string) => string
+): string => {
+  const values = new Map(Object.entries(variables));
+
+  return source
+    .replace(SECTION_PATTERN, (_match, name: string, body: string) => isSet(values.get(name)) ? body : '')
+    .replace(VARIABLE_PATTERN, (_match, name: string) => {
+      const value = values.get(name);
+      return isSet(value) ? escape(String(value)) : '';
+    });
+};
+
+const plain = (value: string): string => value;
+
+// The copy of every email lives in src/templates/email, one file per locale. Adding a language
+// means adding a file with the same templates and registering it in LOCALE_FILES
+export class EmailTemplateService {
+  static readonly SUPPORTED_LOCALES = [...LOCALE_FILES.keys()];
+  static readonly TEMPLATE_NAMES = [...TEMPLATE_VARIABLES.keys()];
+
+  static getDefaultLocale(): EmailLocale {
+    return this.isSupportedLocale(process.env.DEFAULT_LOCALE) ? process.env.DEFAULT_LOCALE : 'vi';
+  }
+
+  static isSupportedLocale(locale: unknown): locale is EmailLocale {
+    return typeof locale === 'string' && LOCALE_FILES.has(locale as EmailLocale);
+  }
+
+  static isTemplateName(name: unknown): name is EmailTemplateName {
+    return typeof name === 'string' && TEMPLATE_VARIABLES.has(name as EmailTemplateName);
+  }
+
+  // Accounts created before preferred_locale existed, or with a locale since removed, get the default
+  static resolveLocale(locale?: string | null): EmailLocale {
+    return this.isSupportedLocale(locale) ? locale : this.getDefaultLocale();
+  }
+
+  // Variables are HTML-escaped in the html part and left as they are in the subject and text parts
+  static render(name: EmailTemplateName, locale: string | null | undefined, variables: EmailTemplateVariables): RenderedEmail {
+    const resolved = this.resolveLocale(locale);
+    const { strings } = lookup(LOCALE_FILES, resolved);
+    const template = lookup(lookup(LOCALE_TEMPLATES, resolved), name);
+    const appName = process.env.APP_NAME || 'Volcanion Auth';
+
+    const values: EmailTemplateVariables = {
+      app_name: appName,
+      year: new Date().getFullYear(),
+      ...variables,
+      first_name: isSet(variables.first_name) ? variables.first_name : strings.friend
+    };
+
+    const html = renderEmailLayout({
+      lang: resolved,
+      appName: escapeHtml(appName),
+      title: interpolate(template.title, values, escapeHtml),
+      content: interpolate(template.html, values, escapeHtml),
+      footer: interpolate(strings.footer, values, escapeHtml),
+      accent: lookup(ACCENT_COLORS, name)
+    });
+
+    return {
+      subject: interpolate(template.subject, values, plain),
+      html,
+      text: `${interpolate(template.text, values, plain)}\n\n--\n${interpolate(strings.footer, values, plain)}\n`
+    };
+  }
+
+  static formatDate(date: Date, locale?: string | null): string {
+    return date.toLocaleString(lookup(DATE_LOCALES, this.resolveLocale(locale)));
+  }
+
+  static formatDevice(device: Pick<ParsedUserAgent, 'browser' | 'os'>, locale?: string | null): string {
+    const { strings } = lookup(LOCALE_FILES, this.resolveLocale(locale));
+    return [device.browser, device.os].filter(Boolean).join(strings.device_separator) || strings.unknown_device;
+  }
+
+  static listTemplates(): EmailTemplateInfo[] {
+    return [...TEMPLATE_VARIABLES].map(([name, variables]) => ({
+      name,
+      locales: this.SUPPORTED_LOCALES,
+      variables
+    }));
+  }
+
+  // Renders a template with sample values, for checking copy and layout without sending anything
+  static preview(name: EmailTemplateName, locale?: string | null): RenderedEmail {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + 15 * 60 * 1000);
+
+    return this.render(name, locale, {
+      ...SAMPLE_VARIABLES,
+      time: this.formatDate(now, locale),
+      locked_until: this.formatDate(lockedUntil, locale),
+      device: this.formatDevice({ browser: 'Chrome', os: 'Windows' }, locale)
+    });
+  }
+}
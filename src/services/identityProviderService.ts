@@ -0,0 +1,267 @@
+import crypto from 'crypto';
+import { redisClient } from '../config/database';
+import {
+  ExternalProfile,
+  IdentityProviderConfig,
+  IdentityProviderHttpClient,
+  IdentityProviderHttpResponse,
+  SocialLoginState
+} from '../types';
+import { PasswordUtils } from '../utils';
+
+export class IdentityProviderError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'IdentityProviderError';
+  }
+}
+
+type ProviderPreset = Omit<IdentityProviderConfig, 'clientId' | 'clientSecret'>;
+
+// Enabled by setting SOCIAL_<NAME>_CLIENT_ID and SOCIAL_<NAME>_CLIENT_SECRET
+const PROVIDER_PRESETS = new Map<string, ProviderPreset>([
+  ['google', {
+    name: 'google',
+    displayName: 'Google',
+    authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    userinfoUrl: 'https://openidconnect.googleapis.com/v1/userinfo',
+    scope: 'openid email profile',
+    profileMapping: {
+      subject: 'sub',
+      email: 'email',
+      emailVerified: 'email_verified',
+      firstName: 'given_name',
+      lastName: 'family_name'
+    }
+  }],
+  ['github', {
+    name: 'github',
+    displayName: 'GitHub',
+    authorizationUrl: 'https://github.com/login/oauth/authorize',
+    tokenUrl: 'https://github.com/login/oauth/access_token',
+    userinfoUrl: 'https://api.github.com/user',
+    scope: 'read:user user:email',
+    profileMapping: { subject: 'id', email: 'email', name: 'name' },
+    // The public profile address may be unverified; the primary verified one comes from here
+    emailsUrl: 'https://api.github.com/user/emails'
+  }],
+  ['facebook', {
+    name: 'facebook',
+    displayName: 'Facebook',
+    authorizationUrl: 'https://www.facebook.com/dialog/oauth',
+    tokenUrl: 'https://graph.facebook.com/oauth/access_token',
+    userinfoUrl: 'https://graph.facebook.com/me?fields=id,email,first_name,last_name',
+    scope: 'email public_profile',
+    // The Graph API has no verified flag, so its addresses are never trusted for linking
+    profileMapping: { subject: 'id', email: 'email', firstName: 'first_name', lastName: 'last_name' }
+  }]
+]);
+
+const readResponse = async (response: Response): Promise<IdentityProviderHttpResponse> => {
+  const body: unknown = await response.json().catch(() => ({}));
+  return { status: response.status, body: body && typeof body === 'object' ? body as Record<string, unknown> : {} };
+};
+
+const fetchHttpClient: IdentityProviderHttpClient = {
+  async postForm(url, form) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: new URLSearchParams(form).toString(),
+      signal: AbortSignal.timeout(10000)
+    });
+    return readResponse(response);
+  },
+
+  async getJson(url, accessToken) {
+    const response = await fetch(url, {
+      headers: {
+        Accept: 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+        // GitHub rejects API calls without one
+        'User-Agent': process.env.APP_NAME || 'Volcanion Auth'
+      },
+      signal: AbortSignal.timeout(10000)
+    });
+    return readResponse(response);
+  }
+};
+
+export class IdentityProviderService {
+  static readonly STATE_TTL_SECONDS = 600;
+
+  private static httpClient: IdentityProviderHttpClient = fetchHttpClient;
+  private static registeredProviders = new Map<string, IdentityProviderConfig>();
+
+  static setHttpClient(client: IdentityProviderHttpClient): void {
+    this.httpClient = client;
+  }
+
+  // Providers registered in code take precedence over the built-in presets
+  static registerProvider(config: IdentityProviderConfig): void {
+    this.registeredProviders.set(config.name, config);
+  }
+
+  static getProvider(name: string): IdentityProviderConfig | null {
+    const registered = this.registeredProviders.get(name);
+    if (registered) return registered;
+
+    const preset = PROVIDER_PRESETS.get(name);
+    if (!preset) return null;
+
+    const envPrefix = `SOCIAL_${name.toUpperCase()}`;
+    const clientId = process.env[`${envPrefix}_CLIENT_ID`];
+    const clientSecret = process.env[`${envPrefix}_CLIENT_SECRET`];
+    if (!clientId || !clientSecret) return null;
+
+    return {
+      ...preset,
+      clientId,
+      clientSecret,
+      authorizationUrl: process.env[`${envPrefix}_AUTHORIZATION_URL`] || preset.authorizationUrl,
+      tokenUrl: process.env[`${envPrefix}_TOKEN_URL`] || preset.tokenUrl,
+      userinfoUrl: process.env[`${envPrefix}_USERINFO_URL`] || preset.userinfoUrl,
+      scope: process.env[`${envPrefix}_SCOPE`] || preset.scope
+    };
+  }
+
+  static listProviders(): IdentityProviderConfig[] {
+    const names = new Set([...PROVIDER_PRESETS.keys(), ...this.registeredProviders.keys()]);
+
+    return Array.from(names)
+      .map(name => this.getProvider(name))
+      .filter((provider): provider is IdentityProviderConfig => provider !== null);
+  }
+
+  // The provider sends the browser back to the login UI, which posts the code and state to the callback API
+  static getRedirectUri(name: string): string {
+    const baseUrl = (process.env.SOCIAL_CALLBACK_URL || `${process.env.CLIENT_URL}/auth/social`).replace(/\/+$/, '');
+    return `${baseUrl}/${name}/callback`;
+  }
+
+  static async createAuthorizationUrl(name: string, accountId?: number): Promise<string> {
+    const provider = this.requireProvider(name);
+
+    const state = PasswordUtils.generateSecureToken();
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const loginState: SocialLoginState = { provider: provider.name, codeVerifier, ...(accountId && { accountId }) };
+
+    await redisClient.setEx(this.stateKey(state), this.STATE_TTL_SECONDS, JSON.stringify(loginState));
+
+    const url = new URL(provider.authorizationUrl);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', this.getRedirectUri(provider.name));
+    url.searchParams.set('scope', provider.scope);
+    url.searchParams.set('state', state);
+    url.searchParams.set('code_challenge', crypto.createHash('sha256').update(codeVerifier).digest('base64url'));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return url.toString();
+  }
+
+  // accountId must be the one the state was created for, so a link flow cannot be finished as a login or by someone else
+  static async fetchProfile(name: string, code: string, state: string, accountId?: number): Promise<ExternalProfile> {
+    const provider = this.requireProvider(name);
+
+    const loginState = await this.consumeState(state);
+    if (!loginState || loginState.provider !== provider.name || loginState.accountId !== accountId) {
+      throw new IdentityProviderError('Phiên đăng nhập không hợp lệ hoặc đã hết hạn');
+    }
+
+    const tokenResponse = await this.httpClient.postForm(provider.tokenUrl, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.getRedirectUri(provider.name),
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: loginState.codeVerifier
+    });
+
+    const accessToken = tokenResponse.body.access_token;
+    if (tokenResponse.status !== 200 || typeof accessToken !== 'string') {
+      throw new IdentityProviderError('Mã xác thực từ nhà cung cấp không hợp lệ hoặc đã hết hạn');
+    }
+
+    const userinfoResponse = await this.httpClient.getJson(provider.userinfoUrl, accessToken);
+    if (userinfoResponse.status !== 200) {
+      throw new IdentityProviderError('Không thể lấy thông tin tài khoản từ nhà cung cấp', 502);
+    }
+
+    const profile = this.mapProfile(provider, userinfoResponse.body);
+    if (!provider.emailsUrl) return profile;
+
+    return { ...profile, ...await this.fetchVerifiedEmail(provider.emailsUrl, accessToken) };
+  }
+
+  static mapProfile(provider: IdentityProviderConfig, claims: Record<string, unknown>): ExternalProfile {
+    const mapping = provider.profileMapping;
+    const values = new Map(Object.entries(claims));
+    const read = (field?: string): string | undefined => {
+      const value = field ? values.get(field) : undefined;
+      return typeof value === 'string' || typeof value === 'number' ? String(value).trim() || undefined : undefined;
+    };
+
+    const subject = read(mapping.subject);
+    if (!subject) {
+      throw new IdentityProviderError('Nhà cung cấp không trả về định danh người dùng', 502);
+    }
+
+    const email = read(mapping.email)?.toLowerCase();
+    // Some providers send the flag as a string
+    const verifiedClaim = mapping.emailVerified ? claims[mapping.emailVerified] : undefined;
+    const emailVerified = Boolean(email) && (provider.trustEmail === true || verifiedClaim === true || verifiedClaim === 'true');
+
+    let firstName = read(mapping.firstName);
+    let lastName = read(mapping.lastName);
+    const fullName = read(mapping.name);
+    if (!firstName && !lastName && fullName) {
+      const separator = fullName.indexOf(' ');
+      firstName = separator === -1 ? fullName : fullName.substring(0, separator);
+      lastName = separator === -1 ? undefined : fullName.substring(separator + 1).trim();
+    }
+
+    return { provider: provider.name, subject, email, emailVerified, firstName, lastName };
+  }
+
+  // Without a verified address the profile keeps its email but cannot be linked by it
+  private static async fetchVerifiedEmail(
+    emailsUrl: string,
+    accessToken: string
+  ): Promise<Pick<ExternalProfile, 'email' | 'emailVerified'>> {
+    const response = await this.httpClient.getJson(emailsUrl, accessToken);
+    const entries: unknown[] = response.status === 200 && Array.isArray(response.body) ? response.body : [];
+    const verified = entries.filter((entry): entry is { email: string; primary?: boolean } => {
+      const fields = entry && typeof entry === 'object' ? entry as Record<string, unknown> : {};
+      return fields.verified === true && typeof fields.email === 'string';
+    });
+    const chosen = verified.find(entry => entry.primary === true) || verified[0];
+
+    return chosen
+      ? { email: chosen.email.trim().toLowerCase(), emailVerified: true }
+      : { emailVerified: false };
+  }
+
+  private static requireProvider(name: string): IdentityProviderConfig {
+    const provider = this.getProvider(name);
+    if (!provider) {
+      throw new IdentityProviderError('Nhà cung cấp đăng nhập không được hỗ trợ', 404);
+    }
+    return provider;
+  }
+
+  // Single use: the state is deleted before the code is exchanged
+  private static async consumeState(state: string): Promise<SocialLoginState | null> {
+    const key = this.stateKey(state);
+    const data = await redisClient.get(key);
+    if (!data) return null;
+
+    const deleted = await redisClient.del(key);
+    return deleted > 0 ? JSON.parse(data) : null;
+  }
+
+  private static stateKey(state: string): string {
+    return `social_state:${PasswordUtils.hashToken(state)}`;
+  }
+}
@@ -0,0 +1,265 @@
+import crypto from 'crypto';
+import { RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import { AuditExportKeyRecord, JwtAlgorithm, JwtSigningKey, SigningKeyInfo, SigningKeyRecord } from '../types';
+import { JwtUtils, EncryptionUtils, DateUtils } from '../utils';
+import { AuditService } from './auditService';
+
+export class KeyRingService {
+  static readonly REFRESH_INTERVAL_MS = 60 * 1000; // 1 minute
+  static readonly DEFAULT_PROMOTION_DELAY_SECONDS = 600; // longer than the JWKS cache lifetime
+  static readonly EXPORT_KEY_ALGORITHM: JwtAlgorithm = 'ES256';
+  static readonly ROTATION_LOCK = 'jwt_signing_key_rotation';
+
+  private static refreshTimer: NodeJS.Timeout | null = null;
+
+  // Scheduler
+  static startScheduler(): void {
+    if (this.refreshTimer) return;
+
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch(error => console.error('Key ring refresh error:', error));
+    }, this.REFRESH_INTERVAL_MS);
+    this.refreshTimer.unref();
+  }
+
+  static stopScheduler(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  static async refresh(): Promise<void> {
+    await this.processSchedule();
+    await this.loadKeyRing();
+    await this.loadExportKeys();
+  }
+
+  // Loads every key that may still appear on a live token into JwtUtils
+  static async loadKeyRing(): Promise<void> {
+    const query = `
+      SELECT * FROM jwt_signing_keys
+      WHERE status IN ('pending', 'active') OR (status = 'retired' AND expires_at > NOW())
+      ORDER BY activates_at DESC
+    `;
+    const [rows] = await pool.execute<RowDataPacket[]>(query);
+    const records = rows as SigningKeyRecord[];
+
+    const keys = records.map(record => ({ status: record.status, key: this.toSigningKey(record) }));
+
+    // Newest active key signs; the previous one is only active until its promotion completes
+    const signing = keys.find(({ status }) => status === 'active');
+
+    JwtUtils.setKeyRing({
+      signingKey: signing ? signing.key : null,
+      verificationKeys: keys.map(({ key }) => key)
+    });
+  }
+
+  // Audit export keys never retire: a signed export must stay verifiable through the JWKS for as long
+  // as anyone keeps it. The first key is created on demand, whatever JWT_ALGORITHM says
+  static async loadExportKeys(): Promise<void> {
+    let records = await this.findExportKeys();
+
+    if (records.length === 0) {
+      const { kid, privateKey, publicKey } = await this.generateKeyMaterial(this.EXPORT_KEY_ALGORITHM);
+      await pool.execute(
+        'INSERT INTO audit_export_keys (kid, algorithm, private_key, public_key) VALUES (?, ?, ?, ?)',
+        [kid, this.EXPORT_KEY_ALGORITHM, EncryptionUtils.encrypt(privateKey), publicKey || null]
+      );
+      records = await this.findExportKeys();
+    }
+
+    JwtUtils.setAuditExportKeys(records.map(record => this.toSigningKey(record)));
+  }
+
+  static async processSchedule(): Promise<void> {
+    const query = `
+      SELECT id FROM jwt_signing_keys
+      WHERE status = 'pending' AND activates_at <= NOW()
+      ORDER BY activates_at ASC
+    `;
+    const [rows] = await pool.execute<RowDataPacket[]>(query);
+
+    for (const row of rows) {
+      await this.promote(row.id);
+    }
+
+    await this.scheduleAutomaticRotation();
+  }
+
+  static async promote(keyId: number): Promise<boolean> {
+    const [result] = await pool.execute(
+      "UPDATE jwt_signing_keys SET status = 'active' WHERE id = ? AND status = 'pending'",
+      [keyId]
+    );
+
+    // Another instance already promoted it
+    if ((result as any).affectedRows === 0) return false;
+
+    // The previous signing key keeps verifying until the last token it signed has expired. Other
+    // instances keep signing with it until their next refresh, so that interval is added on top
+    const retireQuery = `
+      UPDATE jwt_signing_keys
+      SET status = 'retired', retired_at = NOW(), expires_at = DATE_ADD(NOW(), INTERVAL ? SECOND)
+      WHERE status = 'active' AND id <> ?
+    `;
+    await pool.execute(retireQuery, [JwtUtils.getAccessTokenExpiresIn() + this.REFRESH_INTERVAL_MS / 1000, keyId]);
+
+    return true;
+  }
+
+  // Rotation
+  static async rotate(activateInSeconds: number = this.getPromotionDelay()): Promise<SigningKeyInfo> {
+    const algorithm = JwtUtils.getAlgorithm();
+    const { kid, privateKey, publicKey } = await this.generateKeyMaterial(algorithm);
+    const activatesAt = new Date(Date.now() + activateInSeconds * 1000);
+
+    // New keys are published in the JWKS before they sign anything
+    const query = `
+      INSERT INTO jwt_signing_keys (kid, algorithm, private_key, public_key, status, activates_at)
+      VALUES (?, ?, ?, ?, 'pending', ?)
+    `;
+    const [result] = await pool.execute(query, [
+      kid,
+      algorithm,
+      EncryptionUtils.encrypt(privateKey),
+      publicKey || null,
+      activatesAt
+    ]);
+    const keyId = (result as any).insertId;
+
+    if (activateInSeconds === 0) {
+      await this.promote(keyId);
+    }
+
+    await this.loadKeyRing();
+
+    const key = await this.getKeyById(keyId);
+    if (!key) {
+      throw new Error(`Signing key ${keyId} was not found after it was created`);
+    }
+
+    return key;
+  }
+
+  static async getKeyById(keyId: number): Promise<SigningKeyInfo | null> {
+    const query = `
+      SELECT id, kid, algorithm, public_key, status, activates_at, retired_at, expires_at, created_at
+      FROM jwt_signing_keys
+      WHERE id = ?
+    `;
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [keyId]);
+
+    return rows.length > 0 ? rows[0] as SigningKeyInfo : null;
+  }
+
+  static async listKeys(): Promise<SigningKeyInfo[]> {
+    const query = `
+      SELECT id, kid, algorithm, public_key, status, activates_at, retired_at, expires_at, created_at
+      FROM jwt_signing_keys
+      ORDER BY activates_at DESC
+    `;
+    const [rows] = await pool.execute<RowDataPacket[]>(query);
+
+    return rows as SigningKeyInfo[];
+  }
+
+  // Every instance runs the schedule; the named lock keeps two of them from both seeing no successor and rotating
+  private static async scheduleAutomaticRotation(): Promise<void> {
+    const rotationDays = parseInt(process.env.JWT_KEY_ROTATION_DAYS || '0');
+    if (!rotationDays) return;
+
+    const connection = await pool.getConnection();
+
+    try {
+      const [locks] = await connection.execute<RowDataPacket[]>('SELECT GET_LOCK(?, 0) as acquired', [this.ROTATION_LOCK]);
+
+      // Another instance is checking right now
+      if (locks[0].acquired !== 1) return;
+
+      try {
+        await this.rotateWhenDue(rotationDays);
+      } finally {
+        await connection.execute('SELECT RELEASE_LOCK(?)', [this.ROTATION_LOCK]);
+      }
+    } finally {
+      connection.release();
+    }
+  }
+
+  private static async rotateWhenDue(rotationDays: number): Promise<void> {
+    const query = `
+      SELECT
+        (SELECT COUNT(*) FROM jwt_signing_keys WHERE status = 'pending') as pending_count,
+        (SELECT MAX(activates_at) FROM jwt_signing_keys WHERE status = 'active') as active_since
+    `;
+    const [rows] = await pool.execute<RowDataPacket[]>(query);
+    const { pending_count, active_since } = rows[0];
+
+    // A successor is already scheduled
+    if (pending_count > 0) return;
+
+    if (!active_since || DateUtils.addDays(new Date(active_since), rotationDays) <= new Date()) {
+      const key = await this.rotate();
+
+      // Scheduled rotations have no actor
+      await AuditService.record({
+        action: 'signing_key_rotated',
+        changes: AuditService.diff(null, { kid: key.kid, algorithm: key.algorithm, activates_at: key.activates_at })
+      });
+    }
+  }
+
+  private static async findExportKeys(): Promise<AuditExportKeyRecord[]> {
+    const [rows] = await pool.execute<RowDataPacket[]>('SELECT * FROM audit_export_keys ORDER BY id DESC');
+    return rows as AuditExportKeyRecord[];
+  }
+
+  private static getPromotionDelay(): number {
+    const delay = parseInt(process.env.JWT_KEY_PROMOTION_DELAY_SECONDS || '');
+    return isNaN(delay) ? this.DEFAULT_PROMOTION_DELAY_SECONDS : delay;
+  }
+
+  private static async generateKeyMaterial(
+    algorithm: JwtAlgorithm
+  ): Promise<{ kid: string; privateKey: string; publicKey?: string }> {
+    if (algorithm === 'HS256') {
+      return {
+        kid: crypto.randomUUID(),
+        privateKey: crypto.randomBytes(64).toString('base64')
+      };
+    }
+
+    const keyObject = await new Promise<crypto.KeyObject>((resolve, reject) => {
+      const callback = (error: Error | null, publicKey: crypto.KeyObject, privateKey: crypto.KeyObject) => {
+        if (error) reject(error);
+        else resolve(privateKey);
+      };
+
+      if (algorithm === 'RS256') {
+        crypto.generateKeyPair('rsa', { modulusLength: 2048 }, callback);
+      } else {
+        crypto.generateKeyPair('ec', { namedCurve: 'prime256v1' }, callback);
+      }
+    });
+
+    const privateKey = keyObject.export({ type: 'pkcs8', format: 'pem' }).toString();
+    const signingKey = JwtUtils.createSigningKey(privateKey, algorithm);
+
+    return {
+      kid: signingKey.kid,
+      privateKey,
+      publicKey: signingKey.publicKey.export({ type: 'spki', format: 'pem' }).toString()
+    };
+  }
+
+  private static toSigningKey(record: SigningKeyRecord | AuditExportKeyRecord): JwtSigningKey {
+    const privateKey = EncryptionUtils.decrypt(record.private_key);
+
+    return record.algorithm === 'HS256'
+      ? JwtUtils.createSecretSigningKey(privateKey, record.kid)
+      : JwtUtils.createSigningKey(privateKey, record.algorithm, record.kid);
+  }
+}
@@ -0,0 +1,85 @@
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { pool, redisClient } from '../config/database';
+import { DeviceAlertData } from '../types';
+import { PasswordUtils, UserAgentUtils } from '../utils';
+
+// Devices an account has signed in from, so a password login from somewhere new can be reported
+// to the owner. A device is the browser, OS and device type (not their versions, which change on
+// every update) together with the network of the IP address. Without a GeoIP database the network
+// stands in for the country: the /16 of an IPv4 address or the /48 of an IPv6 address
+export class KnownDeviceService {
+  static readonly ALERT_TOKEN_TTL_SECONDS = 7 * 24 * 3600; // As long as a refresh token lives
+
+  static fingerprint(deviceInfo?: string, ipAddress?: string): string {
+    const { browser, os, device } = UserAgentUtils.parse(deviceInfo);
+
+    return PasswordUtils.hashToken([browser, os, device, this.getNetwork(ipAddress)].join('|'));
+  }
+
+  // Returns the id of a device the account has not used before. The very first device of an
+  // account is recorded without being reported, since there is nothing to compare it with
+  static async recordLogin(accountId: number, deviceInfo?: string, ipAddress?: string): Promise<number | null> {
+    const query = `
+      INSERT INTO known_devices (account_id, fingerprint, device_info, ip_address)
+      VALUES (?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE device_info = VALUES(device_info), ip_address = VALUES(ip_address), last_seen_at = NOW()
+    `;
+    const [result] = await pool.execute<ResultSetHeader>(query, [
+      accountId,
+      this.fingerprint(deviceInfo, ipAddress),
+      deviceInfo || null,
+      ipAddress || null
+    ]);
+
+    // MySQL reports 1 affected row for an insert and 2 for an update
+    if (result.affectedRows !== 1) return null;
+
+    const [rows] = await pool.execute<RowDataPacket[]>(
+      'SELECT COUNT(*) AS count FROM known_devices WHERE account_id = ?',
+      [accountId]
+    );
+
+    return rows[0].count > 1 ? result.insertId : null;
+  }
+
+  static async forget(accountId: number, deviceId: number): Promise<boolean> {
+    const query = 'DELETE FROM known_devices WHERE id = ? AND account_id = ?';
+    const [result] = await pool.execute<ResultSetHeader>(query, [deviceId, accountId]);
+
+    return result.affectedRows > 0;
+  }
+
+  static async createAlertToken(accountId: number, deviceId: number): Promise<string> {
+    const token = PasswordUtils.generateSecureToken();
+    const data: DeviceAlertData = { accountId, deviceId };
+
+    await redisClient.setEx(this.alertKey(token), this.ALERT_TOKEN_TTL_SECONDS, JSON.stringify(data));
+    return token;
+  }
+
+  // Single-use: of two concurrent clicks only the one that deletes the key gets the data
+  static async consumeAlertToken(token: string): Promise<DeviceAlertData | null> {
+    const key = this.alertKey(token);
+    const data = await redisClient.get(key);
+    if (!data) return null;
+
+    const deleted = await redisClient.del(key);
+    return deleted > 0 ? JSON.parse(data) as DeviceAlertData : null;
+  }
+
+  private static getNetwork(ipAddress?: string): string {
+    if (!ipAddress) return '';
+
+    // IPv4 clients of a dual-stack server show up as ::ffff:a.b.c.d
+    const address = ipAddress.replace(/^::ffff:/i, '');
+    if (address.includes('.')) {
+      return address.split('.').slice(0, 2).join('.');
+    }
+
+    return address.toLowerCase().split(':').slice(0, 3).join(':');
+  }
+
+  private static alertKey(token: string): string {
+    return `device_alert:${PasswordUtils.hashToken(token)}`;
+  }
+}
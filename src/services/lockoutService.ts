@@ -0,0 +1,97 @@
+import { RowDataPacket } from 'mysql2';
+import { pool, redisClient } from '../config/database';
+import { Account, LockedAccount } from '../types';
+import { DateUtils } from '../utils';
+
+// Account-level lockout. Failures are counted per account regardless of the IP they come from,
+// complementing the per email and IP limit in AuthService.isAccountLocked
+export class LockoutService {
+  static readonly MAX_FAILED_ATTEMPTS = 10;
+  static readonly FAILURE_WINDOW_SECONDS = 3600; // 1 hour
+  // Each lock in a row lasts longer, up to a day
+  static readonly LOCK_DURATIONS_MINUTES = [15, 60, 240, 1440];
+
+  static getLockedUntil(account: Account): Date | null {
+    if (!account.locked_until) return null;
+
+    const lockedUntil = new Date(account.locked_until);
+    return lockedUntil > new Date() ? lockedUntil : null;
+  }
+
+  // Returns the end of the lock when this failure locked the account
+  static async recordFailure(account: Account): Promise<Date | null> {
+    const key = this.failuresKey(account.id);
+    // INCR is atomic, so concurrent failures from a spray across IPs are all counted
+    const failures = await redisClient.incr(key);
+    await redisClient.expire(key, this.FAILURE_WINDOW_SECONDS);
+
+    if (failures < this.MAX_FAILED_ATTEMPTS) {
+      return null;
+    }
+
+    await redisClient.del(key);
+
+    const durations = this.LOCK_DURATIONS_MINUTES;
+    const minutes = durations[Math.min(account.lockout_count || 0, durations.length - 1)];
+    const lockedUntil = DateUtils.addMinutes(new Date(), minutes);
+
+    // Only the request that actually locks the account reports it, so the owner gets one notice
+    const query = `
+      UPDATE accounts SET locked_until = ?, lockout_count = lockout_count + 1
+      WHERE id = ? AND (locked_until IS NULL OR locked_until <= NOW())
+    `;
+    const [result] = await pool.execute(query, [lockedUntil, account.id]);
+
+    return (result as any).affectedRows > 0 ? lockedUntil : null;
+  }
+
+  // A successful login ends the escalation
+  static async reset(account: Account): Promise<void> {
+    await redisClient.del(this.failuresKey(account.id));
+
+    if (account.lockout_count || account.locked_until) {
+      await pool.execute('UPDATE accounts SET locked_until = NULL, lockout_count = 0 WHERE id = ?', [account.id]);
+    }
+  }
+
+  static async unlock(accountId: number): Promise<boolean> {
+    await redisClient.del(this.failuresKey(accountId));
+
+    const query = `
+      UPDATE accounts SET locked_until = NULL, lockout_count = 0, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND locked_until > NOW()
+    `;
+    const [result] = await pool.execute(query, [accountId]);
+
+    return (result as any).affectedRows > 0;
+  }
+
+  static async getLockedAccounts(page: number = 1, limit: number = 10) {
+    const offset = (page - 1) * limit;
+
+    const countQuery = 'SELECT COUNT(*) as total FROM accounts WHERE locked_until > NOW() AND is_active = 1';
+    const [countRows] = await pool.execute<RowDataPacket[]>(countQuery);
+    const total = countRows[0].total;
+
+    const query = `
+      SELECT id, email, first_name, last_name, locked_until, lockout_count
+      FROM accounts
+      WHERE locked_until > NOW() AND is_active = 1
+      ORDER BY locked_until DESC
+      LIMIT ? OFFSET ?
+    `;
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [limit, offset]);
+
+    return {
+      accounts: rows as LockedAccount[],
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  private static failuresKey(accountId: number): string {
+    return `login_failures:account:${accountId}`;
+  }
+}
@@ -0,0 +1,639 @@
+import crypto from 'crypto';
+import { RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import {
+  OAuthClient,
+  OAuthClientRecord,
+  OAuthClientWithSecret,
+  OAuthAuthorizationCode,
+  OAuthAuthorizationRequest,
+  OAuthAuthorizeDto,
+  OAuthConsent,
+  OAuthTokenRequestDto,
+  OAuthTokenResponse,
+  OAuthTokenActionDto,
+  OAuthTokenTypeHint,
+  OAuthIntrospectionResponse,
+  CreateOAuthClientDto,
+  AccessTokenPayload,
+  JwtTokens
+} from '../types';
+import { PasswordUtils, DateUtils, JwtUtils } from '../utils';
+import { AccountService } from './accountService';
+import { AuthService } from './authService';
+import { TokenRevocationService } from './tokenRevocationService';
+import { OidcService } from './oidcService';
+
+// Everything except the secret hash, which never leaves this service
+const CLIENT_COLUMNS = 'id, client_id, client_type, name, redirect_uris, scopes, is_active, created_by, created_at, updated_at';
+
+// Error codes from RFC 6749 sections 4.1.2.1 and 5.2
+export class OAuthError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly statusCode: number = 400,
+    // Errors found before the redirect URI is trusted must never be sent to it
+    public readonly redirectable: boolean = false
+  ) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+export class OAuthService {
+  static readonly AUTHORIZATION_CODE_TTL_MINUTES = 5;
+
+  // Client Registration
+  static async createClient(clientData: CreateOAuthClientDto, createdBy?: number): Promise<OAuthClientWithSecret> {
+    const clientId = crypto.randomUUID();
+    const clientType = clientData.client_type || 'public';
+    const scopes = clientData.scopes || [];
+
+    // Scopes written as resource:action stand for permissions, so they must name one that exists
+    const permissionScopes = scopes.filter(scope => scope.includes(':'));
+    const resolvedScopes = await this.resolvePermissionScopes(permissionScopes);
+    const unknownScope = permissionScopes.find(scope => !resolvedScopes.has(scope));
+    if (unknownScope) {
+      throw new OAuthError('invalid_scope', `Phạm vi không tương ứng với quyền hạn nào: ${unknownScope}`);
+    }
+
+    const clientSecret = clientType === 'confidential' ? PasswordUtils.generateSecureToken() : undefined;
+
+    const query = `
+      INSERT INTO oauth_clients (client_id, client_type, client_secret_hash, name, redirect_uris, scopes, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await pool.execute(query, [
+      clientId,
+      clientType,
+      clientSecret ? PasswordUtils.hashToken(clientSecret) : null,
+      clientData.name,
+      JSON.stringify(clientData.redirect_uris || []),
+      JSON.stringify(scopes),
+      createdBy || null
+    ]);
+
+    const client = await this.findClientById(clientId);
+    if (!client) {
+      throw new Error(`OAuth client ${clientId} was not found after it was created`);
+    }
+
+    // The secret is only stored hashed, so this is the one time it can be shown
+    return clientSecret ? { ...client, client_secret: clientSecret } : client;
+  }
+
+  static async findClientById(clientId: string): Promise<OAuthClient | null> {
+    const query = `SELECT ${CLIENT_COLUMNS} FROM oauth_clients WHERE client_id = ? AND is_active = 1`;
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [clientId]);
+
+    return rows.length > 0 ? rows[0] as OAuthClient : null;
+  }
+
+  // Includes the secret hash; only for authenticating the client
+  static async findClientRecord(clientId: string): Promise<OAuthClientRecord | null> {
+    const query = 'SELECT * FROM oauth_clients WHERE client_id = ? AND is_active = 1';
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [clientId]);
+
+    return rows.length > 0 ? rows[0] as OAuthClientRecord : null;
+  }
+
+  static async listClients(): Promise<OAuthClient[]> {
+    const query = `SELECT ${CLIENT_COLUMNS} FROM oauth_clients ORDER BY created_at DESC`;
+    const [rows] = await pool.execute<RowDataPacket[]>(query);
+
+    return rows as OAuthClient[];
+  }
+
+  static async deactivateClient(clientId: string): Promise<boolean> {
+    const query = 'UPDATE oauth_clients SET is_active = 0 WHERE client_id = ? AND is_active = 1';
+    const [result] = await pool.execute(query, [clientId]);
+
+    if ((result as any).affectedRows === 0) return false;
+
+    // Tokens already issued to the client must not outlive it
+    await pool.execute('UPDATE refresh_tokens SET is_revoked = 1 WHERE client_id = ?', [clientId]);
+    await TokenRevocationService.revokeAllClientAccessTokens(clientId);
+
+    return true;
+  }
+
+  static async rotateClientSecret(clientId: string): Promise<OAuthClientWithSecret | null> {
+    const client = await this.findClientById(clientId);
+    if (!client) return null;
+
+    if (client.client_type !== 'confidential') {
+      throw new OAuthError('invalid_request', 'Ứng dụng công khai không có client secret');
+    }
+
+    const clientSecret = PasswordUtils.generateSecureToken();
+    const query = 'UPDATE oauth_clients SET client_secret_hash = ? WHERE client_id = ? AND is_active = 1';
+    await pool.execute(query, [PasswordUtils.hashToken(clientSecret), clientId]);
+
+    // A rotation usually means the old secret leaked, so tokens minted with it go too
+    await TokenRevocationService.revokeAllClientAccessTokens(clientId);
+
+    return { ...client, client_secret: clientSecret };
+  }
+
+  // Maps resource:action scopes onto the names of active permissions; unknown scopes are left out
+  static async resolvePermissionScopes(scopes: string[]): Promise<Map<string, string>> {
+    if (scopes.length === 0) return new Map();
+
+    const placeholders = scopes.map(() => '?').join(', ');
+    const query = `
+      SELECT name, CONCAT(resource, ':', action) as scope
+      FROM permissions
+      WHERE is_active = 1 AND CONCAT(resource, ':', action) IN (${placeholders})
+    `;
+    const [rows] = await pool.execute<RowDataPacket[]>(query, scopes);
+
+    return new Map(rows.map(row => [row.scope as string, row.name as string]));
+  }
+
+  // Authorization Endpoint
+  static async validateAuthorizationRequest(request: OAuthAuthorizeDto): Promise<OAuthAuthorizationRequest> {
+    if (!request.client_id) {
+      throw new OAuthError('invalid_request', 'Thiếu client_id');
+    }
+
+    const client = await this.findClientById(request.client_id);
+    if (!client) {
+      throw new OAuthError('invalid_client', 'Ứng dụng không tồn tại hoặc đã bị vô hiệu hóa');
+    }
+
+    // Exact match only: prefix or wildcard matching enables open redirects
+    if (!request.redirect_uri || !client.redirect_uris.includes(request.redirect_uri)) {
+      throw new OAuthError('invalid_request', 'redirect_uri không khớp với ứng dụng đã đăng ký');
+    }
+
+    if (request.response_type !== 'code') {
+      throw new OAuthError('unsupported_response_type', 'Chỉ hỗ trợ response_type=code', 400, true);
+    }
+
+    // PKCE is mandatory for every client, confidential ones included
+    if (!request.code_challenge || !/^[A-Za-z0-9_-]{43}$/.test(request.code_challenge)) {
+      throw new OAuthError('invalid_request', 'Thiếu code_challenge hoặc code_challenge không hợp lệ', 400, true);
+    }
+
+    if (request.code_challenge_method !== 'S256') {
+      throw new OAuthError('invalid_request', 'Chỉ hỗ trợ code_challenge_method=S256', 400, true);
+    }
+
+    const scopes = this.resolveScopes(client, request.scope);
+    if (OidcService.isOpenIdRequest(scopes) && !OidcService.isEnabled()) {
+      throw new OAuthError('invalid_scope', 'OpenID Connect chưa được bật trên máy chủ này', 400, true);
+    }
+
+    return {
+      client,
+      redirectUri: request.redirect_uri,
+      scopes,
+      state: request.state,
+      codeChallenge: request.code_challenge,
+      nonce: request.nonce || undefined
+    };
+  }
+
+  static async createAuthorizationCode(accountId: number, request: OAuthAuthorizationRequest): Promise<string> {
+    const code = PasswordUtils.generateSecureToken();
+    const codeHash = PasswordUtils.hashToken(code);
+    const expiresAt = DateUtils.addMinutes(new Date(), this.AUTHORIZATION_CODE_TTL_MINUTES);
+
+    const query = `
+      INSERT INTO oauth_authorization_codes
+        (code_hash, client_id, account_id, redirect_uri, scope, code_challenge, code_challenge_method, nonce, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, 'S256', ?, ?)
+    `;
+
+    await pool.execute(query, [
+      codeHash,
+      request.client.client_id,
+      accountId,
+      request.redirectUri,
+      request.scopes.join(' '),
+      request.codeChallenge,
+      request.nonce || null,
+      expiresAt
+    ]);
+
+    return code;
+  }
+
+  static buildRedirectUrl(redirectUri: string, params: Record<string, string | undefined>): string {
+    const url = new URL(redirectUri);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        url.searchParams.set(key, value);
+      }
+    }
+
+    return url.toString();
+  }
+
+  // Consent
+  static async hasConsent(accountId: number, clientId: string, scopes: string[]): Promise<boolean> {
+    const consent = await this.findConsent(accountId, clientId);
+    if (!consent) return false;
+
+    const grantedScopes = this.parseScope(consent.scope);
+    return scopes.every(scope => grantedScopes.includes(scope));
+  }
+
+  static async saveConsent(accountId: number, clientId: string, scopes: string[]): Promise<void> {
+    // Consent accumulates: approving new scopes does not drop the ones granted earlier
+    const consent = await this.findConsent(accountId, clientId);
+    const grantedScopes = consent ? this.parseScope(consent.scope) : [];
+    const mergedScopes = Array.from(new Set([...grantedScopes, ...scopes]));
+
+    const query = `
+      INSERT INTO oauth_consents (account_id, client_id, scope)
+      VALUES (?, ?, ?)
+      ON DUPLICATE KEY UPDATE scope = VALUES(scope), updated_at = CURRENT_TIMESTAMP
+    `;
+
+    await pool.execute(query, [accountId, clientId, mergedScopes.join(' ')]);
+  }
+
+  static async findConsent(accountId: number, clientId: string): Promise<OAuthConsent | null> {
+    const query = 'SELECT * FROM oauth_consents WHERE account_id = ? AND client_id = ?';
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [accountId, clientId]);
+
+    return rows.length > 0 ? rows[0] as OAuthConsent : null;
+  }
+
+  static async listConsents(accountId: number): Promise<(OAuthConsent & { client_name: string })[]> {
+    const query = `
+      SELECT oc.*, c.name as client_name
+      FROM oauth_consents oc
+      JOIN oauth_clients c ON oc.client_id = c.client_id
+      WHERE oc.account_id = ?
+      ORDER BY oc.updated_at DESC
+    `;
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [accountId]);
+
+    return rows as (OAuthConsent & { client_name: string })[];
+  }
+
+  static async revokeConsent(accountId: number, clientId: string): Promise<boolean> {
+    const query = 'DELETE FROM oauth_consents WHERE account_id = ? AND client_id = ?';
+    const [result] = await pool.execute(query, [accountId, clientId]);
+
+    if ((result as any).affectedRows === 0) return false;
+
+    // Withdrawing consent also cuts off the client's long-lived access
+    await AuthService.revokeClientRefreshTokens(accountId, clientId);
+
+    return true;
+  }
+
+  // Token Endpoint
+  static async exchangeAuthorizationCode(
+    request: OAuthTokenRequestDto,
+    deviceInfo?: string,
+    ipAddress?: string
+  ): Promise<OAuthTokenResponse> {
+    const { code, redirect_uri, code_verifier } = request;
+    const client = await this.authenticateClient(request.client_id, request.client_secret);
+
+    if (!code || !redirect_uri || !code_verifier) {
+      throw new OAuthError('invalid_request', 'Thiếu code, redirect_uri hoặc code_verifier');
+    }
+
+    const record = await this.findAuthorizationCode(code);
+    if (!record || record.client_id !== client.client_id) {
+      throw new OAuthError('invalid_grant', 'Mã ủy quyền không hợp lệ hoặc đã hết hạn');
+    }
+
+    if (record.is_used) {
+      await this.revokeReplayedCode(record);
+      throw new OAuthError('invalid_grant', 'Mã ủy quyền đã được sử dụng');
+    }
+
+    if (record.redirect_uri !== redirect_uri) {
+      throw new OAuthError('invalid_grant', 'redirect_uri không khớp với yêu cầu ủy quyền');
+    }
+
+    if (!this.verifyCodeVerifier(code_verifier, record.code_challenge)) {
+      throw new OAuthError('invalid_grant', 'code_verifier không hợp lệ');
+    }
+
+    // Two concurrent exchanges can both get here; only one may win the update
+    const consumed = await this.consumeAuthorizationCode(record.id);
+    if (!consumed) {
+      await this.revokeReplayedCode(record);
+      throw new OAuthError('invalid_grant', 'Mã ủy quyền đã được sử dụng');
+    }
+
+    const account = await AccountService.findById(record.account_id);
+    if (!account) {
+      throw new OAuthError('invalid_grant', 'Tài khoản không tồn tại hoặc đã bị vô hiệu hóa');
+    }
+
+    // Signed first, so a server that cannot sign ID tokens fails before it hands out any token
+    const scopes = this.parseScope(record.scope);
+    const idToken = OidcService.isOpenIdRequest(scopes)
+      ? OidcService.createIdToken(account, client.client_id, scopes, record.nonce || undefined)
+      : undefined;
+
+    const tokens = await AuthService.issueTokens(account.id, account.email, 'oauth', deviceInfo, ipAddress, {
+      clientId: client.client_id,
+      scope: record.scope
+    });
+
+    return this.toTokenResponse(tokens, record.scope, idToken);
+  }
+
+  static async refreshAccessToken(request: OAuthTokenRequestDto, ipAddress?: string): Promise<OAuthTokenResponse> {
+    const client = await this.authenticateClient(request.client_id, request.client_secret);
+
+    if (!request.refresh_token) {
+      throw new OAuthError('invalid_request', 'Thiếu refresh_token');
+    }
+
+    const tokenRecord = await AuthService.findRefreshToken(request.refresh_token);
+    if (!tokenRecord) {
+      // A rotated-out token presented again still revokes its whole family
+      await AuthService.detectRefreshTokenReuse(request.refresh_token, ipAddress);
+      throw new OAuthError('invalid_grant', 'Refresh token không hợp lệ hoặc đã hết hạn');
+    }
+
+    // A client may only rotate refresh tokens it was issued itself
+    if (tokenRecord.client_id !== client.client_id) {
+      throw new OAuthError('invalid_grant', 'Refresh token không hợp lệ hoặc đã hết hạn');
+    }
+
+    // The granted scope is kept; asking for more than that is an error (RFC 6749 section 6)
+    const grantedScopes = this.parseScope(tokenRecord.scope);
+    if (request.scope && !this.parseScope(request.scope).every(scope => grantedScopes.includes(scope))) {
+      throw new OAuthError('invalid_scope', 'Phạm vi yêu cầu vượt quá phạm vi đã cấp');
+    }
+
+    // A fresh ID token reflects profile changes made since sign-in (OpenID Connect Core section 12.2).
+    // It is signed before the refresh token rotates, so a signing failure does not burn the grant
+    let idToken: string | undefined;
+    if (OidcService.isOpenIdRequest(grantedScopes)) {
+      const account = await AccountService.findById(tokenRecord.account_id);
+      if (account) {
+        idToken = OidcService.createIdToken(account, client.client_id, grantedScopes);
+      }
+    }
+
+    const tokens = await AuthService.refreshTokens(request.refresh_token, ipAddress);
+    if (!tokens) {
+      throw new OAuthError('invalid_grant', 'Refresh token không hợp lệ hoặc đã hết hạn');
+    }
+
+    return this.toTokenResponse(tokens, tokenRecord.scope || '', idToken);
+  }
+
+  // Service-to-service access: the client acts on its own behalf, so no account and no refresh token
+  static async issueClientCredentialsToken(request: OAuthTokenRequestDto): Promise<OAuthTokenResponse> {
+    const client = await this.authenticateClient(request.client_id, request.client_secret);
+
+    if (client.client_type !== 'confidential') {
+      throw new OAuthError('unauthorized_client', 'Ứng dụng không được phép sử dụng client_credentials');
+    }
+
+    const allowedScopes = client.scopes.filter(scope => scope.includes(':'));
+    const scopes = request.scope ? this.parseScope(request.scope) : allowedScopes;
+
+    const unknownScope = scopes.find(scope => !allowedScopes.includes(scope));
+    if (unknownScope) {
+      throw new OAuthError('invalid_scope', `Phạm vi không được phép: ${unknownScope}`);
+    }
+
+    // Permissions deactivated since the client was registered are no longer granted
+    const resolvedScopes = await this.resolvePermissionScopes(scopes);
+    const grantedScopes = scopes.filter(scope => resolvedScopes.has(scope));
+    if (grantedScopes.length === 0) {
+      throw new OAuthError('invalid_scope', 'Ứng dụng không có phạm vi hợp lệ nào');
+    }
+
+    const scope = grantedScopes.join(' ');
+    const { accessToken, expiresIn } = JwtUtils.generateClientAccessToken({
+      clientId: client.client_id,
+      scope,
+      permissions: grantedScopes.flatMap(granted => resolvedScopes.get(granted) ?? [])
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: expiresIn,
+      scope
+    };
+  }
+
+  // RFC 7662: lets resource servers check revocation state instead of trusting the signature alone
+  static async introspectToken(request: OAuthTokenActionDto): Promise<OAuthIntrospectionResponse> {
+    const client = await this.authenticateClient(request.client_id, request.client_secret);
+
+    // A public client_id proves nothing, so anyone could otherwise probe tokens through this endpoint
+    if (client.client_type !== 'confidential') {
+      throw new OAuthError('unauthorized_client', 'Ứng dụng không được phép kiểm tra token', 401);
+    }
+
+    if (!request.token || typeof request.token !== 'string') {
+      throw new OAuthError('invalid_request', 'Thiếu token');
+    }
+
+    for (const tokenType of this.tokenTypeOrder(request.token_type_hint)) {
+      const result = tokenType === 'access_token'
+        ? await this.introspectAccessToken(request.token)
+        : await this.introspectRefreshToken(request.token, client.client_id);
+      if (result) return result;
+    }
+
+    return { active: false };
+  }
+
+  // RFC 7009: unknown, expired or foreign tokens are ignored so the response never reveals whether a token exists
+  static async revokeToken(request: OAuthTokenActionDto): Promise<void> {
+    const client = await this.authenticateClient(request.client_id, request.client_secret);
+
+    if (!request.token || typeof request.token !== 'string') {
+      throw new OAuthError('invalid_request', 'Thiếu token');
+    }
+
+    for (const tokenType of this.tokenTypeOrder(request.token_type_hint)) {
+      const revoked = tokenType === 'access_token'
+        ? await this.revokeClientAccessToken(request.token, client.client_id)
+        : await this.revokeClientRefreshToken(request.token, client.client_id);
+      if (revoked) return;
+    }
+  }
+
+  static async cleanupExpiredCodes(): Promise<void> {
+    const query = 'DELETE FROM oauth_authorization_codes WHERE expires_at < NOW()';
+    await pool.execute(query);
+  }
+
+  private static async authenticateClient(clientId?: string, clientSecret?: string): Promise<OAuthClientRecord> {
+    const client = clientId ? await this.findClientRecord(clientId) : null;
+    if (!client) {
+      throw new OAuthError('invalid_client', 'Xác thực ứng dụng thất bại', 401);
+    }
+
+    // Public clients cannot keep a secret, so one sent by them is as wrong as a missing one from a confidential client
+    const secretValid = client.client_type === 'confidential'
+      ? this.verifyClientSecret(clientSecret, client.client_secret_hash)
+      : !clientSecret;
+    if (!secretValid) {
+      throw new OAuthError('invalid_client', 'Xác thực ứng dụng thất bại', 401);
+    }
+
+    return client;
+  }
+
+  private static verifyClientSecret(clientSecret?: string, secretHash?: string): boolean {
+    if (!clientSecret || !secretHash) return false;
+
+    const computed = PasswordUtils.hashToken(clientSecret);
+    return computed.length === secretHash.length
+      && crypto.timingSafeEqual(Buffer.from(computed), Buffer.from(secretHash));
+  }
+
+  // The hint only decides which lookup runs first (RFC 7662 section 2.1)
+  private static tokenTypeOrder(hint?: string): OAuthTokenTypeHint[] {
+    return hint === 'refresh_token' ? ['refresh_token', 'access_token'] : ['access_token', 'refresh_token'];
+  }
+
+  private static verifyAccessTokenSafely(token: string): AccessTokenPayload | null {
+    try {
+      return JwtUtils.verifyAccessToken(token);
+    } catch {
+      return null;
+    }
+  }
+
+  private static async introspectAccessToken(token: string): Promise<OAuthIntrospectionResponse | null> {
+    const payload = this.verifyAccessTokenSafely(token);
+    if (!payload || await TokenRevocationService.isRevoked(payload)) return null;
+
+    const response: OAuthIntrospectionResponse = {
+      active: true,
+      token_type: 'access_token',
+      client_id: payload.clientId,
+      scope: payload.scope,
+      permissions: payload.permissions || [],
+      exp: payload.exp,
+      iat: payload.iat,
+      jti: payload.jti
+    };
+
+    if (JwtUtils.isClientToken(payload)) return response;
+
+    // Deactivating an account does not touch the tokens already handed out
+    const account = await AccountService.findById(payload.accountId);
+    if (!account) return null;
+
+    return { ...response, sub: account.id.toString(), account_id: account.id, email: account.email };
+  }
+
+  // Refresh tokens are only ever held by the client they were issued to, so nobody else may look them up
+  private static async introspectRefreshToken(token: string, clientId: string): Promise<OAuthIntrospectionResponse | null> {
+    const tokenRecord = await AuthService.findRefreshToken(token);
+    if (!tokenRecord || tokenRecord.client_id !== clientId) return null;
+
+    const account = await AccountService.getAccountWithPermissions(tokenRecord.account_id);
+    if (!account) return null;
+
+    return {
+      active: true,
+      token_type: 'refresh_token',
+      client_id: tokenRecord.client_id,
+      sub: account.id.toString(),
+      account_id: account.id,
+      email: account.email,
+      scope: tokenRecord.scope || undefined,
+      permissions: await AuthService.permissionsForGrant(account.permissions, {
+        clientId: tokenRecord.client_id,
+        scope: tokenRecord.scope || ''
+      }),
+      exp: Math.floor(new Date(tokenRecord.expires_at).getTime() / 1000),
+      iat: Math.floor(new Date(tokenRecord.created_at).getTime() / 1000)
+    };
+  }
+
+  private static async revokeClientAccessToken(token: string, clientId: string): Promise<boolean> {
+    const payload = this.verifyAccessTokenSafely(token);
+    if (!payload || payload.clientId !== clientId) return false;
+
+    await TokenRevocationService.revokeAccessToken(payload);
+    return true;
+  }
+
+  // The whole family goes, since every rotation of the grant derives from the revoked token (RFC 7009 section 2.1)
+  private static async revokeClientRefreshToken(token: string, clientId: string): Promise<boolean> {
+    const tokenRecord = await AuthService.findRefreshToken(token);
+    if (!tokenRecord || tokenRecord.client_id !== clientId) return false;
+
+    await AuthService.revokeRefreshTokenFamily(tokenRecord.family_id);
+    return true;
+  }
+
+  private static async findAuthorizationCode(code: string): Promise<OAuthAuthorizationCode | null> {
+    const codeHash = PasswordUtils.hashToken(code);
+    const query = 'SELECT * FROM oauth_authorization_codes WHERE code_hash = ? AND expires_at > NOW()';
+
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [codeHash]);
+    return rows.length > 0 ? rows[0] as OAuthAuthorizationCode : null;
+  }
+
+  private static async consumeAuthorizationCode(codeId: number): Promise<boolean> {
+    const query = 'UPDATE oauth_authorization_codes SET is_used = 1 WHERE id = ? AND is_used = 0';
+    const [result] = await pool.execute(query, [codeId]);
+
+    return (result as any).affectedRows > 0;
+  }
+
+  // A replayed code means it leaked, so tokens issued from it are revoked (RFC 6749 section 4.1.2)
+  private static async revokeReplayedCode(record: OAuthAuthorizationCode): Promise<void> {
+    const revokedCount = await AuthService.revokeClientRefreshTokens(record.account_id, record.client_id);
+
+    await AuthService.recordSecurityEvent(record.account_id, 'oauth_code_reuse', undefined, {
+      client_id: record.client_id,
+      authorization_code_id: record.id,
+      revoked_tokens: revokedCount
+    });
+  }
+
+  private static verifyCodeVerifier(codeVerifier: string, codeChallenge: string): boolean {
+    // RFC 7636 section 4.1: 43-128 characters from the unreserved set
+    if (!/^[A-Za-z0-9\-._~]{43,128}$/.test(codeVerifier)) return false;
+
+    const computed = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+    return computed.length === codeChallenge.length
+      && crypto.timingSafeEqual(Buffer.from(computed), Buffer.from(codeChallenge));
+  }
+
+  private static resolveScopes(client: OAuthClient, scope?: string): string[] {
+    // Without an explicit scope the client gets everything it was registered for
+    if (!scope) return client.scopes;
+
+    const requestedScopes = this.parseScope(scope);
+    const unknownScope = requestedScopes.find(requested => !client.scopes.includes(requested));
+    if (unknownScope) {
+      throw new OAuthError('invalid_scope', `Phạm vi không được phép: ${unknownScope}`, 400, true);
+    }
+
+    return requestedScopes;
+  }
+
+  private static parseScope(scope?: string | null): string[] {
+    return scope ? Array.from(new Set(scope.split(' ').filter(Boolean))) : [];
+  }
+
+  private static toTokenResponse(tokens: JwtTokens, scope: string, idToken?: string): OAuthTokenResponse {
+    return {
+      access_token: tokens.accessToken,
+      token_type: 'Bearer',
+      expires_in: tokens.expiresIn,
+      refresh_token: tokens.refreshToken,
+      ...(idToken && { id_token: idToken }),
+      scope
+    };
+  }
+}
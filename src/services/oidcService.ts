@@ -0,0 +1,84 @@
+import { Account, IdTokenClaims, OidcUserClaims, OpenIdConfiguration } from '../types';
+import { JwtUtils } from '../utils';
+import { AccountService } from './accountService';
+
+export class OidcService {
+  static readonly OPENID_SCOPE = 'openid';
+
+  // Must be the exact URL relying parties fetch the discovery document from, minus the /.well-known part
+  static getIssuer(): string {
+    const issuer = process.env.OIDC_ISSUER || `http://localhost:${process.env.PORT || 3000}`;
+    return issuer.replace(/\/+$/, '');
+  }
+
+  // Relying parties verify ID tokens against the JWKS, and a shared HS256 secret is never published there
+  static isEnabled(): boolean {
+    return JwtUtils.getSigningAlgorithm() !== 'HS256';
+  }
+
+  static isOpenIdRequest(scopes: string[]): boolean {
+    return scopes.includes(this.OPENID_SCOPE);
+  }
+
+  // Claims follow the granted scopes: sub always, email with "email", name with "profile"
+  static buildClaims(account: Account, scopes: string[]): OidcUserClaims {
+    const claims: OidcUserClaims = { sub: account.id.toString() };
+
+    if (scopes.includes('email')) {
+      claims.email = account.email;
+      claims.email_verified = Boolean(account.is_verified);
+    }
+
+    if (scopes.includes('profile')) {
+      const name = [account.first_name, account.last_name].filter(Boolean).join(' ');
+      if (name) {
+        claims.name = name;
+      }
+    }
+
+    return claims;
+  }
+
+  static createIdToken(account: Account, clientId: string, scopes: string[], nonce?: string): string {
+    const claims: IdTokenClaims = this.buildClaims(account, scopes);
+    if (nonce) {
+      claims.nonce = nonce;
+    }
+
+    return JwtUtils.generateIdToken(claims, clientId, this.getIssuer());
+  }
+
+  static async getUserInfo(accountId: number, scopes: string[]): Promise<OidcUserClaims | null> {
+    const account = await AccountService.findById(accountId);
+    if (!account) return null;
+
+    return this.buildClaims(account, scopes);
+  }
+
+  static getDiscoveryDocument(): OpenIdConfiguration {
+    const issuer = this.getIssuer();
+
+    return {
+      issuer,
+      // Users sign in and consent on the login UI, which then calls the authorize API
+      authorization_endpoint: process.env.OIDC_AUTHORIZATION_ENDPOINT
+        || `${(process.env.CLIENT_URL || issuer).replace(/\/+$/, '')}/oauth/authorize`,
+      token_endpoint: `${issuer}/oauth/token`,
+      userinfo_endpoint: `${issuer}/oauth/userinfo`,
+      introspection_endpoint: `${issuer}/oauth/introspect`,
+      revocation_endpoint: `${issuer}/oauth/revoke`,
+      jwks_uri: `${issuer}/.well-known/jwks.json`,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code', 'refresh_token', 'client_credentials'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: [JwtUtils.getSigningAlgorithm()],
+      scopes_supported: [this.OPENID_SCOPE, 'profile', 'email'],
+      claims_supported: ['sub', 'iss', 'aud', 'exp', 'iat', 'nonce', 'email', 'email_verified', 'name'],
+      token_endpoint_auth_methods_supported: ['none', 'client_secret_basic', 'client_secret_post'],
+      // Introspection is for resource servers, which always hold a secret
+      introspection_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+      revocation_endpoint_auth_methods_supported: ['none', 'client_secret_basic', 'client_secret_post'],
+      code_challenge_methods_supported: ['S256']
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import { redisClient } from '../config/database';
+import { OtpData, OtpPurpose } from '../types';
+import { PasswordUtils } from '../utils';
+
+export class OtpService {
+  static readonly CODE_TTL_SECONDS = 600; // 10 minutes
+  static readonly MAX_ATTEMPTS = 5;
+  static readonly RESEND_INTERVAL_SECONDS = 60;
+
+  // Returns null while the previous code is still inside its resend interval.
+  // A target (the phone number the code is sent to) binds the code to that address
+  static async issueCode(accountId: number, purpose: OtpPurpose, target?: string): Promise<string | null> {
+    const cooldown = await redisClient.set(this.cooldownKey(accountId, purpose), '1', {
+      NX: true,
+      EX: this.RESEND_INTERVAL_SECONDS
+    });
+    if (cooldown !== 'OK') return null;
+
+    const code = PasswordUtils.generateNumericCode();
+    const otpData: OtpData = { codeHash: PasswordUtils.hashToken(code), ...(target && { target }) };
+
+    // Only the latest code of each purpose is valid, and it starts with no wrong attempts
+    await redisClient.setEx(this.codeKey(accountId, purpose), this.CODE_TTL_SECONDS, JSON.stringify(otpData));
+    await redisClient.del(this.attemptsKey(accountId, purpose));
+
+    return code;
+  }
+
+  static async verifyCode(accountId: number, purpose: OtpPurpose, code: string, target?: string): Promise<boolean> {
+    const codeKey = this.codeKey(accountId, purpose);
+    const storedData = await redisClient.get(codeKey);
+    if (!storedData) return false;
+
+    const otpData: OtpData = JSON.parse(storedData);
+
+    // The address changed since the code was sent
+    if (otpData.target !== target) return false;
+
+    // Every guess is counted with INCR before it is compared, so concurrent guesses cannot share one attempt
+    const attemptsKey = this.attemptsKey(accountId, purpose);
+    const attempts = await redisClient.incr(attemptsKey);
+    await redisClient.expire(attemptsKey, this.CODE_TTL_SECONDS);
+
+    if (attempts > this.MAX_ATTEMPTS) {
+      // Too many wrong codes, the user has to request a new one
+      await redisClient.del([codeKey, attemptsKey]);
+      return false;
+    }
+
+    if (otpData.codeHash !== PasswordUtils.hashToken(code.trim())) {
+      if (attempts === this.MAX_ATTEMPTS) {
+        await redisClient.del([codeKey, attemptsKey]);
+      }
+      return false;
+    }
+
+    // Codes are single-use: only the request that deletes the key succeeds
+    const deleted = await redisClient.del(codeKey);
+    await redisClient.del(attemptsKey);
+    return deleted > 0;
+  }
+
+  private static codeKey(accountId: number, purpose: OtpPurpose): string {
+    return `otp:${purpose}:${accountId}`;
+  }
+
+  private static attemptsKey(accountId: number, purpose: OtpPurpose): string {
+    return `otp_attempts:${purpose}:${accountId}`;
+  }
+
+  private static cooldownKey(accountId: number, purpose: OtpPurpose): string {
+    return `otp_cooldown:${purpose}:${accountId}`;
+  }
+}
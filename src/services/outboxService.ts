@@ -0,0 +1,174 @@
+import type { Connection } from 'mysql2/promise';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import { OutboxMessageType, OutboxPayloads } from '../types';
+import { EncryptionUtils } from '../utils';
+import { EmailService } from './emailService';
+import { SmsService } from './smsService';
+import { WebhookService } from './webhookService';
+
+type OutboxHandlers = { [T in OutboxMessageType]: (payload: OutboxPayloads[T]) => Promise<void> };
+
+type DueMessage = { id: number; type: OutboxMessageType; payload_encrypted: string; attempts: number };
+
+// EmailService and SmsService report failures instead of throwing them, and a failure has to reach the retry logic
+const requireSent = (sent: boolean): void => {
+  if (!sent) {
+    throw new Error('Message was not sent');
+  }
+};
+
+const handlers: OutboxHandlers = {
+  'email.verification': async ({ email, token, first_name, locale }) => {
+    requireSent(await EmailService.sendVerificationEmail(email, token, first_name, locale));
+  },
+  'email.password_reset': async ({ email, token, first_name, locale }) => {
+    requireSent(await EmailService.sendPasswordResetEmail(email, token, first_name, locale));
+  },
+  'email.password_changed': async ({ email, first_name, ip_address, locale }) => {
+    requireSent(await EmailService.sendPasswordChangeNotification(email, first_name, ip_address, locale));
+  },
+  'email.welcome': async ({ email, first_name, locale }) => {
+    requireSent(await EmailService.sendWelcomeEmail(email, first_name, locale));
+  },
+  'email.passkey_added': async ({ email, first_name, passkey_name, ip_address, locale }) => {
+    requireSent(await EmailService.sendPasskeyAddedNotification(email, first_name, passkey_name, ip_address, locale));
+  },
+  'email.magic_link': async ({ email, token, first_name, locale }) => {
+    requireSent(await EmailService.sendMagicLinkEmail(email, token, first_name, locale));
+  },
+  'email.otp': async ({ email, code, first_name, locale }) => {
+    requireSent(await EmailService.sendOtpEmail(email, code, first_name, locale));
+  },
+  'email.new_device_login': async ({ email, first_name, token, device, ip_address, locale }) => {
+    requireSent(await EmailService.sendNewDeviceLoginAlert(email, first_name, token, device, ip_address, locale));
+  },
+  'email.account_locked': async ({ email, first_name, locked_until, ip_address, locale }) => {
+    requireSent(await EmailService.sendAccountLockedNotification(email, first_name, new Date(locked_until), ip_address, locale));
+  },
+  'email.recovery_code_used': async ({ email, first_name, remaining_codes, ip_address, locale }) => {
+    requireSent(await EmailService.sendRecoveryCodeUsedNotification(email, first_name, remaining_codes, ip_address, locale));
+  },
+  'sms.otp': async ({ phone, code }) => {
+    requireSent(await SmsService.sendOtp(phone, code));
+  },
+  'webhook.event': async ({ type, data }) => {
+    await WebhookService.queueDeliveries(type, data);
+  }
+};
+
+// Emails and events that must not get lost are written to outbox_messages with the change they
+// belong to, inside the same transaction when there is one, and sent by a worker afterwards. A slow
+// SMTP server no longer holds up the request, and a failed send is retried instead of just logged.
+// Handled messages are deleted; the payload is encrypted since it can carry tokens and one-time codes
+export class OutboxService {
+  static readonly POLL_INTERVAL_MS = 5 * 1000;
+  static readonly BATCH_SIZE = 20;
+  static readonly MAX_ATTEMPTS = 8;
+  static readonly BASE_RETRY_DELAY_SECONDS = 30;
+  static readonly MAX_RETRY_DELAY_SECONDS = 3600;
+  // Longer than an SMTP send is allowed to take, so a claimed message is not handled twice
+  static readonly CLAIM_SECONDS = 120;
+
+  private static schedulerTimer: NodeJS.Timeout | null = null;
+  private static processing = false;
+
+  // Pass the transaction's connection to commit the message together with the change
+  static async enqueue<T extends OutboxMessageType>(
+    type: T,
+    payload: OutboxPayloads[T],
+    db: Connection = pool
+  ): Promise<void> {
+    await db.execute(
+      'INSERT INTO outbox_messages (type, payload_encrypted) VALUES (?, ?)',
+      [type, EncryptionUtils.encrypt(JSON.stringify(payload))]
+    );
+  }
+
+  // Scheduler
+  static startScheduler(): void {
+    if (this.schedulerTimer) return;
+
+    this.schedulerTimer = setInterval(() => {
+      // A batch of slow sends can outlast the interval
+      if (this.processing) return;
+
+      this.processing = true;
+      this.processDueMessages()
+        .catch(error => console.error('Outbox processing error:', error))
+        .finally(() => {
+          this.processing = false;
+        });
+    }, this.POLL_INTERVAL_MS);
+    this.schedulerTimer.unref();
+  }
+
+  static stopScheduler(): void {
+    if (this.schedulerTimer) {
+      clearInterval(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
+  }
+
+  static async processDueMessages(): Promise<number> {
+    const query = `
+      SELECT id, type, payload_encrypted, attempts
+      FROM outbox_messages
+      WHERE status = 'pending' AND next_attempt_at <= NOW()
+      ORDER BY id ASC
+      LIMIT ?
+    `;
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [this.BATCH_SIZE]);
+
+    let handled = 0;
+    for (const message of rows as DueMessage[]) {
+      // Another instance may have picked the message up since the select
+      const [claim] = await pool.execute<ResultSetHeader>(
+        `UPDATE outbox_messages SET next_attempt_at = DATE_ADD(NOW(), INTERVAL ? SECOND)
+         WHERE id = ? AND status = 'pending' AND next_attempt_at <= NOW()`,
+        [this.CLAIM_SECONDS, message.id]
+      );
+      if (claim.affectedRows === 0) continue;
+
+      await this.handle(message);
+      handled++;
+    }
+
+    return handled;
+  }
+
+  // 30s, 1m, 2m, 4m ... capped at an hour
+  static getRetryDelay(attempts: number): number {
+    return Math.min(this.BASE_RETRY_DELAY_SECONDS * 2 ** (attempts - 1), this.MAX_RETRY_DELAY_SECONDS);
+  }
+
+  private static async handle(message: DueMessage): Promise<void> {
+    const attempts = message.attempts + 1;
+    let lastError: string;
+
+    try {
+      const handler = handlers[message.type] as (payload: unknown) => Promise<void>;
+      if (!handler) {
+        throw new Error(`Unknown outbox message type: ${message.type}`);
+      }
+
+      await handler(JSON.parse(EncryptionUtils.decrypt(message.payload_encrypted)));
+      await pool.execute('DELETE FROM outbox_messages WHERE id = ?', [message.id]);
+      return;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    const status = attempts >= this.MAX_ATTEMPTS ? 'dead' : 'pending';
+    if (status === 'dead') {
+      console.error('Outbox message failed for good:', message.id, message.type, lastError);
+    }
+
+    await pool.execute(
+      `UPDATE outbox_messages
+       SET status = ?, attempts = ?, last_error = ?, next_attempt_at = DATE_ADD(NOW(), INTERVAL ? SECOND)
+       WHERE id = ?`,
+      [status, attempts, lastError, this.getRetryDelay(attempts), message.id]
+    );
+  }
+}
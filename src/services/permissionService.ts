@@ -174,7 +174,7 @@ export class PermissionService {
   static async grantPermissionToAccount(
     accountId: number, 
     rolePermissionId: number, 
-    grantedBy: number,
+    grantedBy: number | undefined,
     expiresAt?: Date
   ): Promise<number | null> {
     try {
@@ -182,7 +182,7 @@ export class PermissionService {
         INSERT INTO grant_permissions (account_id, role_permission_id, granted_by, expires_at)
         VALUES (?, ?, ?, ?)
       `;
-      const [result] = await pool.execute(query, [accountId, rolePermissionId, grantedBy, expiresAt || null]);
+      const [result] = await pool.execute(query, [accountId, rolePermissionId, grantedBy || null, expiresAt || null]);
       return (result as any).insertId;
     } catch (error: any) {
       if (error.code === 'ER_DUP_ENTRY') {
@@ -291,7 +291,7 @@ export class PermissionService {
   }
 
   // Bulk Operations
-  static async grantRoleToAccount(accountId: number, roleId: number, grantedBy: number, expiresAt?: Date): Promise<boolean> {
+  static async grantRoleToAccount(accountId: number, roleId: number, grantedBy: number | undefined, expiresAt?: Date): Promise<boolean> {
     const rolePermissions = await this.getRolePermissions(roleId);
     
     for (const permission of rolePermissions) {
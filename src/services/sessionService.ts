@@ -0,0 +1,78 @@
+import { RowDataPacket } from 'mysql2';
+import { pool, redisClient } from '../config/database';
+import { AccountSession, CachedSession } from '../types';
+import { UserAgentUtils } from '../utils';
+import { AuthService } from './authService';
+import { TokenRevocationService } from './tokenRevocationService';
+
+interface SessionRow extends RowDataPacket {
+  id: number;
+  family_id: string;
+  device_info: string | null;
+  ip_address: string | null;
+  client_id: string | null;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+}
+
+// A session is a refresh token family: it starts at login and every refresh rotates its active token.
+// The id exposed to users is the id of that active token, so it changes after each refresh
+export class SessionService {
+  static async listSessions(accountId: number, currentSessionId?: string): Promise<AccountSession[]> {
+    const query = `
+      SELECT rt.id, rt.family_id, rt.device_info, rt.ip_address, rt.client_id, rt.expires_at,
+             rt.created_at AS last_used_at,
+             (SELECT MIN(f.created_at) FROM refresh_tokens f WHERE f.family_id = rt.family_id) AS created_at
+      FROM refresh_tokens rt
+      WHERE rt.account_id = ? AND rt.is_revoked = 0 AND rt.expires_at > NOW()
+      ORDER BY rt.created_at DESC
+    `;
+
+    const [rows] = await pool.execute<SessionRow[]>(query, [accountId]);
+
+    return rows.map(row => ({
+      id: row.id,
+      device_info: row.device_info,
+      ...UserAgentUtils.parse(row.device_info),
+      ip_address: row.ip_address,
+      client_id: row.client_id,
+      created_at: row.created_at,
+      last_used_at: row.last_used_at,
+      expires_at: row.expires_at,
+      current: currentSessionId !== undefined && row.family_id === currentSessionId
+    }));
+  }
+
+  // Signs one device out: its refresh token family and the access tokens issued for it stop working
+  static async revokeSession(accountId: number, sessionId: number): Promise<boolean> {
+    const query = `
+      SELECT family_id FROM refresh_tokens
+      WHERE id = ? AND account_id = ? AND is_revoked = 0 AND expires_at > NOW()
+    `;
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [sessionId, accountId]);
+    if (rows.length === 0) return false;
+
+    const familyId: string = rows[0].family_id;
+    await AuthService.revokeRefreshTokenFamily(familyId);
+    await TokenRevocationService.revokeSession(familyId);
+
+    return true;
+  }
+
+  static async listCachedSessions(accountId: number): Promise<CachedSession[]> {
+    const prefix = `session:${accountId}:`;
+    const keys = await redisClient.keys(`${prefix}*`);
+
+    const sessions: CachedSession[] = [];
+    for (const key of keys) {
+      const [data, ttl] = await Promise.all([redisClient.get(key), redisClient.ttl(key)]);
+      // Expired between KEYS and GET
+      if (data === null) continue;
+
+      sessions.push({ id: key.slice(prefix.length), data: JSON.parse(data), expires_in: ttl });
+    }
+
+    return sessions;
+  }
+}
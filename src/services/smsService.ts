@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import { SmsHttpClient, SmsProviderName, SmsSender } from '../types';
+
+const fetchHttpClient: SmsHttpClient = {
+  async postJson(url, body, headers) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(10000)
+    });
+    return { status: response.status, body: await response.json().catch(() => null) };
+  }
+};
+
+// Development only: the message is printed instead of sent
+export class ConsoleSmsSender implements SmsSender {
+  async send(phone: string, message: string): Promise<void> {
+    console.log(`[SMS] ${phone}: ${message}`);
+  }
+}
+
+// Development only: one JSON line per message to temp/sms.log, so end-to-end tests can read the codes back
+export class FileSmsSender implements SmsSender {
+  async send(phone: string, message: string): Promise<void> {
+    // A fixed file under the working directory, so no setting can point the codes at another file
+    const filePath = path.join(process.cwd(), 'temp', 'sms.log');
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.appendFile(
+      filePath,
+      JSON.stringify({ to: phone, message, sent_at: new Date().toISOString() }) + '\n'
+    );
+  }
+}
+
+// Posts { to, from, message } as JSON with a bearer API key. Gateways with another
+// payload format get their own SmsSender registered through SmsService.setSender()
+export class HttpSmsSender implements SmsSender {
+  constructor(
+    private readonly url: string,
+    private readonly apiKey?: string,
+    private readonly senderId?: string,
+    private readonly httpClient: SmsHttpClient = fetchHttpClient
+  ) {}
+
+  async send(phone: string, message: string): Promise<void> {
+    const headers: Record<string, string> = this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+    const response = await this.httpClient.postJson(this.url, { to: phone, from: this.senderId, message }, headers);
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`SMS gateway responded with status ${response.status}`);
+    }
+  }
+}
+
+export class SmsService {
+  private static sender: SmsSender | null = null;
+  private static configuredSender: SmsSender | null = null;
+
+  // Reads the SMS_* settings once at startup, so a bad configuration stops the server instead of the
+  // first login code, and later changes to the environment cannot redirect where codes are written
+  static configure(): SmsSender {
+    this.configuredSender = this.createSender();
+    return this.configuredSender;
+  }
+
+  // Overrides the provider chosen by SMS_PROVIDER; pass null to go back to it
+  static setSender(sender: SmsSender | null): void {
+    this.sender = sender;
+  }
+
+  static getSender(): SmsSender {
+    return this.sender ?? this.configuredSender ?? this.configure();
+  }
+
+  static async sendOtp(phone: string, code: string): Promise<boolean> {
+    try {
+      const appName = process.env.APP_NAME || 'Volcanion Auth';
+
+      // Without diacritics so the message fits the GSM-7 alphabet every gateway accepts
+      await this.getSender().send(
+        phone,
+        `${appName}: Ma xac thuc cua ban la ${code}. Ma co hieu luc trong 10 phut. Khong chia se ma nay voi bat ky ai.`
+      );
+      return true;
+    } catch (error) {
+      console.error('Error sending OTP SMS:', error);
+      return false;
+    }
+  }
+
+  // Shown to a user who is not signed in yet, so only the ends of the number are revealed
+  static maskPhone(phone: string): string {
+    return `${phone.slice(0, 3)}${'*'.repeat(Math.max(phone.length - 6, 0))}${phone.slice(-3)}`;
+  }
+
+  private static createSender(): SmsSender {
+    const provider = process.env.SMS_PROVIDER as SmsProviderName | undefined;
+
+    // The console and file senders deliver nothing, so in production a code would silently go nowhere
+    if (process.env.NODE_ENV === 'production' && (!provider || provider === 'console' || provider === 'file')) {
+      throw new Error('SMS_PROVIDER must name a provider that delivers messages in production');
+    }
+
+    switch (provider || 'console') {
+      case 'file':
+        return new FileSmsSender();
+      case 'http':
+        if (!process.env.SMS_HTTP_URL) {
+          throw new Error('SMS_HTTP_URL is required when SMS_PROVIDER is http');
+        }
+        return new HttpSmsSender(process.env.SMS_HTTP_URL, process.env.SMS_HTTP_API_KEY, process.env.SMS_SENDER_ID);
+      case 'console':
+        return new ConsoleSmsSender();
+      default:
+        throw new Error(`Unknown SMS_PROVIDER: ${provider}`);
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import { RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import { ExternalProfile, LinkedIdentity, SocialLoginResult } from '../types';
+import { AccountService } from './accountService';
+import { AuthService } from './authService';
+import { TwoFactorService } from './twoFactorService';
+import { IdentityProviderService, IdentityProviderError } from './identityProviderService';
+
+export class SocialAuthService {
+  // Linked identities
+  static async findIdentity(provider: string, subject: string): Promise<LinkedIdentity | null> {
+    const query = 'SELECT * FROM linked_identities WHERE provider = ? AND subject = ?';
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [provider, subject]);
+
+    return rows.length > 0 ? rows[0] as LinkedIdentity : null;
+  }
+
+  static async listIdentities(accountId: number): Promise<LinkedIdentity[]> {
+    const query = 'SELECT * FROM linked_identities WHERE account_id = ? ORDER BY created_at';
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [accountId]);
+
+    return rows as LinkedIdentity[];
+  }
+
+  static async linkIdentity(accountId: number, profile: ExternalProfile): Promise<number> {
+    const query = `
+      INSERT INTO linked_identities (account_id, provider, subject, email, last_login_at)
+      VALUES (?, ?, ?, ?, NOW())
+    `;
+    const [result] = await pool.execute(query, [accountId, profile.provider, profile.subject, profile.email || null]);
+
+    return (result as any).insertId;
+  }
+
+  static async touchIdentity(identityId: number, email?: string): Promise<void> {
+    const query = 'UPDATE linked_identities SET last_login_at = NOW(), email = COALESCE(?, email) WHERE id = ?';
+    await pool.execute(query, [email || null, identityId]);
+  }
+
+  static async deleteIdentity(accountId: number, provider: string): Promise<boolean> {
+    const query = 'DELETE FROM linked_identities WHERE account_id = ? AND provider = ?';
+    const [result] = await pool.execute(query, [accountId, provider]);
+
+    return (result as any).affectedRows > 0;
+  }
+
+  // Linking from the profile
+  static async linkAccount(
+    accountId: number,
+    provider: string,
+    code: string,
+    state: string,
+    ipAddress?: string
+  ): Promise<LinkedIdentity> {
+    const profile = await IdentityProviderService.fetchProfile(provider, code, state, accountId);
+
+    const existingIdentity = await this.findIdentity(profile.provider, profile.subject);
+    if (existingIdentity) {
+      throw new IdentityProviderError(
+        existingIdentity.account_id === accountId
+          ? 'Tài khoản này đã được liên kết'
+          : 'Tài khoản của nhà cung cấp đã được liên kết với một tài khoản khác',
+        409
+      );
+    }
+
+    const identities = await this.listIdentities(accountId);
+    if (identities.some(identity => identity.provider === profile.provider)) {
+      throw new IdentityProviderError('Bạn đã liên kết một tài khoản khác của nhà cung cấp này. Vui lòng hủy liên kết trước', 409);
+    }
+
+    const identityId = await this.linkIdentity(accountId, profile);
+    await AuthService.recordSecurityEvent(accountId, 'identity_linked', ipAddress, { provider: profile.provider });
+
+    return {
+      id: identityId,
+      account_id: accountId,
+      provider: profile.provider,
+      subject: profile.subject,
+      email: profile.email,
+      created_at: new Date()
+    };
+  }
+
+  // Returns false when nothing was linked for the provider
+  static async unlinkIdentity(accountId: number, provider: string, ipAddress?: string): Promise<boolean> {
+    const account = await AccountService.findById(accountId);
+    if (!account) return false;
+
+    const identities = await this.listIdentities(accountId);
+    if (!identities.some(identity => identity.provider === provider)) return false;
+
+    // Without a password the remaining identities are the only way back into the account
+    if (!account.password && identities.length <= 1) {
+      throw new IdentityProviderError(
+        'Không thể hủy liên kết phương thức đăng nhập cuối cùng. Vui lòng đặt mật khẩu trước',
+        400
+      );
+    }
+
+    const deleted = await this.deleteIdentity(accountId, provider);
+    if (deleted) {
+      await AuthService.recordSecurityEvent(accountId, 'identity_unlinked', ipAddress, { provider });
+    }
+
+    return deleted;
+  }
+
+  // Login
+  static async login(
+    provider: string,
+    code: string,
+    state: string,
+    deviceInfo?: string,
+    ipAddress?: string
+  ): Promise<SocialLoginResult> {
+    const profile = await IdentityProviderService.fetchProfile(provider, code, state);
+    const { accountId, isNewAccount } = await this.resolveAccount(profile, ipAddress);
+
+    const account = await AccountService.findById(accountId);
+    if (!account) {
+      throw new IdentityProviderError('Tài khoản đã bị vô hiệu hóa', 403);
+    }
+
+    // The provider replaces the password, not the second factor
+    const result = await TwoFactorService.isRequired(account)
+      ? await TwoFactorService.createChallenge(account.id, deviceInfo, ipAddress)
+      : await AuthService.issueTokens(account.id, account.email, 'social', deviceInfo, ipAddress);
+
+    return { accountId, isNewAccount, result };
+  }
+
+  private static async resolveAccount(
+    profile: ExternalProfile,
+    ipAddress?: string
+  ): Promise<{ accountId: number; isNewAccount: boolean }> {
+    const identity = await this.findIdentity(profile.provider, profile.subject);
+    if (identity) {
+      await this.touchIdentity(identity.id, profile.email);
+      return { accountId: identity.account_id, isNewAccount: false };
+    }
+
+    if (!profile.email) {
+      throw new IdentityProviderError('Nhà cung cấp không trả về email. Vui lòng cấp quyền truy cập email');
+    }
+
+    const existingAccount = await AccountService.findByEmail(profile.email);
+    if (existingAccount) {
+      // Both sides must have proven the address, otherwise whoever registered it first could take over the other
+      if (!profile.emailVerified || !existingAccount.is_verified) {
+        throw new IdentityProviderError(
+          'Email đã được đăng ký. Vui lòng đăng nhập bằng mật khẩu rồi liên kết tài khoản',
+          409
+        );
+      }
+
+      await this.linkIdentity(existingAccount.id, profile);
+      await AuthService.recordSecurityEvent(existingAccount.id, 'identity_linked', ipAddress, {
+        provider: profile.provider
+      });
+      return { accountId: existingAccount.id, isNewAccount: false };
+    }
+
+    const accountId = await AccountService.createAccount({
+      email: profile.email,
+      first_name: profile.firstName,
+      last_name: profile.lastName
+    });
+    if (profile.emailVerified) {
+      await AccountService.verifyAccount(accountId);
+    }
+
+    await this.linkIdentity(accountId, profile);
+    return { accountId, isNewAccount: true };
+  }
+}
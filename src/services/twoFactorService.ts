@@ -0,0 +1,201 @@
+import { RowDataPacket } from 'mysql2';
+import { pool, redisClient } from '../config/database';
+import { Account, MfaChallenge, MfaChallengeData, TwoFactorSetup } from '../types';
+import { PasswordUtils, EncryptionUtils, TotpUtils } from '../utils';
+import { WebAuthnService } from './webAuthnService';
+
+export class TwoFactorService {
+  static readonly CHALLENGE_TTL_SECONDS = 300; // 5 minutes
+  static readonly MAX_CHALLENGE_ATTEMPTS = 5;
+  static readonly RECOVERY_CODE_COUNT = 10;
+
+  // Enrollment
+  static async beginSetup(account: Account): Promise<TwoFactorSetup> {
+    const secret = TotpUtils.generateSecret();
+    const issuer = process.env.APP_NAME || 'Volcanion Auth';
+
+    // Secret is stored but not active until the user confirms a first code
+    const query = `
+      UPDATE accounts
+      SET two_factor_secret = ?, two_factor_enabled = 0, two_factor_confirmed_at = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `;
+    await pool.execute(query, [EncryptionUtils.encrypt(secret), account.id]);
+
+    return {
+      secret,
+      otpauthUrl: TotpUtils.buildOtpAuthUrl(secret, account.email, issuer)
+    };
+  }
+
+  static async confirmSetup(account: Account, code: string): Promise<boolean> {
+    if (!account.two_factor_secret) return false;
+
+    const isValid = await this.verifyCode(account, code);
+    if (!isValid) return false;
+
+    const query = `
+      UPDATE accounts
+      SET two_factor_enabled = 1, two_factor_confirmed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `;
+    const [result] = await pool.execute(query, [account.id]);
+
+    return (result as any).affectedRows > 0;
+  }
+
+  static async disable(accountId: number): Promise<boolean> {
+    const query = `
+      UPDATE accounts
+      SET two_factor_enabled = 0, two_factor_secret = NULL, two_factor_confirmed_at = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `;
+    const [result] = await pool.execute(query, [accountId]);
+
+    await pool.execute('DELETE FROM two_factor_recovery_codes WHERE account_id = ?', [accountId]);
+
+    return (result as any).affectedRows > 0;
+  }
+
+  // Recovery codes
+  static async generateRecoveryCodes(accountId: number): Promise<string[]> {
+    // A new batch always replaces the previous one
+    await pool.execute('DELETE FROM two_factor_recovery_codes WHERE account_id = ?', [accountId]);
+
+    const codes: string[] = [];
+    const query = 'INSERT INTO two_factor_recovery_codes (account_id, code_hash) VALUES (?, ?)';
+
+    for (let i = 0; i < this.RECOVERY_CODE_COUNT; i++) {
+      const code = PasswordUtils.generateRecoveryCode();
+      await pool.execute(query, [accountId, PasswordUtils.hashToken(code)]);
+      codes.push(code);
+    }
+
+    return codes;
+  }
+
+  static async useRecoveryCode(accountId: number, code: string): Promise<boolean> {
+    const codeHash = PasswordUtils.hashToken(code.trim().toLowerCase());
+    const query = `
+      UPDATE two_factor_recovery_codes
+      SET is_used = 1, used_at = CURRENT_TIMESTAMP
+      WHERE account_id = ? AND code_hash = ? AND is_used = 0
+    `;
+    const [result] = await pool.execute(query, [accountId, codeHash]);
+
+    return (result as any).affectedRows > 0;
+  }
+
+  static async countRemainingRecoveryCodes(accountId: number): Promise<number> {
+    const query = 'SELECT COUNT(*) as count FROM two_factor_recovery_codes WHERE account_id = ? AND is_used = 0';
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [accountId]);
+
+    return rows[0].count;
+  }
+
+  // Code verification
+  static async verifyCode(account: Account, code: string): Promise<boolean> {
+    if (!account.two_factor_secret) return false;
+
+    const secret = EncryptionUtils.decrypt(account.two_factor_secret);
+    const timeStep = TotpUtils.verifyCode(secret, code);
+    if (timeStep === null) return false;
+
+    // Each code can only be used once within its validity window
+    const replayKey = `totp_used:${account.id}:${timeStep}`;
+    const stored = await redisClient.set(replayKey, '1', { NX: true, EX: 90 });
+
+    return stored === 'OK';
+  }
+
+  // Accepts either a TOTP code or a single-use recovery code
+  static async verifySecondFactor(account: Account, code?: string, recoveryCode?: string): Promise<boolean> {
+    if (recoveryCode) {
+      return await this.useRecoveryCode(account.id, recoveryCode);
+    }
+
+    if (code) {
+      return await this.verifyCode(account, code);
+    }
+
+    return false;
+  }
+
+  // SMS codes as second factor; only offered for a verified phone
+  static async setSmsEnabled(accountId: number, enabled: boolean): Promise<boolean> {
+    const query = `
+      UPDATE accounts SET sms_two_factor_enabled = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND (? = 0 OR phone_verified_at IS NOT NULL)
+    `;
+    const [result] = await pool.execute(query, [enabled ? 1 : 0, accountId, enabled ? 1 : 0]);
+
+    return (result as any).affectedRows > 0;
+  }
+
+  // A registered passkey or SMS codes count as a second factor just like an authenticator app
+  static async isRequired(account: Account): Promise<boolean> {
+    if (account.two_factor_enabled || account.sms_two_factor_enabled) return true;
+
+    return (await WebAuthnService.countCredentials(account.id)) > 0;
+  }
+
+  // MFA login challenges
+  static async createChallenge(
+    accountId: number,
+    deviceInfo?: string,
+    ipAddress?: string,
+    passwordLogin: boolean = false
+  ): Promise<MfaChallenge> {
+    const mfaToken = PasswordUtils.generateSecureToken();
+    const challengeData: MfaChallengeData = { accountId, deviceInfo, ipAddress, passwordLogin };
+
+    await redisClient.setEx(this.challengeKey(mfaToken), this.CHALLENGE_TTL_SECONDS, JSON.stringify(challengeData));
+
+    return {
+      mfaRequired: true,
+      mfaToken,
+      expiresIn: this.CHALLENGE_TTL_SECONDS
+    };
+  }
+
+  static async getChallenge(mfaToken: string): Promise<MfaChallengeData | null> {
+    const challengeData = await redisClient.get(this.challengeKey(mfaToken));
+
+    return challengeData ? JSON.parse(challengeData) : null;
+  }
+
+  // Called before the code is checked: INCR counts every attempt, so parallel guesses cannot share one
+  static async countChallengeAttempt(mfaToken: string): Promise<boolean> {
+    const attemptsKey = this.attemptsKey(mfaToken);
+    const attempts = await redisClient.incr(attemptsKey);
+    await redisClient.expire(attemptsKey, this.CHALLENGE_TTL_SECONDS);
+
+    if (attempts > this.MAX_CHALLENGE_ATTEMPTS) {
+      await this.deleteChallenge(mfaToken);
+      return false;
+    }
+
+    return true;
+  }
+
+  static async recordChallengeFailure(mfaToken: string): Promise<void> {
+    const attempts = await redisClient.get(this.attemptsKey(mfaToken));
+
+    if (parseInt(attempts || '0') >= this.MAX_CHALLENGE_ATTEMPTS) {
+      // Too many wrong codes, force the user to start the login again
+      await this.deleteChallenge(mfaToken);
+    }
+  }
+
+  static async deleteChallenge(mfaToken: string): Promise<void> {
+    await redisClient.del([this.challengeKey(mfaToken), this.attemptsKey(mfaToken)]);
+  }
+
+  private static challengeKey(mfaToken: string): string {
+    return `mfa_challenge:${PasswordUtils.hashToken(mfaToken)}`;
+  }
+
+  private static attemptsKey(mfaToken: string): string {
+    return `mfa_challenge_attempts:${PasswordUtils.hashToken(mfaToken)}`;
+  }
+}
@@ -0,0 +1,377 @@
+import crypto from 'crypto';
+import type { Connection } from 'mysql2/promise';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { pool, redisClient } from '../config/database';
+import {
+  Account,
+  WebAuthnAuthenticationCredential,
+  WebAuthnAuthenticationOptions,
+  WebAuthnChallengeData,
+  WebAuthnChallengeType,
+  WebAuthnCredential,
+  WebAuthnCredentialDescriptor,
+  WebAuthnRegistrationCredential,
+  WebAuthnRegistrationOptions
+} from '../types';
+import { CborUtils, PasswordUtils } from '../utils';
+
+export class WebAuthnError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'WebAuthnError';
+  }
+}
+
+// COSE algorithm identifiers (RFC 9053) in order of preference
+const COSE_ALG_ES256 = -7;
+const COSE_ALG_EDDSA = -8;
+const COSE_ALG_RS256 = -257;
+
+// Authenticator data flags (WebAuthn Level 2, section 6.1)
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  credentialId?: Buffer;
+  credentialPublicKey?: Map<unknown, unknown>;
+}
+
+const parseAuthenticatorData = (authData: Buffer): AuthenticatorData => {
+  if (authData.length < 37) {
+    throw new WebAuthnError('Dữ liệu passkey không hợp lệ');
+  }
+
+  const parsed: AuthenticatorData = {
+    rpIdHash: authData.subarray(0, 32),
+    flags: authData[32],
+    signCount: authData.readUInt32BE(33)
+  };
+
+  if (parsed.flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    // 16 byte AAGUID, 2 byte length, credential id, then the COSE public key
+    if (authData.length < 55) {
+      throw new WebAuthnError('Dữ liệu passkey không hợp lệ');
+    }
+    const credentialIdLength = authData.readUInt16BE(53);
+    const keyOffset = 55 + credentialIdLength;
+    parsed.credentialId = authData.subarray(55, keyOffset);
+
+    const { value } = CborUtils.decodeFirst(authData.subarray(keyOffset));
+    if (!(value instanceof Map)) {
+      throw new WebAuthnError('Dữ liệu passkey không hợp lệ');
+    }
+    parsed.credentialPublicKey = value;
+  }
+
+  return parsed;
+};
+
+const base64url = (value: unknown): string | undefined => Buffer.isBuffer(value) ? value.toString('base64url') : undefined;
+
+const coseToPublicKey = (coseKey: Map<unknown, unknown>): { publicKey: crypto.KeyObject; algorithm: number } => {
+  const keyType = coseKey.get(1);
+  const algorithm = coseKey.get(3);
+  let jwk: crypto.JsonWebKey | null = null;
+
+  if (keyType === 2 && algorithm === COSE_ALG_ES256 && coseKey.get(-1) === 1) {
+    jwk = { kty: 'EC', crv: 'P-256', x: base64url(coseKey.get(-2)), y: base64url(coseKey.get(-3)) };
+  } else if (keyType === 1 && algorithm === COSE_ALG_EDDSA && coseKey.get(-1) === 6) {
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: base64url(coseKey.get(-2)) };
+  } else if (keyType === 3 && algorithm === COSE_ALG_RS256) {
+    jwk = { kty: 'RSA', n: base64url(coseKey.get(-1)), e: base64url(coseKey.get(-2)) };
+  }
+
+  if (!jwk || typeof algorithm !== 'number') {
+    throw new WebAuthnError('Thuật toán khóa của passkey không được hỗ trợ');
+  }
+
+  try {
+    return { publicKey: crypto.createPublicKey({ key: jwk, format: 'jwk' }), algorithm };
+  } catch {
+    throw new WebAuthnError('Khóa công khai của passkey không hợp lệ');
+  }
+};
+
+const verifySignature = (credential: WebAuthnCredential, data: Buffer, signature: Buffer): boolean => {
+  try {
+    // ES256 signatures are DER encoded, which is what crypto.verify expects by default
+    const digest = credential.algorithm === COSE_ALG_EDDSA ? null : 'sha256';
+    return crypto.verify(digest, data, credential.public_key, signature);
+  } catch {
+    return false;
+  }
+};
+
+const toDescriptor = (credential: WebAuthnCredential): WebAuthnCredentialDescriptor => ({
+  type: 'public-key',
+  id: credential.credential_id,
+  ...(credential.transports && { transports: credential.transports.split(',') })
+});
+
+export class WebAuthnService {
+  static readonly CHALLENGE_TTL_SECONDS = 300; // 5 minutes
+  static readonly SUPPORTED_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256];
+
+  // Relying party
+  static getRpId(): string {
+    return process.env.WEBAUTHN_RP_ID || new URL(process.env.CLIENT_URL || 'http://localhost:3000').hostname;
+  }
+
+  static getAllowedOrigins(): string[] {
+    const configured = (process.env.WEBAUTHN_ORIGINS || '')
+      .split(',')
+      .map(origin => origin.trim())
+      .filter(Boolean);
+
+    return configured.length > 0 ? configured : [new URL(process.env.CLIENT_URL || 'http://localhost:3000').origin];
+  }
+
+  // Stored credentials
+  static async listCredentials(accountId: number): Promise<WebAuthnCredential[]> {
+    const query = 'SELECT * FROM webauthn_credentials WHERE account_id = ? ORDER BY created_at';
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [accountId]);
+
+    return rows as WebAuthnCredential[];
+  }
+
+  static async countCredentials(accountId: number): Promise<number> {
+    const query = 'SELECT COUNT(*) as count FROM webauthn_credentials WHERE account_id = ?';
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [accountId]);
+
+    return rows[0].count;
+  }
+
+  static async findCredential(credentialId: string): Promise<WebAuthnCredential | null> {
+    const query = 'SELECT * FROM webauthn_credentials WHERE credential_id = ?';
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [credentialId]);
+
+    return rows.length > 0 ? rows[0] as WebAuthnCredential : null;
+  }
+
+  static async deleteCredential(accountId: number, id: number): Promise<boolean> {
+    const query = 'DELETE FROM webauthn_credentials WHERE id = ? AND account_id = ?';
+    const [result] = await pool.execute(query, [id, accountId]);
+
+    return (result as any).affectedRows > 0;
+  }
+
+  // Registration ceremony
+  static async createRegistrationOptions(account: Account): Promise<WebAuthnRegistrationOptions> {
+    const challenge = await this.createChallenge({ type: 'registration', accountId: account.id, userVerification: 'preferred' });
+    const credentials = await this.listCredentials(account.id);
+    const displayName = [account.first_name, account.last_name].filter(Boolean).join(' ') || account.email;
+
+    return {
+      challenge,
+      rp: { id: this.getRpId(), name: process.env.WEBAUTHN_RP_NAME || process.env.APP_NAME || 'Volcanion Auth' },
+      user: { id: Buffer.from(String(account.id)).toString('base64url'), name: account.email, displayName },
+      pubKeyCredParams: this.SUPPORTED_ALGORITHMS.map(alg => ({ type: 'public-key' as const, alg })),
+      timeout: this.CHALLENGE_TTL_SECONDS * 1000,
+      // Attestation statements are not checked, so none is requested
+      attestation: 'none',
+      authenticatorSelection: { residentKey: 'preferred', userVerification: 'preferred' },
+      excludeCredentials: credentials.map(toDescriptor)
+    };
+  }
+
+  // Pass a transaction's connection to store the passkey together with what goes with it
+  static async verifyRegistration(
+    accountId: number,
+    credential: WebAuthnRegistrationCredential,
+    name?: string,
+    db: Connection = pool
+  ): Promise<WebAuthnCredential> {
+    const { challenge } = await this.verifyClientData(credential.response.clientDataJSON, 'registration');
+    if (challenge.accountId !== accountId) {
+      throw new WebAuthnError('Phiên xác thực passkey không hợp lệ hoặc đã hết hạn');
+    }
+
+    let attestation: unknown;
+    try {
+      attestation = CborUtils.decode(Buffer.from(credential.response.attestationObject, 'base64url'));
+    } catch {
+      throw new WebAuthnError('Dữ liệu passkey không hợp lệ');
+    }
+    const authData = attestation instanceof Map ? attestation.get('authData') : undefined;
+    if (!Buffer.isBuffer(authData)) {
+      throw new WebAuthnError('Dữ liệu passkey không hợp lệ');
+    }
+
+    const parsed = this.verifyAuthenticatorData(authData, challenge);
+    if (!parsed.credentialId || !parsed.credentialPublicKey) {
+      throw new WebAuthnError('Dữ liệu passkey không hợp lệ');
+    }
+
+    const credentialId = parsed.credentialId.toString('base64url');
+    if (credentialId !== credential.rawId) {
+      throw new WebAuthnError('Dữ liệu passkey không hợp lệ');
+    }
+
+    if (await this.findCredential(credentialId)) {
+      throw new WebAuthnError('Passkey này đã được đăng ký', 409);
+    }
+
+    const { publicKey, algorithm } = coseToPublicKey(parsed.credentialPublicKey);
+    const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    const transports = credential.response.transports?.join(',') || null;
+
+    const query = `
+      INSERT INTO webauthn_credentials (account_id, credential_id, public_key, algorithm, sign_count, transports, name)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `;
+    const [result] = await db.execute(query, [
+      accountId, credentialId, publicKeyPem, algorithm, parsed.signCount, transports, name || null
+    ]);
+
+    return {
+      id: (result as any).insertId,
+      account_id: accountId,
+      credential_id: credentialId,
+      public_key: publicKeyPem,
+      algorithm,
+      sign_count: parsed.signCount,
+      transports,
+      name: name || null,
+      created_at: new Date()
+    };
+  }
+
+  // Authentication ceremony: without an account any discoverable passkey may answer (passwordless login),
+  // with one only that account's passkeys are offered (second factor)
+  static async createAuthenticationOptions(accountId?: number): Promise<WebAuthnAuthenticationOptions> {
+    let allowCredentials: WebAuthnCredentialDescriptor[] = [];
+
+    if (accountId) {
+      const credentials = await this.listCredentials(accountId);
+      if (credentials.length === 0) {
+        throw new WebAuthnError('Tài khoản chưa đăng ký passkey');
+      }
+      allowCredentials = credentials.map(toDescriptor);
+    }
+
+    // A passkey alone replaces both factors only when the authenticator verified the user
+    const userVerification = accountId ? 'preferred' : 'required';
+    const challenge = await this.createChallenge({ type: 'authentication', accountId, userVerification });
+
+    return {
+      challenge,
+      rpId: this.getRpId(),
+      timeout: this.CHALLENGE_TTL_SECONDS * 1000,
+      userVerification,
+      allowCredentials
+    };
+  }
+
+  // accountId must be the one the options were created for, so a second-factor challenge cannot be used to log in
+  static async verifyAuthentication(
+    credential: WebAuthnAuthenticationCredential,
+    accountId?: number
+  ): Promise<WebAuthnCredential> {
+    const { challenge, clientDataHash } = await this.verifyClientData(credential.response.clientDataJSON, 'authentication');
+    if (challenge.accountId !== accountId) {
+      throw new WebAuthnError('Phiên xác thực passkey không hợp lệ hoặc đã hết hạn');
+    }
+
+    const storedCredential = await this.findCredential(credential.rawId);
+    if (!storedCredential || (accountId && storedCredential.account_id !== accountId)) {
+      throw new WebAuthnError('Passkey không được đăng ký cho tài khoản này', 401);
+    }
+
+    const authData = Buffer.from(credential.response.authenticatorData, 'base64url');
+    const parsed = this.verifyAuthenticatorData(authData, challenge);
+
+    const signedData = Buffer.concat([authData, clientDataHash]);
+    if (!verifySignature(storedCredential, signedData, Buffer.from(credential.response.signature, 'base64url'))) {
+      throw new WebAuthnError('Chữ ký passkey không hợp lệ', 401);
+    }
+
+    // Authenticators that keep a counter must increase it; going backwards means the key was cloned.
+    // Checked in the update itself, so two assertions racing with the same counter cannot both pass
+    const query = `
+      UPDATE webauthn_credentials SET sign_count = ?, last_used_at = NOW()
+      WHERE id = ? AND (sign_count < ? OR (sign_count = 0 AND ? = 0))
+    `;
+    const [result] = await pool.execute<ResultSetHeader>(query, [
+      parsed.signCount, storedCredential.id, parsed.signCount, parsed.signCount
+    ]);
+    if (result.affectedRows === 0) {
+      throw new WebAuthnError('Passkey có dấu hiệu bị sao chép. Vui lòng liên hệ quản trị viên', 401);
+    }
+
+    return { ...storedCredential, sign_count: parsed.signCount };
+  }
+
+  private static verifyAuthenticatorData(authData: Buffer, challenge: WebAuthnChallengeData): AuthenticatorData {
+    const parsed = parseAuthenticatorData(authData);
+
+    const expectedRpIdHash = crypto.createHash('sha256').update(this.getRpId()).digest();
+    if (!parsed.rpIdHash.equals(expectedRpIdHash)) {
+      throw new WebAuthnError('Passkey không thuộc về trang này');
+    }
+
+    if (!(parsed.flags & FLAG_USER_PRESENT)) {
+      throw new WebAuthnError('Passkey chưa xác nhận sự hiện diện của người dùng');
+    }
+
+    if (challenge.userVerification === 'required' && !(parsed.flags & FLAG_USER_VERIFIED)) {
+      throw new WebAuthnError('Passkey chưa xác minh người dùng (PIN hoặc sinh trắc học)');
+    }
+
+    return parsed;
+  }
+
+  private static async verifyClientData(
+    clientDataJSON: string,
+    type: WebAuthnChallengeType
+  ): Promise<{ challenge: WebAuthnChallengeData; clientDataHash: Buffer }> {
+    const rawClientData = Buffer.from(clientDataJSON, 'base64url');
+
+    let clientData: { type?: unknown; challenge?: unknown; origin?: unknown };
+    try {
+      clientData = JSON.parse(rawClientData.toString('utf8'));
+    } catch {
+      throw new WebAuthnError('Dữ liệu passkey không hợp lệ');
+    }
+
+    const expectedType = type === 'registration' ? 'webauthn.create' : 'webauthn.get';
+    if (clientData.type !== expectedType || typeof clientData.challenge !== 'string') {
+      throw new WebAuthnError('Dữ liệu passkey không hợp lệ');
+    }
+
+    const challenge = await this.consumeChallenge(clientData.challenge);
+    if (!challenge || challenge.type !== type) {
+      throw new WebAuthnError('Phiên xác thực passkey không hợp lệ hoặc đã hết hạn');
+    }
+
+    if (typeof clientData.origin !== 'string' || !this.getAllowedOrigins().includes(clientData.origin)) {
+      throw new WebAuthnError('Nguồn gốc yêu cầu passkey không hợp lệ');
+    }
+
+    return { challenge, clientDataHash: crypto.createHash('sha256').update(rawClientData).digest() };
+  }
+
+  private static async createChallenge(challengeData: WebAuthnChallengeData): Promise<string> {
+    const challenge = crypto.randomBytes(32).toString('base64url');
+    await redisClient.setEx(this.challengeKey(challenge), this.CHALLENGE_TTL_SECONDS, JSON.stringify(challengeData));
+
+    return challenge;
+  }
+
+  // Single use: the challenge is deleted before the response is checked
+  private static async consumeChallenge(challenge: string): Promise<WebAuthnChallengeData | null> {
+    const key = this.challengeKey(challenge);
+    const data = await redisClient.get(key);
+    if (!data) return null;
+
+    const deleted = await redisClient.del(key);
+    return deleted > 0 ? JSON.parse(data) : null;
+  }
+
+  private static challengeKey(challenge: string): string {
+    return `webauthn_challenge:${PasswordUtils.hashToken(challenge)}`;
+  }
+}
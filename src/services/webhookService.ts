@@ -0,0 +1,296 @@
+import crypto from 'crypto';
+import { ResultSetHeader, RowDataPacket } from 'mysql2';
+import { pool } from '../config/database';
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookHttpClient,
+  WebhookPayload,
+  WebhookSubscription,
+  WebhookSubscriptionWithSecret
+} from '../types';
+import { EncryptionUtils, PasswordUtils } from '../utils';
+
+// Redirects are not followed: a receiver that moved has to be updated by an admin
+const fetchHttpClient: WebhookHttpClient = {
+  async post(url, body, headers) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'User-Agent': process.env.APP_NAME || 'Volcanion Auth', ...headers },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(10000)
+    });
+    return { status: response.status };
+  }
+};
+
+const SUBSCRIPTION_COLUMNS = 'id, url, events, description, is_active, created_by, created_at, updated_at';
+const DELIVERY_COLUMNS = 'id, subscription_id, event_type, payload, status, attempts, next_attempt_at, last_status_code, last_error, delivered_at, created_at';
+
+type DueDelivery = Pick<WebhookDelivery, 'id' | 'payload' | 'attempts'> & { url: string; secret_encrypted: string };
+
+// Events are queued in webhook_deliveries in the request that raises them and sent by a
+// scheduler, so a slow or unreachable receiver never holds up a login or an admin change.
+// Failed deliveries are retried with exponential backoff and end up in the dead-letter list
+export class WebhookService {
+  static readonly POLL_INTERVAL_MS = 5 * 1000;
+  static readonly BATCH_SIZE = 20;
+  static readonly MAX_ATTEMPTS = 10;
+  static readonly BASE_RETRY_DELAY_SECONDS = 30;
+  static readonly MAX_RETRY_DELAY_SECONDS = 3600;
+  // Longer than the request timeout, so a claimed delivery is not sent twice
+  static readonly CLAIM_SECONDS = 60;
+
+  private static httpClient: WebhookHttpClient = fetchHttpClient;
+  private static schedulerTimer: NodeJS.Timeout | null = null;
+  private static processing = false;
+
+  static setHttpClient(client: WebhookHttpClient): void {
+    this.httpClient = client;
+  }
+
+  // Scheduler
+  static startScheduler(): void {
+    if (this.schedulerTimer) return;
+
+    this.schedulerTimer = setInterval(() => {
+      // A batch of slow receivers can outlast the interval
+      if (this.processing) return;
+
+      this.processing = true;
+      this.processDueDeliveries()
+        .catch(error => console.error('Webhook delivery error:', error))
+        .finally(() => {
+          this.processing = false;
+        });
+    }, this.POLL_INTERVAL_MS);
+    this.schedulerTimer.unref();
+  }
+
+  static stopScheduler(): void {
+    if (this.schedulerTimer) {
+      clearInterval(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
+  }
+
+  // Subscriptions
+  static async createSubscription(data: CreateWebhookDto, createdBy?: number): Promise<WebhookSubscriptionWithSecret> {
+    const secret = data.secret || PasswordUtils.generateSecureToken();
+
+    const query = `
+      INSERT INTO webhook_subscriptions (url, events, secret_encrypted, description, created_by)
+      VALUES (?, ?, ?, ?, ?)
+    `;
+    const [result] = await pool.execute<ResultSetHeader>(query, [
+      data.url,
+      JSON.stringify(data.events),
+      EncryptionUtils.encrypt(secret),
+      data.description || null,
+      createdBy || null
+    ]);
+
+    const subscription = await this.findSubscriptionById(result.insertId) as WebhookSubscription;
+
+    // The receiver needs the secret to check signatures; this is the one time it is shown
+    return { ...subscription, secret };
+  }
+
+  static async listSubscriptions(): Promise<WebhookSubscription[]> {
+    const query = `SELECT ${SUBSCRIPTION_COLUMNS} FROM webhook_subscriptions ORDER BY id ASC`;
+    const [rows] = await pool.execute<RowDataPacket[]>(query);
+
+    return rows as WebhookSubscription[];
+  }
+
+  static async findSubscriptionById(id: number): Promise<WebhookSubscription | null> {
+    const query = `SELECT ${SUBSCRIPTION_COLUMNS} FROM webhook_subscriptions WHERE id = ?`;
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [id]);
+
+    return rows.length > 0 ? rows[0] as WebhookSubscription : null;
+  }
+
+  static async updateSubscription(id: number, data: UpdateWebhookDto): Promise<boolean> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    if (data.url !== undefined) {
+      fields.push('url = ?');
+      values.push(data.url);
+    }
+    if (data.events !== undefined) {
+      fields.push('events = ?');
+      values.push(JSON.stringify(data.events));
+    }
+    if (data.description !== undefined) {
+      fields.push('description = ?');
+      values.push(data.description || null);
+    }
+    if (data.is_active !== undefined) {
+      fields.push('is_active = ?');
+      values.push(data.is_active);
+    }
+
+    if (fields.length === 0) return false;
+
+    values.push(id);
+
+    const query = `UPDATE webhook_subscriptions SET ${fields.join(', ')} WHERE id = ?`;
+    const [result] = await pool.execute<ResultSetHeader>(query, values);
+
+    return result.affectedRows > 0;
+  }
+
+  // Pending and dead deliveries of the subscription go with it
+  static async deleteSubscription(id: number): Promise<boolean> {
+    const [result] = await pool.execute<ResultSetHeader>('DELETE FROM webhook_subscriptions WHERE id = ?', [id]);
+
+    return result.affectedRows > 0;
+  }
+
+  // Queues one delivery per matching subscription. Called by the outbox, which retries on errors;
+  // everything else raises events through OutboxService.enqueue('webhook.event', ...)
+  static async queueDeliveries(type: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+    const query = `
+      SELECT id FROM webhook_subscriptions
+      WHERE is_active = 1 AND (JSON_CONTAINS(events, JSON_QUOTE(?)) OR JSON_CONTAINS(events, '"*"'))
+    `;
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [type]);
+    if (rows.length === 0) return;
+
+    const payload: WebhookPayload = {
+      id: crypto.randomUUID(),
+      type,
+      created_at: new Date().toISOString(),
+      data
+    };
+    const body = JSON.stringify(payload);
+
+    const placeholders = rows.map(() => '(?, ?, ?)').join(', ');
+    await pool.execute(
+      `INSERT INTO webhook_deliveries (subscription_id, event_type, payload) VALUES ${placeholders}`,
+      rows.flatMap(row => [row.id, type, body])
+    );
+  }
+
+  // Deliveries
+  static async processDueDeliveries(): Promise<number> {
+    const query = `
+      SELECT d.id, d.payload, d.attempts, s.url, s.secret_encrypted
+      FROM webhook_deliveries d
+      JOIN webhook_subscriptions s ON s.id = d.subscription_id
+      WHERE d.status = 'pending' AND d.next_attempt_at <= NOW() AND s.is_active = 1
+      ORDER BY d.next_attempt_at ASC
+      LIMIT ?
+    `;
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [this.BATCH_SIZE]);
+
+    let attempted = 0;
+    for (const delivery of rows as DueDelivery[]) {
+      // Another instance may have picked the delivery up since the select
+      const [claim] = await pool.execute<ResultSetHeader>(
+        `UPDATE webhook_deliveries SET next_attempt_at = DATE_ADD(NOW(), INTERVAL ? SECOND)
+         WHERE id = ? AND status = 'pending' AND next_attempt_at <= NOW()`,
+        [this.CLAIM_SECONDS, delivery.id]
+      );
+      if (claim.affectedRows === 0) continue;
+
+      await this.deliver(delivery);
+      attempted++;
+    }
+
+    return attempted;
+  }
+
+  // HMAC-SHA256 of "{timestamp}.{body}"; the timestamp lets receivers refuse replayed deliveries
+  static sign(secret: string, timestamp: number, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  // 30s, 1m, 2m, 4m ... capped at an hour
+  static getRetryDelay(attempts: number): number {
+    return Math.min(this.BASE_RETRY_DELAY_SECONDS * 2 ** (attempts - 1), this.MAX_RETRY_DELAY_SECONDS);
+  }
+
+  static async listDeadDeliveries(page: number = 1, limit: number = 10) {
+    const offset = (page - 1) * limit;
+
+    const [countRows] = await pool.execute<RowDataPacket[]>(
+      "SELECT COUNT(*) as total FROM webhook_deliveries WHERE status = 'dead'"
+    );
+    const total = countRows[0].total;
+
+    const query = `
+      SELECT ${DELIVERY_COLUMNS} FROM webhook_deliveries
+      WHERE status = 'dead'
+      ORDER BY id DESC
+      LIMIT ? OFFSET ?
+    `;
+    const [rows] = await pool.execute<RowDataPacket[]>(query, [limit, offset]);
+
+    return {
+      deliveries: rows as WebhookDelivery[],
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  // Puts a dead delivery back in the queue with a fresh set of attempts
+  static async retryDelivery(id: number): Promise<boolean> {
+    const query = `
+      UPDATE webhook_deliveries
+      SET status = 'pending', attempts = 0, next_attempt_at = NOW(), last_status_code = NULL, last_error = NULL
+      WHERE id = ? AND status = 'dead'
+    `;
+    const [result] = await pool.execute<ResultSetHeader>(query, [id]);
+
+    return result.affectedRows > 0;
+  }
+
+  private static async deliver(delivery: DueDelivery): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    let statusCode: number | null = null;
+    let lastError: string;
+
+    try {
+      // The payload column is JSON, so this is the body as stored, not as first serialized
+      const body = JSON.stringify(delivery.payload);
+      const timestamp = Math.floor(Date.now() / 1000);
+      const signature = this.sign(EncryptionUtils.decrypt(delivery.secret_encrypted), timestamp, body);
+
+      const response = await this.httpClient.post(delivery.url, body, {
+        'X-Webhook-Id': String(delivery.id),
+        'X-Webhook-Event': delivery.payload.type,
+        'X-Webhook-Signature': `t=${timestamp},v1=${signature}`
+      });
+      statusCode = response.status;
+
+      if (response.status >= 200 && response.status < 300) {
+        await pool.execute(
+          `UPDATE webhook_deliveries
+           SET status = 'delivered', attempts = ?, last_status_code = ?, last_error = NULL, delivered_at = NOW()
+           WHERE id = ?`,
+          [attempts, statusCode, delivery.id]
+        );
+        return;
+      }
+
+      lastError = `Receiver responded with status ${response.status}`;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    const status = attempts >= this.MAX_ATTEMPTS ? 'dead' : 'pending';
+    await pool.execute(
+      `UPDATE webhook_deliveries
+       SET status = ?, attempts = ?, last_status_code = ?, last_error = ?, next_attempt_at = DATE_ADD(NOW(), INTERVAL ? SECOND)
+       WHERE id = ?`,
+      [status, attempts, statusCode, lastError, this.getRetryDelay(attempts), delivery.id]
+    );
+  }
+}
@@ -0,0 +1,310 @@
+import { EmailLocaleFile } from '../../types';
+
+// English copy; same variables as vi.ts
+const en: EmailLocaleFile = {
+  strings: {
+    friend: 'there',
+    device_separator: ' on ',
+    unknown_device: 'Unknown',
+    footer: '© {{year}} {{app_name}}. All rights reserved.'
+  },
+  templates: {
+    verification: {
+      subject: '{{app_name}} - Verify your account',
+      title: 'Verify your account',
+      html: `
+      <h2>Hi {{first_name}}!</h2>
+      <p>Thanks for signing up for {{app_name}}. To finish creating your account, please verify your email address by clicking the button below:</p>
+      <div style="text-align: center;">
+        <a href="{{verification_url}}" class="button">Verify email</a>
+      </div>
+      <p>Or copy and paste this link into your browser:</p>
+      <p class="link">{{verification_url}}</p>
+      <p><strong>Note:</strong> This verification link expires in 24 hours.</p>
+      <p>If you did not create this account, you can ignore this email.</p>`,
+      text: `Hi {{first_name}}!
+
+Thanks for signing up for {{app_name}}. To finish creating your account, please open the link below to verify your email address:
+
+{{verification_url}}
+
+Note: This verification link expires in 24 hours.
+
+If you did not create this account, you can ignore this email.`
+    },
+
+    password_reset: {
+      subject: '{{app_name}} - Reset your password',
+      title: 'Reset your password',
+      html: `
+      <h2>Hi {{first_name}}!</h2>
+      <p>We received a request to reset the password for your account. Click the button below to choose a new password:</p>
+      <div style="text-align: center;">
+        <a href="{{reset_url}}" class="button">Reset password</a>
+      </div>
+      <p>Or copy and paste this link into your browser:</p>
+      <p class="link">{{reset_url}}</p>
+      <div class="warning">
+        <strong>⚠️ Security notice:</strong>
+        <ul>
+          <li>This link is only valid for 1 hour</li>
+          <li>Only use this link if you actually asked to reset your password</li>
+          <li>Do not share this link with anyone</li>
+        </ul>
+      </div>
+      <p>If you did not ask to reset your password, ignore this email and your password will stay the same.</p>`,
+      text: `Hi {{first_name}}!
+
+We received a request to reset the password for your account. Open the link below to choose a new password:
+
+{{reset_url}}
+
+Security notice:
+- This link is only valid for 1 hour
+- Only use this link if you actually asked to reset your password
+- Do not share this link with anyone
+
+If you did not ask to reset your password, ignore this email and your password will stay the same.`
+    },
+
+    magic_link: {
+      subject: '{{app_name}} - Your sign-in link',
+      title: 'Sign in without a password',
+      html: `
+      <h2>Hi {{first_name}}!</h2>
+      <p>We received a request to sign in to your account. Click the button below to sign in:</p>
+      <div style="text-align: center;">
+        <a href="{{login_url}}" class="button">Sign in</a>
+      </div>
+      <p>Or copy and paste this link into your browser:</p>
+      <p class="link">{{login_url}}</p>
+      <div class="warning">
+        <strong>⚠️ Security notice:</strong>
+        <ul>
+          <li>This link is only valid for 15 minutes and can be used once</li>
+          <li>Do not share this link with anyone</li>
+        </ul>
+      </div>
+      <p>If you did not ask to sign in, ignore this email. Your account is still safe.</p>`,
+      text: `Hi {{first_name}}!
+
+We received a request to sign in to your account. Open the link below to sign in:
+
+{{login_url}}
+
+Security notice:
+- This link is only valid for 15 minutes and can be used once
+- Do not share this link with anyone
+
+If you did not ask to sign in, ignore this email. Your account is still safe.`
+    },
+
+    otp: {
+      subject: '{{app_name}} - Your verification code',
+      title: 'Verification code',
+      html: `
+      <h2>Hi {{first_name}}!</h2>
+      <p>Your verification code is:</p>
+      <div class="code">{{code}}</div>
+      <div class="warning">
+        <strong>⚠️ Security notice:</strong>
+        <ul>
+          <li>This code is only valid for 10 minutes and can be used once</li>
+          <li>Do not share this code with anyone, including support staff</li>
+        </ul>
+      </div>
+      <p>If you did not ask for this code, ignore this email and consider changing your password.</p>`,
+      text: `Hi {{first_name}}!
+
+Your verification code is: {{code}}
+
+Security notice:
+- This code is only valid for 10 minutes and can be used once
+- Do not share this code with anyone, including support staff
+
+If you did not ask for this code, ignore this email and consider changing your password.`
+    },
+
+    password_changed: {
+      subject: '{{app_name}} - Your password was changed',
+      title: 'Password changed',
+      html: `
+      <h2>Hi {{first_name}}!</h2>
+      <p>The password for your account was changed successfully.</p>
+      <div class="info-box">
+        <strong>Details:</strong>
+        <ul>
+          <li><strong>Time:</strong> {{time}}</li>
+          {{#ip_address}}<li><strong>IP address:</strong> {{ip_address}}</li>{{/ip_address}}
+          <li><strong>Email:</strong> {{email}}</li>
+        </ul>
+      </div>
+      <p>If you did not make this change, contact us right away so we can protect your account.</p>
+      <p>To keep your account safe, we recommend that you:</p>
+      <ul>
+        <li>Use a strong password you do not use anywhere else</li>
+        <li>Never share your password with anyone</li>
+        <li>Sign out of all devices if you think your account has been compromised</li>
+      </ul>`,
+      text: `Hi {{first_name}}!
+
+The password for your account was changed successfully.
+
+Time: {{time}}
+{{#ip_address}}IP address: {{ip_address}}
+{{/ip_address}}Email: {{email}}
+
+If you did not make this change, contact us right away so we can protect your account.`
+    },
+
+    welcome: {
+      subject: 'Welcome to {{app_name}}!',
+      title: '🎉 Welcome to {{app_name}}!',
+      html: `
+      <h2>Hi {{first_name}}!</h2>
+      <p>Thanks for signing up and verifying your account with {{app_name}}.</p>
+      <p>Your account is ready to use. You can now:</p>
+      <ul>
+        <li>Sign in</li>
+        <li>Update your profile</li>
+        <li>Manage your account settings</li>
+        <li>And much more</li>
+      </ul>
+      {{#client_url}}<div style="text-align: center;">
+        <a href="{{client_url}}" class="button">Open {{app_name}}</a>
+      </div>{{/client_url}}
+      <p>If you have any questions, feel free to contact us.</p>`,
+      text: `Hi {{first_name}}!
+
+Thanks for signing up and verifying your account with {{app_name}}. Your account is ready to use.
+{{#client_url}}
+Open {{app_name}}: {{client_url}}
+{{/client_url}}
+If you have any questions, feel free to contact us.`
+    },
+
+    recovery_code_used: {
+      subject: '{{app_name}} - A recovery code was used',
+      title: 'A recovery code was used',
+      html: `
+      <h2>Hi {{first_name}}!</h2>
+      <p>A two-factor recovery code was just used to access your account.</p>
+      <div class="warning">
+        <strong>Details:</strong>
+        <ul>
+          <li><strong>Time:</strong> {{time}}</li>
+          {{#ip_address}}<li><strong>IP address:</strong> {{ip_address}}</li>{{/ip_address}}
+          <li><strong>Recovery codes left:</strong> {{remaining_codes}}</li>
+        </ul>
+      </div>
+      <p>Each recovery code works only once. If you are running low, generate a new set in your security settings.</p>
+      <p>If this was not you, change your password and contact us right away.</p>`,
+      text: `Hi {{first_name}}!
+
+A two-factor recovery code was just used to access your account.
+
+Time: {{time}}
+{{#ip_address}}IP address: {{ip_address}}
+{{/ip_address}}Recovery codes left: {{remaining_codes}}
+
+Each recovery code works only once. If you are running low, generate a new set in your security settings.
+
+If this was not you, change your password and contact us right away.`
+    },
+
+    account_locked: {
+      subject: '{{app_name}} - Your account is temporarily locked',
+      title: 'Account temporarily locked',
+      html: `
+      <h2>Hi {{first_name}}!</h2>
+      <p>Password and passkey sign-in to your account has been locked for a while because of too many wrong passwords.</p>
+      <div class="alert">
+        <strong>Details:</strong>
+        <ul>
+          <li><strong>Time:</strong> {{time}}</li>
+          {{#ip_address}}<li><strong>IP address of the last attempt:</strong> {{ip_address}}</li>{{/ip_address}}
+          <li><strong>Unlocks at:</strong> {{locked_until}}</li>
+        </ul>
+      </div>
+      <p>In the meantime you can still sign in with an email link or code.</p>
+      <p>If these attempts were not yours, someone may be trying to guess your password. Switch to a strong password and turn on two-factor authentication.</p>`,
+      text: `Hi {{first_name}}!
+
+Password and passkey sign-in to your account has been locked for a while because of too many wrong passwords.
+
+Time: {{time}}
+{{#ip_address}}IP address of the last attempt: {{ip_address}}
+{{/ip_address}}Unlocks at: {{locked_until}}
+
+In the meantime you can still sign in with an email link or code.
+
+If these attempts were not yours, someone may be trying to guess your password. Switch to a strong password and turn on two-factor authentication.`
+    },
+
+    new_device_login: {
+      subject: '{{app_name}} - New sign-in from an unfamiliar device',
+      title: 'New device sign-in',
+      html: `
+      <h2>Hi {{first_name}}!</h2>
+      <p>Someone just signed in to your account with your password from a device or network that has not been used before.</p>
+      <div class="warning">
+        <strong>Details:</strong>
+        <ul>
+          <li><strong>Time:</strong> {{time}}</li>
+          <li><strong>Device:</strong> {{device}}</li>
+          {{#ip_address}}<li><strong>IP address:</strong> {{ip_address}}</li>{{/ip_address}}
+        </ul>
+      </div>
+      <p>If this was you, there is nothing else to do.</p>
+      <p>If it was not you, click the button below to sign your account out of every device, then change your password right away:</p>
+      <a href="{{secure_url}}" class="button button-danger">This wasn't me</a>
+      <p><strong>Note:</strong> This link is valid for 7 days and can be used once.</p>`,
+      text: `Hi {{first_name}}!
+
+Someone just signed in to your account with your password from a device or network that has not been used before.
+
+Time: {{time}}
+Device: {{device}}
+{{#ip_address}}IP address: {{ip_address}}
+{{/ip_address}}
+If this was you, there is nothing else to do.
+
+If it was not you, open the link below to sign your account out of every device, then change your password right away:
+
+{{secure_url}}
+
+Note: This link is valid for 7 days and can be used once.`
+    },
+
+    passkey_added: {
+      subject: '{{app_name}} - A new passkey was added',
+      title: 'New passkey added',
+      html: `
+      <h2>Hi {{first_name}}!</h2>
+      <p>A new passkey was just added to your account. It can be used to sign in without a password.</p>
+      <div class="warning">
+        <strong>Details:</strong>
+        <ul>
+          <li><strong>Time:</strong> {{time}}</li>
+          {{#passkey_name}}<li><strong>Passkey name:</strong> {{passkey_name}}</li>{{/passkey_name}}
+          {{#ip_address}}<li><strong>IP address:</strong> {{ip_address}}</li>{{/ip_address}}
+        </ul>
+      </div>
+      <p>If this was you, there is nothing else to do.</p>
+      <p>If this was not you, remove the passkey in your security settings, sign out of all devices and change your password right away.</p>`,
+      text: `Hi {{first_name}}!
+
+A new passkey was just added to your account. It can be used to sign in without a password.
+
+Time: {{time}}
+{{#passkey_name}}Passkey name: {{passkey_name}}
+{{/passkey_name}}{{#ip_address}}IP address: {{ip_address}}
+{{/ip_address}}
+If this was you, there is nothing else to do.
+
+If this was not you, remove the passkey in your security settings, sign out of all devices and change your password right away.`
+    }
+  }
+};
+
+export default en;
@@ -0,0 +1,77 @@
+import { EmailTemplateName } from '../../types';
+
+// Header colour of each email; buttons follow it unless marked .button-danger
+export const EMAIL_ACCENT_COLORS: Record<EmailTemplateName, string> = {
+  verification: '#4f46e5',
+  password_reset: '#dc2626',
+  magic_link: '#4f46e5',
+  otp: '#4f46e5',
+  password_changed: '#059669',
+  welcome: '#10b981',
+  recovery_code_used: '#d97706',
+  account_locked: '#dc2626',
+  new_device_login: '#d97706',
+  passkey_added: '#d97706'
+};
+
+interface EmailLayoutParts {
+  lang: string;
+  appName: string;
+  title: string;
+  content: string;
+  footer: string;
+  accent: string;
+}
+
+// Every part is expected to be escaped already; the layout only puts them in place
+export const renderEmailLayout = ({ lang, appName, title, content, footer, accent }: EmailLayoutParts): string => `<!DOCTYPE html>
+<html lang="${lang}">
+<head>
+  <meta charset="utf-8">
+  <style>
+    .container { max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif; }
+    .header { background-color: ${accent}; color: white; padding: 20px; text-align: center; }
+    .content { padding: 30px; background-color: #f9fafb; }
+    .button {
+      display: inline-block;
+      padding: 12px 24px;
+      background-color: ${accent};
+      color: white;
+      text-decoration: none;
+      border-radius: 6px;
+      margin: 20px 0;
+    }
+    .button-danger { background-color: #dc2626; }
+    .link { background-color: #e5e7eb; padding: 10px; border-radius: 4px; word-break: break-all; }
+    .code {
+      font-size: 32px;
+      font-weight: bold;
+      letter-spacing: 8px;
+      text-align: center;
+      background-color: #e5e7eb;
+      padding: 15px;
+      border-radius: 6px;
+      margin: 20px 0;
+    }
+    .warning { background-color: #fef3c7; border: 1px solid #f59e0b; padding: 15px; border-radius: 6px; margin: 20px 0; }
+    .alert { background-color: #fee2e2; border: 1px solid #ef4444; padding: 15px; border-radius: 6px; margin: 20px 0; }
+    .info-box { background-color: #dbeafe; border: 1px solid #3b82f6; padding: 15px; border-radius: 6px; margin: 20px 0; }
+    .footer { padding: 20px; text-align: center; color: #6b7280; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${appName}</h1>
+      <h2>${title}</h2>
+    </div>
+    <div class="content">
+${content}
+    </div>
+    <div class="footer">
+      <p>${footer}</p>
+    </div>
+  </div>
+</body>
+</html>
+`;
@@ -0,0 +1,311 @@
+import { EmailLocaleFile } from '../../types';
+
+// Vietnamese copy. Variables are written {{name}}; {{#name}}...{{/name}} is left out when the variable is empty.
+// Every template can use {{app_name}} and {{year}}; the others are listed in EmailTemplateService.TEMPLATE_VARIABLES
+const vi: EmailLocaleFile = {
+  strings: {
+    friend: 'bạn',
+    device_separator: ' trên ',
+    unknown_device: 'Không xác định',
+    footer: '© {{year}} {{app_name}}. All rights reserved.'
+  },
+  templates: {
+    verification: {
+      subject: '{{app_name}} - Xác thực tài khoản',
+      title: 'Xác thực tài khoản',
+      html: `
+      <h2>Chào {{first_name}}!</h2>
+      <p>Cảm ơn bạn đã đăng ký tài khoản tại {{app_name}}. Để hoàn tất quá trình đăng ký, vui lòng xác thực địa chỉ email của bạn bằng cách nhấp vào nút bên dưới:</p>
+      <div style="text-align: center;">
+        <a href="{{verification_url}}" class="button">Xác thực Email</a>
+      </div>
+      <p>Hoặc bạn có thể copy và paste đường link sau vào trình duyệt:</p>
+      <p class="link">{{verification_url}}</p>
+      <p><strong>Lưu ý:</strong> Link xác thực này sẽ hết hạn sau 24 giờ.</p>
+      <p>Nếu bạn không tạo tài khoản này, vui lòng bỏ qua email này.</p>`,
+      text: `Chào {{first_name}}!
+
+Cảm ơn bạn đã đăng ký tài khoản tại {{app_name}}. Để hoàn tất quá trình đăng ký, vui lòng mở đường link sau để xác thực địa chỉ email của bạn:
+
+{{verification_url}}
+
+Lưu ý: Link xác thực này sẽ hết hạn sau 24 giờ.
+
+Nếu bạn không tạo tài khoản này, vui lòng bỏ qua email này.`
+    },
+
+    password_reset: {
+      subject: '{{app_name}} - Đặt lại mật khẩu',
+      title: 'Đặt lại mật khẩu',
+      html: `
+      <h2>Chào {{first_name}}!</h2>
+      <p>Chúng tôi nhận được yêu cầu đặt lại mật khẩu cho tài khoản của bạn. Nhấp vào nút bên dưới để tiến hành đặt lại mật khẩu:</p>
+      <div style="text-align: center;">
+        <a href="{{reset_url}}" class="button">Đặt lại mật khẩu</a>
+      </div>
+      <p>Hoặc bạn có thể copy và paste đường link sau vào trình duyệt:</p>
+      <p class="link">{{reset_url}}</p>
+      <div class="warning">
+        <strong>⚠️ Lưu ý bảo mật:</strong>
+        <ul>
+          <li>Link này chỉ có hiệu lực trong 1 giờ</li>
+          <li>Chỉ sử dụng link này nếu bạn thực sự yêu cầu đặt lại mật khẩu</li>
+          <li>Không chia sẻ link này với bất kỳ ai</li>
+        </ul>
+      </div>
+      <p>Nếu bạn không yêu cầu đặt lại mật khẩu, vui lòng bỏ qua email này và mật khẩu của bạn sẽ không thay đổi.</p>`,
+      text: `Chào {{first_name}}!
+
+Chúng tôi nhận được yêu cầu đặt lại mật khẩu cho tài khoản của bạn. Mở đường link sau để tiến hành đặt lại mật khẩu:
+
+{{reset_url}}
+
+Lưu ý bảo mật:
+- Link này chỉ có hiệu lực trong 1 giờ
+- Chỉ sử dụng link này nếu bạn thực sự yêu cầu đặt lại mật khẩu
+- Không chia sẻ link này với bất kỳ ai
+
+Nếu bạn không yêu cầu đặt lại mật khẩu, vui lòng bỏ qua email này và mật khẩu của bạn sẽ không thay đổi.`
+    },
+
+    magic_link: {
+      subject: '{{app_name}} - Liên kết đăng nhập',
+      title: 'Đăng nhập không cần mật khẩu',
+      html: `
+      <h2>Chào {{first_name}}!</h2>
+      <p>Chúng tôi nhận được yêu cầu đăng nhập vào tài khoản của bạn. Nhấp vào nút bên dưới để đăng nhập:</p>
+      <div style="text-align: center;">
+        <a href="{{login_url}}" class="button">Đăng nhập</a>
+      </div>
+      <p>Hoặc bạn có thể copy và paste đường link sau vào trình duyệt:</p>
+      <p class="link">{{login_url}}</p>
+      <div class="warning">
+        <strong>⚠️ Lưu ý bảo mật:</strong>
+        <ul>
+          <li>Link này chỉ có hiệu lực trong 15 phút và chỉ dùng được một lần</li>
+          <li>Không chia sẻ link này với bất kỳ ai</li>
+        </ul>
+      </div>
+      <p>Nếu bạn không yêu cầu đăng nhập, vui lòng bỏ qua email này. Tài khoản của bạn vẫn an toàn.</p>`,
+      text: `Chào {{first_name}}!
+
+Chúng tôi nhận được yêu cầu đăng nhập vào tài khoản của bạn. Mở đường link sau để đăng nhập:
+
+{{login_url}}
+
+Lưu ý bảo mật:
+- Link này chỉ có hiệu lực trong 15 phút và chỉ dùng được một lần
+- Không chia sẻ link này với bất kỳ ai
+
+Nếu bạn không yêu cầu đăng nhập, vui lòng bỏ qua email này. Tài khoản của bạn vẫn an toàn.`
+    },
+
+    otp: {
+      subject: '{{app_name}} - Mã xác thực',
+      title: 'Mã xác thực',
+      html: `
+      <h2>Chào {{first_name}}!</h2>
+      <p>Mã xác thực của bạn là:</p>
+      <div class="code">{{code}}</div>
+      <div class="warning">
+        <strong>⚠️ Lưu ý bảo mật:</strong>
+        <ul>
+          <li>Mã này chỉ có hiệu lực trong 10 phút và chỉ dùng được một lần</li>
+          <li>Không chia sẻ mã này với bất kỳ ai, kể cả nhân viên hỗ trợ</li>
+        </ul>
+      </div>
+      <p>Nếu bạn không yêu cầu mã này, vui lòng bỏ qua email này và cân nhắc đổi mật khẩu.</p>`,
+      text: `Chào {{first_name}}!
+
+Mã xác thực của bạn là: {{code}}
+
+Lưu ý bảo mật:
+- Mã này chỉ có hiệu lực trong 10 phút và chỉ dùng được một lần
+- Không chia sẻ mã này với bất kỳ ai, kể cả nhân viên hỗ trợ
+
+Nếu bạn không yêu cầu mã này, vui lòng bỏ qua email này và cân nhắc đổi mật khẩu.`
+    },
+
+    password_changed: {
+      subject: '{{app_name}} - Mật khẩu đã được thay đổi',
+      title: 'Thông báo thay đổi mật khẩu',
+      html: `
+      <h2>Chào {{first_name}}!</h2>
+      <p>Mật khẩu tài khoản của bạn đã được thay đổi thành công.</p>
+      <div class="info-box">
+        <strong>Thông tin chi tiết:</strong>
+        <ul>
+          <li><strong>Thời gian:</strong> {{time}}</li>
+          {{#ip_address}}<li><strong>Địa chỉ IP:</strong> {{ip_address}}</li>{{/ip_address}}
+          <li><strong>Email:</strong> {{email}}</li>
+        </ul>
+      </div>
+      <p>Nếu bạn không thực hiện thay đổi này, vui lòng liên hệ với chúng tôi ngay lập tức để bảo vệ tài khoản của bạn.</p>
+      <p>Để đảm bảo an toàn tài khoản, chúng tôi khuyến nghị:</p>
+      <ul>
+        <li>Sử dụng mật khẩu mạnh và duy nhất</li>
+        <li>Không chia sẻ mật khẩu với bất kỳ ai</li>
+        <li>Đăng xuất khỏi tất cả thiết bị nếu nghi ngờ tài khoản bị xâm phạm</li>
+      </ul>`,
+      text: `Chào {{first_name}}!
+
+Mật khẩu tài khoản của bạn đã được thay đổi thành công.
+
+Thời gian: {{time}}
+{{#ip_address}}Địa chỉ IP: {{ip_address}}
+{{/ip_address}}Email: {{email}}
+
+Nếu bạn không thực hiện thay đổi này, vui lòng liên hệ với chúng tôi ngay lập tức để bảo vệ tài khoản của bạn.`
+    },
+
+    welcome: {
+      subject: 'Chào mừng đến với {{app_name}}!',
+      title: '🎉 Chào mừng đến với {{app_name}}!',
+      html: `
+      <h2>Chào {{first_name}}!</h2>
+      <p>Cảm ơn bạn đã đăng ký và xác thực tài khoản thành công tại {{app_name}}.</p>
+      <p>Tài khoản của bạn đã sẵn sàng để sử dụng. Bạn có thể:</p>
+      <ul>
+        <li>Đăng nhập vào hệ thống</li>
+        <li>Cập nhật thông tin cá nhân</li>
+        <li>Quản lý cài đặt tài khoản</li>
+        <li>Và nhiều tính năng khác</li>
+      </ul>
+      {{#client_url}}<div style="text-align: center;">
+        <a href="{{client_url}}" class="button">Truy cập {{app_name}}</a>
+      </div>{{/client_url}}
+      <p>Nếu bạn có bất kỳ câu hỏi nào, đừng ngần ngại liên hệ với chúng tôi.</p>`,
+      text: `Chào {{first_name}}!
+
+Cảm ơn bạn đã đăng ký và xác thực tài khoản thành công tại {{app_name}}. Tài khoản của bạn đã sẵn sàng để sử dụng.
+{{#client_url}}
+Truy cập {{app_name}}: {{client_url}}
+{{/client_url}}
+Nếu bạn có bất kỳ câu hỏi nào, đừng ngần ngại liên hệ với chúng tôi.`
+    },
+
+    recovery_code_used: {
+      subject: '{{app_name}} - Mã khôi phục đã được sử dụng',
+      title: 'Mã khôi phục đã được sử dụng',
+      html: `
+      <h2>Chào {{first_name}}!</h2>
+      <p>Một mã khôi phục xác thực hai lớp vừa được sử dụng để truy cập tài khoản của bạn.</p>
+      <div class="warning">
+        <strong>Thông tin chi tiết:</strong>
+        <ul>
+          <li><strong>Thời gian:</strong> {{time}}</li>
+          {{#ip_address}}<li><strong>Địa chỉ IP:</strong> {{ip_address}}</li>{{/ip_address}}
+          <li><strong>Số mã khôi phục còn lại:</strong> {{remaining_codes}}</li>
+        </ul>
+      </div>
+      <p>Mỗi mã khôi phục chỉ dùng được một lần. Nếu bạn sắp hết mã, hãy tạo bộ mã mới trong phần cài đặt bảo mật.</p>
+      <p>Nếu bạn không thực hiện thao tác này, vui lòng đổi mật khẩu và liên hệ với chúng tôi ngay lập tức.</p>`,
+      text: `Chào {{first_name}}!
+
+Một mã khôi phục xác thực hai lớp vừa được sử dụng để truy cập tài khoản của bạn.
+
+Thời gian: {{time}}
+{{#ip_address}}Địa chỉ IP: {{ip_address}}
+{{/ip_address}}Số mã khôi phục còn lại: {{remaining_codes}}
+
+Mỗi mã khôi phục chỉ dùng được một lần. Nếu bạn sắp hết mã, hãy tạo bộ mã mới trong phần cài đặt bảo mật.
+
+Nếu bạn không thực hiện thao tác này, vui lòng đổi mật khẩu và liên hệ với chúng tôi ngay lập tức.`
+    },
+
+    account_locked: {
+      subject: '{{app_name}} - Tài khoản tạm thời bị khóa',
+      title: 'Tài khoản tạm thời bị khóa',
+      html: `
+      <h2>Chào {{first_name}}!</h2>
+      <p>Tài khoản của bạn đã bị tạm khóa đăng nhập bằng mật khẩu và passkey do có quá nhiều lần nhập sai mật khẩu.</p>
+      <div class="alert">
+        <strong>Thông tin chi tiết:</strong>
+        <ul>
+          <li><strong>Thời gian:</strong> {{time}}</li>
+          {{#ip_address}}<li><strong>Địa chỉ IP của lần thử cuối:</strong> {{ip_address}}</li>{{/ip_address}}
+          <li><strong>Mở khóa lúc:</strong> {{locked_until}}</li>
+        </ul>
+      </div>
+      <p>Trong thời gian này bạn vẫn có thể đăng nhập bằng liên kết hoặc mã xác thực gửi qua email.</p>
+      <p>Nếu bạn không thực hiện các lần đăng nhập này, có thể ai đó đang cố đoán mật khẩu của bạn. Hãy đổi sang một mật khẩu mạnh và bật xác thực hai lớp.</p>`,
+      text: `Chào {{first_name}}!
+
+Tài khoản của bạn đã bị tạm khóa đăng nhập bằng mật khẩu và passkey do có quá nhiều lần nhập sai mật khẩu.
+
+Thời gian: {{time}}
+{{#ip_address}}Địa chỉ IP của lần thử cuối: {{ip_address}}
+{{/ip_address}}Mở khóa lúc: {{locked_until}}
+
+Trong thời gian này bạn vẫn có thể đăng nhập bằng liên kết hoặc mã xác thực gửi qua email.
+
+Nếu bạn không thực hiện các lần đăng nhập này, có thể ai đó đang cố đoán mật khẩu của bạn. Hãy đổi sang một mật khẩu mạnh và bật xác thực hai lớp.`
+    },
+
+    new_device_login: {
+      subject: '{{app_name}} - Đăng nhập từ thiết bị mới',
+      title: 'Đăng nhập từ thiết bị mới',
+      html: `
+      <h2>Chào {{first_name}}!</h2>
+      <p>Tài khoản của bạn vừa được đăng nhập bằng mật khẩu từ một thiết bị hoặc mạng chưa từng sử dụng.</p>
+      <div class="warning">
+        <strong>Thông tin chi tiết:</strong>
+        <ul>
+          <li><strong>Thời gian:</strong> {{time}}</li>
+          <li><strong>Thiết bị:</strong> {{device}}</li>
+          {{#ip_address}}<li><strong>Địa chỉ IP:</strong> {{ip_address}}</li>{{/ip_address}}
+        </ul>
+      </div>
+      <p>Nếu đó là bạn, bạn không cần làm gì thêm.</p>
+      <p>Nếu không phải bạn, hãy nhấn nút dưới đây để đăng xuất tài khoản khỏi tất cả thiết bị, sau đó đổi mật khẩu ngay:</p>
+      <a href="{{secure_url}}" class="button button-danger">Đây không phải tôi</a>
+      <p><strong>Lưu ý:</strong> Liên kết này có hiệu lực trong 7 ngày và chỉ sử dụng được một lần.</p>`,
+      text: `Chào {{first_name}}!
+
+Tài khoản của bạn vừa được đăng nhập bằng mật khẩu từ một thiết bị hoặc mạng chưa từng sử dụng.
+
+Thời gian: {{time}}
+Thiết bị: {{device}}
+{{#ip_address}}Địa chỉ IP: {{ip_address}}
+{{/ip_address}}
+Nếu đó là bạn, bạn không cần làm gì thêm.
+
+Nếu không phải bạn, hãy mở đường link sau để đăng xuất tài khoản khỏi tất cả thiết bị, sau đó đổi mật khẩu ngay:
+
+{{secure_url}}
+
+Lưu ý: Liên kết này có hiệu lực trong 7 ngày và chỉ sử dụng được một lần.`
+    },
+
+    passkey_added: {
+      subject: '{{app_name}} - Passkey mới đã được thêm',
+      title: 'Passkey mới đã được thêm',
+      html: `
+      <h2>Chào {{first_name}}!</h2>
+      <p>Một passkey mới vừa được thêm vào tài khoản của bạn. Passkey này có thể dùng để đăng nhập mà không cần mật khẩu.</p>
+      <div class="warning">
+        <strong>Thông tin chi tiết:</strong>
+        <ul>
+          <li><strong>Thời gian:</strong> {{time}}</li>
+          {{#passkey_name}}<li><strong>Tên passkey:</strong> {{passkey_name}}</li>{{/passkey_name}}
+          {{#ip_address}}<li><strong>Địa chỉ IP:</strong> {{ip_address}}</li>{{/ip_address}}
+        </ul>
+      </div>
+      <p>Nếu đó là bạn, bạn không cần làm gì thêm.</p>
+      <p>Nếu không phải bạn, hãy xóa passkey này trong phần cài đặt bảo mật, đăng xuất khỏi tất cả thiết bị và đổi mật khẩu ngay.</p>`,
+      text: `Chào {{first_name}}!
+
+Một passkey mới vừa được thêm vào tài khoản của bạn. Passkey này có thể dùng để đăng nhập mà không cần mật khẩu.
+
+Thời gian: {{time}}
+{{#passkey_name}}Tên passkey: {{passkey_name}}
+{{/passkey_name}}{{#ip_address}}Địa chỉ IP: {{ip_address}}
+{{/ip_address}}
+Nếu đó là bạn, bạn không cần làm gì thêm.
+
+Nếu không phải bạn, hãy xóa passkey này trong phần cài đặt bảo mật, đăng xuất khỏi tất cả thiết bị và đổi mật khẩu ngay.`
+    }
+  }
+};
+
+export default vi;
@@ -1,15 +1,30 @@
+import { KeyObject } from 'crypto';
+
 export interface Account {
   id: number;
   email: string;
-  password: string;
+  // Accounts created through social login have no password until the user sets one
+  password: string | null;
   first_name?: string;
   last_name?: string;
   phone?: string;
+  // Set once the owner proves the phone with an SMS code; cleared when the number changes
+  phone_verified_at?: Date | null;
   date_of_birth?: Date;
   gender?: 'male' | 'female' | 'other';
   avatar_url?: string;
+  // Language of the emails sent to the account
+  preferred_locale?: EmailLocale;
   is_verified: boolean;
   is_active: boolean;
+  two_factor_enabled?: boolean;
+  two_factor_secret?: string;
+  two_factor_confirmed_at?: Date;
+  sms_two_factor_enabled?: boolean;
+  // Password login is refused until this time after too many failures from any IP
+  locked_until?: Date | null;
+  // Locks in a row since the last successful login; each one lasts longer
+  lockout_count?: number;
   last_login?: Date;
   created_at: Date;
   updated_at: Date;
@@ -55,11 +70,86 @@ export interface GrantPermission {
 export interface RefreshToken {
   id: number;
   account_id: number;
+  family_id: string;
   token_hash: string;
   expires_at: Date;
   is_revoked: boolean;
   device_info?: string;
   ip_address?: string;
+  client_id?: string;
+  scope?: string;
+  created_at: Date;
+}
+
+export interface ParsedUserAgent {
+  browser: string | null;
+  os: string | null;
+  device: 'desktop' | 'mobile' | 'tablet' | 'bot' | 'unknown';
+}
+
+// One login on one device: the active refresh token of a token family
+export interface AccountSession extends ParsedUserAgent {
+  id: number;
+  device_info: string | null;
+  ip_address: string | null;
+  client_id: string | null;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+  current: boolean;
+}
+
+// Behind the "this wasn't me" link of a new-device alert
+export interface DeviceAlertData {
+  accountId: number;
+  deviceId: number;
+}
+
+export interface SecureAccountDto {
+  token: string;
+}
+
+// Short-lived server-side session stored in Redis by AuthService.createSession
+export interface CachedSession {
+  id: string;
+  data: unknown;
+  expires_in: number;
+}
+
+export interface AccountSessionOverview {
+  refresh_sessions: AccountSession[];
+  cached_sessions: CachedSession[];
+}
+
+export interface LinkedIdentity {
+  id: number;
+  account_id: number;
+  provider: string;
+  subject: string;
+  email?: string;
+  last_login_at?: Date;
+  created_at: Date;
+}
+
+export interface WebAuthnCredential {
+  id: number;
+  account_id: number;
+  credential_id: string;
+  public_key: string;
+  algorithm: number;
+  sign_count: number;
+  transports?: string | null;
+  name?: string | null;
+  last_used_at?: Date | null;
+  created_at: Date;
+}
+
+export interface SecurityEvent {
+  id: number;
+  account_id: number;
+  event_type: string;
+  ip_address?: string;
+  details?: Record<string, unknown>;
   created_at: Date;
 }
 
@@ -72,6 +162,24 @@ export interface PasswordReset {
   created_at: Date;
 }
 
+export interface TwoFactorRecoveryCode {
+  id: number;
+  account_id: number;
+  code_hash: string;
+  is_used: boolean;
+  used_at?: Date;
+  created_at: Date;
+}
+
+export interface MagicLinkToken {
+  id: number;
+  account_id: number;
+  token_hash: string;
+  expires_at: Date;
+  is_used: boolean;
+  created_at: Date;
+}
+
 export interface EmailVerification {
   id: number;
   account_id: number;
@@ -81,6 +189,54 @@ export interface EmailVerification {
   created_at: Date;
 }
 
+export type OAuthClientType = 'public' | 'confidential';
+
+export interface OAuthClient {
+  id: number;
+  client_id: string;
+  client_type: OAuthClientType;
+  name: string;
+  redirect_uris: string[];
+  scopes: string[];
+  is_active: boolean;
+  created_by?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface OAuthClientRecord extends OAuthClient {
+  client_secret_hash?: string;
+}
+
+// The plain secret is only returned when it is generated
+export interface OAuthClientWithSecret extends OAuthClient {
+  client_secret?: string;
+}
+
+export interface OAuthAuthorizationCode {
+  id: number;
+  code_hash: string;
+  client_id: string;
+  account_id: number;
+  redirect_uri: string;
+  scope: string;
+  code_challenge: string;
+  code_challenge_method: 'S256';
+  nonce?: string;
+  expires_at: Date;
+  is_used: boolean;
+  created_at: Date;
+}
+
+export interface OAuthConsent {
+  id: number;
+  account_id: number;
+  client_id: string;
+  scope: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
 // DTOs
 export interface RegisterDto {
   email: string;
@@ -90,6 +246,12 @@ export interface RegisterDto {
   phone?: string;
   date_of_birth?: string;
   gender?: 'male' | 'female' | 'other';
+  preferred_locale?: EmailLocale;
+}
+
+// Social sign-up leaves the password out
+export interface CreateAccountDto extends Omit<RegisterDto, 'password'> {
+  password?: string;
 }
 
 export interface LoginDto {
@@ -103,13 +265,21 @@ export interface UpdateAccountDto {
   phone?: string;
   date_of_birth?: string;
   gender?: 'male' | 'female' | 'other';
+  preferred_locale?: EmailLocale;
 }
 
+// Either the current password or an emailed step-up code confirms the change
 export interface ChangePasswordDto {
-  current_password: string;
+  current_password?: string;
+  otp_code?: string;
   new_password: string;
 }
 
+export interface DeactivateAccountDto {
+  password?: string;
+  otp_code?: string;
+}
+
 export interface ForgotPasswordDto {
   email: string;
 }
@@ -119,10 +289,238 @@ export interface ResetPasswordDto {
   new_password: string;
 }
 
+export interface MagicLinkRequestDto {
+  email: string;
+}
+
+export interface MagicLinkVerifyDto {
+  token: string;
+}
+
+export interface EmailOtpRequestDto {
+  email: string;
+}
+
+export interface EmailOtpVerifyDto {
+  email: string;
+  code: string;
+}
+
+export interface SmsOtpRequestDto {
+  phone: string;
+}
+
+export interface SmsOtpVerifyDto {
+  phone: string;
+  code: string;
+}
+
+export interface PhoneVerifyDto {
+  code: string;
+}
+
 export interface TokenPayload {
   accountId: number;
   email: string;
   permissions?: string[];
+  clientId?: string;
+  scope?: string;
+  // Refresh token family the token was issued for, so a revoked session also loses its access tokens
+  sid?: string;
+  jti?: string;
+  iat?: number;
+  exp?: number;
+}
+
+// Issued to machine clients through the client_credentials grant; there is no account behind it
+export interface ClientTokenPayload {
+  clientId: string;
+  scope: string;
+  permissions: string[];
+  jti?: string;
+  iat?: number;
+  exp?: number;
+}
+
+export type AccessTokenPayload = TokenPayload | ClientTokenPayload;
+
+export interface ClientAccessToken {
+  accessToken: string;
+  expiresIn: number;
+}
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+export interface JwtSigningKey {
+  kid: string;
+  algorithm: JwtAlgorithm;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+}
+
+export interface JwtKeyRing {
+  signingKey: JwtSigningKey | null;
+  verificationKeys: JwtSigningKey[];
+}
+
+export type SigningKeyStatus = 'pending' | 'active' | 'retired';
+
+export interface SigningKeyRecord {
+  id: number;
+  kid: string;
+  algorithm: JwtAlgorithm;
+  private_key: string;
+  public_key?: string;
+  status: SigningKeyStatus;
+  activates_at: Date;
+  retired_at?: Date;
+  expires_at?: Date;
+  created_at: Date;
+}
+
+export type SigningKeyInfo = Omit<SigningKeyRecord, 'private_key'>;
+
+export interface AuditExportKeyRecord {
+  id: number;
+  kid: string;
+  algorithm: JwtAlgorithm;
+  private_key: string;
+  public_key: string;
+  created_at: Date;
+}
+
+export interface RotateSigningKeyDto {
+  activate_in_seconds?: number;
+}
+
+export interface PublicJwk {
+  kty: string;
+  kid: string;
+  alg: string;
+  use: 'sig';
+  n?: string;
+  e?: string;
+  crv?: string;
+  x?: string;
+  y?: string;
+}
+
+export interface JsonWebKeySet {
+  keys: PublicJwk[];
+}
+
+export interface CreateOAuthClientDto {
+  name: string;
+  client_type?: OAuthClientType;
+  redirect_uris: string[];
+  scopes?: string[];
+}
+
+export interface OAuthAuthorizeDto {
+  response_type: string;
+  client_id: string;
+  redirect_uri: string;
+  scope?: string;
+  state?: string;
+  code_challenge?: string;
+  code_challenge_method?: string;
+  nonce?: string;
+}
+
+export interface OAuthAuthorizeDecisionDto extends OAuthAuthorizeDto {
+  approve: boolean;
+}
+
+export interface OAuthAuthorizationRequest {
+  client: OAuthClient;
+  redirectUri: string;
+  scopes: string[];
+  state?: string;
+  codeChallenge: string;
+  nonce?: string;
+}
+
+export interface OAuthTokenRequestDto {
+  grant_type?: string;
+  client_id?: string;
+  client_secret?: string;
+  code?: string;
+  redirect_uri?: string;
+  code_verifier?: string;
+  refresh_token?: string;
+  scope?: string;
+}
+
+// Binds a refresh token to the OAuth client and scope it was issued for
+export interface OAuthTokenGrant {
+  clientId: string;
+  scope: string;
+}
+
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  refresh_token?: string;
+  id_token?: string;
+  scope: string;
+}
+
+// Body of the introspection (RFC 7662) and revocation (RFC 7009) endpoints
+export interface OAuthTokenActionDto {
+  token?: string;
+  token_type_hint?: string;
+  client_id?: string;
+  client_secret?: string;
+}
+
+export type OAuthTokenTypeHint = 'access_token' | 'refresh_token';
+
+// Only `active` is returned for tokens that are unknown, expired or revoked
+export interface OAuthIntrospectionResponse {
+  active: boolean;
+  token_type?: OAuthTokenTypeHint;
+  client_id?: string;
+  sub?: string;
+  account_id?: number;
+  email?: string;
+  scope?: string;
+  permissions?: string[];
+  exp?: number;
+  iat?: number;
+  jti?: string;
+}
+
+// Standard claims (OpenID Connect Core section 5.1) released according to the granted scopes
+export interface OidcUserClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+export interface IdTokenClaims extends OidcUserClaims {
+  nonce?: string;
+}
+
+export interface OpenIdConfiguration {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+  introspection_endpoint: string;
+  revocation_endpoint: string;
+  jwks_uri: string;
+  response_types_supported: string[];
+  grant_types_supported: string[];
+  subject_types_supported: string[];
+  id_token_signing_alg_values_supported: string[];
+  scopes_supported: string[];
+  claims_supported: string[];
+  token_endpoint_auth_methods_supported: string[];
+  introspection_endpoint_auth_methods_supported: string[];
+  revocation_endpoint_auth_methods_supported: string[];
+  code_challenge_methods_supported: string[];
 }
 
 export interface JwtTokens {
@@ -131,6 +529,139 @@ export interface JwtTokens {
   expiresIn: number;
 }
 
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+  expiresIn: number;
+}
+
+export interface MfaChallengeData {
+  accountId: number;
+  deviceInfo?: string;
+  ipAddress?: string;
+  // Set when the password opened the challenge, so the lockout reset and new-device alert follow the second factor
+  passwordLogin?: boolean;
+}
+
+// login and step_up codes are sent by email, the others by SMS
+export type OtpPurpose = 'login' | 'step_up' | 'sms_login' | 'sms_two_factor' | 'phone_verification';
+
+export interface OtpData {
+  codeHash: string;
+  target?: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface TwoFactorCodeDto {
+  code: string;
+}
+
+export interface TwoFactorDisableDto {
+  password: string;
+  code?: string;
+  recovery_code?: string;
+}
+
+export interface TwoFactorVerifyDto {
+  mfa_token: string;
+  code?: string;
+  recovery_code?: string;
+}
+
+export interface SmsTwoFactorSendDto {
+  mfa_token: string;
+}
+
+export interface SmsTwoFactorVerifyDto {
+  mfa_token: string;
+  code: string;
+}
+
+export interface SmsTwoFactorDisableDto {
+  password: string;
+}
+
+// WebAuthn ceremonies; binary fields travel as base64url strings
+export type WebAuthnChallengeType = 'registration' | 'authentication';
+
+export interface WebAuthnChallengeData {
+  type: WebAuthnChallengeType;
+  accountId?: number;
+  userVerification: 'required' | 'preferred';
+}
+
+export interface WebAuthnCredentialDescriptor {
+  type: 'public-key';
+  id: string;
+  transports?: string[];
+}
+
+export interface WebAuthnRegistrationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number;
+  attestation: 'none';
+  authenticatorSelection: { residentKey: 'preferred'; userVerification: 'preferred' };
+  excludeCredentials: WebAuthnCredentialDescriptor[];
+}
+
+export interface WebAuthnAuthenticationOptions {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: 'required' | 'preferred';
+  allowCredentials: WebAuthnCredentialDescriptor[];
+}
+
+export interface WebAuthnRegistrationCredential {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface WebAuthnAuthenticationCredential {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export interface PasskeyRegisterDto {
+  credential: WebAuthnRegistrationCredential;
+  name?: string;
+  password?: string;
+  otp_code?: string;
+}
+
+export interface PasskeyLoginDto {
+  credential: WebAuthnAuthenticationCredential;
+}
+
+export interface PasskeyMfaOptionsDto {
+  mfa_token: string;
+}
+
+export interface PasskeyMfaDto {
+  mfa_token: string;
+  credential: WebAuthnAuthenticationCredential;
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   message: string;
@@ -138,6 +669,114 @@ export interface ApiResponse<T = any> {
   errors?: any[];
 }
 
+export type AuditAction =
+  | 'login_succeeded'
+  | 'login_failed'
+  | 'login_mfa_required'
+  | 'token_refreshed'
+  | 'logout'
+  | 'logout_all'
+  | 'password_reset_requested'
+  | 'password_reset'
+  | 'password_changed'
+  | 'role_created'
+  | 'role_updated'
+  | 'role_deleted'
+  | 'permission_created'
+  | 'permission_updated'
+  | 'permission_deleted'
+  | 'role_permission_assigned'
+  | 'role_permission_removed'
+  | 'account_role_granted'
+  | 'account_role_revoked'
+  | 'account_permission_granted'
+  | 'account_permission_revoked'
+  | 'account_updated'
+  | 'account_deactivated'
+  | 'account_verified'
+  | 'account_unlocked'
+  | 'audit_exported'
+  | 'webhook_created'
+  | 'webhook_updated'
+  | 'webhook_deleted'
+  | 'webhook_delivery_retried'
+  | 'session_revoked'
+  | 'all_sessions_revoked'
+  | 'oauth_client_created'
+  | 'oauth_client_deactivated'
+  | 'oauth_client_secret_rotated'
+  | 'signing_key_rotated'
+  | 'passkey_registered'
+  | 'passkey_removed';
+
+// Field by field: created records have from = null, deleted ones to = null
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditEventInput {
+  action: AuditAction;
+  actorAccountId?: number | null;
+  actorClientId?: string | null;
+  targetAccountId?: number | null;
+  ipAddress?: string;
+  userAgent?: string;
+  changes?: AuditChanges | null;
+}
+
+export interface AuditEvent {
+  id: number;
+  actor_account_id: number | null;
+  actor_client_id: string | null;
+  target_account_id: number | null;
+  action: AuditAction;
+  ip_address: string | null;
+  user_agent: string | null;
+  changes: AuditChanges | null;
+  prev_hash: string;
+  hash: string;
+  created_at: Date;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  last_event_id: number | null;
+  // head_mismatch: the chain ends before the last recorded event, so trailing records were deleted
+  broken_at?: { id: number | null; reason: 'prev_hash_mismatch' | 'hash_mismatch' | 'head_mismatch' };
+}
+
+// Events waiting for the chain writer; last_error stays set until a batch is written again
+export interface AuditWriterStatus {
+  pending_events: number;
+  dropped_events: number;
+  last_error: string | null;
+  last_error_at: string | null;
+}
+
+export interface AuditExportClaims {
+  from: string;
+  to: string;
+  count: number;
+  first_id: number | null;
+  last_id: number | null;
+  start_hash: string | null;
+  end_hash: string | null;
+}
+
+export interface AuditExport extends AuditExportClaims {
+  events: AuditEvent[];
+  signature: string;
+}
+
+export interface AuditEventFilter {
+  action?: AuditAction;
+  actor_account_id?: number;
+  target_account_id?: number;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
 export interface PaginationQuery {
   page?: number;
   limit?: number;
@@ -145,13 +784,302 @@ export interface PaginationQuery {
   order?: 'ASC' | 'DESC';
 }
 
-export interface AccountWithPermissions extends Omit<Account, 'password'> {
+export interface AccountWithPermissions extends Omit<Account, 'password' | 'two_factor_secret'> {
   permissions: string[];
   roles: string[];
 }
 
+export type LockedAccount = Pick<Account, 'id' | 'email' | 'first_name' | 'last_name' | 'locked_until' | 'lockout_count'>;
+
 export interface UserPermissionCheck {
   accountId: number;
   resource: string;
   action: string;
 }
+
+// External identity providers (social login)
+export interface IdentityProviderProfileMapping {
+  subject: string;
+  email?: string;
+  emailVerified?: string;
+  firstName?: string;
+  lastName?: string;
+  // Split into first and last name when the provider has no separate fields
+  name?: string;
+}
+
+export interface IdentityProviderConfig {
+  name: string;
+  displayName: string;
+  clientId: string;
+  clientSecret: string;
+  authorizationUrl: string;
+  tokenUrl: string;
+  userinfoUrl: string;
+  scope: string;
+  profileMapping: IdentityProviderProfileMapping;
+  // For providers that only ever release verified addresses and have no claim saying so
+  trustEmail?: boolean;
+  // Lists the account's addresses with a verified flag, for providers whose userinfo has none
+  emailsUrl?: string;
+}
+
+export interface ExternalProfile {
+  provider: string;
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface IdentityProviderHttpResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+// Swapped out in tests so the flow can run against a fake provider
+export interface IdentityProviderHttpClient {
+  postForm(url: string, form: Record<string, string>): Promise<IdentityProviderHttpResponse>;
+  getJson(url: string, accessToken: string): Promise<IdentityProviderHttpResponse>;
+}
+
+export interface SocialLoginState {
+  provider: string;
+  codeVerifier: string;
+  // Set when a signed-in user links an identity; such a state cannot be used to log in
+  accountId?: number;
+}
+
+export interface SocialCallbackDto {
+  code: string;
+  state: string;
+}
+
+export interface SocialLoginResult {
+  accountId: number;
+  isNewAccount: boolean;
+  result: JwtTokens | MfaChallenge;
+}
+
+export interface PasswordlessLoginResult {
+  accountId: number;
+  result: JwtTokens | MfaChallenge;
+}
+
+// How the account proved itself in the step that issued the tokens
+export type LoginMethod =
+  | 'password'
+  | 'magic_link'
+  | 'email_otp'
+  | 'sms_otp'
+  | 'passkey'
+  | 'social'
+  | 'two_factor'
+  | 'oauth';
+
+// SMS delivery
+export type SmsProviderName = 'console' | 'file' | 'http';
+
+export interface SmsSender {
+  send(phone: string, message: string): Promise<void>;
+}
+
+export interface SmsHttpResponse {
+  status: number;
+  body: unknown;
+}
+
+// Swapped out in tests so the HTTP provider can run against a fake gateway
+export interface SmsHttpClient {
+  postJson(url: string, body: Record<string, unknown>, headers: Record<string, string>): Promise<SmsHttpResponse>;
+}
+
+// Webhooks
+export type WebhookEventType =
+  | 'account.registered'
+  | 'account.verified'
+  | 'account.updated'
+  | 'account.deactivated'
+  | 'account.unlocked'
+  | 'login.succeeded'
+  | 'login.failed'
+  | 'password.changed'
+  | 'password.reset'
+  | 'role.granted'
+  | 'role.revoked'
+  | 'permission.granted'
+  | 'permission.revoked';
+
+// '*' subscribes to every event type, including ones added later
+export type WebhookEventFilter = WebhookEventType | '*';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export interface WebhookSubscription {
+  id: number;
+  url: string;
+  events: WebhookEventFilter[];
+  description: string | null;
+  is_active: boolean;
+  created_by?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// The plain secret is only returned when the subscription is created
+export interface WebhookSubscriptionWithSecret extends WebhookSubscription {
+  secret: string;
+}
+
+export interface CreateWebhookDto {
+  url: string;
+  events: WebhookEventFilter[];
+  secret?: string;
+  description?: string;
+}
+
+export interface UpdateWebhookDto {
+  url?: string;
+  events?: WebhookEventFilter[];
+  description?: string;
+  is_active?: boolean;
+}
+
+// What the receiver gets; id is shared by the deliveries of one event to every subscription
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  subscription_id: number;
+  event_type: WebhookEventType;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: Date | null;
+  created_at: Date;
+}
+
+export interface WebhookHttpResponse {
+  status: number;
+}
+
+// Swapped out in tests so deliveries can run against a fake receiver
+export interface WebhookHttpClient {
+  post(url: string, body: string, headers: Record<string, string>): Promise<WebhookHttpResponse>;
+}
+
+// Transactional outbox
+export type OutboxMessageType =
+  | 'email.verification'
+  | 'email.password_reset'
+  | 'email.password_changed'
+  | 'email.welcome'
+  | 'email.passkey_added'
+  | 'email.magic_link'
+  | 'email.otp'
+  | 'email.new_device_login'
+  | 'email.account_locked'
+  | 'email.recovery_code_used'
+  | 'sms.otp'
+  | 'webhook.event';
+
+// What each message type carries to its handler
+export interface OutboxPayloads {
+  'email.verification': { email: string; token: string; first_name?: string; locale?: EmailLocale };
+  'email.password_reset': { email: string; token: string; first_name?: string; locale?: EmailLocale };
+  'email.password_changed': { email: string; first_name?: string; ip_address?: string; locale?: EmailLocale };
+  'email.welcome': { email: string; first_name?: string; locale?: EmailLocale };
+  'email.passkey_added': { email: string; first_name?: string; passkey_name?: string; ip_address?: string; locale?: EmailLocale };
+  'email.magic_link': { email: string; token: string; first_name?: string; locale?: EmailLocale };
+  'email.otp': { email: string; code: string; first_name?: string; locale?: EmailLocale };
+  'email.new_device_login': {
+    email: string;
+    token: string;
+    device: ParsedUserAgent;
+    first_name?: string;
+    ip_address?: string;
+    locale?: EmailLocale;
+  };
+  'email.account_locked': { email: string; locked_until: string; first_name?: string; ip_address?: string; locale?: EmailLocale };
+  'email.recovery_code_used': {
+    email: string;
+    remaining_codes: number;
+    first_name?: string;
+    ip_address?: string;
+    locale?: EmailLocale;
+  };
+  'sms.otp': { phone: string; code: string };
+  'webhook.event': { type: WebhookEventType; data: Record<string, unknown> };
+}
+
+export type OutboxMessageStatus = 'pending' | 'dead';
+
+export interface OutboxMessage {
+  id: number;
+  type: OutboxMessageType;
+  status: OutboxMessageStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_error: string | null;
+  created_at: Date;
+}
+
+// Email templates
+export type EmailLocale = 'vi' | 'en';
+
+export type EmailTemplateName =
+  | 'verification'
+  | 'password_reset'
+  | 'magic_link'
+  | 'otp'
+  | 'password_changed'
+  | 'welcome'
+  | 'recovery_code_used'
+  | 'account_locked'
+  | 'new_device_login'
+  | 'passkey_added';
+
+// The copy of one email in one language. {{name}} inserts a variable, {{#name}}...{{/name}}
+// keeps a block only when the variable is set
+export interface EmailTemplateContent {
+  subject: string;
+  title: string;
+  html: string;
+  text: string;
+}
+
+// Words the service puts together itself, outside any one template
+export interface EmailLocaleStrings {
+  friend: string;
+  device_separator: string;
+  unknown_device: string;
+  footer: string;
+}
+
+export interface EmailLocaleFile {
+  strings: EmailLocaleStrings;
+  templates: Record<EmailTemplateName, EmailTemplateContent>;
+}
+
+export type EmailTemplateVariables = Record<string, string | number | null | undefined>;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTemplateInfo {
+  name: EmailTemplateName;
+  locales: EmailLocale[];
+  variables: string[];
+}
@@ -1,7 +1,7 @@
 import bcrypt from 'bcryptjs';
 import jwt, { SignOptions } from 'jsonwebtoken';
 import crypto from 'crypto';
-import { TokenPayload, JwtTokens } from '../types';
+import { TokenPayload, ClientTokenPayload, AccessTokenPayload, ClientAccessToken, IdTokenClaims, AuditExportClaims, JwtTokens, JwtAlgorithm, JwtSigningKey, JwtKeyRing, PublicJwk, JsonWebKeySet, ParsedUserAgent } from '../types';
 
 export class PasswordUtils {
   static async hash(password: string): Promise<string> {
@@ -9,7 +9,9 @@ export class PasswordUtils {
     return await bcrypt.hash(password, saltRounds);
   }
 
-  static async compare(password: string, hashedPassword: string): Promise<boolean> {
+  static async compare(password: string, hashedPassword: string | null): Promise<boolean> {
+    // Accounts without a password never match
+    if (!hashedPassword) return false;
     return await bcrypt.compare(password, hashedPassword);
   }
 
@@ -20,33 +22,49 @@ export class PasswordUtils {
   static hashToken(token: string): string {
     return crypto.createHash('sha256').update(token).digest('hex');
   }
+
+  static generateRecoveryCode(): string {
+    // 10 hex characters split for readability, e.g. "a1b2c-3d4e5"
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  }
+
+  static generateNumericCode(length: number = 6): string {
+    // randomInt is uniform, unlike taking random bytes modulo 10
+    return crypto.randomInt(0, 10 ** length).toString().padStart(length, '0');
+  }
 }
 
 export class JwtUtils {
+  private static signingKeyCache: { source: string; key: JwtSigningKey } | null = null;
+  private static keyRing: JwtKeyRing = { signingKey: null, verificationKeys: [] };
+  private static auditExportKeys: JwtSigningKey[] = [];
+
   static generateTokens(payload: TokenPayload): JwtTokens {
-    const accessSecret = process.env.JWT_ACCESS_SECRET!;
     const refreshSecret = process.env.JWT_REFRESH_SECRET!;
     const accessExpiresIn = process.env.JWT_ACCESS_EXPIRES_IN || '15m';
     const refreshExpiresIn = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
 
+    // In seconds, so the tokens expire exactly when the response says they do
     const accessTokenOptions: SignOptions = {
-      expiresIn: accessExpiresIn as any,
+      expiresIn: this.getTokenExpirationTime(accessExpiresIn),
       issuer: 'volcanion-auth',
       audience: 'volcanion-app'
     };
 
     const refreshTokenOptions: SignOptions = {
-      expiresIn: refreshExpiresIn as any,
+      expiresIn: this.getTokenExpirationTime(refreshExpiresIn),
       issuer: 'volcanion-auth',
       audience: 'volcanion-app'
     };
 
-    const accessToken = jwt.sign(payload, accessSecret, accessTokenOptions);
+    // Every token gets its own id so it can be revoked individually
+    const accessToken = this.signAccessToken(payload, { ...accessTokenOptions, jwtid: crypto.randomUUID() });
 
     const refreshToken = jwt.sign(
       { accountId: payload.accountId, email: payload.email },
       refreshSecret,
-      refreshTokenOptions
+      { ...refreshTokenOptions, jwtid: crypto.randomUUID() }
     );
 
     // Calculate expiration time in seconds
@@ -59,12 +77,93 @@ export class JwtUtils {
     };
   }
 
-  static verifyAccessToken(token: string): TokenPayload {
-    const secret = process.env.JWT_ACCESS_SECRET!;
-    return jwt.verify(token, secret, {
+  // Machine clients get a short-lived access token only; they authenticate again instead of refreshing
+  static generateClientAccessToken(payload: ClientTokenPayload): ClientAccessToken {
+    const accessExpiresIn = process.env.JWT_ACCESS_EXPIRES_IN || '15m';
+
+    const expiresIn = this.getTokenExpirationTime(accessExpiresIn);
+
+    const accessToken = this.signAccessToken(payload, {
+      expiresIn,
       issuer: 'volcanion-auth',
-      audience: 'volcanion-app'
-    }) as TokenPayload;
+      audience: 'volcanion-app',
+      jwtid: crypto.randomUUID()
+    });
+
+    return {
+      accessToken,
+      expiresIn
+    };
+  }
+
+  // The OIDC issuer and the client as audience keep an ID token from being accepted as an access token.
+  // Relying parties can only verify what is in the JWKS, so a shared HS256 secret never signs ID tokens
+  static generateIdToken(claims: IdTokenClaims, audience: string, issuer: string): string {
+    if (this.getSigningAlgorithm() === 'HS256') {
+      throw new Error('ID tokens require an RS256 or ES256 signing key');
+    }
+
+    return this.signAccessToken(claims, {
+      expiresIn: this.getAccessTokenExpiresIn(),
+      issuer,
+      audience
+    });
+  }
+
+  // No expiry: an auditor checks the export against the JWKS long after it was made, so it is signed
+  // with an asymmetric export key that never leaves the JWKS rather than with a token key
+  static signAuditExport(claims: AuditExportClaims): string {
+    const key = this.auditExportKeys[0];
+    if (!key) {
+      throw new Error('Audit export signing key is not loaded');
+    }
+
+    return jwt.sign(claims, key.privateKey, {
+      issuer: 'volcanion-auth',
+      audience: 'volcanion-audit-export',
+      algorithm: key.algorithm,
+      keyid: key.kid
+    });
+  }
+
+  static isClientToken(payload: AccessTokenPayload): payload is ClientTokenPayload {
+    return (payload as TokenPayload).accountId === undefined;
+  }
+
+  static verifyAccessToken(token: string): AccessTokenPayload {
+    if (this.keyRing.verificationKeys.length > 0) {
+      const decoded = jwt.decode(token, { complete: true });
+      const kid = decoded && typeof decoded === 'object' ? decoded.header.kid : undefined;
+      const ringKey = this.keyRing.verificationKeys.find(key => key.kid === kid);
+
+      // Once the ring is loaded it holds every key that may still verify; a retired environment key must not
+      if (!ringKey) {
+        throw new Error('unknown signing key');
+      }
+
+      return this.verifyWithKey(token, ringKey);
+    }
+
+    // Until the ring is loaded, tokens are signed with the key from the environment
+    if (this.getAlgorithm() === 'HS256') {
+      const secret = process.env.JWT_ACCESS_SECRET!;
+      return jwt.verify(token, secret, {
+        issuer: 'volcanion-auth',
+        audience: 'volcanion-app'
+      }) as AccessTokenPayload;
+    }
+
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('jwt malformed');
+    }
+
+    const key = this.getVerificationKey(decoded.header.kid);
+    if (!key) {
+      throw new Error('unknown signing key');
+    }
+
+    return this.verifyWithKey(token, key);
   }
 
   static verifyRefreshToken(token: string): { accountId: number; email: string } {
@@ -75,6 +174,167 @@ export class JwtUtils {
     }) as { accountId: number; email: string };
   }
 
+  static getAlgorithm(): JwtAlgorithm {
+    const algorithm = (process.env.JWT_ALGORITHM || 'HS256').toUpperCase();
+    if (algorithm !== 'HS256' && algorithm !== 'RS256' && algorithm !== 'ES256') {
+      throw new Error(`Unsupported JWT_ALGORITHM: ${algorithm}`);
+    }
+
+    return algorithm;
+  }
+
+  // Algorithm of the key that signs new tokens right now
+  static getSigningAlgorithm(): JwtAlgorithm {
+    return this.keyRing.signingKey?.algorithm || this.getAlgorithm();
+  }
+
+  // Parses the key from the environment once, so a malformed key stops the server at startup
+  static loadSigningKey(): void {
+    if (this.getAlgorithm() !== 'HS256' && this.hasStaticKey()) {
+      this.getSigningKey();
+    }
+  }
+
+  // Installed by KeyRingService; while the ring is empty the key from the environment is used
+  static setKeyRing(keyRing: JwtKeyRing): void {
+    this.keyRing = keyRing;
+  }
+
+  // Installed by KeyRingService, newest first; the newest one signs
+  static setAuditExportKeys(keys: JwtSigningKey[]): void {
+    this.auditExportKeys = keys;
+  }
+
+  // Public keys for resource servers and auditors; shared secrets are never published
+  static getJwks(): JsonWebKeySet {
+    const keys = this.keyRing.verificationKeys
+      .filter(key => key.algorithm !== 'HS256')
+      .map(key => this.toPublicJwk(key));
+
+    if (this.keyRing.verificationKeys.length === 0 && this.getAlgorithm() !== 'HS256' && this.hasStaticKey()) {
+      const staticKey = this.getSigningKey();
+      if (!keys.some(key => key.kid === staticKey.kid)) {
+        keys.push(this.toPublicJwk(staticKey));
+      }
+    }
+
+    for (const exportKey of this.auditExportKeys) {
+      keys.push(this.toPublicJwk(exportKey));
+    }
+
+    return { keys };
+  }
+
+  static getAccessTokenExpiresIn(): number {
+    return this.getTokenExpirationTime(process.env.JWT_ACCESS_EXPIRES_IN || '15m');
+  }
+
+  private static signAccessToken(payload: AccessTokenPayload | IdTokenClaims, options: SignOptions): string {
+    const ringKey = this.keyRing.signingKey;
+    if (ringKey) {
+      return jwt.sign(payload, ringKey.privateKey, { ...options, algorithm: ringKey.algorithm, keyid: ringKey.kid });
+    }
+
+    if (this.getAlgorithm() === 'HS256') {
+      return jwt.sign(payload, process.env.JWT_ACCESS_SECRET!, options);
+    }
+
+    const key = this.getSigningKey();
+    return jwt.sign(payload, key.privateKey, { ...options, algorithm: key.algorithm, keyid: key.kid });
+  }
+
+  private static verifyWithKey(token: string, key: JwtSigningKey): AccessTokenPayload {
+    // Pin the algorithm to the key so a token cannot pick a weaker one
+    return jwt.verify(token, key.publicKey, {
+      issuer: 'volcanion-auth',
+      audience: 'volcanion-app',
+      algorithms: [key.algorithm]
+    }) as AccessTokenPayload;
+  }
+
+  private static hasStaticKey(): boolean {
+    return Boolean(process.env.JWT_PRIVATE_KEY);
+  }
+
+  private static getVerificationKey(kid?: string): JwtSigningKey | null {
+    const key = this.getSigningKey();
+    return kid === key.kid ? key : null;
+  }
+
+  private static getSigningKey(): JwtSigningKey {
+    const source = (process.env.JWT_PRIVATE_KEY || '').replace(/\\n/g, '\n');
+    if (!source) {
+      throw new Error('JWT_PRIVATE_KEY is required for asymmetric signing');
+    }
+
+    const algorithm = this.getAlgorithm();
+    const cacheSource = `${algorithm}:${process.env.JWT_KEY_ID || ''}:${source}`;
+    if (this.signingKeyCache?.source === cacheSource) {
+      return this.signingKeyCache.key;
+    }
+
+    const key = this.createSigningKey(source, algorithm, process.env.JWT_KEY_ID);
+    this.signingKeyCache = { source: cacheSource, key };
+
+    return key;
+  }
+
+  static createSigningKey(privateKeyPem: string, algorithm: JwtAlgorithm, kid?: string): JwtSigningKey {
+    const privateKey = crypto.createPrivateKey(privateKeyPem);
+    const publicKey = crypto.createPublicKey(privateKey);
+
+    const expectedType = algorithm === 'RS256' ? 'rsa' : 'ec';
+    if (privateKey.asymmetricKeyType !== expectedType) {
+      throw new Error(`${algorithm} requires an ${expectedType.toUpperCase()} private key`);
+    }
+    if (algorithm === 'ES256' && privateKey.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+      throw new Error('ES256 requires a P-256 private key');
+    }
+
+    return {
+      kid: kid || this.getKeyThumbprint(publicKey),
+      algorithm,
+      privateKey,
+      publicKey
+    };
+  }
+
+  static createSecretSigningKey(secret: string, kid: string): JwtSigningKey {
+    const secretKey = crypto.createSecretKey(Buffer.from(secret, 'base64'));
+
+    return {
+      kid,
+      algorithm: 'HS256',
+      privateKey: secretKey,
+      publicKey: secretKey
+    };
+  }
+
+  static toPublicJwk(key: JwtSigningKey): PublicJwk {
+    const jwk = key.publicKey.export({ format: 'jwk' });
+    if (!jwk.kty) {
+      throw new Error(`Key ${key.kid} cannot be exported as a JWK`);
+    }
+
+    return {
+      ...jwk,
+      kty: jwk.kty,
+      kid: key.kid,
+      alg: key.algorithm,
+      use: 'sig'
+    };
+  }
+
+  // RFC 7638 JWK thumbprint, used as the default key id
+  private static getKeyThumbprint(publicKey: crypto.KeyObject): string {
+    const jwk = publicKey.export({ format: 'jwk' });
+    const members = jwk.kty === 'RSA'
+      ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+      : { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y };
+
+    return crypto.createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+  }
+
   private static getTokenExpirationTime(expiresIn: string): number {
     // Convert expiration time to seconds
     const match = expiresIn.match(/^(\d+)([mhd])$/);
@@ -92,6 +352,256 @@ export class JwtUtils {
   }
 }
 
+export class EncryptionUtils {
+  private static getKey(): Buffer {
+    const secret = process.env.DATA_ENCRYPTION_KEY;
+    if (!secret) {
+      throw new Error('DATA_ENCRYPTION_KEY is not set');
+    }
+
+    // Derive a fixed-length AES-256 key from the configured secret
+    return crypto.createHash('sha256').update(secret).digest();
+  }
+
+  static encrypt(plainText: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+
+    return [iv.toString('hex'), authTag.toString('hex'), encrypted.toString('hex')].join(':');
+  }
+
+  static decrypt(payload: string): string {
+    const [iv, authTag, encrypted] = payload.split(':');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.getKey(), Buffer.from(iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(authTag, 'hex'));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(encrypted, 'hex')),
+      decipher.final()
+    ]).toString('utf8');
+  }
+}
+
+export class TotpUtils {
+  private static readonly BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  private static readonly STEP_SECONDS = 30;
+  private static readonly DIGITS = 6;
+
+  static generateSecret(): string {
+    return this.base32Encode(crypto.randomBytes(20));
+  }
+
+  static getTimeStep(time: number = Date.now()): number {
+    return Math.floor(time / 1000 / this.STEP_SECONDS);
+  }
+
+  // RFC 6238 (HOTP from RFC 4226 over a 30 second time step, HMAC-SHA1)
+  static generateCode(secret: string, timeStep: number = this.getTimeStep()): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(timeStep));
+
+    const hmac = crypto.createHmac('sha1', this.base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % 10 ** this.DIGITS).toString().padStart(this.DIGITS, '0');
+  }
+
+  // Returns the matching time step so callers can reject replays, or null if the code is invalid
+  static verifyCode(secret: string, code: string, window: number = 1, time: number = Date.now()): number | null {
+    if (!/^\d{6}$/.test(code)) return null;
+
+    const currentStep = this.getTimeStep(time);
+    for (let drift = -window; drift <= window; drift++) {
+      const candidate = this.generateCode(secret, currentStep + drift);
+      if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(code))) {
+        return currentStep + drift;
+      }
+    }
+
+    return null;
+  }
+
+  static buildOtpAuthUrl(secret: string, accountName: string, issuer: string): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: this.DIGITS.toString(),
+      period: this.STEP_SECONDS.toString()
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  private static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        output += this.BASE32_ALPHABET.charAt((value >>> (bits - 5)) & 31);
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += this.BASE32_ALPHABET.charAt((value << (5 - bits)) & 31);
+    }
+
+    return output;
+  }
+
+  private static base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = this.BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 character');
+      }
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
+
+// Minimal RFC 8949 decoder for the definite-length items WebAuthn authenticators produce
+export class CborUtils {
+  private static readonly MAX_DEPTH = 16;
+
+  // Returns the first item and how many bytes it took, for CBOR embedded in a larger buffer
+  static decodeFirst(buffer: Buffer): { value: unknown; length: number } {
+    const state = { offset: 0 };
+    const value = this.readItem(buffer, state, 0);
+
+    return { value, length: state.offset };
+  }
+
+  static decode(buffer: Buffer): unknown {
+    const { value, length } = this.decodeFirst(buffer);
+    if (length !== buffer.length) {
+      throw new Error('Unexpected data after CBOR item');
+    }
+
+    return value;
+  }
+
+  private static readItem(buffer: Buffer, state: { offset: number }, depth: number): unknown {
+    if (depth > this.MAX_DEPTH) {
+      throw new Error('CBOR data is nested too deeply');
+    }
+
+    const initialByte = this.readBytes(buffer, state, 1)[0];
+    const majorType = initialByte >> 5;
+    const additionalInfo = initialByte & 0x1f;
+
+    if (majorType === 7) {
+      return this.readSimpleValue(buffer, state, additionalInfo);
+    }
+
+    const argument = this.readArgument(buffer, state, additionalInfo);
+
+    switch (majorType) {
+      case 0:
+        return argument;
+      case 1:
+        return -1 - argument;
+      case 2:
+        return Buffer.from(this.readBytes(buffer, state, argument));
+      case 3:
+        return this.readBytes(buffer, state, argument).toString('utf8');
+      case 4: {
+        const items: unknown[] = [];
+        for (let i = 0; i < argument; i++) {
+          items.push(this.readItem(buffer, state, depth + 1));
+        }
+        return items;
+      }
+      case 5: {
+        const map = new Map<unknown, unknown>();
+        for (let i = 0; i < argument; i++) {
+          const key = this.readItem(buffer, state, depth + 1);
+          map.set(key, this.readItem(buffer, state, depth + 1));
+        }
+        return map;
+      }
+      default:
+        // Tags carry no meaning for WebAuthn, only the tagged item matters
+        return this.readItem(buffer, state, depth + 1);
+    }
+  }
+
+  private static readArgument(buffer: Buffer, state: { offset: number }, additionalInfo: number): number {
+    if (additionalInfo < 24) return additionalInfo;
+
+    switch (additionalInfo) {
+      case 24:
+        return this.readBytes(buffer, state, 1).readUInt8(0);
+      case 25:
+        return this.readBytes(buffer, state, 2).readUInt16BE(0);
+      case 26:
+        return this.readBytes(buffer, state, 4).readUInt32BE(0);
+      case 27: {
+        const value = this.readBytes(buffer, state, 8).readBigUInt64BE(0);
+        if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+          throw new Error('CBOR integer is too large');
+        }
+        return Number(value);
+      }
+      default:
+        throw new Error('Indefinite-length CBOR items are not supported');
+    }
+  }
+
+  private static readSimpleValue(buffer: Buffer, state: { offset: number }, additionalInfo: number): unknown {
+    switch (additionalInfo) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      case 26:
+        return this.readBytes(buffer, state, 4).readFloatBE(0);
+      case 27:
+        return this.readBytes(buffer, state, 8).readDoubleBE(0);
+      default:
+        throw new Error('Unsupported CBOR simple value');
+    }
+  }
+
+  private static readBytes(buffer: Buffer, state: { offset: number }, length: number): Buffer {
+    if (state.offset + length > buffer.length) {
+      throw new Error('Truncated CBOR data');
+    }
+
+    const bytes = buffer.subarray(state.offset, state.offset + length);
+    state.offset += length;
+    return bytes;
+  }
+}
+
 export class ValidationUtils {
   static isValidEmail(email: string): boolean {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -110,11 +620,87 @@ export class ValidationUtils {
     return phoneRegex.test(phone);
   }
 
+  // Numbers are stored in E.164 form so 0912345678, 84912345678 and +84912345678 match each other
+  static normalizePhone(phone: string): string | null {
+    const compact = phone.replace(/[\s.-]/g, '');
+    if (!this.isValidPhone(compact)) return null;
+
+    return `+84${compact.replace(/^(\+84|84|0)/, '')}`;
+  }
+
+  static isValidRedirectUri(uri: string): boolean {
+    // Fragments are never allowed (RFC 6749 section 3.1.2)
+    if (uri.includes('#')) return false;
+
+    let url: URL;
+    try {
+      url = new URL(uri);
+    } catch {
+      return false;
+    }
+
+    if (url.protocol === 'https:') return true;
+
+    // Plain http only for loopback redirects of native apps (RFC 8252 section 7.3)
+    if (url.protocol === 'http:') {
+      return ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+    }
+
+    // Private-use schemes of mobile apps must be reverse domain names, e.g. com.example.app:/callback
+    return /^[a-z][a-z0-9+-]*(\.[a-z0-9+-]+)+:$/.test(url.protocol);
+  }
+
   static sanitizeString(str: string): string {
     return str.trim().replace(/[<>]/g, '');
   }
 }
 
+// Enough to label a session for its owner ("Chrome on Windows"), not for feature detection.
+// Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+const BROWSER_PATTERNS: Array<[string, RegExp]> = [
+  ['Edge', /Edg(e|A|iOS)?\/[\d.]+/],
+  ['Opera', /OPR\/[\d.]+|Opera/],
+  ['Samsung Internet', /SamsungBrowser\/[\d.]+/],
+  ['Firefox', /Firefox\/[\d.]+|FxiOS\/[\d.]+/],
+  ['Chrome', /Chrome\/[\d.]+|CriOS\/[\d.]+/],
+  ['Safari', /Version\/[\d.]+.*Safari\//]
+];
+
+const OS_PATTERNS: Array<[string, RegExp]> = [
+  ['Windows', /Windows NT/],
+  ['Android', /Android/],
+  ['iOS', /iPhone|iPad|iPod/],
+  ['macOS', /Mac OS X|Macintosh/],
+  ['ChromeOS', /CrOS/],
+  ['Linux', /Linux/]
+];
+
+export class UserAgentUtils {
+  static parse(userAgent?: string | null): ParsedUserAgent {
+    if (!userAgent) {
+      return { browser: null, os: null, device: 'unknown' };
+    }
+
+    const browser = BROWSER_PATTERNS.find(([, pattern]) => pattern.test(userAgent));
+    const os = OS_PATTERNS.find(([, pattern]) => pattern.test(userAgent));
+
+    return {
+      browser: browser ? browser[0] : null,
+      os: os ? os[0] : null,
+      device: this.detectDevice(userAgent)
+    };
+  }
+
+  private static detectDevice(userAgent: string): ParsedUserAgent['device'] {
+    if (/bot|crawler|spider/i.test(userAgent)) return 'bot';
+    if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) return 'tablet';
+    if (/Mobi|iPhone|iPod/.test(userAgent)) return 'mobile';
+    if (/Windows NT|Macintosh|X11|CrOS/.test(userAgent)) return 'desktop';
+
+    return 'unknown';
+  }
+}
+
 export class DateUtils {
   static addMinutes(date: Date, minutes: number): Date {
     return new Date(date.getTime() + minutes * 60000);
@@ -3,12 +3,20 @@ import { AccountController } from '../../src/controllers/accountController';
 
 // Mock dependencies
 jest.mock('../../src/services/accountService');
-jest.mock('../../src/services/emailService');
+jest.mock('../../src/services/authService');
+jest.mock('../../src/services/auditService');
+jest.mock('../../src/services/otpService');
+jest.mock('../../src/services/lockoutService');
+jest.mock('../../src/services/outboxService');
 jest.mock('../../src/utils');
 
 import { AccountService } from '../../src/services/accountService';
-import { EmailService } from '../../src/services/emailService';
-import { PasswordUtils, ResponseUtils } from '../../src/utils';
+import { AuthService } from '../../src/services/authService';
+import { AuditService } from '../../src/services/auditService';
+import { OtpService } from '../../src/services/otpService';
+import { LockoutService } from '../../src/services/lockoutService';
+import { OutboxService } from '../../src/services/outboxService';
+import { PasswordUtils, ResponseUtils, ValidationUtils } from '../../src/utils';
 
 describe('AccountController Unit Tests', () => {
   let mockRequest: Partial<Request>;
@@ -33,6 +41,10 @@ describe('AccountController Unit Tests', () => {
 
     mockNext = jest.fn();
 
+    // Step-up checks run against the mocked OtpService and PasswordUtils
+    const { AuthService: ActualAuthService } = jest.requireActual('../../src/services/authService');
+    (AuthService.confirmIdentity as jest.Mock).mockImplementation(ActualAuthService.confirmIdentity);
+
     // Mock ResponseUtils methods
     (ResponseUtils.success as jest.Mock) = jest.fn((data, message) => ({
       success: true,
@@ -155,20 +167,16 @@ describe('AccountController Unit Tests', () => {
       (PasswordUtils.compare as jest.Mock)
         .mockResolvedValueOnce(true)  // Current password valid
         .mockResolvedValueOnce(false); // New password different
-      (AccountService.updatePassword as jest.Mock).mockResolvedValue(true);
-      (EmailService.sendPasswordChangeNotification as jest.Mock).mockResolvedValue(true);
+      (AuthService.changePassword as jest.Mock).mockResolvedValue(true);
 
       await AccountController.changePassword(mockRequest as Request, mockResponse as Response);
 
       expect(AccountService.findById).toHaveBeenCalledWith(1);
       expect(PasswordUtils.compare).toHaveBeenCalledWith('oldpassword', 'hashedoldpassword');
       expect(PasswordUtils.compare).toHaveBeenCalledWith('newpassword123', 'hashedoldpassword');
-      expect(AccountService.updatePassword).toHaveBeenCalledWith(1, 'newpassword123');
-      expect(EmailService.sendPasswordChangeNotification).toHaveBeenCalledWith(
-        'test@example.com',
-        'John',
-        '192.168.1.1'
-      );
+      expect(AuthService.changePassword).toHaveBeenCalledWith(mockAccount, 'newpassword123', '192.168.1.1');
+      expect(AuthService.logoutAll).toHaveBeenCalledWith(1);
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'password_changed', { targetAccountId: 1 });
       expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Đổi mật khẩu thành công');
     });
 
@@ -237,7 +245,7 @@ describe('AccountController Unit Tests', () => {
       (PasswordUtils.compare as jest.Mock)
         .mockResolvedValueOnce(true)
         .mockResolvedValueOnce(false);
-      (AccountService.updatePassword as jest.Mock).mockResolvedValue(false);
+      (AuthService.changePassword as jest.Mock).mockResolvedValue(false);
 
       await AccountController.changePassword(mockRequest as Request, mockResponse as Response);
 
@@ -258,6 +266,176 @@ describe('AccountController Unit Tests', () => {
       expect(ResponseUtils.error).toHaveBeenCalledWith('Lỗi trong quá trình đổi mật khẩu');
       expect(mockResponse.status).toHaveBeenCalledWith(500);
     });
+
+    it('should accept a step-up code instead of the current password', async () => {
+      const mockAccount = { id: 1, email: 'test@example.com', password: null };
+
+      mockRequest.body = { otp_code: '123456', new_password: 'newpassword123' };
+
+      (AccountService.findById as jest.Mock).mockResolvedValue(mockAccount);
+      (OtpService.verifyCode as jest.Mock).mockResolvedValue(true);
+      (PasswordUtils.compare as jest.Mock).mockResolvedValue(false);
+      (AuthService.changePassword as jest.Mock).mockResolvedValue(true);
+
+      await AccountController.changePassword(mockRequest as Request, mockResponse as Response);
+
+      expect(OtpService.verifyCode).toHaveBeenCalledWith(1, 'step_up', '123456');
+      expect(PasswordUtils.compare).toHaveBeenCalledTimes(1);
+      expect(AuthService.changePassword).toHaveBeenCalledWith(mockAccount, 'newpassword123', '192.168.1.1');
+      expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Đổi mật khẩu thành công');
+    });
+
+    it('should reject a wrong step-up code', async () => {
+      mockRequest.body = { otp_code: '000000', new_password: 'newpassword123' };
+
+      (AccountService.findById as jest.Mock).mockResolvedValue({ id: 1, password: 'hashedoldpassword' });
+      (OtpService.verifyCode as jest.Mock).mockResolvedValue(false);
+
+      await AccountController.changePassword(mockRequest as Request, mockResponse as Response);
+
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Mã xác thực không chính xác hoặc đã hết hạn');
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(AuthService.changePassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestStepUpCode', () => {
+    it('should email a step-up code', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue({ id: 1, email: 'test@example.com', first_name: 'John', preferred_locale: 'en' });
+      (OtpService.issueCode as jest.Mock).mockResolvedValue('123456');
+
+      await AccountController.requestStepUpCode(mockRequest as Request, mockResponse as Response);
+
+      expect(OtpService.issueCode).toHaveBeenCalledWith(1, 'step_up');
+      expect(OutboxService.enqueue).toHaveBeenCalledWith('email.otp', {
+        email: 'test@example.com',
+        code: '123456',
+        first_name: 'John',
+        locale: 'en'
+      });
+      expect(ResponseUtils.success).toHaveBeenCalledWith(
+        { expiresIn: OtpService.CODE_TTL_SECONDS },
+        'Mã xác thực đã được gửi đến email của bạn'
+      );
+    });
+
+    it('should refuse a new code within the resend interval', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue({ id: 1, email: 'test@example.com' });
+      (OtpService.issueCode as jest.Mock).mockResolvedValue(null);
+
+      await AccountController.requestStepUpCode(mockRequest as Request, mockResponse as Response);
+
+      expect(OutboxService.enqueue).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(429);
+    });
+
+    it('should fail when the email cannot be queued', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue({ id: 1, email: 'test@example.com' });
+      (OtpService.issueCode as jest.Mock).mockResolvedValue('123456');
+      (OutboxService.enqueue as jest.Mock).mockRejectedValue(new Error('Database error'));
+
+      await AccountController.requestStepUpCode(mockRequest as Request, mockResponse as Response);
+
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Lỗi gửi mã xác thực');
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('requestPhoneVerification', () => {
+    it('should text a code bound to the normalized number', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue({ id: 1, phone: '0912345678', phone_verified_at: null });
+      (ValidationUtils.normalizePhone as jest.Mock).mockReturnValue('+84912345678');
+      (OtpService.issueCode as jest.Mock).mockResolvedValue('123456');
+
+      await AccountController.requestPhoneVerification(mockRequest as Request, mockResponse as Response);
+
+      expect(OtpService.issueCode).toHaveBeenCalledWith(1, 'phone_verification', '+84912345678');
+      expect(OutboxService.enqueue).toHaveBeenCalledWith('sms.otp', { phone: '+84912345678', code: '123456' });
+      expect(ResponseUtils.success).toHaveBeenCalledWith(
+        { expiresIn: OtpService.CODE_TTL_SECONDS },
+        'Mã xác thực đã được gửi đến số điện thoại của bạn'
+      );
+    });
+
+    it('should require a phone number on the profile', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue({ id: 1, phone: null });
+
+      await AccountController.requestPhoneVerification(mockRequest as Request, mockResponse as Response);
+
+      expect(OtpService.issueCode).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should refuse an already verified number', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue({ id: 1, phone: '+84912345678', phone_verified_at: new Date() });
+
+      await AccountController.requestPhoneVerification(mockRequest as Request, mockResponse as Response);
+
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Số điện thoại đã được xác thực');
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should refuse a new code within the resend interval', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue({ id: 1, phone: '0912345678', phone_verified_at: null });
+      (ValidationUtils.normalizePhone as jest.Mock).mockReturnValue('+84912345678');
+      (OtpService.issueCode as jest.Mock).mockResolvedValue(null);
+
+      await AccountController.requestPhoneVerification(mockRequest as Request, mockResponse as Response);
+
+      expect(OutboxService.enqueue).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(429);
+    });
+
+    it('should fail when the SMS cannot be queued', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue({ id: 1, phone: '0912345678', phone_verified_at: null });
+      (ValidationUtils.normalizePhone as jest.Mock).mockReturnValue('+84912345678');
+      (OtpService.issueCode as jest.Mock).mockResolvedValue('123456');
+      (OutboxService.enqueue as jest.Mock).mockRejectedValue(new Error('Database error'));
+
+      await AccountController.requestPhoneVerification(mockRequest as Request, mockResponse as Response);
+
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Lỗi gửi mã xác thực');
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('verifyPhone', () => {
+    beforeEach(() => {
+      mockRequest.body = { code: '123456' };
+      (AccountService.findById as jest.Mock).mockResolvedValue({ id: 1, phone: '0912345678', phone_verified_at: null });
+      (ValidationUtils.normalizePhone as jest.Mock).mockReturnValue('+84912345678');
+    });
+
+    it('should mark the number as verified', async () => {
+      (OtpService.verifyCode as jest.Mock).mockResolvedValue(true);
+      (AccountService.findByVerifiedPhone as jest.Mock).mockResolvedValue(null);
+      (AccountService.markPhoneVerified as jest.Mock).mockResolvedValue(true);
+
+      await AccountController.verifyPhone(mockRequest as Request, mockResponse as Response);
+
+      expect(OtpService.verifyCode).toHaveBeenCalledWith(1, 'phone_verification', '123456', '+84912345678');
+      expect(AccountService.markPhoneVerified).toHaveBeenCalledWith(1, '+84912345678');
+      expect(ResponseUtils.success).toHaveBeenCalledWith({ phone: '+84912345678' }, 'Xác thực số điện thoại thành công');
+    });
+
+    it('should reject a wrong or expired code', async () => {
+      (OtpService.verifyCode as jest.Mock).mockResolvedValue(false);
+
+      await AccountController.verifyPhone(mockRequest as Request, mockResponse as Response);
+
+      expect(AccountService.markPhoneVerified).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should refuse a number verified by another account', async () => {
+      (OtpService.verifyCode as jest.Mock).mockResolvedValue(true);
+      (AccountService.findByVerifiedPhone as jest.Mock).mockResolvedValue({ id: 2, phone: '+84912345678' });
+
+      await AccountController.verifyPhone(mockRequest as Request, mockResponse as Response);
+
+      expect(AccountService.markPhoneVerified).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+    });
   });
 
   describe('updateAvatar', () => {
@@ -325,6 +503,7 @@ describe('AccountController Unit Tests', () => {
       expect(AccountService.findById).toHaveBeenCalledWith(1);
       expect(PasswordUtils.compare).toHaveBeenCalledWith('correctpassword', 'hashedpassword');
       expect(AccountService.deactivateAccount).toHaveBeenCalledWith(1);
+      expect(AuthService.logoutAll).toHaveBeenCalledWith(1);
       expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Vô hiệu hóa tài khoản thành công');
     });
 
@@ -333,7 +512,7 @@ describe('AccountController Unit Tests', () => {
 
       await AccountController.deactivateAccount(mockRequest as Request, mockResponse as Response);
 
-      expect(ResponseUtils.error).toHaveBeenCalledWith('Mật khẩu là bắt buộc để vô hiệu hóa tài khoản');
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Mật khẩu hoặc mã xác thực email là bắt buộc để vô hiệu hóa tài khoản');
       expect(mockResponse.status).toHaveBeenCalledWith(400);
     });
 
@@ -389,6 +568,32 @@ describe('AccountController Unit Tests', () => {
       expect(ResponseUtils.error).toHaveBeenCalledWith('Lỗi vô hiệu hóa tài khoản');
       expect(mockResponse.status).toHaveBeenCalledWith(500);
     });
+
+    it('should accept a step-up code instead of the password', async () => {
+      mockRequest.body = { otp_code: '123456' };
+
+      (AccountService.findById as jest.Mock).mockResolvedValue({ id: 1, password: null });
+      (OtpService.verifyCode as jest.Mock).mockResolvedValue(true);
+      (AccountService.deactivateAccount as jest.Mock).mockResolvedValue(true);
+
+      await AccountController.deactivateAccount(mockRequest as Request, mockResponse as Response);
+
+      expect(OtpService.verifyCode).toHaveBeenCalledWith(1, 'step_up', '123456');
+      expect(PasswordUtils.compare).not.toHaveBeenCalled();
+      expect(AccountService.deactivateAccount).toHaveBeenCalledWith(1);
+    });
+
+    it('should reject a wrong step-up code', async () => {
+      mockRequest.body = { otp_code: '000000' };
+
+      (AccountService.findById as jest.Mock).mockResolvedValue({ id: 1, password: 'hashedpassword' });
+      (OtpService.verifyCode as jest.Mock).mockResolvedValue(false);
+
+      await AccountController.deactivateAccount(mockRequest as Request, mockResponse as Response);
+
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Mã xác thực không chính xác hoặc đã hết hạn');
+      expect(AccountService.deactivateAccount).not.toHaveBeenCalled();
+    });
   });
 
   describe('getAllAccounts', () => {
@@ -495,15 +700,22 @@ describe('AccountController Unit Tests', () => {
       const updateData = { first_name: 'Updated', last_name: 'User' };
       const updatedAccount = { id: 2, ...updateData };
 
+      const before = { id: 2, first_name: 'Old', last_name: 'User' };
+      const changes = { first_name: { from: 'Old', to: 'Updated' } };
+
       mockRequest.params = { id: '2' };
       mockRequest.body = updateData;
 
+      (AccountService.findById as jest.Mock).mockResolvedValue(before);
       (AccountService.updateAccount as jest.Mock).mockResolvedValue(true);
       (AccountService.getAccountWithPermissions as jest.Mock).mockResolvedValue(updatedAccount);
+      (AuditService.diff as jest.Mock).mockReturnValue(changes);
 
       await AccountController.adminUpdateAccount(mockRequest as Request, mockResponse as Response);
 
       expect(AccountService.updateAccount).toHaveBeenCalledWith(2, updateData);
+      expect(AuditService.diff).toHaveBeenCalledWith(before, updateData);
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'account_updated', { targetAccountId: 2, changes });
       expect(AccountService.getAccountWithPermissions).toHaveBeenCalledWith(2);
       expect(ResponseUtils.success).toHaveBeenCalledWith(updatedAccount, 'Cập nhật tài khoản thành công');
     });
@@ -518,6 +730,7 @@ describe('AccountController Unit Tests', () => {
 
       expect(ResponseUtils.error).toHaveBeenCalledWith('Không có thông tin nào được cập nhật');
       expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(AuditService.recordRequest).not.toHaveBeenCalled();
     });
 
     it('should handle admin update errors', async () => {
@@ -542,6 +755,11 @@ describe('AccountController Unit Tests', () => {
       await AccountController.adminDeactivateAccount(mockRequest as Request, mockResponse as Response);
 
       expect(AccountService.deactivateAccount).toHaveBeenCalledWith(2);
+      expect(AuthService.logoutAll).toHaveBeenCalledWith(2);
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'account_deactivated', {
+        targetAccountId: 2,
+        changes: { is_active: { from: true, to: false } }
+      });
       expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Vô hiệu hóa tài khoản thành công');
     });
 
@@ -611,4 +829,60 @@ describe('AccountController Unit Tests', () => {
       expect(mockResponse.status).toHaveBeenCalledWith(500);
     });
   });
+
+  describe('getLockedAccounts', () => {
+    it('should list locked accounts with pagination', async () => {
+      const mockResult = {
+        accounts: [{ id: 3, email: 'locked@example.com', locked_until: new Date(), lockout_count: 2 }],
+        total: 1,
+        page: 1,
+        limit: 10,
+        totalPages: 1
+      };
+      mockRequest.query = { page: '1', limit: '10' };
+
+      (LockoutService.getLockedAccounts as jest.Mock).mockResolvedValue(mockResult);
+
+      await AccountController.getLockedAccounts(mockRequest as Request, mockResponse as Response);
+
+      expect(LockoutService.getLockedAccounts).toHaveBeenCalledWith(1, 10);
+      expect(ResponseUtils.paginated).toHaveBeenCalledWith(
+        mockResult.accounts,
+        1,
+        1,
+        10,
+        'Lấy danh sách tài khoản bị khóa thành công'
+      );
+    });
+  });
+
+  describe('adminUnlockAccount', () => {
+    it('should unlock the account and record who did it', async () => {
+      mockRequest.params = { id: '3' };
+
+      (LockoutService.unlock as jest.Mock).mockResolvedValue(true);
+
+      await AccountController.adminUnlockAccount(mockRequest as Request, mockResponse as Response);
+
+      expect(LockoutService.unlock).toHaveBeenCalledWith(3);
+      expect(AuthService.recordSecurityEvent).toHaveBeenCalledWith(3, 'account_unlocked', '192.168.1.1', { unlocked_by: 1 });
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'account_unlocked', { targetAccountId: 3 });
+      expect(OutboxService.enqueue).toHaveBeenCalledWith('webhook.event', {
+        type: 'account.unlocked',
+        data: { account_id: 3, unlocked_by: 1 }
+      });
+      expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Mở khóa tài khoản thành công');
+    });
+
+    it('should return 404 when the account is not locked', async () => {
+      mockRequest.params = { id: '3' };
+
+      (LockoutService.unlock as jest.Mock).mockResolvedValue(false);
+
+      await AccountController.adminUnlockAccount(mockRequest as Request, mockResponse as Response);
+
+      expect(AuthService.recordSecurityEvent).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+    });
+  });
 });
@@ -0,0 +1,163 @@
+import { Request, Response } from 'express';
+import { AuditController } from '../../src/controllers/auditController';
+import { AuditService } from '../../src/services/auditService';
+import { ResponseUtils } from '../../src/utils';
+
+// Mock the dependencies
+jest.mock('../../src/services/auditService');
+jest.mock('../../src/utils');
+
+const mockAuditService = AuditService as jest.Mocked<typeof AuditService>;
+const mockResponseUtils = ResponseUtils as jest.Mocked<typeof ResponseUtils>;
+
+describe('AuditController', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockJson: jest.Mock;
+  let mockStatus: jest.Mock;
+
+  beforeEach(() => {
+    mockJson = jest.fn();
+    mockStatus = jest.fn().mockReturnValue({ json: mockJson });
+
+    mockRequest = { query: {} };
+    mockResponse = {
+      json: mockJson,
+      status: mockStatus
+    };
+
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('list', () => {
+    it('should pass the filters to the service and paginate the result', async () => {
+      const from = new Date('2024-01-01T00:00:00Z');
+      mockRequest = { query: { page: 2, limit: 50, action: 'login_failed', target_account_id: 7, from } as any };
+      mockAuditService.listEvents.mockResolvedValue({
+        events: [{ id: 1 }] as any,
+        total: 51,
+        page: 2,
+        limit: 50,
+        totalPages: 2
+      });
+
+      await AuditController.list(mockRequest as Request, mockResponse as Response);
+
+      expect(mockAuditService.listEvents).toHaveBeenCalledWith({
+        page: 2,
+        limit: 50,
+        action: 'login_failed',
+        actor_account_id: undefined,
+        target_account_id: 7,
+        from,
+        to: undefined
+      });
+      expect(mockResponseUtils.paginated).toHaveBeenCalledWith([{ id: 1 }], 51, 2, 50, 'Lấy nhật ký kiểm toán thành công');
+    });
+
+    it('should default to the first page', async () => {
+      mockAuditService.listEvents.mockResolvedValue({ events: [], total: 0, page: 1, limit: 20, totalPages: 0 });
+
+      await AuditController.list(mockRequest as Request, mockResponse as Response);
+
+      expect(mockAuditService.listEvents).toHaveBeenCalledWith(expect.objectContaining({ page: 1, limit: 20 }));
+    });
+
+    it('should handle errors', async () => {
+      mockAuditService.listEvents.mockRejectedValue(new Error('Database error'));
+
+      await AuditController.list(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('List audit events error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+      expect(mockResponseUtils.error).toHaveBeenCalledWith('Lỗi lấy nhật ký kiểm toán');
+    });
+  });
+
+  describe('verify', () => {
+    it('should report an intact chain', async () => {
+      const result = { valid: true, checked: 3, last_event_id: 3 };
+      const writer = { pending_events: 2, dropped_events: 0, last_error: 'Database error', last_error_at: '2024-01-01T00:00:00.000Z' };
+      mockAuditService.verifyChain.mockResolvedValue(result);
+      mockAuditService.getWriterStatus.mockResolvedValue(writer);
+
+      await AuditController.verify(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponseUtils.success).toHaveBeenCalledWith({ ...result, writer }, 'Nhật ký kiểm toán toàn vẹn');
+    });
+
+    it('should report the first broken link', async () => {
+      const result = {
+        valid: false,
+        checked: 1,
+        last_event_id: 1,
+        broken_at: { id: 2, reason: 'hash_mismatch' as const }
+      };
+      mockAuditService.verifyChain.mockResolvedValue(result);
+
+      await AuditController.verify(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponseUtils.success).toHaveBeenCalledWith(
+        expect.objectContaining(result),
+        'Phát hiện nhật ký kiểm toán đã bị chỉnh sửa hoặc xóa'
+      );
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportRange', () => {
+    const from = new Date('2024-01-01T00:00:00Z');
+    const to = new Date('2024-02-01T00:00:00Z');
+
+    beforeEach(() => {
+      mockRequest = { query: { from, to } as any };
+    });
+
+    it('should return the signed export and record it', async () => {
+      const exported = {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        count: 0,
+        first_id: null,
+        last_id: null,
+        start_hash: null,
+        end_hash: null,
+        events: [],
+        signature: 'signature'
+      };
+      const changes = { count: { from: null, to: 0 } };
+      mockAuditService.exportRange.mockResolvedValue(exported);
+      mockAuditService.diff.mockReturnValue(changes);
+
+      await AuditController.exportRange(mockRequest as Request, mockResponse as Response);
+
+      expect(mockAuditService.exportRange).toHaveBeenCalledWith(from, to);
+      expect(mockAuditService.diff).toHaveBeenCalledWith(null, { from: exported.from, to: exported.to, count: 0 });
+      expect(mockAuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'audit_exported', { changes });
+      expect(mockResponseUtils.success).toHaveBeenCalledWith(exported, 'Xuất nhật ký kiểm toán thành công');
+    });
+
+    it('should refuse a range with too many events', async () => {
+      mockAuditService.exportRange.mockResolvedValue(null);
+
+      await AuditController.exportRange(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockAuditService.recordRequest).not.toHaveBeenCalled();
+    });
+
+    it('should handle errors', async () => {
+      mockAuditService.exportRange.mockRejectedValue(new Error('Database error'));
+
+      await AuditController.exportRange(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('Export audit events error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+});
@@ -1,14 +1,26 @@
 import { Request, Response } from 'express';
 import { AuthController } from '../../src/controllers/authController';
 import { AuthService } from '../../src/services/authService';
+import { AuditService } from '../../src/services/auditService';
 import { AccountService } from '../../src/services/accountService';
 import { EmailService } from '../../src/services/emailService';
-import { ResponseUtils } from '../../src/utils';
+import { LockoutService } from '../../src/services/lockoutService';
+import { KnownDeviceService } from '../../src/services/knownDeviceService';
+import { TokenRevocationService } from '../../src/services/tokenRevocationService';
+import { OtpService } from '../../src/services/otpService';
+import { OutboxService } from '../../src/services/outboxService';
+import { JwtUtils, PasswordUtils, ResponseUtils, ValidationUtils } from '../../src/utils';
 
 // Mock the dependencies
 jest.mock('../../src/services/authService');
+jest.mock('../../src/services/auditService');
 jest.mock('../../src/services/accountService');
 jest.mock('../../src/services/emailService');
+jest.mock('../../src/services/lockoutService');
+jest.mock('../../src/services/knownDeviceService');
+jest.mock('../../src/services/tokenRevocationService');
+jest.mock('../../src/services/otpService');
+jest.mock('../../src/services/outboxService');
 jest.mock('../../src/utils');
 
 describe('AuthController', () => {
@@ -49,69 +61,43 @@ describe('AuthController', () => {
     });
 
     it('should register user successfully', async () => {
-      (AccountService.createAccount as jest.Mock).mockResolvedValue(1);
-      (AuthService.createEmailVerification as jest.Mock).mockResolvedValue('verify-token');
-      (EmailService.sendVerificationEmail as jest.Mock).mockResolvedValue(true);
+      (AuthService.register as jest.Mock).mockResolvedValue(1);
       (ResponseUtils.success as jest.Mock).mockReturnValue({
         success: true,
         data: {
           accountId: 1,
-          message: 'Đăng ký thành công. Vui lòng kiểm tra email để xác thực tài khoản.',
-          emailSent: true
+          message: 'Đăng ký thành công. Vui lòng kiểm tra email để xác thực tài khoản.'
         }
       });
 
       await AuthController.register(mockRequest as Request, mockResponse as Response);
 
-      expect(AccountService.createAccount).toHaveBeenCalledWith({
+      expect(AuthService.register).toHaveBeenCalledWith({
         email: 'test@example.com',
         password: 'password123',
         first_name: 'John',
         last_name: 'Doe'
       });
-      expect(AuthService.createEmailVerification).toHaveBeenCalledWith(1);
-      expect(EmailService.sendVerificationEmail).toHaveBeenCalledWith('test@example.com', 'verify-token', 'John');
       expect(ResponseUtils.success).toHaveBeenCalledWith({
         accountId: 1,
-        message: 'Đăng ký thành công. Vui lòng kiểm tra email để xác thực tài khoản.',
-        emailSent: true
+        message: 'Đăng ký thành công. Vui lòng kiểm tra email để xác thực tài khoản.'
       }, 'Đăng ký thành công');
       expect(mockStatus).toHaveBeenCalledWith(201);
       expect(mockJson).toHaveBeenCalled();
     });
 
-    it('should handle email sending failure', async () => {
-      (AccountService.createAccount as jest.Mock).mockResolvedValue(1);
-      (AuthService.createEmailVerification as jest.Mock).mockResolvedValue('verify-token');
-      (EmailService.sendVerificationEmail as jest.Mock).mockResolvedValue(false);
-      (ResponseUtils.success as jest.Mock).mockReturnValue({
-        success: true,
-        data: {
-          accountId: 1,
-          message: 'Đăng ký thành công. Vui lòng kiểm tra email để xác thực tài khoản.',
-          emailSent: false
-        }
-      });
-
-      // Mock console.warn
-      const consolWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    it('should leave the verification email to the outbox', async () => {
+      (AuthService.register as jest.Mock).mockResolvedValue(1);
 
       await AuthController.register(mockRequest as Request, mockResponse as Response);
 
-      expect(consolWarnSpy).toHaveBeenCalledWith('Failed to send verification email for account:', 1);
-      expect(ResponseUtils.success).toHaveBeenCalledWith({
-        accountId: 1,
-        message: 'Đăng ký thành công. Vui lòng kiểm tra email để xác thực tài khoản.',
-        emailSent: false
-      }, 'Đăng ký thành công');
+      expect(EmailService.sendVerificationEmail).not.toHaveBeenCalled();
       expect(mockStatus).toHaveBeenCalledWith(201);
-
-      consolWarnSpy.mockRestore();
     });
 
     it('should handle registration errors', async () => {
       const mockError = new Error('Database error');
-      (AccountService.createAccount as jest.Mock).mockRejectedValue(mockError);
+      (AuthService.register as jest.Mock).mockRejectedValue(mockError);
       (ResponseUtils.error as jest.Mock).mockReturnValue({
         success: false,
         message: 'Lỗi trong quá trình đăng ký'
@@ -174,6 +160,10 @@ describe('AuthController', () => {
       expect(AuthService.login).toHaveBeenCalledWith('test@example.com', 'password123', 'Mozilla/5.0 Test Browser', '127.0.0.1');
       expect(AuthService.recordLoginAttempt).toHaveBeenCalledWith('test@example.com', true, '127.0.0.1');
       expect(AccountService.findByEmail).toHaveBeenCalledWith('test@example.com');
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'login_succeeded', {
+        actorAccountId: 1,
+        targetAccountId: 1
+      });
       expect(AccountService.getAccountWithPermissions).toHaveBeenCalledWith(1);
       expect(ResponseUtils.success).toHaveBeenCalledWith({
         ...mockTokens,
@@ -182,6 +172,26 @@ describe('AuthController', () => {
       expect(mockResponse.json).toHaveBeenCalled();
     });
 
+    it('should return an MFA challenge when 2FA is enabled', async () => {
+      const mockChallenge = { mfaRequired: true, mfaToken: 'mfa-token', expiresIn: 300 };
+
+      (AuthService.isAccountLocked as jest.Mock).mockResolvedValue(false);
+      (AuthService.login as jest.Mock).mockResolvedValue(mockChallenge);
+      (AuthService.recordLoginAttempt as jest.Mock).mockResolvedValue(true);
+      (ResponseUtils.success as jest.Mock).mockReturnValue({
+        success: true,
+        data: mockChallenge
+      });
+
+      await AuthController.login(mockRequest as Request, mockResponse as Response);
+
+      expect(AuthService.recordLoginAttempt).toHaveBeenCalledWith('test@example.com', true, '127.0.0.1');
+      expect(AccountService.getAccountWithPermissions).not.toHaveBeenCalled();
+      expect(ResponseUtils.success).toHaveBeenCalledWith(mockChallenge, 'Vui lòng nhập mã xác thực hai lớp');
+      expect(mockStatus).not.toHaveBeenCalled();
+      expect(mockJson).toHaveBeenCalled();
+    });
+
     it('should handle account locked', async () => {
       (AuthService.isAccountLocked as jest.Mock).mockResolvedValue(true);
       (ResponseUtils.error as jest.Mock).mockReturnValue({
@@ -210,11 +220,64 @@ describe('AuthController', () => {
 
       expect(AuthService.login).toHaveBeenCalledWith('test@example.com', 'password123', 'Mozilla/5.0 Test Browser', '127.0.0.1');
       expect(AuthService.recordLoginAttempt).toHaveBeenCalledWith('test@example.com', false, '127.0.0.1');
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'login_failed', { targetAccountId: undefined });
+      expect(OutboxService.enqueue).toHaveBeenCalledWith('webhook.event', {
+        type: 'login.failed',
+        data: { account_id: null, email: 'test@example.com', ip_address: '127.0.0.1' }
+      });
       expect(ResponseUtils.error).toHaveBeenCalledWith('Email hoặc mật khẩu không chính xác');
       expect(mockStatus).toHaveBeenCalledWith(401);
       expect(mockJson).toHaveBeenCalled();
     });
 
+    it('should report the lock to someone who knows the password, whatever the IP', async () => {
+      const mockAccount = { id: 1, email: 'test@example.com', password: 'hashed', locked_until: new Date(Date.now() + 10 * 60000) };
+
+      (AuthService.isAccountLocked as jest.Mock).mockResolvedValue(false);
+      (AccountService.findByEmail as jest.Mock).mockResolvedValue(mockAccount);
+      (LockoutService.getLockedUntil as jest.Mock).mockReturnValue(mockAccount.locked_until);
+      (PasswordUtils.compare as jest.Mock).mockResolvedValue(true);
+
+      await AuthController.login(mockRequest as Request, mockResponse as Response);
+
+      expect(PasswordUtils.compare).toHaveBeenCalledWith('password123', 'hashed');
+      expect(AuthService.login).not.toHaveBeenCalled();
+      expect(ResponseUtils.error).toHaveBeenCalledWith(expect.stringContaining('Vui lòng thử lại sau 10 phút'));
+      expect(mockStatus).toHaveBeenCalledWith(423);
+    });
+
+    it('should answer a wrong password for a locked account like any invalid credentials', async () => {
+      const mockAccount = { id: 1, email: 'test@example.com', password: 'hashed', locked_until: new Date(Date.now() + 10 * 60000) };
+
+      (AuthService.isAccountLocked as jest.Mock).mockResolvedValue(false);
+      (AccountService.findByEmail as jest.Mock).mockResolvedValue(mockAccount);
+      (LockoutService.getLockedUntil as jest.Mock).mockReturnValue(mockAccount.locked_until);
+      (PasswordUtils.compare as jest.Mock).mockResolvedValue(false);
+
+      await AuthController.login(mockRequest as Request, mockResponse as Response);
+
+      expect(AuthService.login).not.toHaveBeenCalled();
+      // Reported as a failed login; the service leaves the lock alone
+      expect(AuthService.recordAccountFailure).toHaveBeenCalledWith(mockAccount, '127.0.0.1');
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Email hoặc mật khẩu không chính xác');
+      expect(mockStatus).toHaveBeenCalledWith(401);
+    });
+
+    it('should count a wrong password towards the account lock', async () => {
+      const mockAccount = { id: 1, email: 'test@example.com', first_name: 'John', preferred_locale: 'en' };
+
+      (AuthService.isAccountLocked as jest.Mock).mockResolvedValue(false);
+      (AccountService.findByEmail as jest.Mock).mockResolvedValue(mockAccount);
+      (LockoutService.getLockedUntil as jest.Mock).mockReturnValue(null);
+      (AuthService.login as jest.Mock).mockResolvedValue(null);
+
+      await AuthController.login(mockRequest as Request, mockResponse as Response);
+
+      expect(PasswordUtils.compare).not.toHaveBeenCalled();
+      expect(AuthService.recordAccountFailure).toHaveBeenCalledWith(mockAccount, '127.0.0.1');
+      expect(mockStatus).toHaveBeenCalledWith(401);
+    });
+
     it('should handle login errors', async () => {
       const mockError = new Error('Database error');
       (AuthService.isAccountLocked as jest.Mock).mockRejectedValue(mockError);
@@ -250,10 +313,22 @@ describe('AuthController', () => {
       await AuthController.logout(mockRequest as Request, mockResponse as Response);
 
       expect(AuthService.logout).toHaveBeenCalledWith('refresh-token');
+      expect(TokenRevocationService.revokeAccessToken).not.toHaveBeenCalled();
       expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Đăng xuất thành công');
       expect(mockResponse.json).toHaveBeenCalled();
     });
 
+    it('should revoke the access token sent with the request', async () => {
+      const user = { accountId: 1, email: 'test@example.com', jti: 'token-id', exp: 1700000000 };
+      mockRequest.user = user;
+      (AuthService.logout as jest.Mock).mockResolvedValue(true);
+
+      await AuthController.logout(mockRequest as Request, mockResponse as Response);
+
+      expect(TokenRevocationService.revokeAccessToken).toHaveBeenCalledWith(user);
+      expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Đăng xuất thành công');
+    });
+
     it('should handle logout without refresh token', async () => {
       mockRequest.body = {};
       (ResponseUtils.success as jest.Mock).mockReturnValue({
@@ -288,8 +363,11 @@ describe('AuthController', () => {
 
   describe('refreshToken', () => {
     beforeEach(() => {
-      mockRequest.body = {
-        refresh_token: 'refresh-token'
+      mockRequest = {
+        body: {
+          refresh_token: 'refresh-token'
+        },
+        ip: '127.0.0.1'
       };
     });
 
@@ -300,6 +378,7 @@ describe('AuthController', () => {
       };
 
       (AuthService.refreshTokens as jest.Mock).mockResolvedValue(mockTokens);
+      (JwtUtils.verifyRefreshToken as jest.Mock).mockReturnValue({ accountId: 1, email: 'test@example.com' });
       (ResponseUtils.success as jest.Mock).mockReturnValue({
         success: true,
         data: mockTokens,
@@ -308,7 +387,11 @@ describe('AuthController', () => {
 
       await AuthController.refreshToken(mockRequest as Request, mockResponse as Response);
 
-      expect(AuthService.refreshTokens).toHaveBeenCalledWith('refresh-token');
+      expect(AuthService.refreshTokens).toHaveBeenCalledWith('refresh-token', '127.0.0.1');
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'token_refreshed', {
+        actorAccountId: 1,
+        targetAccountId: 1
+      });
       expect(ResponseUtils.success).toHaveBeenCalledWith(mockTokens, 'Làm mới token thành công');
       expect(mockResponse.json).toHaveBeenCalled();
     });
@@ -322,7 +405,7 @@ describe('AuthController', () => {
 
       await AuthController.refreshToken(mockRequest as Request, mockResponse as Response);
 
-      expect(AuthService.refreshTokens).toHaveBeenCalledWith('refresh-token');
+      expect(AuthService.refreshTokens).toHaveBeenCalledWith('refresh-token', '127.0.0.1');
       expect(ResponseUtils.error).toHaveBeenCalledWith('Refresh token không hợp lệ hoặc đã hết hạn');
       expect(mockStatus).toHaveBeenCalledWith(401);
       expect(mockJson).toHaveBeenCalled();
@@ -356,8 +439,6 @@ describe('AuthController', () => {
       const mockAccount = { id: 1, email: 'test@example.com', first_name: 'John' };
 
       (AccountService.findByEmail as jest.Mock).mockResolvedValue(mockAccount);
-      (AuthService.createPasswordReset as jest.Mock).mockResolvedValue('reset-token');
-      (EmailService.sendPasswordResetEmail as jest.Mock).mockResolvedValue(true);
       (ResponseUtils.success as jest.Mock).mockReturnValue({
         success: true,
         data: null,
@@ -367,9 +448,8 @@ describe('AuthController', () => {
       await AuthController.forgotPassword(mockRequest as Request, mockResponse as Response);
 
       expect(AccountService.findByEmail).toHaveBeenCalledWith('test@example.com');
-      expect(AuthService.createPasswordReset).toHaveBeenCalledWith(1);
-      expect(EmailService.sendPasswordResetEmail).toHaveBeenCalledWith('test@example.com', 'reset-token', 'John');
-      expect(ResponseUtils.success).toHaveBeenCalledWith({ emailSent: true }, 'Nếu email tồn tại trong hệ thống, bạn sẽ nhận được hướng dẫn đặt lại mật khẩu.');
+      expect(AuthService.sendPasswordReset).toHaveBeenCalledWith(mockAccount);
+      expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Nếu email tồn tại trong hệ thống, bạn sẽ nhận được hướng dẫn đặt lại mật khẩu.');
       expect(mockResponse.json).toHaveBeenCalled();
     });
 
@@ -405,14 +485,308 @@ describe('AuthController', () => {
     });
   });
 
-  describe('resetPassword', () => {
+  describe('requestMagicLink', () => {
+    beforeEach(() => {
+      mockRequest.body = {
+        email: 'test@example.com'
+      };
+    });
+
+    it('should email a magic link', async () => {
+      const mockAccount = { id: 1, email: 'test@example.com', first_name: 'John', preferred_locale: 'en' };
+
+      (AccountService.findByEmail as jest.Mock).mockResolvedValue(mockAccount);
+
+      await AuthController.requestMagicLink(mockRequest as Request, mockResponse as Response);
+
+      // AuthService.sendMagicLink queues the email in the same transaction as the token
+      expect(AuthService.sendMagicLink).toHaveBeenCalledWith(mockAccount);
+      expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Nếu email tồn tại trong hệ thống, bạn sẽ nhận được liên kết đăng nhập.');
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not reveal that the account does not exist', async () => {
+      (AccountService.findByEmail as jest.Mock).mockResolvedValue(null);
+
+      await AuthController.requestMagicLink(mockRequest as Request, mockResponse as Response);
+
+      expect(AuthService.sendMagicLink).not.toHaveBeenCalled();
+      expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Nếu email tồn tại trong hệ thống, bạn sẽ nhận được liên kết đăng nhập.');
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should handle magic link request errors', async () => {
+      const mockError = new Error('Database error');
+      (AccountService.findByEmail as jest.Mock).mockRejectedValue(mockError);
+
+      await AuthController.requestMagicLink(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('Magic link request error:', mockError);
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('verifyMagicLink', () => {
+    const mockTokens = { accessToken: 'access-token', refreshToken: 'refresh-token', expiresIn: 900 };
+
+    beforeEach(() => {
+      mockRequest = {
+        body: { token: 'magic-token' },
+        headers: { 'user-agent': 'test-agent' },
+        ip: '127.0.0.1'
+      };
+    });
+
+    it('should return tokens and the user like the password login', async () => {
+      const mockAccountWithPermissions = { id: 1, email: 'test@example.com', permissions: [] };
+
+      (AuthService.loginWithMagicLink as jest.Mock).mockResolvedValue({ accountId: 1, result: mockTokens });
+      (AccountService.getAccountWithPermissions as jest.Mock).mockResolvedValue(mockAccountWithPermissions);
+
+      await AuthController.verifyMagicLink(mockRequest as Request, mockResponse as Response);
+
+      expect(AuthService.loginWithMagicLink).toHaveBeenCalledWith('magic-token', 'test-agent', '127.0.0.1');
+      expect(ResponseUtils.success).toHaveBeenCalledWith({
+        ...mockTokens,
+        user: mockAccountWithPermissions
+      }, 'Đăng nhập thành công');
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should pass an MFA challenge through', async () => {
+      const mockChallenge = { mfaRequired: true, mfaToken: 'mfa-token', expiresIn: 300 };
+      (AuthService.loginWithMagicLink as jest.Mock).mockResolvedValue({ accountId: 1, result: mockChallenge });
+
+      await AuthController.verifyMagicLink(mockRequest as Request, mockResponse as Response);
+
+      expect(AccountService.getAccountWithPermissions).not.toHaveBeenCalled();
+      expect(ResponseUtils.success).toHaveBeenCalledWith(mockChallenge, 'Vui lòng nhập mã xác thực hai lớp');
+    });
+
+    it('should reject an invalid or used link', async () => {
+      (AuthService.loginWithMagicLink as jest.Mock).mockResolvedValue(null);
+
+      await AuthController.verifyMagicLink(mockRequest as Request, mockResponse as Response);
+
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Liên kết đăng nhập không hợp lệ hoặc đã hết hạn');
+      expect(mockStatus).toHaveBeenCalledWith(401);
+    });
+
+    it('should handle magic link login errors', async () => {
+      const mockError = new Error('Database error');
+      (AuthService.loginWithMagicLink as jest.Mock).mockRejectedValue(mockError);
+
+      await AuthController.verifyMagicLink(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('Magic link login error:', mockError);
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('requestEmailOtp', () => {
     beforeEach(() => {
       mockRequest.body = {
-        token: 'reset-token',
-        new_password: 'newpassword123'
+        email: 'test@example.com'
       };
     });
 
+    it('should email a login code', async () => {
+      const mockAccount = { id: 1, email: 'test@example.com', first_name: 'John', preferred_locale: 'vi' };
+
+      (AccountService.findByEmail as jest.Mock).mockResolvedValue(mockAccount);
+      (OtpService.issueCode as jest.Mock).mockResolvedValue('123456');
+
+      await AuthController.requestEmailOtp(mockRequest as Request, mockResponse as Response);
+
+      expect(OtpService.issueCode).toHaveBeenCalledWith(1, 'login');
+      expect(OutboxService.enqueue).toHaveBeenCalledWith('email.otp', {
+        email: 'test@example.com',
+        code: '123456',
+        first_name: 'John',
+        locale: 'vi'
+      });
+      expect(ResponseUtils.success).toHaveBeenCalledWith(
+        { expiresIn: OtpService.CODE_TTL_SECONDS },
+        'Nếu email tồn tại trong hệ thống, bạn sẽ nhận được mã đăng nhập.'
+      );
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should answer the same way inside the resend interval', async () => {
+      (AccountService.findByEmail as jest.Mock).mockResolvedValue({ id: 1, email: 'test@example.com' });
+      (OtpService.issueCode as jest.Mock).mockResolvedValue(null);
+
+      await AuthController.requestEmailOtp(mockRequest as Request, mockResponse as Response);
+
+      expect(OutboxService.enqueue).not.toHaveBeenCalled();
+      expect(mockStatus).not.toHaveBeenCalled();
+      expect(mockJson).toHaveBeenCalled();
+    });
+
+    it('should not reveal that the account does not exist', async () => {
+      (AccountService.findByEmail as jest.Mock).mockResolvedValue(null);
+
+      await AuthController.requestEmailOtp(mockRequest as Request, mockResponse as Response);
+
+      expect(OtpService.issueCode).not.toHaveBeenCalled();
+      expect(ResponseUtils.success).toHaveBeenCalledWith(
+        { expiresIn: OtpService.CODE_TTL_SECONDS },
+        'Nếu email tồn tại trong hệ thống, bạn sẽ nhận được mã đăng nhập.'
+      );
+    });
+  });
+
+  describe('verifyEmailOtp', () => {
+    beforeEach(() => {
+      mockRequest = {
+        body: { email: 'test@example.com', code: '123456' },
+        headers: { 'user-agent': 'test-agent' },
+        ip: '127.0.0.1'
+      };
+    });
+
+    it('should return tokens and the user like the password login', async () => {
+      const mockTokens = { accessToken: 'access-token', refreshToken: 'refresh-token', expiresIn: 900 };
+      const mockAccountWithPermissions = { id: 1, email: 'test@example.com', permissions: [] };
+
+      (AuthService.loginWithEmailOtp as jest.Mock).mockResolvedValue({ accountId: 1, result: mockTokens });
+      (AccountService.getAccountWithPermissions as jest.Mock).mockResolvedValue(mockAccountWithPermissions);
+
+      await AuthController.verifyEmailOtp(mockRequest as Request, mockResponse as Response);
+
+      expect(AuthService.loginWithEmailOtp).toHaveBeenCalledWith('test@example.com', '123456', 'test-agent', '127.0.0.1');
+      expect(ResponseUtils.success).toHaveBeenCalledWith({
+        ...mockTokens,
+        user: mockAccountWithPermissions
+      }, 'Đăng nhập thành công');
+    });
+
+    it('should reject a wrong or expired code', async () => {
+      (AuthService.loginWithEmailOtp as jest.Mock).mockResolvedValue(null);
+
+      await AuthController.verifyEmailOtp(mockRequest as Request, mockResponse as Response);
+
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Mã xác thực không chính xác hoặc đã hết hạn');
+      expect(mockStatus).toHaveBeenCalledWith(401);
+    });
+
+    it('should handle email OTP login errors', async () => {
+      const mockError = new Error('Redis error');
+      (AuthService.loginWithEmailOtp as jest.Mock).mockRejectedValue(mockError);
+
+      await AuthController.verifyEmailOtp(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('Email OTP login error:', mockError);
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('requestSmsOtp', () => {
+    beforeEach(() => {
+      mockRequest.body = {
+        phone: '0912345678'
+      };
+    });
+
+    it('should text a login code to the verified number', async () => {
+      (ValidationUtils.normalizePhone as jest.Mock).mockReturnValue('+84912345678');
+      (AccountService.findByVerifiedPhone as jest.Mock).mockResolvedValue({ id: 1, phone: '+84912345678' });
+      (OtpService.issueCode as jest.Mock).mockResolvedValue('123456');
+
+      await AuthController.requestSmsOtp(mockRequest as Request, mockResponse as Response);
+
+      expect(AccountService.findByVerifiedPhone).toHaveBeenCalledWith('+84912345678');
+      expect(OtpService.issueCode).toHaveBeenCalledWith(1, 'sms_login', '+84912345678');
+      expect(OutboxService.enqueue).toHaveBeenCalledWith('sms.otp', { phone: '+84912345678', code: '123456' });
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not reveal that no account uses the number', async () => {
+      (ValidationUtils.normalizePhone as jest.Mock).mockReturnValue('+84912345678');
+      (AccountService.findByVerifiedPhone as jest.Mock).mockResolvedValue(null);
+
+      await AuthController.requestSmsOtp(mockRequest as Request, mockResponse as Response);
+
+      expect(OtpService.issueCode).not.toHaveBeenCalled();
+      expect(OutboxService.enqueue).not.toHaveBeenCalled();
+      expect(ResponseUtils.success).toHaveBeenCalledWith(
+        { expiresIn: OtpService.CODE_TTL_SECONDS },
+        'Nếu số điện thoại đã được xác thực trong hệ thống, bạn sẽ nhận được mã đăng nhập.'
+      );
+    });
+
+    it('should answer the same way inside the resend interval', async () => {
+      (ValidationUtils.normalizePhone as jest.Mock).mockReturnValue('+84912345678');
+      (AccountService.findByVerifiedPhone as jest.Mock).mockResolvedValue({ id: 1, phone: '+84912345678' });
+      (OtpService.issueCode as jest.Mock).mockResolvedValue(null);
+
+      await AuthController.requestSmsOtp(mockRequest as Request, mockResponse as Response);
+
+      expect(OutboxService.enqueue).not.toHaveBeenCalled();
+      expect(mockStatus).not.toHaveBeenCalled();
+      expect(mockJson).toHaveBeenCalled();
+    });
+  });
+
+  describe('verifySmsOtp', () => {
+    beforeEach(() => {
+      mockRequest = {
+        body: { phone: '0912345678', code: '123456' },
+        headers: { 'user-agent': 'test-agent' },
+        ip: '127.0.0.1'
+      };
+    });
+
+    it('should return tokens and the user like the password login', async () => {
+      const mockTokens = { accessToken: 'access-token', refreshToken: 'refresh-token', expiresIn: 900 };
+      const mockAccountWithPermissions = { id: 1, email: 'test@example.com', permissions: [] };
+
+      (AuthService.loginWithSmsOtp as jest.Mock).mockResolvedValue({ accountId: 1, result: mockTokens });
+      (AccountService.getAccountWithPermissions as jest.Mock).mockResolvedValue(mockAccountWithPermissions);
+
+      await AuthController.verifySmsOtp(mockRequest as Request, mockResponse as Response);
+
+      expect(AuthService.loginWithSmsOtp).toHaveBeenCalledWith('0912345678', '123456', 'test-agent', '127.0.0.1');
+      expect(ResponseUtils.success).toHaveBeenCalledWith({
+        ...mockTokens,
+        user: mockAccountWithPermissions
+      }, 'Đăng nhập thành công');
+    });
+
+    it('should pass on the MFA challenge', async () => {
+      const mfaChallenge = { mfaRequired: true, mfaToken: 'mfa_token', expiresIn: 300 };
+      (AuthService.loginWithSmsOtp as jest.Mock).mockResolvedValue({ accountId: 1, result: mfaChallenge });
+
+      await AuthController.verifySmsOtp(mockRequest as Request, mockResponse as Response);
+
+      expect(AccountService.getAccountWithPermissions).not.toHaveBeenCalled();
+      expect(ResponseUtils.success).toHaveBeenCalledWith(mfaChallenge, 'Vui lòng nhập mã xác thực hai lớp');
+    });
+
+    it('should reject a wrong or expired code', async () => {
+      (AuthService.loginWithSmsOtp as jest.Mock).mockResolvedValue(null);
+
+      await AuthController.verifySmsOtp(mockRequest as Request, mockResponse as Response);
+
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Mã xác thực không chính xác hoặc đã hết hạn');
+      expect(mockStatus).toHaveBeenCalledWith(401);
+    });
+  });
+
+  describe('resetPassword', () => {
+    const mockAccount = { id: 1, email: 'test@example.com', first_name: 'John' };
+
+    beforeEach(() => {
+      mockRequest = {
+        body: {
+          token: 'reset-token',
+          new_password: 'newpassword123'
+        },
+        ip: '127.0.0.1'
+      };
+      (AccountService.findById as jest.Mock).mockResolvedValue(mockAccount);
+    });
+
     it('should reset password successfully', async () => {
       const mockPasswordReset = { 
         account_id: 1, 
@@ -421,8 +795,7 @@ describe('AuthController', () => {
       };
 
       (AuthService.findPasswordReset as jest.Mock).mockResolvedValue(mockPasswordReset);
-      (AccountService.updatePassword as jest.Mock).mockResolvedValue(true);
-      (AuthService.usePasswordReset as jest.Mock).mockResolvedValue(true);
+      (AuthService.resetPassword as jest.Mock).mockResolvedValue(true);
       (ResponseUtils.success as jest.Mock).mockReturnValue({
         success: true,
         data: null,
@@ -432,8 +805,8 @@ describe('AuthController', () => {
       await AuthController.resetPassword(mockRequest as Request, mockResponse as Response);
 
       expect(AuthService.findPasswordReset).toHaveBeenCalledWith('reset-token');
-      expect(AccountService.updatePassword).toHaveBeenCalledWith(1, 'newpassword123');
-      expect(AuthService.usePasswordReset).toHaveBeenCalledWith('reset-token');
+      expect(AuthService.resetPassword).toHaveBeenCalledWith('reset-token', mockAccount, 'newpassword123', '127.0.0.1');
+      expect(AuthService.logoutAll).toHaveBeenCalledWith(1);
       expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Đặt lại mật khẩu thành công');
       expect(mockResponse.json).toHaveBeenCalled();
     });
@@ -453,6 +826,17 @@ describe('AuthController', () => {
       expect(mockJson).toHaveBeenCalled();
     });
 
+    it('should reject a token whose account no longer exists', async () => {
+      (AuthService.findPasswordReset as jest.Mock).mockResolvedValue({ account_id: 1 });
+      (AccountService.findById as jest.Mock).mockResolvedValue(null);
+
+      await AuthController.resetPassword(mockRequest as Request, mockResponse as Response);
+
+      expect(AuthService.resetPassword).not.toHaveBeenCalled();
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Token đặt lại mật khẩu không hợp lệ hoặc đã hết hạn');
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+
     it('should handle password update failure', async () => {
       const mockPasswordReset = { 
         account_id: 1, 
@@ -461,7 +845,7 @@ describe('AuthController', () => {
       };
 
       (AuthService.findPasswordReset as jest.Mock).mockResolvedValue(mockPasswordReset);
-      (AccountService.updatePassword as jest.Mock).mockResolvedValue(false);
+      (AuthService.resetPassword as jest.Mock).mockResolvedValue(false);
       (ResponseUtils.error as jest.Mock).mockReturnValue({
         success: false,
         message: 'Lỗi cập nhật mật khẩu'
@@ -469,7 +853,7 @@ describe('AuthController', () => {
 
       await AuthController.resetPassword(mockRequest as Request, mockResponse as Response);
 
-      expect(AccountService.updatePassword).toHaveBeenCalledWith(1, 'newpassword123');
+      expect(AuthService.resetPassword).toHaveBeenCalledWith('reset-token', mockAccount, 'newpassword123', '127.0.0.1');
       expect(ResponseUtils.error).toHaveBeenCalledWith('Lỗi cập nhật mật khẩu');
       expect(mockStatus).toHaveBeenCalledWith(500);
       expect(mockJson).toHaveBeenCalled();
@@ -493,10 +877,13 @@ describe('AuthController', () => {
   });
 
   describe('verifyEmail', () => {
+    const mockAccount = { id: 1, email: 'test@example.com', first_name: 'John', preferred_locale: 'en' };
+
     beforeEach(() => {
       mockRequest.body = {
         token: 'verify-token'
       };
+      (AccountService.findById as jest.Mock).mockResolvedValue(mockAccount);
     });
 
     it('should verify email successfully', async () => {
@@ -507,8 +894,7 @@ describe('AuthController', () => {
       };
 
       (AuthService.findEmailVerification as jest.Mock).mockResolvedValue(mockVerification);
-      (AccountService.verifyAccount as jest.Mock).mockResolvedValue(true);
-      (AuthService.useEmailVerification as jest.Mock).mockResolvedValue(true);
+      (AuthService.verifyEmail as jest.Mock).mockResolvedValue(true);
       (ResponseUtils.success as jest.Mock).mockReturnValue({
         success: true,
         data: null,
@@ -518,12 +904,22 @@ describe('AuthController', () => {
       await AuthController.verifyEmail(mockRequest as Request, mockResponse as Response);
 
       expect(AuthService.findEmailVerification).toHaveBeenCalledWith('verify-token');
-      expect(AccountService.verifyAccount).toHaveBeenCalledWith(1);
-      expect(AuthService.useEmailVerification).toHaveBeenCalledWith('verify-token');
+      expect(AuthService.verifyEmail).toHaveBeenCalledWith('verify-token', mockAccount);
       expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Xác thực email thành công');
       expect(mockResponse.json).toHaveBeenCalled();
     });
 
+    it('should not send the welcome email itself', async () => {
+      (AuthService.findEmailVerification as jest.Mock).mockResolvedValue({ account_id: 1 });
+      (AuthService.verifyEmail as jest.Mock).mockResolvedValue(true);
+
+      await AuthController.verifyEmail(mockRequest as Request, mockResponse as Response);
+
+      // AuthService.verifyEmail queues it in the same transaction as the update
+      expect(OutboxService.enqueue).not.toHaveBeenCalled();
+      expect(EmailService.sendWelcomeEmail).not.toHaveBeenCalled();
+    });
+
     it('should handle invalid verification token', async () => {
       (AuthService.findEmailVerification as jest.Mock).mockResolvedValue(null);
       (ResponseUtils.error as jest.Mock).mockReturnValue({
@@ -547,7 +943,7 @@ describe('AuthController', () => {
       };
 
       (AuthService.findEmailVerification as jest.Mock).mockResolvedValue(mockVerification);
-      (AccountService.verifyAccount as jest.Mock).mockResolvedValue(false);
+      (AuthService.verifyEmail as jest.Mock).mockResolvedValue(false);
       (ResponseUtils.error as jest.Mock).mockReturnValue({
         success: false,
         message: 'Lỗi xác thực tài khoản'
@@ -555,7 +951,7 @@ describe('AuthController', () => {
 
       await AuthController.verifyEmail(mockRequest as Request, mockResponse as Response);
 
-      expect(AccountService.verifyAccount).toHaveBeenCalledWith(1);
+      expect(AuthService.verifyEmail).toHaveBeenCalledWith('verify-token', mockAccount);
       expect(ResponseUtils.error).toHaveBeenCalledWith('Lỗi xác thực tài khoản');
       expect(mockStatus).toHaveBeenCalledWith(500);
       expect(mockJson).toHaveBeenCalled();
@@ -589,8 +985,6 @@ describe('AuthController', () => {
       const mockAccount = { id: 1, email: 'test@example.com', first_name: 'John', verified: false };
 
       (AccountService.findByEmail as jest.Mock).mockResolvedValue(mockAccount);
-      (AuthService.createEmailVerification as jest.Mock).mockResolvedValue('new-verify-token');
-      (EmailService.sendVerificationEmail as jest.Mock).mockResolvedValue(true);
       (ResponseUtils.success as jest.Mock).mockReturnValue({
         success: true,
         data: null,
@@ -600,9 +994,8 @@ describe('AuthController', () => {
       await AuthController.resendVerification(mockRequest as Request, mockResponse as Response);
 
       expect(AccountService.findByEmail).toHaveBeenCalledWith('test@example.com');
-      expect(AuthService.createEmailVerification).toHaveBeenCalledWith(1);
-      expect(EmailService.sendVerificationEmail).toHaveBeenCalledWith('test@example.com', 'new-verify-token', 'John');
-      expect(ResponseUtils.success).toHaveBeenCalledWith({ emailSent: true }, 'Đã gửi lại email xác thực');
+      expect(AuthService.sendEmailVerification).toHaveBeenCalledWith(mockAccount);
+      expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Đã gửi lại email xác thực');
       expect(mockResponse.json).toHaveBeenCalled();
     });
 
@@ -654,4 +1047,31 @@ describe('AuthController', () => {
       expect(mockJson).toHaveBeenCalled();
     });
   });
+
+  describe('secureAccount', () => {
+    beforeEach(() => {
+      mockRequest = { body: { token: 'alert-token' }, ip: '127.0.0.1' };
+    });
+
+    it('should sign the account out everywhere and forget the device', async () => {
+      (KnownDeviceService.consumeAlertToken as jest.Mock).mockResolvedValue({ accountId: 1, deviceId: 5 });
+
+      await AuthController.secureAccount(mockRequest as Request, mockResponse as Response);
+
+      expect(KnownDeviceService.consumeAlertToken).toHaveBeenCalledWith('alert-token');
+      expect(AuthService.logoutAll).toHaveBeenCalledWith(1);
+      expect(KnownDeviceService.forget).toHaveBeenCalledWith(1, 5);
+      expect(AuthService.recordSecurityEvent).toHaveBeenCalledWith(1, 'new_device_login_disowned', '127.0.0.1', { device_id: 5 });
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid or used link', async () => {
+      (KnownDeviceService.consumeAlertToken as jest.Mock).mockResolvedValue(null);
+
+      await AuthController.secureAccount(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(AuthService.logoutAll).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,124 @@
+import { Request, Response } from 'express';
+import { EmailTemplateController } from '../../src/controllers/emailTemplateController';
+import { EmailTemplateService } from '../../src/services/emailTemplateService';
+import { ResponseUtils } from '../../src/utils';
+
+// Mock the dependencies
+jest.mock('../../src/services/emailTemplateService');
+jest.mock('../../src/utils');
+
+const mockEmailTemplateService = EmailTemplateService as jest.Mocked<typeof EmailTemplateService>;
+const mockResponseUtils = ResponseUtils as jest.Mocked<typeof ResponseUtils>;
+
+describe('EmailTemplateController', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockJson: jest.Mock;
+  let mockStatus: jest.Mock;
+  let mockSend: jest.Mock;
+  let mockType: jest.Mock;
+
+  const rendered = { subject: 'Volcanion Auth - Verify your account', html: '<html></html>', text: 'Hi Minh!' };
+
+  beforeEach(() => {
+    mockJson = jest.fn();
+    mockStatus = jest.fn().mockReturnValue({ json: mockJson });
+    mockSend = jest.fn();
+    mockType = jest.fn().mockReturnValue({ send: mockSend });
+
+    mockRequest = { params: {}, query: {}, body: {}, user: { accountId: 1, email: 'admin@example.com' } };
+    mockResponse = {
+      json: mockJson,
+      status: mockStatus,
+      type: mockType
+    };
+
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation();
+
+    mockEmailTemplateService.isTemplateName.mockReturnValue(true);
+    mockEmailTemplateService.resolveLocale.mockImplementation(locale => (locale as 'vi' | 'en') || 'vi');
+    mockEmailTemplateService.preview.mockReturnValue(rendered);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('list', () => {
+    it('should return the templates', async () => {
+      const templates = [{ name: 'otp' as const, locales: ['vi' as const, 'en' as const], variables: ['first_name', 'code'] }];
+      mockEmailTemplateService.listTemplates.mockReturnValue(templates);
+
+      await EmailTemplateController.list(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponseUtils.success).toHaveBeenCalledWith(templates, 'Lấy danh sách mẫu email thành công');
+    });
+
+    it('should return 500 when listing fails', async () => {
+      mockEmailTemplateService.listTemplates.mockImplementation(() => {
+        throw new Error('Broken template');
+      });
+
+      await EmailTemplateController.list(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(500);
+      expect(mockResponseUtils.error).toHaveBeenCalledWith('Lỗi lấy danh sách mẫu email');
+    });
+  });
+
+  describe('preview', () => {
+    it('should return the rendered parts as JSON by default', async () => {
+      mockRequest.params = { name: 'verification' };
+      mockRequest.query = { locale: 'en' };
+
+      await EmailTemplateController.preview(mockRequest as Request, mockResponse as Response);
+
+      expect(mockEmailTemplateService.preview).toHaveBeenCalledWith('verification', 'en');
+      expect(mockResponseUtils.success).toHaveBeenCalledWith(
+        { name: 'verification', locale: 'en', ...rendered },
+        'Xem trước mẫu email thành công'
+      );
+    });
+
+    it('should fall back to the default locale', async () => {
+      mockRequest.params = { name: 'verification' };
+
+      await EmailTemplateController.preview(mockRequest as Request, mockResponse as Response);
+
+      expect(mockEmailTemplateService.preview).toHaveBeenCalledWith('verification', 'vi');
+    });
+
+    it('should send the HTML part as is with format=html', async () => {
+      mockRequest.params = { name: 'verification' };
+      mockRequest.query = { format: 'html' };
+
+      await EmailTemplateController.preview(mockRequest as Request, mockResponse as Response);
+
+      expect(mockType).toHaveBeenCalledWith('html');
+      expect(mockSend).toHaveBeenCalledWith(rendered.html);
+      expect(mockJson).not.toHaveBeenCalled();
+    });
+
+    it('should send the text part as is with format=text', async () => {
+      mockRequest.params = { name: 'verification' };
+      mockRequest.query = { format: 'text' };
+
+      await EmailTemplateController.preview(mockRequest as Request, mockResponse as Response);
+
+      expect(mockType).toHaveBeenCalledWith('text');
+      expect(mockSend).toHaveBeenCalledWith(rendered.text);
+    });
+
+    it('should return 404 for an unknown template', async () => {
+      mockRequest.params = { name: 'newsletter' };
+      mockEmailTemplateService.isTemplateName.mockReturnValue(false);
+
+      await EmailTemplateController.preview(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+      expect(mockResponseUtils.error).toHaveBeenCalledWith('Không tìm thấy mẫu email');
+      expect(mockEmailTemplateService.preview).not.toHaveBeenCalled();
+    });
+  });
+});
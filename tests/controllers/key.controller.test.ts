@@ -0,0 +1,108 @@
+import { Request, Response } from 'express';
+import { KeyController } from '../../src/controllers/keyController';
+import { KeyRingService } from '../../src/services/keyRingService';
+import { AuditService } from '../../src/services/auditService';
+import { ResponseUtils } from '../../src/utils';
+
+// Mock the dependencies
+jest.mock('../../src/services/keyRingService');
+jest.mock('../../src/services/auditService');
+jest.mock('../../src/utils');
+
+describe('KeyController', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockJson: jest.Mock;
+  let mockStatus: jest.Mock;
+
+  const mockKey = {
+    id: 2,
+    kid: 'new-key',
+    algorithm: 'ES256',
+    status: 'pending',
+    activates_at: new Date(),
+    created_at: new Date()
+  };
+
+  beforeEach(() => {
+    mockJson = jest.fn();
+    mockStatus = jest.fn().mockReturnValue({ json: mockJson });
+
+    mockRequest = {
+      user: { accountId: 1, email: 'admin@example.com' },
+      body: {}
+    };
+    mockResponse = {
+      json: mockJson,
+      status: mockStatus
+    };
+
+    jest.clearAllMocks();
+
+    // Audit records are only written, so keep the real diff to assert on them
+    const { AuditService: ActualAuditService } = jest.requireActual('../../src/services/auditService');
+    (AuditService.diff as jest.Mock).mockImplementation(ActualAuditService.diff);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('listKeys', () => {
+    it('should return all signing keys', async () => {
+      (KeyRingService.listKeys as jest.Mock).mockResolvedValue([mockKey]);
+
+      await KeyController.listKeys(mockRequest as Request, mockResponse as Response);
+
+      expect(ResponseUtils.success).toHaveBeenCalledWith([mockKey], 'Lấy danh sách khóa ký thành công');
+      expect(mockJson).toHaveBeenCalled();
+    });
+
+    it('should handle errors', async () => {
+      (KeyRingService.listKeys as jest.Mock).mockRejectedValue(new Error('Database error'));
+
+      await KeyController.listKeys(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('List signing keys error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('rotate', () => {
+    it('should schedule a new signing key', async () => {
+      mockRequest.body = { activate_in_seconds: 300 };
+      (KeyRingService.rotate as jest.Mock).mockResolvedValue(mockKey);
+
+      await KeyController.rotate(mockRequest as Request, mockResponse as Response);
+
+      expect(KeyRingService.rotate).toHaveBeenCalledWith(300);
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'signing_key_rotated', {
+        changes: {
+          kid: { from: null, to: 'new-key' },
+          algorithm: { from: null, to: 'ES256' },
+          activates_at: { from: null, to: mockKey.activates_at }
+        }
+      });
+      expect(ResponseUtils.success).toHaveBeenCalledWith(mockKey, 'Tạo khóa ký mới thành công');
+      expect(mockStatus).toHaveBeenCalledWith(201);
+    });
+
+    it('should use the default delay when none is given', async () => {
+      (KeyRingService.rotate as jest.Mock).mockResolvedValue(mockKey);
+
+      await KeyController.rotate(mockRequest as Request, mockResponse as Response);
+
+      expect(KeyRingService.rotate).toHaveBeenCalledWith(undefined);
+    });
+
+    it('should handle rotation errors', async () => {
+      (KeyRingService.rotate as jest.Mock).mockRejectedValue(new Error('Database error'));
+
+      await KeyController.rotate(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('Rotate signing key error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+});
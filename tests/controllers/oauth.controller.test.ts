@@ -0,0 +1,571 @@
+import { Request, Response } from 'express';
+import { OAuthController } from '../../src/controllers/oauthController';
+import { OAuthService, OAuthError } from '../../src/services/oauthService';
+import { OidcService } from '../../src/services/oidcService';
+import { AuditService } from '../../src/services/auditService';
+import { JwtUtils, ResponseUtils } from '../../src/utils';
+
+// Mock the dependencies; OAuthService is spied on so OAuthError keeps its real behaviour
+jest.mock('../../src/services/accountService');
+jest.mock('../../src/services/authService');
+jest.mock('../../src/services/auditService');
+jest.mock('../../src/utils');
+
+describe('OAuthController', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockJson: jest.Mock;
+  let mockStatus: jest.Mock;
+  let mockSet: jest.Mock;
+
+  const mockClient = {
+    id: 1,
+    client_id: 'client_1',
+    client_type: 'public' as const,
+    name: 'Mobile App',
+    redirect_uris: ['https://app.example.com/callback'],
+    scopes: ['profile'],
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  const authorizeParams = {
+    response_type: 'code',
+    client_id: 'client_1',
+    redirect_uri: 'https://app.example.com/callback',
+    scope: 'profile',
+    state: 'xyz',
+    code_challenge: 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM',
+    code_challenge_method: 'S256'
+  };
+
+  const authorizationRequest = {
+    client: mockClient,
+    redirectUri: 'https://app.example.com/callback',
+    scopes: ['profile'],
+    state: 'xyz',
+    codeChallenge: 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM'
+  };
+
+  beforeEach(() => {
+    mockJson = jest.fn();
+    mockStatus = jest.fn().mockReturnValue({ json: mockJson });
+    mockSet = jest.fn();
+
+    mockRequest = {
+      user: { accountId: 1, email: 'test@example.com' },
+      query: {},
+      params: {},
+      body: {},
+      headers: { 'user-agent': 'test-agent' },
+      ip: '127.0.0.1'
+    };
+    mockResponse = {
+      json: mockJson,
+      status: mockStatus,
+      set: mockSet
+    };
+
+    jest.clearAllMocks();
+
+    // Audit records are only written, so keep the real diff to assert on them
+    const { AuditService: ActualAuditService } = jest.requireActual('../../src/services/auditService');
+    (AuditService.diff as jest.Mock).mockImplementation(ActualAuditService.diff);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('authorize', () => {
+    beforeEach(() => {
+      mockRequest.query = authorizeParams;
+    });
+
+    it('should ask for consent when the scopes were not granted yet', async () => {
+      jest.spyOn(OAuthService, 'validateAuthorizationRequest').mockResolvedValue(authorizationRequest);
+      jest.spyOn(OAuthService, 'hasConsent').mockResolvedValue(false);
+      jest.spyOn(OAuthService, 'createAuthorizationCode');
+
+      await OAuthController.authorize(mockRequest as Request, mockResponse as Response);
+
+      expect(OAuthService.hasConsent).toHaveBeenCalledWith(1, 'client_1', ['profile']);
+      expect(OAuthService.createAuthorizationCode).not.toHaveBeenCalled();
+      expect(ResponseUtils.success).toHaveBeenCalledWith({
+        consent_required: true,
+        client: { client_id: 'client_1', name: 'Mobile App' },
+        scopes: ['profile']
+      }, 'Vui lòng xác nhận cấp quyền cho ứng dụng');
+    });
+
+    it('should issue a code right away when consent exists', async () => {
+      jest.spyOn(OAuthService, 'validateAuthorizationRequest').mockResolvedValue(authorizationRequest);
+      jest.spyOn(OAuthService, 'hasConsent').mockResolvedValue(true);
+      jest.spyOn(OAuthService, 'createAuthorizationCode').mockResolvedValue('plain_code');
+
+      await OAuthController.authorize(mockRequest as Request, mockResponse as Response);
+
+      expect(ResponseUtils.success).toHaveBeenCalledWith({
+        redirect_to: 'https://app.example.com/callback?code=plain_code&state=xyz'
+      }, 'Ủy quyền thành công');
+    });
+
+    it('should ignore repeated query parameters', async () => {
+      mockRequest.query = { ...authorizeParams, client_id: ['client_1', 'client_2'] } as any;
+      jest.spyOn(OAuthService, 'validateAuthorizationRequest').mockRejectedValue(
+        new OAuthError('invalid_request', 'Thiếu client_id')
+      );
+
+      await OAuthController.authorize(mockRequest as Request, mockResponse as Response);
+
+      expect(OAuthService.validateAuthorizationRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ client_id: '' })
+      );
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+
+    it('should not redirect errors found before the redirect URI is trusted', async () => {
+      jest.spyOn(OAuthService, 'validateAuthorizationRequest').mockRejectedValue(
+        new OAuthError('invalid_request', 'redirect_uri không khớp với ứng dụng đã đăng ký')
+      );
+
+      await OAuthController.authorize(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(ResponseUtils.error).toHaveBeenCalledWith('redirect_uri không khớp với ứng dụng đã đăng ký');
+    });
+
+    it('should send redirectable errors back to the client', async () => {
+      jest.spyOn(OAuthService, 'validateAuthorizationRequest').mockRejectedValue(
+        new OAuthError('invalid_scope', 'Phạm vi không được phép: admin', 400, true)
+      );
+
+      await OAuthController.authorize(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).not.toHaveBeenCalled();
+      expect(ResponseUtils.success).toHaveBeenCalledWith({
+        redirect_to: expect.stringContaining('error=invalid_scope')
+      }, 'Phạm vi không được phép: admin');
+      expect(ResponseUtils.success).toHaveBeenCalledWith({
+        redirect_to: expect.stringContaining('state=xyz')
+      }, expect.any(String));
+    });
+
+    it('should handle unexpected errors', async () => {
+      jest.spyOn(OAuthService, 'validateAuthorizationRequest').mockRejectedValue(new Error('Database error'));
+
+      await OAuthController.authorize(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('OAuth authorize error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('decide', () => {
+    it('should record consent and issue a code when approved', async () => {
+      mockRequest.body = { ...authorizeParams, approve: true };
+      jest.spyOn(OAuthService, 'validateAuthorizationRequest').mockResolvedValue(authorizationRequest);
+      jest.spyOn(OAuthService, 'saveConsent').mockResolvedValue();
+      jest.spyOn(OAuthService, 'createAuthorizationCode').mockResolvedValue('plain_code');
+
+      await OAuthController.decide(mockRequest as Request, mockResponse as Response);
+
+      expect(OAuthService.validateAuthorizationRequest).toHaveBeenCalledWith(authorizeParams);
+      expect(OAuthService.saveConsent).toHaveBeenCalledWith(1, 'client_1', ['profile']);
+      expect(ResponseUtils.success).toHaveBeenCalledWith({
+        redirect_to: 'https://app.example.com/callback?code=plain_code&state=xyz'
+      }, 'Ủy quyền thành công');
+    });
+
+    it('should redirect with access_denied when refused', async () => {
+      mockRequest.body = { ...authorizeParams, approve: false };
+      jest.spyOn(OAuthService, 'validateAuthorizationRequest').mockResolvedValue(authorizationRequest);
+      jest.spyOn(OAuthService, 'saveConsent');
+      jest.spyOn(OAuthService, 'createAuthorizationCode');
+
+      await OAuthController.decide(mockRequest as Request, mockResponse as Response);
+
+      expect(OAuthService.saveConsent).not.toHaveBeenCalled();
+      expect(OAuthService.createAuthorizationCode).not.toHaveBeenCalled();
+      expect(ResponseUtils.success).toHaveBeenCalledWith({
+        redirect_to: expect.stringContaining('error=access_denied')
+      }, 'Đã từ chối cấp quyền');
+    });
+  });
+
+  describe('token', () => {
+    const tokenResponse = {
+      access_token: 'access_token',
+      token_type: 'Bearer' as const,
+      expires_in: 900,
+      refresh_token: 'refresh_token',
+      scope: 'profile'
+    };
+
+    it('should exchange an authorization code', async () => {
+      mockRequest.body = { grant_type: 'authorization_code', client_id: 'client_1', code: 'plain_code' };
+      jest.spyOn(OAuthService, 'exchangeAuthorizationCode').mockResolvedValue(tokenResponse);
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue({ accountId: 1, email: 'test@example.com' });
+
+      await OAuthController.token(mockRequest as Request, mockResponse as Response);
+
+      expect(mockSet).toHaveBeenCalledWith({ 'Cache-Control': 'no-store', Pragma: 'no-cache' });
+      expect(OAuthService.exchangeAuthorizationCode).toHaveBeenCalledWith(mockRequest.body, 'test-agent', '127.0.0.1');
+      expect(JwtUtils.verifyAccessToken).toHaveBeenCalledWith('access_token');
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'login_succeeded', {
+        actorAccountId: 1,
+        actorClientId: 'client_1',
+        targetAccountId: 1
+      });
+      expect(mockJson).toHaveBeenCalledWith(tokenResponse);
+    });
+
+    it('should refresh tokens', async () => {
+      mockRequest.body = { grant_type: 'refresh_token', client_id: 'client_1', refresh_token: 'refresh_token' };
+      jest.spyOn(OAuthService, 'refreshAccessToken').mockResolvedValue(tokenResponse);
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue({ accountId: 1, email: 'test@example.com' });
+
+      await OAuthController.token(mockRequest as Request, mockResponse as Response);
+
+      expect(OAuthService.refreshAccessToken).toHaveBeenCalledWith(mockRequest.body, '127.0.0.1');
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'token_refreshed', {
+        actorAccountId: 1,
+        actorClientId: 'client_1',
+        targetAccountId: 1
+      });
+      expect(mockJson).toHaveBeenCalledWith(tokenResponse);
+    });
+
+    it('should issue client credentials tokens with HTTP Basic authentication', async () => {
+      const clientTokenResponse = { access_token: 'client_access_token', token_type: 'Bearer' as const, expires_in: 900, scope: 'account:read' };
+      mockRequest.headers!.authorization = `Basic ${Buffer.from('service_1:s%3Acret').toString('base64')}`;
+      mockRequest.body = { grant_type: 'client_credentials', scope: 'account:read' };
+      jest.spyOn(OAuthService, 'issueClientCredentialsToken').mockResolvedValue(clientTokenResponse);
+
+      await OAuthController.token(mockRequest as Request, mockResponse as Response);
+
+      expect(OAuthService.issueClientCredentialsToken).toHaveBeenCalledWith({
+        grant_type: 'client_credentials',
+        scope: 'account:read',
+        client_id: 'service_1',
+        client_secret: 's:cret'
+      });
+      expect(mockJson).toHaveBeenCalledWith(clientTokenResponse);
+    });
+
+    it('should reject malformed HTTP Basic credentials with a challenge', async () => {
+      mockRequest.headers!.authorization = `Basic ${Buffer.from('no-separator').toString('base64')}`;
+      mockRequest.body = { grant_type: 'client_credentials' };
+      jest.spyOn(OAuthService, 'issueClientCredentialsToken');
+
+      await OAuthController.token(mockRequest as Request, mockResponse as Response);
+
+      expect(OAuthService.issueClientCredentialsToken).not.toHaveBeenCalled();
+      expect(mockSet).toHaveBeenCalledWith('WWW-Authenticate', 'Basic realm="volcanion-auth"');
+      expect(mockStatus).toHaveBeenCalledWith(401);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ error: 'invalid_client' }));
+    });
+
+    it('should reject unsupported grant types', async () => {
+      mockRequest.body = { grant_type: 'password' };
+
+      await OAuthController.token(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith({
+        error: 'unsupported_grant_type',
+        error_description: 'grant_type không được hỗ trợ'
+      });
+    });
+
+    it('should require a grant type', async () => {
+      await OAuthController.token(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ error: 'invalid_request' }));
+    });
+
+    it('should use the status code of the OAuth error', async () => {
+      mockRequest.body = { grant_type: 'authorization_code' };
+      jest.spyOn(OAuthService, 'exchangeAuthorizationCode').mockRejectedValue(
+        new OAuthError('invalid_client', 'Xác thực ứng dụng thất bại', 401)
+      );
+
+      await OAuthController.token(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(401);
+      expect(mockJson).toHaveBeenCalledWith({
+        error: 'invalid_client',
+        error_description: 'Xác thực ứng dụng thất bại'
+      });
+    });
+
+    it('should hide unexpected errors behind server_error', async () => {
+      mockRequest.body = { grant_type: 'refresh_token' };
+      jest.spyOn(OAuthService, 'refreshAccessToken').mockRejectedValue(new Error('Database error'));
+
+      await OAuthController.token(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('OAuth token error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ error: 'server_error' }));
+    });
+  });
+
+  describe('introspect', () => {
+    it('should return the token state from the service', async () => {
+      const introspection = { active: true, token_type: 'access_token' as const, sub: '1', account_id: 1 };
+      mockRequest.headers!.authorization = `Basic ${Buffer.from('service_1:secret').toString('base64')}`;
+      mockRequest.body = { token: 'access_token' };
+      jest.spyOn(OAuthService, 'introspectToken').mockResolvedValue(introspection);
+
+      await OAuthController.introspect(mockRequest as Request, mockResponse as Response);
+
+      expect(mockSet).toHaveBeenCalledWith({ 'Cache-Control': 'no-store', Pragma: 'no-cache' });
+      expect(OAuthService.introspectToken).toHaveBeenCalledWith({
+        token: 'access_token',
+        client_id: 'service_1',
+        client_secret: 'secret'
+      });
+      expect(mockJson).toHaveBeenCalledWith(introspection);
+    });
+
+    it('should challenge failed client authentication', async () => {
+      mockRequest.headers!.authorization = `Basic ${Buffer.from('service_1:wrong').toString('base64')}`;
+      mockRequest.body = { token: 'access_token' };
+      jest.spyOn(OAuthService, 'introspectToken').mockRejectedValue(
+        new OAuthError('invalid_client', 'Xác thực ứng dụng thất bại', 401)
+      );
+
+      await OAuthController.introspect(mockRequest as Request, mockResponse as Response);
+
+      expect(mockSet).toHaveBeenCalledWith('WWW-Authenticate', 'Basic realm="volcanion-auth"');
+      expect(mockStatus).toHaveBeenCalledWith(401);
+      expect(mockJson).toHaveBeenCalledWith({ error: 'invalid_client', error_description: 'Xác thực ứng dụng thất bại' });
+    });
+
+    it('should hide unexpected errors behind server_error', async () => {
+      jest.spyOn(OAuthService, 'introspectToken').mockRejectedValue(new Error('Redis error'));
+
+      await OAuthController.introspect(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('OAuth introspection error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('revoke', () => {
+    let mockEnd: jest.Mock;
+
+    beforeEach(() => {
+      mockEnd = jest.fn();
+      mockStatus.mockReturnValue({ json: mockJson, end: mockEnd });
+    });
+
+    it('should answer 200 with an empty body', async () => {
+      mockRequest.body = { token: 'refresh_token', token_type_hint: 'refresh_token', client_id: 'client_1' };
+      jest.spyOn(OAuthService, 'revokeToken').mockResolvedValue();
+
+      await OAuthController.revoke(mockRequest as Request, mockResponse as Response);
+
+      expect(OAuthService.revokeToken).toHaveBeenCalledWith(mockRequest.body);
+      expect(mockStatus).toHaveBeenCalledWith(200);
+      expect(mockEnd).toHaveBeenCalled();
+    });
+
+    it('should report a missing token', async () => {
+      mockRequest.body = { client_id: 'client_1' };
+      jest.spyOn(OAuthService, 'revokeToken').mockRejectedValue(new OAuthError('invalid_request', 'Thiếu token'));
+
+      await OAuthController.revoke(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockJson).toHaveBeenCalledWith({ error: 'invalid_request', error_description: 'Thiếu token' });
+      expect(mockSet).not.toHaveBeenCalledWith('WWW-Authenticate', expect.anything());
+    });
+  });
+
+  describe('userinfo', () => {
+    it('should return the claims for an openid token', async () => {
+      mockRequest.user = { accountId: 1, email: 'test@example.com', clientId: 'client_1', scope: 'openid email' };
+      jest.spyOn(OidcService, 'getUserInfo').mockResolvedValue({ sub: '1', email: 'test@example.com', email_verified: true });
+
+      await OAuthController.userinfo(mockRequest as Request, mockResponse as Response);
+
+      expect(OidcService.getUserInfo).toHaveBeenCalledWith(1, ['openid', 'email']);
+      expect(mockSet).toHaveBeenCalledWith('Cache-Control', 'no-store');
+      expect(mockJson).toHaveBeenCalledWith({ sub: '1', email: 'test@example.com', email_verified: true });
+    });
+
+    it('should require the openid scope', async () => {
+      jest.spyOn(OidcService, 'getUserInfo');
+
+      await OAuthController.userinfo(mockRequest as Request, mockResponse as Response);
+
+      expect(OidcService.getUserInfo).not.toHaveBeenCalled();
+      expect(mockSet).toHaveBeenCalledWith('WWW-Authenticate', 'Bearer error="insufficient_scope", scope="openid"');
+      expect(mockStatus).toHaveBeenCalledWith(403);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ error: 'insufficient_scope' }));
+    });
+
+    it('should reject tokens of accounts that no longer exist', async () => {
+      mockRequest.user = { accountId: 1, email: 'test@example.com', clientId: 'client_1', scope: 'openid' };
+      jest.spyOn(OidcService, 'getUserInfo').mockResolvedValue(null);
+
+      await OAuthController.userinfo(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(401);
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ error: 'invalid_token' }));
+    });
+  });
+
+  describe('consents', () => {
+    it('should list the consents of the current user', async () => {
+      const consents = [{ id: 1, account_id: 1, client_id: 'client_1', client_name: 'Mobile App', scope: 'profile' }];
+      jest.spyOn(OAuthService, 'listConsents').mockResolvedValue(consents as any);
+
+      await OAuthController.listConsents(mockRequest as Request, mockResponse as Response);
+
+      expect(OAuthService.listConsents).toHaveBeenCalledWith(1);
+      expect(ResponseUtils.success).toHaveBeenCalledWith(consents, 'Lấy danh sách ứng dụng đã cấp quyền thành công');
+    });
+
+    it('should revoke a consent', async () => {
+      mockRequest.params = { clientId: 'client_1' };
+      jest.spyOn(OAuthService, 'revokeConsent').mockResolvedValue(true);
+
+      await OAuthController.revokeConsent(mockRequest as Request, mockResponse as Response);
+
+      expect(OAuthService.revokeConsent).toHaveBeenCalledWith(1, 'client_1');
+      expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Thu hồi quyền của ứng dụng thành công');
+    });
+
+    it('should return 404 when there is no consent', async () => {
+      mockRequest.params = { clientId: 'client_1' };
+      jest.spyOn(OAuthService, 'revokeConsent').mockResolvedValue(false);
+
+      await OAuthController.revokeConsent(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('client management', () => {
+    it('should register a client on behalf of the admin', async () => {
+      mockRequest.body = { name: 'Mobile App', redirect_uris: ['https://app.example.com/callback'] };
+      jest.spyOn(OAuthService, 'createClient').mockResolvedValue(mockClient);
+
+      await OAuthController.createClient(mockRequest as Request, mockResponse as Response);
+
+      expect(OAuthService.createClient).toHaveBeenCalledWith(mockRequest.body, 1);
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'oauth_client_created', {
+        changes: {
+          client_id: { from: null, to: 'client_1' },
+          name: { from: null, to: 'Mobile App' },
+          client_type: { from: null, to: 'public' },
+          redirect_uris: { from: null, to: ['https://app.example.com/callback'] },
+          scopes: { from: null, to: ['profile'] }
+        }
+      });
+      expect(mockStatus).toHaveBeenCalledWith(201);
+      expect(ResponseUtils.success).toHaveBeenCalledWith(mockClient, 'Đăng ký ứng dụng OAuth thành công');
+    });
+
+    it('should list clients', async () => {
+      jest.spyOn(OAuthService, 'listClients').mockResolvedValue([mockClient]);
+
+      await OAuthController.listClients(mockRequest as Request, mockResponse as Response);
+
+      expect(ResponseUtils.success).toHaveBeenCalledWith([mockClient], 'Lấy danh sách ứng dụng OAuth thành công');
+    });
+
+    it('should deactivate a client and record it', async () => {
+      mockRequest.params = { clientId: 'client_1' };
+      jest.spyOn(OAuthService, 'deactivateClient').mockResolvedValue(true);
+
+      await OAuthController.deactivateClient(mockRequest as Request, mockResponse as Response);
+
+      expect(OAuthService.deactivateClient).toHaveBeenCalledWith('client_1');
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'oauth_client_deactivated', {
+        changes: { client_id: { from: 'client_1', to: 'client_1' }, is_active: { from: true, to: false } }
+      });
+      expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Vô hiệu hóa ứng dụng OAuth thành công');
+    });
+
+    it('should return 404 when deactivating an unknown client', async () => {
+      mockRequest.params = { clientId: 'unknown' };
+      jest.spyOn(OAuthService, 'deactivateClient').mockResolvedValue(false);
+
+      await OAuthController.deactivateClient(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+    });
+
+    it('should register a client on behalf of a machine client', async () => {
+      mockRequest.user = undefined;
+      mockRequest.body = { name: 'Billing Service', client_type: 'confidential', redirect_uris: [] };
+      jest.spyOn(OAuthService, 'createClient').mockResolvedValue({ ...mockClient, client_secret: 'plain_secret' });
+
+      await OAuthController.createClient(mockRequest as Request, mockResponse as Response);
+
+      expect(OAuthService.createClient).toHaveBeenCalledWith(mockRequest.body, undefined);
+      expect(mockStatus).toHaveBeenCalledWith(201);
+    });
+
+    it('should return 400 for an unknown permission scope', async () => {
+      jest.spyOn(OAuthService, 'createClient').mockRejectedValue(
+        new OAuthError('invalid_scope', 'Phạm vi không tương ứng với quyền hạn nào: account:nuke')
+      );
+
+      await OAuthController.createClient(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Phạm vi không tương ứng với quyền hạn nào: account:nuke');
+    });
+
+    it('should rotate a client secret', async () => {
+      const rotated = { ...mockClient, client_type: 'confidential' as const, client_secret: 'new_secret' };
+      mockRequest.params = { clientId: 'client_1' };
+      jest.spyOn(OAuthService, 'rotateClientSecret').mockResolvedValue(rotated);
+
+      await OAuthController.rotateClientSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(OAuthService.rotateClientSecret).toHaveBeenCalledWith('client_1');
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'oauth_client_secret_rotated', {
+        changes: { client_id: { from: 'client_1', to: 'client_1' } }
+      });
+      expect(ResponseUtils.success).toHaveBeenCalledWith(rotated, 'Cấp lại client secret thành công');
+    });
+
+    it('should return 404 when rotating the secret of an unknown client', async () => {
+      mockRequest.params = { clientId: 'unknown' };
+      jest.spyOn(OAuthService, 'rotateClientSecret').mockResolvedValue(null);
+
+      await OAuthController.rotateClientSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+    });
+
+    it('should return 400 when rotating the secret of a public client', async () => {
+      mockRequest.params = { clientId: 'client_1' };
+      jest.spyOn(OAuthService, 'rotateClientSecret').mockRejectedValue(
+        new OAuthError('invalid_request', 'Ứng dụng công khai không có client secret')
+      );
+
+      await OAuthController.rotateClientSecret(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+
+    it('should handle errors when registering a client', async () => {
+      jest.spyOn(OAuthService, 'createClient').mockRejectedValue(new Error('Database error'));
+
+      await OAuthController.createClient(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('Create OAuth client error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import { Request, Response } from 'express';
+import { PasskeyController } from '../../src/controllers/passkeyController';
+import { AccountService } from '../../src/services/accountService';
+import { AuthService } from '../../src/services/authService';
+import { TwoFactorService } from '../../src/services/twoFactorService';
+import { WebAuthnService, WebAuthnError } from '../../src/services/webAuthnService';
+import { AuditService } from '../../src/services/auditService';
+import { JwtUtils, ResponseUtils } from '../../src/utils';
+
+// Mock the dependencies; WebAuthnService is spied on so WebAuthnError keeps its real behaviour
+jest.mock('../../src/services/accountService');
+jest.mock('../../src/services/authService');
+jest.mock('../../src/services/twoFactorService');
+jest.mock('../../src/services/auditService');
+jest.mock('../../src/utils');
+
+const mockAccountService = AccountService as jest.Mocked<typeof AccountService>;
+const mockAuthService = AuthService as jest.Mocked<typeof AuthService>;
+const mockTwoFactorService = TwoFactorService as jest.Mocked<typeof TwoFactorService>;
+const mockJwtUtils = JwtUtils as jest.Mocked<typeof JwtUtils>;
+const mockResponseUtils = ResponseUtils as jest.Mocked<typeof ResponseUtils>;
+
+describe('PasskeyController', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockJson: jest.Mock;
+  let mockStatus: jest.Mock;
+
+  const mockTokens = { accessToken: 'access_token', refreshToken: 'refresh_token', expiresIn: 900 };
+  const credential = {
+    id: 'cred',
+    rawId: 'cred',
+    type: 'public-key',
+    response: { clientDataJSON: 'client', authenticatorData: 'auth', signature: 'sig' }
+  };
+  const passkey = {
+    id: 3,
+    account_id: 1,
+    credential_id: 'cred',
+    public_key: '-----BEGIN PUBLIC KEY-----',
+    algorithm: -7,
+    sign_count: 0,
+    transports: 'internal,hybrid',
+    name: 'Laptop',
+    created_at: new Date()
+  };
+
+  beforeEach(() => {
+    mockJson = jest.fn();
+    mockStatus = jest.fn().mockReturnValue({ json: mockJson });
+
+    mockRequest = {
+      params: { id: '3' },
+      body: { credential, name: 'Laptop', mfa_token: 'mfa_token' },
+      headers: { 'user-agent': 'test-agent' },
+      ip: '127.0.0.1',
+      user: { accountId: 1, email: 'test@example.com' }
+    };
+    mockResponse = {
+      json: mockJson,
+      status: mockStatus
+    };
+
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Audit records are only written, so keep the real diff to assert on them
+    const { AuditService: ActualAuditService } = jest.requireActual('../../src/services/auditService');
+    (AuditService.diff as jest.Mock).mockImplementation(ActualAuditService.diff);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('registrationOptions', () => {
+    it('should return creation options for the signed-in account', async () => {
+      const account = { id: 1, email: 'test@example.com' } as any;
+      mockAccountService.findById.mockResolvedValue(account);
+      jest.spyOn(WebAuthnService, 'createRegistrationOptions').mockResolvedValue({ challenge: 'challenge' } as any);
+
+      await PasskeyController.registrationOptions(mockRequest as Request, mockResponse as Response);
+
+      expect(WebAuthnService.createRegistrationOptions).toHaveBeenCalledWith(account);
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a missing account', async () => {
+      mockAccountService.findById.mockResolvedValue(null);
+
+      await PasskeyController.registrationOptions(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('register', () => {
+    const account = { id: 1, email: 'test@example.com', password: 'hashed' };
+
+    beforeEach(() => {
+      mockRequest.body = { credential, name: 'Laptop', password: 'CurrentPass123' };
+      mockAccountService.findById.mockResolvedValue(account as any);
+      mockAuthService.confirmIdentity.mockResolvedValue(true);
+    });
+
+    it('should register the passkey without exposing the public key', async () => {
+      mockAuthService.registerPasskey.mockResolvedValue(passkey);
+
+      await PasskeyController.register(mockRequest as Request, mockResponse as Response);
+
+      expect(mockAuthService.confirmIdentity).toHaveBeenCalledWith(account, 'CurrentPass123', undefined);
+      expect(mockAuthService.registerPasskey).toHaveBeenCalledWith(account, credential, 'Laptop', '127.0.0.1');
+      expect(mockAuthService.recordSecurityEvent).toHaveBeenCalledWith(1, 'passkey_registered', '127.0.0.1', { passkey_id: 3 });
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'passkey_registered', {
+        targetAccountId: 1,
+        changes: { id: { from: null, to: 3 }, name: { from: null, to: 'Laptop' } }
+      });
+      expect(mockStatus).toHaveBeenCalledWith(201);
+      expect(mockResponseUtils.success).toHaveBeenCalledWith(
+        expect.not.objectContaining({ public_key: expect.anything() }),
+        'Đăng ký passkey thành công'
+      );
+      expect(mockResponseUtils.success).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 3, transports: ['internal', 'hybrid'] }),
+        'Đăng ký passkey thành công'
+      );
+    });
+
+    it('should refuse a wrong password', async () => {
+      mockAuthService.confirmIdentity.mockResolvedValue(false);
+
+      await PasskeyController.register(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockResponseUtils.error).toHaveBeenCalledWith('Mật khẩu không chính xác');
+      expect(mockAuthService.registerPasskey).not.toHaveBeenCalled();
+    });
+
+    it('should accept a step-up code instead of the password', async () => {
+      mockRequest.body = { credential, otp_code: '123456' };
+      mockAuthService.registerPasskey.mockResolvedValue(passkey);
+
+      await PasskeyController.register(mockRequest as Request, mockResponse as Response);
+
+      expect(mockAuthService.confirmIdentity).toHaveBeenCalledWith(account, undefined, '123456');
+      expect(mockStatus).toHaveBeenCalledWith(201);
+    });
+
+    it('should refuse a wrong step-up code', async () => {
+      mockRequest.body = { credential, otp_code: '123456' };
+      mockAuthService.confirmIdentity.mockResolvedValue(false);
+
+      await PasskeyController.register(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockResponseUtils.error).toHaveBeenCalledWith('Mã xác thực không chính xác hoặc đã hết hạn');
+      expect(mockAuthService.registerPasskey).not.toHaveBeenCalled();
+    });
+
+    it('should use the status code of WebAuthn errors', async () => {
+      mockAuthService.registerPasskey.mockRejectedValue(new WebAuthnError('Passkey này đã được đăng ký', 409));
+
+      await PasskeyController.register(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(409);
+      expect(mockAuthService.recordSecurityEvent).not.toHaveBeenCalled();
+    });
+
+    it('should handle unexpected errors', async () => {
+      mockAuthService.registerPasskey.mockRejectedValue(new Error('Database error'));
+
+      await PasskeyController.register(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('Passkey registration error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('remove', () => {
+    it('should remove a passkey of the signed-in account', async () => {
+      jest.spyOn(WebAuthnService, 'deleteCredential').mockResolvedValue(true);
+
+      await PasskeyController.remove(mockRequest as Request, mockResponse as Response);
+
+      expect(WebAuthnService.deleteCredential).toHaveBeenCalledWith(1, 3);
+      expect(mockAuthService.recordSecurityEvent).toHaveBeenCalledWith(1, 'passkey_removed', '127.0.0.1', { passkey_id: 3 });
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'passkey_removed', {
+        targetAccountId: 1,
+        changes: { id: { from: 3, to: null } }
+      });
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown passkey', async () => {
+      jest.spyOn(WebAuthnService, 'deleteCredential').mockResolvedValue(false);
+
+      await PasskeyController.remove(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('login', () => {
+    it('should return tokens and the user', async () => {
+      mockAuthService.loginWithPasskey.mockResolvedValue({ accountId: 1, result: mockTokens });
+      mockAccountService.getAccountWithPermissions.mockResolvedValue({ id: 1, email: 'test@example.com' } as any);
+
+      await PasskeyController.login(mockRequest as Request, mockResponse as Response);
+
+      expect(mockAuthService.loginWithPasskey).toHaveBeenCalledWith(credential, 'test-agent', '127.0.0.1');
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'login_succeeded', { actorAccountId: 1, targetAccountId: 1 });
+      expect(mockAccountService.getAccountWithPermissions).toHaveBeenCalledWith(1);
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should use the status code of WebAuthn errors', async () => {
+      mockAuthService.loginWithPasskey.mockRejectedValue(new WebAuthnError('Chữ ký passkey không hợp lệ', 401));
+
+      await PasskeyController.login(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(401);
+    });
+  });
+
+  describe('mfaOptions', () => {
+    it('should return the passkeys of the challenged account', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue({ accountId: 1 });
+      jest.spyOn(WebAuthnService, 'createAuthenticationOptions').mockResolvedValue({ challenge: 'challenge' } as any);
+
+      await PasskeyController.mfaOptions(mockRequest as Request, mockResponse as Response);
+
+      expect(WebAuthnService.createAuthenticationOptions).toHaveBeenCalledWith(1);
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for an expired challenge', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue(null);
+      jest.spyOn(WebAuthnService, 'createAuthenticationOptions');
+
+      await PasskeyController.mfaOptions(mockRequest as Request, mockResponse as Response);
+
+      expect(WebAuthnService.createAuthenticationOptions).not.toHaveBeenCalled();
+      expect(mockStatus).toHaveBeenCalledWith(401);
+    });
+
+    it('should return 400 when the account has no passkey', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue({ accountId: 1 });
+      jest.spyOn(WebAuthnService, 'createAuthenticationOptions').mockRejectedValue(
+        new WebAuthnError('Tài khoản chưa đăng ký passkey')
+      );
+
+      await PasskeyController.mfaOptions(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('verifyMfa', () => {
+    it('should complete the login', async () => {
+      mockAuthService.verifyMfaPasskey.mockResolvedValue(mockTokens);
+      mockJwtUtils.verifyAccessToken.mockReturnValue({ accountId: 1, email: 'test@example.com' });
+
+      await PasskeyController.verifyMfa(mockRequest as Request, mockResponse as Response);
+
+      expect(mockAuthService.verifyMfaPasskey).toHaveBeenCalledWith('mfa_token', credential);
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'login_succeeded', { actorAccountId: 1, targetAccountId: 1 });
+      expect(mockAccountService.getAccountWithPermissions).toHaveBeenCalledWith(1);
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for a rejected passkey', async () => {
+      mockAuthService.verifyMfaPasskey.mockResolvedValue(null);
+
+      await PasskeyController.verifyMfa(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(401);
+    });
+  });
+});
@@ -1,10 +1,14 @@
 import { Request, Response } from 'express';
 import { PermissionController } from '../../src/controllers/permissionController';
 import { PermissionService } from '../../src/services/permissionService';
+import { AuditService } from '../../src/services/auditService';
+import { OutboxService } from '../../src/services/outboxService';
 import { ResponseUtils } from '../../src/utils';
 
 // Mock the dependencies
 jest.mock('../../src/services/permissionService');
+jest.mock('../../src/services/auditService');
+jest.mock('../../src/services/outboxService');
 jest.mock('../../src/utils');
 
 describe('PermissionController', () => {
@@ -25,6 +29,10 @@ describe('PermissionController', () => {
 
     // Clear all mocks
     jest.clearAllMocks();
+
+    // Audit records are only written, so keep the real diff to assert on them
+    const { AuditService: ActualAuditService } = jest.requireActual('../../src/services/auditService');
+    (AuditService.diff as jest.Mock).mockImplementation(ActualAuditService.diff);
     
     // Setup console.error mock
     jest.spyOn(console, 'error').mockImplementation(() => {});
@@ -161,6 +169,13 @@ describe('PermissionController', () => {
         expect(PermissionService.getRoleByName).toHaveBeenCalledWith('moderator');
         expect(PermissionService.createRole).toHaveBeenCalledWith('moderator', 'Moderator role');
         expect(PermissionService.getRoleById).toHaveBeenCalledWith(mockRoleId);
+        expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'role_created', {
+          changes: {
+            id: { from: null, to: 3 },
+            name: { from: null, to: 'moderator' },
+            description: { from: null, to: 'Moderator role' }
+          }
+        });
         expect(ResponseUtils.success).toHaveBeenCalledWith(mockCreatedRole, 'Tạo vai trò thành công');
         expect(mockStatus).toHaveBeenCalledWith(201);
         expect(mockJson).toHaveBeenCalled();
@@ -228,6 +243,13 @@ describe('PermissionController', () => {
         expect(PermissionService.getRoleById).toHaveBeenCalledWith(1);
         expect(PermissionService.getRoleByName).toHaveBeenCalledWith('updated-admin');
         expect(PermissionService.updateRole).toHaveBeenCalledWith(1, 'updated-admin', 'Updated Administrator');
+        expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'role_updated', {
+          changes: {
+            id: { from: 1, to: 1 },
+            name: { from: 'admin', to: 'updated-admin' },
+            description: { from: 'Administrator', to: 'Updated Administrator' }
+          }
+        });
         expect(ResponseUtils.success).toHaveBeenCalledWith(mockUpdatedRole, 'Cập nhật vai trò thành công');
         expect(mockResponse.json).toHaveBeenCalled();
       });
@@ -308,6 +330,7 @@ describe('PermissionController', () => {
       });
 
       it('should delete role successfully', async () => {
+        (PermissionService.getRoleById as jest.Mock).mockResolvedValue({ id: 1, name: 'editor' });
         (PermissionService.deleteRole as jest.Mock).mockResolvedValue(true);
         (ResponseUtils.success as jest.Mock).mockReturnValue({
           success: true,
@@ -318,6 +341,9 @@ describe('PermissionController', () => {
         await PermissionController.deleteRole(mockRequest as Request, mockResponse as Response);
 
         expect(PermissionService.deleteRole).toHaveBeenCalledWith(1);
+        expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'role_deleted', {
+          changes: { id: { from: 1, to: null }, name: { from: 'editor', to: null } }
+        });
         expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Xóa vai trò thành công');
         expect(mockResponse.json).toHaveBeenCalled();
       });
@@ -808,6 +834,22 @@ describe('PermissionController', () => {
         await PermissionController.grantRoleToAccount(mockRequest as Request, mockResponse as Response);
 
         expect(PermissionService.grantRoleToAccount).toHaveBeenCalledWith(1, 2, 3, new Date('2024-12-31T23:59:59Z'));
+        expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'account_role_granted', {
+          targetAccountId: 1,
+          changes: {
+            role_id: { from: null, to: 2 },
+            expires_at: { from: null, to: '2024-12-31T23:59:59Z' }
+          }
+        });
+        expect(OutboxService.enqueue).toHaveBeenCalledWith('webhook.event', {
+          type: 'role.granted',
+          data: {
+            account_id: 1,
+            role_id: 2,
+            expires_at: '2024-12-31T23:59:59Z',
+            granted_by: 3
+          }
+        });
         expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Gán vai trò cho tài khoản thành công');
         expect(mockResponse.json).toHaveBeenCalled();
       });
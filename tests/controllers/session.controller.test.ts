@@ -0,0 +1,220 @@
+import { Request, Response } from 'express';
+import { SessionController } from '../../src/controllers/sessionController';
+import { AccountService } from '../../src/services/accountService';
+import { AuthService } from '../../src/services/authService';
+import { SessionService } from '../../src/services/sessionService';
+import { AuditService } from '../../src/services/auditService';
+import { ResponseUtils } from '../../src/utils';
+
+// Mock the dependencies
+jest.mock('../../src/services/accountService');
+jest.mock('../../src/services/authService');
+jest.mock('../../src/services/sessionService');
+jest.mock('../../src/services/auditService');
+jest.mock('../../src/utils');
+
+const mockAccountService = AccountService as jest.Mocked<typeof AccountService>;
+const mockAuthService = AuthService as jest.Mocked<typeof AuthService>;
+const mockSessionService = SessionService as jest.Mocked<typeof SessionService>;
+const mockResponseUtils = ResponseUtils as jest.Mocked<typeof ResponseUtils>;
+
+describe('SessionController', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockJson: jest.Mock;
+  let mockStatus: jest.Mock;
+
+  beforeEach(() => {
+    mockJson = jest.fn();
+    mockStatus = jest.fn().mockReturnValue({ json: mockJson });
+
+    mockRequest = {
+      params: { id: '7' },
+      ip: '127.0.0.1',
+      user: { accountId: 1, email: 'test@example.com', sid: 'family_1' }
+    };
+    mockResponse = {
+      json: mockJson,
+      status: mockStatus
+    };
+
+    jest.clearAllMocks();
+
+    // Audit records are only written, so keep the real diff to assert on them
+    const { AuditService: ActualAuditService } = jest.requireActual('../../src/services/auditService');
+    (AuditService.diff as jest.Mock).mockImplementation(ActualAuditService.diff);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('listOwn', () => {
+    it('should list the sessions of the signed-in account', async () => {
+      const sessions = [{ id: 7, current: true }] as any;
+      mockSessionService.listSessions.mockResolvedValue(sessions);
+
+      await SessionController.listOwn(mockRequest as Request, mockResponse as Response);
+
+      expect(mockSessionService.listSessions).toHaveBeenCalledWith(1, 'family_1');
+      expect(mockResponseUtils.success).toHaveBeenCalledWith(sessions, 'Lấy danh sách phiên đăng nhập thành công');
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should handle errors', async () => {
+      mockSessionService.listSessions.mockRejectedValue(new Error('Database error'));
+
+      await SessionController.listOwn(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('List sessions error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('revokeOwn', () => {
+    it('should revoke the session and record the event', async () => {
+      mockSessionService.revokeSession.mockResolvedValue(true);
+
+      await SessionController.revokeOwn(mockRequest as Request, mockResponse as Response);
+
+      expect(mockSessionService.revokeSession).toHaveBeenCalledWith(1, 7);
+      expect(mockAuthService.recordSecurityEvent).toHaveBeenCalledWith(1, 'session_revoked', '127.0.0.1', { session_id: 7 });
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown session', async () => {
+      mockSessionService.revokeSession.mockResolvedValue(false);
+
+      await SessionController.revokeOwn(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+      expect(mockAuthService.recordSecurityEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listForAccount', () => {
+    beforeEach(() => {
+      mockRequest = {
+        params: { id: '2' },
+        ip: '127.0.0.1',
+        user: { accountId: 1, email: 'admin@example.com' }
+      };
+    });
+
+    it('should list both kinds of sessions and record the lookup', async () => {
+      mockAccountService.findById.mockResolvedValue({ id: 2 } as any);
+      mockSessionService.listSessions.mockResolvedValue([{ id: 7 }] as any);
+      mockSessionService.listCachedSessions.mockResolvedValue([{ id: 'abc', data: {}, expires_in: 60 }]);
+
+      await SessionController.listForAccount(mockRequest as Request, mockResponse as Response);
+
+      expect(mockSessionService.listSessions).toHaveBeenCalledWith(2);
+      expect(mockAuthService.recordSecurityEvent).toHaveBeenCalledWith(2, 'sessions_viewed', '127.0.0.1', { viewed_by: 1 });
+      expect(mockResponseUtils.success).toHaveBeenCalledWith({
+        refresh_sessions: [{ id: 7 }],
+        cached_sessions: [{ id: 'abc', data: {}, expires_in: 60 }]
+      }, 'Lấy danh sách phiên đăng nhập thành công');
+    });
+
+    it('should return 404 for an unknown account', async () => {
+      mockAccountService.findById.mockResolvedValue(null);
+
+      await SessionController.listForAccount(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+      expect(mockAuthService.recordSecurityEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeForAccount', () => {
+    it('should revoke the session and record who did it', async () => {
+      mockRequest = { params: { id: '2', sessionId: '7' }, ip: '127.0.0.1', user: { accountId: 1, email: 'admin@example.com' } };
+      mockSessionService.revokeSession.mockResolvedValue(true);
+
+      await SessionController.revokeForAccount(mockRequest as Request, mockResponse as Response);
+
+      expect(mockSessionService.revokeSession).toHaveBeenCalledWith(2, 7);
+      expect(mockAuthService.recordSecurityEvent).toHaveBeenCalledWith(2, 'session_revoked', '127.0.0.1', {
+        session_id: 7,
+        revoked_by: 1
+      });
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'session_revoked', {
+        targetAccountId: 2,
+        changes: { session_id: { from: 7, to: null } }
+      });
+    });
+
+    it('should return 404 for a session of another account', async () => {
+      mockRequest = { params: { id: '2', sessionId: '9' }, ip: '127.0.0.1', user: { accountId: 1, email: 'admin@example.com' } };
+      mockSessionService.revokeSession.mockResolvedValue(false);
+
+      await SessionController.revokeForAccount(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('revokeCachedForAccount', () => {
+    it('should delete the cached session', async () => {
+      mockRequest = { params: { id: '2', sessionId: 'abc' }, ip: '127.0.0.1', user: { accountId: 1, email: 'admin@example.com' } };
+      mockAuthService.deleteSession.mockResolvedValue(true);
+
+      await SessionController.revokeCachedForAccount(mockRequest as Request, mockResponse as Response);
+
+      expect(mockAuthService.deleteSession).toHaveBeenCalledWith(2, 'abc');
+      expect(mockAuthService.recordSecurityEvent).toHaveBeenCalledWith(2, 'cached_session_revoked', '127.0.0.1', {
+        session_id: 'abc',
+        revoked_by: 1
+      });
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'session_revoked', {
+        targetAccountId: 2,
+        changes: { cached_session_id: { from: 'abc', to: null } }
+      });
+    });
+
+    it('should return 404 for an unknown cached session', async () => {
+      mockRequest = { params: { id: '2', sessionId: 'abc' }, ip: '127.0.0.1', user: { accountId: 1, email: 'admin@example.com' } };
+      mockAuthService.deleteSession.mockResolvedValue(false);
+
+      await SessionController.revokeCachedForAccount(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('revokeAllForAccount', () => {
+    beforeEach(() => {
+      mockRequest = { params: { id: '2' }, ip: '127.0.0.1', user: { accountId: 1, email: 'admin@example.com' } };
+    });
+
+    it('should sign the account out everywhere', async () => {
+      mockAccountService.findById.mockResolvedValue({ id: 2 } as any);
+
+      await SessionController.revokeAllForAccount(mockRequest as Request, mockResponse as Response);
+
+      expect(mockAuthService.logoutAll).toHaveBeenCalledWith(2);
+      expect(mockAuthService.recordSecurityEvent).toHaveBeenCalledWith(2, 'all_sessions_revoked', '127.0.0.1', { revoked_by: 1 });
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'all_sessions_revoked', { targetAccountId: 2 });
+    });
+
+    it('should return 404 for an unknown account', async () => {
+      mockAccountService.findById.mockResolvedValue(null);
+
+      await SessionController.revokeAllForAccount(mockRequest as Request, mockResponse as Response);
+
+      expect(mockAuthService.logoutAll).not.toHaveBeenCalled();
+      expect(mockStatus).toHaveBeenCalledWith(404);
+    });
+
+    it('should handle errors', async () => {
+      mockAccountService.findById.mockResolvedValue({ id: 2 } as any);
+      mockAuthService.logoutAll.mockRejectedValue(new Error('Redis error'));
+
+      await SessionController.revokeAllForAccount(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('Admin revoke all sessions error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { Request, Response } from 'express';
+import { SocialAuthController } from '../../src/controllers/socialAuthController';
+import { SocialAuthService } from '../../src/services/socialAuthService';
+import { AuditService } from '../../src/services/auditService';
+import { AccountService } from '../../src/services/accountService';
+import { IdentityProviderService, IdentityProviderError } from '../../src/services/identityProviderService';
+
+// Mock the dependencies; IdentityProviderService is spied on so IdentityProviderError keeps its real behaviour
+jest.mock('../../src/services/accountService');
+jest.mock('../../src/services/socialAuthService');
+jest.mock('../../src/services/auditService');
+jest.mock('../../src/utils');
+
+const mockSocialAuthService = SocialAuthService as jest.Mocked<typeof SocialAuthService>;
+const mockAccountService = AccountService as jest.Mocked<typeof AccountService>;
+
+describe('SocialAuthController', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockJson: jest.Mock;
+  let mockStatus: jest.Mock;
+
+  const mockTokens = { accessToken: 'access_token', refreshToken: 'refresh_token', expiresIn: 900 };
+
+  beforeEach(() => {
+    mockJson = jest.fn();
+    mockStatus = jest.fn().mockReturnValue({ json: mockJson });
+
+    mockRequest = {
+      params: { provider: 'google' },
+      body: { code: 'code', state: 'state' },
+      headers: { 'user-agent': 'test-agent' },
+      ip: '127.0.0.1'
+    };
+    mockResponse = {
+      json: mockJson,
+      status: mockStatus
+    };
+
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('listProviders', () => {
+    it('should list the enabled providers', async () => {
+      jest.spyOn(IdentityProviderService, 'listProviders').mockReturnValue([
+        { name: 'google', displayName: 'Google' } as any
+      ]);
+
+      await SocialAuthController.listProviders(mockRequest as Request, mockResponse as Response);
+
+      expect(mockJson).toHaveBeenCalled();
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authorize', () => {
+    it('should return the provider URL', async () => {
+      jest.spyOn(IdentityProviderService, 'createAuthorizationUrl').mockResolvedValue('https://accounts.google.com/auth?state=s');
+
+      await SocialAuthController.authorize(mockRequest as Request, mockResponse as Response);
+
+      expect(IdentityProviderService.createAuthorizationUrl).toHaveBeenCalledWith('google');
+      expect(mockJson).toHaveBeenCalled();
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a disabled provider', async () => {
+      jest.spyOn(IdentityProviderService, 'createAuthorizationUrl').mockRejectedValue(
+        new IdentityProviderError('Nhà cung cấp đăng nhập không được hỗ trợ', 404)
+      );
+
+      await SocialAuthController.authorize(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('callback', () => {
+    it('should return tokens and the user like the password login', async () => {
+      mockSocialAuthService.login.mockResolvedValue({ accountId: 1, isNewAccount: true, result: mockTokens });
+      mockAccountService.getAccountWithPermissions.mockResolvedValue({ id: 1, email: 'test@example.com' } as any);
+
+      await SocialAuthController.callback(mockRequest as Request, mockResponse as Response);
+
+      expect(mockSocialAuthService.login).toHaveBeenCalledWith('google', 'code', 'state', 'test-agent', '127.0.0.1');
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'login_succeeded', { actorAccountId: 1, targetAccountId: 1 });
+      expect(mockAccountService.getAccountWithPermissions).toHaveBeenCalledWith(1);
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should pass an MFA challenge through', async () => {
+      const challenge = { mfaRequired: true as const, mfaToken: 'mfa_token', expiresIn: 300 };
+      mockSocialAuthService.login.mockResolvedValue({ accountId: 1, isNewAccount: false, result: challenge });
+
+      await SocialAuthController.callback(mockRequest as Request, mockResponse as Response);
+
+      expect(mockAccountService.getAccountWithPermissions).not.toHaveBeenCalled();
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'login_mfa_required', { actorAccountId: 1, targetAccountId: 1 });
+      expect(mockJson).toHaveBeenCalled();
+    });
+
+    it('should use the status code of provider errors', async () => {
+      mockSocialAuthService.login.mockRejectedValue(
+        new IdentityProviderError('Email đã được đăng ký. Vui lòng đăng nhập bằng mật khẩu rồi liên kết tài khoản', 409)
+      );
+
+      await SocialAuthController.callback(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(409);
+    });
+
+    it('should handle unexpected errors', async () => {
+      mockSocialAuthService.login.mockRejectedValue(new Error('Network error'));
+
+      await SocialAuthController.callback(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('Social login error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('identities', () => {
+    beforeEach(() => {
+      mockRequest.user = { accountId: 1, email: 'test@example.com' };
+    });
+
+    it('should list the linked identities', async () => {
+      mockSocialAuthService.listIdentities.mockResolvedValue([]);
+
+      await SocialAuthController.listIdentities(mockRequest as Request, mockResponse as Response);
+
+      expect(mockSocialAuthService.listIdentities).toHaveBeenCalledWith(1);
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should bind the link authorization to the account', async () => {
+      jest.spyOn(IdentityProviderService, 'createAuthorizationUrl').mockResolvedValue('https://accounts.google.com/auth');
+
+      await SocialAuthController.authorizeLink(mockRequest as Request, mockResponse as Response);
+
+      expect(IdentityProviderService.createAuthorizationUrl).toHaveBeenCalledWith('google', 1);
+    });
+
+    it('should link an identity', async () => {
+      mockSocialAuthService.linkAccount.mockResolvedValue({
+        id: 6,
+        account_id: 1,
+        provider: 'google',
+        subject: 'google-sub',
+        created_at: new Date()
+      });
+
+      await SocialAuthController.linkIdentity(mockRequest as Request, mockResponse as Response);
+
+      expect(mockSocialAuthService.linkAccount).toHaveBeenCalledWith(1, 'google', 'code', 'state', '127.0.0.1');
+      expect(mockStatus).toHaveBeenCalledWith(201);
+    });
+
+    it('should refuse to unlink the last login method', async () => {
+      mockSocialAuthService.unlinkIdentity.mockRejectedValue(
+        new IdentityProviderError('Không thể hủy liên kết phương thức đăng nhập cuối cùng. Vui lòng đặt mật khẩu trước', 400)
+      );
+
+      await SocialAuthController.unlinkIdentity(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+
+    it('should return 404 when nothing is linked', async () => {
+      mockSocialAuthService.unlinkIdentity.mockResolvedValue(false);
+
+      await SocialAuthController.unlinkIdentity(mockRequest as Request, mockResponse as Response);
+
+      expect(mockSocialAuthService.unlinkIdentity).toHaveBeenCalledWith(1, 'google', '127.0.0.1');
+      expect(mockStatus).toHaveBeenCalledWith(404);
+    });
+  });
+});
@@ -0,0 +1,455 @@
+import { Request, Response } from 'express';
+import { TwoFactorController } from '../../src/controllers/twoFactorController';
+import { AuthService } from '../../src/services/authService';
+import { AccountService } from '../../src/services/accountService';
+import { TwoFactorService } from '../../src/services/twoFactorService';
+import { OtpService } from '../../src/services/otpService';
+import { SmsService } from '../../src/services/smsService';
+import { AuditService } from '../../src/services/auditService';
+import { OutboxService } from '../../src/services/outboxService';
+import { ResponseUtils, PasswordUtils, JwtUtils } from '../../src/utils';
+
+// Mock the dependencies
+jest.mock('../../src/services/authService');
+jest.mock('../../src/services/accountService');
+jest.mock('../../src/services/twoFactorService');
+jest.mock('../../src/services/otpService');
+jest.mock('../../src/services/smsService');
+jest.mock('../../src/services/auditService');
+jest.mock('../../src/services/outboxService');
+jest.mock('../../src/utils');
+
+describe('TwoFactorController', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockJson: jest.Mock;
+  let mockStatus: jest.Mock;
+
+  const mockAccount = {
+    id: 1,
+    email: 'test@example.com',
+    password: 'hashed_password',
+    two_factor_enabled: false,
+    two_factor_secret: undefined as string | undefined
+  };
+
+  beforeEach(() => {
+    mockJson = jest.fn();
+    mockStatus = jest.fn().mockReturnValue({ json: mockJson });
+
+    mockRequest = {
+      user: { accountId: 1, email: 'test@example.com' },
+      body: {}
+    };
+    mockResponse = {
+      json: mockJson,
+      status: mockStatus
+    };
+
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('setup', () => {
+    it('should return a new secret and otpauth URL', async () => {
+      const mockSetup = { secret: 'SECRET', otpauthUrl: 'otpauth://totp/test' };
+      (AccountService.findById as jest.Mock).mockResolvedValue(mockAccount);
+      (TwoFactorService.beginSetup as jest.Mock).mockResolvedValue(mockSetup);
+
+      await TwoFactorController.setup(mockRequest as Request, mockResponse as Response);
+
+      expect(TwoFactorService.beginSetup).toHaveBeenCalledWith(mockAccount);
+      expect(ResponseUtils.success).toHaveBeenCalledWith(mockSetup, expect.any(String));
+      expect(mockJson).toHaveBeenCalled();
+    });
+
+    it('should reject setup when 2FA is already enabled', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue({ ...mockAccount, two_factor_enabled: true });
+
+      await TwoFactorController.setup(mockRequest as Request, mockResponse as Response);
+
+      expect(TwoFactorService.beginSetup).not.toHaveBeenCalled();
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Xác thực hai lớp đã được bật');
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+
+    it('should handle account not found', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue(null);
+
+      await TwoFactorController.setup(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+    });
+
+    it('should handle setup errors', async () => {
+      (AccountService.findById as jest.Mock).mockRejectedValue(new Error('Database error'));
+
+      await TwoFactorController.setup(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('Two-factor setup error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('confirm', () => {
+    beforeEach(() => {
+      mockRequest.body = { code: '123456' };
+    });
+
+    it('should enable 2FA with a valid code', async () => {
+      const pendingAccount = { ...mockAccount, two_factor_secret: 'encrypted_secret' };
+      (AccountService.findById as jest.Mock).mockResolvedValue(pendingAccount);
+      (TwoFactorService.confirmSetup as jest.Mock).mockResolvedValue(true);
+      (TwoFactorService.generateRecoveryCodes as jest.Mock).mockResolvedValue(['a1b2c-3d4e5']);
+
+      await TwoFactorController.confirm(mockRequest as Request, mockResponse as Response);
+
+      expect(TwoFactorService.confirmSetup).toHaveBeenCalledWith(pendingAccount, '123456');
+      expect(TwoFactorService.generateRecoveryCodes).toHaveBeenCalledWith(1);
+      expect(ResponseUtils.success).toHaveBeenCalledWith(
+        { recoveryCodes: ['a1b2c-3d4e5'] },
+        'Bật xác thực hai lớp thành công'
+      );
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid code', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue({ ...mockAccount, two_factor_secret: 'encrypted_secret' });
+      (TwoFactorService.confirmSetup as jest.Mock).mockResolvedValue(false);
+
+      await TwoFactorController.confirm(mockRequest as Request, mockResponse as Response);
+
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Mã xác thực không chính xác');
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+
+    it('should require setup to be started first', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue(mockAccount);
+
+      await TwoFactorController.confirm(mockRequest as Request, mockResponse as Response);
+
+      expect(TwoFactorService.confirmSetup).not.toHaveBeenCalled();
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Vui lòng thiết lập xác thực hai lớp trước');
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('disable', () => {
+    const enabledAccount = { ...mockAccount, two_factor_enabled: true, two_factor_secret: 'encrypted_secret' };
+
+    beforeEach(() => {
+      mockRequest.body = { password: 'password123', code: '123456' };
+    });
+
+    it('should disable 2FA with a valid password and code', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue(enabledAccount);
+      (PasswordUtils.compare as jest.Mock).mockResolvedValue(true);
+      (TwoFactorService.verifySecondFactor as jest.Mock).mockResolvedValue(true);
+      (TwoFactorService.disable as jest.Mock).mockResolvedValue(true);
+
+      await TwoFactorController.disable(mockRequest as Request, mockResponse as Response);
+
+      expect(PasswordUtils.compare).toHaveBeenCalledWith('password123', 'hashed_password');
+      expect(TwoFactorService.verifySecondFactor).toHaveBeenCalledWith(enabledAccount, '123456', undefined);
+      expect(TwoFactorService.disable).toHaveBeenCalledWith(1);
+      expect(OutboxService.enqueue).not.toHaveBeenCalled();
+      expect(ResponseUtils.success).toHaveBeenCalledWith(null, 'Tắt xác thực hai lớp thành công');
+    });
+
+    it('should disable 2FA with a recovery code and notify the user', async () => {
+      mockRequest = { ...mockRequest, body: { password: 'password123', recovery_code: 'a1b2c-3d4e5' }, ip: '127.0.0.1' };
+      (AccountService.findById as jest.Mock).mockResolvedValue(enabledAccount);
+      (PasswordUtils.compare as jest.Mock).mockResolvedValue(true);
+      (TwoFactorService.verifySecondFactor as jest.Mock).mockResolvedValue(true);
+      (TwoFactorService.countRemainingRecoveryCodes as jest.Mock).mockResolvedValue(9);
+
+      await TwoFactorController.disable(mockRequest as Request, mockResponse as Response);
+
+      expect(TwoFactorService.verifySecondFactor).toHaveBeenCalledWith(enabledAccount, undefined, 'a1b2c-3d4e5');
+      expect(OutboxService.enqueue).toHaveBeenCalledWith('email.recovery_code_used', {
+        email: 'test@example.com',
+        first_name: undefined,
+        remaining_codes: 9,
+        ip_address: '127.0.0.1',
+        locale: undefined
+      });
+      expect(TwoFactorService.disable).toHaveBeenCalledWith(1);
+    });
+
+    it('should reject a wrong password', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue(enabledAccount);
+      (PasswordUtils.compare as jest.Mock).mockResolvedValue(false);
+
+      await TwoFactorController.disable(mockRequest as Request, mockResponse as Response);
+
+      expect(TwoFactorService.disable).not.toHaveBeenCalled();
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Mật khẩu không chính xác');
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+
+    it('should reject a wrong code', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue(enabledAccount);
+      (PasswordUtils.compare as jest.Mock).mockResolvedValue(true);
+      (TwoFactorService.verifySecondFactor as jest.Mock).mockResolvedValue(false);
+
+      await TwoFactorController.disable(mockRequest as Request, mockResponse as Response);
+
+      expect(TwoFactorService.disable).not.toHaveBeenCalled();
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+
+    it('should reject when 2FA is not enabled', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue(mockAccount);
+
+      await TwoFactorController.disable(mockRequest as Request, mockResponse as Response);
+
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Xác thực hai lớp chưa được bật');
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('regenerateRecoveryCodes', () => {
+    const enabledAccount = { ...mockAccount, two_factor_enabled: true, two_factor_secret: 'encrypted_secret' };
+
+    beforeEach(() => {
+      mockRequest.body = { code: '123456' };
+    });
+
+    it('should return a new batch of recovery codes', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue(enabledAccount);
+      (TwoFactorService.verifyCode as jest.Mock).mockResolvedValue(true);
+      (TwoFactorService.generateRecoveryCodes as jest.Mock).mockResolvedValue(['a1b2c-3d4e5']);
+
+      await TwoFactorController.regenerateRecoveryCodes(mockRequest as Request, mockResponse as Response);
+
+      expect(TwoFactorService.verifyCode).toHaveBeenCalledWith(enabledAccount, '123456');
+      expect(TwoFactorService.generateRecoveryCodes).toHaveBeenCalledWith(1);
+      expect(ResponseUtils.success).toHaveBeenCalledWith(
+        { recoveryCodes: ['a1b2c-3d4e5'] },
+        'Tạo mã khôi phục mới thành công'
+      );
+    });
+
+    it('should reject an invalid code', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue(enabledAccount);
+      (TwoFactorService.verifyCode as jest.Mock).mockResolvedValue(false);
+
+      await TwoFactorController.regenerateRecoveryCodes(mockRequest as Request, mockResponse as Response);
+
+      expect(TwoFactorService.generateRecoveryCodes).not.toHaveBeenCalled();
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+
+    it('should reject when 2FA is not enabled', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue(mockAccount);
+
+      await TwoFactorController.regenerateRecoveryCodes(mockRequest as Request, mockResponse as Response);
+
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Xác thực hai lớp chưa được bật');
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('verify', () => {
+    beforeEach(() => {
+      mockRequest = { body: { mfa_token: 'mfa-token', code: '123456' } };
+    });
+
+    it('should exchange a valid challenge for tokens', async () => {
+      const mockTokens = { accessToken: 'access-token', refreshToken: 'refresh-token', expiresIn: 900 };
+      const mockAccountWithPermissions = { id: 1, email: 'test@example.com', permissions: [] };
+
+      (AuthService.verifyMfaChallenge as jest.Mock).mockResolvedValue(mockTokens);
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue({ accountId: 1, email: 'test@example.com' });
+      (AccountService.getAccountWithPermissions as jest.Mock).mockResolvedValue(mockAccountWithPermissions);
+
+      await TwoFactorController.verify(mockRequest as Request, mockResponse as Response);
+
+      expect(AuthService.verifyMfaChallenge).toHaveBeenCalledWith('mfa-token', '123456', undefined);
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'login_succeeded', { actorAccountId: 1, targetAccountId: 1 });
+      expect(AccountService.getAccountWithPermissions).toHaveBeenCalledWith(1);
+      expect(OutboxService.enqueue).not.toHaveBeenCalled();
+      expect(ResponseUtils.success).toHaveBeenCalledWith({
+        ...mockTokens,
+        user: mockAccountWithPermissions
+      }, 'Đăng nhập thành công');
+    });
+
+    it('should notify the user when a recovery code is used to log in', async () => {
+      const mockTokens = { accessToken: 'access-token', refreshToken: 'refresh-token', expiresIn: 900 };
+      mockRequest = { body: { mfa_token: 'mfa-token', recovery_code: 'a1b2c-3d4e5' }, ip: '127.0.0.1' };
+
+      (AuthService.verifyMfaChallenge as jest.Mock).mockResolvedValue(mockTokens);
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue({ accountId: 1, email: 'test@example.com' });
+      (AccountService.findById as jest.Mock).mockResolvedValue({ ...mockAccount, first_name: 'John', preferred_locale: 'en' });
+      (TwoFactorService.countRemainingRecoveryCodes as jest.Mock).mockResolvedValue(3);
+
+      await TwoFactorController.verify(mockRequest as Request, mockResponse as Response);
+
+      expect(AuthService.verifyMfaChallenge).toHaveBeenCalledWith('mfa-token', undefined, 'a1b2c-3d4e5');
+      expect(OutboxService.enqueue).toHaveBeenCalledWith('email.recovery_code_used', {
+        email: 'test@example.com',
+        first_name: 'John',
+        remaining_codes: 3,
+        ip_address: '127.0.0.1',
+        locale: 'en'
+      });
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid code or expired challenge', async () => {
+      (AuthService.verifyMfaChallenge as jest.Mock).mockResolvedValue(null);
+
+      await TwoFactorController.verify(mockRequest as Request, mockResponse as Response);
+
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Mã xác thực không chính xác hoặc phiên đăng nhập đã hết hạn');
+      expect(mockStatus).toHaveBeenCalledWith(401);
+    });
+
+    it('should handle verify errors', async () => {
+      (AuthService.verifyMfaChallenge as jest.Mock).mockRejectedValue(new Error('Redis error'));
+
+      await TwoFactorController.verify(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('Two-factor verify error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('enableSms', () => {
+    it('should enable SMS codes for a verified phone', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue({
+        ...mockAccount,
+        phone: '+84912345678',
+        phone_verified_at: new Date()
+      });
+
+      await TwoFactorController.enableSms(mockRequest as Request, mockResponse as Response);
+
+      expect(TwoFactorService.setSmsEnabled).toHaveBeenCalledWith(1, true);
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should require a verified phone', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue({ ...mockAccount, phone: '+84912345678' });
+
+      await TwoFactorController.enableSms(mockRequest as Request, mockResponse as Response);
+
+      expect(TwoFactorService.setSmsEnabled).not.toHaveBeenCalled();
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Vui lòng xác thực số điện thoại trước');
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('disableSms', () => {
+    beforeEach(() => {
+      mockRequest.body = { password: 'Password123' };
+    });
+
+    it('should disable SMS codes after checking the password', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue({ ...mockAccount, sms_two_factor_enabled: true });
+      (PasswordUtils.compare as jest.Mock).mockResolvedValue(true);
+
+      await TwoFactorController.disableSms(mockRequest as Request, mockResponse as Response);
+
+      expect(PasswordUtils.compare).toHaveBeenCalledWith('Password123', 'hashed_password');
+      expect(TwoFactorService.setSmsEnabled).toHaveBeenCalledWith(1, false);
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject a wrong password', async () => {
+      (AccountService.findById as jest.Mock).mockResolvedValue({ ...mockAccount, sms_two_factor_enabled: true });
+      (PasswordUtils.compare as jest.Mock).mockResolvedValue(false);
+
+      await TwoFactorController.disableSms(mockRequest as Request, mockResponse as Response);
+
+      expect(TwoFactorService.setSmsEnabled).not.toHaveBeenCalled();
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('sendSmsCode', () => {
+    const smsAccount = { ...mockAccount, phone: '+84912345678', sms_two_factor_enabled: true };
+
+    beforeEach(() => {
+      mockRequest = { body: { mfa_token: 'mfa-token' } };
+    });
+
+    it('should text a code to the phone of the challenged account', async () => {
+      (TwoFactorService.getChallenge as jest.Mock).mockResolvedValue({ accountId: 1 });
+      (AccountService.findById as jest.Mock).mockResolvedValue(smsAccount);
+      (OtpService.issueCode as jest.Mock).mockResolvedValue('123456');
+      (SmsService.maskPhone as jest.Mock).mockReturnValue('+84******678');
+
+      await TwoFactorController.sendSmsCode(mockRequest as Request, mockResponse as Response);
+
+      expect(OtpService.issueCode).toHaveBeenCalledWith(1, 'sms_two_factor', '+84912345678');
+      expect(OutboxService.enqueue).toHaveBeenCalledWith('sms.otp', { phone: '+84912345678', code: '123456' });
+      expect(ResponseUtils.success).toHaveBeenCalledWith(
+        { phone: '+84******678', expiresIn: OtpService.CODE_TTL_SECONDS },
+        'Mã xác thực đã được gửi đến số điện thoại của bạn'
+      );
+    });
+
+    it('should return 401 for an expired challenge', async () => {
+      (TwoFactorService.getChallenge as jest.Mock).mockResolvedValue(null);
+
+      await TwoFactorController.sendSmsCode(mockRequest as Request, mockResponse as Response);
+
+      expect(OtpService.issueCode).not.toHaveBeenCalled();
+      expect(mockStatus).toHaveBeenCalledWith(401);
+    });
+
+    it('should return 400 when SMS 2FA is not enabled', async () => {
+      (TwoFactorService.getChallenge as jest.Mock).mockResolvedValue({ accountId: 1 });
+      (AccountService.findById as jest.Mock).mockResolvedValue(mockAccount);
+
+      await TwoFactorController.sendSmsCode(mockRequest as Request, mockResponse as Response);
+
+      expect(OtpService.issueCode).not.toHaveBeenCalled();
+      expect(mockStatus).toHaveBeenCalledWith(400);
+    });
+
+    it('should return 429 inside the resend interval', async () => {
+      (TwoFactorService.getChallenge as jest.Mock).mockResolvedValue({ accountId: 1 });
+      (AccountService.findById as jest.Mock).mockResolvedValue(smsAccount);
+      (OtpService.issueCode as jest.Mock).mockResolvedValue(null);
+
+      await TwoFactorController.sendSmsCode(mockRequest as Request, mockResponse as Response);
+
+      expect(OutboxService.enqueue).not.toHaveBeenCalled();
+      expect(mockStatus).toHaveBeenCalledWith(429);
+    });
+  });
+
+  describe('verifySms', () => {
+    beforeEach(() => {
+      mockRequest = { body: { mfa_token: 'mfa-token', code: '123456' } };
+    });
+
+    it('should exchange a valid code for tokens', async () => {
+      const mockTokens = { accessToken: 'access-token', refreshToken: 'refresh-token', expiresIn: 900 };
+      (AuthService.verifyMfaSms as jest.Mock).mockResolvedValue(mockTokens);
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue({ accountId: 1, email: 'test@example.com' });
+
+      await TwoFactorController.verifySms(mockRequest as Request, mockResponse as Response);
+
+      expect(AuthService.verifyMfaSms).toHaveBeenCalledWith('mfa-token', '123456');
+      expect(AuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'login_succeeded', { actorAccountId: 1, targetAccountId: 1 });
+      expect(AccountService.getAccountWithPermissions).toHaveBeenCalledWith(1);
+      expect(mockStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid code or expired challenge', async () => {
+      (AuthService.verifyMfaSms as jest.Mock).mockResolvedValue(null);
+
+      await TwoFactorController.verifySms(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(401);
+    });
+  });
+});
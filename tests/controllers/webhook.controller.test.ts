@@ -0,0 +1,181 @@
+import { Request, Response } from 'express';
+import { WebhookController } from '../../src/controllers/webhookController';
+import { WebhookService } from '../../src/services/webhookService';
+import { AuditService } from '../../src/services/auditService';
+import { ResponseUtils } from '../../src/utils';
+
+// Mock the dependencies
+jest.mock('../../src/services/webhookService');
+jest.mock('../../src/services/auditService');
+jest.mock('../../src/utils');
+
+const mockWebhookService = WebhookService as jest.Mocked<typeof WebhookService>;
+const mockAuditService = AuditService as jest.Mocked<typeof AuditService>;
+const mockResponseUtils = ResponseUtils as jest.Mocked<typeof ResponseUtils>;
+
+describe('WebhookController', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockJson: jest.Mock;
+  let mockStatus: jest.Mock;
+
+  const subscription = {
+    id: 4,
+    url: 'https://hooks.example.com',
+    events: ['login.failed'],
+    description: null,
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date()
+  } as any;
+
+  beforeEach(() => {
+    mockJson = jest.fn();
+    mockStatus = jest.fn().mockReturnValue({ json: mockJson });
+
+    mockRequest = { params: {}, query: {}, body: {}, user: { accountId: 1, email: 'admin@example.com' } };
+    mockResponse = {
+      json: mockJson,
+      status: mockStatus
+    };
+
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockAuditService.diff.mockReturnValue({});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create the subscription and leave the secret out of the audit log', async () => {
+      mockRequest.body = { url: 'https://hooks.example.com', events: ['login.failed'] };
+      mockWebhookService.createSubscription.mockResolvedValue({ ...subscription, secret: 'generated-secret' });
+
+      await WebhookController.create(mockRequest as Request, mockResponse as Response);
+
+      expect(mockWebhookService.createSubscription).toHaveBeenCalledWith(mockRequest.body, 1);
+      expect(mockAuditService.diff).toHaveBeenCalledWith(null, {
+        id: 4,
+        url: 'https://hooks.example.com',
+        events: ['login.failed']
+      });
+      expect(mockAuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'webhook_created', { changes: {} });
+      expect(mockStatus).toHaveBeenCalledWith(201);
+      expect(mockResponseUtils.success).toHaveBeenCalledWith(
+        { ...subscription, secret: 'generated-secret' },
+        'Tạo webhook thành công'
+      );
+    });
+
+    it('should handle errors', async () => {
+      mockWebhookService.createSubscription.mockRejectedValue(new Error('Database error'));
+
+      await WebhookController.create(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(500);
+      expect(mockResponseUtils.error).toHaveBeenCalledWith('Lỗi tạo webhook');
+    });
+  });
+
+  describe('update', () => {
+    it('should return 404 for an unknown subscription', async () => {
+      mockRequest.params = { id: '99' };
+      mockWebhookService.findSubscriptionById.mockResolvedValue(null);
+
+      await WebhookController.update(mockRequest as Request, mockResponse as Response);
+
+      expect(mockWebhookService.updateSubscription).not.toHaveBeenCalled();
+      expect(mockStatus).toHaveBeenCalledWith(404);
+      expect(mockResponseUtils.error).toHaveBeenCalledWith('Không tìm thấy webhook');
+    });
+
+    it('should update the subscription and audit the changes', async () => {
+      mockRequest.params = { id: '4' };
+      mockRequest.body = { is_active: false };
+      mockWebhookService.findSubscriptionById.mockResolvedValue(subscription);
+      mockAuditService.diff.mockReturnValue({ is_active: { from: true, to: false } });
+
+      await WebhookController.update(mockRequest as Request, mockResponse as Response);
+
+      expect(mockWebhookService.updateSubscription).toHaveBeenCalledWith(4, { is_active: false });
+      expect(mockAuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'webhook_updated', {
+        changes: { id: { from: 4, to: 4 }, is_active: { from: true, to: false } }
+      });
+      expect(mockResponseUtils.success).toHaveBeenCalledWith(subscription, 'Cập nhật webhook thành công');
+    });
+  });
+
+  describe('remove', () => {
+    it('should return 404 for an unknown subscription', async () => {
+      mockRequest.params = { id: '99' };
+      mockWebhookService.findSubscriptionById.mockResolvedValue(null);
+      mockWebhookService.deleteSubscription.mockResolvedValue(false);
+
+      await WebhookController.remove(mockRequest as Request, mockResponse as Response);
+
+      expect(mockAuditService.recordRequest).not.toHaveBeenCalled();
+      expect(mockStatus).toHaveBeenCalledWith(404);
+    });
+
+    it('should delete the subscription', async () => {
+      mockRequest.params = { id: '4' };
+      mockWebhookService.findSubscriptionById.mockResolvedValue(subscription);
+      mockWebhookService.deleteSubscription.mockResolvedValue(true);
+
+      await WebhookController.remove(mockRequest as Request, mockResponse as Response);
+
+      expect(mockWebhookService.deleteSubscription).toHaveBeenCalledWith(4);
+      expect(mockAuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'webhook_deleted', { changes: {} });
+      expect(mockResponseUtils.success).toHaveBeenCalledWith(null, 'Xóa webhook thành công');
+    });
+  });
+
+  describe('listDeadDeliveries', () => {
+    it('should paginate the dead-letter list', async () => {
+      mockRequest.query = { page: '2', limit: '5' };
+      mockWebhookService.listDeadDeliveries.mockResolvedValue({
+        deliveries: [{ id: 11 }] as any,
+        total: 6,
+        page: 2,
+        limit: 5,
+        totalPages: 2
+      });
+
+      await WebhookController.listDeadDeliveries(mockRequest as Request, mockResponse as Response);
+
+      expect(mockWebhookService.listDeadDeliveries).toHaveBeenCalledWith(2, 5);
+      expect(mockResponseUtils.paginated).toHaveBeenCalledWith(
+        [{ id: 11 }],
+        6,
+        2,
+        5,
+        'Lấy danh sách webhook gửi thất bại thành công'
+      );
+    });
+  });
+
+  describe('retryDelivery', () => {
+    it('should queue the delivery again', async () => {
+      mockRequest.params = { id: '11' };
+      mockWebhookService.retryDelivery.mockResolvedValue(true);
+
+      await WebhookController.retryDelivery(mockRequest as Request, mockResponse as Response);
+
+      expect(mockWebhookService.retryDelivery).toHaveBeenCalledWith(11);
+      expect(mockAuditService.recordRequest).toHaveBeenCalledWith(mockRequest, 'webhook_delivery_retried', expect.any(Object));
+      expect(mockResponseUtils.success).toHaveBeenCalledWith(null, 'Đã đưa webhook vào hàng đợi gửi lại');
+    });
+
+    it('should return 404 when the delivery is not dead', async () => {
+      mockRequest.params = { id: '11' };
+      mockWebhookService.retryDelivery.mockResolvedValue(false);
+
+      await WebhookController.retryDelivery(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+      expect(mockResponseUtils.error).toHaveBeenCalledWith('Không tìm thấy webhook gửi thất bại');
+    });
+  });
+});
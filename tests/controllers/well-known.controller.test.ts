@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { WellKnownController } from '../../src/controllers/wellKnownController';
+import { JwtUtils, ResponseUtils } from '../../src/utils';
+import { OidcService } from '../../src/services/oidcService';
+
+// Mock the dependencies
+jest.mock('../../src/utils');
+jest.mock('../../src/services/oidcService');
+
+describe('WellKnownController', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockJson: jest.Mock;
+  let mockStatus: jest.Mock;
+  let mockSet: jest.Mock;
+
+  beforeEach(() => {
+    mockJson = jest.fn();
+    mockStatus = jest.fn().mockReturnValue({ json: mockJson });
+    mockSet = jest.fn();
+
+    mockRequest = {};
+    mockResponse = {
+      json: mockJson,
+      status: mockStatus,
+      set: mockSet
+    };
+
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('jwks', () => {
+    it('should return the key set as a bare JWK Set', async () => {
+      const jwks = { keys: [{ kty: 'EC', kid: 'key-1', alg: 'ES256', use: 'sig' as const, crv: 'P-256', x: 'x', y: 'y' }] };
+      (JwtUtils.getJwks as jest.Mock).mockReturnValue(jwks);
+
+      await WellKnownController.jwks(mockRequest as Request, mockResponse as Response);
+
+      expect(mockSet).toHaveBeenCalledWith('Cache-Control', 'public, max-age=300');
+      expect(mockJson).toHaveBeenCalledWith(jwks);
+      expect(ResponseUtils.success).not.toHaveBeenCalled();
+    });
+
+    it('should handle key loading errors', async () => {
+      (JwtUtils.getJwks as jest.Mock).mockImplementation(() => {
+        throw new Error('JWT_PRIVATE_KEY is required for asymmetric signing');
+      });
+
+      await WellKnownController.jwks(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('JWKS error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('openidConfiguration', () => {
+    beforeEach(() => {
+      (OidcService.isEnabled as jest.Mock).mockReturnValue(true);
+    });
+
+    it('should return the discovery document as is', async () => {
+      const configuration = { issuer: 'https://auth.example.com', jwks_uri: 'https://auth.example.com/.well-known/jwks.json' };
+      (OidcService.getDiscoveryDocument as jest.Mock).mockReturnValue(configuration);
+
+      await WellKnownController.openidConfiguration(mockRequest as Request, mockResponse as Response);
+
+      expect(mockSet).toHaveBeenCalledWith('Cache-Control', 'public, max-age=300');
+      expect(mockJson).toHaveBeenCalledWith(configuration);
+    });
+
+    it('should return 404 while ID tokens cannot be signed asymmetrically', async () => {
+      (OidcService.isEnabled as jest.Mock).mockReturnValue(false);
+
+      await WellKnownController.openidConfiguration(mockRequest as Request, mockResponse as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+      expect(ResponseUtils.error).toHaveBeenCalledWith('OpenID Connect cần khóa ký RS256 hoặc ES256');
+      expect(OidcService.getDiscoveryDocument).not.toHaveBeenCalled();
+    });
+
+    it('should handle errors', async () => {
+      (OidcService.getDiscoveryDocument as jest.Mock).mockImplementation(() => {
+        throw new Error('Unsupported JWT_ALGORITHM: HS512');
+      });
+
+      await WellKnownController.openidConfiguration(mockRequest as Request, mockResponse as Response);
+
+      expect(console.error).toHaveBeenCalledWith('OpenID configuration error:', expect.any(Error));
+      expect(mockStatus).toHaveBeenCalledWith(500);
+    });
+  });
+});
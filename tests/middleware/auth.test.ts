@@ -1,12 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthMiddleware } from '../../src/middleware/auth';
 import { JwtUtils, ResponseUtils } from '../../src/utils';
-import { TokenPayload } from '../../src/types';
+import { TokenPayload, ClientTokenPayload } from '../../src/types';
 
 // Mock dependencies
 jest.mock('../../src/utils', () => ({
   JwtUtils: {
-    verifyAccessToken: jest.fn()
+    verifyAccessToken: jest.fn(),
+    isClientToken: jest.fn()
   },
   ResponseUtils: {
     error: jest.fn((message: string) => ({
@@ -27,6 +28,14 @@ jest.mock('../../src/services/permissionService', () => ({
   PermissionService: mockPermissionService
 }));
 
+jest.mock('../../src/services/tokenRevocationService', () => ({
+  TokenRevocationService: {
+    isRevoked: jest.fn()
+  }
+}));
+
+import { TokenRevocationService } from '../../src/services/tokenRevocationService';
+
 describe('AuthMiddleware', () => {
   let req: Partial<Request>;
   let res: Partial<Response>;
@@ -37,6 +46,19 @@ describe('AuthMiddleware', () => {
     email: 'test@example.com'
   };
 
+  const mockDelegatedUser: TokenPayload = {
+    accountId: 1,
+    email: 'test@example.com',
+    clientId: 'client_1',
+    scope: 'openid profile'
+  };
+
+  const mockClient: ClientTokenPayload = {
+    clientId: 'client_1',
+    scope: 'accounts:read grant:read',
+    permissions: ['view_accounts', 'view_user_permissions']
+  };
+
   beforeEach(() => {
     req = {
       headers: {},
@@ -49,53 +71,80 @@ describe('AuthMiddleware', () => {
     };
     next = jest.fn();
     jest.clearAllMocks();
+    (JwtUtils.isClientToken as unknown as jest.Mock).mockImplementation(payload => payload.accountId === undefined);
   });
 
   describe('authenticate', () => {
-    it('should authenticate user with valid token', () => {
+    it('should authenticate user with valid token', async () => {
       req.headers!.authorization = 'Bearer valid-token';
       (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockUser);
+      (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(false);
 
-      AuthMiddleware.authenticate(req as Request, res as Response, next);
+      await AuthMiddleware.authenticate(req as Request, res as Response, next);
 
       expect(JwtUtils.verifyAccessToken).toHaveBeenCalledWith('valid-token');
+      expect(TokenRevocationService.isRevoked).toHaveBeenCalledWith(mockUser);
       expect(req.user).toBe(mockUser);
       expect(next).toHaveBeenCalled();
       expect(res.status).not.toHaveBeenCalled();
     });
 
-    it('should return 401 when authorization header is missing', () => {
-      AuthMiddleware.authenticate(req as Request, res as Response, next);
+    it('should return 401 when token has been revoked', async () => {
+      req.headers!.authorization = 'Bearer revoked-token';
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockUser);
+      (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(true);
+
+      await AuthMiddleware.authenticate(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Token đã bị thu hồi');
+      expect(req.user).toBeUndefined();
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when the revocation check fails', async () => {
+      req.headers!.authorization = 'Bearer valid-token';
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockUser);
+      (TokenRevocationService.isRevoked as jest.Mock).mockRejectedValue(new Error('Redis down'));
+
+      await AuthMiddleware.authenticate(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(500);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 when authorization header is missing', async () => {
+      await AuthMiddleware.authenticate(req as Request, res as Response, next);
 
       expect(res.status).toHaveBeenCalledWith(401);
       expect(ResponseUtils.error).toHaveBeenCalledWith('Token không được cung cấp');
       expect(next).not.toHaveBeenCalled();
     });
 
-    it('should return 401 when authorization header does not start with Bearer', () => {
+    it('should return 401 when authorization header does not start with Bearer', async () => {
       req.headers!.authorization = 'Invalid token';
 
-      AuthMiddleware.authenticate(req as Request, res as Response, next);
+      await AuthMiddleware.authenticate(req as Request, res as Response, next);
 
       expect(res.status).toHaveBeenCalledWith(401);
       expect(ResponseUtils.error).toHaveBeenCalledWith('Token không được cung cấp');
       expect(next).not.toHaveBeenCalled();
     });
 
-    it('should return 401 when token is invalid', () => {
+    it('should return 401 when token is invalid', async () => {
       req.headers!.authorization = 'Bearer invalid-token';
       (JwtUtils.verifyAccessToken as jest.Mock).mockImplementation(() => {
         throw new Error('Invalid token');
       });
 
-      AuthMiddleware.authenticate(req as Request, res as Response, next);
+      await AuthMiddleware.authenticate(req as Request, res as Response, next);
 
       expect(res.status).toHaveBeenCalledWith(401);
       expect(ResponseUtils.error).toHaveBeenCalledWith('Token không hợp lệ hoặc đã hết hạn');
       expect(next).not.toHaveBeenCalled();
     });
 
-    it('should return 500 when unexpected error occurs', () => {
+    it('should return 500 when unexpected error occurs', async () => {
       // Mock an unexpected error by making the headers getter throw
       Object.defineProperty(req, 'headers', {
         get: () => {
@@ -103,45 +152,234 @@ describe('AuthMiddleware', () => {
         }
       });
 
-      AuthMiddleware.authenticate(req as Request, res as Response, next);
+      await AuthMiddleware.authenticate(req as Request, res as Response, next);
 
       expect(res.status).toHaveBeenCalledWith(500);
       expect(ResponseUtils.error).toHaveBeenCalledWith('Lỗi xác thực');
       expect(next).not.toHaveBeenCalled();
     });
+
+    it('should return 403 for a client credentials token', async () => {
+      req.headers!.authorization = 'Bearer client-token';
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockClient);
+      (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(false);
+
+      await AuthMiddleware.authenticate(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(req.user).toBeUndefined();
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for a token issued to an OAuth client on behalf of a user', async () => {
+      req.headers!.authorization = 'Bearer delegated-token';
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockDelegatedUser);
+      (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(false);
+
+      await AuthMiddleware.authenticate(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(req.user).toBeUndefined();
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticateDelegated', () => {
+    it('should set user for a token issued to an OAuth client', async () => {
+      req.headers!.authorization = 'Bearer delegated-token';
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockDelegatedUser);
+      (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(false);
+
+      await AuthMiddleware.authenticateDelegated(req as Request, res as Response, next);
+
+      expect(req.user).toBe(mockDelegatedUser);
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should return 403 for a client credentials token', async () => {
+      req.headers!.authorization = 'Bearer client-token';
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockClient);
+      (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(false);
+
+      await AuthMiddleware.authenticateDelegated(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 when the token has been revoked', async () => {
+      req.headers!.authorization = 'Bearer delegated-token';
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockDelegatedUser);
+      (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(true);
+
+      await AuthMiddleware.authenticateDelegated(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticateUserOrClient', () => {
+    it('should set user for a token issued to an OAuth client on behalf of a user', async () => {
+      req.headers!.authorization = 'Bearer delegated-token';
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockDelegatedUser);
+      (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(false);
+
+      await AuthMiddleware.authenticateUserOrClient(req as Request, res as Response, next);
+
+      expect(req.user).toBe(mockDelegatedUser);
+      expect(req.client).toBeUndefined();
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should set client for a client credentials token', async () => {
+      req.headers!.authorization = 'Bearer client-token';
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockClient);
+      (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(false);
+
+      await AuthMiddleware.authenticateUserOrClient(req as Request, res as Response, next);
+
+      expect(TokenRevocationService.isRevoked).toHaveBeenCalledWith(mockClient);
+      expect(req.client).toBe(mockClient);
+      expect(req.user).toBeUndefined();
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should set user for a user token', async () => {
+      req.headers!.authorization = 'Bearer valid-token';
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockUser);
+      (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(false);
+
+      await AuthMiddleware.authenticateUserOrClient(req as Request, res as Response, next);
+
+      expect(req.user).toBe(mockUser);
+      expect(req.client).toBeUndefined();
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should return 401 when the client token has been revoked', async () => {
+      req.headers!.authorization = 'Bearer client-token';
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockClient);
+      (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(true);
+
+      await AuthMiddleware.authenticateUserOrClient(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Token đã bị thu hồi');
+      expect(req.client).toBeUndefined();
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 when authorization header is missing', async () => {
+      await AuthMiddleware.authenticateUserOrClient(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Token không được cung cấp');
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requireAccount', () => {
+    it('should continue when a user is authenticated', () => {
+      req.user = mockUser;
+
+      AuthMiddleware.requireAccount(req as Request, res as Response, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should return 403 for a client', () => {
+      req.client = mockClient;
+
+      AuthMiddleware.requireAccount(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for a token an OAuth client holds on behalf of the user', () => {
+      req.user = mockDelegatedUser;
+
+      AuthMiddleware.requireAccount(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 when nobody is authenticated', () => {
+      AuthMiddleware.requireAccount(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Yêu cầu đăng nhập');
+      expect(next).not.toHaveBeenCalled();
+    });
   });
 
   describe('optional', () => {
-    it('should set user when valid token is provided', () => {
+    it('should set user when valid token is provided', async () => {
       req.headers!.authorization = 'Bearer valid-token';
       (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockUser);
+      (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(false);
 
-      AuthMiddleware.optional(req as Request, res as Response, next);
+      await AuthMiddleware.optional(req as Request, res as Response, next);
 
       expect(req.user).toBe(mockUser);
       expect(next).toHaveBeenCalled();
     });
 
-    it('should continue without user when no token is provided', () => {
-      AuthMiddleware.optional(req as Request, res as Response, next);
+    it('should continue without user when token has been revoked', async () => {
+      req.headers!.authorization = 'Bearer revoked-token';
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockUser);
+      (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(true);
+
+      await AuthMiddleware.optional(req as Request, res as Response, next);
+
+      expect(req.user).toBeUndefined();
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should continue without user for a client credentials token', async () => {
+      req.headers!.authorization = 'Bearer client-token';
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockClient);
+      (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(false);
+
+      await AuthMiddleware.optional(req as Request, res as Response, next);
+
+      expect(req.user).toBeUndefined();
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should continue without user for a token issued to an OAuth client', async () => {
+      req.headers!.authorization = 'Bearer delegated-token';
+      (JwtUtils.verifyAccessToken as jest.Mock).mockReturnValue(mockDelegatedUser);
+      (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(false);
+
+      await AuthMiddleware.optional(req as Request, res as Response, next);
+
+      expect(req.user).toBeUndefined();
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should continue without user when no token is provided', async () => {
+      await AuthMiddleware.optional(req as Request, res as Response, next);
 
       expect(req.user).toBeUndefined();
       expect(next).toHaveBeenCalled();
     });
 
-    it('should continue with undefined user when invalid token is provided', () => {
+    it('should continue with undefined user when invalid token is provided', async () => {
       req.headers!.authorization = 'Bearer invalid-token';
       (JwtUtils.verifyAccessToken as jest.Mock).mockImplementation(() => {
         throw new Error('Invalid token');
       });
 
-      AuthMiddleware.optional(req as Request, res as Response, next);
+      await AuthMiddleware.optional(req as Request, res as Response, next);
 
       expect(req.user).toBeUndefined();
       expect(next).toHaveBeenCalled();
     });
 
-    it('should continue when unexpected error occurs', () => {
+    it('should continue when unexpected error occurs', async () => {
       // Mock an unexpected error
       Object.defineProperty(req, 'headers', {
         get: () => {
@@ -149,12 +387,60 @@ describe('AuthMiddleware', () => {
         }
       });
 
-      AuthMiddleware.optional(req as Request, res as Response, next);
+      await AuthMiddleware.optional(req as Request, res as Response, next);
 
       expect(next).toHaveBeenCalled();
     });
   });
 
+  describe('currentUser', () => {
+    it('should return the authenticated user', () => {
+      req.user = mockUser;
+
+      expect(AuthMiddleware.currentUser(req as Request)).toBe(mockUser);
+    });
+
+    it('should throw when the route is not behind authenticate', () => {
+      expect(() => AuthMiddleware.currentUser(req as Request)).toThrow('Route handler requires an authenticated user');
+    });
+  });
+
+  describe('requireFirstPartySession', () => {
+    it('should continue for a token from a first-party sign-in', () => {
+      req.user = { ...mockUser, sid: 'family-1' };
+
+      AuthMiddleware.requireFirstPartySession(req as Request, res as Response, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should return 403 for a token issued to an OAuth client', () => {
+      req.user = { ...mockDelegatedUser, sid: 'family-1' };
+
+      AuthMiddleware.requireFirstPartySession(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Yêu cầu phiên đăng nhập của người dùng');
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for a token without a session', () => {
+      req.user = mockUser;
+
+      AuthMiddleware.requireFirstPartySession(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 when nobody is authenticated', () => {
+      AuthMiddleware.requireFirstPartySession(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
   describe('requireVerification', () => {
     it('should continue when user is authenticated', () => {
       req.user = mockUser;
@@ -203,6 +489,28 @@ describe('AuthMiddleware', () => {
       expect(next).toHaveBeenCalled();
     });
 
+    it('should deny access to a client', async () => {
+      req.user = undefined;
+      req.client = mockClient;
+      const middleware = AuthMiddleware.requireRole('admin');
+
+      await middleware(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(mockPermissionService.hasRole).not.toHaveBeenCalled();
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should deny access to a client acting for the user', async () => {
+      req.user = mockDelegatedUser;
+      const middleware = AuthMiddleware.requireRole('admin');
+
+      await middleware(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(mockPermissionService.hasRole).not.toHaveBeenCalled();
+    });
+
     it('should deny access when user does not have required role', async () => {
       mockPermissionService.hasRole.mockResolvedValue(false);
       const middleware = AuthMiddleware.requireRole('admin');
@@ -285,6 +593,51 @@ describe('AuthMiddleware', () => {
       expect(ResponseUtils.error).toHaveBeenCalledWith('Lỗi kiểm tra quyền');
       expect(next).not.toHaveBeenCalled();
     });
+
+    it('should allow a client whose scope covers the permission', async () => {
+      req.user = undefined;
+      req.client = mockClient;
+      const middleware = AuthMiddleware.requirePermission('accounts', 'read');
+
+      await middleware(req as Request, res as Response, next);
+
+      expect(mockPermissionService.hasPermission).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalled();
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it('should deny a client whose scope does not cover the permission', async () => {
+      req.user = undefined;
+      req.client = mockClient;
+      const middleware = AuthMiddleware.requirePermission('accounts', 'update');
+
+      await middleware(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Không có quyền thực hiện hành động này');
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should check both the scope and the user permission for a client acting for the user', async () => {
+      req.user = { ...mockDelegatedUser, scope: 'openid accounts:read' };
+      mockPermissionService.hasPermission.mockResolvedValue(true);
+
+      await AuthMiddleware.requirePermission('accounts', 'read')(req as Request, res as Response, next);
+
+      expect(mockPermissionService.hasPermission).toHaveBeenCalledWith(1, 'accounts', 'read');
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should deny a client acting for the user outside its granted scopes', async () => {
+      req.user = { ...mockDelegatedUser, scope: 'openid accounts:read' };
+      mockPermissionService.hasPermission.mockResolvedValue(true);
+
+      await AuthMiddleware.requirePermission('accounts', 'update')(req as Request, res as Response, next);
+
+      expect(mockPermissionService.hasPermission).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
   });
 
   describe('requirePermissionByName', () => {
@@ -324,6 +677,30 @@ describe('AuthMiddleware', () => {
       expect(ResponseUtils.error).toHaveBeenCalledWith('Yêu cầu đăng nhập');
       expect(next).not.toHaveBeenCalled();
     });
+
+    it('should check a client against the permissions in its token', async () => {
+      req.user = undefined;
+      req.client = mockClient;
+
+      await AuthMiddleware.requirePermissionByName('view_accounts')(req as Request, res as Response, next);
+      await AuthMiddleware.requirePermissionByName('delete_account')(req as Request, res as Response, next);
+
+      expect(mockPermissionService.hasPermissionByName).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+
+    it('should deny a client acting for the user a permission its token does not carry', async () => {
+      req.user = { ...mockDelegatedUser, permissions: ['view_accounts'] };
+      mockPermissionService.hasPermissionByName.mockResolvedValue(true);
+
+      await AuthMiddleware.requirePermissionByName('view_accounts')(req as Request, res as Response, next);
+      await AuthMiddleware.requirePermissionByName('delete_account')(req as Request, res as Response, next);
+
+      expect(mockPermissionService.hasPermissionByName).toHaveBeenCalledTimes(1);
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
   });
 
   describe('requireOwnershipOrPermission', () => {
@@ -342,6 +719,21 @@ describe('AuthMiddleware', () => {
       expect(mockPermissionService.hasPermission).not.toHaveBeenCalled();
     });
 
+    it('should require the scope before a client acting for the user reaches the own account', async () => {
+      req.user = mockDelegatedUser;
+      req.params!.id = '1';
+
+      await AuthMiddleware.requireOwnershipOrPermission('accounts', 'read')(req as Request, res as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+
+      req.user = { ...mockDelegatedUser, scope: 'accounts:read' };
+      await AuthMiddleware.requireOwnershipOrPermission('accounts', 'read')(req as Request, res as Response, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
     it('should allow access when user is accessing their own resource by accountId', async () => {
       req.params!.accountId = '1';
       const middleware = AuthMiddleware.requireOwnershipOrPermission('accounts', 'read');
@@ -399,5 +791,19 @@ describe('AuthMiddleware', () => {
       expect(ResponseUtils.error).toHaveBeenCalledWith('Lỗi kiểm tra quyền');
       expect(next).not.toHaveBeenCalled();
     });
+
+    it('should only use the scope for a client', async () => {
+      req.user = undefined;
+      req.client = mockClient;
+      req.params!.accountId = '2';
+
+      await AuthMiddleware.requireOwnershipOrPermission('grant', 'read')(req as Request, res as Response, next);
+      await AuthMiddleware.requireOwnershipOrPermission('grant', 'delete')(req as Request, res as Response, next);
+
+      expect(mockPermissionService.hasPermission).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(ResponseUtils.error).toHaveBeenCalledWith('Không có quyền truy cập tài nguyên này');
+    });
   });
 });
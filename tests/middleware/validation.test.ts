@@ -19,7 +19,8 @@ jest.mock('../../src/utils', () => ({
     }))
   },
   ValidationUtils: {
-    sanitizeString: jest.fn((str: string) => str.trim())
+    sanitizeString: jest.fn((str: string) => str.trim()),
+    isValidRedirectUri: jest.fn()
   }
 }));
 
@@ -144,6 +145,17 @@ describe('Validation Middleware', () => {
         expect(error).toBeDefined();
         expect(error?.details[0].message).toBe('Giới tính phải là male, female hoặc other');
       });
+
+      it('should reject an unsupported email language', () => {
+        const invalidData = {
+          email: 'test@example.com',
+          password: 'Password123',
+          preferred_locale: 'fr'
+        };
+
+        const { error } = validationSchemas.register.validate(invalidData);
+        expect(error?.details[0].message).toBe('Ngôn ngữ phải là vi hoặc en');
+      });
     });
 
     describe('login schema', () => {
@@ -203,6 +215,196 @@ describe('Validation Middleware', () => {
         expect(error).toBeDefined();
         expect(error?.details.length).toBeGreaterThan(0);
       });
+
+      it('should accept a step-up code instead of the current password', () => {
+        const { error } = validationSchemas.changePassword.validate({ otp_code: '123456', new_password: 'NewPassword123' });
+        expect(error).toBeUndefined();
+      });
+
+      it('should not accept both the current password and a step-up code', () => {
+        const { error } = validationSchemas.changePassword.validate({
+          current_password: 'oldpassword',
+          otp_code: '123456',
+          new_password: 'NewPassword123'
+        });
+        expect(error?.details[0].message).toBe('Chỉ nhập mật khẩu hiện tại hoặc mã xác thực email');
+      });
+    });
+
+    describe('createOAuthClient schema', () => {
+      beforeEach(() => {
+        (ValidationUtils.isValidRedirectUri as jest.Mock).mockImplementation((uri: string) => uri.startsWith('https://'));
+      });
+
+      it('should validate a client with redirect URIs and scopes', () => {
+        const validData = {
+          name: 'Mobile App',
+          redirect_uris: ['https://app.example.com/callback'],
+          scopes: ['profile', 'email']
+        };
+
+        const { error } = validationSchemas.createOAuthClient.validate(validData);
+        expect(error).toBeUndefined();
+      });
+
+      it('should reject an invalid redirect URI', () => {
+        const invalidData = {
+          name: 'Mobile App',
+          redirect_uris: ['http://app.example.com/callback']
+        };
+
+        const { error } = validationSchemas.createOAuthClient.validate(invalidData);
+        expect(error).toBeDefined();
+        expect(error?.details[0].message).toBe(
+          'redirect_uri phải dùng https, http loopback hoặc scheme riêng của ứng dụng và không chứa fragment'
+        );
+      });
+
+      it('should require at least one redirect URI', () => {
+        const invalidData = { name: 'Mobile App', redirect_uris: [] };
+
+        const { error } = validationSchemas.createOAuthClient.validate(invalidData);
+        expect(error).toBeDefined();
+        expect(error?.details[0].message).toBe('Cần ít nhất một redirect_uri');
+      });
+
+      it('should reject scopes with spaces', () => {
+        const invalidData = {
+          name: 'Mobile App',
+          redirect_uris: ['https://app.example.com/callback'],
+          scopes: ['profile email']
+        };
+
+        const { error } = validationSchemas.createOAuthClient.validate(invalidData);
+        expect(error).toBeDefined();
+        expect(error?.details[0].message).toBe('Phạm vi không hợp lệ');
+      });
+
+      it('should let confidential clients skip redirect URIs', () => {
+        const validData = { name: 'Billing Service', client_type: 'confidential', scopes: ['account:read'] };
+
+        const { error, value } = validationSchemas.createOAuthClient.validate(validData);
+        expect(error).toBeUndefined();
+        expect(value.redirect_uris).toEqual([]);
+      });
+
+      it('should reject an unknown client type', () => {
+        const invalidData = {
+          name: 'Mobile App',
+          client_type: 'trusted',
+          redirect_uris: ['https://app.example.com/callback']
+        };
+
+        const { error } = validationSchemas.createOAuthClient.validate(invalidData);
+        expect(error).toBeDefined();
+        expect(error?.details[0].message).toBe('Loại ứng dụng phải là public hoặc confidential');
+      });
+    });
+
+    describe('oauthAuthorizeDecision schema', () => {
+      it('should require the decision', () => {
+        const invalidData = {
+          response_type: 'code',
+          client_id: 'client_1',
+          redirect_uri: 'https://app.example.com/callback'
+        };
+
+        const { error } = validationSchemas.oauthAuthorizeDecision.validate(invalidData);
+        expect(error).toBeDefined();
+        expect(error?.details[0].message).toBe('Vui lòng chọn đồng ý hoặc từ chối');
+      });
+    });
+
+    describe('magicLinkVerify schema', () => {
+      it('should accept a token', () => {
+        const { error } = validationSchemas.magicLinkVerify.validate({ token: 'magic-token' });
+        expect(error).toBeUndefined();
+      });
+
+      it('should require the token', () => {
+        const { error } = validationSchemas.magicLinkVerify.validate({});
+        expect(error?.details[0].message).toBe('Token đăng nhập là bắt buộc');
+      });
+    });
+
+    describe('secureAccount schema', () => {
+      it('should accept a token', () => {
+        const { error } = validationSchemas.secureAccount.validate({ token: 'alert-token' });
+        expect(error).toBeUndefined();
+      });
+
+      it('should require the token', () => {
+        const { error } = validationSchemas.secureAccount.validate({});
+        expect(error?.details[0].message).toBe('Token là bắt buộc');
+      });
+    });
+
+    describe('emailOtpVerify schema', () => {
+      it('should accept an email and a 6-digit code', () => {
+        const { error } = validationSchemas.emailOtpVerify.validate({ email: 'test@example.com', code: '123456' });
+        expect(error).toBeUndefined();
+      });
+
+      it('should reject a malformed code', () => {
+        const { error } = validationSchemas.emailOtpVerify.validate({ email: 'test@example.com', code: '12ab' });
+        expect(error?.details[0].message).toBe('Mã xác thực phải gồm 6 chữ số');
+      });
+    });
+
+    describe('smsOtpVerify schema', () => {
+      it('should accept a Vietnamese phone number and a 6-digit code', () => {
+        const { error } = validationSchemas.smsOtpVerify.validate({ phone: '0912345678', code: '123456' });
+        expect(error).toBeUndefined();
+      });
+
+      it('should require the phone number', () => {
+        const { error } = validationSchemas.smsOtpVerify.validate({ phone: '', code: '123456' });
+        expect(error?.details[0].message).toBe('Số điện thoại là bắt buộc');
+      });
+
+      it('should reject an invalid phone number', () => {
+        const { error } = validationSchemas.smsOtpVerify.validate({ phone: '12345', code: '123456' });
+        expect(error?.details[0].message).toBe('Số điện thoại không hợp lệ (định dạng Việt Nam)');
+      });
+    });
+
+    describe('passkeyMfa schema', () => {
+      const credential = {
+        id: 'Y3JlZA',
+        rawId: 'Y3JlZA',
+        type: 'public-key',
+        response: { clientDataJSON: 'e30', authenticatorData: 'YXV0aA', signature: 'c2ln', userHandle: null }
+      };
+
+      it('should accept a base64url encoded assertion', () => {
+        const { error } = validationSchemas.passkeyMfa.validate({ mfa_token: 'mfa_token', credential });
+        expect(error).toBeUndefined();
+      });
+
+      it('should reject fields that are not base64url', () => {
+        const { error } = validationSchemas.passkeyMfa.validate({
+          mfa_token: 'mfa_token',
+          credential: { ...credential, response: { ...credential.response, signature: 'c2ln+/==' } }
+        });
+        expect(error?.details[0].message).toBe('Dữ liệu passkey không hợp lệ');
+      });
+
+      it('should require the credential', () => {
+        const { error } = validationSchemas.passkeyMfa.validate({ mfa_token: 'mfa_token' });
+        expect(error?.details[0].message).toBe('Thông tin passkey là bắt buộc');
+      });
+    });
+
+    describe('socialCallback schema', () => {
+      it('should accept the code and state', () => {
+        const { error } = validationSchemas.socialCallback.validate({ code: 'code', state: 'state' });
+        expect(error).toBeUndefined();
+      });
+
+      it('should require the state', () => {
+        const { error } = validationSchemas.socialCallback.validate({ code: 'code' });
+        expect(error?.details[0].message).toBe('State là bắt buộc');
+      });
     });
 
     describe('pagination schema', () => {
@@ -245,6 +447,99 @@ describe('Validation Middleware', () => {
         expect(error?.details[0].message).toBe('Giới hạn không được vượt quá 100');
       });
     });
+
+    describe('auditQuery schema', () => {
+      it('should accept the filters and apply defaults', () => {
+        const { error, value } = validationSchemas.auditQuery.validate({
+          action: 'account_role_granted',
+          target_account_id: '2',
+          from: '2024-01-01T00:00:00Z'
+        });
+
+        expect(error).toBeUndefined();
+        expect(value).toEqual(expect.objectContaining({ page: 1, limit: 20, target_account_id: 2 }));
+        expect(value.from).toBeInstanceOf(Date);
+      });
+
+      it('should reject an unknown action', () => {
+        const { error } = validationSchemas.auditQuery.validate({ action: 'drop_tables' });
+        expect(error?.details[0].message).toBe('Hành động không hợp lệ');
+      });
+
+      it('should reject an end before the start', () => {
+        const { error } = validationSchemas.auditQuery.validate({ from: '2024-02-01', to: '2024-01-01' });
+        expect(error?.details[0].message).toBe('Thời điểm kết thúc phải sau thời điểm bắt đầu');
+      });
+
+      it('should accept an end without a start', () => {
+        const { error } = validationSchemas.auditQuery.validate({ to: '2024-01-01' });
+        expect(error).toBeUndefined();
+      });
+    });
+
+    describe('createWebhook schema', () => {
+      it('should accept a subscription', () => {
+        const { error } = validationSchemas.createWebhook.validate({
+          url: 'https://hooks.example.com/auth',
+          events: ['login.failed', 'role.granted']
+        });
+        expect(error).toBeUndefined();
+      });
+
+      it('should reject an unknown event type', () => {
+        const { error } = validationSchemas.createWebhook.validate({
+          url: 'https://hooks.example.com/auth',
+          events: ['account.hacked']
+        });
+        expect(error?.details[0].message).toBe('Loại sự kiện không hợp lệ');
+      });
+
+      it('should reject a URL that is not http(s)', () => {
+        const { error } = validationSchemas.createWebhook.validate({ url: 'ftp://hooks.example.com', events: ['*'] });
+        expect(error?.details[0].message).toBe('URL webhook phải là địa chỉ http hoặc https hợp lệ');
+      });
+
+      it('should reject a short secret', () => {
+        const { error } = validationSchemas.createWebhook.validate({
+          url: 'https://hooks.example.com/auth',
+          events: ['*'],
+          secret: 'short'
+        });
+        expect(error?.details[0].message).toBe('Secret phải có ít nhất 16 ký tự');
+      });
+    });
+
+    describe('updateWebhook schema', () => {
+      it('should require at least one field', () => {
+        const { error } = validationSchemas.updateWebhook.validate({});
+        expect(error?.details[0].message).toBe('Cần ít nhất một trường để cập nhật');
+      });
+    });
+
+    describe('auditExportQuery schema', () => {
+      it('should accept a range', () => {
+        const { error } = validationSchemas.auditExportQuery.validate({ from: '2024-01-01', to: '2024-02-01' });
+        expect(error).toBeUndefined();
+      });
+
+      it('should require both ends of the range', () => {
+        const { error } = validationSchemas.auditExportQuery.validate({ from: '2024-01-01' });
+        expect(error?.details[0].message).toBe('Thời điểm kết thúc là bắt buộc');
+      });
+    });
+
+    describe('emailTemplatePreviewQuery schema', () => {
+      it('should default the format to json', () => {
+        const { error, value } = validationSchemas.emailTemplatePreviewQuery.validate({ locale: 'en' });
+        expect(error).toBeUndefined();
+        expect(value).toEqual({ locale: 'en', format: 'json' });
+      });
+
+      it('should reject an unknown format', () => {
+        const { error } = validationSchemas.emailTemplatePreviewQuery.validate({ format: 'pdf' });
+        expect(error?.details[0].message).toBe('Định dạng phải là json, html hoặc text');
+      });
+    });
   });
 
   describe('validate middleware', () => {
@@ -327,6 +622,16 @@ describe('Validation Middleware', () => {
       expect(mockRes.status).not.toHaveBeenCalled();
     });
 
+    it('should replace a getter-only query with the validated values', () => {
+      const middleware = validateQuery(validationSchemas.pagination);
+      Object.defineProperty(mockReq, 'query', { get: () => ({ page: '2' }), configurable: true });
+
+      middleware(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+      expect(mockReq.query).toEqual(expect.objectContaining({ page: 2, limit: 10 }));
+    });
+
     it('should return 400 for invalid query parameters', () => {
       const middleware = validateQuery(validationSchemas.pagination);
       mockReq.query = {
@@ -416,6 +721,26 @@ describe('Validation Middleware', () => {
       });
     });
 
+    describe('isValidSessionId', () => {
+      it('should pass for a valid session ID', () => {
+        mockReq.params = { id: '1', sessionId: '7' };
+
+        customValidation.isValidSessionId(mockReq as Request, mockRes as Response, mockNext);
+
+        expect(mockNext).toHaveBeenCalled();
+      });
+
+      it('should return 400 for an invalid session ID', () => {
+        mockReq.params = { id: '1', sessionId: 'abc' };
+
+        customValidation.isValidSessionId(mockReq as Request, mockRes as Response, mockNext);
+
+        expect(mockRes.status).toHaveBeenCalledWith(400);
+        expect(ResponseUtils.error).toHaveBeenCalledWith('ID phiên đăng nhập không hợp lệ');
+        expect(mockNext).not.toHaveBeenCalled();
+      });
+    });
+
     describe('sanitizeInput', () => {
       it('should sanitize string inputs', () => {
         mockReq.body = {
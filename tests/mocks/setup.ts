@@ -11,9 +11,11 @@ jest.mock('../../src/config/database', () => ({
     get: jest.fn(),
     set: jest.fn(),
     del: jest.fn(),
+    incr: jest.fn(),
     exists: jest.fn(),
     keys: jest.fn(),
     expire: jest.fn(),
+    ttl: jest.fn(),
     setEx: jest.fn(),
     hGet: jest.fn(),
     hSet: jest.fn(),
@@ -10,7 +10,9 @@ jest.mock('../../src/middleware/validation', () => ({
 }));
 jest.mock('../../src/middleware/auth', () => ({
   AuthMiddleware: {
-    authenticate: jest.fn((req: any, res: any, next: any) => next())
+    authenticate: jest.fn((req: any, res: any, next: any) => next()),
+    authenticateUserOrClient: jest.fn((req: any, res: any, next: any) => next()),
+    requireAccount: jest.fn((req: any, res: any, next: any) => next())
   }
 }));
 jest.mock('../../src/middleware/rateLimiter', () => ({
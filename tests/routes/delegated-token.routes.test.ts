@@ -0,0 +1,69 @@
+jest.mock('../../src/controllers');
+jest.mock('../../src/middleware/rateLimiter', () => ({
+  apiLimiter: jest.fn(),
+  smsOtpLimiter: jest.fn()
+}));
+jest.mock('../../src/services/tokenRevocationService', () => ({
+  TokenRevocationService: {
+    isRevoked: jest.fn()
+  }
+}));
+
+import request from 'supertest';
+import express from 'express';
+import accountRoutes from '../../src/routes/accountRoutes';
+import { AccountController } from '../../src/controllers';
+import { JwtUtils } from '../../src/utils';
+import { TokenRevocationService } from '../../src/services/tokenRevocationService';
+import { apiLimiter } from '../../src/middleware/rateLimiter';
+import { TokenPayload } from '../../src/types';
+
+// A user token from the authorization_code grant must only serve the client it was issued to
+describe('Delegated tokens on account routes', () => {
+  let app: express.Application;
+
+  const openIdToken: TokenPayload = {
+    accountId: 1,
+    email: 'test@example.com',
+    permissions: ['view_accounts', 'manage_accounts'],
+    clientId: 'client_1',
+    scope: 'openid',
+    sid: 'family-1'
+  };
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/v1/accounts', accountRoutes);
+  });
+
+  beforeEach(() => {
+    (apiLimiter as unknown as jest.Mock).mockImplementation((req: any, res: any, next: any) => next());
+    jest.spyOn(JwtUtils, 'verifyAccessToken').mockReturnValue(openIdToken);
+    (TokenRevocationService.isRevoked as jest.Mock).mockResolvedValue(false);
+    (AccountController.getProfile as jest.Mock).mockImplementation((req: any, res: any) => {
+      res.status(200).json({ success: true });
+    });
+  });
+
+  it('should refuse an openid-only token', async () => {
+    const response = await request(app)
+      .get('/api/v1/accounts/profile')
+      .set('Authorization', 'Bearer openid-token')
+      .expect(403);
+
+    expect(response.body.success).toBe(false);
+    expect(AccountController.getProfile).not.toHaveBeenCalled();
+  });
+
+  it('should accept a first-party token', async () => {
+    jest.spyOn(JwtUtils, 'verifyAccessToken').mockReturnValue({ accountId: 1, email: 'test@example.com', sid: 'family-1' });
+
+    await request(app)
+      .get('/api/v1/accounts/profile')
+      .set('Authorization', 'Bearer first-party-token')
+      .expect(200);
+
+    expect(AccountController.getProfile).toHaveBeenCalled();
+  });
+});
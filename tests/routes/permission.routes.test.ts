@@ -14,6 +14,7 @@ jest.mock('../../src/middleware/validation', () => ({
 jest.mock('../../src/middleware/auth', () => ({
   AuthMiddleware: {
     authenticate: jest.fn((req: any, res: any, next: any) => next()),
+    authenticateUserOrClient: jest.fn((req: any, res: any, next: any) => next()),
     requirePermissions: jest.fn(() => (req: any, res: any, next: any) => next())
   }
 }));
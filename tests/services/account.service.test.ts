@@ -1,13 +1,16 @@
 // Mock all dependencies first
 jest.mock('../../src/utils');
+jest.mock('../../src/services/outboxService');
 
 import { AccountService } from '../../src/services/accountService';
+import { OutboxService } from '../../src/services/outboxService';
 import { PasswordUtils } from '../../src/utils';
 import { pool } from '../../src/config/database';
 
 // Type the mocks
 const mockPool = pool as jest.Mocked<typeof pool>;
 const mockPasswordUtils = PasswordUtils as jest.Mocked<typeof PasswordUtils>;
+const mockOutboxService = OutboxService as jest.Mocked<typeof OutboxService>;
 
 describe('AccountService', () => {
   beforeEach(() => {
@@ -34,7 +37,12 @@ describe('AccountService', () => {
       expect(mockPasswordUtils.hash).toHaveBeenCalledWith('password123');
       expect(mockPool.execute).toHaveBeenCalledWith(
         expect.stringContaining('INSERT INTO accounts'),
-        ['test@example.com', 'hashedPassword', 'John', 'Doe', '123456789', '1990-01-01', 'male']
+        ['test@example.com', 'hashedPassword', 'John', 'Doe', '123456789', '1990-01-01', 'male', 'vi']
+      );
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith(
+        'webhook.event',
+        { type: 'account.registered', data: { account_id: 1, email: 'test@example.com' } },
+        mockPool
       );
       expect(accountId).toBe(1);
     });
@@ -53,11 +61,35 @@ describe('AccountService', () => {
       expect(mockPasswordUtils.hash).toHaveBeenCalledWith('password123');
       expect(mockPool.execute).toHaveBeenCalledWith(
         expect.stringContaining('INSERT INTO accounts'),
-        ['minimal@example.com', 'hashedPassword', null, null, null, null, null]
+        ['minimal@example.com', 'hashedPassword', null, null, null, null, null, 'vi']
       );
       expect(accountId).toBe(2);
     });
 
+    it('should create an account without a password for social sign-up', async () => {
+      mockPool.execute.mockResolvedValue([{ insertId: 3 }] as any);
+
+      const accountId = await AccountService.createAccount({ email: 'social@example.com', first_name: 'Jane' });
+
+      expect(mockPasswordUtils.hash).not.toHaveBeenCalled();
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO accounts'),
+        ['social@example.com', null, 'Jane', null, null, null, null, 'vi']
+      );
+      expect(accountId).toBe(3);
+    });
+
+    it('should store the chosen email language', async () => {
+      mockPool.execute.mockResolvedValue([{ insertId: 4 }] as any);
+
+      await AccountService.createAccount({ email: 'en@example.com', preferred_locale: 'en' });
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('preferred_locale'),
+        ['en@example.com', null, null, null, null, null, null, 'en']
+      );
+    });
+
     it('should handle database error during creation', async () => {
       const accountData = {
         email: 'error@example.com',
@@ -154,8 +186,8 @@ describe('AccountService', () => {
       const result = await AccountService.updateAccount(1, updateData);
 
       expect(mockPool.execute).toHaveBeenCalledWith(
-        expect.stringContaining('UPDATE accounts SET first_name = ?, last_name = ?, phone = ?, date_of_birth = ?, gender = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'),
-        ['Jane', 'Smith', '987654321', '1995-05-15', 'female', 1]
+        expect.stringContaining('UPDATE accounts SET first_name = ?, last_name = ?, phone_verified_at = IF(phone <=> ?, phone_verified_at, NULL), sms_two_factor_enabled = IF(phone <=> ?, sms_two_factor_enabled, 0), phone = ?, date_of_birth = ?, gender = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'),
+        ['Jane', 'Smith', '987654321', '987654321', '987654321', '1995-05-15', 'female', 1]
       );
       expect(result).toBe(true);
     });
@@ -185,6 +217,17 @@ describe('AccountService', () => {
       expect(result).toBe(true);
     });
 
+    it('should update the email language', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      await AccountService.updateAccount(1, { preferred_locale: 'en' });
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE accounts SET preferred_locale = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'),
+        ['en', 1]
+      );
+    });
+
     it('should return false when account not found during update', async () => {
       const updateData = {
         first_name: 'Jane',
@@ -0,0 +1,462 @@
+import { AuditService } from '../../src/services/auditService';
+import { JwtUtils } from '../../src/utils';
+import { AuditChanges } from '../../src/types';
+import { pool } from '../../src/config/database';
+
+const mockPool = pool as jest.Mocked<typeof pool>;
+
+describe('AuditService', () => {
+  let mockConnection: { [method: string]: jest.Mock };
+
+  const createdAt = new Date('2024-01-01T08:00:00.000Z');
+
+  // Events as MySQL returns them, chained with the real hash function
+  const buildChain = (count: number) => {
+    const events: any[] = [];
+    let prevHash = AuditService.GENESIS_HASH;
+
+    for (let id = 1; id <= count; id++) {
+      const fields = {
+        actor_account_id: 1,
+        actor_client_id: null,
+        target_account_id: id,
+        action: 'account_unlocked' as const,
+        ip_address: '127.0.0.1',
+        user_agent: null,
+        changes: { is_active: { to: true, from: false } },
+        created_at: createdAt
+      };
+      const hash = AuditService.computeHash(prevHash, fields);
+      events.push({ id, ...fields, prev_hash: prevHash, hash });
+      prevHash = hash;
+    }
+
+    return events;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockConnection = {
+      beginTransaction: jest.fn(),
+      execute: jest.fn(),
+      commit: jest.fn(),
+      rollback: jest.fn(),
+      release: jest.fn()
+    };
+    mockPool.getConnection.mockResolvedValue(mockConnection as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('record', () => {
+    it('should store the event before returning', async () => {
+      mockPool.execute.mockResolvedValue([{ insertId: 1 }] as any);
+      mockConnection.execute.mockResolvedValueOnce([[{ last_hash: 'a'.repeat(64) }]]).mockResolvedValueOnce([[]]);
+
+      await AuditService.record({
+        action: 'account_role_granted',
+        actorAccountId: 1,
+        targetAccountId: 2,
+        ipAddress: '127.0.0.1',
+        changes: { role_id: { from: null, to: 3 } }
+      });
+      await AuditService.flush();
+
+      const [query, params] = mockPool.execute.mock.calls[0] as unknown as [string, any[]];
+      expect(query).toContain('INSERT INTO audit_pending_events');
+      expect(params).toEqual([
+        1, null, 2, 'account_role_granted', '127.0.0.1', null,
+        JSON.stringify({ role_id: { from: null, to: 3 } }),
+        expect.any(Date)
+      ]);
+      expect(params[7].getMilliseconds()).toBe(0);
+    });
+
+    it('should not fail the request when the event cannot be stored', async () => {
+      mockPool.execute.mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(AuditService.record({ action: 'logout', actorAccountId: 1 })).resolves.toBeUndefined();
+
+      expect(mockPool.getConnection).not.toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith('Error staging audit event, dropping it:', 'logout', expect.any(Error));
+
+      mockPool.execute.mockResolvedValueOnce([[{ total: 0 }]] as any);
+      expect((await AuditService.getWriterStatus()).dropped_events).toBeGreaterThanOrEqual(1);
+    });
+  });
+
+  describe('flush', () => {
+    const previousHash = 'a'.repeat(64);
+
+    // Staged events as MySQL returns them
+    const staged = (id: number, actorAccountId: number) => ({
+      id,
+      actor_account_id: actorAccountId,
+      actor_client_id: null,
+      target_account_id: null,
+      action: 'login_succeeded' as const,
+      ip_address: '127.0.0.1',
+      user_agent: null,
+      changes: null as AuditChanges | null,
+      created_at: createdAt
+    });
+
+    it('should append the staged events to the chain under the head lock and remove them', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[{ last_hash: previousHash }]])
+        .mockResolvedValueOnce([[staged(4, 1), staged(5, 2)]])
+        .mockResolvedValueOnce([{ insertId: 7 }])
+        .mockResolvedValueOnce([{ insertId: 8 }])
+        .mockResolvedValueOnce([{ affectedRows: 2 }])
+        .mockResolvedValueOnce([{ affectedRows: 1 }]);
+
+      await AuditService.flush();
+
+      expect(mockConnection.execute).toHaveBeenNthCalledWith(1, expect.stringContaining('FOR UPDATE'));
+      expect(mockConnection.execute).toHaveBeenNthCalledWith(2, expect.stringContaining('FROM audit_pending_events'), [AuditService.WRITE_BATCH_SIZE]);
+
+      const { id: _id, ...fields } = staged(4, 1);
+      const firstHash = AuditService.computeHash(previousHash, fields);
+      const [query, params] = mockConnection.execute.mock.calls[2];
+      expect(query).toContain('INSERT INTO audit_events');
+      expect(params).toEqual([1, null, null, 'login_succeeded', '127.0.0.1', null, null, previousHash, firstHash, createdAt]);
+
+      // The second event links to the first
+      const secondParams = mockConnection.execute.mock.calls[3][1];
+      expect(secondParams[7]).toBe(firstHash);
+
+      expect(mockConnection.execute).toHaveBeenNthCalledWith(5, expect.stringContaining('DELETE FROM audit_pending_events WHERE id IN (?, ?)'), [4, 5]);
+      expect(mockConnection.execute).toHaveBeenNthCalledWith(6, expect.stringContaining('UPDATE audit_chain'), [8, secondParams[8]]);
+      expect(mockConnection.commit).toHaveBeenCalledTimes(1);
+      expect(mockConnection.release).toHaveBeenCalled();
+    });
+
+    it('should hash the changes as MySQL returns them', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[{ last_hash: previousHash }]])
+        .mockResolvedValueOnce([[{ ...staged(4, 1), changes: { role_id: { to: 3, from: null } } }]])
+        .mockResolvedValue([{ insertId: 7, affectedRows: 1 }]);
+
+      await AuditService.flush();
+
+      const params = mockConnection.execute.mock.calls[2][1];
+      const { id: _id, ...fields } = staged(4, 1);
+      expect(params[6]).toBe(JSON.stringify({ role_id: { to: 3, from: null } }));
+      expect(params[8]).toBe(AuditService.computeHash(previousHash, { ...fields, changes: { role_id: { from: null, to: 3 } } }));
+    });
+
+    it('should keep appending while full batches are staged', async () => {
+      const full = Array.from({ length: AuditService.WRITE_BATCH_SIZE }, (_, index) => staged(index + 1, 1));
+      mockConnection.execute.mockImplementation(async (query: string) => {
+        if (query.includes('FOR UPDATE')) return [[{ last_hash: previousHash }]];
+        if (query.includes('FROM audit_pending_events')) {
+          return [mockConnection.commit.mock.calls.length === 0 ? full : [staged(101, 1)]];
+        }
+        return [{ insertId: 1, affectedRows: 1 }];
+      });
+
+      await AuditService.flush();
+
+      const queries = mockConnection.execute.mock.calls.map(([query]) => query as string);
+      expect(queries.filter(query => query.includes('FOR UPDATE'))).toHaveLength(2);
+      expect(queries.filter(query => query.includes('INSERT INTO audit_events'))).toHaveLength(AuditService.WRITE_BATCH_SIZE + 1);
+      expect(mockConnection.commit).toHaveBeenCalledTimes(2);
+    });
+
+    it('should commit without writing when nothing is staged', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[{ last_hash: previousHash }]])
+        .mockResolvedValueOnce([[]]);
+
+      await AuditService.flush();
+
+      expect(mockConnection.execute).toHaveBeenCalledTimes(2);
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+
+    it('should leave the events staged and report the error when the chain cannot be written', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[{ last_hash: previousHash }]])
+        .mockResolvedValueOnce([[staged(4, 1)]])
+        .mockRejectedValueOnce(new Error('Database error'));
+
+      await AuditService.flush();
+
+      expect(mockConnection.rollback).toHaveBeenCalled();
+      expect(mockConnection.commit).not.toHaveBeenCalled();
+      expect(mockConnection.release).toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith('Error appending staged audit events to the chain:', expect.any(Error));
+
+      mockPool.execute.mockResolvedValueOnce([[{ total: 1 }]] as any);
+      expect(await AuditService.getWriterStatus()).toEqual(expect.objectContaining({
+        pending_events: 1,
+        last_error: 'Database error',
+        last_error_at: expect.any(String)
+      }));
+
+      // The next flush retries the batch
+      mockConnection.execute
+        .mockResolvedValueOnce([[{ last_hash: previousHash }]])
+        .mockResolvedValueOnce([[staged(4, 1)]])
+        .mockResolvedValue([{ insertId: 9, affectedRows: 1 }]);
+
+      await AuditService.flush();
+
+      expect(mockConnection.commit).toHaveBeenCalled();
+      mockPool.execute.mockResolvedValueOnce([[{ total: 0 }]] as any);
+      expect(await AuditService.getWriterStatus()).toEqual(expect.objectContaining({ pending_events: 0, last_error: null }));
+    });
+
+    it('should refuse to start a new chain without the head row', async () => {
+      mockConnection.execute.mockResolvedValueOnce([[]]);
+
+      await AuditService.flush();
+
+      expect(mockConnection.execute).toHaveBeenCalledTimes(1);
+      expect(mockConnection.rollback).toHaveBeenCalled();
+
+      mockPool.execute.mockResolvedValueOnce([[{ total: 1 }]] as any);
+      expect((await AuditService.getWriterStatus()).last_error).toBe('Audit chain head is missing');
+    });
+  });
+
+  describe('computeHash', () => {
+    const fields = {
+      actor_account_id: 1,
+      actor_client_id: null,
+      target_account_id: 2,
+      action: 'account_updated' as const,
+      ip_address: '127.0.0.1',
+      user_agent: 'Mozilla/5.0',
+      changes: { first_name: { from: 'John', to: 'Jane' } },
+      created_at: createdAt
+    };
+
+    it('should not depend on the key order MySQL returns JSON in', () => {
+      const reordered = { ...fields, changes: { first_name: { to: 'Jane', from: 'John' } } };
+
+      expect(AuditService.computeHash(AuditService.GENESIS_HASH, reordered))
+        .toBe(AuditService.computeHash(AuditService.GENESIS_HASH, fields));
+    });
+
+    it('should hash dates in the changes as they are stored', () => {
+      const withDate = { ...fields, changes: { expires_at: { from: null, to: new Date('2024-12-31T23:59:59Z') } } };
+      const readBack = { ...fields, changes: { expires_at: { from: null, to: '2024-12-31T23:59:59.000Z' } } };
+
+      expect(AuditService.computeHash(AuditService.GENESIS_HASH, withDate))
+        .toBe(AuditService.computeHash(AuditService.GENESIS_HASH, readBack));
+    });
+
+    it('should change with any field or the previous hash', () => {
+      const hash = AuditService.computeHash(AuditService.GENESIS_HASH, fields);
+
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(AuditService.computeHash(AuditService.GENESIS_HASH, { ...fields, target_account_id: 3 })).not.toBe(hash);
+      expect(AuditService.computeHash('a'.repeat(64), fields)).not.toBe(hash);
+    });
+  });
+
+  describe('verifyChain', () => {
+    it('should accept an intact chain that ends at the head', async () => {
+      const events = buildChain(3);
+      mockPool.execute
+        .mockResolvedValueOnce([events] as any)
+        .mockResolvedValueOnce([[{ last_event_id: 3, last_hash: events[2].hash }]] as any);
+
+      const result = await AuditService.verifyChain();
+
+      expect(mockPool.execute).toHaveBeenNthCalledWith(1, expect.stringContaining('ORDER BY id ASC'), [0, AuditService.VERIFY_BATCH_SIZE]);
+      expect(result).toEqual({ valid: true, checked: 3, last_event_id: 3 });
+    });
+
+    it('should report an edited event', async () => {
+      const events = buildChain(3);
+      events[1].target_account_id = 99;
+      mockPool.execute.mockResolvedValueOnce([events] as any);
+
+      const result = await AuditService.verifyChain();
+
+      expect(result).toEqual({ valid: false, checked: 1, last_event_id: 1, broken_at: { id: 2, reason: 'hash_mismatch' } });
+    });
+
+    it('should report a deleted event', async () => {
+      const events = buildChain(3);
+      mockPool.execute.mockResolvedValueOnce([[events[0], events[2]]] as any);
+
+      const result = await AuditService.verifyChain();
+
+      expect(result).toEqual({ valid: false, checked: 1, last_event_id: 1, broken_at: { id: 3, reason: 'prev_hash_mismatch' } });
+    });
+
+    it('should report events deleted from the end', async () => {
+      const events = buildChain(3);
+      mockPool.execute
+        .mockResolvedValueOnce([events.slice(0, 2)] as any)
+        .mockResolvedValueOnce([[{ last_event_id: 3, last_hash: events[2].hash }]] as any);
+
+      const result = await AuditService.verifyChain();
+
+      expect(result).toEqual({ valid: false, checked: 2, last_event_id: 2, broken_at: { id: 3, reason: 'head_mismatch' } });
+    });
+  });
+
+  describe('exportRange', () => {
+    const from = new Date('2024-01-01T00:00:00Z');
+    const to = new Date('2024-02-01T00:00:00Z');
+
+    it('should sign the range and the hashes at both ends', async () => {
+      const events = buildChain(3).slice(1);
+      mockPool.execute
+        .mockResolvedValueOnce([[{ first_id: 2, last_id: 3 }]] as any)
+        .mockResolvedValueOnce([[{ total: 2 }]] as any)
+        .mockResolvedValueOnce([events] as any)
+        .mockResolvedValueOnce([[{ hash: events[0].prev_hash }]] as any);
+      const signSpy = jest.spyOn(JwtUtils, 'signAuditExport').mockReturnValue('signature');
+
+      const result = await AuditService.exportRange(from, to);
+
+      expect(mockPool.execute).toHaveBeenNthCalledWith(1, expect.stringContaining('MIN(id)'), [from, to]);
+      expect(mockPool.execute).toHaveBeenNthCalledWith(3, expect.stringContaining('WHERE id BETWEEN ? AND ?'), [2, 3]);
+      expect(mockPool.execute).toHaveBeenNthCalledWith(4, expect.stringContaining('WHERE id < ?'), [2]);
+
+      const claims = {
+        from: '2024-01-01T00:00:00.000Z',
+        to: '2024-02-01T00:00:00.000Z',
+        count: 2,
+        first_id: 2,
+        last_id: 3,
+        start_hash: events[0].prev_hash,
+        end_hash: events[1].hash
+      };
+      expect(signSpy).toHaveBeenCalledWith(claims);
+      expect(result).toEqual({ ...claims, events, signature: 'signature' });
+    });
+
+    it('should start from the genesis hash when the range begins the chain', async () => {
+      const events = buildChain(1);
+      mockPool.execute
+        .mockResolvedValueOnce([[{ first_id: 1, last_id: 1 }]] as any)
+        .mockResolvedValueOnce([[{ total: 1 }]] as any)
+        .mockResolvedValueOnce([events] as any)
+        .mockResolvedValueOnce([[]] as any);
+      jest.spyOn(JwtUtils, 'signAuditExport').mockReturnValue('signature');
+
+      const result = await AuditService.exportRange(from, to);
+
+      expect(result).toEqual(expect.objectContaining({ first_id: 1, start_hash: AuditService.GENESIS_HASH }));
+    });
+
+    it('should sign an empty range', async () => {
+      mockPool.execute.mockResolvedValueOnce([[{ first_id: null, last_id: 4 }]] as any);
+      jest.spyOn(JwtUtils, 'signAuditExport').mockReturnValue('signature');
+
+      const result = await AuditService.exportRange(from, to);
+
+      expect(result).toEqual(expect.objectContaining({ count: 0, first_id: null, start_hash: null, end_hash: null }));
+      expect(mockPool.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse a range with too many events', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[{ first_id: 1, last_id: AuditService.MAX_EXPORT_EVENTS + 1 }]] as any)
+        .mockResolvedValueOnce([[{ total: AuditService.MAX_EXPORT_EVENTS + 1 }]] as any);
+
+      const result = await AuditService.exportRange(from, to);
+
+      expect(result).toBeNull();
+      expect(mockPool.execute).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('recordRequest', () => {
+    it('should take the actor, IP and user agent from the request', async () => {
+      const recordSpy = jest.spyOn(AuditService, 'record').mockResolvedValue();
+      const req = {
+        ip: '127.0.0.1',
+        headers: { 'user-agent': 'Mozilla/5.0' },
+        user: { accountId: 1, email: 'admin@example.com' }
+      } as any;
+
+      await AuditService.recordRequest(req, 'account_unlocked', { targetAccountId: 2 });
+
+      expect(recordSpy).toHaveBeenCalledWith({
+        action: 'account_unlocked',
+        actorAccountId: 1,
+        actorClientId: undefined,
+        targetAccountId: 2,
+        ipAddress: '127.0.0.1',
+        userAgent: 'Mozilla/5.0'
+      });
+    });
+
+    it('should record a machine client as the actor', async () => {
+      const recordSpy = jest.spyOn(AuditService, 'record').mockResolvedValue();
+      const req = { ip: '127.0.0.1', headers: {}, client: { clientId: 'client_1' } } as any;
+
+      await AuditService.recordRequest(req, 'role_created');
+
+      expect(recordSpy).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'role_created',
+        actorAccountId: undefined,
+        actorClientId: 'client_1'
+      }));
+    });
+  });
+
+  describe('diff', () => {
+    it('should list only the fields that changed', () => {
+      const before = { id: 1, first_name: 'John', last_name: 'Doe', phone: null };
+      const after = { first_name: 'Jane', last_name: 'Doe', phone: undefined };
+
+      expect(AuditService.diff(before, after)).toEqual({ first_name: { from: 'John', to: 'Jane' } });
+    });
+
+    it('should describe a created and a deleted entity', () => {
+      expect(AuditService.diff(null, { name: 'editor' })).toEqual({ name: { from: null, to: 'editor' } });
+      expect(AuditService.diff({ name: 'editor' }, null)).toEqual({ name: { from: 'editor', to: null } });
+    });
+  });
+
+  describe('listEvents', () => {
+    it('should filter and paginate the events', async () => {
+      const from = new Date('2024-01-01T00:00:00Z');
+      mockPool.execute
+        .mockResolvedValueOnce([[{ total: 45 }]] as any)
+        .mockResolvedValueOnce([[{ id: 3, action: 'login_failed' }]] as any);
+
+      const result = await AuditService.listEvents({
+        action: 'login_failed',
+        target_account_id: 2,
+        from,
+        page: 2,
+        limit: 20
+      });
+
+      expect(mockPool.execute).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('WHERE action = ? AND target_account_id = ? AND created_at >= ?'),
+        ['login_failed', 2, from]
+      );
+      expect(mockPool.execute).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining('ORDER BY id DESC'),
+        ['login_failed', 2, from, 20, 20]
+      );
+      expect(result).toEqual({ events: [{ id: 3, action: 'login_failed' }], total: 45, page: 2, limit: 20, totalPages: 3 });
+    });
+
+    it('should list every event without filters', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[{ total: 0 }]] as any)
+        .mockResolvedValueOnce([[]] as any);
+
+      await AuditService.listEvents({ page: 1, limit: 20 });
+
+      expect(mockPool.execute).toHaveBeenNthCalledWith(1, expect.not.stringContaining('WHERE'), []);
+    });
+  });
+});
@@ -1,19 +1,44 @@
 // Mock all dependencies first
 jest.mock('../../src/services/accountService');
+jest.mock('../../src/services/twoFactorService');
+jest.mock('../../src/services/tokenRevocationService');
+jest.mock('../../src/services/otpService');
+jest.mock('../../src/services/outboxService');
+jest.mock('../../src/services/lockoutService');
+jest.mock('../../src/services/knownDeviceService');
+jest.mock('../../src/services/webAuthnService', () => ({
+  ...jest.requireActual('../../src/services/webAuthnService'),
+  WebAuthnService: { verifyAuthentication: jest.fn(), verifyRegistration: jest.fn(), findCredential: jest.fn() }
+}));
 jest.mock('../../src/utils');
 
 import { AuthService } from '../../src/services/authService';
 import { AccountService } from '../../src/services/accountService';
-import { PasswordUtils, JwtUtils, DateUtils } from '../../src/utils';
+import { TwoFactorService } from '../../src/services/twoFactorService';
+import { TokenRevocationService } from '../../src/services/tokenRevocationService';
+import { OtpService } from '../../src/services/otpService';
+import { OutboxService } from '../../src/services/outboxService';
+import { LockoutService } from '../../src/services/lockoutService';
+import { KnownDeviceService } from '../../src/services/knownDeviceService';
+import { WebAuthnService, WebAuthnError } from '../../src/services/webAuthnService';
+import { PasswordUtils, JwtUtils, DateUtils, ValidationUtils, UserAgentUtils } from '../../src/utils';
 import { pool, redisClient } from '../../src/config/database';
 
 // Type the mocks
 const mockPool = pool as jest.Mocked<typeof pool>;
 const mockRedis = redisClient as jest.Mocked<typeof redisClient>;
 const mockAccountService = AccountService as jest.Mocked<typeof AccountService>;
+const mockTwoFactorService = TwoFactorService as jest.Mocked<typeof TwoFactorService>;
+const mockOtpService = OtpService as jest.Mocked<typeof OtpService>;
+const mockOutboxService = OutboxService as jest.Mocked<typeof OutboxService>;
+const mockLockoutService = LockoutService as jest.Mocked<typeof LockoutService>;
+const mockKnownDeviceService = KnownDeviceService as jest.Mocked<typeof KnownDeviceService>;
+const mockWebAuthnService = WebAuthnService as jest.Mocked<typeof WebAuthnService>;
 const mockPasswordUtils = PasswordUtils as jest.Mocked<typeof PasswordUtils>;
 const mockJwtUtils = JwtUtils as jest.Mocked<typeof JwtUtils>;
 const mockDateUtils = DateUtils as jest.Mocked<typeof DateUtils>;
+const mockValidationUtils = ValidationUtils as jest.Mocked<typeof ValidationUtils>;
+const mockUserAgentUtils = UserAgentUtils as jest.Mocked<typeof UserAgentUtils>;
 
 describe('AuthService', () => {
   beforeEach(() => {
@@ -37,6 +62,56 @@ describe('AuthService', () => {
         expect.any(Array)
       );
     });
+
+    it('should start a new family when none is given', async () => {
+      const mockExpiresAt = new Date('2024-12-31');
+
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_token');
+      mockPasswordUtils.generateSecureToken.mockReturnValue('new_family');
+      mockDateUtils.addDays.mockReturnValue(mockExpiresAt);
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      await AuthService.saveRefreshToken(1, 'refresh_token', 'device_info', '192.168.1.1');
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('family_id'),
+        [1, 'new_family', 'hashed_token', mockExpiresAt, 'device_info', '192.168.1.1', null, null]
+      );
+    });
+
+    it('should keep the family of a rotated token', async () => {
+      const mockExpiresAt = new Date('2024-12-31');
+
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_token');
+      mockDateUtils.addDays.mockReturnValue(mockExpiresAt);
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      await AuthService.saveRefreshToken(1, 'refresh_token', 'device_info', '192.168.1.1', 'family_1');
+
+      expect(mockPasswordUtils.generateSecureToken).not.toHaveBeenCalled();
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.any(String),
+        [1, 'family_1', 'hashed_token', mockExpiresAt, 'device_info', '192.168.1.1', null, null]
+      );
+    });
+
+    it('should bind the token to the OAuth client it was issued to', async () => {
+      const mockExpiresAt = new Date('2024-12-31');
+
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_token');
+      mockDateUtils.addDays.mockReturnValue(mockExpiresAt);
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      await AuthService.saveRefreshToken(1, 'refresh_token', 'device_info', '192.168.1.1', 'family_1', {
+        clientId: 'client_1',
+        scope: 'profile email'
+      });
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('client_id, scope'),
+        [1, 'family_1', 'hashed_token', mockExpiresAt, 'device_info', '192.168.1.1', 'client_1', 'profile email']
+      );
+    });
   });
 
   describe('findRefreshToken', () => {
@@ -75,6 +150,191 @@ describe('AuthService', () => {
 
       const result = await AuthService.revokeRefreshToken('refresh_token');
 
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE token_hash = ? AND is_revoked = 0'),
+        ['hashed_token']
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should report a token that was already revoked', async () => {
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_token');
+      mockPool.execute.mockResolvedValue([{ affectedRows: 0 }] as any);
+
+      const result = await AuthService.revokeRefreshToken('refresh_token');
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('register', () => {
+    let mockConnection: { [method: string]: jest.Mock };
+
+    beforeEach(() => {
+      mockConnection = {
+        beginTransaction: jest.fn(),
+        execute: jest.fn().mockResolvedValue([{ affectedRows: 1 }]),
+        commit: jest.fn(),
+        rollback: jest.fn(),
+        release: jest.fn()
+      };
+      mockPool.getConnection.mockResolvedValue(mockConnection as any);
+      mockPasswordUtils.generateSecureToken.mockReturnValue('verify_token');
+    });
+
+    it('should commit the account, its token and the outbox messages together', async () => {
+      mockAccountService.createAccount.mockResolvedValue(5);
+      const data = { email: 'test@example.com', password: 'password123', first_name: 'John', preferred_locale: 'en' as const };
+
+      const result = await AuthService.register(data);
+
+      expect(mockAccountService.createAccount).toHaveBeenCalledWith(data, mockConnection);
+      expect(mockConnection.execute).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO email_verifications'),
+        expect.any(Array)
+      );
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith(
+        'email.verification',
+        { email: 'test@example.com', token: 'verify_token', first_name: 'John', locale: 'en' },
+        mockConnection
+      );
+      expect(mockConnection.commit).toHaveBeenCalled();
+      expect(mockConnection.release).toHaveBeenCalled();
+      expect(mockPool.execute).not.toHaveBeenCalled();
+      expect(result).toBe(5);
+    });
+
+    it('should roll back the account when the outbox write fails', async () => {
+      mockAccountService.createAccount.mockResolvedValue(5);
+      mockOutboxService.enqueue.mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(AuthService.register({ email: 'test@example.com', password: 'password123' }))
+        .rejects.toThrow('Database error');
+      expect(mockConnection.commit).not.toHaveBeenCalled();
+      expect(mockConnection.rollback).toHaveBeenCalled();
+      expect(mockConnection.release).toHaveBeenCalled();
+    });
+
+    it('should queue the reset email with the reset token', async () => {
+      mockPasswordUtils.generateSecureToken.mockReturnValue('reset_token');
+
+      await AuthService.sendPasswordReset({ id: 5, email: 'test@example.com', first_name: 'John' } as any);
+
+      expect(mockConnection.execute).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO password_resets'),
+        expect.any(Array)
+      );
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith(
+        'email.password_reset',
+        { email: 'test@example.com', token: 'reset_token', first_name: 'John' },
+        mockConnection
+      );
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+  });
+
+  describe('changePassword, resetPassword and verifyEmail', () => {
+    const account = { id: 5, email: 'test@example.com', first_name: 'John', preferred_locale: 'en' } as any;
+    let mockConnection: { [method: string]: jest.Mock };
+
+    beforeEach(() => {
+      mockConnection = {
+        beginTransaction: jest.fn(),
+        execute: jest.fn().mockResolvedValue([{ affectedRows: 1 }]),
+        commit: jest.fn(),
+        rollback: jest.fn(),
+        release: jest.fn()
+      };
+      mockPool.getConnection.mockResolvedValue(mockConnection as any);
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_token');
+    });
+
+    it('should commit the new password with its event and notification email', async () => {
+      mockAccountService.updatePassword.mockResolvedValue(true);
+
+      const result = await AuthService.changePassword(account, 'newpassword123', '127.0.0.1');
+
+      expect(mockAccountService.updatePassword).toHaveBeenCalledWith(5, 'newpassword123', mockConnection);
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith(
+        'webhook.event',
+        { type: 'password.changed', data: { account_id: 5 } },
+        mockConnection
+      );
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith(
+        'email.password_changed',
+        { email: 'test@example.com', first_name: 'John', ip_address: '127.0.0.1', locale: 'en' },
+        mockConnection
+      );
+      expect(mockConnection.commit).toHaveBeenCalled();
+      expect(result).toBe(true);
+    });
+
+    it('should queue nothing when the password was not updated', async () => {
+      mockAccountService.updatePassword.mockResolvedValue(false);
+
+      const result = await AuthService.changePassword(account, 'newpassword123');
+
+      expect(mockOutboxService.enqueue).not.toHaveBeenCalled();
+      expect(result).toBe(false);
+    });
+
+    it('should roll back the password change when the outbox write fails', async () => {
+      mockAccountService.updatePassword.mockResolvedValue(true);
+      mockOutboxService.enqueue.mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(AuthService.changePassword(account, 'newpassword123')).rejects.toThrow('Database error');
+      expect(mockConnection.commit).not.toHaveBeenCalled();
+      expect(mockConnection.rollback).toHaveBeenCalled();
+      expect(mockConnection.release).toHaveBeenCalled();
+    });
+
+    it('should spend the reset token in the same transaction as the new password', async () => {
+      mockAccountService.updatePassword.mockResolvedValue(true);
+
+      const result = await AuthService.resetPassword('reset_token', account, 'newpassword123', '127.0.0.1');
+
+      expect(mockAccountService.updatePassword).toHaveBeenCalledWith(5, 'newpassword123', mockConnection);
+      expect(mockConnection.execute).toHaveBeenCalledWith(
+        'UPDATE password_resets SET is_used = 1 WHERE token_hash = ?',
+        ['hashed_token']
+      );
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith(
+        'webhook.event',
+        { type: 'password.reset', data: { account_id: 5 } },
+        mockConnection
+      );
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith(
+        'email.password_changed',
+        expect.objectContaining({ email: 'test@example.com' }),
+        mockConnection
+      );
+      expect(mockConnection.commit).toHaveBeenCalled();
+      expect(mockPool.execute).not.toHaveBeenCalled();
+      expect(result).toBe(true);
+    });
+
+    it('should verify the account and queue the welcome email together', async () => {
+      mockAccountService.verifyAccount.mockResolvedValue(true);
+
+      const result = await AuthService.verifyEmail('verify_token', account);
+
+      expect(mockAccountService.verifyAccount).toHaveBeenCalledWith(5, mockConnection);
+      expect(mockConnection.execute).toHaveBeenCalledWith(
+        'UPDATE email_verifications SET is_used = 1 WHERE token_hash = ?',
+        ['hashed_token']
+      );
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith(
+        'webhook.event',
+        { type: 'account.verified', data: { account_id: 5 } },
+        mockConnection
+      );
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith(
+        'email.welcome',
+        { email: 'test@example.com', first_name: 'John', locale: 'en' },
+        mockConnection
+      );
+      expect(mockConnection.commit).toHaveBeenCalled();
+      expect(mockPool.execute).not.toHaveBeenCalled();
       expect(result).toBe(true);
     });
   });
@@ -156,6 +416,389 @@ describe('AuthService', () => {
 
       expect(result).toBeNull();
     });
+
+    it('should return an MFA challenge instead of tokens when 2FA is enabled', async () => {
+      const mockAccount = {
+        id: 1,
+        email: 'test@example.com',
+        password: 'hashed_password',
+        is_verified: true,
+        is_active: true,
+        two_factor_enabled: true,
+        two_factor_secret: 'encrypted_secret',
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+      const mockChallenge = { mfaRequired: true as const, mfaToken: 'mfa_token', expiresIn: 300 };
+
+      mockAccountService.findByEmail.mockResolvedValue(mockAccount);
+      mockPasswordUtils.compare.mockResolvedValue(true);
+      mockTwoFactorService.isRequired.mockResolvedValue(true);
+      mockTwoFactorService.createChallenge.mockResolvedValue(mockChallenge);
+
+      const result = await AuthService.login('test@example.com', 'password', 'device', '192.168.1.1');
+
+      expect(mockTwoFactorService.isRequired).toHaveBeenCalledWith(mockAccount);
+      expect(mockTwoFactorService.createChallenge).toHaveBeenCalledWith(1, 'device', '192.168.1.1', true);
+      expect(mockJwtUtils.generateTokens).not.toHaveBeenCalled();
+      expect(result).toEqual(mockChallenge);
+    });
+
+    it('should keep the lockout counter and skip the device alert while the second factor is due', async () => {
+      const mockAccount = { id: 1, email: 'test@example.com', password: 'hashed_password', two_factor_enabled: true } as any;
+
+      mockAccountService.findByEmail.mockResolvedValue(mockAccount);
+      mockPasswordUtils.compare.mockResolvedValue(true);
+      mockTwoFactorService.isRequired.mockResolvedValue(true);
+      mockTwoFactorService.createChallenge.mockResolvedValue({ mfaRequired: true, mfaToken: 'mfa_token', expiresIn: 300 });
+
+      await AuthService.login('test@example.com', 'password', 'device', '192.168.1.1');
+
+      expect(mockLockoutService.reset).not.toHaveBeenCalled();
+      expect(mockKnownDeviceService.recordLogin).not.toHaveBeenCalled();
+    });
+
+    it('should reset the lockout and email an alert for a new device once tokens are issued', async () => {
+      const mockAccount = { id: 1, email: 'test@example.com', password: 'hashed_password', first_name: 'John', preferred_locale: 'en' } as any;
+      const mockTokens = { accessToken: 'access_token', refreshToken: 'refresh_token', expiresIn: 900 };
+      const device = { browser: 'Chrome', os: 'Windows', device: 'desktop' };
+
+      mockAccountService.findByEmail.mockResolvedValue(mockAccount);
+      mockPasswordUtils.compare.mockResolvedValue(true);
+      mockTwoFactorService.isRequired.mockResolvedValue(false);
+      jest.spyOn(AuthService, 'issueTokens').mockResolvedValue(mockTokens);
+      mockKnownDeviceService.recordLogin.mockResolvedValue(5);
+      mockKnownDeviceService.createAlertToken.mockResolvedValue('alert_token');
+      mockUserAgentUtils.parse.mockReturnValue(device as any);
+      mockPool.execute.mockResolvedValue([{ insertId: 1 }] as any);
+
+      const result = await AuthService.login('test@example.com', 'password', 'device', '192.168.1.1');
+
+      expect(result).toEqual(mockTokens);
+      expect(mockLockoutService.reset).toHaveBeenCalledWith(mockAccount);
+      expect(mockKnownDeviceService.recordLogin).toHaveBeenCalledWith(1, 'device', '192.168.1.1');
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO security_events'),
+        expect.arrayContaining([1, 'new_device_login', '192.168.1.1'])
+      );
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith('email.new_device_login', {
+        email: 'test@example.com',
+        first_name: 'John',
+        token: 'alert_token',
+        device,
+        ip_address: '192.168.1.1',
+        locale: 'en'
+      });
+    });
+
+    it('should not alert for a known device', async () => {
+      const mockAccount = { id: 1, email: 'test@example.com', password: 'hashed_password' } as any;
+
+      mockAccountService.findByEmail.mockResolvedValue(mockAccount);
+      mockPasswordUtils.compare.mockResolvedValue(true);
+      mockTwoFactorService.isRequired.mockResolvedValue(false);
+      jest.spyOn(AuthService, 'issueTokens').mockResolvedValue({ accessToken: 'a', refreshToken: 'r', expiresIn: 900 });
+      mockKnownDeviceService.recordLogin.mockResolvedValue(null);
+
+      await AuthService.login('test@example.com', 'password', 'device', '192.168.1.1');
+
+      expect(mockKnownDeviceService.createAlertToken).not.toHaveBeenCalled();
+      expect(mockOutboxService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should not create an MFA challenge when the password is wrong', async () => {
+      mockAccountService.findByEmail.mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        password: 'hashed_password',
+        is_verified: true,
+        is_active: true,
+        two_factor_enabled: true,
+        created_at: new Date(),
+        updated_at: new Date()
+      });
+      mockPasswordUtils.compare.mockResolvedValue(false);
+
+      const result = await AuthService.login('test@example.com', 'wrong_password');
+
+      expect(mockTwoFactorService.createChallenge).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('verifyMfaChallenge', () => {
+    beforeEach(() => {
+      mockTwoFactorService.countChallengeAttempt.mockResolvedValue(true);
+    });
+
+    const mockAccount = {
+      id: 1,
+      email: 'test@example.com',
+      password: 'hashed_password',
+      is_verified: true,
+      is_active: true,
+      two_factor_enabled: true,
+      two_factor_secret: 'encrypted_secret',
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    const mockChallenge = { accountId: 1, deviceInfo: 'device', ipAddress: '192.168.1.1' };
+    const mockTokens = {
+      accessToken: 'access_token',
+      refreshToken: 'refresh_token',
+      expiresIn: 900
+    };
+
+    it('should issue tokens for a valid code', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue(mockChallenge);
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      mockTwoFactorService.verifySecondFactor.mockResolvedValue(true);
+      jest.spyOn(AuthService, 'issueTokens').mockResolvedValue(mockTokens);
+
+      const result = await AuthService.verifyMfaChallenge('mfa_token', '123456');
+
+      expect(mockTwoFactorService.verifySecondFactor).toHaveBeenCalledWith(mockAccount, '123456', undefined);
+      expect(mockTwoFactorService.deleteChallenge).toHaveBeenCalledWith('mfa_token');
+      expect(AuthService.issueTokens).toHaveBeenCalledWith(1, 'test@example.com', 'two_factor', 'device', '192.168.1.1');
+      expect(result).toEqual(mockTokens);
+    });
+
+    it('should reset the lockout and check the device only after the second factor of a password login', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue({ ...mockChallenge, passwordLogin: true });
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      mockTwoFactorService.verifySecondFactor.mockResolvedValue(true);
+      jest.spyOn(AuthService, 'issueTokens').mockResolvedValue(mockTokens);
+      mockKnownDeviceService.recordLogin.mockResolvedValue(null);
+
+      await AuthService.verifyMfaChallenge('mfa_token', '123456');
+
+      expect(mockLockoutService.reset).toHaveBeenCalledWith(mockAccount);
+      expect(mockKnownDeviceService.recordLogin).toHaveBeenCalledWith(1, 'device', '192.168.1.1');
+    });
+
+    it('should leave the lockout alone after a code login passes its second factor', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue(mockChallenge);
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      mockTwoFactorService.verifySecondFactor.mockResolvedValue(true);
+      jest.spyOn(AuthService, 'issueTokens').mockResolvedValue(mockTokens);
+
+      await AuthService.verifyMfaChallenge('mfa_token', '123456');
+
+      expect(mockLockoutService.reset).not.toHaveBeenCalled();
+      expect(mockKnownDeviceService.recordLogin).not.toHaveBeenCalled();
+    });
+
+    it('should record a failure for an invalid code', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue(mockChallenge);
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      mockTwoFactorService.verifySecondFactor.mockResolvedValue(false);
+      jest.spyOn(AuthService, 'issueTokens');
+
+      const result = await AuthService.verifyMfaChallenge('mfa_token', '000000');
+
+      expect(mockTwoFactorService.recordChallengeFailure).toHaveBeenCalledWith('mfa_token');
+      expect(mockLockoutService.recordFailure).toHaveBeenCalledWith(mockAccount);
+      expect(mockTwoFactorService.deleteChallenge).not.toHaveBeenCalled();
+      expect(AuthService.issueTokens).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should not check the code once the challenge has no attempts left', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue(mockChallenge);
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      mockTwoFactorService.countChallengeAttempt.mockResolvedValue(false);
+
+      const result = await AuthService.verifyMfaChallenge('mfa_token', '123456');
+
+      expect(mockTwoFactorService.countChallengeAttempt).toHaveBeenCalledWith('mfa_token');
+      expect(mockTwoFactorService.verifySecondFactor).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should accept a recovery code in place of a TOTP code', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue(mockChallenge);
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      mockTwoFactorService.verifySecondFactor.mockResolvedValue(true);
+      jest.spyOn(AuthService, 'issueTokens').mockResolvedValue(mockTokens);
+
+      const result = await AuthService.verifyMfaChallenge('mfa_token', undefined, 'a1b2c-3d4e5');
+
+      expect(mockTwoFactorService.verifySecondFactor).toHaveBeenCalledWith(mockAccount, undefined, 'a1b2c-3d4e5');
+      expect(result).toEqual(mockTokens);
+    });
+
+    it('should return null for an unknown or expired challenge', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue(null);
+
+      const result = await AuthService.verifyMfaChallenge('expired_token', '123456');
+
+      expect(mockAccountService.findById).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('verifyMfaPasskey', () => {
+    beforeEach(() => {
+      mockTwoFactorService.countChallengeAttempt.mockResolvedValue(true);
+    });
+
+    const mockAccount = {
+      id: 1,
+      email: 'test@example.com',
+      password: 'hashed_password',
+      is_verified: true,
+      is_active: true,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    const mockChallenge = { accountId: 1, deviceInfo: 'device', ipAddress: '192.168.1.1' };
+    const mockTokens = {
+      accessToken: 'access_token',
+      refreshToken: 'refresh_token',
+      expiresIn: 900
+    };
+    const credential = {
+      id: 'cred',
+      rawId: 'cred',
+      type: 'public-key' as const,
+      response: { clientDataJSON: 'client', authenticatorData: 'auth', signature: 'sig' }
+    };
+
+    it('should issue tokens for a passkey of the challenged account', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue(mockChallenge);
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      mockWebAuthnService.verifyAuthentication.mockResolvedValue({} as any);
+      jest.spyOn(AuthService, 'issueTokens').mockResolvedValue(mockTokens);
+
+      const result = await AuthService.verifyMfaPasskey('mfa_token', credential);
+
+      expect(mockWebAuthnService.verifyAuthentication).toHaveBeenCalledWith(credential, 1);
+      expect(mockTwoFactorService.deleteChallenge).toHaveBeenCalledWith('mfa_token');
+      expect(AuthService.issueTokens).toHaveBeenCalledWith(1, 'test@example.com', 'two_factor', 'device', '192.168.1.1');
+      expect(result).toEqual(mockTokens);
+    });
+
+    it('should count a rejected passkey as a failed attempt', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue(mockChallenge);
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      mockWebAuthnService.verifyAuthentication.mockRejectedValue(new WebAuthnError('Chữ ký passkey không hợp lệ', 401));
+      jest.spyOn(AuthService, 'issueTokens');
+
+      const result = await AuthService.verifyMfaPasskey('mfa_token', credential);
+
+      expect(mockTwoFactorService.recordChallengeFailure).toHaveBeenCalledWith('mfa_token');
+      expect(mockLockoutService.recordFailure).toHaveBeenCalledWith(mockAccount);
+      expect(AuthService.issueTokens).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should not swallow unexpected errors', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue(mockChallenge);
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      mockWebAuthnService.verifyAuthentication.mockRejectedValue(new Error('Database error'));
+
+      await expect(AuthService.verifyMfaPasskey('mfa_token', credential)).rejects.toThrow('Database error');
+      expect(mockTwoFactorService.recordChallengeFailure).not.toHaveBeenCalled();
+    });
+
+    it('should return null for an unknown or expired challenge', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue(null);
+
+      const result = await AuthService.verifyMfaPasskey('expired_token', credential);
+
+      expect(mockWebAuthnService.verifyAuthentication).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('issueTokens', () => {
+    it('should generate tokens, save the refresh token and update last login', async () => {
+      const mockTokens = {
+        accessToken: 'access_token',
+        refreshToken: 'refresh_token',
+        expiresIn: 900
+      };
+
+      mockAccountService.getAccountWithPermissions.mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        is_verified: true,
+        is_active: true,
+        created_at: new Date(),
+        updated_at: new Date(),
+        permissions: ['view_accounts'],
+        roles: ['admin']
+      });
+      mockJwtUtils.generateTokens.mockReturnValue(mockTokens);
+      mockPasswordUtils.generateSecureToken.mockReturnValue('family_1');
+      jest.spyOn(AuthService, 'saveRefreshToken').mockResolvedValue();
+
+      const result = await AuthService.issueTokens(1, 'test@example.com', 'password', 'device', '192.168.1.1');
+
+      expect(mockJwtUtils.generateTokens).toHaveBeenCalledWith({
+        accountId: 1,
+        email: 'test@example.com',
+        permissions: ['view_accounts'],
+        sid: 'family_1'
+      });
+      expect(AuthService.saveRefreshToken).toHaveBeenCalledWith(1, 'refresh_token', 'device', '192.168.1.1', 'family_1', undefined);
+      expect(mockAccountService.updateLastLogin).toHaveBeenCalledWith(1);
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith('webhook.event', {
+        type: 'login.succeeded',
+        data: { account_id: 1, method: 'password', ip_address: '192.168.1.1' }
+      });
+      expect(result).toEqual(mockTokens);
+    });
+
+    it('should add the client and scope claims for OAuth grants', async () => {
+      const mockTokens = {
+        accessToken: 'access_token',
+        refreshToken: 'refresh_token',
+        expiresIn: 900
+      };
+      const grant = { clientId: 'client_1', scope: 'profile' };
+
+      mockAccountService.getAccountWithPermissions.mockResolvedValue(null);
+      mockJwtUtils.generateTokens.mockReturnValue(mockTokens);
+      mockPasswordUtils.generateSecureToken.mockReturnValue('family_1');
+      jest.spyOn(AuthService, 'saveRefreshToken').mockResolvedValue();
+
+      await AuthService.issueTokens(1, 'test@example.com', 'oauth', 'device', '192.168.1.1', grant);
+
+      expect(mockJwtUtils.generateTokens).toHaveBeenCalledWith({
+        accountId: 1,
+        email: 'test@example.com',
+        permissions: [],
+        sid: 'family_1',
+        clientId: 'client_1',
+        scope: 'profile'
+      });
+      expect(AuthService.saveRefreshToken).toHaveBeenCalledWith(1, 'refresh_token', 'device', '192.168.1.1', 'family_1', grant);
+    });
+
+    it('should only put the permissions the granted scopes cover into a delegated token', async () => {
+      mockAccountService.getAccountWithPermissions.mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        permissions: ['view_accounts', 'delete_account', 'manage_roles'],
+        roles: ['admin']
+      } as any);
+      mockJwtUtils.generateTokens.mockReturnValue({ accessToken: 'a', refreshToken: 'r', expiresIn: 900 });
+      mockPasswordUtils.generateSecureToken.mockReturnValue('family_1');
+      mockPool.execute.mockResolvedValue([[{ scope: 'account:read', name: 'view_accounts' }]] as any);
+      jest.spyOn(AuthService, 'saveRefreshToken').mockResolvedValue();
+
+      await AuthService.issueTokens(1, 'test@example.com', 'oauth', 'device', '192.168.1.1', {
+        clientId: 'client_1',
+        scope: 'openid account:read'
+      });
+
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining('FROM permissions'), ['account:read']);
+      expect(mockJwtUtils.generateTokens).toHaveBeenCalledWith(expect.objectContaining({
+        permissions: ['view_accounts'],
+        scope: 'openid account:read'
+      }));
+    });
   });
 
   describe('createSession', () => {
@@ -229,18 +872,65 @@ describe('AuthService', () => {
     it('should return true when account is locked', async () => {
       jest.spyOn(AuthService, 'getLoginAttempts').mockResolvedValue(5);
 
-      const result = await AuthService.isAccountLocked('test@example.com', '192.168.1.1');
+      const result = await AuthService.isAccountLocked('test@example.com', '192.168.1.1');
+
+      expect(AuthService.getLoginAttempts).toHaveBeenCalledWith('test@example.com', '192.168.1.1');
+      expect(result).toBe(true);
+    });
+
+    it('should return false when account is not locked', async () => {
+      jest.spyOn(AuthService, 'getLoginAttempts').mockResolvedValue(3);
+
+      const result = await AuthService.isAccountLocked('test@example.com', '192.168.1.1');
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('recordAccountFailure', () => {
+    const account = { id: 1, email: 'test@example.com', first_name: 'John', preferred_locale: 'en' } as any;
+
+    it('should lock the account and notify the owner after too many failures', async () => {
+      const lockedUntil = new Date(Date.now() + 15 * 60000);
+      mockLockoutService.recordFailure.mockResolvedValue(lockedUntil);
+      mockPool.execute.mockResolvedValue([{ insertId: 1 }] as any);
+
+      await AuthService.recordAccountFailure(account, '127.0.0.1');
+
+      expect(mockLockoutService.recordFailure).toHaveBeenCalledWith(account);
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO security_events'),
+        expect.arrayContaining([1, 'account_locked', '127.0.0.1'])
+      );
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith('email.account_locked', {
+        email: 'test@example.com',
+        first_name: 'John',
+        locked_until: lockedUntil.toISOString(),
+        ip_address: '127.0.0.1',
+        locale: 'en'
+      });
+    });
+
+    it('should only report the failure below the limit', async () => {
+      mockLockoutService.recordFailure.mockResolvedValue(null);
 
-      expect(AuthService.getLoginAttempts).toHaveBeenCalledWith('test@example.com', '192.168.1.1');
-      expect(result).toBe(true);
+      await AuthService.recordAccountFailure(account, '127.0.0.1');
+
+      expect(mockOutboxService.enqueue).toHaveBeenCalledTimes(1);
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith('webhook.event', {
+        type: 'login.failed',
+        data: { account_id: 1, email: 'test@example.com', ip_address: '127.0.0.1' }
+      });
+      expect(mockPool.execute).not.toHaveBeenCalled();
     });
 
-    it('should return false when account is not locked', async () => {
-      jest.spyOn(AuthService, 'getLoginAttempts').mockResolvedValue(3);
+    it('should report but not count failures while the account is locked', async () => {
+      mockLockoutService.getLockedUntil.mockReturnValue(new Date(Date.now() + 15 * 60000));
 
-      const result = await AuthService.isAccountLocked('test@example.com', '192.168.1.1');
+      await AuthService.recordAccountFailure(account, '127.0.0.1');
 
-      expect(result).toBe(false);
+      expect(mockLockoutService.recordFailure).not.toHaveBeenCalled();
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith('webhook.event', expect.objectContaining({ type: 'login.failed' }));
     });
   });
 
@@ -381,12 +1071,532 @@ describe('AuthService', () => {
     });
   });
 
+  describe('createMagicLink', () => {
+    it('should store a hashed token that expires after 15 minutes', async () => {
+      const mockExpiresAt = new Date('2024-12-31T00:15:00Z');
+
+      mockPasswordUtils.generateSecureToken.mockReturnValue('secure_token');
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_token');
+      mockDateUtils.addMinutes.mockReturnValue(mockExpiresAt);
+      mockPool.execute.mockResolvedValue([{ insertId: 1 }] as any);
+
+      const result = await AuthService.createMagicLink(1);
+
+      expect(mockDateUtils.addMinutes).toHaveBeenCalledWith(expect.any(Date), 15);
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO magic_link_tokens'),
+        [1, 'hashed_token', mockExpiresAt]
+      );
+      expect(result).toBe('secure_token');
+    });
+  });
+
+  describe('sendMagicLink', () => {
+    let mockConnection: { [method: string]: jest.Mock };
+
+    beforeEach(() => {
+      mockConnection = {
+        beginTransaction: jest.fn(),
+        execute: jest.fn().mockResolvedValue([{ affectedRows: 1 }]),
+        commit: jest.fn(),
+        rollback: jest.fn(),
+        release: jest.fn()
+      };
+      mockPool.getConnection.mockResolvedValue(mockConnection as any);
+    });
+
+    it('should queue the magic link email in the same transaction as the token', async () => {
+      mockPasswordUtils.generateSecureToken.mockReturnValue('magic_token');
+
+      await AuthService.sendMagicLink({ id: 5, email: 'test@example.com', first_name: 'John', preferred_locale: 'en' } as any);
+
+      expect(mockConnection.execute).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO magic_link_tokens'),
+        expect.any(Array)
+      );
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith(
+        'email.magic_link',
+        { email: 'test@example.com', token: 'magic_token', first_name: 'John', locale: 'en' },
+        mockConnection
+      );
+      expect(mockConnection.commit).toHaveBeenCalled();
+    });
+  });
+
+  describe('useMagicLink', () => {
+    it('should only mark an unused, unexpired token as used', async () => {
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_token');
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await AuthService.useMagicLink('magic_token');
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE token_hash = ? AND is_used = 0 AND expires_at > NOW()'),
+        ['hashed_token']
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should return false when the token was already used', async () => {
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_token');
+      mockPool.execute.mockResolvedValue([{ affectedRows: 0 }] as any);
+
+      expect(await AuthService.useMagicLink('magic_token')).toBe(false);
+    });
+  });
+
+  describe('loginWithMagicLink', () => {
+    const mockMagicLink = {
+      id: 1,
+      account_id: 1,
+      token_hash: 'hashed_token',
+      expires_at: new Date(Date.now() + 900000),
+      is_used: false,
+      created_at: new Date()
+    };
+    const mockAccount = {
+      id: 1,
+      email: 'test@example.com',
+      password: null,
+      is_verified: true,
+      is_active: true,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    const mockTokens = {
+      accessToken: 'access_token',
+      refreshToken: 'refresh_token',
+      expiresIn: 900
+    };
+
+    it('should consume the link and issue tokens', async () => {
+      jest.spyOn(AuthService, 'findMagicLink').mockResolvedValue(mockMagicLink);
+      jest.spyOn(AuthService, 'useMagicLink').mockResolvedValue(true);
+      jest.spyOn(AuthService, 'issueTokens').mockResolvedValue(mockTokens);
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+
+      const result = await AuthService.loginWithMagicLink('magic_token', 'device', '192.168.1.1');
+
+      expect(AuthService.useMagicLink).toHaveBeenCalledWith('magic_token');
+      expect(AuthService.issueTokens).toHaveBeenCalledWith(1, 'test@example.com', 'magic_link', 'device', '192.168.1.1');
+      expect(mockAccountService.verifyAccount).not.toHaveBeenCalled();
+      expect(result).toEqual({ accountId: 1, result: mockTokens });
+    });
+
+    it('should verify the email of an unverified account', async () => {
+      jest.spyOn(AuthService, 'findMagicLink').mockResolvedValue(mockMagicLink);
+      jest.spyOn(AuthService, 'useMagicLink').mockResolvedValue(true);
+      jest.spyOn(AuthService, 'issueTokens').mockResolvedValue(mockTokens);
+      mockAccountService.findById.mockResolvedValue({ ...mockAccount, is_verified: false });
+
+      await AuthService.loginWithMagicLink('magic_token');
+
+      expect(mockAccountService.verifyAccount).toHaveBeenCalledWith(1);
+    });
+
+    it('should issue an MFA challenge for accounts with 2FA', async () => {
+      const mockChallenge = { mfaRequired: true as const, mfaToken: 'mfa_token', expiresIn: 300 };
+      jest.spyOn(AuthService, 'findMagicLink').mockResolvedValue(mockMagicLink);
+      jest.spyOn(AuthService, 'useMagicLink').mockResolvedValue(true);
+      jest.spyOn(AuthService, 'issueTokens');
+      mockAccountService.findById.mockResolvedValue({ ...mockAccount, two_factor_enabled: true });
+      mockTwoFactorService.isRequired.mockResolvedValue(true);
+      mockTwoFactorService.createChallenge.mockResolvedValue(mockChallenge);
+
+      const result = await AuthService.loginWithMagicLink('magic_token', 'device', '192.168.1.1');
+
+      expect(mockTwoFactorService.createChallenge).toHaveBeenCalledWith(1, 'device', '192.168.1.1');
+      expect(AuthService.issueTokens).not.toHaveBeenCalled();
+      expect(result).toEqual({ accountId: 1, result: mockChallenge });
+    });
+
+    it('should return null for an unknown or expired link', async () => {
+      jest.spyOn(AuthService, 'findMagicLink').mockResolvedValue(null);
+      jest.spyOn(AuthService, 'useMagicLink');
+
+      const result = await AuthService.loginWithMagicLink('invalid_token');
+
+      expect(AuthService.useMagicLink).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should return null when another request consumed the link first', async () => {
+      jest.spyOn(AuthService, 'findMagicLink').mockResolvedValue(mockMagicLink);
+      jest.spyOn(AuthService, 'useMagicLink').mockResolvedValue(false);
+      jest.spyOn(AuthService, 'issueTokens');
+
+      const result = await AuthService.loginWithMagicLink('magic_token');
+
+      expect(AuthService.issueTokens).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should return null for a deactivated account', async () => {
+      jest.spyOn(AuthService, 'findMagicLink').mockResolvedValue(mockMagicLink);
+      jest.spyOn(AuthService, 'useMagicLink').mockResolvedValue(true);
+      jest.spyOn(AuthService, 'issueTokens');
+      mockAccountService.findById.mockResolvedValue(null);
+
+      const result = await AuthService.loginWithMagicLink('magic_token');
+
+      expect(AuthService.issueTokens).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('loginWithEmailOtp', () => {
+    const mockAccount = {
+      id: 1,
+      email: 'test@example.com',
+      password: 'hashed_password',
+      is_verified: true,
+      is_active: true,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    const mockTokens = {
+      accessToken: 'access_token',
+      refreshToken: 'refresh_token',
+      expiresIn: 900
+    };
+
+    it('should issue tokens for a valid login code', async () => {
+      mockAccountService.findByEmail.mockResolvedValue(mockAccount);
+      mockOtpService.verifyCode.mockResolvedValue(true);
+      jest.spyOn(AuthService, 'issueTokens').mockResolvedValue(mockTokens);
+
+      const result = await AuthService.loginWithEmailOtp('test@example.com', '123456', 'device', '192.168.1.1');
+
+      expect(mockOtpService.verifyCode).toHaveBeenCalledWith(1, 'login', '123456');
+      expect(AuthService.issueTokens).toHaveBeenCalledWith(1, 'test@example.com', 'email_otp', 'device', '192.168.1.1');
+      expect(result).toEqual({ accountId: 1, result: mockTokens });
+    });
+
+    it('should return null for a wrong code', async () => {
+      mockAccountService.findByEmail.mockResolvedValue(mockAccount);
+      mockOtpService.verifyCode.mockResolvedValue(false);
+      jest.spyOn(AuthService, 'issueTokens');
+
+      const result = await AuthService.loginWithEmailOtp('test@example.com', '000000');
+
+      expect(mockLockoutService.recordFailure).toHaveBeenCalledWith(mockAccount);
+      expect(AuthService.issueTokens).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should return null for an unknown email', async () => {
+      mockAccountService.findByEmail.mockResolvedValue(null);
+
+      const result = await AuthService.loginWithEmailOtp('unknown@example.com', '123456');
+
+      expect(mockOtpService.verifyCode).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('loginWithSmsOtp', () => {
+    const mockAccount = {
+      id: 1,
+      email: 'test@example.com',
+      password: 'hashed_password',
+      phone: '+84912345678',
+      phone_verified_at: new Date(),
+      is_verified: false,
+      is_active: true,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    const mockTokens = {
+      accessToken: 'access_token',
+      refreshToken: 'refresh_token',
+      expiresIn: 900
+    };
+
+    it('should issue tokens for a code sent to the verified phone', async () => {
+      mockValidationUtils.normalizePhone.mockReturnValue('+84912345678');
+      mockAccountService.findByVerifiedPhone.mockResolvedValue(mockAccount);
+      mockOtpService.verifyCode.mockResolvedValue(true);
+      jest.spyOn(AuthService, 'issueTokens').mockResolvedValue(mockTokens);
+
+      const result = await AuthService.loginWithSmsOtp('0912345678', '123456', 'device', '192.168.1.1');
+
+      expect(mockAccountService.findByVerifiedPhone).toHaveBeenCalledWith('+84912345678');
+      expect(mockOtpService.verifyCode).toHaveBeenCalledWith(1, 'sms_login', '123456', '+84912345678');
+      expect(AuthService.issueTokens).toHaveBeenCalledWith(1, 'test@example.com', 'sms_otp', 'device', '192.168.1.1');
+      expect(result).toEqual({ accountId: 1, result: mockTokens });
+    });
+
+    it('should not mark the email as verified', async () => {
+      mockValidationUtils.normalizePhone.mockReturnValue('+84912345678');
+      mockAccountService.findByVerifiedPhone.mockResolvedValue(mockAccount);
+      mockOtpService.verifyCode.mockResolvedValue(true);
+      jest.spyOn(AuthService, 'issueTokens').mockResolvedValue(mockTokens);
+
+      await AuthService.loginWithSmsOtp('0912345678', '123456');
+
+      expect(mockAccountService.verifyAccount).not.toHaveBeenCalled();
+    });
+
+    it('should return null for a wrong code', async () => {
+      mockValidationUtils.normalizePhone.mockReturnValue('+84912345678');
+      mockAccountService.findByVerifiedPhone.mockResolvedValue(mockAccount);
+      mockOtpService.verifyCode.mockResolvedValue(false);
+      jest.spyOn(AuthService, 'issueTokens');
+
+      const result = await AuthService.loginWithSmsOtp('0912345678', '000000');
+
+      expect(mockLockoutService.recordFailure).toHaveBeenCalledWith(mockAccount);
+      expect(AuthService.issueTokens).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should return null for an unknown or invalid number', async () => {
+      mockValidationUtils.normalizePhone.mockReturnValue(null);
+
+      const result = await AuthService.loginWithSmsOtp('12345', '123456');
+
+      expect(mockAccountService.findByVerifiedPhone).not.toHaveBeenCalled();
+      expect(mockOtpService.verifyCode).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('verifyMfaSms', () => {
+    beforeEach(() => {
+      mockTwoFactorService.countChallengeAttempt.mockResolvedValue(true);
+    });
+
+    const mockAccount = {
+      id: 1,
+      email: 'test@example.com',
+      password: 'hashed_password',
+      phone: '+84912345678',
+      phone_verified_at: new Date(),
+      sms_two_factor_enabled: true,
+      is_verified: true,
+      is_active: true,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    const mockChallenge = { accountId: 1, deviceInfo: 'device', ipAddress: '192.168.1.1' };
+    const mockTokens = {
+      accessToken: 'access_token',
+      refreshToken: 'refresh_token',
+      expiresIn: 900
+    };
+
+    it('should issue tokens for a code sent to the phone of the account', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue(mockChallenge);
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      mockOtpService.verifyCode.mockResolvedValue(true);
+      jest.spyOn(AuthService, 'issueTokens').mockResolvedValue(mockTokens);
+
+      const result = await AuthService.verifyMfaSms('mfa_token', '123456');
+
+      expect(mockOtpService.verifyCode).toHaveBeenCalledWith(1, 'sms_two_factor', '123456', '+84912345678');
+      expect(mockTwoFactorService.deleteChallenge).toHaveBeenCalledWith('mfa_token');
+      expect(AuthService.issueTokens).toHaveBeenCalledWith(1, 'test@example.com', 'two_factor', 'device', '192.168.1.1');
+      expect(result).toEqual(mockTokens);
+    });
+
+    it('should count a wrong code as a failed attempt', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue(mockChallenge);
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      mockOtpService.verifyCode.mockResolvedValue(false);
+      jest.spyOn(AuthService, 'issueTokens');
+
+      const result = await AuthService.verifyMfaSms('mfa_token', '000000');
+
+      expect(mockTwoFactorService.recordChallengeFailure).toHaveBeenCalledWith('mfa_token');
+      expect(mockLockoutService.recordFailure).toHaveBeenCalledWith(mockAccount);
+      expect(AuthService.issueTokens).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should reject accounts without SMS 2FA', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue(mockChallenge);
+      mockAccountService.findById.mockResolvedValue({ ...mockAccount, sms_two_factor_enabled: false });
+
+      const result = await AuthService.verifyMfaSms('mfa_token', '123456');
+
+      expect(mockOtpService.verifyCode).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should return null for an unknown or expired challenge', async () => {
+      mockTwoFactorService.getChallenge.mockResolvedValue(null);
+
+      const result = await AuthService.verifyMfaSms('expired_token', '123456');
+
+      expect(mockOtpService.verifyCode).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('loginWithPasskey', () => {
+    const credential = {
+      id: 'cred',
+      rawId: 'cred',
+      type: 'public-key' as const,
+      response: { clientDataJSON: 'client', authenticatorData: 'auth', signature: 'sig', userHandle: 'MQ' }
+    };
+    const mockTokens = {
+      accessToken: 'access_token',
+      refreshToken: 'refresh_token',
+      expiresIn: 900
+    };
+    const mockAccount = {
+      id: 1,
+      email: 'test@example.com',
+      password: null,
+      is_verified: true,
+      is_active: true,
+      two_factor_enabled: true,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    beforeEach(() => {
+      mockWebAuthnService.findCredential.mockResolvedValue({ id: 3, account_id: 1 } as any);
+    });
+
+    it('should issue tokens without a second factor', async () => {
+      mockWebAuthnService.verifyAuthentication.mockResolvedValue({ id: 3, account_id: 1 } as any);
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      jest.spyOn(AuthService, 'issueTokens').mockResolvedValue(mockTokens);
+
+      const result = await AuthService.loginWithPasskey(credential, 'device', '192.168.1.1');
+
+      expect(mockWebAuthnService.findCredential).toHaveBeenCalledWith('cred');
+      expect(mockWebAuthnService.verifyAuthentication).toHaveBeenCalledWith(credential);
+      expect(mockTwoFactorService.createChallenge).not.toHaveBeenCalled();
+      expect(AuthService.issueTokens).toHaveBeenCalledWith(1, 'test@example.com', 'passkey', 'device', '192.168.1.1');
+      expect(result).toEqual({ accountId: 1, result: mockTokens });
+    });
+
+    it('should refuse deactivated accounts', async () => {
+      mockWebAuthnService.verifyAuthentication.mockResolvedValue({ id: 3, account_id: 1 } as any);
+      mockAccountService.findById.mockResolvedValue(null);
+
+      const error = await AuthService.loginWithPasskey(credential).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(WebAuthnError);
+      expect(error.statusCode).toBe(403);
+    });
+
+    it('should count a rejected assertion towards the account lock', async () => {
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      mockWebAuthnService.verifyAuthentication.mockRejectedValue(new WebAuthnError('Chữ ký passkey không hợp lệ', 401));
+      jest.spyOn(AuthService, 'issueTokens');
+
+      await expect(AuthService.loginWithPasskey(credential, 'device', '192.168.1.1')).rejects.toThrow('Chữ ký passkey không hợp lệ');
+
+      expect(mockLockoutService.recordFailure).toHaveBeenCalledWith(mockAccount);
+      expect(AuthService.issueTokens).not.toHaveBeenCalled();
+    });
+
+    it('should count nothing for an unknown passkey', async () => {
+      mockWebAuthnService.findCredential.mockResolvedValue(null);
+      mockWebAuthnService.verifyAuthentication.mockRejectedValue(new WebAuthnError('Passkey không được đăng ký cho tài khoản này', 401));
+
+      await expect(AuthService.loginWithPasskey(credential)).rejects.toThrow(WebAuthnError);
+
+      expect(mockAccountService.findById).not.toHaveBeenCalled();
+      expect(mockLockoutService.recordFailure).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a locked account once the passkey is verified', async () => {
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      mockLockoutService.getLockedUntil.mockReturnValue(new Date(Date.now() + 15 * 60000));
+      mockWebAuthnService.verifyAuthentication.mockResolvedValue({ id: 3, account_id: 1 } as any);
+      jest.spyOn(AuthService, 'issueTokens');
+
+      const error = await AuthService.loginWithPasskey(credential).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(WebAuthnError);
+      expect(error.statusCode).toBe(423);
+      expect(error.message).toContain('15 phút');
+      expect(AuthService.issueTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('registerPasskey', () => {
+    const account = { id: 5, email: 'test@example.com', first_name: 'John', preferred_locale: 'en' } as any;
+    const credential = {
+      id: 'cred',
+      rawId: 'cred',
+      type: 'public-key' as const,
+      response: { clientDataJSON: 'client', attestationObject: 'attestation' }
+    };
+    let mockConnection: { [method: string]: jest.Mock };
+
+    beforeEach(() => {
+      mockConnection = {
+        beginTransaction: jest.fn(),
+        execute: jest.fn(),
+        commit: jest.fn(),
+        rollback: jest.fn(),
+        release: jest.fn()
+      };
+      mockPool.getConnection.mockResolvedValue(mockConnection as any);
+    });
+
+    it('should commit the passkey with the email to its owner', async () => {
+      const passkey = { id: 3, account_id: 5, name: 'Laptop' } as any;
+      mockWebAuthnService.verifyRegistration.mockResolvedValue(passkey);
+
+      const result = await AuthService.registerPasskey(account, credential, 'Laptop', '127.0.0.1');
+
+      expect(mockWebAuthnService.verifyRegistration).toHaveBeenCalledWith(5, credential, 'Laptop', mockConnection);
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith(
+        'email.passkey_added',
+        { email: 'test@example.com', first_name: 'John', passkey_name: 'Laptop', ip_address: '127.0.0.1', locale: 'en' },
+        mockConnection
+      );
+      expect(mockConnection.commit).toHaveBeenCalled();
+      expect(result).toBe(passkey);
+    });
+
+    it('should store no passkey when the email cannot be queued', async () => {
+      mockWebAuthnService.verifyRegistration.mockResolvedValue({ id: 3 } as any);
+      mockOutboxService.enqueue.mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(AuthService.registerPasskey(account, credential)).rejects.toThrow('Database error');
+      expect(mockConnection.commit).not.toHaveBeenCalled();
+      expect(mockConnection.rollback).toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmIdentity', () => {
+    const account = { id: 5, password: 'hashed_password' } as any;
+
+    it('should check the step-up code when one is given', async () => {
+      mockOtpService.verifyCode.mockResolvedValue(true);
+
+      await expect(AuthService.confirmIdentity(account, 'password', '123456')).resolves.toBe(true);
+      expect(mockOtpService.verifyCode).toHaveBeenCalledWith(5, 'step_up', '123456');
+      expect(mockPasswordUtils.compare).not.toHaveBeenCalled();
+    });
+
+    it('should check the password otherwise', async () => {
+      mockPasswordUtils.compare.mockResolvedValue(false);
+
+      await expect(AuthService.confirmIdentity(account, 'wrong')).resolves.toBe(false);
+      expect(mockPasswordUtils.compare).toHaveBeenCalledWith('wrong', 'hashed_password');
+    });
+
+    it('should refuse when neither is given', async () => {
+      await expect(AuthService.confirmIdentity(account)).resolves.toBe(false);
+    });
+  });
+
   describe('refreshTokens', () => {
     it('should refresh tokens successfully', async () => {
       const mockDecoded = { accountId: 1, email: 'test@example.com' };
       const mockTokenRecord = {
         id: 1,
         account_id: 1,
+        family_id: 'family_1',
         token_hash: 'hashed_token',
         expires_at: new Date('2024-12-31'),
         is_revoked: false,
@@ -426,9 +1636,94 @@ describe('AuthService', () => {
 
       const result = await AuthService.refreshTokens('old_refresh_token');
 
+      expect(mockJwtUtils.generateTokens).toHaveBeenCalledWith(expect.objectContaining({ sid: 'family_1' }));
+      expect(AuthService.saveRefreshToken).toHaveBeenCalledWith(
+        1,
+        'new_refresh_token',
+        'device',
+        '192.168.1.1',
+        'family_1',
+        undefined
+      );
       expect(result).toEqual(mockNewTokens);
     });
 
+    it('should keep OAuth client tokens bound to their client and scope', async () => {
+      mockJwtUtils.verifyRefreshToken.mockReturnValue({ accountId: 1, email: 'test@example.com' });
+      jest.spyOn(AuthService, 'findRefreshToken').mockResolvedValue({
+        id: 1,
+        account_id: 1,
+        family_id: 'family_1',
+        token_hash: 'hashed_token',
+        expires_at: new Date('2024-12-31'),
+        is_revoked: false,
+        client_id: 'client_1',
+        scope: 'profile',
+        created_at: new Date()
+      });
+      mockAccountService.getAccountWithPermissions.mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        is_verified: true,
+        is_active: true,
+        created_at: new Date(),
+        updated_at: new Date(),
+        permissions: [],
+        roles: []
+      });
+      mockJwtUtils.generateTokens.mockReturnValue({ accessToken: 'a', refreshToken: 'new_refresh_token', expiresIn: 900 });
+      jest.spyOn(AuthService, 'revokeRefreshToken').mockResolvedValue(true);
+      jest.spyOn(AuthService, 'saveRefreshToken').mockResolvedValue();
+
+      await AuthService.refreshTokens('old_refresh_token');
+
+      expect(mockJwtUtils.generateTokens).toHaveBeenCalledWith(expect.objectContaining({
+        clientId: 'client_1',
+        scope: 'profile'
+      }));
+      expect(AuthService.saveRefreshToken).toHaveBeenCalledWith(
+        1,
+        'new_refresh_token',
+        undefined,
+        undefined,
+        'family_1',
+        { clientId: 'client_1', scope: 'profile' }
+      );
+    });
+
+    it('should treat a token revoked by a concurrent refresh as reused', async () => {
+      mockJwtUtils.verifyRefreshToken.mockReturnValue({ accountId: 1, email: 'test@example.com' });
+      jest.spyOn(AuthService, 'findRefreshToken').mockResolvedValue({
+        id: 1,
+        account_id: 1,
+        family_id: 'family_1',
+        token_hash: 'hashed_token',
+        expires_at: new Date('2024-12-31'),
+        is_revoked: false,
+        created_at: new Date()
+      });
+      mockAccountService.getAccountWithPermissions.mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        is_verified: true,
+        is_active: true,
+        created_at: new Date(),
+        updated_at: new Date(),
+        permissions: [],
+        roles: []
+      });
+      jest.spyOn(AuthService, 'revokeRefreshToken').mockResolvedValue(false);
+      jest.spyOn(AuthService, 'detectRefreshTokenReuse').mockResolvedValue(true);
+      jest.spyOn(AuthService, 'saveRefreshToken').mockResolvedValue();
+
+      const result = await AuthService.refreshTokens('old_refresh_token', '10.0.0.1');
+
+      expect(AuthService.detectRefreshTokenReuse).toHaveBeenCalledWith('old_refresh_token', '10.0.0.1');
+      expect(mockJwtUtils.generateTokens).not.toHaveBeenCalled();
+      expect(AuthService.saveRefreshToken).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
     it('should return null when refresh token is invalid', async () => {
       mockJwtUtils.verifyRefreshToken.mockImplementation(() => {
         throw new Error('Invalid token');
@@ -444,13 +1739,91 @@ describe('AuthService', () => {
 
       mockJwtUtils.verifyRefreshToken.mockReturnValue(mockDecoded);
       jest.spyOn(AuthService, 'findRefreshToken').mockResolvedValue(null);
+      jest.spyOn(AuthService, 'detectRefreshTokenReuse').mockResolvedValue(false);
 
-      const result = await AuthService.refreshTokens('nonexistent_token');
+      const result = await AuthService.refreshTokens('nonexistent_token', '192.168.1.1');
 
+      expect(AuthService.detectRefreshTokenReuse).toHaveBeenCalledWith('nonexistent_token', '192.168.1.1');
       expect(result).toBeNull();
     });
   });
 
+  describe('detectRefreshTokenReuse', () => {
+    const revokedRecord = {
+      id: 5,
+      account_id: 1,
+      family_id: 'family_1',
+      token_hash: 'hashed_token',
+      expires_at: new Date('2024-12-31'),
+      is_revoked: true,
+      created_at: new Date()
+    };
+
+    it('should revoke the whole family and record a security event when a revoked token is reused', async () => {
+      jest.spyOn(AuthService, 'findRefreshTokenIncludingRevoked').mockResolvedValue(revokedRecord);
+      jest.spyOn(AuthService, 'revokeRefreshTokenFamily').mockResolvedValue(2);
+      jest.spyOn(AuthService, 'recordSecurityEvent').mockResolvedValue();
+
+      const result = await AuthService.detectRefreshTokenReuse('stolen_token', '10.0.0.1');
+
+      expect(AuthService.revokeRefreshTokenFamily).toHaveBeenCalledWith('family_1');
+      expect(AuthService.recordSecurityEvent).toHaveBeenCalledWith(1, 'refresh_token_reuse', '10.0.0.1', {
+        family_id: 'family_1',
+        refresh_token_id: 5,
+        revoked_tokens: 2
+      });
+      expect(result).toBe(true);
+    });
+
+    it('should do nothing for an unknown token', async () => {
+      jest.spyOn(AuthService, 'findRefreshTokenIncludingRevoked').mockResolvedValue(null);
+      jest.spyOn(AuthService, 'revokeRefreshTokenFamily');
+
+      const result = await AuthService.detectRefreshTokenReuse('unknown_token');
+
+      expect(AuthService.revokeRefreshTokenFamily).not.toHaveBeenCalled();
+      expect(result).toBe(false);
+    });
+
+    it('should do nothing for a token that is still active', async () => {
+      jest.spyOn(AuthService, 'findRefreshTokenIncludingRevoked').mockResolvedValue({ ...revokedRecord, is_revoked: false });
+      jest.spyOn(AuthService, 'revokeRefreshTokenFamily');
+
+      const result = await AuthService.detectRefreshTokenReuse('active_token');
+
+      expect(AuthService.revokeRefreshTokenFamily).not.toHaveBeenCalled();
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('revokeRefreshTokenFamily', () => {
+    it('should revoke every active token in the family', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 3 }] as any);
+
+      const result = await AuthService.revokeRefreshTokenFamily('family_1');
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE family_id = ?'),
+        ['family_1']
+      );
+      expect(result).toBe(3);
+    });
+  });
+
+  describe('recordSecurityEvent', () => {
+    it('should store the event with serialized details', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      await AuthService.recordSecurityEvent(1, 'refresh_token_reuse', '10.0.0.1', { family_id: 'family_1' });
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO security_events'),
+        [1, 'refresh_token_reuse', '10.0.0.1', JSON.stringify({ family_id: 'family_1' })]
+      );
+    });
+  });
+
   describe('logout', () => {
     it('should logout successfully', async () => {
       jest.spyOn(AuthService, 'revokeRefreshToken').mockResolvedValue(true);
@@ -478,6 +1851,7 @@ describe('AuthService', () => {
       await AuthService.logoutAll(1);
 
       expect(AuthService.revokeAllRefreshTokens).toHaveBeenCalledWith(1);
+      expect(TokenRevocationService.revokeAllAccessTokens).toHaveBeenCalledWith(1);
       expect(mockRedis.keys).toHaveBeenCalledWith('session:1:*');
       expect(mockRedis.del).toHaveBeenCalledWith(['session:1:token1', 'session:1:token2']);
     });
@@ -540,6 +1914,20 @@ describe('AuthService', () => {
     });
   });
 
+  describe('revokeClientRefreshTokens', () => {
+    it('should revoke the account tokens issued to one client', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 2 }] as any);
+
+      const result = await AuthService.revokeClientRefreshTokens(1, 'client_1');
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE account_id = ? AND client_id = ?'),
+        [1, 'client_1']
+      );
+      expect(result).toBe(2);
+    });
+  });
+
   describe('revokeAllRefreshTokens', () => {
     it('should revoke all refresh tokens for account', async () => {
       mockPool.execute.mockResolvedValue([{ affectedRows: 3 }] as any);
@@ -0,0 +1,138 @@
+import { EmailTemplateService } from '../../src/services/emailTemplateService';
+
+describe('EmailTemplateService', () => {
+  const originalDefaultLocale = process.env.DEFAULT_LOCALE;
+  const appName = process.env.APP_NAME || 'Volcanion Auth';
+
+  afterEach(() => {
+    if (originalDefaultLocale === undefined) {
+      delete process.env.DEFAULT_LOCALE;
+    } else {
+      process.env.DEFAULT_LOCALE = originalDefaultLocale;
+    }
+  });
+
+  describe('resolveLocale', () => {
+    it('should keep a supported locale', () => {
+      expect(EmailTemplateService.resolveLocale('en')).toBe('en');
+    });
+
+    it('should fall back to DEFAULT_LOCALE', () => {
+      process.env.DEFAULT_LOCALE = 'en';
+
+      expect(EmailTemplateService.resolveLocale(undefined)).toBe('en');
+      expect(EmailTemplateService.resolveLocale('fr')).toBe('en');
+    });
+
+    it('should fall back to Vietnamese when DEFAULT_LOCALE is not supported', () => {
+      process.env.DEFAULT_LOCALE = 'fr';
+
+      expect(EmailTemplateService.resolveLocale(null)).toBe('vi');
+    });
+
+    it('should not treat object properties as locales', () => {
+      delete process.env.DEFAULT_LOCALE;
+
+      expect(EmailTemplateService.resolveLocale('toString')).toBe('vi');
+    });
+  });
+
+  describe('render', () => {
+    it('should fill in the variables in every part', () => {
+      const email = EmailTemplateService.render('otp', 'vi', { first_name: 'Minh', code: '654321' });
+
+      expect(email.subject).toBe(`${appName} - Mã xác thực`);
+      expect(email.html).toContain('<html lang="vi">');
+      expect(email.html).toContain('Chào Minh!');
+      expect(email.html).toContain('<div class="code">654321</div>');
+      expect(email.text).toContain('Mã xác thực của bạn là: 654321');
+      expect(email.text).toContain(`© ${new Date().getFullYear()} ${appName}`);
+    });
+
+    it('should use the locale copy of the greeting fallback', () => {
+      expect(EmailTemplateService.render('otp', 'vi', { code: '1' }).text).toContain('Chào bạn!');
+      expect(EmailTemplateService.render('otp', 'en', { code: '1' }).text).toContain('Hi there!');
+    });
+
+    it('should escape variables in the HTML part only', () => {
+      const email = EmailTemplateService.render('otp', 'en', { first_name: '<b>"Tom" & Jerry</b>', code: '1' });
+
+      expect(email.html).toContain('Hi &lt;b&gt;&quot;Tom&quot; &amp; Jerry&lt;/b&gt;!');
+      expect(email.html).not.toContain('<b>"Tom"');
+      expect(email.text).toContain('Hi <b>"Tom" & Jerry</b>!');
+    });
+
+    it('should keep a section only when its variable is set', () => {
+      const withIp = EmailTemplateService.render('password_changed', 'en', {
+        email: 'a@example.com',
+        time: 'now',
+        ip_address: '203.0.113.10'
+      });
+      const withoutIp = EmailTemplateService.render('password_changed', 'en', { email: 'a@example.com', time: 'now' });
+
+      expect(withIp.html).toContain('<strong>IP address:</strong> 203.0.113.10');
+      expect(withIp.text).toContain('IP address: 203.0.113.10\nEmail: a@example.com');
+      expect(withoutIp.html).not.toContain('IP address');
+      expect(withoutIp.text).toContain('Time: now\nEmail: a@example.com');
+    });
+
+    it('should print zero as a value', () => {
+      const email = EmailTemplateService.render('recovery_code_used', 'en', { time: 'now', remaining_codes: 0 });
+
+      expect(email.text).toContain('Recovery codes left: 0');
+    });
+
+    it('should leave no placeholders behind in any template or locale', () => {
+      for (const name of EmailTemplateService.TEMPLATE_NAMES) {
+        for (const locale of EmailTemplateService.SUPPORTED_LOCALES) {
+          const email = EmailTemplateService.preview(name, locale);
+
+          expect(`${email.subject}${email.html}${email.text}`).not.toMatch(/\{\{|\}\}/);
+        }
+      }
+    });
+  });
+
+  describe('formatDevice', () => {
+    it('should join browser and OS in the locale', () => {
+      expect(EmailTemplateService.formatDevice({ browser: 'Chrome', os: 'Windows' }, 'vi')).toBe('Chrome trên Windows');
+      expect(EmailTemplateService.formatDevice({ browser: 'Chrome', os: 'Windows' }, 'en')).toBe('Chrome on Windows');
+    });
+
+    it('should name an unknown device in the locale', () => {
+      expect(EmailTemplateService.formatDevice({ browser: null, os: null }, 'vi')).toBe('Không xác định');
+      expect(EmailTemplateService.formatDevice({ browser: null, os: null }, 'en')).toBe('Unknown');
+    });
+  });
+
+  describe('listTemplates', () => {
+    it('should list every template with its locales and variables', () => {
+      const templates = EmailTemplateService.listTemplates();
+
+      expect(templates).toHaveLength(10);
+      expect(templates).toContainEqual({
+        name: 'new_device_login',
+        locales: ['vi', 'en'],
+        variables: ['first_name', 'time', 'device', 'ip_address', 'secure_url']
+      });
+    });
+  });
+
+  describe('isTemplateName', () => {
+    it('should only accept known templates', () => {
+      expect(EmailTemplateService.isTemplateName('welcome')).toBe(true);
+      expect(EmailTemplateService.isTemplateName('newsletter')).toBe(false);
+      expect(EmailTemplateService.isTemplateName('constructor')).toBe(false);
+    });
+  });
+
+  describe('preview', () => {
+    it('should render with sample values', () => {
+      const email = EmailTemplateService.preview('verification', 'en');
+
+      expect(email.subject).toBe(`${appName} - Verify your account`);
+      expect(email.html).toContain('https://example.com/verify-email?token=sample-token');
+      expect(email.text).toContain('Hi Minh!');
+    });
+  });
+});
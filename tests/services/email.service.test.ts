@@ -30,7 +30,8 @@ describe('EmailService', () => {
         from: `"${process.env.APP_NAME || 'Volcanion Auth'}" <${process.env.EMAIL_FROM}>`,
         to: 'test@example.com',
         subject: `${process.env.APP_NAME || 'Volcanion Auth'} - Xác thực tài khoản`,
-        html: expect.stringContaining('John Doe')
+        html: expect.stringContaining('John Doe'),
+        text: expect.any(String)
       });
     });
 
@@ -44,7 +45,8 @@ describe('EmailService', () => {
         from: `"${process.env.APP_NAME || 'Volcanion Auth'}" <${process.env.EMAIL_FROM}>`,
         to: 'test@example.com',
         subject: `${process.env.APP_NAME || 'Volcanion Auth'} - Xác thực tài khoản`,
-        html: expect.stringContaining('bạn')
+        html: expect.stringContaining('bạn'),
+        text: expect.any(String)
       });
     });
 
@@ -68,6 +70,31 @@ describe('EmailService', () => {
         })
       );
     });
+
+    it('should send a plain-text part with the link', async () => {
+      mockSendMail.mockResolvedValue({ messageId: '123' });
+      process.env.CLIENT_URL = 'http://localhost:3000';
+
+      await EmailService.sendVerificationEmail('test@example.com', 'test-token', 'John Doe');
+
+      const { text } = mockSendMail.mock.calls[0][0];
+      expect(text).toContain('Chào John Doe!');
+      expect(text).toContain('http://localhost:3000/verify-email?token=test-token');
+      expect(text).not.toContain('<');
+    });
+
+    it('should send the email in the given locale', async () => {
+      mockSendMail.mockResolvedValue({ messageId: '123' });
+
+      await EmailService.sendVerificationEmail('test@example.com', 'test-token', undefined, 'en');
+
+      expect(mockSendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          subject: `${process.env.APP_NAME || 'Volcanion Auth'} - Verify your account`,
+          html: expect.stringContaining('Hi there!')
+        })
+      );
+    });
   });
 
   describe('sendPasswordResetEmail', () => {
@@ -81,7 +108,8 @@ describe('EmailService', () => {
         from: `"${process.env.APP_NAME || 'Volcanion Auth'}" <${process.env.EMAIL_FROM}>`,
         to: 'test@example.com',
         subject: `${process.env.APP_NAME || 'Volcanion Auth'} - Đặt lại mật khẩu`,
-        html: expect.stringContaining('John Doe')
+        html: expect.stringContaining('John Doe'),
+        text: expect.any(String)
       });
     });
 
@@ -95,7 +123,8 @@ describe('EmailService', () => {
         from: `"${process.env.APP_NAME || 'Volcanion Auth'}" <${process.env.EMAIL_FROM}>`,
         to: 'test@example.com',
         subject: `${process.env.APP_NAME || 'Volcanion Auth'} - Đặt lại mật khẩu`,
-        html: expect.stringContaining('bạn')
+        html: expect.stringContaining('bạn'),
+        text: expect.any(String)
       });
     });
 
@@ -121,6 +150,55 @@ describe('EmailService', () => {
     });
   });
 
+  describe('sendMagicLinkEmail', () => {
+    it('should send the magic link', async () => {
+      mockSendMail.mockResolvedValue({ messageId: '457' });
+      process.env.CLIENT_URL = 'http://localhost:3000';
+
+      const result = await EmailService.sendMagicLinkEmail('test@example.com', 'magic-token', 'John Doe');
+
+      expect(result).toBe(true);
+      expect(mockSendMail).toHaveBeenCalledWith({
+        from: `"${process.env.APP_NAME || 'Volcanion Auth'}" <${process.env.EMAIL_FROM}>`,
+        to: 'test@example.com',
+        subject: `${process.env.APP_NAME || 'Volcanion Auth'} - Liên kết đăng nhập`,
+        html: expect.stringContaining('http://localhost:3000/magic-link?token=magic-token'),
+        text: expect.any(String)
+      });
+    });
+
+    it('should return false when sending the magic link fails', async () => {
+      mockSendMail.mockRejectedValue(new Error('Send failed'));
+
+      const result = await EmailService.sendMagicLinkEmail('test@example.com', 'magic-token');
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('sendOtpEmail', () => {
+    it('should send the one-time code', async () => {
+      mockSendMail.mockResolvedValue({ messageId: '458' });
+
+      const result = await EmailService.sendOtpEmail('test@example.com', '123456', 'John Doe');
+
+      expect(result).toBe(true);
+      expect(mockSendMail).toHaveBeenCalledWith({
+        from: `"${process.env.APP_NAME || 'Volcanion Auth'}" <${process.env.EMAIL_FROM}>`,
+        to: 'test@example.com',
+        subject: `${process.env.APP_NAME || 'Volcanion Auth'} - Mã xác thực`,
+        html: expect.stringContaining('123456'),
+        text: expect.any(String)
+      });
+    });
+
+    it('should return false when sending the code fails', async () => {
+      mockSendMail.mockRejectedValue(new Error('Send failed'));
+
+      expect(await EmailService.sendOtpEmail('test@example.com', '123456')).toBe(false);
+    });
+  });
+
   describe('sendPasswordChangeNotification', () => {
     it('should send password change notification successfully with all parameters', async () => {
       mockSendMail.mockResolvedValue({ messageId: '789' });
@@ -136,7 +214,8 @@ describe('EmailService', () => {
         from: `"${process.env.APP_NAME || 'Volcanion Auth'}" <${process.env.EMAIL_FROM}>`,
         to: 'test@example.com',
         subject: `${process.env.APP_NAME || 'Volcanion Auth'} - Mật khẩu đã được thay đổi`,
-        html: expect.stringContaining('John Doe')
+        html: expect.stringContaining('John Doe'),
+        text: expect.any(String)
       });
       
       // Verify that IP address is included
@@ -157,7 +236,8 @@ describe('EmailService', () => {
         from: `"${process.env.APP_NAME || 'Volcanion Auth'}" <${process.env.EMAIL_FROM}>`,
         to: 'test@example.com',
         subject: `${process.env.APP_NAME || 'Volcanion Auth'} - Mật khẩu đã được thay đổi`,
-        html: expect.stringContaining('bạn')
+        html: expect.stringContaining('bạn'),
+        text: expect.any(String)
       });
     });
 
@@ -182,6 +262,134 @@ describe('EmailService', () => {
     });
   });
 
+  describe('sendRecoveryCodeUsedNotification', () => {
+    it('should send recovery code notification with remaining count', async () => {
+      mockSendMail.mockResolvedValue({ messageId: '790' });
+
+      const result = await EmailService.sendRecoveryCodeUsedNotification(
+        'test@example.com',
+        'John Doe',
+        3,
+        '192.168.1.1'
+      );
+
+      expect(result).toBe(true);
+      expect(mockSendMail).toHaveBeenCalledWith({
+        from: `"${process.env.APP_NAME || 'Volcanion Auth'}" <${process.env.EMAIL_FROM}>`,
+        to: 'test@example.com',
+        subject: `${process.env.APP_NAME || 'Volcanion Auth'} - Mã khôi phục đã được sử dụng`,
+        html: expect.stringContaining('John Doe'),
+        text: expect.any(String)
+      });
+      expect(mockSendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          html: expect.stringContaining('192.168.1.1')
+        })
+      );
+    });
+
+    it('should return false when sending recovery code notification fails', async () => {
+      mockSendMail.mockRejectedValue(new Error('Send failed'));
+
+      const result = await EmailService.sendRecoveryCodeUsedNotification('test@example.com');
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('sendAccountLockedNotification', () => {
+    it('should send the lock notice with the IP of the last attempt', async () => {
+      mockSendMail.mockResolvedValue({ messageId: '791' });
+
+      const result = await EmailService.sendAccountLockedNotification(
+        'test@example.com',
+        'John Doe',
+        new Date('2024-01-01T00:15:00Z'),
+        '192.168.1.1'
+      );
+
+      expect(result).toBe(true);
+      expect(mockSendMail).toHaveBeenCalledWith({
+        from: `"${process.env.APP_NAME || 'Volcanion Auth'}" <${process.env.EMAIL_FROM}>`,
+        to: 'test@example.com',
+        subject: `${process.env.APP_NAME || 'Volcanion Auth'} - Tài khoản tạm thời bị khóa`,
+        html: expect.stringContaining('John Doe'),
+        text: expect.any(String)
+      });
+      expect(mockSendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          html: expect.stringContaining('192.168.1.1')
+        })
+      );
+    });
+
+    it('should return false when sending the lock notice fails', async () => {
+      mockSendMail.mockRejectedValue(new Error('Send failed'));
+
+      const result = await EmailService.sendAccountLockedNotification('test@example.com', undefined, new Date());
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('sendNewDeviceLoginAlert', () => {
+    it('should describe the device and link to the disown page', async () => {
+      mockSendMail.mockResolvedValue({ messageId: '792' });
+
+      const result = await EmailService.sendNewDeviceLoginAlert(
+        'test@example.com',
+        'John Doe',
+        'alert-token',
+        { browser: 'Chrome', os: 'Windows', device: 'desktop' },
+        '203.0.113.10'
+      );
+
+      expect(result).toBe(true);
+      expect(mockSendMail).toHaveBeenCalledWith({
+        from: `"${process.env.APP_NAME || 'Volcanion Auth'}" <${process.env.EMAIL_FROM}>`,
+        to: 'test@example.com',
+        subject: `${process.env.APP_NAME || 'Volcanion Auth'} - Đăng nhập từ thiết bị mới`,
+        html: expect.stringContaining('Chrome trên Windows'),
+        text: expect.any(String)
+      });
+      const { html } = mockSendMail.mock.calls[0][0];
+      expect(html).toContain(`${process.env.CLIENT_URL}/secure-account?token=alert-token`);
+      expect(html).toContain('203.0.113.10');
+    });
+
+    it('should return false when sending the alert fails', async () => {
+      mockSendMail.mockRejectedValue(new Error('Send failed'));
+
+      const result = await EmailService.sendNewDeviceLoginAlert(
+        'test@example.com',
+        undefined,
+        'alert-token',
+        { browser: null, os: null, device: 'unknown' }
+      );
+
+      expect(result).toBe(false);
+    });
+
+    it('should name the device in the recipient locale', async () => {
+      mockSendMail.mockResolvedValue({ messageId: '793' });
+
+      await EmailService.sendNewDeviceLoginAlert(
+        'test@example.com',
+        'John Doe',
+        'alert-token',
+        { browser: null, os: null, device: 'unknown' },
+        undefined,
+        'en'
+      );
+
+      const { subject, html, text } = mockSendMail.mock.calls[0][0];
+      expect(subject).toContain('New sign-in from an unfamiliar device');
+      expect(html).toContain('<strong>Device:</strong> Unknown');
+      expect(html).not.toContain('IP address');
+      expect(text).toContain('Device: Unknown');
+    });
+  });
+
   describe('sendWelcomeEmail', () => {
     it('should send welcome email successfully with first_name', async () => {
       mockSendMail.mockResolvedValue({ messageId: '101' });
@@ -193,7 +401,8 @@ describe('EmailService', () => {
         from: `"${process.env.APP_NAME || 'Volcanion Auth'}" <${process.env.EMAIL_FROM}>`,
         to: 'test@example.com',
         subject: `Chào mừng đến với ${process.env.APP_NAME || 'Volcanion Auth'}!`,
-        html: expect.stringContaining('John Doe')
+        html: expect.stringContaining('John Doe'),
+        text: expect.any(String)
       });
     });
 
@@ -207,7 +416,8 @@ describe('EmailService', () => {
         from: `"${process.env.APP_NAME || 'Volcanion Auth'}" <${process.env.EMAIL_FROM}>`,
         to: 'test@example.com',
         subject: `Chào mừng đến với ${process.env.APP_NAME || 'Volcanion Auth'}!`,
-        html: expect.stringContaining('bạn')
+        html: expect.stringContaining('bạn'),
+        text: expect.any(String)
       });
     });
 
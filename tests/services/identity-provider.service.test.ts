@@ -0,0 +1,270 @@
+import crypto from 'crypto';
+import { IdentityProviderService, IdentityProviderError } from '../../src/services/identityProviderService';
+import { redisClient } from '../../src/config/database';
+import { IdentityProviderConfig, IdentityProviderHttpClient } from '../../src/types';
+
+const mockRedisClient = redisClient as jest.Mocked<typeof redisClient>;
+
+describe('IdentityProviderService', () => {
+  const originalEnv = process.env;
+
+  // A local fake provider: the HTTP client answers the way a real token and userinfo endpoint would
+  const fakeProvider: IdentityProviderConfig = {
+    name: 'fake',
+    displayName: 'Fake Provider',
+    clientId: 'fake_client',
+    clientSecret: 'fake_secret',
+    authorizationUrl: 'https://idp.test/authorize',
+    tokenUrl: 'https://idp.test/token',
+    userinfoUrl: 'https://idp.test/userinfo',
+    scope: 'openid email',
+    profileMapping: {
+      subject: 'sub',
+      email: 'email',
+      emailVerified: 'email_verified',
+      firstName: 'given_name',
+      lastName: 'family_name'
+    }
+  };
+
+  let redisStore: Map<string, string>;
+  let issuedCodes: Map<string, string>;
+  let fakeHttpClient: jest.Mocked<IdentityProviderHttpClient>;
+
+  const startLogin = async () => {
+    const url = new URL(await IdentityProviderService.createAuthorizationUrl('fake'));
+    const code = 'provider_code';
+    issuedCodes.set(code, url.searchParams.get('code_challenge') || '');
+    return { url, code, state: url.searchParams.get('state') || '' };
+  };
+
+  beforeAll(() => {
+    IdentityProviderService.registerProvider(fakeProvider);
+  });
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, CLIENT_URL: 'https://login.example.com' };
+    delete process.env.SOCIAL_CALLBACK_URL;
+
+    redisStore = new Map();
+    issuedCodes = new Map();
+    mockRedisClient.setEx.mockImplementation(async (key: any, _ttl: any, value: any) => {
+      redisStore.set(key, value);
+      return 'OK' as any;
+    });
+    mockRedisClient.get.mockImplementation(async (key: any) => redisStore.get(key) ?? null);
+    mockRedisClient.del.mockImplementation(async (key: any) => (redisStore.delete(key) ? 1 : 0) as any);
+
+    fakeHttpClient = {
+      postForm: jest.fn().mockImplementation(async (_url: string, form: Record<string, string>) => {
+        const challenge = issuedCodes.get(form.code);
+        const computed = crypto.createHash('sha256').update(form.code_verifier || '').digest('base64url');
+        if (!challenge || challenge !== computed || form.client_secret !== 'fake_secret') {
+          return { status: 400, body: { error: 'invalid_grant' } };
+        }
+        return { status: 200, body: { access_token: 'provider_access_token', token_type: 'Bearer' } };
+      }),
+      getJson: jest.fn().mockImplementation(async (_url: string, accessToken: string) => {
+        if (accessToken !== 'provider_access_token') return { status: 401, body: {} };
+        return {
+          status: 200,
+          body: { sub: 'abc-123', email: 'Jane@Example.com', email_verified: true, given_name: 'Jane', family_name: 'Doe' }
+        };
+      })
+    };
+    IdentityProviderService.setHttpClient(fakeHttpClient);
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('getProvider', () => {
+    it('should enable a preset once its credentials are configured', () => {
+      expect(IdentityProviderService.getProvider('google')).toBeNull();
+
+      process.env.SOCIAL_GOOGLE_CLIENT_ID = 'google_client';
+      process.env.SOCIAL_GOOGLE_CLIENT_SECRET = 'google_secret';
+      process.env.SOCIAL_GOOGLE_TOKEN_URL = 'https://google.test/token';
+
+      expect(IdentityProviderService.getProvider('google')).toEqual(expect.objectContaining({
+        clientId: 'google_client',
+        authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+        tokenUrl: 'https://google.test/token'
+      }));
+    });
+
+    it('should not resolve unknown names', () => {
+      expect(IdentityProviderService.getProvider('toString')).toBeNull();
+    });
+
+    it('should list only enabled providers', () => {
+      process.env.SOCIAL_GITHUB_CLIENT_ID = 'github_client';
+      process.env.SOCIAL_GITHUB_CLIENT_SECRET = 'github_secret';
+
+      const names = IdentityProviderService.listProviders().map(provider => provider.name);
+
+      expect(names).toEqual(['github', 'fake']);
+    });
+  });
+
+  describe('createAuthorizationUrl', () => {
+    it('should send the client to the provider with state and PKCE', async () => {
+      const { url } = await startLogin();
+
+      expect(url.origin + url.pathname).toBe('https://idp.test/authorize');
+      expect(url.searchParams.get('client_id')).toBe('fake_client');
+      expect(url.searchParams.get('redirect_uri')).toBe('https://login.example.com/auth/social/fake/callback');
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(mockRedisClient.setEx).toHaveBeenCalledWith(
+        expect.stringMatching(/^social_state:/),
+        IdentityProviderService.STATE_TTL_SECONDS,
+        expect.stringContaining('"provider":"fake"')
+      );
+    });
+
+    it('should reject disabled providers', async () => {
+      const error = await IdentityProviderService.createAuthorizationUrl('google').catch(caught => caught);
+
+      expect(error).toBeInstanceOf(IdentityProviderError);
+      expect(error.statusCode).toBe(404);
+    });
+  });
+
+  describe('fetchProfile', () => {
+    it('should exchange the code and map the userinfo response', async () => {
+      const { code, state } = await startLogin();
+
+      const profile = await IdentityProviderService.fetchProfile('fake', code, state);
+
+      expect(fakeHttpClient.postForm).toHaveBeenCalledWith('https://idp.test/token', expect.objectContaining({
+        grant_type: 'authorization_code',
+        redirect_uri: 'https://login.example.com/auth/social/fake/callback'
+      }));
+      expect(fakeHttpClient.getJson).toHaveBeenCalledWith('https://idp.test/userinfo', 'provider_access_token');
+      expect(profile).toEqual({
+        provider: 'fake',
+        subject: 'abc-123',
+        email: 'jane@example.com',
+        emailVerified: true,
+        firstName: 'Jane',
+        lastName: 'Doe'
+      });
+    });
+
+    it('should only accept a state once', async () => {
+      const { code, state } = await startLogin();
+      await IdentityProviderService.fetchProfile('fake', code, state);
+
+      await expect(IdentityProviderService.fetchProfile('fake', code, state)).rejects.toThrow(IdentityProviderError);
+    });
+
+    it('should reject an unknown state without calling the provider', async () => {
+      await expect(IdentityProviderService.fetchProfile('fake', 'provider_code', 'forged')).rejects.toThrow(IdentityProviderError);
+
+      expect(fakeHttpClient.postForm).not.toHaveBeenCalled();
+    });
+
+    it('should only finish a link for the account that started it', async () => {
+      const url = new URL(await IdentityProviderService.createAuthorizationUrl('fake', 7));
+      const state = url.searchParams.get('state') || '';
+      issuedCodes.set('provider_code', url.searchParams.get('code_challenge') || '');
+
+      await expect(IdentityProviderService.fetchProfile('fake', 'provider_code', state)).rejects.toThrow(IdentityProviderError);
+      expect(fakeHttpClient.postForm).not.toHaveBeenCalled();
+    });
+
+    it('should accept a link state for the same account', async () => {
+      const url = new URL(await IdentityProviderService.createAuthorizationUrl('fake', 7));
+      issuedCodes.set('provider_code', url.searchParams.get('code_challenge') || '');
+
+      const profile = await IdentityProviderService.fetchProfile('fake', 'provider_code', url.searchParams.get('state') || '', 7);
+
+      expect(profile.subject).toBe('abc-123');
+    });
+
+    it('should fail when the provider rejects the code', async () => {
+      const { state } = await startLogin();
+
+      const error = await IdentityProviderService.fetchProfile('fake', 'wrong_code', state).catch(caught => caught);
+
+      expect(error.statusCode).toBe(400);
+      expect(fakeHttpClient.getJson).not.toHaveBeenCalled();
+    });
+
+    describe('with an emails endpoint', () => {
+      const emailsUrl = 'https://idp.test/user/emails';
+
+      beforeEach(() => {
+        IdentityProviderService.registerProvider({ ...fakeProvider, emailsUrl });
+      });
+
+      afterEach(() => {
+        IdentityProviderService.registerProvider(fakeProvider);
+      });
+
+      it('should take the primary verified address from the emails endpoint', async () => {
+        const { code, state } = await startLogin();
+        fakeHttpClient.getJson
+          .mockResolvedValueOnce({ status: 200, body: { sub: 'abc-123', email: 'public@example.com' } })
+          .mockResolvedValueOnce({
+            status: 200,
+            body: [
+              { email: 'old@example.com', primary: false, verified: true },
+              { email: 'Jane@Example.com', primary: true, verified: true }
+            ] as any
+          });
+
+        const profile = await IdentityProviderService.fetchProfile('fake', code, state);
+
+        expect(fakeHttpClient.getJson).toHaveBeenCalledWith(emailsUrl, 'provider_access_token');
+        expect(profile).toMatchObject({ email: 'jane@example.com', emailVerified: true });
+      });
+
+      it('should leave the address unverified when none is verified', async () => {
+        const { code, state } = await startLogin();
+        fakeHttpClient.getJson
+          .mockResolvedValueOnce({ status: 200, body: { sub: 'abc-123', email: 'victim@example.com', email_verified: true } })
+          .mockResolvedValueOnce({ status: 200, body: [{ email: 'victim@example.com', primary: true, verified: false }] as any });
+
+        const profile = await IdentityProviderService.fetchProfile('fake', code, state);
+
+        expect(profile).toMatchObject({ email: 'victim@example.com', emailVerified: false });
+      });
+    });
+
+    it('should report a failing userinfo endpoint as a bad gateway', async () => {
+      const { code, state } = await startLogin();
+      fakeHttpClient.getJson.mockResolvedValueOnce({ status: 500, body: {} });
+
+      const error = await IdentityProviderService.fetchProfile('fake', code, state).catch(caught => caught);
+
+      expect(error.statusCode).toBe(502);
+    });
+  });
+
+  describe('mapProfile', () => {
+    it('should split a full name and stringify numeric ids', () => {
+      const provider = { ...fakeProvider, profileMapping: { subject: 'id', email: 'email', name: 'name' }, trustEmail: true };
+
+      expect(IdentityProviderService.mapProfile(provider, { id: 42, email: 'a@b.co', name: 'Nguyen Van A' })).toEqual({
+        provider: 'fake',
+        subject: '42',
+        email: 'a@b.co',
+        emailVerified: true,
+        firstName: 'Nguyen',
+        lastName: 'Van A'
+      });
+    });
+
+    it('should treat an email without a verified flag as unverified', () => {
+      const profile = IdentityProviderService.mapProfile(fakeProvider, { sub: '1', email: 'a@b.co' });
+
+      expect(profile.emailVerified).toBe(false);
+    });
+
+    it('should require a subject', () => {
+      expect(() => IdentityProviderService.mapProfile(fakeProvider, { email: 'a@b.co' })).toThrow(IdentityProviderError);
+    });
+  });
+});
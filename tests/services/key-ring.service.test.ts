@@ -0,0 +1,290 @@
+// Mock all dependencies first
+jest.mock('../../src/utils');
+jest.mock('../../src/services/auditService');
+
+import { KeyRingService } from '../../src/services/keyRingService';
+import { AuditService } from '../../src/services/auditService';
+import { JwtUtils, EncryptionUtils, DateUtils } from '../../src/utils';
+import { pool } from '../../src/config/database';
+
+// Type the mocks
+const mockPool = pool as jest.Mocked<typeof pool>;
+const mockJwtUtils = JwtUtils as jest.Mocked<typeof JwtUtils>;
+const mockEncryptionUtils = EncryptionUtils as jest.Mocked<typeof EncryptionUtils>;
+const mockDateUtils = DateUtils as jest.Mocked<typeof DateUtils>;
+
+describe('KeyRingService', () => {
+  const keyInfo = {
+    id: 2,
+    kid: 'new-key',
+    algorithm: 'HS256',
+    status: 'pending',
+    activates_at: new Date(),
+    created_at: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPool.execute.mockReset();
+    delete process.env.JWT_KEY_ROTATION_DAYS;
+    mockJwtUtils.getAccessTokenExpiresIn.mockReturnValue(900);
+
+    // Audit records are only written, so keep the real diff to assert on them
+    const { AuditService: ActualAuditService } = jest.requireActual('../../src/services/auditService');
+    (AuditService.diff as jest.Mock).mockImplementation(ActualAuditService.diff);
+  });
+
+  describe('loadKeyRing', () => {
+    it('should install the newest active key as signing key and all live keys for verification', async () => {
+      const records = [
+        { id: 3, kid: 'pending-key', algorithm: 'HS256', private_key: 'enc3', status: 'pending' },
+        { id: 2, kid: 'active-key', algorithm: 'HS256', private_key: 'enc2', status: 'active' },
+        { id: 1, kid: 'retired-key', algorithm: 'ES256', private_key: 'enc1', status: 'retired' }
+      ];
+      mockPool.execute.mockResolvedValue([records] as any);
+      mockEncryptionUtils.decrypt.mockImplementation((value: string) => `plain_${value}`);
+      mockJwtUtils.createSecretSigningKey.mockImplementation((secret: string, kid: string) => ({ kid, secret }) as any);
+      mockJwtUtils.createSigningKey.mockImplementation((pem: string, algorithm: any, kid?: string) => ({ kid, pem }) as any);
+
+      await KeyRingService.loadKeyRing();
+
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining("status = 'retired' AND expires_at > NOW()"));
+      expect(mockJwtUtils.createSigningKey).toHaveBeenCalledWith('plain_enc1', 'ES256', 'retired-key');
+      expect(mockJwtUtils.setKeyRing).toHaveBeenCalledWith({
+        signingKey: { kid: 'active-key', secret: 'plain_enc2' },
+        verificationKeys: [
+          { kid: 'pending-key', secret: 'plain_enc3' },
+          { kid: 'active-key', secret: 'plain_enc2' },
+          { kid: 'retired-key', pem: 'plain_enc1' }
+        ]
+      });
+    });
+
+    it('should clear the signing key when no key is active', async () => {
+      mockPool.execute.mockResolvedValue([[]] as any);
+
+      await KeyRingService.loadKeyRing();
+
+      expect(mockJwtUtils.setKeyRing).toHaveBeenCalledWith({ signingKey: null, verificationKeys: [] });
+    });
+  });
+
+  describe('loadExportKeys', () => {
+    it('should install every export key, newest first', async () => {
+      const records = [
+        { id: 2, kid: 'export-2', algorithm: 'ES256', private_key: 'enc2' },
+        { id: 1, kid: 'export-1', algorithm: 'ES256', private_key: 'enc1' }
+      ];
+      mockPool.execute.mockResolvedValue([records] as any);
+      mockEncryptionUtils.decrypt.mockImplementation((value: string) => `plain_${value}`);
+      mockJwtUtils.createSigningKey.mockImplementation((pem: string, algorithm: any, kid?: string) => ({ kid, pem }) as any);
+
+      await KeyRingService.loadExportKeys();
+
+      expect(mockPool.execute).toHaveBeenCalledTimes(1);
+      expect(mockJwtUtils.setAuditExportKeys).toHaveBeenCalledWith([
+        { kid: 'export-2', pem: 'plain_enc2' },
+        { kid: 'export-1', pem: 'plain_enc1' }
+      ]);
+    });
+
+    it('should create an ES256 export key when there is none', async () => {
+      const actualUtils = jest.requireActual('../../src/utils');
+      mockJwtUtils.createSigningKey.mockImplementation(actualUtils.JwtUtils.createSigningKey.bind(actualUtils.JwtUtils));
+      mockEncryptionUtils.encrypt.mockReturnValue('encrypted_key');
+      mockPool.execute
+        .mockResolvedValueOnce([[]] as any)
+        .mockResolvedValueOnce([{ insertId: 1 }] as any)
+        .mockResolvedValueOnce([[]] as any);
+
+      await KeyRingService.loadExportKeys();
+
+      expect(mockJwtUtils.getAlgorithm).not.toHaveBeenCalled();
+      expect(mockPool.execute).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining('INSERT INTO audit_export_keys'),
+        [expect.any(String), 'ES256', 'encrypted_key', expect.stringContaining('BEGIN PUBLIC KEY')]
+      );
+      expect(mockJwtUtils.setAuditExportKeys).toHaveBeenCalledWith([]);
+    });
+  });
+
+  describe('promote', () => {
+    it('should retire the previous key once its tokens and the refresh interval have passed', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await KeyRingService.promote(2);
+
+      expect(mockPool.execute).toHaveBeenNthCalledWith(
+        1,
+        "UPDATE jwt_signing_keys SET status = 'active' WHERE id = ? AND status = 'pending'",
+        [2]
+      );
+      expect(mockPool.execute).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining("SET status = 'retired'"),
+        [960, 2]
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should do nothing when the key was already promoted', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 0 }] as any);
+
+      const result = await KeyRingService.promote(2);
+
+      expect(mockPool.execute).toHaveBeenCalledTimes(1);
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('processSchedule', () => {
+    it('should promote every pending key that is due', async () => {
+      mockPool.execute.mockResolvedValueOnce([[{ id: 4 }, { id: 5 }]] as any);
+      jest.spyOn(KeyRingService, 'promote').mockResolvedValue(true);
+
+      await KeyRingService.processSchedule();
+
+      expect(KeyRingService.promote).toHaveBeenNthCalledWith(1, 4);
+      expect(KeyRingService.promote).toHaveBeenNthCalledWith(2, 5);
+    });
+
+    describe('automatic rotation', () => {
+      let mockConnection: { execute: jest.Mock; release: jest.Mock };
+
+      beforeEach(() => {
+        process.env.JWT_KEY_ROTATION_DAYS = '30';
+        mockConnection = {
+          execute: jest.fn().mockImplementation(async (query: string) =>
+            query.includes('GET_LOCK') ? [[{ acquired: 1 }]] : [[{ released: 1 }]]
+          ),
+          release: jest.fn()
+        };
+        mockPool.getConnection.mockResolvedValue(mockConnection as any);
+      });
+
+      it('should schedule a rotation when the active key is older than the rotation interval', async () => {
+        mockPool.execute
+          .mockResolvedValueOnce([[]] as any)
+          .mockResolvedValueOnce([[{ pending_count: 0, active_since: new Date('2024-01-01') }]] as any);
+        mockDateUtils.addDays.mockReturnValue(new Date('2024-01-31'));
+        jest.spyOn(KeyRingService, 'rotate').mockResolvedValue(keyInfo as any);
+
+        await KeyRingService.processSchedule();
+
+        expect(mockConnection.execute).toHaveBeenNthCalledWith(1, expect.stringContaining('GET_LOCK'), [KeyRingService.ROTATION_LOCK]);
+        expect(KeyRingService.rotate).toHaveBeenCalled();
+        expect(AuditService.record).toHaveBeenCalledWith({
+          action: 'signing_key_rotated',
+          changes: {
+            kid: { from: null, to: 'new-key' },
+            algorithm: { from: null, to: 'HS256' },
+            activates_at: { from: null, to: keyInfo.activates_at }
+          }
+        });
+        expect(mockConnection.execute).toHaveBeenLastCalledWith('SELECT RELEASE_LOCK(?)', [KeyRingService.ROTATION_LOCK]);
+        expect(mockConnection.release).toHaveBeenCalled();
+      });
+
+      it('should not schedule a rotation while a successor is pending', async () => {
+        mockPool.execute
+          .mockResolvedValueOnce([[]] as any)
+          .mockResolvedValueOnce([[{ pending_count: 1, active_since: new Date('2024-01-01') }]] as any);
+        jest.spyOn(KeyRingService, 'rotate');
+
+        await KeyRingService.processSchedule();
+
+        expect(KeyRingService.rotate).not.toHaveBeenCalled();
+        expect(mockConnection.execute).toHaveBeenLastCalledWith('SELECT RELEASE_LOCK(?)', [KeyRingService.ROTATION_LOCK]);
+      });
+
+      it('should leave the check to the instance that holds the lock', async () => {
+        mockPool.execute.mockResolvedValueOnce([[]] as any);
+        mockConnection.execute.mockResolvedValueOnce([[{ acquired: 0 }]]);
+        jest.spyOn(KeyRingService, 'rotate');
+
+        await KeyRingService.processSchedule();
+
+        expect(mockPool.execute).toHaveBeenCalledTimes(1);
+        expect(KeyRingService.rotate).not.toHaveBeenCalled();
+        expect(mockConnection.execute).toHaveBeenCalledTimes(1);
+        expect(mockConnection.release).toHaveBeenCalled();
+      });
+
+      it('should release the lock when the rotation fails', async () => {
+        mockPool.execute
+          .mockResolvedValueOnce([[]] as any)
+          .mockResolvedValueOnce([[{ pending_count: 0, active_since: null }]] as any);
+        jest.spyOn(KeyRingService, 'rotate').mockRejectedValue(new Error('Database error'));
+
+        await expect(KeyRingService.processSchedule()).rejects.toThrow('Database error');
+
+        expect(mockConnection.execute).toHaveBeenLastCalledWith('SELECT RELEASE_LOCK(?)', [KeyRingService.ROTATION_LOCK]);
+        expect(mockConnection.release).toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('rotate', () => {
+    it('should store a pending key that activates after the delay', async () => {
+      mockJwtUtils.getAlgorithm.mockReturnValue('HS256');
+      mockEncryptionUtils.encrypt.mockReturnValue('encrypted_key');
+      mockPool.execute.mockResolvedValueOnce([{ insertId: 2 }] as any);
+      jest.spyOn(KeyRingService, 'promote');
+      jest.spyOn(KeyRingService, 'loadKeyRing').mockResolvedValue();
+      jest.spyOn(KeyRingService, 'getKeyById').mockResolvedValue(keyInfo as any);
+
+      const result = await KeyRingService.rotate(600);
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO jwt_signing_keys'),
+        [expect.any(String), 'HS256', 'encrypted_key', null, expect.any(Date)]
+      );
+      expect(KeyRingService.promote).not.toHaveBeenCalled();
+      expect(KeyRingService.loadKeyRing).toHaveBeenCalled();
+      expect(result).toEqual(keyInfo);
+    });
+
+    it('should promote the key right away when the delay is zero', async () => {
+      mockJwtUtils.getAlgorithm.mockReturnValue('HS256');
+      mockEncryptionUtils.encrypt.mockReturnValue('encrypted_key');
+      mockPool.execute.mockResolvedValueOnce([{ insertId: 2 }] as any);
+      jest.spyOn(KeyRingService, 'promote').mockResolvedValue(true);
+      jest.spyOn(KeyRingService, 'loadKeyRing').mockResolvedValue();
+      jest.spyOn(KeyRingService, 'getKeyById').mockResolvedValue(keyInfo as any);
+
+      await KeyRingService.rotate(0);
+
+      expect(KeyRingService.promote).toHaveBeenCalledWith(2);
+    });
+
+    it('should store the public key for asymmetric algorithms', async () => {
+      const actualUtils = jest.requireActual('../../src/utils');
+      mockJwtUtils.getAlgorithm.mockReturnValue('ES256');
+      mockJwtUtils.createSigningKey.mockImplementation(actualUtils.JwtUtils.createSigningKey.bind(actualUtils.JwtUtils));
+      mockEncryptionUtils.encrypt.mockReturnValue('encrypted_key');
+      mockPool.execute.mockResolvedValueOnce([{ insertId: 2 }] as any);
+      jest.spyOn(KeyRingService, 'loadKeyRing').mockResolvedValue();
+      jest.spyOn(KeyRingService, 'getKeyById').mockResolvedValue(keyInfo as any);
+
+      await KeyRingService.rotate(600);
+
+      expect(mockEncryptionUtils.encrypt).toHaveBeenCalledWith(expect.stringContaining('BEGIN PRIVATE KEY'));
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.any(String),
+        [expect.any(String), 'ES256', 'encrypted_key', expect.stringContaining('BEGIN PUBLIC KEY'), expect.any(Date)]
+      );
+    });
+  });
+
+  describe('listKeys', () => {
+    it('should never select private key material', async () => {
+      mockPool.execute.mockResolvedValue([[keyInfo]] as any);
+
+      const result = await KeyRingService.listKeys();
+
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.not.stringContaining('private_key'));
+      expect(result).toEqual([keyInfo]);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+jest.mock('../../src/utils');
+
+import { KnownDeviceService } from '../../src/services/knownDeviceService';
+import { PasswordUtils, UserAgentUtils } from '../../src/utils';
+import { pool, redisClient } from '../../src/config/database';
+
+const mockPool = pool as jest.Mocked<typeof pool>;
+const mockRedis = redisClient as jest.Mocked<typeof redisClient>;
+const mockPasswordUtils = PasswordUtils as jest.Mocked<typeof PasswordUtils>;
+const mockUserAgentUtils = UserAgentUtils as jest.Mocked<typeof UserAgentUtils>;
+
+describe('KnownDeviceService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUserAgentUtils.parse.mockReturnValue({ browser: 'Chrome', os: 'Windows', device: 'desktop' });
+    mockPasswordUtils.hashToken.mockImplementation(value => `hash(${value})`);
+  });
+
+  describe('fingerprint', () => {
+    it('should combine the device with the IPv4 /16 network', () => {
+      expect(KnownDeviceService.fingerprint('ua', '203.0.113.10')).toBe('hash(Chrome|Windows|desktop|203.0)');
+      expect(KnownDeviceService.fingerprint('ua', '::ffff:203.0.200.1')).toBe('hash(Chrome|Windows|desktop|203.0)');
+    });
+
+    it('should use the /48 of IPv6 addresses', () => {
+      expect(KnownDeviceService.fingerprint('ua', '2001:DB8:85A3:1:2:3:4:5')).toBe('hash(Chrome|Windows|desktop|2001:db8:85a3)');
+    });
+
+    it('should tolerate a missing IP address', () => {
+      expect(KnownDeviceService.fingerprint('ua')).toBe('hash(Chrome|Windows|desktop|)');
+    });
+  });
+
+  describe('recordLogin', () => {
+    it('should report a new device when the account has others', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([{ affectedRows: 1, insertId: 5 }] as any)
+        .mockResolvedValueOnce([[{ count: 2 }]] as any);
+
+      const result = await KnownDeviceService.recordLogin(1, 'ua', '203.0.113.10');
+
+      expect(mockPool.execute).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('ON DUPLICATE KEY UPDATE'),
+        [1, 'hash(Chrome|Windows|desktop|203.0)', 'ua', '203.0.113.10']
+      );
+      expect(result).toBe(5);
+    });
+
+    it('should not report the first device of an account', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([{ affectedRows: 1, insertId: 5 }] as any)
+        .mockResolvedValueOnce([[{ count: 1 }]] as any);
+
+      const result = await KnownDeviceService.recordLogin(1, 'ua', '203.0.113.10');
+
+      expect(result).toBeNull();
+    });
+
+    it('should not report a known device', async () => {
+      mockPool.execute.mockResolvedValueOnce([{ affectedRows: 2, insertId: 5 }] as any);
+
+      const result = await KnownDeviceService.recordLogin(1, 'ua', '203.0.113.10');
+
+      expect(mockPool.execute).toHaveBeenCalledTimes(1);
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('forget', () => {
+    it('should delete the device of the account', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await KnownDeviceService.forget(1, 5);
+
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM known_devices'), [5, 1]);
+      expect(result).toBe(true);
+    });
+  });
+
+  describe('alert tokens', () => {
+    it('should store the alert under the token hash', async () => {
+      mockPasswordUtils.generateSecureToken.mockReturnValue('alert-token');
+
+      const token = await KnownDeviceService.createAlertToken(1, 5);
+
+      expect(token).toBe('alert-token');
+      expect(mockRedis.setEx).toHaveBeenCalledWith(
+        'device_alert:hash(alert-token)',
+        KnownDeviceService.ALERT_TOKEN_TTL_SECONDS,
+        JSON.stringify({ accountId: 1, deviceId: 5 })
+      );
+    });
+
+    it('should consume a token once', async () => {
+      mockRedis.get.mockResolvedValue(JSON.stringify({ accountId: 1, deviceId: 5 }));
+      mockRedis.del.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      await expect(KnownDeviceService.consumeAlertToken('alert-token')).resolves.toEqual({ accountId: 1, deviceId: 5 });
+      await expect(KnownDeviceService.consumeAlertToken('alert-token')).resolves.toBeNull();
+      expect(mockRedis.del).toHaveBeenCalledWith('device_alert:hash(alert-token)');
+    });
+
+    it('should reject an unknown token', async () => {
+      mockRedis.get.mockResolvedValue(null);
+
+      await expect(KnownDeviceService.consumeAlertToken('unknown')).resolves.toBeNull();
+      expect(mockRedis.del).not.toHaveBeenCalled();
+    });
+  });
+});
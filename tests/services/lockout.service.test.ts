@@ -0,0 +1,133 @@
+jest.mock('../../src/utils');
+
+import { LockoutService } from '../../src/services/lockoutService';
+import { DateUtils } from '../../src/utils';
+import { pool, redisClient } from '../../src/config/database';
+
+const mockPool = pool as jest.Mocked<typeof pool>;
+const mockRedis = redisClient as jest.Mocked<typeof redisClient>;
+const mockDateUtils = DateUtils as jest.Mocked<typeof DateUtils>;
+
+describe('LockoutService', () => {
+  const mockAccount = {
+    id: 1,
+    email: 'test@example.com',
+    password: 'hashed_password',
+    is_verified: true,
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getLockedUntil', () => {
+    it('should return the end of an active lock', () => {
+      const lockedUntil = new Date(Date.now() + 60000);
+
+      expect(LockoutService.getLockedUntil({ ...mockAccount, locked_until: lockedUntil })).toEqual(lockedUntil);
+    });
+
+    it('should ignore an expired lock', () => {
+      expect(LockoutService.getLockedUntil({ ...mockAccount, locked_until: new Date(Date.now() - 60000) })).toBeNull();
+      expect(LockoutService.getLockedUntil(mockAccount)).toBeNull();
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should count failures per account below the limit', async () => {
+      mockRedis.incr.mockResolvedValue(4);
+
+      const result = await LockoutService.recordFailure(mockAccount);
+
+      expect(mockRedis.incr).toHaveBeenCalledWith('login_failures:account:1');
+      expect(mockRedis.expire).toHaveBeenCalledWith('login_failures:account:1', 3600);
+      expect(mockRedis.get).not.toHaveBeenCalled();
+      expect(mockPool.execute).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should lock the account when the limit is reached', async () => {
+      const lockedUntil = new Date('2024-01-01T00:15:00Z');
+      mockRedis.incr.mockResolvedValue(LockoutService.MAX_FAILED_ATTEMPTS);
+      mockDateUtils.addMinutes.mockReturnValue(lockedUntil);
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await LockoutService.recordFailure(mockAccount);
+
+      expect(mockRedis.del).toHaveBeenCalledWith('login_failures:account:1');
+      expect(mockDateUtils.addMinutes).toHaveBeenCalledWith(expect.any(Date), 15);
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining('lockout_count = lockout_count + 1'), [lockedUntil, 1]);
+      expect(result).toEqual(lockedUntil);
+    });
+
+    it('should lock longer for each lock in a row', async () => {
+      mockRedis.incr.mockResolvedValue(LockoutService.MAX_FAILED_ATTEMPTS);
+      mockDateUtils.addMinutes.mockReturnValue(new Date());
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      await LockoutService.recordFailure({ ...mockAccount, lockout_count: 2 });
+      expect(mockDateUtils.addMinutes).toHaveBeenLastCalledWith(expect.any(Date), 240);
+
+      await LockoutService.recordFailure({ ...mockAccount, lockout_count: 10 });
+      expect(mockDateUtils.addMinutes).toHaveBeenLastCalledWith(expect.any(Date), 1440);
+    });
+
+    it('should not report a lock another request already set', async () => {
+      mockRedis.incr.mockResolvedValue(LockoutService.MAX_FAILED_ATTEMPTS);
+      mockDateUtils.addMinutes.mockReturnValue(new Date());
+      mockPool.execute.mockResolvedValue([{ affectedRows: 0 }] as any);
+
+      expect(await LockoutService.recordFailure(mockAccount)).toBeNull();
+    });
+  });
+
+  describe('reset', () => {
+    it('should clear the failures and the escalation', async () => {
+      await LockoutService.reset({ ...mockAccount, lockout_count: 2 });
+
+      expect(mockRedis.del).toHaveBeenCalledWith('login_failures:account:1');
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining('lockout_count = 0'), [1]);
+    });
+
+    it('should skip the update for accounts that were never locked', async () => {
+      await LockoutService.reset({ ...mockAccount, lockout_count: 0, locked_until: null });
+
+      expect(mockPool.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlock', () => {
+    it('should lift an active lock', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await LockoutService.unlock(1);
+
+      expect(mockRedis.del).toHaveBeenCalledWith('login_failures:account:1');
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining('locked_until > NOW()'), [1]);
+      expect(result).toBe(true);
+    });
+
+    it('should return false when the account is not locked', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 0 }] as any);
+
+      expect(await LockoutService.unlock(1)).toBe(false);
+    });
+  });
+
+  describe('getLockedAccounts', () => {
+    it('should page through accounts with an active lock', async () => {
+      const rows = [{ id: 1, email: 'test@example.com', locked_until: new Date(), lockout_count: 1 }];
+      mockPool.execute
+        .mockResolvedValueOnce([[{ total: 11 }]] as any)
+        .mockResolvedValueOnce([rows] as any);
+
+      const result = await LockoutService.getLockedAccounts(2, 10);
+
+      expect(mockPool.execute).toHaveBeenLastCalledWith(expect.stringContaining('WHERE locked_until > NOW()'), [10, 10]);
+      expect(result).toEqual({ accounts: rows, total: 11, page: 2, limit: 10, totalPages: 2 });
+    });
+  });
+});
@@ -0,0 +1,934 @@
+// Mock all dependencies first
+jest.mock('../../src/services/accountService');
+jest.mock('../../src/services/authService');
+jest.mock('../../src/services/tokenRevocationService');
+jest.mock('../../src/services/oidcService');
+jest.mock('../../src/utils');
+
+import crypto from 'crypto';
+import { OAuthService, OAuthError } from '../../src/services/oauthService';
+import { AccountService } from '../../src/services/accountService';
+import { AuthService } from '../../src/services/authService';
+import { TokenRevocationService } from '../../src/services/tokenRevocationService';
+import { OidcService } from '../../src/services/oidcService';
+import { PasswordUtils, DateUtils, JwtUtils } from '../../src/utils';
+import { pool } from '../../src/config/database';
+import { OAuthClient, OAuthClientRecord, OAuthAuthorizationCode } from '../../src/types';
+
+// Type the mocks
+const mockPool = pool as jest.Mocked<typeof pool>;
+const mockAccountService = AccountService as jest.Mocked<typeof AccountService>;
+const mockAuthService = AuthService as jest.Mocked<typeof AuthService>;
+const mockTokenRevocationService = TokenRevocationService as jest.Mocked<typeof TokenRevocationService>;
+const mockOidcService = OidcService as jest.Mocked<typeof OidcService>;
+const mockPasswordUtils = PasswordUtils as jest.Mocked<typeof PasswordUtils>;
+const mockDateUtils = DateUtils as jest.Mocked<typeof DateUtils>;
+const mockJwtUtils = JwtUtils as jest.Mocked<typeof JwtUtils>;
+
+describe('OAuthService', () => {
+  const codeVerifier = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk';
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  const mockClient: OAuthClient = {
+    id: 1,
+    client_id: 'client_1',
+    client_type: 'public',
+    name: 'Mobile App',
+    redirect_uris: ['https://app.example.com/callback'],
+    scopes: ['profile', 'email'],
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  const mockServiceClient: OAuthClientRecord = {
+    id: 2,
+    client_id: 'service_1',
+    client_type: 'confidential',
+    client_secret_hash: 'hashed_secret',
+    name: 'Billing Service',
+    redirect_uris: [],
+    scopes: ['account:read', 'grant:read', 'profile'],
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  const mockCode: OAuthAuthorizationCode = {
+    id: 7,
+    code_hash: 'hashed_code',
+    client_id: 'client_1',
+    account_id: 1,
+    redirect_uri: 'https://app.example.com/callback',
+    scope: 'profile',
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+    expires_at: new Date(Date.now() + 60000),
+    is_used: false,
+    created_at: new Date()
+  };
+
+  const mockTokens = {
+    accessToken: 'access_token',
+    refreshToken: 'refresh_token',
+    expiresIn: 900
+  };
+
+  const authorizeRequest = {
+    response_type: 'code',
+    client_id: 'client_1',
+    redirect_uri: 'https://app.example.com/callback',
+    state: 'xyz',
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256'
+  };
+
+  const expectOAuthError = async (promise: Promise<unknown>, code: string, redirectable?: boolean) => {
+    const error = await promise.then(() => null, (caught: unknown) => caught);
+    expect(error).toBeInstanceOf(OAuthError);
+    expect((error as OAuthError).code).toBe(code);
+    if (redirectable !== undefined) {
+      expect((error as OAuthError).redirectable).toBe(redirectable);
+    }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPool.execute.mockReset();
+    jest.restoreAllMocks();
+  });
+
+  describe('createClient', () => {
+    it('should store redirect URIs and scopes as JSON', async () => {
+      mockPool.execute.mockResolvedValueOnce([{ insertId: 1 }] as any);
+      jest.spyOn(OAuthService, 'findClientById').mockResolvedValue(mockClient);
+
+      const result = await OAuthService.createClient({
+        name: 'Mobile App',
+        redirect_uris: ['https://app.example.com/callback']
+      }, 1);
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO oauth_clients'),
+        [expect.any(String), 'public', null, 'Mobile App', '["https://app.example.com/callback"]', '[]', 1]
+      );
+      expect(result).toEqual(mockClient);
+    });
+
+    it('should store a hashed secret for a confidential client and return it once', async () => {
+      mockPasswordUtils.generateSecureToken.mockReturnValue('plain_secret');
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_secret');
+      mockPool.execute
+        .mockResolvedValueOnce([[{ name: 'view_accounts', scope: 'account:read' }]] as any)
+        .mockResolvedValueOnce([{ insertId: 2 }] as any);
+      jest.spyOn(OAuthService, 'findClientById').mockResolvedValue(mockServiceClient);
+
+      const result = await OAuthService.createClient({
+        name: 'Billing Service',
+        client_type: 'confidential',
+        redirect_uris: [],
+        scopes: ['account:read']
+      });
+
+      expect(mockPool.execute).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('FROM permissions'),
+        ['account:read']
+      );
+      expect(mockPool.execute).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining('INSERT INTO oauth_clients'),
+        [expect.any(String), 'confidential', 'hashed_secret', 'Billing Service', '[]', '["account:read"]', null]
+      );
+      expect(result.client_secret).toBe('plain_secret');
+    });
+
+    it('should reject a permission scope that matches no permission', async () => {
+      mockPool.execute.mockResolvedValueOnce([[]] as any);
+
+      await expectOAuthError(
+        OAuthService.createClient({ name: 'Billing Service', client_type: 'confidential', redirect_uris: [], scopes: ['account:nuke'] }),
+        'invalid_scope'
+      );
+      expect(mockPool.execute).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('rotateClientSecret', () => {
+    it('should replace the secret hash and revoke the client access tokens', async () => {
+      jest.spyOn(OAuthService, 'findClientById').mockResolvedValue(mockServiceClient);
+      mockPasswordUtils.generateSecureToken.mockReturnValue('new_secret');
+      mockPasswordUtils.hashToken.mockReturnValue('new_hash');
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await OAuthService.rotateClientSecret('service_1');
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('SET client_secret_hash = ?'),
+        ['new_hash', 'service_1']
+      );
+      expect(mockTokenRevocationService.revokeAllClientAccessTokens).toHaveBeenCalledWith('service_1');
+      expect(result!.client_secret).toBe('new_secret');
+    });
+
+    it('should refuse public clients', async () => {
+      jest.spyOn(OAuthService, 'findClientById').mockResolvedValue(mockClient);
+
+      await expectOAuthError(OAuthService.rotateClientSecret('client_1'), 'invalid_request');
+      expect(mockPool.execute).not.toHaveBeenCalled();
+    });
+
+    it('should return null for an unknown client', async () => {
+      jest.spyOn(OAuthService, 'findClientById').mockResolvedValue(null);
+
+      expect(await OAuthService.rotateClientSecret('unknown')).toBeNull();
+    });
+  });
+
+  describe('deactivateClient', () => {
+    it('should deactivate the client and revoke its refresh tokens', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await OAuthService.deactivateClient('client_1');
+
+      expect(mockPool.execute).toHaveBeenLastCalledWith(
+        'UPDATE refresh_tokens SET is_revoked = 1 WHERE client_id = ?',
+        ['client_1']
+      );
+      expect(mockTokenRevocationService.revokeAllClientAccessTokens).toHaveBeenCalledWith('client_1');
+      expect(result).toBe(true);
+    });
+
+    it('should return false for an unknown client', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 0 }] as any);
+
+      const result = await OAuthService.deactivateClient('unknown');
+
+      expect(mockPool.execute).toHaveBeenCalledTimes(1);
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('validateAuthorizationRequest', () => {
+    beforeEach(() => {
+      jest.spyOn(OAuthService, 'findClientById').mockResolvedValue(mockClient);
+    });
+
+    it('should default to every scope registered for the client', async () => {
+      const result = await OAuthService.validateAuthorizationRequest(authorizeRequest);
+
+      expect(result).toEqual({
+        client: mockClient,
+        redirectUri: 'https://app.example.com/callback',
+        scopes: ['profile', 'email'],
+        state: 'xyz',
+        codeChallenge,
+        nonce: undefined
+      });
+    });
+
+    it('should keep the requested scopes when they are allowed', async () => {
+      const result = await OAuthService.validateAuthorizationRequest({ ...authorizeRequest, scope: 'email' });
+
+      expect(result.scopes).toEqual(['email']);
+    });
+
+    it('should reject an unknown client without redirecting', async () => {
+      jest.spyOn(OAuthService, 'findClientById').mockResolvedValue(null);
+
+      await expectOAuthError(OAuthService.validateAuthorizationRequest(authorizeRequest), 'invalid_client', false);
+    });
+
+    it('should reject a redirect URI that is not an exact match without redirecting', async () => {
+      await expectOAuthError(
+        OAuthService.validateAuthorizationRequest({
+          ...authorizeRequest,
+          redirect_uri: 'https://app.example.com/callback/../evil'
+        }),
+        'invalid_request',
+        false
+      );
+    });
+
+    it('should redirect unsupported response types back to the client', async () => {
+      await expectOAuthError(
+        OAuthService.validateAuthorizationRequest({ ...authorizeRequest, response_type: 'token' }),
+        'unsupported_response_type',
+        true
+      );
+    });
+
+    it('should require a PKCE challenge', async () => {
+      await expectOAuthError(
+        OAuthService.validateAuthorizationRequest({ ...authorizeRequest, code_challenge: undefined }),
+        'invalid_request',
+        true
+      );
+    });
+
+    it('should refuse the openid scope while OpenID Connect is disabled', async () => {
+      jest.spyOn(OAuthService, 'findClientById').mockResolvedValue({ ...mockClient, scopes: ['openid', 'profile'] });
+      mockOidcService.isOpenIdRequest.mockImplementation(scopes => scopes.includes('openid'));
+      mockOidcService.isEnabled.mockReturnValue(false);
+
+      await expectOAuthError(
+        OAuthService.validateAuthorizationRequest({ ...authorizeRequest, scope: 'openid profile' }),
+        'invalid_scope',
+        true
+      );
+    });
+
+    it('should reject the plain PKCE method', async () => {
+      await expectOAuthError(
+        OAuthService.validateAuthorizationRequest({ ...authorizeRequest, code_challenge_method: 'plain' }),
+        'invalid_request',
+        true
+      );
+    });
+
+    it('should reject scopes the client was not registered for', async () => {
+      await expectOAuthError(
+        OAuthService.validateAuthorizationRequest({ ...authorizeRequest, scope: 'profile admin' }),
+        'invalid_scope',
+        true
+      );
+    });
+  });
+
+  describe('createAuthorizationCode', () => {
+    it('should store a hashed code with the PKCE challenge', async () => {
+      const expiresAt = new Date();
+      mockPasswordUtils.generateSecureToken.mockReturnValue('plain_code');
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_code');
+      mockDateUtils.addMinutes.mockReturnValue(expiresAt);
+      mockPool.execute.mockResolvedValue([{ insertId: 7 }] as any);
+
+      const code = await OAuthService.createAuthorizationCode(1, {
+        client: mockClient,
+        redirectUri: 'https://app.example.com/callback',
+        scopes: ['profile', 'email'],
+        codeChallenge
+      });
+
+      expect(mockDateUtils.addMinutes).toHaveBeenCalledWith(expect.any(Date), 5);
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO oauth_authorization_codes'),
+        ['hashed_code', 'client_1', 1, 'https://app.example.com/callback', 'profile email', codeChallenge, null, expiresAt]
+      );
+      expect(code).toBe('plain_code');
+    });
+
+    it('should keep the OpenID Connect nonce for the ID token', async () => {
+      mockPool.execute.mockResolvedValue([{ insertId: 7 }] as any);
+
+      await OAuthService.createAuthorizationCode(1, {
+        client: mockClient,
+        redirectUri: 'https://app.example.com/callback',
+        scopes: ['openid'],
+        codeChallenge,
+        nonce: 'n-0S6_WzA2Mj'
+      });
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('nonce'),
+        expect.arrayContaining(['n-0S6_WzA2Mj'])
+      );
+    });
+  });
+
+  describe('buildRedirectUrl', () => {
+    it('should append parameters and keep the existing query', () => {
+      const url = OAuthService.buildRedirectUrl('https://app.example.com/callback?tenant=1', {
+        code: 'abc',
+        state: undefined
+      });
+
+      expect(url).toBe('https://app.example.com/callback?tenant=1&code=abc');
+    });
+  });
+
+  describe('consent', () => {
+    it('should report consent when every requested scope was granted', async () => {
+      mockPool.execute.mockResolvedValue([[{ scope: 'profile email' }]] as any);
+
+      const result = await OAuthService.hasConsent(1, 'client_1', ['email']);
+
+      expect(result).toBe(true);
+    });
+
+    it('should ask again when a new scope is requested', async () => {
+      mockPool.execute.mockResolvedValue([[{ scope: 'profile' }]] as any);
+
+      const result = await OAuthService.hasConsent(1, 'client_1', ['profile', 'email']);
+
+      expect(result).toBe(false);
+    });
+
+    it('should merge newly approved scopes into the existing consent', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[{ scope: 'profile' }]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+
+      await OAuthService.saveConsent(1, 'client_1', ['email']);
+
+      expect(mockPool.execute).toHaveBeenLastCalledWith(
+        expect.stringContaining('ON DUPLICATE KEY UPDATE'),
+        [1, 'client_1', 'profile email']
+      );
+    });
+
+    it('should revoke the client refresh tokens along with the consent', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await OAuthService.revokeConsent(1, 'client_1');
+
+      expect(mockAuthService.revokeClientRefreshTokens).toHaveBeenCalledWith(1, 'client_1');
+      expect(result).toBe(true);
+    });
+
+    it('should return false when there is no consent to revoke', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 0 }] as any);
+
+      const result = await OAuthService.revokeConsent(1, 'client_1');
+
+      expect(mockAuthService.revokeClientRefreshTokens).not.toHaveBeenCalled();
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('exchangeAuthorizationCode', () => {
+    const tokenRequest = {
+      grant_type: 'authorization_code',
+      client_id: 'client_1',
+      code: 'plain_code',
+      redirect_uri: 'https://app.example.com/callback',
+      code_verifier: codeVerifier
+    };
+
+    beforeEach(() => {
+      jest.spyOn(OAuthService, 'findClientRecord').mockResolvedValue(mockClient);
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_code');
+    });
+
+    it('should issue client-bound tokens for a valid code and verifier', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[mockCode]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+      mockAccountService.findById.mockResolvedValue({ id: 1, email: 'test@example.com' } as any);
+      mockAuthService.issueTokens.mockResolvedValue(mockTokens);
+
+      const result = await OAuthService.exchangeAuthorizationCode(tokenRequest, 'device', '10.0.0.1');
+
+      expect(mockPool.execute).toHaveBeenNthCalledWith(
+        2,
+        'UPDATE oauth_authorization_codes SET is_used = 1 WHERE id = ? AND is_used = 0',
+        [7]
+      );
+      expect(mockAuthService.issueTokens).toHaveBeenCalledWith(1, 'test@example.com', 'oauth', 'device', '10.0.0.1', {
+        clientId: 'client_1',
+        scope: 'profile'
+      });
+      expect(result).toEqual({
+        access_token: 'access_token',
+        token_type: 'Bearer',
+        expires_in: 900,
+        refresh_token: 'refresh_token',
+        scope: 'profile'
+      });
+    });
+
+    it('should reject an unknown client', async () => {
+      jest.spyOn(OAuthService, 'findClientRecord').mockResolvedValue(null);
+
+      const error = await OAuthService.exchangeAuthorizationCode(tokenRequest).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(OAuthError);
+      expect(error.code).toBe('invalid_client');
+      expect(error.statusCode).toBe(401);
+    });
+
+    it('should require the code verifier', async () => {
+      await expectOAuthError(
+        OAuthService.exchangeAuthorizationCode({ ...tokenRequest, code_verifier: undefined }),
+        'invalid_request'
+      );
+    });
+
+    it('should add an ID token when the openid scope was granted', async () => {
+      const account = { id: 1, email: 'test@example.com' };
+      mockPool.execute
+        .mockResolvedValueOnce([[{ ...mockCode, scope: 'openid email', nonce: 'n-0S6_WzA2Mj' }]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+      mockAccountService.findById.mockResolvedValue(account as any);
+      mockAuthService.issueTokens.mockResolvedValue(mockTokens);
+      mockOidcService.isOpenIdRequest.mockImplementation(scopes => scopes.includes('openid'));
+      mockOidcService.createIdToken.mockReturnValue('id_token');
+
+      const result = await OAuthService.exchangeAuthorizationCode(tokenRequest);
+
+      expect(mockOidcService.createIdToken).toHaveBeenCalledWith(account, 'client_1', ['openid', 'email'], 'n-0S6_WzA2Mj');
+      expect(result.id_token).toBe('id_token');
+      expect(result.scope).toBe('openid email');
+    });
+
+    it('should reject a code issued to another client', async () => {
+      mockPool.execute.mockResolvedValueOnce([[{ ...mockCode, client_id: 'client_2' }]] as any);
+
+      await expectOAuthError(OAuthService.exchangeAuthorizationCode(tokenRequest), 'invalid_grant');
+    });
+
+    it('should reject a redirect URI that differs from the authorization request', async () => {
+      mockPool.execute.mockResolvedValueOnce([[mockCode]] as any);
+
+      await expectOAuthError(
+        OAuthService.exchangeAuthorizationCode({ ...tokenRequest, redirect_uri: 'https://app.example.com/other' }),
+        'invalid_grant'
+      );
+    });
+
+    it('should reject a wrong code verifier', async () => {
+      mockPool.execute.mockResolvedValueOnce([[mockCode]] as any);
+
+      await expectOAuthError(
+        OAuthService.exchangeAuthorizationCode({ ...tokenRequest, code_verifier: 'x'.repeat(43) }),
+        'invalid_grant'
+      );
+      expect(mockAuthService.issueTokens).not.toHaveBeenCalled();
+    });
+
+    it('should revoke tokens issued from a code that is replayed', async () => {
+      mockPool.execute.mockResolvedValueOnce([[{ ...mockCode, is_used: true }]] as any);
+      mockAuthService.revokeClientRefreshTokens.mockResolvedValue(1);
+
+      await expectOAuthError(OAuthService.exchangeAuthorizationCode(tokenRequest), 'invalid_grant');
+
+      expect(mockAuthService.revokeClientRefreshTokens).toHaveBeenCalledWith(1, 'client_1');
+      expect(mockAuthService.recordSecurityEvent).toHaveBeenCalledWith(1, 'oauth_code_reuse', undefined, {
+        client_id: 'client_1',
+        authorization_code_id: 7,
+        revoked_tokens: 1
+      });
+      expect(mockAuthService.issueTokens).not.toHaveBeenCalled();
+    });
+
+    it('should treat losing the race to consume the code as a replay', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[mockCode]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 0 }] as any);
+
+      await expectOAuthError(OAuthService.exchangeAuthorizationCode(tokenRequest), 'invalid_grant');
+
+      expect(mockAuthService.revokeClientRefreshTokens).toHaveBeenCalledWith(1, 'client_1');
+      expect(mockAuthService.issueTokens).not.toHaveBeenCalled();
+    });
+
+    it('should reject a secret sent by a public client', async () => {
+      await expectOAuthError(
+        OAuthService.exchangeAuthorizationCode({ ...tokenRequest, client_secret: 'guess' }),
+        'invalid_client'
+      );
+      expect(mockPool.execute).not.toHaveBeenCalled();
+    });
+
+    it('should require the secret of a confidential client', async () => {
+      jest.spyOn(OAuthService, 'findClientRecord').mockResolvedValue({ ...mockServiceClient, client_id: 'client_1' });
+
+      await expectOAuthError(OAuthService.exchangeAuthorizationCode(tokenRequest), 'invalid_client');
+      await expectOAuthError(
+        OAuthService.exchangeAuthorizationCode({ ...tokenRequest, client_secret: 'wrong' }),
+        'invalid_client'
+      );
+      expect(mockPool.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshAccessToken', () => {
+    const refreshRequest = {
+      grant_type: 'refresh_token',
+      client_id: 'client_1',
+      refresh_token: 'refresh_token'
+    };
+
+    const tokenRecord = {
+      id: 1,
+      account_id: 1,
+      family_id: 'family_1',
+      token_hash: 'hashed_token',
+      expires_at: new Date(),
+      is_revoked: false,
+      client_id: 'client_1',
+      scope: 'profile email',
+      created_at: new Date()
+    };
+
+    beforeEach(() => {
+      jest.spyOn(OAuthService, 'findClientRecord').mockResolvedValue(mockClient);
+    });
+
+    it('should rotate the refresh token through AuthService', async () => {
+      mockAuthService.findRefreshToken.mockResolvedValue(tokenRecord);
+      mockAuthService.refreshTokens.mockResolvedValue(mockTokens);
+
+      const result = await OAuthService.refreshAccessToken(refreshRequest, '10.0.0.1');
+
+      expect(mockAuthService.refreshTokens).toHaveBeenCalledWith('refresh_token', '10.0.0.1');
+      expect(result.scope).toBe('profile email');
+      expect(result).not.toHaveProperty('id_token');
+    });
+
+    it('should issue a new ID token for an openid grant', async () => {
+      const account = { id: 1, email: 'test@example.com' };
+      mockAuthService.findRefreshToken.mockResolvedValue({ ...tokenRecord, scope: 'openid profile' });
+      mockAuthService.refreshTokens.mockResolvedValue(mockTokens);
+      mockAccountService.findById.mockResolvedValue(account as any);
+      mockOidcService.isOpenIdRequest.mockImplementation(scopes => scopes.includes('openid'));
+      mockOidcService.createIdToken.mockReturnValue('id_token');
+
+      const result = await OAuthService.refreshAccessToken(refreshRequest);
+
+      expect(mockOidcService.createIdToken).toHaveBeenCalledWith(account, 'client_1', ['openid', 'profile']);
+      expect(result.id_token).toBe('id_token');
+    });
+
+    it('should reject a token issued to another client without rotating it', async () => {
+      mockAuthService.findRefreshToken.mockResolvedValue({ ...tokenRecord, client_id: 'client_2' });
+
+      await expectOAuthError(OAuthService.refreshAccessToken(refreshRequest), 'invalid_grant');
+
+      expect(mockAuthService.refreshTokens).not.toHaveBeenCalled();
+    });
+
+    it('should reject first-party refresh tokens', async () => {
+      mockAuthService.findRefreshToken.mockResolvedValue({ ...tokenRecord, client_id: undefined });
+
+      await expectOAuthError(OAuthService.refreshAccessToken(refreshRequest), 'invalid_grant');
+    });
+
+    it('should run reuse detection for unknown or rotated tokens', async () => {
+      mockAuthService.findRefreshToken.mockResolvedValue(null);
+
+      await expectOAuthError(OAuthService.refreshAccessToken(refreshRequest, '10.0.0.1'), 'invalid_grant');
+
+      expect(mockAuthService.detectRefreshTokenReuse).toHaveBeenCalledWith('refresh_token', '10.0.0.1');
+    });
+
+    it('should not widen the granted scope', async () => {
+      mockAuthService.findRefreshToken.mockResolvedValue(tokenRecord);
+
+      await expectOAuthError(
+        OAuthService.refreshAccessToken({ ...refreshRequest, scope: 'profile admin' }),
+        'invalid_scope'
+      );
+    });
+  });
+
+  describe('issueClientCredentialsToken', () => {
+    const credentialsRequest = {
+      grant_type: 'client_credentials',
+      client_id: 'service_1',
+      client_secret: 'plain_secret'
+    };
+
+    beforeEach(() => {
+      jest.spyOn(OAuthService, 'findClientRecord').mockResolvedValue(mockServiceClient);
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_secret');
+      mockJwtUtils.generateClientAccessToken.mockReturnValue({ accessToken: 'client_access_token', expiresIn: 900 });
+    });
+
+    it('should issue a token for every permission scope of the client', async () => {
+      mockPool.execute.mockResolvedValueOnce([[
+        { name: 'view_accounts', scope: 'account:read' },
+        { name: 'view_user_permissions', scope: 'grant:read' }
+      ]] as any);
+
+      const result = await OAuthService.issueClientCredentialsToken(credentialsRequest);
+
+      expect(mockPasswordUtils.hashToken).toHaveBeenCalledWith('plain_secret');
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining('FROM permissions'), ['account:read', 'grant:read']);
+      expect(mockJwtUtils.generateClientAccessToken).toHaveBeenCalledWith({
+        clientId: 'service_1',
+        scope: 'account:read grant:read',
+        permissions: ['view_accounts', 'view_user_permissions']
+      });
+      expect(result).toEqual({
+        access_token: 'client_access_token',
+        token_type: 'Bearer',
+        expires_in: 900,
+        scope: 'account:read grant:read'
+      });
+    });
+
+    it('should narrow the token to the requested scope', async () => {
+      mockPool.execute.mockResolvedValueOnce([[{ name: 'view_accounts', scope: 'account:read' }]] as any);
+
+      const result = await OAuthService.issueClientCredentialsToken({ ...credentialsRequest, scope: 'account:read' });
+
+      expect(result.scope).toBe('account:read');
+    });
+
+    it('should reject scopes the client was not registered for', async () => {
+      await expectOAuthError(
+        OAuthService.issueClientCredentialsToken({ ...credentialsRequest, scope: 'account:delete' }),
+        'invalid_scope'
+      );
+      await expectOAuthError(
+        OAuthService.issueClientCredentialsToken({ ...credentialsRequest, scope: 'profile' }),
+        'invalid_scope'
+      );
+      expect(mockJwtUtils.generateClientAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('should leave out permissions that were deactivated', async () => {
+      mockPool.execute.mockResolvedValueOnce([[{ name: 'view_accounts', scope: 'account:read' }]] as any);
+
+      const result = await OAuthService.issueClientCredentialsToken(credentialsRequest);
+
+      expect(result.scope).toBe('account:read');
+    });
+
+    it('should fail when none of the scopes maps to an active permission', async () => {
+      mockPool.execute.mockResolvedValueOnce([[]] as any);
+
+      await expectOAuthError(OAuthService.issueClientCredentialsToken(credentialsRequest), 'invalid_scope');
+    });
+
+    it('should reject a wrong secret', async () => {
+      mockPasswordUtils.hashToken.mockReturnValue('other_hash__');
+
+      const error = await OAuthService.issueClientCredentialsToken(credentialsRequest).catch(caught => caught);
+
+      expect(error.code).toBe('invalid_client');
+      expect(error.statusCode).toBe(401);
+    });
+
+    it('should not let public clients use the grant', async () => {
+      jest.spyOn(OAuthService, 'findClientRecord').mockResolvedValue(mockClient);
+
+      await expectOAuthError(
+        OAuthService.issueClientCredentialsToken({ ...credentialsRequest, client_secret: undefined }),
+        'unauthorized_client'
+      );
+    });
+  });
+
+  describe('introspectToken', () => {
+    const introspectionRequest = {
+      token: 'some_token',
+      client_id: 'service_1',
+      client_secret: 'plain_secret'
+    };
+
+    const refreshRecord = {
+      id: 1,
+      account_id: 1,
+      family_id: 'family_1',
+      token_hash: 'hashed_token',
+      expires_at: new Date('2030-01-08T00:00:00Z'),
+      is_revoked: false,
+      client_id: 'service_1',
+      scope: 'profile',
+      created_at: new Date('2030-01-01T00:00:00Z')
+    };
+
+    beforeEach(() => {
+      jest.spyOn(OAuthService, 'findClientRecord').mockResolvedValue(mockServiceClient);
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_secret');
+      (mockJwtUtils.isClientToken as unknown as jest.Mock).mockImplementation(payload => payload.accountId === undefined);
+    });
+
+    it('should describe an active user access token', async () => {
+      mockJwtUtils.verifyAccessToken.mockReturnValue({
+        accountId: 1,
+        email: 'test@example.com',
+        permissions: ['read_account'],
+        clientId: 'client_1',
+        scope: 'profile',
+        jti: 'jti_1',
+        iat: 1000,
+        exp: 1900
+      });
+      mockTokenRevocationService.isRevoked.mockResolvedValue(false);
+      mockAccountService.findById.mockResolvedValue({ id: 1, email: 'test@example.com' } as any);
+
+      const result = await OAuthService.introspectToken(introspectionRequest);
+
+      expect(result).toEqual({
+        active: true,
+        token_type: 'access_token',
+        client_id: 'client_1',
+        sub: '1',
+        account_id: 1,
+        email: 'test@example.com',
+        scope: 'profile',
+        permissions: ['read_account'],
+        exp: 1900,
+        iat: 1000,
+        jti: 'jti_1'
+      });
+    });
+
+    it('should describe a client credentials token without an account', async () => {
+      mockJwtUtils.verifyAccessToken.mockReturnValue({
+        clientId: 'service_2',
+        scope: 'account:read',
+        permissions: ['view_accounts'],
+        jti: 'jti_2',
+        iat: 1000,
+        exp: 1900
+      });
+      mockTokenRevocationService.isRevoked.mockResolvedValue(false);
+
+      const result = await OAuthService.introspectToken(introspectionRequest);
+
+      expect(result).toEqual(expect.objectContaining({ active: true, client_id: 'service_2', permissions: ['view_accounts'] }));
+      expect(result).not.toHaveProperty('sub');
+      expect(mockAccountService.findById).not.toHaveBeenCalled();
+    });
+
+    it('should report a revoked access token as inactive', async () => {
+      mockJwtUtils.verifyAccessToken.mockReturnValue({ accountId: 1, email: 'test@example.com', jti: 'jti_1' });
+      mockTokenRevocationService.isRevoked.mockResolvedValue(true);
+      mockAuthService.findRefreshToken.mockResolvedValue(null);
+
+      expect(await OAuthService.introspectToken(introspectionRequest)).toEqual({ active: false });
+    });
+
+    it('should report tokens of deactivated accounts as inactive', async () => {
+      mockJwtUtils.verifyAccessToken.mockReturnValue({ accountId: 1, email: 'test@example.com' });
+      mockTokenRevocationService.isRevoked.mockResolvedValue(false);
+      mockAccountService.findById.mockResolvedValue(null);
+      mockAuthService.findRefreshToken.mockResolvedValue(null);
+
+      expect(await OAuthService.introspectToken(introspectionRequest)).toEqual({ active: false });
+    });
+
+    it('should fall back to the refresh token lookup', async () => {
+      mockJwtUtils.verifyAccessToken.mockImplementation(() => {
+        throw new Error('invalid signature');
+      });
+      mockAuthService.findRefreshToken.mockResolvedValue(refreshRecord);
+      mockAccountService.getAccountWithPermissions.mockResolvedValue({
+        id: 1,
+        email: 'test@example.com',
+        permissions: ['read_account', 'delete_account'],
+        roles: ['user']
+      } as any);
+      mockAuthService.permissionsForGrant.mockResolvedValue(['read_account']);
+
+      const result = await OAuthService.introspectToken(introspectionRequest);
+
+      expect(mockAuthService.findRefreshToken).toHaveBeenCalledWith('some_token');
+      expect(mockAuthService.permissionsForGrant).toHaveBeenCalledWith(['read_account', 'delete_account'], {
+        clientId: 'service_1',
+        scope: 'profile'
+      });
+      expect(result).toEqual({
+        active: true,
+        token_type: 'refresh_token',
+        client_id: 'service_1',
+        sub: '1',
+        account_id: 1,
+        email: 'test@example.com',
+        scope: 'profile',
+        permissions: ['read_account'],
+        exp: Math.floor(refreshRecord.expires_at.getTime() / 1000),
+        iat: Math.floor(refreshRecord.created_at.getTime() / 1000)
+      });
+    });
+
+    it('should look up the refresh token first when hinted', async () => {
+      mockAuthService.findRefreshToken.mockResolvedValue(null);
+      mockJwtUtils.verifyAccessToken.mockImplementation(() => {
+        throw new Error('invalid signature');
+      });
+
+      await OAuthService.introspectToken({ ...introspectionRequest, token_type_hint: 'refresh_token' });
+
+      expect(mockAuthService.findRefreshToken.mock.invocationCallOrder[0])
+        .toBeLessThan(mockJwtUtils.verifyAccessToken.mock.invocationCallOrder[0]);
+    });
+
+    it('should hide refresh tokens of other clients', async () => {
+      mockJwtUtils.verifyAccessToken.mockImplementation(() => {
+        throw new Error('invalid signature');
+      });
+      mockAuthService.findRefreshToken.mockResolvedValue({ ...refreshRecord, client_id: 'client_1' });
+
+      expect(await OAuthService.introspectToken(introspectionRequest)).toEqual({ active: false });
+      expect(mockAccountService.getAccountWithPermissions).not.toHaveBeenCalled();
+    });
+
+    it('should only accept confidential clients', async () => {
+      jest.spyOn(OAuthService, 'findClientRecord').mockResolvedValue(mockClient);
+
+      const error = await OAuthService.introspectToken({ token: 'some_token', client_id: 'client_1' })
+        .catch(caught => caught);
+
+      expect(error.code).toBe('unauthorized_client');
+      expect(error.statusCode).toBe(401);
+    });
+
+    it('should require a token', async () => {
+      await expectOAuthError(OAuthService.introspectToken({ ...introspectionRequest, token: undefined }), 'invalid_request');
+    });
+  });
+
+  describe('revokeToken', () => {
+    const revocationRequest = {
+      token: 'some_token',
+      client_id: 'client_1'
+    };
+
+    beforeEach(() => {
+      jest.spyOn(OAuthService, 'findClientRecord').mockResolvedValue(mockClient);
+    });
+
+    it('should denylist an access token issued to the client', async () => {
+      const payload = { accountId: 1, email: 'test@example.com', clientId: 'client_1', jti: 'jti_1' };
+      mockJwtUtils.verifyAccessToken.mockReturnValue(payload);
+
+      await OAuthService.revokeToken(revocationRequest);
+
+      expect(mockTokenRevocationService.revokeAccessToken).toHaveBeenCalledWith(payload);
+      expect(mockAuthService.findRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the family of a refresh token issued to the client', async () => {
+      mockJwtUtils.verifyAccessToken.mockImplementation(() => {
+        throw new Error('invalid signature');
+      });
+      mockAuthService.findRefreshToken.mockResolvedValue({
+        id: 1,
+        account_id: 1,
+        family_id: 'family_1',
+        token_hash: 'hashed_token',
+        expires_at: new Date(),
+        is_revoked: false,
+        client_id: 'client_1',
+        created_at: new Date()
+      });
+
+      await OAuthService.revokeToken({ ...revocationRequest, token_type_hint: 'refresh_token' });
+
+      expect(mockAuthService.revokeRefreshTokenFamily).toHaveBeenCalledWith('family_1');
+      expect(mockJwtUtils.verifyAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('should ignore tokens issued to other clients', async () => {
+      mockJwtUtils.verifyAccessToken.mockReturnValue({ accountId: 1, email: 'test@example.com', clientId: 'client_2' });
+      mockAuthService.findRefreshToken.mockResolvedValue(null);
+
+      await expect(OAuthService.revokeToken(revocationRequest)).resolves.toBeUndefined();
+
+      expect(mockTokenRevocationService.revokeAccessToken).not.toHaveBeenCalled();
+      expect(mockAuthService.revokeRefreshTokenFamily).not.toHaveBeenCalled();
+    });
+
+    it('should authenticate the client', async () => {
+      const error = await OAuthService.revokeToken({ ...revocationRequest, client_secret: 'unexpected' })
+        .catch(caught => caught);
+
+      expect(error.code).toBe('invalid_client');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+// Mock all dependencies first
+jest.mock('../../src/services/accountService');
+jest.mock('../../src/utils');
+
+import { OidcService } from '../../src/services/oidcService';
+import { AccountService } from '../../src/services/accountService';
+import { JwtUtils } from '../../src/utils';
+import { Account } from '../../src/types';
+
+// Type the mocks
+const mockAccountService = AccountService as jest.Mocked<typeof AccountService>;
+const mockJwtUtils = JwtUtils as jest.Mocked<typeof JwtUtils>;
+
+describe('OidcService', () => {
+  const originalEnv = process.env;
+
+  const mockAccount: Account = {
+    id: 42,
+    email: 'test@example.com',
+    password: 'hashed_password',
+    first_name: 'John',
+    last_name: 'Doe',
+    is_verified: true,
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv, OIDC_ISSUER: 'https://auth.example.com/' };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('getIssuer', () => {
+    it('should drop the trailing slash', () => {
+      expect(OidcService.getIssuer()).toBe('https://auth.example.com');
+    });
+
+    it('should fall back to the local server', () => {
+      delete process.env.OIDC_ISSUER;
+      process.env.PORT = '4000';
+
+      expect(OidcService.getIssuer()).toBe('http://localhost:4000');
+    });
+  });
+
+  describe('buildClaims', () => {
+    it('should only release sub for the openid scope', () => {
+      expect(OidcService.buildClaims(mockAccount, ['openid'])).toEqual({ sub: '42' });
+    });
+
+    it('should release email claims for the email scope', () => {
+      expect(OidcService.buildClaims(mockAccount, ['openid', 'email'])).toEqual({
+        sub: '42',
+        email: 'test@example.com',
+        email_verified: true
+      });
+    });
+
+    it('should release the name for the profile scope', () => {
+      expect(OidcService.buildClaims(mockAccount, ['openid', 'profile'])).toEqual({ sub: '42', name: 'John Doe' });
+    });
+
+    it('should leave out an empty name', () => {
+      const account = { ...mockAccount, first_name: undefined, last_name: undefined };
+
+      expect(OidcService.buildClaims(account, ['openid', 'profile'])).toEqual({ sub: '42' });
+    });
+  });
+
+  describe('createIdToken', () => {
+    it('should sign the claims for the client with the nonce', () => {
+      mockJwtUtils.generateIdToken.mockReturnValue('id_token');
+
+      const result = OidcService.createIdToken(mockAccount, 'client_1', ['openid', 'email'], 'n-0S6_WzA2Mj');
+
+      expect(mockJwtUtils.generateIdToken).toHaveBeenCalledWith(
+        { sub: '42', email: 'test@example.com', email_verified: true, nonce: 'n-0S6_WzA2Mj' },
+        'client_1',
+        'https://auth.example.com'
+      );
+      expect(result).toBe('id_token');
+    });
+  });
+
+  describe('getUserInfo', () => {
+    it('should return the claims of the account', async () => {
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+
+      const result = await OidcService.getUserInfo(42, ['openid', 'profile']);
+
+      expect(mockAccountService.findById).toHaveBeenCalledWith(42);
+      expect(result).toEqual({ sub: '42', name: 'John Doe' });
+    });
+
+    it('should return null when the account is gone', async () => {
+      mockAccountService.findById.mockResolvedValue(null);
+
+      expect(await OidcService.getUserInfo(42, ['openid'])).toBeNull();
+    });
+  });
+
+  describe('isEnabled', () => {
+    it('should require an asymmetric signing key', () => {
+      mockJwtUtils.getSigningAlgorithm.mockReturnValue('HS256');
+      expect(OidcService.isEnabled()).toBe(false);
+
+      mockJwtUtils.getSigningAlgorithm.mockReturnValue('ES256');
+      expect(OidcService.isEnabled()).toBe(true);
+    });
+  });
+
+  describe('getDiscoveryDocument', () => {
+    it('should describe the endpoints under the issuer', () => {
+      mockJwtUtils.getSigningAlgorithm.mockReturnValue('RS256');
+      process.env.CLIENT_URL = 'https://login.example.com';
+
+      const document = OidcService.getDiscoveryDocument();
+
+      expect(document).toEqual(expect.objectContaining({
+        issuer: 'https://auth.example.com',
+        authorization_endpoint: 'https://login.example.com/oauth/authorize',
+        token_endpoint: 'https://auth.example.com/oauth/token',
+        userinfo_endpoint: 'https://auth.example.com/oauth/userinfo',
+        introspection_endpoint: 'https://auth.example.com/oauth/introspect',
+        revocation_endpoint: 'https://auth.example.com/oauth/revoke',
+        jwks_uri: 'https://auth.example.com/.well-known/jwks.json',
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256']
+      }));
+    });
+
+    it('should prefer a configured authorization endpoint', () => {
+      mockJwtUtils.getSigningAlgorithm.mockReturnValue('RS256');
+      process.env.OIDC_AUTHORIZATION_ENDPOINT = 'https://login.example.com/authorize';
+
+      expect(OidcService.getDiscoveryDocument().authorization_endpoint).toBe('https://login.example.com/authorize');
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { OtpService } from '../../src/services/otpService';
+import { redisClient } from '../../src/config/database';
+
+const mockRedisClient = redisClient as jest.Mocked<typeof redisClient>;
+
+describe('OtpService', () => {
+  let redisStore: Map<string, string>;
+
+  beforeEach(() => {
+    redisStore = new Map();
+    mockRedisClient.set.mockImplementation(async (key: any, value: any, options?: any) => {
+      if (options?.NX && redisStore.has(key)) return null;
+      redisStore.set(key, value);
+      return 'OK' as any;
+    });
+    mockRedisClient.setEx.mockImplementation(async (key: any, _ttl: any, value: any) => {
+      redisStore.set(key, value);
+      return 'OK' as any;
+    });
+    mockRedisClient.get.mockImplementation(async (key: any) => redisStore.get(key) ?? null);
+    mockRedisClient.del.mockImplementation(async (keys: any) =>
+      [keys].flat().filter((key: string) => redisStore.delete(key)).length as any
+    );
+    mockRedisClient.incr.mockImplementation(async (key: any) => {
+      const value = parseInt(redisStore.get(key) ?? '0') + 1;
+      redisStore.set(key, value.toString());
+      return value as any;
+    });
+  });
+
+  describe('issueCode', () => {
+    it('should store only the hash of a 6-digit code', async () => {
+      const code = await OtpService.issueCode(1, 'login');
+
+      expect(code).toMatch(/^\d{6}$/);
+      expect(mockRedisClient.setEx).toHaveBeenCalledWith(
+        'otp:login:1',
+        OtpService.CODE_TTL_SECONDS,
+        expect.not.stringContaining(`"${code}"`)
+      );
+    });
+
+    it('should refuse a new code within the resend interval', async () => {
+      await OtpService.issueCode(1, 'login');
+
+      expect(await OtpService.issueCode(1, 'login')).toBeNull();
+      expect(mockRedisClient.setEx).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep purposes apart', async () => {
+      await OtpService.issueCode(1, 'login');
+
+      expect(await OtpService.issueCode(1, 'step_up')).toMatch(/^\d{6}$/);
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should accept the code once', async () => {
+      const code = await OtpService.issueCode(1, 'step_up') as string;
+
+      expect(await OtpService.verifyCode(1, 'step_up', code)).toBe(true);
+      expect(await OtpService.verifyCode(1, 'step_up', code)).toBe(false);
+    });
+
+    it('should not accept a code issued for another purpose', async () => {
+      const code = await OtpService.issueCode(1, 'login') as string;
+
+      expect(await OtpService.verifyCode(1, 'step_up', code)).toBe(false);
+      expect(await OtpService.verifyCode(1, 'login', code)).toBe(true);
+    });
+
+    it('should count every guess with INCR in a key of its own', async () => {
+      const code = await OtpService.issueCode(1, 'login') as string;
+      const wrongCode = code === '000000' ? '111111' : '000000';
+
+      expect(await OtpService.verifyCode(1, 'login', wrongCode)).toBe(false);
+
+      expect(mockRedisClient.incr).toHaveBeenCalledWith('otp_attempts:login:1');
+      expect(mockRedisClient.expire).toHaveBeenCalledWith('otp_attempts:login:1', OtpService.CODE_TTL_SECONDS);
+      expect(await OtpService.verifyCode(1, 'login', code)).toBe(true);
+      expect(redisStore.has('otp_attempts:login:1')).toBe(false);
+    });
+
+    it('should not let concurrent guesses share an attempt', async () => {
+      const code = await OtpService.issueCode(1, 'login') as string;
+      const wrongCode = code === '000000' ? '111111' : '000000';
+      const guesses = [...Array(OtpService.MAX_ATTEMPTS).fill(wrongCode), code];
+
+      const results = await Promise.all(guesses.map(guess => OtpService.verifyCode(1, 'login', guess)));
+
+      expect(results).not.toContain(true);
+      expect(redisStore.has('otp:login:1')).toBe(false);
+    });
+
+    it('should start a new code with no wrong attempts', async () => {
+      redisStore.set('otp_attempts:login:1', '4');
+
+      await OtpService.issueCode(1, 'login');
+
+      expect(redisStore.has('otp_attempts:login:1')).toBe(false);
+    });
+
+    it('should discard the code after too many wrong attempts', async () => {
+      const code = await OtpService.issueCode(1, 'login') as string;
+      const wrongCode = code === '000000' ? '111111' : '000000';
+
+      for (let i = 0; i < OtpService.MAX_ATTEMPTS; i++) {
+        await OtpService.verifyCode(1, 'login', wrongCode);
+      }
+
+      expect(await OtpService.verifyCode(1, 'login', code)).toBe(false);
+    });
+
+    it('should only accept a code for the address it was sent to', async () => {
+      const code = await OtpService.issueCode(1, 'phone_verification', '+84912345678') as string;
+
+      expect(await OtpService.verifyCode(1, 'phone_verification', code, '+84987654321')).toBe(false);
+      expect(await OtpService.verifyCode(1, 'phone_verification', code)).toBe(false);
+      expect(await OtpService.verifyCode(1, 'phone_verification', code, '+84912345678')).toBe(true);
+    });
+
+    it('should reject when no code was issued', async () => {
+      expect(await OtpService.verifyCode(1, 'login', '123456')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+jest.mock('../../src/utils');
+jest.mock('../../src/services/emailService');
+jest.mock('../../src/services/smsService');
+jest.mock('../../src/services/webhookService');
+
+import { OutboxService } from '../../src/services/outboxService';
+import { EmailService } from '../../src/services/emailService';
+import { SmsService } from '../../src/services/smsService';
+import { WebhookService } from '../../src/services/webhookService';
+import { EncryptionUtils } from '../../src/utils';
+import { pool } from '../../src/config/database';
+
+const mockPool = pool as jest.Mocked<typeof pool>;
+const mockEmailService = EmailService as jest.Mocked<typeof EmailService>;
+const mockSmsService = SmsService as jest.Mocked<typeof SmsService>;
+const mockWebhookService = WebhookService as jest.Mocked<typeof WebhookService>;
+const mockEncryptionUtils = EncryptionUtils as jest.Mocked<typeof EncryptionUtils>;
+
+describe('OutboxService', () => {
+  const dueMessage = (type: string, payload: object, attempts = 0) => ({
+    id: 9,
+    type,
+    payload_encrypted: `enc(${JSON.stringify(payload)})`,
+    attempts
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockEncryptionUtils.encrypt.mockImplementation(value => `enc(${value})`);
+    mockEncryptionUtils.decrypt.mockImplementation(value => value.replace(/^enc\((.*)\)$/, '$1'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('enqueue', () => {
+    it('should write the encrypted payload through the given connection', async () => {
+      const connection = { execute: jest.fn() };
+
+      await OutboxService.enqueue('email.welcome', { email: 'test@example.com' }, connection as any);
+
+      expect(connection.execute).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO outbox_messages'),
+        ['email.welcome', 'enc({"email":"test@example.com"})']
+      );
+      expect(mockPool.execute).not.toHaveBeenCalled();
+    });
+
+    it('should use the pool outside a transaction', async () => {
+      await OutboxService.enqueue('email.welcome', { email: 'test@example.com' });
+
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO outbox_messages'), expect.any(Array));
+    });
+  });
+
+  describe('processDueMessages', () => {
+    it('should send the email and delete the message', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[dueMessage('email.verification', { email: 'test@example.com', token: 'token', first_name: 'John', locale: 'en' })]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+      mockEmailService.sendVerificationEmail.mockResolvedValue(true);
+
+      const handled = await OutboxService.processDueMessages();
+
+      expect(mockEmailService.sendVerificationEmail).toHaveBeenCalledWith('test@example.com', 'token', 'John', 'en');
+      expect(mockPool.execute).toHaveBeenLastCalledWith('DELETE FROM outbox_messages WHERE id = ?', [9]);
+      expect(handled).toBe(1);
+    });
+
+    it('should restore the lock expiry before sending the account locked email', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[dueMessage('email.account_locked', {
+          email: 'test@example.com',
+          locked_until: '2024-12-31T00:15:00.000Z',
+          ip_address: '127.0.0.1'
+        })]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+      mockEmailService.sendAccountLockedNotification.mockResolvedValue(true);
+
+      await OutboxService.processDueMessages();
+
+      expect(mockEmailService.sendAccountLockedNotification).toHaveBeenCalledWith(
+        'test@example.com',
+        undefined,
+        new Date('2024-12-31T00:15:00.000Z'),
+        '127.0.0.1',
+        undefined
+      );
+    });
+
+    it('should text one-time codes', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[dueMessage('sms.otp', { phone: '+84912345678', code: '123456' })]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+      mockSmsService.sendOtp.mockResolvedValue(true);
+
+      await OutboxService.processDueMessages();
+
+      expect(mockSmsService.sendOtp).toHaveBeenCalledWith('+84912345678', '123456');
+      expect(mockPool.execute).toHaveBeenLastCalledWith('DELETE FROM outbox_messages WHERE id = ?', [9]);
+    });
+
+    it('should queue webhook deliveries for events', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[dueMessage('webhook.event', { type: 'account.registered', data: { account_id: 5 } })]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+
+      await OutboxService.processDueMessages();
+
+      expect(mockWebhookService.queueDeliveries).toHaveBeenCalledWith('account.registered', { account_id: 5 });
+    });
+
+    it('should retry with backoff when the email is not sent', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[dueMessage('email.welcome', { email: 'test@example.com' }, 1)]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+      mockEmailService.sendWelcomeEmail.mockResolvedValue(false);
+
+      await OutboxService.processDueMessages();
+
+      expect(mockPool.execute).toHaveBeenLastCalledWith(
+        expect.stringContaining('UPDATE outbox_messages'),
+        ['pending', 2, 'Message was not sent', 60, 9]
+      );
+    });
+
+    it('should give up after the last attempt', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[dueMessage('email.welcome', { email: 'test@example.com' }, OutboxService.MAX_ATTEMPTS - 1)]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+      mockEmailService.sendWelcomeEmail.mockRejectedValue(new Error('SMTP timeout'));
+
+      await OutboxService.processDueMessages();
+
+      expect(mockPool.execute).toHaveBeenLastCalledWith(
+        expect.any(String),
+        ['dead', OutboxService.MAX_ATTEMPTS, 'SMTP timeout', 3600, 9]
+      );
+      expect(console.error).toHaveBeenCalledWith('Outbox message failed for good:', 9, 'email.welcome', 'SMTP timeout');
+    });
+
+    it('should skip messages claimed by another instance', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[dueMessage('email.welcome', { email: 'test@example.com' })]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 0 }] as any);
+
+      const handled = await OutboxService.processDueMessages();
+
+      expect(mockEmailService.sendWelcomeEmail).not.toHaveBeenCalled();
+      expect(handled).toBe(0);
+    });
+  });
+});
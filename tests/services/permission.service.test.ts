@@ -470,6 +470,17 @@ describe('PermissionService', () => {
         );
       });
 
+      it('should store no granter when a machine client grants the permission', async () => {
+        mockExecute.mockResolvedValue([{ insertId: 1 }]);
+
+        await PermissionService.grantPermissionToAccount(1, 2, undefined);
+
+        expect(mockExecute).toHaveBeenCalledWith(
+          expect.stringContaining('INSERT INTO grant_permissions'),
+          [1, 2, null, null]
+        );
+      });
+
       it('should handle duplicate entry', async () => {
         const error = new Error('Duplicate entry') as any;
         error.code = 'ER_DUP_ENTRY';
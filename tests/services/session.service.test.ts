@@ -0,0 +1,124 @@
+jest.mock('../../src/utils');
+jest.mock('../../src/services/authService');
+jest.mock('../../src/services/tokenRevocationService');
+
+import { SessionService } from '../../src/services/sessionService';
+import { AuthService } from '../../src/services/authService';
+import { TokenRevocationService } from '../../src/services/tokenRevocationService';
+import { UserAgentUtils } from '../../src/utils';
+import { pool, redisClient } from '../../src/config/database';
+
+const mockPool = pool as jest.Mocked<typeof pool>;
+const mockRedis = redisClient as jest.Mocked<typeof redisClient>;
+const mockAuthService = AuthService as jest.Mocked<typeof AuthService>;
+const mockTokenRevocationService = TokenRevocationService as jest.Mocked<typeof TokenRevocationService>;
+const mockUserAgentUtils = UserAgentUtils as jest.Mocked<typeof UserAgentUtils>;
+
+describe('SessionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('listSessions', () => {
+    const loginTime = new Date('2024-01-01T08:00:00Z');
+    const refreshTime = new Date('2024-01-02T08:00:00Z');
+    const expiresAt = new Date('2024-01-09T08:00:00Z');
+
+    it('should describe every active session and flag the current one', async () => {
+      mockPool.execute.mockResolvedValue([[
+        {
+          id: 7,
+          family_id: 'family_1',
+          device_info: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0',
+          ip_address: '203.0.113.10',
+          client_id: null,
+          created_at: loginTime,
+          last_used_at: refreshTime,
+          expires_at: expiresAt
+        },
+        {
+          id: 5,
+          family_id: 'family_2',
+          device_info: null,
+          ip_address: null,
+          client_id: 'client_1',
+          created_at: loginTime,
+          last_used_at: loginTime,
+          expires_at: expiresAt
+        }
+      ]] as any);
+      mockUserAgentUtils.parse
+        .mockReturnValueOnce({ browser: 'Chrome', os: 'Windows', device: 'desktop' })
+        .mockReturnValueOnce({ browser: null, os: null, device: 'unknown' });
+
+      const result = await SessionService.listSessions(1, 'family_1');
+
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining('rt.is_revoked = 0'), [1]);
+      expect(result).toEqual([
+        {
+          id: 7,
+          device_info: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0',
+          browser: 'Chrome',
+          os: 'Windows',
+          device: 'desktop',
+          ip_address: '203.0.113.10',
+          client_id: null,
+          created_at: loginTime,
+          last_used_at: refreshTime,
+          expires_at: expiresAt,
+          current: true
+        },
+        expect.objectContaining({ id: 5, client_id: 'client_1', device: 'unknown', current: false })
+      ]);
+    });
+
+    it('should not flag any session without a current session id', async () => {
+      mockPool.execute.mockResolvedValue([[
+        { id: 7, family_id: 'family_1', device_info: null, ip_address: null, client_id: null }
+      ]] as any);
+      mockUserAgentUtils.parse.mockReturnValue({ browser: null, os: null, device: 'unknown' });
+
+      const result = await SessionService.listSessions(1);
+
+      expect(result[0].current).toBe(false);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke the family of an active session of the account', async () => {
+      mockPool.execute.mockResolvedValueOnce([[{ family_id: 'family_1' }]] as any);
+
+      const result = await SessionService.revokeSession(1, 7);
+
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining('account_id = ?'), [7, 1]);
+      expect(mockAuthService.revokeRefreshTokenFamily).toHaveBeenCalledWith('family_1');
+      expect(mockTokenRevocationService.revokeSession).toHaveBeenCalledWith('family_1');
+      expect(result).toBe(true);
+    });
+
+    it('should return false for a session of another account or an inactive one', async () => {
+      mockPool.execute.mockResolvedValueOnce([[]] as any);
+
+      const result = await SessionService.revokeSession(1, 99);
+
+      expect(mockAuthService.revokeRefreshTokenFamily).not.toHaveBeenCalled();
+      expect(mockTokenRevocationService.revokeSession).not.toHaveBeenCalled();
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('listCachedSessions', () => {
+    it('should return the data and remaining lifetime of each session', async () => {
+      mockRedis.keys.mockResolvedValue(['session:1:abc', 'session:1:gone']);
+      mockRedis.get
+        .mockResolvedValueOnce(JSON.stringify({ role: 'admin' }))
+        .mockResolvedValueOnce(null);
+      mockRedis.ttl.mockResolvedValue(3600);
+
+      const result = await SessionService.listCachedSessions(1);
+
+      expect(mockRedis.keys).toHaveBeenCalledWith('session:1:*');
+      expect(result).toEqual([{ id: 'abc', data: { role: 'admin' }, expires_in: 3600 }]);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConsoleSmsSender, FileSmsSender, HttpSmsSender, SmsService } from '../../src/services/smsService';
+import { SmsHttpClient } from '../../src/types';
+
+describe('SmsService', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.SMS_PROVIDER;
+    SmsService.setSender(null);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    SmsService.setSender(null);
+    jest.restoreAllMocks();
+  });
+
+  describe('configure', () => {
+    it('should default to the console provider outside production', () => {
+      process.env.NODE_ENV = 'development';
+
+      expect(SmsService.configure()).toBeInstanceOf(ConsoleSmsSender);
+    });
+
+    it('should pick the provider from SMS_PROVIDER', () => {
+      process.env.SMS_PROVIDER = 'file';
+      expect(SmsService.configure()).toBeInstanceOf(FileSmsSender);
+
+      process.env.SMS_PROVIDER = 'http';
+      process.env.SMS_HTTP_URL = 'https://sms.example.com/send';
+      expect(SmsService.configure()).toBeInstanceOf(HttpSmsSender);
+    });
+
+    it('should require a URL for the HTTP provider', () => {
+      process.env.SMS_PROVIDER = 'http';
+      delete process.env.SMS_HTTP_URL;
+
+      expect(() => SmsService.configure()).toThrow('SMS_HTTP_URL is required');
+    });
+
+    it('should reject unknown providers', () => {
+      process.env.SMS_PROVIDER = 'carrier-pigeon';
+
+      expect(() => SmsService.configure()).toThrow('Unknown SMS_PROVIDER');
+    });
+
+    it('should refuse to run without a delivering provider in production', () => {
+      process.env.NODE_ENV = 'production';
+
+      expect(() => SmsService.configure()).toThrow('SMS_PROVIDER must name a provider that delivers messages in production');
+
+      process.env.SMS_PROVIDER = 'console';
+      expect(() => SmsService.configure()).toThrow('in production');
+
+      process.env.SMS_PROVIDER = 'file';
+      expect(() => SmsService.configure()).toThrow('in production');
+
+      process.env.SMS_PROVIDER = 'http';
+      process.env.SMS_HTTP_URL = 'https://sms.example.com/send';
+      expect(SmsService.configure()).toBeInstanceOf(HttpSmsSender);
+    });
+  });
+
+  describe('getSender', () => {
+    it('should keep the sender configured at startup', () => {
+      process.env.SMS_PROVIDER = 'http';
+      process.env.SMS_HTTP_URL = 'https://sms.example.com/send';
+      const sender = SmsService.configure();
+
+      process.env.SMS_PROVIDER = 'file';
+
+      expect(SmsService.getSender()).toBe(sender);
+    });
+
+    it('should prefer a registered sender', () => {
+      const sender = { send: jest.fn() };
+      SmsService.setSender(sender);
+
+      expect(SmsService.getSender()).toBe(sender);
+    });
+  });
+
+  describe('sendOtp', () => {
+    it('should send the code without diacritics', async () => {
+      const sender = { send: jest.fn().mockResolvedValue(undefined) };
+      SmsService.setSender(sender);
+
+      const result = await SmsService.sendOtp('+84912345678', '123456');
+
+      expect(result).toBe(true);
+      expect(sender.send).toHaveBeenCalledWith('+84912345678', expect.stringContaining('123456'));
+      expect(sender.send.mock.calls[0][1]).toMatch(/^[\x20-\x7e]+$/);
+    });
+
+    it('should return false when the provider fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      SmsService.setSender({ send: jest.fn().mockRejectedValue(new Error('Gateway down')) });
+
+      const result = await SmsService.sendOtp('+84912345678', '123456');
+
+      expect(result).toBe(false);
+      expect(console.error).toHaveBeenCalledWith('Error sending OTP SMS:', expect.any(Error));
+    });
+  });
+
+  describe('maskPhone', () => {
+    it('should only reveal the ends of the number', () => {
+      expect(SmsService.maskPhone('+84912345678')).toBe('+84******678');
+    });
+  });
+
+  describe('FileSmsSender', () => {
+    it('should append one JSON line per message to temp/sms.log', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sms-'));
+      jest.spyOn(process, 'cwd').mockReturnValue(dir);
+      const sender = new FileSmsSender();
+
+      await sender.send('+84912345678', 'first');
+      await sender.send('+84987654321', 'second');
+
+      const lines = fs.readFileSync(path.join(dir, 'temp', 'sms.log'), 'utf8').trim().split('\n').map(line => JSON.parse(line));
+      expect(lines).toEqual([
+        expect.objectContaining({ to: '+84912345678', message: 'first' }),
+        expect.objectContaining({ to: '+84987654321', message: 'second' })
+      ]);
+
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe('HttpSmsSender', () => {
+    it('should post the message with the API key', async () => {
+      const httpClient: jest.Mocked<SmsHttpClient> = {
+        postJson: jest.fn().mockResolvedValue({ status: 202, body: { id: 'msg_1' } })
+      };
+      const sender = new HttpSmsSender('https://sms.example.com/send', 'api_key', 'VOLCANION', httpClient);
+
+      await sender.send('+84912345678', 'hello');
+
+      expect(httpClient.postJson).toHaveBeenCalledWith(
+        'https://sms.example.com/send',
+        { to: '+84912345678', from: 'VOLCANION', message: 'hello' },
+        { Authorization: 'Bearer api_key' }
+      );
+    });
+
+    it('should throw when the gateway rejects the message', async () => {
+      const httpClient: jest.Mocked<SmsHttpClient> = {
+        postJson: jest.fn().mockResolvedValue({ status: 401, body: null })
+      };
+      const sender = new HttpSmsSender('https://sms.example.com/send', undefined, undefined, httpClient);
+
+      await expect(sender.send('+84912345678', 'hello')).rejects.toThrow('status 401');
+      expect(httpClient.postJson).toHaveBeenCalledWith(expect.any(String), expect.any(Object), {});
+    });
+  });
+});
@@ -0,0 +1,273 @@
+// Mock all dependencies first
+jest.mock('../../src/services/accountService');
+jest.mock('../../src/services/authService');
+jest.mock('../../src/services/twoFactorService');
+jest.mock('../../src/services/identityProviderService', () => ({
+  ...jest.requireActual('../../src/services/identityProviderService'),
+  IdentityProviderService: { fetchProfile: jest.fn() }
+}));
+
+import { SocialAuthService } from '../../src/services/socialAuthService';
+import { AccountService } from '../../src/services/accountService';
+import { AuthService } from '../../src/services/authService';
+import { TwoFactorService } from '../../src/services/twoFactorService';
+import { IdentityProviderService, IdentityProviderError } from '../../src/services/identityProviderService';
+import { pool } from '../../src/config/database';
+import { Account, ExternalProfile } from '../../src/types';
+
+// Type the mocks
+const mockPool = pool as jest.Mocked<typeof pool>;
+const mockAccountService = AccountService as jest.Mocked<typeof AccountService>;
+const mockAuthService = AuthService as jest.Mocked<typeof AuthService>;
+const mockTwoFactorService = TwoFactorService as jest.Mocked<typeof TwoFactorService>;
+const mockIdentityProviderService = IdentityProviderService as jest.Mocked<typeof IdentityProviderService>;
+
+describe('SocialAuthService', () => {
+  const profile: ExternalProfile = {
+    provider: 'google',
+    subject: 'google-sub',
+    email: 'test@example.com',
+    emailVerified: true,
+    firstName: 'John',
+    lastName: 'Doe'
+  };
+
+  const mockAccount: Account = {
+    id: 1,
+    email: 'test@example.com',
+    password: 'hashed_password',
+    is_verified: true,
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  const mockTokens = { accessToken: 'access_token', refreshToken: 'refresh_token', expiresIn: 900 };
+
+  const identityRow = {
+    id: 5,
+    account_id: 1,
+    provider: 'google',
+    subject: 'google-sub',
+    email: 'test@example.com',
+    created_at: new Date()
+  };
+
+  const login = () => SocialAuthService.login('google', 'code', 'state', 'test-agent', '127.0.0.1');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockIdentityProviderService.fetchProfile.mockResolvedValue(profile);
+    mockAuthService.issueTokens.mockResolvedValue(mockTokens);
+  });
+
+  describe('login', () => {
+    it('should sign in the account linked to the identity', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[identityRow]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+
+      const result = await login();
+
+      expect(mockIdentityProviderService.fetchProfile).toHaveBeenCalledWith('google', 'code', 'state');
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE linked_identities SET last_login_at'),
+        ['test@example.com', 5]
+      );
+      expect(mockAuthService.issueTokens).toHaveBeenCalledWith(1, 'test@example.com', 'social', 'test-agent', '127.0.0.1');
+      expect(mockAccountService.createAccount).not.toHaveBeenCalled();
+      expect(result).toEqual({ accountId: 1, isNewAccount: false, result: mockTokens });
+    });
+
+    it('should link a verified identity to the account with the same email', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[]] as any)
+        .mockResolvedValueOnce([{ insertId: 6 }] as any);
+      mockAccountService.findByEmail.mockResolvedValue(mockAccount);
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+
+      const result = await login();
+
+      expect(mockPool.execute).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO linked_identities'),
+        [1, 'google', 'google-sub', 'test@example.com']
+      );
+      expect(mockAuthService.recordSecurityEvent).toHaveBeenCalledWith(1, 'identity_linked', '127.0.0.1', { provider: 'google' });
+      expect(result.isNewAccount).toBe(false);
+    });
+
+    it('should not link when the provider has not verified the email', async () => {
+      mockIdentityProviderService.fetchProfile.mockResolvedValue({ ...profile, emailVerified: false });
+      mockPool.execute.mockResolvedValueOnce([[]] as any);
+      mockAccountService.findByEmail.mockResolvedValue(mockAccount);
+
+      const error = await login().catch(caught => caught);
+
+      expect(error).toBeInstanceOf(IdentityProviderError);
+      expect(error.statusCode).toBe(409);
+      expect(mockPool.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not link to an account that never verified its email', async () => {
+      mockPool.execute.mockResolvedValueOnce([[]] as any);
+      mockAccountService.findByEmail.mockResolvedValue({ ...mockAccount, is_verified: false });
+
+      const error = await login().catch(caught => caught);
+
+      expect(error.statusCode).toBe(409);
+      expect(mockAuthService.issueTokens).not.toHaveBeenCalled();
+    });
+
+    it('should create a verified account without a password for a new identity', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[]] as any)
+        .mockResolvedValueOnce([{ insertId: 6 }] as any);
+      mockAccountService.findByEmail.mockResolvedValue(null);
+      mockAccountService.createAccount.mockResolvedValue(9);
+      mockAccountService.findById.mockResolvedValue({ ...mockAccount, id: 9, password: null });
+
+      const result = await login();
+
+      expect(mockAccountService.createAccount).toHaveBeenCalledWith({
+        email: 'test@example.com',
+        first_name: 'John',
+        last_name: 'Doe'
+      });
+      expect(mockAccountService.verifyAccount).toHaveBeenCalledWith(9);
+      expect(result).toEqual({ accountId: 9, isNewAccount: true, result: mockTokens });
+    });
+
+    it('should leave a new account unverified when the provider did not verify the email', async () => {
+      mockIdentityProviderService.fetchProfile.mockResolvedValue({ ...profile, emailVerified: false });
+      mockPool.execute
+        .mockResolvedValueOnce([[]] as any)
+        .mockResolvedValueOnce([{ insertId: 6 }] as any);
+      mockAccountService.findByEmail.mockResolvedValue(null);
+      mockAccountService.createAccount.mockResolvedValue(9);
+      mockAccountService.findById.mockResolvedValue({ ...mockAccount, id: 9, is_verified: false });
+
+      await login();
+
+      expect(mockAccountService.verifyAccount).not.toHaveBeenCalled();
+    });
+
+    it('should require an email for a new identity', async () => {
+      mockIdentityProviderService.fetchProfile.mockResolvedValue({ ...profile, email: undefined, emailVerified: false });
+      mockPool.execute.mockResolvedValueOnce([[]] as any);
+
+      await expect(login()).rejects.toThrow(IdentityProviderError);
+      expect(mockAccountService.createAccount).not.toHaveBeenCalled();
+    });
+
+    it('should issue an MFA challenge for accounts with 2FA', async () => {
+      const challenge = { mfaRequired: true as const, mfaToken: 'mfa_token', expiresIn: 300 };
+      mockPool.execute
+        .mockResolvedValueOnce([[identityRow]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+      mockAccountService.findById.mockResolvedValue({ ...mockAccount, two_factor_enabled: true });
+      mockTwoFactorService.isRequired.mockResolvedValue(true);
+      mockTwoFactorService.createChallenge.mockResolvedValue(challenge);
+
+      const result = await login();
+
+      expect(mockTwoFactorService.createChallenge).toHaveBeenCalledWith(1, 'test-agent', '127.0.0.1');
+      expect(mockAuthService.issueTokens).not.toHaveBeenCalled();
+      expect(result.result).toBe(challenge);
+    });
+
+    it('should refuse deactivated accounts', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[identityRow]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+      mockAccountService.findById.mockResolvedValue(null);
+
+      const error = await login().catch(caught => caught);
+
+      expect(error.statusCode).toBe(403);
+    });
+  });
+
+  describe('linkAccount', () => {
+    const link = () => SocialAuthService.linkAccount(1, 'google', 'code', 'state', '127.0.0.1');
+
+    it('should link a new identity to the signed-in account', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[]] as any)
+        .mockResolvedValueOnce([[]] as any)
+        .mockResolvedValueOnce([{ insertId: 6 }] as any);
+
+      const identity = await link();
+
+      expect(mockIdentityProviderService.fetchProfile).toHaveBeenCalledWith('google', 'code', 'state', 1);
+      expect(mockPool.execute).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO linked_identities'),
+        [1, 'google', 'google-sub', 'test@example.com']
+      );
+      expect(mockAuthService.recordSecurityEvent).toHaveBeenCalledWith(1, 'identity_linked', '127.0.0.1', { provider: 'google' });
+      expect(identity).toEqual(expect.objectContaining({ id: 6, account_id: 1, provider: 'google', subject: 'google-sub' }));
+    });
+
+    it('should refuse an identity linked to another account', async () => {
+      mockPool.execute.mockResolvedValueOnce([[{ ...identityRow, account_id: 2 }]] as any);
+
+      const error = await link().catch(caught => caught);
+
+      expect(error.statusCode).toBe(409);
+      expect(error.message).toBe('Tài khoản của nhà cung cấp đã được liên kết với một tài khoản khác');
+    });
+
+    it('should refuse a second identity of the same provider', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[]] as any)
+        .mockResolvedValueOnce([[{ ...identityRow, subject: 'other-sub' }]] as any);
+
+      const error = await link().catch(caught => caught);
+
+      expect(error.statusCode).toBe(409);
+      expect(mockPool.execute).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('unlinkIdentity', () => {
+    it('should unlink when the account has a password', async () => {
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      mockPool.execute
+        .mockResolvedValueOnce([[identityRow]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+
+      const result = await SocialAuthService.unlinkIdentity(1, 'google', '127.0.0.1');
+
+      expect(mockPool.execute).toHaveBeenLastCalledWith(expect.stringContaining('DELETE FROM linked_identities'), [1, 'google']);
+      expect(mockAuthService.recordSecurityEvent).toHaveBeenCalledWith(1, 'identity_unlinked', '127.0.0.1', { provider: 'google' });
+      expect(result).toBe(true);
+    });
+
+    it('should unlink one of several identities without a password', async () => {
+      mockAccountService.findById.mockResolvedValue({ ...mockAccount, password: null });
+      mockPool.execute
+        .mockResolvedValueOnce([[identityRow, { ...identityRow, id: 6, provider: 'github' }]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+
+      expect(await SocialAuthService.unlinkIdentity(1, 'google')).toBe(true);
+    });
+
+    it('should keep the last login method of an account without a password', async () => {
+      mockAccountService.findById.mockResolvedValue({ ...mockAccount, password: null });
+      mockPool.execute.mockResolvedValueOnce([[identityRow]] as any);
+
+      const error = await SocialAuthService.unlinkIdentity(1, 'google').catch(caught => caught);
+
+      expect(error).toBeInstanceOf(IdentityProviderError);
+      expect(error.statusCode).toBe(400);
+      expect(mockPool.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return false when nothing is linked for the provider', async () => {
+      mockAccountService.findById.mockResolvedValue(mockAccount);
+      mockPool.execute.mockResolvedValueOnce([[identityRow]] as any);
+
+      expect(await SocialAuthService.unlinkIdentity(1, 'github')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+// Mock all dependencies first
+jest.mock('../../src/utils');
+
+import { TokenRevocationService } from '../../src/services/tokenRevocationService';
+import { JwtUtils } from '../../src/utils';
+import { redisClient } from '../../src/config/database';
+
+// Type the mocks
+const mockRedis = redisClient as jest.Mocked<typeof redisClient>;
+const mockJwtUtils = JwtUtils as jest.Mocked<typeof JwtUtils>;
+
+describe('TokenRevocationService', () => {
+  const now = 1700000000;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockReturnValue(now * 1000);
+    mockJwtUtils.getAccessTokenExpiresIn.mockReturnValue(900);
+    (mockJwtUtils.isClientToken as unknown as jest.Mock).mockImplementation(payload => payload.accountId === undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('revokeAccessToken', () => {
+    it('should denylist the jti until the token expires', async () => {
+      mockRedis.setEx.mockResolvedValue('OK');
+
+      await TokenRevocationService.revokeAccessToken({
+        accountId: 1,
+        email: 'test@example.com',
+        jti: 'token-id',
+        exp: now + 300
+      });
+
+      expect(mockRedis.setEx).toHaveBeenCalledWith('revoked_jti:token-id', 300, '1');
+    });
+
+    it('should fall back to the access token lifetime when exp is missing', async () => {
+      mockRedis.setEx.mockResolvedValue('OK');
+
+      await TokenRevocationService.revokeAccessToken({ accountId: 1, email: 'test@example.com', jti: 'token-id' });
+
+      expect(mockRedis.setEx).toHaveBeenCalledWith('revoked_jti:token-id', 900, '1');
+    });
+
+    it('should skip tokens without a jti or already expired', async () => {
+      await TokenRevocationService.revokeAccessToken({ accountId: 1, email: 'test@example.com' });
+      await TokenRevocationService.revokeAccessToken({
+        accountId: 1,
+        email: 'test@example.com',
+        jti: 'token-id',
+        exp: now - 10
+      });
+
+      expect(mockRedis.setEx).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAllAccessTokens', () => {
+    it('should store the cutoff timestamp for the access token lifetime', async () => {
+      mockRedis.setEx.mockResolvedValue('OK');
+
+      await TokenRevocationService.revokeAllAccessTokens(1);
+
+      expect(mockRedis.setEx).toHaveBeenCalledWith('tokens_revoked_before:1', 900, now.toString());
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should denylist the session for the access token lifetime', async () => {
+      mockRedis.setEx.mockResolvedValue('OK');
+
+      await TokenRevocationService.revokeSession('family_1');
+
+      expect(mockRedis.setEx).toHaveBeenCalledWith('revoked_sid:family_1', 900, '1');
+    });
+  });
+
+  describe('revokeAllClientAccessTokens', () => {
+    it('should store the cutoff timestamp for the client', async () => {
+      mockRedis.setEx.mockResolvedValue('OK');
+
+      await TokenRevocationService.revokeAllClientAccessTokens('client_1');
+
+      expect(mockRedis.setEx).toHaveBeenCalledWith('client_tokens_revoked_before:client_1', 900, now.toString());
+    });
+  });
+
+  describe('isRevoked', () => {
+    it('should return true for a denylisted jti', async () => {
+      mockRedis.get.mockResolvedValueOnce('1');
+
+      const result = await TokenRevocationService.isRevoked({
+        accountId: 1,
+        email: 'test@example.com',
+        jti: 'token-id',
+        iat: now
+      });
+
+      expect(mockRedis.get).toHaveBeenCalledWith('revoked_jti:token-id');
+      expect(result).toBe(true);
+    });
+
+    it('should return true for a token of a revoked session', async () => {
+      mockRedis.get
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce('1');
+
+      const result = await TokenRevocationService.isRevoked({
+        accountId: 1,
+        email: 'test@example.com',
+        sid: 'family_1',
+        jti: 'token-id',
+        iat: now
+      });
+
+      expect(mockRedis.get).toHaveBeenCalledWith('revoked_sid:family_1');
+      expect(result).toBe(true);
+    });
+
+    it('should return true for a token issued before the account cutoff', async () => {
+      mockRedis.get
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(now.toString());
+
+      const result = await TokenRevocationService.isRevoked({
+        accountId: 1,
+        email: 'test@example.com',
+        jti: 'token-id',
+        iat: now - 60
+      });
+
+      expect(mockRedis.get).toHaveBeenCalledWith('tokens_revoked_before:1');
+      expect(result).toBe(true);
+    });
+
+    it('should return false for a token issued after the account cutoff', async () => {
+      mockRedis.get
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce((now - 60).toString());
+
+      const result = await TokenRevocationService.isRevoked({
+        accountId: 1,
+        email: 'test@example.com',
+        jti: 'token-id',
+        iat: now
+      });
+
+      expect(result).toBe(false);
+    });
+
+    it('should keep a token issued in the same second as the account cutoff', async () => {
+      mockRedis.get
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(now.toString());
+
+      const result = await TokenRevocationService.isRevoked({
+        accountId: 1,
+        email: 'test@example.com',
+        jti: 'token-id',
+        iat: now
+      });
+
+      expect(result).toBe(false);
+    });
+
+    it('should check the client cutoff for a token the client holds for a user', async () => {
+      mockRedis.get
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(now.toString());
+
+      const result = await TokenRevocationService.isRevoked({
+        accountId: 1,
+        email: 'test@example.com',
+        clientId: 'client_1',
+        scope: 'profile',
+        sid: 'family_1',
+        jti: 'token-id',
+        iat: now - 60
+      });
+
+      expect(mockRedis.get).toHaveBeenCalledWith('tokens_revoked_before:1');
+      expect(mockRedis.get).toHaveBeenCalledWith('client_tokens_revoked_before:client_1');
+      expect(result).toBe(true);
+    });
+
+    it('should check the client cutoff for a client credentials token', async () => {
+      mockRedis.get
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(now.toString());
+
+      const result = await TokenRevocationService.isRevoked({
+        clientId: 'client_1',
+        scope: 'account:read',
+        permissions: ['view_accounts'],
+        jti: 'token-id',
+        iat: now - 60
+      });
+
+      expect(mockRedis.get).toHaveBeenCalledWith('client_tokens_revoked_before:client_1');
+      expect(result).toBe(true);
+    });
+
+    it('should return false when nothing is revoked', async () => {
+      mockRedis.get.mockResolvedValue(null);
+
+      const result = await TokenRevocationService.isRevoked({
+        accountId: 1,
+        email: 'test@example.com',
+        jti: 'token-id',
+        iat: now
+      });
+
+      expect(result).toBe(false);
+    });
+  });
+});
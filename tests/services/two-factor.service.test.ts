@@ -0,0 +1,361 @@
+// Mock all dependencies first
+jest.mock('../../src/utils');
+
+import { TwoFactorService } from '../../src/services/twoFactorService';
+import { PasswordUtils, EncryptionUtils, TotpUtils } from '../../src/utils';
+import { pool, redisClient } from '../../src/config/database';
+import { Account } from '../../src/types';
+
+// Type the mocks
+const mockPool = pool as jest.Mocked<typeof pool>;
+const mockRedis = redisClient as jest.Mocked<typeof redisClient>;
+const mockPasswordUtils = PasswordUtils as jest.Mocked<typeof PasswordUtils>;
+const mockEncryptionUtils = EncryptionUtils as jest.Mocked<typeof EncryptionUtils>;
+const mockTotpUtils = TotpUtils as jest.Mocked<typeof TotpUtils>;
+
+describe('TwoFactorService', () => {
+  const mockAccount: Account = {
+    id: 1,
+    email: 'test@example.com',
+    password: 'hashed_password',
+    is_verified: true,
+    is_active: true,
+    two_factor_enabled: false,
+    two_factor_secret: 'encrypted_secret',
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('beginSetup', () => {
+    it('should store an encrypted secret and return the otpauth URL', async () => {
+      mockTotpUtils.generateSecret.mockReturnValue('PLAINSECRET');
+      mockTotpUtils.buildOtpAuthUrl.mockReturnValue('otpauth://totp/test');
+      mockEncryptionUtils.encrypt.mockReturnValue('encrypted_secret');
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await TwoFactorService.beginSetup(mockAccount);
+
+      expect(mockEncryptionUtils.encrypt).toHaveBeenCalledWith('PLAINSECRET');
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('two_factor_enabled = 0'),
+        ['encrypted_secret', 1]
+      );
+      expect(mockTotpUtils.buildOtpAuthUrl).toHaveBeenCalledWith('PLAINSECRET', 'test@example.com', expect.any(String));
+      expect(result).toEqual({ secret: 'PLAINSECRET', otpauthUrl: 'otpauth://totp/test' });
+    });
+  });
+
+  describe('confirmSetup', () => {
+    it('should enable 2FA when the code is valid', async () => {
+      jest.spyOn(TwoFactorService, 'verifyCode').mockResolvedValue(true);
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await TwoFactorService.confirmSetup(mockAccount, '123456');
+
+      expect(TwoFactorService.verifyCode).toHaveBeenCalledWith(mockAccount, '123456');
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('two_factor_enabled = 1'),
+        [1]
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should not enable 2FA when the code is invalid', async () => {
+      jest.spyOn(TwoFactorService, 'verifyCode').mockResolvedValue(false);
+
+      const result = await TwoFactorService.confirmSetup(mockAccount, '000000');
+
+      expect(mockPool.execute).not.toHaveBeenCalled();
+      expect(result).toBe(false);
+    });
+
+    it('should return false when setup was never started', async () => {
+      const result = await TwoFactorService.confirmSetup({ ...mockAccount, two_factor_secret: undefined }, '123456');
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('disable', () => {
+    it('should clear the secret and disable 2FA', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await TwoFactorService.disable(1);
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('two_factor_secret = NULL'),
+        [1]
+      );
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        'DELETE FROM two_factor_recovery_codes WHERE account_id = ?',
+        [1]
+      );
+      expect(result).toBe(true);
+    });
+  });
+
+  describe('generateRecoveryCodes', () => {
+    it('should replace existing codes with a new hashed batch', async () => {
+      let counter = 0;
+      mockPasswordUtils.generateRecoveryCode.mockImplementation(() => `code-${counter++}`);
+      mockPasswordUtils.hashToken.mockImplementation((code: string) => `hashed_${code}`);
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await TwoFactorService.generateRecoveryCodes(1);
+
+      expect(mockPool.execute).toHaveBeenNthCalledWith(
+        1,
+        'DELETE FROM two_factor_recovery_codes WHERE account_id = ?',
+        [1]
+      );
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO two_factor_recovery_codes'),
+        [1, 'hashed_code-0']
+      );
+      expect(mockPool.execute).toHaveBeenCalledTimes(11);
+      expect(result).toHaveLength(10);
+      expect(result[0]).toBe('code-0');
+    });
+  });
+
+  describe('useRecoveryCode', () => {
+    it('should consume an unused code', async () => {
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_code');
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await TwoFactorService.useRecoveryCode(1, ' A1B2C-3D4E5 ');
+
+      expect(mockPasswordUtils.hashToken).toHaveBeenCalledWith('a1b2c-3d4e5');
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('is_used = 0'),
+        [1, 'hashed_code']
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should reject a code that was already used or does not exist', async () => {
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_code');
+      mockPool.execute.mockResolvedValue([{ affectedRows: 0 }] as any);
+
+      const result = await TwoFactorService.useRecoveryCode(1, 'a1b2c-3d4e5');
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('countRemainingRecoveryCodes', () => {
+    it('should count unused codes', async () => {
+      mockPool.execute.mockResolvedValue([[{ count: 7 }]] as any);
+
+      const result = await TwoFactorService.countRemainingRecoveryCodes(1);
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        expect.stringContaining('SELECT COUNT(*) as count FROM two_factor_recovery_codes'),
+        [1]
+      );
+      expect(result).toBe(7);
+    });
+  });
+
+  describe('verifySecondFactor', () => {
+    it('should use the recovery code when one is provided', async () => {
+      jest.spyOn(TwoFactorService, 'useRecoveryCode').mockResolvedValue(true);
+      jest.spyOn(TwoFactorService, 'verifyCode');
+
+      const result = await TwoFactorService.verifySecondFactor(mockAccount, undefined, 'a1b2c-3d4e5');
+
+      expect(TwoFactorService.useRecoveryCode).toHaveBeenCalledWith(1, 'a1b2c-3d4e5');
+      expect(TwoFactorService.verifyCode).not.toHaveBeenCalled();
+      expect(result).toBe(true);
+    });
+
+    it('should verify the TOTP code otherwise', async () => {
+      jest.spyOn(TwoFactorService, 'verifyCode').mockResolvedValue(true);
+
+      const result = await TwoFactorService.verifySecondFactor(mockAccount, '123456');
+
+      expect(TwoFactorService.verifyCode).toHaveBeenCalledWith(mockAccount, '123456');
+      expect(result).toBe(true);
+    });
+
+    it('should return false when nothing is provided', async () => {
+      const result = await TwoFactorService.verifySecondFactor(mockAccount);
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should accept a valid code that has not been used', async () => {
+      mockEncryptionUtils.decrypt.mockReturnValue('PLAINSECRET');
+      mockTotpUtils.verifyCode.mockReturnValue(1000);
+      mockRedis.set.mockResolvedValue('OK');
+
+      const result = await TwoFactorService.verifyCode(mockAccount, '123456');
+
+      expect(mockEncryptionUtils.decrypt).toHaveBeenCalledWith('encrypted_secret');
+      expect(mockTotpUtils.verifyCode).toHaveBeenCalledWith('PLAINSECRET', '123456');
+      expect(mockRedis.set).toHaveBeenCalledWith('totp_used:1:1000', '1', { NX: true, EX: 90 });
+      expect(result).toBe(true);
+    });
+
+    it('should reject a replayed code', async () => {
+      mockEncryptionUtils.decrypt.mockReturnValue('PLAINSECRET');
+      mockTotpUtils.verifyCode.mockReturnValue(1000);
+      mockRedis.set.mockResolvedValue(null);
+
+      const result = await TwoFactorService.verifyCode(mockAccount, '123456');
+
+      expect(result).toBe(false);
+    });
+
+    it('should reject an invalid code', async () => {
+      mockEncryptionUtils.decrypt.mockReturnValue('PLAINSECRET');
+      mockTotpUtils.verifyCode.mockReturnValue(null);
+
+      const result = await TwoFactorService.verifyCode(mockAccount, '000000');
+
+      expect(mockRedis.set).not.toHaveBeenCalled();
+      expect(result).toBe(false);
+    });
+
+    it('should return false when the account has no secret', async () => {
+      const result = await TwoFactorService.verifyCode({ ...mockAccount, two_factor_secret: undefined }, '123456');
+
+      expect(mockEncryptionUtils.decrypt).not.toHaveBeenCalled();
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('setSmsEnabled', () => {
+    it('should only enable SMS codes for a verified phone', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await TwoFactorService.setSmsEnabled(1, true);
+
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining('phone_verified_at IS NOT NULL'), [1, 1, 1]);
+      expect(result).toBe(true);
+    });
+
+    it('should disable SMS codes', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      await TwoFactorService.setSmsEnabled(1, false);
+
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining('SET sms_two_factor_enabled = ?'), [0, 1, 0]);
+    });
+  });
+
+  describe('isRequired', () => {
+    it('should require a second factor when TOTP is enabled', async () => {
+      expect(await TwoFactorService.isRequired({ ...mockAccount, two_factor_enabled: true })).toBe(true);
+      expect(mockPool.execute).not.toHaveBeenCalled();
+    });
+
+    it('should require a second factor when SMS codes are enabled', async () => {
+      expect(await TwoFactorService.isRequired({ ...mockAccount, sms_two_factor_enabled: true })).toBe(true);
+      expect(mockPool.execute).not.toHaveBeenCalled();
+    });
+
+    it('should require a second factor when a passkey is registered', async () => {
+      mockPool.execute.mockResolvedValue([[{ count: 1 }]] as any);
+
+      expect(await TwoFactorService.isRequired(mockAccount)).toBe(true);
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining('FROM webauthn_credentials'), [1]);
+    });
+
+    it('should not require a second factor otherwise', async () => {
+      mockPool.execute.mockResolvedValue([[{ count: 0 }]] as any);
+
+      expect(await TwoFactorService.isRequired(mockAccount)).toBe(false);
+    });
+  });
+
+  describe('createChallenge', () => {
+    it('should store a short-lived challenge in Redis', async () => {
+      mockPasswordUtils.generateSecureToken.mockReturnValue('mfa_token');
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_mfa_token');
+      mockRedis.setEx.mockResolvedValue('OK');
+
+      const result = await TwoFactorService.createChallenge(1, 'device', '192.168.1.1', true);
+
+      expect(mockRedis.setEx).toHaveBeenCalledWith(
+        'mfa_challenge:hashed_mfa_token',
+        300,
+        JSON.stringify({ accountId: 1, deviceInfo: 'device', ipAddress: '192.168.1.1', passwordLogin: true })
+      );
+      expect(result).toEqual({ mfaRequired: true, mfaToken: 'mfa_token', expiresIn: 300 });
+    });
+  });
+
+  describe('getChallenge', () => {
+    it('should return the stored challenge', async () => {
+      const challenge = { accountId: 1 };
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_mfa_token');
+      mockRedis.get.mockResolvedValue(JSON.stringify(challenge));
+
+      const result = await TwoFactorService.getChallenge('mfa_token');
+
+      expect(mockRedis.get).toHaveBeenCalledWith('mfa_challenge:hashed_mfa_token');
+      expect(result).toEqual(challenge);
+    });
+
+    it('should return null for an unknown challenge', async () => {
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_mfa_token');
+      mockRedis.get.mockResolvedValue(null);
+
+      const result = await TwoFactorService.getChallenge('unknown');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('countChallengeAttempt', () => {
+    it('should count the attempt with INCR in a key of its own', async () => {
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_mfa_token');
+      mockRedis.incr.mockResolvedValue(1);
+
+      const result = await TwoFactorService.countChallengeAttempt('mfa_token');
+
+      expect(mockRedis.incr).toHaveBeenCalledWith('mfa_challenge_attempts:hashed_mfa_token');
+      expect(mockRedis.expire).toHaveBeenCalledWith('mfa_challenge_attempts:hashed_mfa_token', 300);
+      expect(mockRedis.del).not.toHaveBeenCalled();
+      expect(result).toBe(true);
+    });
+
+    it('should refuse and drop the challenge once the attempts are used up', async () => {
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_mfa_token');
+      mockRedis.incr.mockResolvedValue(6);
+
+      const result = await TwoFactorService.countChallengeAttempt('mfa_token');
+
+      expect(mockRedis.del).toHaveBeenCalledWith(['mfa_challenge:hashed_mfa_token', 'mfa_challenge_attempts:hashed_mfa_token']);
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('recordChallengeFailure', () => {
+    it('should keep the challenge while attempts are left', async () => {
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_mfa_token');
+      mockRedis.get.mockResolvedValue('2');
+
+      await TwoFactorService.recordChallengeFailure('mfa_token');
+
+      expect(mockRedis.get).toHaveBeenCalledWith('mfa_challenge_attempts:hashed_mfa_token');
+      expect(mockRedis.del).not.toHaveBeenCalled();
+    });
+
+    it('should drop the challenge after too many failures', async () => {
+      mockPasswordUtils.hashToken.mockReturnValue('hashed_mfa_token');
+      mockRedis.get.mockResolvedValue('5');
+
+      await TwoFactorService.recordChallengeFailure('mfa_token');
+
+      expect(mockRedis.del).toHaveBeenCalledWith(['mfa_challenge:hashed_mfa_token', 'mfa_challenge_attempts:hashed_mfa_token']);
+    });
+  });
+});
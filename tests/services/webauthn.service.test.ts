@@ -0,0 +1,389 @@
+import crypto from 'crypto';
+import { WebAuthnService, WebAuthnError } from '../../src/services/webAuthnService';
+import { pool, redisClient } from '../../src/config/database';
+import { Account, WebAuthnCredential } from '../../src/types';
+
+const mockPool = pool as jest.Mocked<typeof pool>;
+const mockRedisClient = redisClient as jest.Mocked<typeof redisClient>;
+
+// Minimal CBOR encoder for the values an authenticator produces
+const encodeHead = (major: number, length: number): Buffer => {
+  if (length < 24) return Buffer.from([(major << 5) | length]);
+  if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+  const head = Buffer.alloc(3);
+  head[0] = (major << 5) | 25;
+  head.writeUInt16BE(length, 1);
+  return head;
+};
+
+const cbor = (value: unknown): Buffer => {
+  if (typeof value === 'number') {
+    return value >= 0 ? encodeHead(0, value) : encodeHead(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([encodeHead(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([encodeHead(2, value.length), value]);
+  }
+  if (value instanceof Map) {
+    const entries = [...value.entries()].flatMap(([key, item]) => [cbor(key), cbor(item)]);
+    return Buffer.concat([encodeHead(5, value.size), ...entries]);
+  }
+  throw new Error('Unsupported value');
+};
+
+// A local fake authenticator holding one P-256 passkey
+class FakeAuthenticator {
+  readonly credentialId = crypto.randomBytes(16);
+  private readonly keys = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  counter = 0;
+  counterless = false;
+
+  constructor(private readonly rpId = 'login.example.com', private readonly origin = 'https://login.example.com') {}
+
+  get id(): string {
+    return this.credentialId.toString('base64url');
+  }
+
+  create(challenge: string, flags = 0x45) {
+    const jwk = this.keys.publicKey.export({ format: 'jwk' });
+    const coseKey = new Map<number, unknown>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, Buffer.from(jwk.x as string, 'base64url')],
+      [-3, Buffer.from(jwk.y as string, 'base64url')]
+    ]);
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(this.credentialId.length);
+    const authData = Buffer.concat([this.authDataHeader(flags), Buffer.alloc(16), idLength, this.credentialId, cbor(coseKey)]);
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: this.clientData('webauthn.create', challenge).toString('base64url'),
+        attestationObject: cbor(new Map<string, unknown>([['fmt', 'none'], ['attStmt', new Map()], ['authData', authData]])).toString('base64url'),
+        transports: ['internal']
+      }
+    };
+  }
+
+  get(challenge: string, flags = 0x05) {
+    if (!this.counterless) this.counter++;
+    const authData = this.authDataHeader(flags);
+    const clientDataJSON = this.clientData('webauthn.get', challenge);
+    const signedData = Buffer.concat([authData, crypto.createHash('sha256').update(clientDataJSON).digest()]);
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        authenticatorData: authData.toString('base64url'),
+        signature: crypto.sign('sha256', signedData, this.keys.privateKey).toString('base64url')
+      }
+    };
+  }
+
+  private authDataHeader(flags: number): Buffer {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.counter);
+    return Buffer.concat([crypto.createHash('sha256').update(this.rpId).digest(), Buffer.from([flags]), counter]);
+  }
+
+  private clientData(type: string, challenge: string): Buffer {
+    return Buffer.from(JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false }));
+  }
+}
+
+describe('WebAuthnService', () => {
+  const originalEnv = process.env;
+
+  const account: Account = {
+    id: 1,
+    email: 'test@example.com',
+    password: 'hashed_password',
+    first_name: 'John',
+    last_name: 'Doe',
+    is_verified: true,
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+
+  let redisStore: Map<string, string>;
+  let credentials: WebAuthnCredential[];
+
+  const register = async (authenticator: FakeAuthenticator, accountId = 1) => {
+    const options = await WebAuthnService.createRegistrationOptions({ ...account, id: accountId });
+    return await WebAuthnService.verifyRegistration(accountId, authenticator.create(options.challenge), 'Laptop');
+  };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, CLIENT_URL: 'https://login.example.com' };
+    delete process.env.WEBAUTHN_RP_ID;
+    delete process.env.WEBAUTHN_ORIGINS;
+
+    redisStore = new Map();
+    mockRedisClient.setEx.mockImplementation(async (key: any, _ttl: any, value: any) => {
+      redisStore.set(key, value);
+      return 'OK' as any;
+    });
+    mockRedisClient.get.mockImplementation(async (key: any) => redisStore.get(key) ?? null);
+    mockRedisClient.del.mockImplementation(async (key: any) => (redisStore.delete(key) ? 1 : 0) as any);
+
+    // In-memory webauthn_credentials table
+    credentials = [];
+    mockPool.execute.mockImplementation((async (query: string, params: any[]) => {
+      if (query.includes('INSERT INTO webauthn_credentials')) {
+        const [accountId, credentialId, publicKey, algorithm, signCount, transports, name] = params;
+        const id = credentials.length + 1;
+        credentials.push({
+          id, account_id: accountId, credential_id: credentialId, public_key: publicKey,
+          algorithm, sign_count: signCount, transports, name, created_at: new Date()
+        });
+        return [{ insertId: id }];
+      }
+      if (query.includes('UPDATE webauthn_credentials')) {
+        const [signCount, id] = params;
+        const credential = credentials.find(item => item.id === id);
+        const increased = credential && (credential.sign_count < signCount || (credential.sign_count === 0 && signCount === 0));
+        if (credential && increased) credential.sign_count = signCount;
+        return [{ affectedRows: increased ? 1 : 0 }];
+      }
+      if (query.includes('WHERE credential_id = ?')) {
+        return [credentials.filter(item => item.credential_id === params[0])];
+      }
+      if (query.includes('WHERE account_id = ?')) {
+        return [credentials.filter(item => item.account_id === params[0])];
+      }
+      return [[]];
+    }) as any);
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('relying party', () => {
+    it('should default to the client URL', () => {
+      expect(WebAuthnService.getRpId()).toBe('login.example.com');
+      expect(WebAuthnService.getAllowedOrigins()).toEqual(['https://login.example.com']);
+    });
+
+    it('should use the configured values', () => {
+      process.env.WEBAUTHN_RP_ID = 'example.com';
+      process.env.WEBAUTHN_ORIGINS = 'https://a.example.com, https://b.example.com';
+
+      expect(WebAuthnService.getRpId()).toBe('example.com');
+      expect(WebAuthnService.getAllowedOrigins()).toEqual(['https://a.example.com', 'https://b.example.com']);
+    });
+  });
+
+  describe('registration', () => {
+    it('should create options that exclude existing passkeys', async () => {
+      const authenticator = new FakeAuthenticator();
+      await register(authenticator);
+
+      const options = await WebAuthnService.createRegistrationOptions(account);
+
+      expect(options.rp.id).toBe('login.example.com');
+      expect(options.user).toEqual({ id: Buffer.from('1').toString('base64url'), name: 'test@example.com', displayName: 'John Doe' });
+      expect(options.pubKeyCredParams.map(param => param.alg)).toEqual([-7, -8, -257]);
+      expect(options.excludeCredentials).toEqual([{ type: 'public-key', id: authenticator.id, transports: ['internal'] }]);
+      expect(mockRedisClient.setEx).toHaveBeenCalledWith(
+        expect.stringMatching(/^webauthn_challenge:/),
+        WebAuthnService.CHALLENGE_TTL_SECONDS,
+        expect.stringContaining('"type":"registration"')
+      );
+    });
+
+    it('should store the public key of a valid attestation', async () => {
+      const authenticator = new FakeAuthenticator();
+
+      const passkey = await register(authenticator);
+
+      expect(passkey).toEqual(expect.objectContaining({
+        account_id: 1,
+        credential_id: authenticator.id,
+        algorithm: -7,
+        sign_count: 0,
+        transports: 'internal',
+        name: 'Laptop'
+      }));
+      expect(passkey.public_key).toContain('BEGIN PUBLIC KEY');
+      expect(credentials).toHaveLength(1);
+    });
+
+    it('should only accept a challenge once', async () => {
+      const authenticator = new FakeAuthenticator();
+      const options = await WebAuthnService.createRegistrationOptions(account);
+      const response = authenticator.create(options.challenge);
+      await WebAuthnService.verifyRegistration(1, response);
+
+      await expect(WebAuthnService.verifyRegistration(1, response)).rejects.toThrow(WebAuthnError);
+    });
+
+    it('should not finish a registration started by another account', async () => {
+      const options = await WebAuthnService.createRegistrationOptions({ ...account, id: 2 });
+
+      await expect(WebAuthnService.verifyRegistration(1, new FakeAuthenticator().create(options.challenge)))
+        .rejects.toThrow('Phiên xác thực passkey không hợp lệ hoặc đã hết hạn');
+    });
+
+    it('should reject another origin', async () => {
+      const options = await WebAuthnService.createRegistrationOptions(account);
+      const authenticator = new FakeAuthenticator('login.example.com', 'https://evil.example.com');
+
+      await expect(WebAuthnService.verifyRegistration(1, authenticator.create(options.challenge)))
+        .rejects.toThrow('Nguồn gốc yêu cầu passkey không hợp lệ');
+    });
+
+    it('should reject a passkey scoped to another relying party', async () => {
+      const options = await WebAuthnService.createRegistrationOptions(account);
+      const authenticator = new FakeAuthenticator('evil.example.com');
+
+      await expect(WebAuthnService.verifyRegistration(1, authenticator.create(options.challenge)))
+        .rejects.toThrow('Passkey không thuộc về trang này');
+    });
+
+    it('should refuse a passkey that is already registered', async () => {
+      const authenticator = new FakeAuthenticator();
+      await register(authenticator);
+
+      const error = await register(authenticator, 2).catch(caught => caught);
+
+      expect(error.statusCode).toBe(409);
+    });
+  });
+
+  describe('authentication', () => {
+    it('should verify a passwordless login and bump the sign counter', async () => {
+      const authenticator = new FakeAuthenticator();
+      await register(authenticator);
+
+      const options = await WebAuthnService.createAuthenticationOptions();
+      const passkey = await WebAuthnService.verifyAuthentication(authenticator.get(options.challenge));
+
+      expect(options.userVerification).toBe('required');
+      expect(options.allowCredentials).toEqual([]);
+      expect(passkey.account_id).toBe(1);
+      expect(credentials[0].sign_count).toBe(1);
+    });
+
+    it('should require user verification for a passwordless login', async () => {
+      const authenticator = new FakeAuthenticator();
+      await register(authenticator);
+
+      const options = await WebAuthnService.createAuthenticationOptions();
+
+      await expect(WebAuthnService.verifyAuthentication(authenticator.get(options.challenge, 0x01)))
+        .rejects.toThrow(WebAuthnError);
+    });
+
+    it('should offer only the account passkeys as a second factor', async () => {
+      const authenticator = new FakeAuthenticator();
+      await register(authenticator);
+
+      const options = await WebAuthnService.createAuthenticationOptions(1);
+      const passkey = await WebAuthnService.verifyAuthentication(authenticator.get(options.challenge, 0x01), 1);
+
+      expect(options.userVerification).toBe('preferred');
+      expect(options.allowCredentials).toEqual([{ type: 'public-key', id: authenticator.id, transports: ['internal'] }]);
+      expect(passkey.id).toBe(1);
+    });
+
+    it('should refuse second factor options for an account without passkeys', async () => {
+      await expect(WebAuthnService.createAuthenticationOptions(1)).rejects.toThrow('Tài khoản chưa đăng ký passkey');
+    });
+
+    it('should not accept a second factor challenge as a login', async () => {
+      const authenticator = new FakeAuthenticator();
+      await register(authenticator);
+
+      const options = await WebAuthnService.createAuthenticationOptions(1);
+
+      await expect(WebAuthnService.verifyAuthentication(authenticator.get(options.challenge)))
+        .rejects.toThrow('Phiên xác thực passkey không hợp lệ hoặc đã hết hạn');
+    });
+
+    it('should refuse a passkey of another account as second factor', async () => {
+      const authenticator = new FakeAuthenticator();
+      await register(authenticator, 2);
+      await register(new FakeAuthenticator());
+
+      const options = await WebAuthnService.createAuthenticationOptions(1);
+      const error = await WebAuthnService.verifyAuthentication(authenticator.get(options.challenge), 1).catch(caught => caught);
+
+      expect(error.statusCode).toBe(401);
+    });
+
+    it('should reject an invalid signature', async () => {
+      const authenticator = new FakeAuthenticator();
+      await register(authenticator);
+
+      const options = await WebAuthnService.createAuthenticationOptions();
+      const response = authenticator.get(options.challenge);
+      response.response.signature = new FakeAuthenticator().get(options.challenge).response.signature;
+
+      await expect(WebAuthnService.verifyAuthentication(response)).rejects.toThrow('Chữ ký passkey không hợp lệ');
+      expect(credentials[0].sign_count).toBe(0);
+    });
+
+    it('should reject a sign counter that went backwards', async () => {
+      const authenticator = new FakeAuthenticator();
+      await register(authenticator);
+      credentials[0].sign_count = 10;
+
+      const options = await WebAuthnService.createAuthenticationOptions();
+
+      await expect(WebAuthnService.verifyAuthentication(authenticator.get(options.challenge)))
+        .rejects.toThrow('Passkey có dấu hiệu bị sao chép. Vui lòng liên hệ quản trị viên');
+    });
+
+    it('should check the counter again when storing it', async () => {
+      const authenticator = new FakeAuthenticator();
+      await register(authenticator);
+      const options = await WebAuthnService.createAuthenticationOptions();
+      const response = authenticator.get(options.challenge);
+
+      // Another assertion stores a higher counter between the lookup and the update
+      const stale = { ...credentials[0] };
+      credentials[0].sign_count = 5;
+      mockPool.execute.mockImplementationOnce((async () => [[stale]]) as any);
+
+      await expect(WebAuthnService.verifyAuthentication(response))
+        .rejects.toThrow('Passkey có dấu hiệu bị sao chép. Vui lòng liên hệ quản trị viên');
+      expect(credentials[0].sign_count).toBe(5);
+    });
+
+    it('should accept authenticators that always report a zero counter', async () => {
+      const authenticator = new FakeAuthenticator();
+      authenticator.counterless = true;
+      await register(authenticator);
+
+      for (let attempt = 0; attempt < 2; attempt++) {
+        const options = await WebAuthnService.createAuthenticationOptions();
+        const passkey = await WebAuthnService.verifyAuthentication(authenticator.get(options.challenge));
+
+        expect(passkey.sign_count).toBe(0);
+      }
+    });
+  });
+
+  describe('deleteCredential', () => {
+    it('should only delete passkeys of the account', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 0 }] as any);
+
+      const deleted = await WebAuthnService.deleteCredential(1, 5);
+
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM webauthn_credentials'), [5, 1]);
+      expect(deleted).toBe(false);
+    });
+  });
+});
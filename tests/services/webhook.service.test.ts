@@ -0,0 +1,209 @@
+jest.mock('../../src/utils');
+
+import crypto from 'crypto';
+import { WebhookService } from '../../src/services/webhookService';
+import { EncryptionUtils, PasswordUtils } from '../../src/utils';
+import { pool } from '../../src/config/database';
+
+const mockPool = pool as jest.Mocked<typeof pool>;
+const mockEncryptionUtils = EncryptionUtils as jest.Mocked<typeof EncryptionUtils>;
+const mockPasswordUtils = PasswordUtils as jest.Mocked<typeof PasswordUtils>;
+
+describe('WebhookService', () => {
+  const httpClient = { post: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockEncryptionUtils.encrypt.mockImplementation(value => `enc(${value})`);
+    mockEncryptionUtils.decrypt.mockImplementation(value => value.replace(/^enc\((.*)\)$/, '$1'));
+    WebhookService.setHttpClient(httpClient);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createSubscription', () => {
+    it('should store a generated secret encrypted and return it once', async () => {
+      mockPasswordUtils.generateSecureToken.mockReturnValue('generated-secret');
+      mockPool.execute
+        .mockResolvedValueOnce([{ insertId: 4 }] as any)
+        .mockResolvedValueOnce([[{ id: 4, url: 'https://hooks.example.com', events: ['*'] }]] as any);
+
+      const result = await WebhookService.createSubscription({ url: 'https://hooks.example.com', events: ['*'] }, 1);
+
+      expect(mockPool.execute).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('INSERT INTO webhook_subscriptions'),
+        ['https://hooks.example.com', '["*"]', 'enc(generated-secret)', null, 1]
+      );
+      expect(result).toEqual({ id: 4, url: 'https://hooks.example.com', events: ['*'], secret: 'generated-secret' });
+    });
+
+    it('should keep a secret given by the admin', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([{ insertId: 4 }] as any)
+        .mockResolvedValueOnce([[{ id: 4 }]] as any);
+
+      const result = await WebhookService.createSubscription({
+        url: 'https://hooks.example.com',
+        events: ['login.failed'],
+        secret: 'shared-secret-value'
+      });
+
+      expect(mockPasswordUtils.generateSecureToken).not.toHaveBeenCalled();
+      expect(result.secret).toBe('shared-secret-value');
+    });
+  });
+
+  describe('updateSubscription', () => {
+    it('should update only the given fields', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await WebhookService.updateSubscription(4, { events: ['role.granted'], is_active: false });
+
+      expect(mockPool.execute).toHaveBeenCalledWith(
+        'UPDATE webhook_subscriptions SET events = ?, is_active = ? WHERE id = ?',
+        ['["role.granted"]', false, 4]
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should do nothing without fields', async () => {
+      await expect(WebhookService.updateSubscription(4, {})).resolves.toBe(false);
+      expect(mockPool.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('queueDeliveries', () => {
+    it('should queue one delivery per matching subscription', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[{ id: 1 }, { id: 3 }]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 2 }] as any);
+
+      await WebhookService.queueDeliveries('login.failed', { account_id: 7 });
+
+      expect(mockPool.execute).toHaveBeenNthCalledWith(1, expect.stringContaining('JSON_CONTAINS'), ['login.failed']);
+      const [query, params] = mockPool.execute.mock.calls[1] as unknown as [string, any[]];
+      expect(query).toContain('VALUES (?, ?, ?), (?, ?, ?)');
+      expect(params[0]).toBe(1);
+      expect(params[3]).toBe(3);
+      expect(params[2]).toBe(params[5]);
+      expect(JSON.parse(params[2])).toEqual({
+        id: expect.any(String),
+        type: 'login.failed',
+        created_at: expect.any(String),
+        data: { account_id: 7 }
+      });
+    });
+
+    it('should not queue anything without subscribers', async () => {
+      mockPool.execute.mockResolvedValueOnce([[]] as any);
+
+      await WebhookService.queueDeliveries('role.revoked', { account_id: 7 });
+
+      expect(mockPool.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let errors through so the outbox retries', async () => {
+      mockPool.execute.mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(WebhookService.queueDeliveries('login.failed', {})).rejects.toThrow('Database error');
+    });
+  });
+
+  describe('sign', () => {
+    it('should sign the timestamp and body with HMAC-SHA256', () => {
+      const expected = crypto.createHmac('sha256', 'secret').update('1700000000.{"a":1}').digest('hex');
+
+      expect(WebhookService.sign('secret', 1700000000, '{"a":1}')).toBe(expected);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double the delay up to an hour', () => {
+      expect(WebhookService.getRetryDelay(1)).toBe(30);
+      expect(WebhookService.getRetryDelay(2)).toBe(60);
+      expect(WebhookService.getRetryDelay(5)).toBe(480);
+      expect(WebhookService.getRetryDelay(9)).toBe(3600);
+    });
+  });
+
+  describe('processDueDeliveries', () => {
+    const payload = { id: 'uuid', type: 'login.failed', created_at: '2024-01-01T00:00:00.000Z', data: {} };
+    const due = { id: 11, payload, attempts: 0, url: 'https://hooks.example.com', secret_encrypted: 'enc(secret)' };
+
+    it('should send a signed delivery and mark it delivered', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[due]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+      httpClient.post.mockResolvedValue({ status: 204 });
+
+      const attempted = await WebhookService.processDueDeliveries();
+
+      const body = JSON.stringify(payload);
+      const [url, sentBody, headers] = httpClient.post.mock.calls[0];
+      const [, timestamp, signature] = headers['X-Webhook-Signature'].match(/^t=(\d+),v1=([0-9a-f]+)$/);
+      expect(url).toBe('https://hooks.example.com');
+      expect(sentBody).toBe(body);
+      expect(headers['X-Webhook-Event']).toBe('login.failed');
+      expect(signature).toBe(WebhookService.sign('secret', Number(timestamp), body));
+      expect(mockPool.execute).toHaveBeenLastCalledWith(expect.stringContaining("status = 'delivered'"), [1, 204, 11]);
+      expect(attempted).toBe(1);
+    });
+
+    it('should schedule a retry after a failed attempt', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[{ ...due, attempts: 2 }]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+      httpClient.post.mockResolvedValue({ status: 500 });
+
+      await WebhookService.processDueDeliveries();
+
+      expect(mockPool.execute).toHaveBeenLastCalledWith(
+        expect.stringContaining('next_attempt_at = DATE_ADD'),
+        ['pending', 3, 500, 'Receiver responded with status 500', 120, 11]
+      );
+    });
+
+    it('should move a delivery to the dead-letter list after the last attempt', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[{ ...due, attempts: WebhookService.MAX_ATTEMPTS - 1 }]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any)
+        .mockResolvedValueOnce([{ affectedRows: 1 }] as any);
+      httpClient.post.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      await WebhookService.processDueDeliveries();
+
+      expect(mockPool.execute).toHaveBeenLastCalledWith(
+        expect.any(String),
+        ['dead', WebhookService.MAX_ATTEMPTS, null, 'connect ECONNREFUSED', 3600, 11]
+      );
+    });
+
+    it('should skip deliveries claimed by another instance', async () => {
+      mockPool.execute
+        .mockResolvedValueOnce([[due]] as any)
+        .mockResolvedValueOnce([{ affectedRows: 0 }] as any);
+
+      const attempted = await WebhookService.processDueDeliveries();
+
+      expect(httpClient.post).not.toHaveBeenCalled();
+      expect(attempted).toBe(0);
+    });
+  });
+
+  describe('retryDelivery', () => {
+    it('should put a dead delivery back in the queue', async () => {
+      mockPool.execute.mockResolvedValue([{ affectedRows: 1 }] as any);
+
+      const result = await WebhookService.retryDelivery(11);
+
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining("WHERE id = ? AND status = 'dead'"), [11]);
+      expect(result).toBe(true);
+    });
+  });
+});
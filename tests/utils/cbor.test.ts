@@ -0,0 +1,70 @@
+import { CborUtils } from '../../src/utils';
+
+const hex = (value: string) => Buffer.from(value, 'hex');
+
+describe('CborUtils', () => {
+  describe('decode', () => {
+    // Examples from RFC 8949 Appendix A
+    it('should decode integers', () => {
+      expect(CborUtils.decode(hex('00'))).toBe(0);
+      expect(CborUtils.decode(hex('17'))).toBe(23);
+      expect(CborUtils.decode(hex('1818'))).toBe(24);
+      expect(CborUtils.decode(hex('1903e8'))).toBe(1000);
+      expect(CborUtils.decode(hex('1a000f4240'))).toBe(1000000);
+      expect(CborUtils.decode(hex('20'))).toBe(-1);
+      expect(CborUtils.decode(hex('3863'))).toBe(-100);
+      expect(CborUtils.decode(hex('390100'))).toBe(-257);
+    });
+
+    it('should decode strings and byte strings', () => {
+      expect(CborUtils.decode(hex('6449455446'))).toBe('IETF');
+      expect(CborUtils.decode(hex('62c3bc'))).toBe('ü');
+      expect(CborUtils.decode(hex('4401020304'))).toEqual(Buffer.from([1, 2, 3, 4]));
+    });
+
+    it('should decode arrays and maps', () => {
+      expect(CborUtils.decode(hex('8301820203820405'))).toEqual([1, [2, 3], [4, 5]]);
+      expect(CborUtils.decode(hex('a201020304'))).toEqual(new Map([[1, 2], [3, 4]]));
+      expect(CborUtils.decode(hex('a26161016162820203'))).toEqual(new Map<unknown, unknown>([['a', 1], ['b', [2, 3]]]));
+    });
+
+    it('should decode simple values and floats', () => {
+      expect(CborUtils.decode(hex('f4'))).toBe(false);
+      expect(CborUtils.decode(hex('f5'))).toBe(true);
+      expect(CborUtils.decode(hex('f6'))).toBeNull();
+      expect(CborUtils.decode(hex('fa47c35000'))).toBe(100000);
+      expect(CborUtils.decode(hex('fb3ff199999999999a'))).toBe(1.1);
+    });
+
+    it('should skip tags', () => {
+      expect(CborUtils.decode(hex('c11a514b67b0'))).toBe(1363896240);
+    });
+
+    it('should reject trailing data', () => {
+      expect(() => CborUtils.decode(hex('0001'))).toThrow();
+    });
+
+    it('should reject truncated data', () => {
+      expect(() => CborUtils.decode(hex('1903'))).toThrow('Truncated CBOR data');
+      expect(() => CborUtils.decode(hex('44010203'))).toThrow('Truncated CBOR data');
+      expect(() => CborUtils.decode(hex('8301'))).toThrow('Truncated CBOR data');
+    });
+
+    it('should reject indefinite lengths', () => {
+      expect(() => CborUtils.decode(hex('9f0102ff'))).toThrow();
+    });
+
+    it('should limit nesting', () => {
+      expect(() => CborUtils.decode(Buffer.alloc(64, 0x81))).toThrow();
+    });
+  });
+
+  describe('decodeFirst', () => {
+    it('should report how many bytes the first item used', () => {
+      const { value, length } = CborUtils.decodeFirst(hex('a10102ffff'));
+
+      expect(value).toEqual(new Map([[1, 2]]));
+      expect(length).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { EncryptionUtils } from '../../src/utils';
+
+describe('EncryptionUtils', () => {
+  const originalKey = process.env.DATA_ENCRYPTION_KEY;
+
+  beforeEach(() => {
+    process.env.DATA_ENCRYPTION_KEY = 'test-data-encryption-key';
+  });
+
+  afterAll(() => {
+    process.env.DATA_ENCRYPTION_KEY = originalKey;
+  });
+
+  it('should round-trip a value', () => {
+    const encrypted = EncryptionUtils.encrypt('JBSWY3DPEHPK3PXP');
+
+    expect(encrypted).not.toContain('JBSWY3DPEHPK3PXP');
+    expect(EncryptionUtils.decrypt(encrypted)).toBe('JBSWY3DPEHPK3PXP');
+  });
+
+  it('should use a random IV for every encryption', () => {
+    expect(EncryptionUtils.encrypt('secret')).not.toBe(EncryptionUtils.encrypt('secret'));
+  });
+
+  it('should reject tampered ciphertext', () => {
+    const [iv, authTag, encrypted] = EncryptionUtils.encrypt('secret').split(':');
+    const tampered = [iv, authTag, encrypted.replace(/^./, c => (c === '0' ? '1' : '0'))].join(':');
+
+    expect(() => EncryptionUtils.decrypt(tampered)).toThrow();
+  });
+
+  it('should fail to decrypt with a different key', () => {
+    const encrypted = EncryptionUtils.encrypt('secret');
+    process.env.DATA_ENCRYPTION_KEY = 'another-key';
+
+    expect(() => EncryptionUtils.decrypt(encrypted)).toThrow();
+  });
+});
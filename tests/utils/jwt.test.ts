@@ -9,6 +9,8 @@ jest.mock('jsonwebtoken', () => ({
 }));
 
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+const actualJWT = jest.requireActual('jsonwebtoken');
 const mockJWT = {
   sign: jwt.sign as jest.MockedFunction<any>,
   verify: jwt.verify as jest.MockedFunction<any>,
@@ -55,7 +57,7 @@ describe('JwtUtils', () => {
         payload,
         process.env.JWT_ACCESS_SECRET,
         expect.objectContaining({
-          expiresIn: '15m',
+          expiresIn: 900,
           issuer: 'volcanion-auth',
           audience: 'volcanion-app'
         })
@@ -75,12 +77,163 @@ describe('JwtUtils', () => {
         { accountId: payload.accountId, email: payload.email },
         process.env.JWT_REFRESH_SECRET,
         expect.objectContaining({
-          expiresIn: '7d',
+          expiresIn: 604800,
           issuer: 'volcanion-auth',
           audience: 'volcanion-app'
         })
       );
     });
+
+    it('should give each token a unique jti', () => {
+      const payload: TokenPayload = {
+        accountId: 1,
+        email: 'test@example.com',
+        permissions: ['read_account']
+      };
+
+      JwtUtils.generateTokens(payload);
+      JwtUtils.generateTokens(payload);
+
+      const jwtIds = mockJWT.sign.mock.calls.map((call: any[]) => call[2].jwtid);
+      expect(jwtIds).toHaveLength(4);
+      expect(new Set(jwtIds).size).toBe(4);
+    });
+  });
+
+  describe('generateClientAccessToken', () => {
+    it('should sign only an access token for the client', () => {
+      const payload = { clientId: 'service_1', scope: 'account:read', permissions: ['view_accounts'] };
+      mockJWT.sign.mockReturnValueOnce('mock-client-token');
+
+      const result = JwtUtils.generateClientAccessToken(payload);
+
+      expect(mockJWT.sign).toHaveBeenCalledTimes(1);
+      expect(mockJWT.sign).toHaveBeenCalledWith(
+        payload,
+        process.env.JWT_ACCESS_SECRET,
+        expect.objectContaining({
+          expiresIn: 15 * 60,
+          issuer: 'volcanion-auth',
+          audience: 'volcanion-app',
+          jwtid: expect.any(String)
+        })
+      );
+      expect(result).toEqual({ accessToken: 'mock-client-token', expiresIn: 15 * 60 });
+    });
+  });
+
+  describe('generateIdToken', () => {
+    const claims = { sub: '1', email: 'test@example.com', nonce: 'n-0S6_WzA2Mj' };
+
+    afterEach(() => {
+      JwtUtils.setKeyRing({ signingKey: null, verificationKeys: [] });
+      mockJWT.sign.mockReset();
+      mockJWT.decode.mockReset();
+    });
+
+    it('should sign the claims for the client under the OIDC issuer with an asymmetric key', () => {
+      const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+      const key = JwtUtils.createSigningKey(privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(), 'ES256', 'key-1');
+      JwtUtils.setKeyRing({ signingKey: key, verificationKeys: [key] });
+      mockJWT.sign.mockImplementation(actualJWT.sign);
+
+      const result = JwtUtils.generateIdToken(claims, 'client_1', 'https://auth.example.com');
+      const decoded = actualJWT.decode(result, { complete: true });
+
+      expect(decoded.header).toEqual(expect.objectContaining({ alg: 'ES256', kid: 'key-1' }));
+      expect(decoded.payload).toEqual(expect.objectContaining({
+        ...claims,
+        iss: 'https://auth.example.com',
+        aud: 'client_1'
+      }));
+      expect(decoded.payload.exp - decoded.payload.iat).toBe(15 * 60);
+    });
+
+    it('should refuse to sign with the shared HS256 secret', () => {
+      expect(() => JwtUtils.generateIdToken(claims, 'client_1', 'https://auth.example.com'))
+        .toThrow('ID tokens require an RS256 or ES256 signing key');
+      expect(mockJWT.sign).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('signAuditExport', () => {
+    const claims = {
+      from: '2024-01-01T00:00:00.000Z',
+      to: '2024-02-01T00:00:00.000Z',
+      count: 2,
+      first_id: 1,
+      last_id: 2,
+      start_hash: '0'.repeat(64),
+      end_hash: 'b'.repeat(64)
+    };
+
+    const createEcKey = (kid: string) => {
+      const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+      return JwtUtils.createSigningKey(privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(), 'ES256', kid);
+    };
+
+    beforeEach(() => {
+      mockJWT.sign.mockImplementation(actualJWT.sign);
+      mockJWT.decode.mockImplementation(actualJWT.decode);
+    });
+
+    afterEach(() => {
+      JwtUtils.setKeyRing({ signingKey: null, verificationKeys: [] });
+      JwtUtils.setAuditExportKeys([]);
+      mockJWT.sign.mockReset();
+      mockJWT.decode.mockReset();
+    });
+
+    it('should sign with the newest export key and without an expiry', () => {
+      JwtUtils.setAuditExportKeys([createEcKey('export-2'), createEcKey('export-1')]);
+
+      const decoded = actualJWT.decode(JwtUtils.signAuditExport(claims), { complete: true });
+
+      expect(decoded.header).toEqual(expect.objectContaining({ alg: 'ES256', kid: 'export-2' }));
+      expect(decoded.payload).toEqual(expect.objectContaining({ ...claims, aud: 'volcanion-audit-export' }));
+      expect(decoded.payload).not.toHaveProperty('exp');
+    });
+
+    it('should never sign with the access token secret', () => {
+      expect(() => JwtUtils.signAuditExport(claims)).toThrow('Audit export signing key is not loaded');
+      expect(mockJWT.sign).not.toHaveBeenCalled();
+    });
+
+    it('should stay verifiable through the JWKS after the token keys rotated', () => {
+      const oldKey = createEcKey('old-key');
+      const newKey = createEcKey('new-key');
+      JwtUtils.setAuditExportKeys([createEcKey('export-key')]);
+      JwtUtils.setKeyRing({ signingKey: oldKey, verificationKeys: [oldKey] });
+
+      const signature = JwtUtils.signAuditExport(claims);
+
+      // The old token key has left the ring, as it does once its grace period is over
+      JwtUtils.setKeyRing({ signingKey: newKey, verificationKeys: [newKey] });
+
+      const { kid } = actualJWT.decode(signature, { complete: true }).header;
+      const jwk = JwtUtils.getJwks().keys.find(key => key.kid === kid);
+      const publicKey = crypto.createPublicKey({ key: { ...jwk }, format: 'jwk' });
+
+      expect(JwtUtils.getJwks().keys.map(key => key.kid)).toEqual(['new-key', 'export-key']);
+      expect(actualJWT.verify(signature, publicKey, {
+        issuer: 'volcanion-auth',
+        audience: 'volcanion-audit-export',
+        algorithms: ['ES256']
+      })).toEqual(expect.objectContaining(claims));
+    });
+  });
+
+  describe('isClientToken', () => {
+    it('should tell client tokens from user tokens', () => {
+      expect(JwtUtils.isClientToken({ clientId: 'service_1', scope: 'account:read', permissions: [] })).toBe(true);
+      expect(JwtUtils.isClientToken({ accountId: 1, email: 'test@example.com', clientId: 'client_1' })).toBe(false);
+    });
+  });
+
+  describe('getAccessTokenExpiresIn', () => {
+    it('should return the access token lifetime in seconds', () => {
+      expect(JwtUtils.getAccessTokenExpiresIn()).toBe(15 * 60);
+    });
   });
 
   describe('verifyAccessToken', () => {
@@ -144,6 +297,193 @@ describe('JwtUtils', () => {
     });
   });
 
+  describe('asymmetric signing', () => {
+    const payload: TokenPayload = {
+      accountId: 1,
+      email: 'test@example.com',
+      permissions: ['read_account']
+    };
+
+    const useRealJwt = () => {
+      mockJWT.sign.mockImplementation(actualJWT.sign);
+      mockJWT.verify.mockImplementation(actualJWT.verify);
+      mockJWT.decode.mockImplementation(actualJWT.decode);
+    };
+
+    beforeEach(() => {
+      useRealJwt();
+    });
+
+    afterEach(() => {
+      delete process.env.JWT_ALGORITHM;
+      delete process.env.JWT_PRIVATE_KEY;
+      delete process.env.JWT_KEY_ID;
+      mockJWT.sign.mockReset();
+      mockJWT.verify.mockReset();
+      mockJWT.decode.mockReset();
+    });
+
+    it('should sign and verify RS256 tokens with a kid header', () => {
+      const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      process.env.JWT_ALGORITHM = 'RS256';
+      process.env.JWT_PRIVATE_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+      process.env.JWT_KEY_ID = 'rsa-key-1';
+
+      const tokens = JwtUtils.generateTokens(payload);
+      const header = actualJWT.decode(tokens.accessToken, { complete: true }).header;
+
+      expect(header).toEqual(expect.objectContaining({ alg: 'RS256', kid: 'rsa-key-1' }));
+      expect(JwtUtils.verifyAccessToken(tokens.accessToken)).toEqual(expect.objectContaining({ accountId: 1 }));
+    });
+
+    it('should sign and verify ES256 tokens', () => {
+      const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+      process.env.JWT_ALGORITHM = 'ES256';
+      process.env.JWT_PRIVATE_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+      const tokens = JwtUtils.generateTokens(payload);
+
+      expect(JwtUtils.verifyAccessToken(tokens.accessToken)).toEqual(expect.objectContaining({ accountId: 1 }));
+    });
+
+    it('should reject a token signed with an unknown kid', () => {
+      const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+      process.env.JWT_ALGORITHM = 'ES256';
+      process.env.JWT_PRIVATE_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+      const forged = actualJWT.sign(payload, privateKey, { algorithm: 'ES256', keyid: 'other-key' });
+
+      expect(() => JwtUtils.verifyAccessToken(forged)).toThrow('unknown signing key');
+    });
+
+    it('should reject a key that does not match the algorithm', () => {
+      const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+      process.env.JWT_ALGORITHM = 'RS256';
+      process.env.JWT_PRIVATE_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+      expect(() => JwtUtils.generateTokens(payload)).toThrow('RS256 requires an RSA private key');
+    });
+
+    it('should publish the public key as a JWK with a thumbprint kid', () => {
+      const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+      process.env.JWT_ALGORITHM = 'ES256';
+      process.env.JWT_PRIVATE_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+      const jwks = JwtUtils.getJwks();
+      const tokens = JwtUtils.generateTokens(payload);
+      const header = actualJWT.decode(tokens.accessToken, { complete: true }).header;
+
+      expect(jwks.keys).toHaveLength(1);
+      expect(jwks.keys[0]).toEqual(expect.objectContaining({ kty: 'EC', crv: 'P-256', alg: 'ES256', use: 'sig' }));
+      expect(jwks.keys[0]).not.toHaveProperty('d');
+      expect(jwks.keys[0].kid).toBe(header.kid);
+    });
+
+    it('should publish no keys for HS256', () => {
+      expect(JwtUtils.getJwks()).toEqual({ keys: [] });
+    });
+  });
+
+  describe('key ring', () => {
+    const payload: TokenPayload = {
+      accountId: 1,
+      email: 'test@example.com',
+      permissions: ['read_account']
+    };
+
+    const createEcKey = (kid: string) => {
+      const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+      return JwtUtils.createSigningKey(privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(), 'ES256', kid);
+    };
+
+    beforeEach(() => {
+      mockJWT.sign.mockImplementation(actualJWT.sign);
+      mockJWT.verify.mockImplementation(actualJWT.verify);
+      mockJWT.decode.mockImplementation(actualJWT.decode);
+    });
+
+    afterEach(() => {
+      JwtUtils.setKeyRing({ signingKey: null, verificationKeys: [] });
+      mockJWT.sign.mockReset();
+      mockJWT.verify.mockReset();
+      mockJWT.decode.mockReset();
+    });
+
+    it('should sign with the active key and keep verifying tokens from a retired key', () => {
+      const oldKey = createEcKey('old-key');
+      const newKey = createEcKey('new-key');
+
+      JwtUtils.setKeyRing({ signingKey: oldKey, verificationKeys: [oldKey] });
+      const oldTokens = JwtUtils.generateTokens(payload);
+
+      JwtUtils.setKeyRing({ signingKey: newKey, verificationKeys: [newKey, oldKey] });
+      const newTokens = JwtUtils.generateTokens(payload);
+
+      expect(actualJWT.decode(newTokens.accessToken, { complete: true }).header.kid).toBe('new-key');
+      expect(JwtUtils.verifyAccessToken(oldTokens.accessToken)).toMatchObject({ accountId: 1 });
+      expect(JwtUtils.verifyAccessToken(newTokens.accessToken)).toMatchObject({ accountId: 1 });
+    });
+
+    it('should reject tokens from a key that left the ring', () => {
+      const oldKey = createEcKey('old-key');
+      const newKey = createEcKey('new-key');
+
+      JwtUtils.setKeyRing({ signingKey: oldKey, verificationKeys: [oldKey] });
+      const oldTokens = JwtUtils.generateTokens(payload);
+
+      JwtUtils.setKeyRing({ signingKey: newKey, verificationKeys: [newKey] });
+
+      expect(() => JwtUtils.verifyAccessToken(oldTokens.accessToken)).toThrow();
+    });
+
+    it('should support rotating HS256 secrets', () => {
+      const secretKey = JwtUtils.createSecretSigningKey(crypto.randomBytes(64).toString('base64'), 'hs-key');
+      JwtUtils.setKeyRing({ signingKey: secretKey, verificationKeys: [secretKey] });
+
+      const tokens = JwtUtils.generateTokens(payload);
+
+      expect(actualJWT.decode(tokens.accessToken, { complete: true }).header).toEqual(
+        expect.objectContaining({ alg: 'HS256', kid: 'hs-key' })
+      );
+      expect(JwtUtils.verifyAccessToken(tokens.accessToken)).toMatchObject({ accountId: 1 });
+      expect(JwtUtils.getJwks()).toEqual({ keys: [] });
+    });
+
+    it('should accept tokens signed with the environment secret while the ring is empty', () => {
+      process.env.JWT_ACCESS_SECRET = 'legacy-secret';
+      const legacyToken = actualJWT.sign(payload, 'legacy-secret', {
+        issuer: 'volcanion-auth',
+        audience: 'volcanion-app'
+      });
+
+      expect(JwtUtils.verifyAccessToken(legacyToken)).toMatchObject({ accountId: 1 });
+      delete process.env.JWT_ACCESS_SECRET;
+    });
+
+    it('should reject tokens signed with the environment secret once the ring is loaded', () => {
+      process.env.JWT_ACCESS_SECRET = 'legacy-secret';
+      const legacyToken = actualJWT.sign(payload, 'legacy-secret', {
+        issuer: 'volcanion-auth',
+        audience: 'volcanion-app'
+      });
+      const ringKey = createEcKey('ring-key');
+      JwtUtils.setKeyRing({ signingKey: ringKey, verificationKeys: [ringKey] });
+
+      expect(() => JwtUtils.verifyAccessToken(legacyToken)).toThrow('unknown signing key');
+      delete process.env.JWT_ACCESS_SECRET;
+    });
+
+    it('should publish every asymmetric key in the ring', () => {
+      const activeKey = createEcKey('active-key');
+      const pendingKey = createEcKey('pending-key');
+      JwtUtils.setKeyRing({ signingKey: activeKey, verificationKeys: [pendingKey, activeKey] });
+
+      const jwks = JwtUtils.getJwks();
+
+      expect(jwks.keys.map(key => key.kid)).toEqual(['pending-key', 'active-key']);
+    });
+  });
+
   describe('private methods test coverage', () => {
     it('should handle token expiration calculation', () => {
       // Test through generateTokens which calls private getTokenExpirationTime
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { PasswordUtils } from '../../src/utils';
 
 // Mock bcryptjs
@@ -28,6 +29,13 @@ describe('PasswordUtils', () => {
       expect(hashedPassword).toBe(expectedHash);
     });
 
+    it('should return false for accounts without a password', async () => {
+      const result = await PasswordUtils.compare('testPassword123', null);
+
+      expect(mockCompare).not.toHaveBeenCalled();
+      expect(result).toBe(false);
+    });
+
     it('should handle empty password', async () => {
       const password = '';
       const expectedHash = 'hashed_';
@@ -120,4 +128,18 @@ describe('PasswordUtils', () => {
       expect(hash1).not.toBe(hash2);
     });
   });
+
+  describe('generateNumericCode', () => {
+    it('should generate a 6-digit code by default', () => {
+      expect(PasswordUtils.generateNumericCode()).toMatch(/^\d{6}$/);
+    });
+
+    it('should keep leading zeros', () => {
+      const randomInt = jest.spyOn(crypto, 'randomInt').mockImplementation(() => 42);
+
+      expect(PasswordUtils.generateNumericCode(6)).toBe('000042');
+
+      randomInt.mockRestore();
+    });
+  });
 });
@@ -0,0 +1,66 @@
+import { TotpUtils } from '../../src/utils';
+
+// RFC 6238 Appendix B test secret ("12345678901234567890" in base32)
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TotpUtils', () => {
+  describe('generateSecret', () => {
+    it('should generate a 32 character base32 secret', () => {
+      const secret = TotpUtils.generateSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    });
+
+    it('should generate unique secrets', () => {
+      expect(TotpUtils.generateSecret()).not.toBe(TotpUtils.generateSecret());
+    });
+  });
+
+  describe('generateCode', () => {
+    it('should match the RFC 6238 SHA1 test vectors', () => {
+      expect(TotpUtils.generateCode(RFC_SECRET, TotpUtils.getTimeStep(59 * 1000))).toBe('287082');
+      expect(TotpUtils.generateCode(RFC_SECRET, TotpUtils.getTimeStep(1111111109 * 1000))).toBe('081804');
+      expect(TotpUtils.generateCode(RFC_SECRET, TotpUtils.getTimeStep(1234567890 * 1000))).toBe('005924');
+      expect(TotpUtils.generateCode(RFC_SECRET, TotpUtils.getTimeStep(2000000000 * 1000))).toBe('279037');
+    });
+  });
+
+  describe('verifyCode', () => {
+    const time = 1111111109 * 1000;
+
+    it('should accept the current code and return its time step', () => {
+      const result = TotpUtils.verifyCode(RFC_SECRET, '081804', 1, time);
+
+      expect(result).toBe(TotpUtils.getTimeStep(time));
+    });
+
+    it('should accept a code from the previous time step within the window', () => {
+      const previousCode = TotpUtils.generateCode(RFC_SECRET, TotpUtils.getTimeStep(time) - 1);
+
+      expect(TotpUtils.verifyCode(RFC_SECRET, previousCode, 1, time)).toBe(TotpUtils.getTimeStep(time) - 1);
+    });
+
+    it('should reject a code outside the window', () => {
+      const oldCode = TotpUtils.generateCode(RFC_SECRET, TotpUtils.getTimeStep(time) - 3);
+
+      expect(TotpUtils.verifyCode(RFC_SECRET, oldCode, 1, time)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(TotpUtils.verifyCode(RFC_SECRET, '12345', 1, time)).toBeNull();
+      expect(TotpUtils.verifyCode(RFC_SECRET, 'abcdef', 1, time)).toBeNull();
+    });
+  });
+
+  describe('buildOtpAuthUrl', () => {
+    it('should build an otpauth URL for authenticator apps', () => {
+      const url = TotpUtils.buildOtpAuthUrl('JBSWY3DPEHPK3PXP', 'user@example.com', 'Volcanion Auth');
+
+      expect(url).toMatch(/^otpauth:\/\/totp\/Volcanion%20Auth%3Auser%40example\.com\?/);
+      expect(url).toContain('secret=JBSWY3DPEHPK3PXP');
+      expect(url).toContain('issuer=Volcanion+Auth');
+      expect(url).toContain('digits=6');
+      expect(url).toContain('period=30');
+    });
+  });
+});
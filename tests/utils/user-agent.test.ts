@@ -0,0 +1,43 @@
+import { UserAgentUtils } from '../../src/utils';
+
+describe('UserAgentUtils', () => {
+  describe('parse', () => {
+    it('should recognise desktop browsers', () => {
+      expect(UserAgentUtils.parse(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+      )).toEqual({ browser: 'Chrome', os: 'Windows', device: 'desktop' });
+
+      expect(UserAgentUtils.parse(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.2210.91'
+      )).toEqual({ browser: 'Edge', os: 'Windows', device: 'desktop' });
+
+      expect(UserAgentUtils.parse(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_2) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15'
+      )).toEqual({ browser: 'Safari', os: 'macOS', device: 'desktop' });
+
+      expect(UserAgentUtils.parse(
+        'Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0'
+      )).toEqual({ browser: 'Firefox', os: 'Linux', device: 'desktop' });
+    });
+
+    it('should recognise phones and tablets', () => {
+      expect(UserAgentUtils.parse(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1'
+      )).toEqual({ browser: 'Safari', os: 'iOS', device: 'mobile' });
+
+      expect(UserAgentUtils.parse(
+        'Mozilla/5.0 (Linux; Android 14; SM-S918B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/23.0 Chrome/115.0.0.0 Mobile Safari/537.36'
+      )).toEqual({ browser: 'Samsung Internet', os: 'Android', device: 'mobile' });
+
+      expect(UserAgentUtils.parse(
+        'Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+      )).toEqual({ browser: 'Chrome', os: 'Android', device: 'tablet' });
+    });
+
+    it('should fall back for unknown or missing user agents', () => {
+      expect(UserAgentUtils.parse('curl/8.4.0')).toEqual({ browser: null, os: null, device: 'unknown' });
+      expect(UserAgentUtils.parse(undefined)).toEqual({ browser: null, os: null, device: 'unknown' });
+      expect(UserAgentUtils.parse('Googlebot/2.1 (+http://www.google.com/bot.html)').device).toBe('bot');
+    });
+  });
+});
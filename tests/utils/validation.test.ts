@@ -82,6 +82,25 @@ describe('ValidationUtils', () => {
     });
   });
 
+  describe('normalizePhone', () => {
+    it('should convert Vietnamese numbers to the +84 form', () => {
+      expect(ValidationUtils.normalizePhone('0912345678')).toBe('+84912345678');
+      expect(ValidationUtils.normalizePhone('84912345678')).toBe('+84912345678');
+      expect(ValidationUtils.normalizePhone('+84912345678')).toBe('+84912345678');
+    });
+
+    it('should ignore spaces, dots and dashes', () => {
+      expect(ValidationUtils.normalizePhone('0912 345 678')).toBe('+84912345678');
+      expect(ValidationUtils.normalizePhone('091-234.5678')).toBe('+84912345678');
+    });
+
+    it('should return null for invalid numbers', () => {
+      expect(ValidationUtils.normalizePhone('')).toBeNull();
+      expect(ValidationUtils.normalizePhone('123456789')).toBeNull();
+      expect(ValidationUtils.normalizePhone('0187654321')).toBeNull();
+    });
+  });
+
   describe('isValidPassword', () => {
     it('should return true for valid passwords', () => {
       const validPasswords = [
@@ -113,6 +132,37 @@ describe('ValidationUtils', () => {
     });
   });
 
+  describe('isValidRedirectUri', () => {
+    it('should return true for valid redirect URIs', () => {
+      const validUris = [
+        'https://app.example.com/callback',
+        'https://app.example.com/callback?tenant=1',
+        'http://127.0.0.1:8080/callback',
+        'http://localhost:3000/callback',
+        'com.example.app:/callback'
+      ];
+
+      validUris.forEach(uri => {
+        expect(ValidationUtils.isValidRedirectUri(uri)).toBe(true);
+      });
+    });
+
+    it('should return false for invalid redirect URIs', () => {
+      const invalidUris = [
+        '',                                        // empty
+        '/callback',                               // relative
+        'http://app.example.com/callback',         // plain http outside loopback
+        'https://app.example.com/callback#token',  // fragment
+        'javascript:alert(1)',                     // not a reverse-domain scheme
+        'myapp:/callback'                          // private scheme without a domain
+      ];
+
+      invalidUris.forEach(uri => {
+        expect(ValidationUtils.isValidRedirectUri(uri)).toBe(false);
+      });
+    });
+  });
+
   describe('sanitizeString', () => {
     it('should trim whitespace and remove dangerous characters', () => {
       const input = '  <script>alert("xss")</script>  ';